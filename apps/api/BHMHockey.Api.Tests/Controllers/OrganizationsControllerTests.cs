@@ -21,6 +21,7 @@ public class OrganizationsControllerTests
     private readonly Mock<IOrganizationAdminService> _mockAdminService;
     private readonly Mock<IOrganizationAutoRosterService> _mockAutoRosterService;
     private readonly Mock<IOrganizationWaiverService> _mockWaiverService;
+    private readonly Mock<IEventService> _mockEventService;
     private readonly OrganizationsController _controller;
     private readonly Guid _testUserId = Guid.NewGuid();
 
@@ -30,11 +31,14 @@ public class OrganizationsControllerTests
         _mockAdminService = new Mock<IOrganizationAdminService>();
         _mockAutoRosterService = new Mock<IOrganizationAutoRosterService>();
         _mockWaiverService = new Mock<IOrganizationWaiverService>();
+        _mockEventService = new Mock<IEventService>();
         _controller = new OrganizationsController(
             _mockOrgService.Object,
             _mockAdminService.Object,
             _mockAutoRosterService.Object,
             _mockWaiverService.Object,
+            _mockEventService.Object,
+            Mock.Of<IOrganizationAnnouncementService>(),
             Mock.Of<ILogger<OrganizationsController>>());
     }
 
@@ -658,6 +662,47 @@ public class OrganizationsControllerTests
 
     #endregion
 
+    #region Member Games Tests
+
+    [Fact]
+    public async Task GetMemberGames_AsAdmin_ReturnsHistoryForOrganization()
+    {
+        // Arrange
+        SetupAuthenticatedUser(_testUserId);
+        var orgId = Guid.NewGuid();
+        var memberId = Guid.NewGuid();
+        var history = new GameHistoryResponse(
+            new List<GameHistoryItemDto>(), 0, false,
+            new GameHistorySummaryDto(0, 0, 0, 0, 0, 0, new List<GameHistoryMonthCount>(), new List<GameHistoryOrganizationCount>()));
+        _mockAdminService.Setup(s => s.IsUserAdminAsync(orgId, _testUserId)).ReturnsAsync(true);
+        _mockEventService.Setup(s => s.GetGameHistoryAsync(memberId, _testUserId, orgId, 0, 20)).ReturnsAsync(history);
+
+        // Act
+        var result = await _controller.GetMemberGames(orgId, memberId);
+
+        // Assert
+        result.Result.Should().BeOfType<OkObjectResult>();
+        (result.Result as OkObjectResult)!.Value.Should().Be(history);
+    }
+
+    [Fact]
+    public async Task GetMemberGames_AsNonAdmin_ReturnsForbidden()
+    {
+        // Arrange
+        SetupAuthenticatedUser(_testUserId);
+        var orgId = Guid.NewGuid();
+        _mockAdminService.Setup(s => s.IsUserAdminAsync(orgId, _testUserId)).ReturnsAsync(false);
+
+        // Act
+        var result = await _controller.GetMemberGames(orgId, Guid.NewGuid());
+
+        // Assert
+        result.Result.Should().BeOfType<ForbidResult>();
+        _mockEventService.Verify(s => s.GetGameHistoryAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<Guid?>(), It.IsAny<int>(), It.IsAny<int>()), Times.Never);
+    }
+
+    #endregion
+
     #region Helper Methods
 
     private void SetupAuthenticatedUser(Guid userId, string role = "Organizer")
@@ -43,6 +43,8 @@ public class UsersControllerTests
             _mockTournamentTeamMemberService.Object,
             _mockTournamentService.Object,
             _mockWaiverService.Object,
+            Mock.Of<ICalendarFeedService>(),
+            Mock.Of<INotificationPreferenceService>(),
             Mock.Of<ILogger<UsersController>>());
     }
 
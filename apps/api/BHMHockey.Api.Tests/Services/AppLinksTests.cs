@@ -0,0 +1,42 @@
+using System.Text.Json;
+using BHMHockey.Api.Services;
+using FluentAssertions;
+using Xunit;
+
+namespace BHMHockey.Api.Tests.Services;
+
+/// <summary>
+/// Tests for AppLinks - the universal link and app link association files.
+/// </summary>
+public class AppLinksTests
+{
+    [Fact]
+    public void BuildAppleAppSiteAssociation_UsesTeamPrefixedAppIdAndLinkPaths()
+    {
+        // Act
+        var json = AppLinks.BuildAppleAppSiteAssociation("ABCDE12345", "com.bhmhockey.app");
+
+        // Assert
+        using var document = JsonDocument.Parse(json);
+        var details = document.RootElement.GetProperty("applinks").GetProperty("details")[0];
+        details.GetProperty("appIDs")[0].GetString().Should().Be("ABCDE12345.com.bhmhockey.app");
+        details.GetProperty("components").EnumerateArray()
+            .Select(c => c.GetProperty("/").GetString())
+            .Should().Contain(new[] { "/events/*", "/invite/*" });
+    }
+
+    [Fact]
+    public void BuildAssetLinks_ListsPackageAndFingerprints()
+    {
+        // Act
+        var json = AppLinks.BuildAssetLinks("com.bhmhockey.app", new[] { "aa:bb:cc" });
+
+        // Assert
+        using var document = JsonDocument.Parse(json);
+        var statement = document.RootElement[0];
+        statement.GetProperty("relation")[0].GetString().Should().Be("delegate_permission/common.handle_all_urls");
+        var target = statement.GetProperty("target");
+        target.GetProperty("package_name").GetString().Should().Be("com.bhmhockey.app");
+        target.GetProperty("sha256_cert_fingerprints")[0].GetString().Should().Be("AA:BB:CC");
+    }
+}
@@ -0,0 +1,448 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using BHMHockey.Api.Services;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Xunit;
+
+namespace BHMHockey.Api.Tests.Services;
+
+/// <summary>
+/// Tests for BadgeAdminService - badge types, manual awards and automatic rules.
+/// </summary>
+public class BadgeAdminServiceTests : IDisposable
+{
+    private readonly AppDbContext _context;
+    private readonly BadgeAdminService _sut;
+
+    public BadgeAdminServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<AppDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        _context = new AppDbContext(options);
+        _sut = new BadgeAdminService(_context);
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Helper Methods
+
+    private async Task<User> CreateTestUser(string email)
+    {
+        var user = new User
+        {
+            Id = Guid.NewGuid(),
+            Email = email,
+            PasswordHash = "hashed_password",
+            FirstName = "John",
+            LastName = "Doe",
+            Role = "Player",
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Users.Add(user);
+        await _context.SaveChangesAsync();
+        return user;
+    }
+
+    private async Task<BadgeType> CreateBadgeType(string code)
+    {
+        var badgeType = new BadgeType
+        {
+            Id = Guid.NewGuid(),
+            Code = code,
+            Name = $"Badge {code}",
+            Description = $"Test badge: {code}",
+            IconName = $"icon_{code}",
+            Category = "achievement",
+            CreatedAt = DateTime.UtcNow
+        };
+
+        _context.BadgeTypes.Add(badgeType);
+        await _context.SaveChangesAsync();
+        return badgeType;
+    }
+
+    private async Task<BadgeRule> CreateRule(Guid badgeTypeId, string trigger, int threshold, bool isActive = true)
+    {
+        var rule = new BadgeRule
+        {
+            Id = Guid.NewGuid(),
+            BadgeTypeId = badgeTypeId,
+            Trigger = trigger,
+            Threshold = threshold,
+            IsActive = isActive
+        };
+
+        _context.BadgeRules.Add(rule);
+        await _context.SaveChangesAsync();
+        return rule;
+    }
+
+    private async Task<Tournament> CreateTestTournament(Guid creatorId, string name, string status = "Completed")
+    {
+        var tournament = new Tournament
+        {
+            Id = Guid.NewGuid(),
+            CreatorId = creatorId,
+            Name = name,
+            Format = "RoundRobin",
+            TeamFormation = "OrganizerAssigned",
+            Status = status,
+            StartDate = new DateTime(2026, 3, 1, 0, 0, 0, DateTimeKind.Utc),
+            EndDate = new DateTime(2026, 3, 2, 0, 0, 0, DateTimeKind.Utc),
+            CompletedAt = status == "Completed" ? new DateTime(2026, 3, 2, 0, 0, 0, DateTimeKind.Utc) : null,
+            MaxTeams = 8,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Tournaments.Add(tournament);
+        await _context.SaveChangesAsync();
+        return tournament;
+    }
+
+    private async Task<TournamentTeam> CreateTestTeam(Guid tournamentId, int? finalPlacement, params User[] players)
+    {
+        var team = new TournamentTeam
+        {
+            Id = Guid.NewGuid(),
+            TournamentId = tournamentId,
+            Name = $"Team {finalPlacement}",
+            Status = "Active",
+            FinalPlacement = finalPlacement,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.TournamentTeams.Add(team);
+        foreach (var player in players)
+        {
+            _context.TournamentTeamMembers.Add(new TournamentTeamMember
+            {
+                Id = Guid.NewGuid(),
+                TeamId = team.Id,
+                UserId = player.Id,
+                Status = "Accepted"
+            });
+        }
+        await _context.SaveChangesAsync();
+        return team;
+    }
+
+    private async Task PlayGames(Guid creatorId, User player, int count, string status = "Registered", DateTime? eventDate = null)
+    {
+        for (var i = 0; i < count; i++)
+        {
+            var evt = new Event
+            {
+                Id = Guid.NewGuid(),
+                CreatorId = creatorId,
+                EventDate = eventDate ?? DateTime.UtcNow.AddDays(-(i + 1)),
+                Duration = 60,
+                Status = "Published",
+                CreatedAt = DateTime.UtcNow,
+                UpdatedAt = DateTime.UtcNow
+            };
+            _context.Events.Add(evt);
+            _context.EventRegistrations.Add(new EventRegistration
+            {
+                Id = Guid.NewGuid(),
+                EventId = evt.Id,
+                UserId = player.Id,
+                Status = status
+            });
+        }
+        await _context.SaveChangesAsync();
+    }
+
+    #endregion
+
+    #region Badge Type Tests
+
+    [Fact]
+    public async Task CreateBadgeTypeAsync_CreatesBadgeType()
+    {
+        // Act
+        var result = await _sut.CreateBadgeTypeAsync(new CreateBadgeTypeRequest(
+            "fifty_games", "Fifty Games", "Played 50 games", "star_teal", "milestone", 5));
+
+        // Assert
+        result.Code.Should().Be("fifty_games");
+        result.Category.Should().Be("milestone");
+        var saved = await _context.BadgeTypes.SingleAsync();
+        saved.SortPriority.Should().Be(5);
+    }
+
+    [Fact]
+    public async Task CreateBadgeTypeAsync_ThrowsOnDuplicateCode()
+    {
+        // Arrange
+        await CreateBadgeType("tournament_winner");
+
+        // Act
+        var act = () => _sut.CreateBadgeTypeAsync(new CreateBadgeTypeRequest(
+            "tournament_winner", "Champion", "Won", "trophy_gold", "achievement", null));
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*already exists*");
+    }
+
+    [Fact]
+    public async Task CreateBadgeTypeAsync_ThrowsOnInvalidCategory()
+    {
+        // Act
+        var act = () => _sut.CreateBadgeTypeAsync(new CreateBadgeTypeRequest(
+            "code", "Name", "Description", "icon", "legendary", null));
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*Invalid category*");
+    }
+
+    #endregion
+
+    #region Award Tests
+
+    [Fact]
+    public async Task AwardBadgeAsync_AwardsUncelebratedBadge()
+    {
+        // Arrange
+        var user = await CreateTestUser("player@example.com");
+        var badgeType = await CreateBadgeType("beta_tester");
+        var context = new Dictionary<string, object> { { "description", "Helped test the app" } };
+
+        // Act
+        var result = await _sut.AwardBadgeAsync(new AwardBadgeRequest(user.Id, badgeType.Id, context, null));
+
+        // Assert
+        result.BadgeType.Code.Should().Be("beta_tester");
+        var saved = await _context.UserBadges.SingleAsync();
+        saved.UserId.Should().Be(user.Id);
+        saved.CelebratedAt.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task AwardBadgeAsync_ThrowsWhenUserAlreadyHasBadge()
+    {
+        // Arrange
+        var user = await CreateTestUser("player@example.com");
+        var badgeType = await CreateBadgeType("beta_tester");
+        await _sut.AwardBadgeAsync(new AwardBadgeRequest(user.Id, badgeType.Id, null, null));
+
+        // Act
+        var act = () => _sut.AwardBadgeAsync(new AwardBadgeRequest(user.Id, badgeType.Id, null, null));
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*already has this badge*");
+    }
+
+    [Fact]
+    public async Task RevokeBadgeAsync_RemovesBadge()
+    {
+        // Arrange
+        var user = await CreateTestUser("player@example.com");
+        var badgeType = await CreateBadgeType("beta_tester");
+        var badge = await _sut.AwardBadgeAsync(new AwardBadgeRequest(user.Id, badgeType.Id, null, null));
+
+        // Act
+        var result = await _sut.RevokeBadgeAsync(badge.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        (await _context.UserBadges.AnyAsync()).Should().BeFalse();
+    }
+
+    #endregion
+
+    #region Rule Tests
+
+    [Fact]
+    public async Task CreateBadgeRuleAsync_ThrowsOnInvalidThreshold()
+    {
+        // Arrange
+        var badgeType = await CreateBadgeType("tournament_winner");
+
+        // Act
+        var act = () => _sut.CreateBadgeRuleAsync(new CreateBadgeRuleRequest(badgeType.Id, "TournamentPlacement", 0));
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*at least 1*");
+    }
+
+    [Fact]
+    public async Task DeleteBadgeRuleAsync_KeepsAwardedBadges()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var winner = await CreateTestUser("winner@example.com");
+        var badgeType = await CreateBadgeType("tournament_winner");
+        var rule = await CreateRule(badgeType.Id, "TournamentPlacement", 1);
+        var tournament = await CreateTestTournament(creator.Id, "Spring Classic");
+        await CreateTestTeam(tournament.Id, 1, winner);
+        await _sut.ApplyBadgeRuleAsync(rule.Id);
+
+        // Act
+        var result = await _sut.DeleteBadgeRuleAsync(rule.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        (await _context.UserBadges.CountAsync()).Should().Be(1);
+    }
+
+    [Fact]
+    public async Task ApplyBadgeRuleAsync_TournamentPlacement_AwardsPlayersAtOrAboveThreshold()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var winner = await CreateTestUser("winner@example.com");
+        var runnerUp = await CreateTestUser("runnerup@example.com");
+        var third = await CreateTestUser("third@example.com");
+        var badgeType = await CreateBadgeType("podium");
+        var rule = await CreateRule(badgeType.Id, "TournamentPlacement", 2);
+        var tournament = await CreateTestTournament(creator.Id, "Spring Classic");
+        await CreateTestTeam(tournament.Id, 1, winner);
+        await CreateTestTeam(tournament.Id, 2, runnerUp);
+        await CreateTestTeam(tournament.Id, 3, third);
+
+        // Act
+        var result = await _sut.ApplyBadgeRuleAsync(rule.Id);
+
+        // Assert
+        result!.AwardedCount.Should().Be(2);
+        var awarded = await _context.UserBadges.ToListAsync();
+        awarded.Select(ub => ub.UserId).Should().BeEquivalentTo(new[] { winner.Id, runnerUp.Id });
+        awarded.Should().OnlyContain(ub => ub.CelebratedAt == null);
+        awarded.First().Context!["tournamentName"].ToString().Should().Be("Spring Classic");
+    }
+
+    [Fact]
+    public async Task ApplyBadgeRuleAsync_SkipsPlayersWhoAlreadyHaveBadge()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var winner = await CreateTestUser("winner@example.com");
+        var badgeType = await CreateBadgeType("tournament_winner");
+        var rule = await CreateRule(badgeType.Id, "TournamentPlacement", 1);
+        var first = await CreateTestTournament(creator.Id, "Spring Classic");
+        var second = await CreateTestTournament(creator.Id, "Fall Classic");
+        await CreateTestTeam(first.Id, 1, winner);
+        await CreateTestTeam(second.Id, 1, winner);
+        await _sut.ApplyBadgeRuleAsync(rule.Id);
+
+        // Act
+        var result = await _sut.ApplyBadgeRuleAsync(rule.Id);
+
+        // Assert
+        result!.AwardedCount.Should().Be(0);
+        (await _context.UserBadges.CountAsync()).Should().Be(1);
+    }
+
+    [Fact]
+    public async Task ApplyBadgeRuleAsync_ReturnsNull_WhenRuleNotFound()
+    {
+        // Act
+        var result = await _sut.ApplyBadgeRuleAsync(Guid.NewGuid());
+
+        // Assert
+        result.Should().BeNull();
+    }
+
+    #endregion
+
+    #region Evaluation Tests
+
+    [Fact]
+    public async Task EvaluateTournamentPlacementRulesAsync_OnlyAwardsForThatTournament()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var winner = await CreateTestUser("winner@example.com");
+        var otherWinner = await CreateTestUser("other@example.com");
+        var badgeType = await CreateBadgeType("tournament_winner");
+        await CreateRule(badgeType.Id, "TournamentPlacement", 1);
+        var tournament = await CreateTestTournament(creator.Id, "Spring Classic");
+        var other = await CreateTestTournament(creator.Id, "Fall Classic");
+        await CreateTestTeam(tournament.Id, 1, winner);
+        await CreateTestTeam(other.Id, 1, otherWinner);
+
+        // Act
+        var awarded = await _sut.EvaluateTournamentPlacementRulesAsync(tournament.Id);
+
+        // Assert
+        awarded.Should().Be(1);
+        var badge = await _context.UserBadges.SingleAsync();
+        badge.UserId.Should().Be(winner.Id);
+    }
+
+    [Fact]
+    public async Task EvaluateTournamentPlacementRulesAsync_IgnoresInactiveRules()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var winner = await CreateTestUser("winner@example.com");
+        var badgeType = await CreateBadgeType("tournament_winner");
+        await CreateRule(badgeType.Id, "TournamentPlacement", 1, isActive: false);
+        var tournament = await CreateTestTournament(creator.Id, "Spring Classic");
+        await CreateTestTeam(tournament.Id, 1, winner);
+
+        // Act
+        var awarded = await _sut.EvaluateTournamentPlacementRulesAsync(tournament.Id);
+
+        // Assert
+        awarded.Should().Be(0);
+        (await _context.UserBadges.AnyAsync()).Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task EvaluateGamesPlayedRulesAsync_AwardsPlayersAtThreshold()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var veteran = await CreateTestUser("veteran@example.com");
+        var rookie = await CreateTestUser("rookie@example.com");
+        var badgeType = await CreateBadgeType("three_games");
+        await CreateRule(badgeType.Id, "GamesPlayed", 3);
+        await PlayGames(creator.Id, veteran, 3);
+        await PlayGames(creator.Id, rookie, 2);
+
+        // Act
+        var awarded = await _sut.EvaluateGamesPlayedRulesAsync();
+
+        // Assert
+        awarded.Should().Be(1);
+        var badge = await _context.UserBadges.SingleAsync();
+        badge.UserId.Should().Be(veteran.Id);
+    }
+
+    [Fact]
+    public async Task EvaluateGamesPlayedRulesAsync_DoesNotCountWaitlistedOrUpcomingGames()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var badgeType = await CreateBadgeType("three_games");
+        await CreateRule(badgeType.Id, "GamesPlayed", 3);
+        await PlayGames(creator.Id, player, 1);
+        await PlayGames(creator.Id, player, 1, status: "Waitlisted");
+        await PlayGames(creator.Id, player, 1, eventDate: DateTime.UtcNow.AddDays(1));
+
+        // Act
+        var awarded = await _sut.EvaluateGamesPlayedRulesAsync();
+
+        // Assert
+        awarded.Should().Be(0);
+    }
+
+    #endregion
+}
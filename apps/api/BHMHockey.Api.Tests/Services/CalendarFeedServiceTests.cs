@@ -0,0 +1,295 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using BHMHockey.Api.Services;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Configuration;
+using Moq;
+using Xunit;
+
+namespace BHMHockey.Api.Tests.Services;
+
+/// <summary>
+/// Tests for CalendarFeedService - feed tokens and the iCalendar feed contents.
+/// </summary>
+public class CalendarFeedServiceTests : IDisposable
+{
+    private readonly AppDbContext _context;
+    private readonly Mock<ITournamentService> _mockTournamentService;
+    private readonly CalendarFeedService _sut;
+
+    public CalendarFeedServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<AppDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        _context = new AppDbContext(options);
+        _mockTournamentService = new Mock<ITournamentService>();
+        _mockTournamentService.Setup(t => t.GetUpcomingMatchesForUserAsync(It.IsAny<Guid>()))
+            .ReturnsAsync(new List<UpcomingTournamentMatchDto>());
+
+        var configuration = new ConfigurationBuilder()
+            .AddInMemoryCollection(new Dictionary<string, string?>
+            {
+                ["Api:PublicBaseUrl"] = "https://api.example.com/"
+            })
+            .Build();
+
+        _sut = new CalendarFeedService(_context, _mockTournamentService.Object, configuration);
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Helper Methods
+
+    private async Task<User> CreateTestUser(string email = "player@example.com")
+    {
+        var user = new User
+        {
+            Id = Guid.NewGuid(),
+            Email = email,
+            PasswordHash = "hashed_password",
+            FirstName = "Test",
+            LastName = "User",
+            Role = "Player",
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Users.Add(user);
+        await _context.SaveChangesAsync();
+        return user;
+    }
+
+    private async Task<Event> CreateTestEvent(
+        Guid creatorId,
+        DateTime eventDate,
+        string? name = "Tuesday Skate",
+        string status = "Published")
+    {
+        var evt = new Event
+        {
+            Id = Guid.NewGuid(),
+            CreatorId = creatorId,
+            Name = name,
+            EventDate = eventDate,
+            Duration = 90,
+            Venue = "Rink A",
+            MaxPlayers = 10,
+            Status = status,
+            Visibility = "Public",
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Events.Add(evt);
+        await _context.SaveChangesAsync();
+        return evt;
+    }
+
+    private async Task CreateRegistration(Guid eventId, Guid userId, string status = "Registered", string? team = null)
+    {
+        _context.EventRegistrations.Add(new EventRegistration
+        {
+            EventId = eventId,
+            UserId = userId,
+            Status = status,
+            TeamAssignment = team,
+            RegisteredPosition = "Skater"
+        });
+        await _context.SaveChangesAsync();
+    }
+
+    #endregion
+
+    #region Feed Token Tests
+
+    [Fact]
+    public async Task GetFeedAsync_FirstCall_IssuesTokenAndBuildsUrls()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+
+        // Act
+        var result = await _sut.GetFeedAsync(user.Id);
+
+        // Assert
+        var saved = await _context.Users.FindAsync(user.Id);
+        saved!.CalendarFeedToken.Should().NotBeNullOrEmpty();
+        result!.Url.Should().Be($"https://api.example.com/api/calendar-feeds/{saved.CalendarFeedToken}.ics");
+        result.WebcalUrl.Should().Be($"webcal://api.example.com/api/calendar-feeds/{saved.CalendarFeedToken}.ics");
+    }
+
+    [Fact]
+    public async Task GetFeedAsync_CalledTwice_KeepsSameToken()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var first = await _sut.GetFeedAsync(user.Id);
+
+        // Act
+        var second = await _sut.GetFeedAsync(user.Id);
+
+        // Assert
+        second!.Url.Should().Be(first!.Url);
+    }
+
+    [Fact]
+    public async Task ResetFeedAsync_IssuesNewToken_OldTokenStopsWorking()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        await _sut.GetFeedAsync(user.Id);
+        var oldToken = (await _context.Users.FindAsync(user.Id))!.CalendarFeedToken!;
+
+        // Act
+        var result = await _sut.ResetFeedAsync(user.Id);
+
+        // Assert
+        result!.Url.Should().NotContain(oldToken);
+        (await _sut.BuildFeedAsync(oldToken)).Should().BeNull();
+    }
+
+    [Fact]
+    public async Task GetFeedAsync_UnknownUser_ReturnsNull()
+    {
+        // Act
+        var result = await _sut.GetFeedAsync(Guid.NewGuid());
+
+        // Assert
+        result.Should().BeNull();
+    }
+
+    #endregion
+
+    #region Feed Contents Tests
+
+    [Fact]
+    public async Task BuildFeedAsync_IncludesRosteredGamesWithTeamAndVenue()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var evt = await CreateTestEvent(user.Id, new DateTime(2099, 3, 10, 22, 0, 0, DateTimeKind.Utc));
+        await CreateRegistration(evt.Id, user.Id, team: "Black");
+        await _sut.GetFeedAsync(user.Id);
+        var token = (await _context.Users.FindAsync(user.Id))!.CalendarFeedToken!;
+
+        // Act
+        var ics = await _sut.BuildFeedAsync(token);
+
+        // Assert
+        ics.Should().StartWith("BEGIN:VCALENDAR\r\n");
+        ics.Should().Contain($"UID:event-{evt.Id}@bhmhockey");
+        ics.Should().Contain("DTSTART:20990310T220000Z");
+        ics.Should().Contain("DTEND:20990310T233000Z");
+        ics.Should().Contain("SUMMARY:Tuesday Skate");
+        ics.Should().Contain("LOCATION:Rink A");
+        ics.Should().Contain("Team: Black jersey");
+    }
+
+    [Fact]
+    public async Task BuildFeedAsync_LeavesOutCancelledGamesAndWaitlistedSpots()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var cancelled = await CreateTestEvent(user.Id, DateTime.UtcNow.AddDays(3), status: "Cancelled");
+        var waitlisted = await CreateTestEvent(user.Id, DateTime.UtcNow.AddDays(4));
+        await CreateRegistration(cancelled.Id, user.Id);
+        await CreateRegistration(waitlisted.Id, user.Id, status: "Waitlisted");
+        await _sut.GetFeedAsync(user.Id);
+        var token = (await _context.Users.FindAsync(user.Id))!.CalendarFeedToken!;
+
+        // Act
+        var ics = await _sut.BuildFeedAsync(token);
+
+        // Assert
+        ics.Should().NotContain("BEGIN:VEVENT");
+    }
+
+    [Fact]
+    public async Task BuildFeedAsync_IncludesScheduledTournamentMatches()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var matchId = Guid.NewGuid();
+        _mockTournamentService.Setup(t => t.GetUpcomingMatchesForUserAsync(user.Id))
+            .ReturnsAsync(new List<UpcomingTournamentMatchDto>
+            {
+                new()
+                {
+                    Id = matchId,
+                    TournamentId = Guid.NewGuid(),
+                    TournamentName = "Spring Classic",
+                    UserTeamId = Guid.NewGuid(),
+                    UserTeamName = "Pucks",
+                    Round = 1,
+                    MatchNumber = 2,
+                    Status = "Scheduled",
+                    ScheduledTime = DateTime.UtcNow.AddDays(2),
+                    IsHomeTeam = true
+                },
+                new()
+                {
+                    Id = Guid.NewGuid(),
+                    TournamentId = Guid.NewGuid(),
+                    TournamentName = "Spring Classic",
+                    UserTeamId = Guid.NewGuid(),
+                    UserTeamName = "Pucks",
+                    Round = 2,
+                    MatchNumber = 1,
+                    Status = "Pending",
+                    IsHomeTeam = false
+                }
+            });
+        await _sut.GetFeedAsync(user.Id);
+        var token = (await _context.Users.FindAsync(user.Id))!.CalendarFeedToken!;
+
+        // Act
+        var ics = await _sut.BuildFeedAsync(token);
+
+        // Assert - unscheduled matches are left out
+        ics.Should().Contain($"UID:match-{matchId}@bhmhockey");
+        ics.Should().Contain("SUMMARY:Spring Classic: Pucks vs TBD");
+        ics!.Split("BEGIN:VEVENT").Should().HaveCount(2);
+    }
+
+    [Fact]
+    public async Task BuildFeedAsync_UnknownToken_ReturnsNull()
+    {
+        // Act
+        var result = await _sut.BuildFeedAsync("not-a-token");
+
+        // Assert
+        result.Should().BeNull();
+    }
+
+    #endregion
+
+    #region IcsCalendar Tests
+
+    [Fact]
+    public void EscapeText_EscapesReservedCharacters()
+    {
+        IcsCalendar.EscapeText("a\\b;c,d\ne").Should().Be("a\\\\b\\;c\\,d\\ne");
+    }
+
+    [Fact]
+    public void FoldLine_FoldsAt75Octets()
+    {
+        // Act
+        var folded = IcsCalendar.FoldLine(new string('x', 160));
+
+        // Assert
+        var lines = folded.Split("\r\n");
+        lines.Should().HaveCount(3);
+        lines[0].Should().HaveLength(75);
+        lines[1].Should().Be(" " + new string('x', 74));
+    }
+
+    #endregion
+}
@@ -0,0 +1,390 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using BHMHockey.Api.Services;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BHMHockey.Api.Tests.Services;
+
+/// <summary>
+/// Tests for ChatService - thread access, cursor paging, mention pushes, pinning and deletes.
+/// </summary>
+public class ChatServiceTests : IDisposable
+{
+    private readonly AppDbContext _context;
+    private readonly Mock<INotificationService> _mockNotificationService;
+    private readonly ChatService _sut;
+
+    public ChatServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<AppDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        _context = new AppDbContext(options);
+        _mockNotificationService = new Mock<INotificationService>();
+        _sut = new ChatService(
+            _context,
+            new OrganizationAdminService(_context),
+            _mockNotificationService.Object,
+            Mock.Of<ILogger<ChatService>>());
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Helper Methods
+
+    private async Task<User> CreateTestUser(string email, string? pushToken = null)
+    {
+        var user = new User
+        {
+            Id = Guid.NewGuid(),
+            Email = email,
+            PasswordHash = "hashed_password",
+            FirstName = "Test",
+            LastName = email.Split('@')[0],
+            PushToken = pushToken,
+            Role = "Player",
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Users.Add(user);
+        await _context.SaveChangesAsync();
+        return user;
+    }
+
+    private async Task<Organization> CreateTestOrganization(Guid creatorId, bool inAppChatEnabled = true)
+    {
+        var org = new Organization
+        {
+            Id = Guid.NewGuid(),
+            Name = "Test Org",
+            CreatorId = creatorId,
+            InAppChatEnabled = inAppChatEnabled,
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow
+        };
+        _context.Organizations.Add(org);
+        _context.OrganizationAdmins.Add(new OrganizationAdmin
+        {
+            Id = Guid.NewGuid(),
+            OrganizationId = org.Id,
+            UserId = creatorId,
+            AddedAt = DateTime.UtcNow
+        });
+
+        await _context.SaveChangesAsync();
+        return org;
+    }
+
+    private async Task<Event> CreateTestEvent(Guid creatorId, Guid? organizationId)
+    {
+        var evt = new Event
+        {
+            Id = Guid.NewGuid(),
+            CreatorId = creatorId,
+            OrganizationId = organizationId,
+            Name = "Friday Skate",
+            EventDate = DateTime.UtcNow.AddDays(7),
+            Duration = 60,
+            Venue = "Rink A",
+            MaxPlayers = 10,
+            Cost = 0,
+            Status = "Published",
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Events.Add(evt);
+        await _context.SaveChangesAsync();
+        return evt;
+    }
+
+    private async Task Register(Guid eventId, Guid userId, string status = "Registered")
+    {
+        _context.EventRegistrations.Add(new EventRegistration
+        {
+            Id = Guid.NewGuid(),
+            EventId = eventId,
+            UserId = userId,
+            Status = status,
+            RegisteredAt = DateTime.UtcNow
+        });
+        await _context.SaveChangesAsync();
+    }
+
+    private async Task Subscribe(Guid organizationId, Guid userId)
+    {
+        _context.OrganizationSubscriptions.Add(new OrganizationSubscription
+        {
+            Id = Guid.NewGuid(),
+            OrganizationId = organizationId,
+            UserId = userId,
+            SubscribedAt = DateTime.UtcNow
+        });
+        await _context.SaveChangesAsync();
+    }
+
+    private async Task<ChatMessage> CreateMessage(Guid eventId, Guid senderId, string body, DateTime createdAt)
+    {
+        var message = new ChatMessage
+        {
+            Id = Guid.NewGuid(),
+            EventId = eventId,
+            SenderUserId = senderId,
+            Body = body,
+            CreatedAt = createdAt
+        };
+
+        _context.ChatMessages.Add(message);
+        await _context.SaveChangesAsync();
+        return message;
+    }
+
+    #endregion
+
+    #region GetMessagesAsync Tests
+
+    [Fact]
+    public async Task GetMessagesAsync_PagesNewestFirstWithCursor()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var evt = await CreateTestEvent(admin.Id, org.Id);
+        var start = DateTime.UtcNow.AddHours(-1);
+        for (var i = 0; i < 5; i++)
+        {
+            await CreateMessage(evt.Id, admin.Id, $"Message {i}", start.AddMinutes(i));
+        }
+
+        // Act
+        var firstPage = await _sut.GetMessagesAsync("Event", evt.Id, admin.Id, null, 3);
+        var secondPage = await _sut.GetMessagesAsync("Event", evt.Id, admin.Id, firstPage!.NextCursor, 3);
+
+        // Assert
+        firstPage.Messages.Select(m => m.Body).Should().Equal("Message 4", "Message 3", "Message 2");
+        firstPage.NextCursor.Should().NotBeNull();
+        secondPage!.Messages.Select(m => m.Body).Should().Equal("Message 1", "Message 0");
+        secondPage.NextCursor.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task GetMessagesAsync_WaitlistedPlayer_CanRead()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var waitlisted = await CreateTestUser("waitlisted@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var evt = await CreateTestEvent(admin.Id, org.Id);
+        await Register(evt.Id, waitlisted.Id, "Waitlisted");
+
+        // Act
+        var result = await _sut.GetMessagesAsync("Event", evt.Id, waitlisted.Id, null, null);
+
+        // Assert
+        result.Should().NotBeNull();
+    }
+
+    [Fact]
+    public async Task GetMessagesAsync_UnregisteredPlayer_ThrowsUnauthorized()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var outsider = await CreateTestUser("outsider@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var evt = await CreateTestEvent(admin.Id, org.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.GetMessagesAsync("Event", evt.Id, outsider.Id, null, null))
+            .Should().ThrowAsync<UnauthorizedAccessException>();
+    }
+
+    [Fact]
+    public async Task GetMessagesAsync_ChatDisabled_Throws()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id, inAppChatEnabled: false);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.GetMessagesAsync("Organization", org.Id, admin.Id, null, null))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*isn't turned on*");
+    }
+
+    [Fact]
+    public async Task GetMessagesAsync_StandaloneEvent_Throws()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var evt = await CreateTestEvent(creator.Id, null);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.GetMessagesAsync("Event", evt.Id, creator.Id, null, null))
+            .Should().ThrowAsync<InvalidOperationException>();
+    }
+
+    #endregion
+
+    #region SendMessageAsync Tests
+
+    [Fact]
+    public async Task SendMessageAsync_MemberPostsToOrganizationThread()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var member = await CreateTestUser("member@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        await Subscribe(org.Id, member.Id);
+
+        // Act
+        var result = await _sut.SendMessageAsync("Organization", org.Id, new SendChatMessageRequest("  Who has a spare stick?  "), member.Id);
+
+        // Assert
+        result.Should().NotBeNull();
+        result!.ThreadType.Should().Be("Organization");
+        result.ThreadId.Should().Be(org.Id);
+        result.Body.Should().Be("Who has a spare stick?");
+        result.SenderLastName.Should().Be("member");
+    }
+
+    [Fact]
+    public async Task SendMessageAsync_PushesOnlyToMentionedParticipants()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com", "ExponentPushToken[admin]");
+        var player = await CreateTestUser("player@example.com", "ExponentPushToken[player]");
+        var outsider = await CreateTestUser("outsider@example.com", "ExponentPushToken[outsider]");
+        var org = await CreateTestOrganization(admin.Id);
+        var evt = await CreateTestEvent(admin.Id, org.Id);
+        await Register(evt.Id, player.Id);
+        var request = new SendChatMessageRequest("Can you grab the pucks?", new List<Guid> { admin.Id, outsider.Id });
+
+        // Act
+        var result = await _sut.SendMessageAsync("Event", evt.Id, request, player.Id);
+
+        // Assert
+        result!.MentionedUserIds.Should().Equal(admin.Id);
+        _mockNotificationService.Verify(n => n.SendPushNotificationAsync(
+            "ExponentPushToken[admin]",
+            "Test mentioned you in Friday Skate",
+            "Can you grab the pucks?",
+            It.IsAny<object?>(),
+            admin.Id,
+            "chat_mention",
+            org.Id,
+            evt.Id), Times.Once);
+        _mockNotificationService.Verify(n => n.SendPushNotificationAsync(
+            "ExponentPushToken[outsider]",
+            It.IsAny<string>(),
+            It.IsAny<string>(),
+            It.IsAny<object?>(),
+            It.IsAny<Guid?>(),
+            It.IsAny<string?>(),
+            It.IsAny<Guid?>(),
+            It.IsAny<Guid?>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task SendMessageAsync_BodyTooLong_Throws()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.SendMessageAsync("Organization", org.Id, new SendChatMessageRequest(new string('a', 1001)), admin.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*1000 characters*");
+    }
+
+    #endregion
+
+    #region SetPinnedAsync Tests
+
+    [Fact]
+    public async Task SetPinnedAsync_Admin_PinsAndListsMessage()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var evt = await CreateTestEvent(admin.Id, org.Id);
+        var message = await CreateMessage(evt.Id, admin.Id, "Doors open at 8:45", DateTime.UtcNow);
+
+        // Act
+        var result = await _sut.SetPinnedAsync(message.Id, true, admin.Id);
+        var page = await _sut.GetMessagesAsync("Event", evt.Id, admin.Id, null, null);
+
+        // Assert
+        result!.IsPinned.Should().BeTrue();
+        result.PinnedAt.Should().NotBeNull();
+        page!.PinnedMessages.Should().ContainSingle(m => m.Id == message.Id);
+    }
+
+    [Fact]
+    public async Task SetPinnedAsync_Player_ThrowsUnauthorized()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var evt = await CreateTestEvent(admin.Id, org.Id);
+        await Register(evt.Id, player.Id);
+        var message = await CreateMessage(evt.Id, player.Id, "Pin me", DateTime.UtcNow);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.SetPinnedAsync(message.Id, true, player.Id))
+            .Should().ThrowAsync<UnauthorizedAccessException>();
+    }
+
+    #endregion
+
+    #region DeleteMessageAsync Tests
+
+    [Fact]
+    public async Task DeleteMessageAsync_Sender_HidesMessage()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var evt = await CreateTestEvent(admin.Id, org.Id);
+        await Register(evt.Id, player.Id);
+        var message = await CreateMessage(evt.Id, player.Id, "Oops", DateTime.UtcNow);
+
+        // Act
+        var result = await _sut.DeleteMessageAsync(message.Id, player.Id);
+        var page = await _sut.GetMessagesAsync("Event", evt.Id, player.Id, null, null);
+
+        // Assert
+        result.Should().BeTrue();
+        page!.Messages.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task DeleteMessageAsync_OtherPlayer_ThrowsUnauthorized()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var other = await CreateTestUser("other@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var evt = await CreateTestEvent(admin.Id, org.Id);
+        var message = await CreateMessage(evt.Id, player.Id, "Mine", DateTime.UtcNow);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.DeleteMessageAsync(message.Id, other.Id))
+            .Should().ThrowAsync<UnauthorizedAccessException>();
+    }
+
+    #endregion
+}
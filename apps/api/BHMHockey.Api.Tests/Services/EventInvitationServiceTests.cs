@@ -0,0 +1,461 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using BHMHockey.Api.Models.Exceptions;
+using BHMHockey.Api.Services;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Diagnostics;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BHMHockey.Api.Tests.Services;
+
+/// <summary>
+/// Tests for EventInvitationService - direct, member and link invitations for InviteOnly events.
+/// </summary>
+public class EventInvitationServiceTests : IDisposable
+{
+    private readonly AppDbContext _context;
+    private readonly Mock<INotificationService> _mockNotificationService;
+    private readonly EventInvitationService _sut;
+
+    public EventInvitationServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<AppDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .ConfigureWarnings(w => w.Ignore(InMemoryEventId.TransactionIgnoredWarning))
+            .Options;
+        _context = new AppDbContext(options);
+        _mockNotificationService = new Mock<INotificationService>();
+
+        var adminService = new OrganizationAdminService(_context);
+        var waiverService = new OrganizationWaiverService(_context, adminService, Mock.Of<ILogger<OrganizationWaiverService>>());
+        var eventService = new EventService(
+            _context,
+            _mockNotificationService.Object,
+            adminService,
+            Mock.Of<IWaitlistService>(),
+            waiverService,
+            Mock.Of<ILogger<EventService>>());
+
+        _sut = new EventInvitationService(_context, eventService, _mockNotificationService.Object, Mock.Of<ILogger<EventInvitationService>>());
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Helper Methods
+
+    private async Task<User> CreateTestUser(string email, Dictionary<string, string>? positions = null, string? pushToken = null)
+    {
+        var user = new User
+        {
+            Id = Guid.NewGuid(),
+            Email = email,
+            PasswordHash = "hashed_password",
+            FirstName = "Test",
+            LastName = email.Split('@')[0],
+            Positions = positions ?? new Dictionary<string, string> { { "skater", "Silver" } },
+            PushToken = pushToken,
+            Role = "Player",
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Users.Add(user);
+        await _context.SaveChangesAsync();
+        return user;
+    }
+
+    private async Task<Organization> CreateTestOrganization(Guid creatorId)
+    {
+        var org = new Organization
+        {
+            Id = Guid.NewGuid(),
+            Name = "Test Org",
+            CreatorId = creatorId,
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow
+        };
+        _context.Organizations.Add(org);
+        _context.OrganizationAdmins.Add(new OrganizationAdmin
+        {
+            Id = Guid.NewGuid(),
+            OrganizationId = org.Id,
+            UserId = creatorId,
+            AddedAt = DateTime.UtcNow
+        });
+
+        await _context.SaveChangesAsync();
+        return org;
+    }
+
+    private async Task Subscribe(Guid orgId, Guid userId)
+    {
+        _context.OrganizationSubscriptions.Add(new OrganizationSubscription
+        {
+            Id = Guid.NewGuid(),
+            OrganizationId = orgId,
+            UserId = userId,
+            SubscribedAt = DateTime.UtcNow
+        });
+        await _context.SaveChangesAsync();
+    }
+
+    private async Task<Event> CreateTestEvent(
+        Guid creatorId,
+        Guid? organizationId = null,
+        string visibility = "InviteOnly",
+        DateTime? eventDate = null)
+    {
+        var evt = new Event
+        {
+            Id = Guid.NewGuid(),
+            CreatorId = creatorId,
+            OrganizationId = organizationId,
+            Name = "Friday Skate",
+            EventDate = eventDate ?? DateTime.UtcNow.AddDays(7),
+            Duration = 60,
+            Venue = "Rink A",
+            MaxPlayers = 10,
+            Cost = 0,
+            Status = "Published",
+            Visibility = visibility,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Events.Add(evt);
+        await _context.SaveChangesAsync();
+        return evt;
+    }
+
+    #endregion
+
+    #region Direct Invite Tests
+
+    [Fact]
+    public async Task InvitePlayersAsync_InviteOnlyEvent_CreatesPendingInvitationsAndNotifies()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var player = await CreateTestUser("player@example.com", pushToken: "ExponentPushToken[player]");
+        var evt = await CreateTestEvent(organizer.Id);
+
+        // Act
+        var result = await _sut.InvitePlayersAsync(evt.Id, new List<Guid> { player.Id }, organizer.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        var invitation = await _context.EventInvitations.SingleAsync();
+        invitation.UserId.Should().Be(player.Id);
+        invitation.Status.Should().Be("Pending");
+        invitation.Source.Should().Be("Direct");
+        _mockNotificationService.Verify(n => n.SendPushNotificationAsync(
+            "ExponentPushToken[player]",
+            "You're Invited",
+            It.IsAny<string>(),
+            It.IsAny<object>(),
+            player.Id,
+            "event_invite",
+            null,
+            evt.Id), Times.Once);
+    }
+
+    [Fact]
+    public async Task InvitePlayersAsync_PublicEvent_NotifiesWithoutTrackingInvitations()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var player = await CreateTestUser("player@example.com", pushToken: "ExponentPushToken[player]");
+        var evt = await CreateTestEvent(organizer.Id, visibility: "Public");
+
+        // Act
+        await _sut.InvitePlayersAsync(evt.Id, new List<Guid> { player.Id }, organizer.Id);
+
+        // Assert
+        (await _context.EventInvitations.CountAsync()).Should().Be(0);
+        _mockNotificationService.Verify(n => n.SendPushNotificationAsync(
+            It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<object>(),
+            player.Id, "event_invite", It.IsAny<Guid?>(), evt.Id), Times.Once);
+    }
+
+    [Fact]
+    public async Task InvitePlayersAsync_AlreadyInvited_SkipsPlayer()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var player = await CreateTestUser("player@example.com", pushToken: "ExponentPushToken[player]");
+        var evt = await CreateTestEvent(organizer.Id);
+        await _sut.InvitePlayersAsync(evt.Id, new List<Guid> { player.Id }, organizer.Id);
+
+        // Act
+        await _sut.InvitePlayersAsync(evt.Id, new List<Guid> { player.Id }, organizer.Id);
+
+        // Assert
+        (await _context.EventInvitations.CountAsync()).Should().Be(1);
+        _mockNotificationService.Verify(n => n.SendPushNotificationAsync(
+            It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<object>(),
+            player.Id, "event_invite", It.IsAny<Guid?>(), It.IsAny<Guid?>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task InvitePlayersAsync_NotOrganizer_ThrowsUnauthorizedAccessException()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var evt = await CreateTestEvent(organizer.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.InvitePlayersAsync(evt.Id, new List<Guid> { player.Id }, player.Id))
+            .Should().ThrowAsync<UnauthorizedAccessException>();
+    }
+
+    [Fact]
+    public async Task InvitePlayersAsync_EventNotFound_ReturnsFalse()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+
+        // Act
+        var result = await _sut.InvitePlayersAsync(Guid.NewGuid(), new List<Guid> { Guid.NewGuid() }, organizer.Id);
+
+        // Assert
+        result.Should().BeFalse();
+    }
+
+    #endregion
+
+    #region Organization Member Invite Tests
+
+    [Fact]
+    public async Task InviteOrganizationMembersAsync_FiltersBySkillAndSkipsInvited()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var org = await CreateTestOrganization(organizer.Id);
+        var gold = await CreateTestUser("gold@example.com", new Dictionary<string, string> { { "skater", "Gold" } });
+        var bronze = await CreateTestUser("bronze@example.com", new Dictionary<string, string> { { "skater", "Bronze" } });
+        var alreadyInvited = await CreateTestUser("invited@example.com", new Dictionary<string, string> { { "goalie", "Gold" } });
+        await Subscribe(org.Id, gold.Id);
+        await Subscribe(org.Id, bronze.Id);
+        await Subscribe(org.Id, alreadyInvited.Id);
+        var evt = await CreateTestEvent(organizer.Id, org.Id);
+        await _sut.InvitePlayersAsync(evt.Id, new List<Guid> { alreadyInvited.Id }, organizer.Id);
+
+        // Act
+        var result = await _sut.InviteOrganizationMembersAsync(
+            evt.Id, new InviteOrganizationMembersRequest(new List<string> { "Gold" }), organizer.Id);
+
+        // Assert
+        result!.InvitedCount.Should().Be(1);
+        var invited = await _context.EventInvitations
+            .Where(i => i.Source == "OrganizationMembers")
+            .Select(i => i.UserId)
+            .ToListAsync();
+        invited.Should().Equal(gold.Id);
+    }
+
+    [Fact]
+    public async Task InviteOrganizationMembersAsync_StandaloneEvent_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var evt = await CreateTestEvent(organizer.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.InviteOrganizationMembersAsync(evt.Id, new InviteOrganizationMembersRequest(), organizer.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*organization events*");
+    }
+
+    #endregion
+
+    #region Invitation Status Tests
+
+    [Fact]
+    public async Task DeclineInvitationAsync_SetsDeclinedAndShowsInOrganizerList()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var evt = await CreateTestEvent(organizer.Id);
+        await _sut.InvitePlayersAsync(evt.Id, new List<Guid> { player.Id }, organizer.Id);
+
+        // Act
+        var result = await _sut.DeclineInvitationAsync(evt.Id, player.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        var invitations = await _sut.GetInvitationsAsync(evt.Id, organizer.Id);
+        invitations.Should().ContainSingle();
+        invitations![0].Status.Should().Be("Declined");
+        invitations[0].RespondedAt.Should().NotBeNull();
+    }
+
+    [Fact]
+    public async Task DeclineInvitationAsync_AlreadyRegistered_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var evt = await CreateTestEvent(organizer.Id);
+        await _sut.InvitePlayersAsync(evt.Id, new List<Guid> { player.Id }, organizer.Id);
+        _context.EventRegistrations.Add(new EventRegistration { EventId = evt.Id, UserId = player.Id, Status = "Registered" });
+        await _context.SaveChangesAsync();
+
+        // Act & Assert
+        await _sut.Invoking(s => s.DeclineInvitationAsync(evt.Id, player.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*already signed up*");
+    }
+
+    [Fact]
+    public async Task RevokeInvitationAsync_RemovesInvitation()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var evt = await CreateTestEvent(organizer.Id);
+        await _sut.InvitePlayersAsync(evt.Id, new List<Guid> { player.Id }, organizer.Id);
+        var invitation = await _context.EventInvitations.SingleAsync();
+
+        // Act
+        var result = await _sut.RevokeInvitationAsync(evt.Id, invitation.Id, organizer.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        (await _context.EventInvitations.CountAsync()).Should().Be(0);
+    }
+
+    #endregion
+
+    #region Invite Link Tests
+
+    [Fact]
+    public async Task CreateInviteLinkAsync_BuildsInviteUrl()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var evt = await CreateTestEvent(organizer.Id);
+
+        // Act
+        var link = await _sut.CreateInviteLinkAsync(evt.Id, new CreateEventInviteLinkRequest(24), organizer.Id);
+
+        // Assert
+        link!.Url.Should().Be($"bhmhockey://invite/{link.Token}");
+        link.ExpiresAt.Should().BeCloseTo(DateTime.UtcNow.AddHours(24), TimeSpan.FromMinutes(1));
+        link.UseCount.Should().Be(0);
+    }
+
+    [Fact]
+    public async Task CreateInviteLinkAsync_PublicEvent_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var evt = await CreateTestEvent(organizer.Id, visibility: "Public");
+
+        // Act & Assert
+        await _sut.Invoking(s => s.CreateInviteLinkAsync(evt.Id, new CreateEventInviteLinkRequest(), organizer.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*invite-only*");
+    }
+
+    [Fact]
+    public async Task RedeemInviteLinkAsync_CreatesInvitationAndReturnsVisibleEvent()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var evt = await CreateTestEvent(organizer.Id);
+        var link = await _sut.CreateInviteLinkAsync(evt.Id, new CreateEventInviteLinkRequest(), organizer.Id);
+
+        // Act
+        var result = await _sut.RedeemInviteLinkAsync(link!.Token, player.Id);
+
+        // Assert
+        result!.Id.Should().Be(evt.Id);
+        result.MyInvitationStatus.Should().Be("Pending");
+        var invitation = await _context.EventInvitations.SingleAsync();
+        invitation.Source.Should().Be("Link");
+        invitation.InviteLinkId.Should().Be(link.Id);
+        (await _context.EventInviteLinks.FindAsync(link.Id))!.UseCount.Should().Be(1);
+    }
+
+    [Fact]
+    public async Task RedeemInviteLinkAsync_SecondRedeem_DoesNotCountTwice()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var evt = await CreateTestEvent(organizer.Id);
+        var link = await _sut.CreateInviteLinkAsync(evt.Id, new CreateEventInviteLinkRequest(), organizer.Id);
+        await _sut.RedeemInviteLinkAsync(link!.Token, player.Id);
+
+        // Act
+        await _sut.RedeemInviteLinkAsync(link.Token, player.Id);
+
+        // Assert
+        (await _context.EventInviteLinks.FindAsync(link.Id))!.UseCount.Should().Be(1);
+    }
+
+    [Fact]
+    public async Task RedeemInviteLinkAsync_RevokedLink_ReturnsNull()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var evt = await CreateTestEvent(organizer.Id);
+        var link = await _sut.CreateInviteLinkAsync(evt.Id, new CreateEventInviteLinkRequest(), organizer.Id);
+        await _sut.RevokeInviteLinkAsync(evt.Id, link!.Id, organizer.Id);
+
+        // Act
+        var result = await _sut.RedeemInviteLinkAsync(link.Token, player.Id);
+
+        // Assert
+        result.Should().BeNull();
+        (await _context.EventInvitations.CountAsync()).Should().Be(0);
+    }
+
+    [Fact]
+    public async Task RedeemInviteLinkAsync_ExpiredLink_ThrowsInviteLinkExpiredException()
+    {
+        // Arrange
+        var organizer = await CreateTestUser("organizer@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var evt = await CreateTestEvent(organizer.Id);
+        _context.EventInviteLinks.Add(new EventInviteLink
+        {
+            EventId = evt.Id,
+            Token = "expired-token",
+            CreatedByUserId = organizer.Id,
+            ExpiresAt = DateTime.UtcNow.AddMinutes(-5)
+        });
+        await _context.SaveChangesAsync();
+
+        // Act & Assert
+        await _sut.Invoking(s => s.RedeemInviteLinkAsync("expired-token", player.Id))
+            .Should().ThrowAsync<InviteLinkExpiredException>();
+    }
+
+    [Fact]
+    public async Task RedeemInviteLinkAsync_UnknownToken_ReturnsNull()
+    {
+        // Arrange
+        var player = await CreateTestUser("player@example.com");
+
+        // Act
+        var result = await _sut.RedeemInviteLinkAsync("not-a-token", player.Id);
+
+        // Assert
+        result.Should().BeNull();
+    }
+
+    #endregion
+}
@@ -1062,6 +1062,59 @@ public class EventServiceTests : IDisposable
         result.Should().NotBeNull();
     }
 
+    [Fact]
+    public async Task GetByIdAsync_InviteOnlyEvent_VisibleToInvitedPlayerWithStatus()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var invitee = await CreateTestUser("invitee@example.com");
+        var evt = await CreateTestEvent(creator.Id, visibility: "InviteOnly");
+        _context.EventInvitations.Add(new EventInvitation { EventId = evt.Id, UserId = invitee.Id });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _sut.GetByIdAsync(evt.Id, invitee.Id);
+
+        // Assert
+        result.Should().NotBeNull();
+        result!.MyInvitationStatus.Should().Be("Pending");
+    }
+
+    [Fact]
+    public async Task RegisterAsync_InviteOnlyEvent_WithoutInvitation_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var otherUser = await CreateTestUser("other@example.com");
+        var evt = await CreateTestEvent(creator.Id, visibility: "InviteOnly", cost: 0);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.RegisterAsync(evt.Id, otherUser.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*invite-only*");
+    }
+
+    [Fact]
+    public async Task RegisterAsync_InviteOnlyEvent_DeclinedInvitation_RegistersAndAccepts()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var invitee = await CreateTestUser("invitee@example.com");
+        var evt = await CreateTestEvent(creator.Id, visibility: "InviteOnly", cost: 0);
+        var invitation = new EventInvitation { EventId = evt.Id, UserId = invitee.Id, Status = "Declined" };
+        _context.EventInvitations.Add(invitation);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _sut.RegisterAsync(evt.Id, invitee.Id);
+
+        // Assert
+        result.Status.Should().Be("Registered");
+        var saved = await _context.EventInvitations.FindAsync(invitation.Id);
+        saved!.Status.Should().Be("Accepted");
+        saved.RespondedAt.Should().NotBeNull();
+    }
+
     #endregion
 
     #region Visibility Validation Tests
@@ -4828,4 +4881,653 @@ public class EventServiceTests : IDisposable
     }
 
     #endregion
+
+    #region Event Series Tests
+
+    private static CreateEventSeriesRequest CreateSeriesRequestFor(Guid orgId, List<DateTime> eventDates, DateTime? registrationDeadline = null)
+    {
+        return new CreateEventSeriesRequest(
+            Recurrence: new RecurrenceRuleDto("Weekly", "2026-11-03", "19:00", Occurrences: eventDates.Count),
+            EventDates: eventDates,
+            MaxPlayers: 10,
+            Cost: 0,
+            OrganizationId: orgId,
+            Name: "Tuesday Skate",
+            RegistrationDeadline: registrationDeadline);
+    }
+
+    private async Task<List<Event>> CreateTestSeries(Guid creatorId, Guid orgId, int games)
+    {
+        var first = DateTime.UtcNow.AddDays(7);
+        var result = await _sut.CreateSeriesAsync(
+            CreateSeriesRequestFor(orgId, Enumerable.Range(0, games).Select(i => first.AddDays(7 * i)).ToList()),
+            creatorId);
+        return await _context.Events
+            .Where(e => e.SeriesId == result.Id)
+            .OrderBy(e => e.EventDate)
+            .ToListAsync();
+    }
+
+    [Fact]
+    public async Task CreateSeriesAsync_CreatesOneLinkedEventPerDate()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var first = DateTime.UtcNow.AddDays(7);
+        var dates = new List<DateTime> { first.AddDays(14), first, first.AddDays(7) };
+
+        // Act
+        var result = await _sut.CreateSeriesAsync(CreateSeriesRequestFor(org.Id, dates), admin.Id);
+
+        // Assert
+        result.Events.Should().HaveCount(3);
+        result.Events.Select(e => e.EventDate).Should().BeInAscendingOrder();
+        result.Events.Should().OnlyContain(e => e.SeriesId == result.Id && e.Name == "Tuesday Skate");
+        result.Recurrence.Frequency.Should().Be("Weekly");
+        (await _context.EventSeries.FindAsync(result.Id)).Should().NotBeNull();
+    }
+
+    [Fact]
+    public async Task CreateSeriesAsync_KeepsRegistrationDeadlineLeadTimeForEachGame()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var first = DateTime.UtcNow.AddDays(7);
+        var dates = new List<DateTime> { first, first.AddDays(7) };
+
+        // Act
+        var result = await _sut.CreateSeriesAsync(CreateSeriesRequestFor(org.Id, dates, first.AddHours(-24)), admin.Id);
+
+        // Assert
+        result.Events.Should().OnlyContain(e => e.RegistrationDeadline == e.EventDate.AddHours(-24));
+    }
+
+    [Fact]
+    public async Task CreateSeriesAsync_SendsOneNotificationForTheSeries()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+
+        // Act
+        await CreateTestSeries(admin.Id, org.Id, games: 4);
+
+        // Assert
+        _mockNotificationService.Verify(n => n.NotifyOrganizationSubscribersAsync(
+            org.Id,
+            It.Is<string>(t => t.StartsWith("New Games")),
+            It.IsAny<string>(),
+            It.IsAny<object>(),
+            It.IsAny<string?>(),
+            It.IsAny<Guid?>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task CreateSeriesAsync_WithTooManyDates_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var first = DateTime.UtcNow.AddDays(7);
+        var dates = Enumerable.Range(0, 53).Select(i => first.AddDays(7 * i)).ToList();
+
+        // Act & Assert
+        await _sut.Invoking(s => s.CreateSeriesAsync(CreateSeriesRequestFor(org.Id, dates), admin.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*at most 52 games*");
+    }
+
+    [Fact]
+    public async Task UpdateAsync_ApplyToThisAndFuture_UpdatesLaterGamesOnly()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var games = await CreateTestSeries(admin.Id, org.Id, games: 3);
+        var request = new UpdateEventRequest(
+            Name: null, Description: null, EventDate: null, Duration: null,
+            Venue: "New Rink", MaxPlayers: 16, Cost: null, RegistrationDeadline: null,
+            Status: null, Visibility: null, SkillLevels: null, SlotPositionLabels: null,
+            ApplyTo: "ThisAndFuture");
+
+        // Act
+        await _sut.UpdateAsync(games[1].Id, request, admin.Id);
+
+        // Assert
+        var updated = await _context.Events.Where(e => e.SeriesId == games[0].SeriesId).OrderBy(e => e.EventDate).ToListAsync();
+        updated[0].Venue.Should().NotBe("New Rink");
+        updated[1].Venue.Should().Be("New Rink");
+        updated[2].Venue.Should().Be("New Rink");
+        updated[2].MaxPlayers.Should().Be(16);
+    }
+
+    [Fact]
+    public async Task UpdateAsync_ApplyToThisAndFuture_ShiftsLaterGamesByTheSameAmount()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var games = await CreateTestSeries(admin.Id, org.Id, games: 2);
+        var originalLaterDate = games[1].EventDate;
+        var request = new UpdateEventRequest(
+            Name: null, Description: null, EventDate: games[0].EventDate.AddMinutes(30), Duration: null,
+            Venue: null, MaxPlayers: null, Cost: null, RegistrationDeadline: null,
+            Status: null, Visibility: null, SkillLevels: null, SlotPositionLabels: null,
+            ApplyTo: "ThisAndFuture");
+
+        // Act
+        await _sut.UpdateAsync(games[0].Id, request, admin.Id);
+
+        // Assert
+        (await _context.Events.FindAsync(games[1].Id))!.EventDate.Should().Be(originalLaterDate.AddMinutes(30));
+    }
+
+    [Fact]
+    public async Task UpdateAsync_DefaultApplyTo_LeavesOtherSeriesGamesUnchanged()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var games = await CreateTestSeries(admin.Id, org.Id, games: 2);
+        var request = new UpdateEventRequest(
+            Name: null, Description: null, EventDate: null, Duration: null,
+            Venue: "New Rink", MaxPlayers: null, Cost: null, RegistrationDeadline: null,
+            Status: null, Visibility: null, SkillLevels: null, SlotPositionLabels: null);
+
+        // Act
+        await _sut.UpdateAsync(games[0].Id, request, admin.Id);
+
+        // Assert
+        (await _context.Events.FindAsync(games[1].Id))!.Venue.Should().NotBe("New Rink");
+    }
+
+    [Fact]
+    public async Task UpdateAsync_WithInvalidApplyTo_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser();
+        var evt = await CreateTestEvent(creator.Id);
+        var request = new UpdateEventRequest(
+            Name: null, Description: null, EventDate: null, Duration: null,
+            Venue: null, MaxPlayers: null, Cost: null, RegistrationDeadline: null,
+            Status: null, Visibility: null, SkillLevels: null, SlotPositionLabels: null,
+            ApplyTo: "Everything");
+
+        // Act & Assert
+        await _sut.Invoking(s => s.UpdateAsync(evt.Id, request, creator.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*applyTo*");
+    }
+
+    #endregion
+
+    #region Game History Tests
+
+    private async Task<EventRegistration> CreatePlayedGame(
+        Guid creatorId,
+        Guid userId,
+        Guid? organizationId,
+        DateTime eventDate,
+        string? teamAssignment = null,
+        string position = "Skater",
+        string? paymentStatus = null,
+        string registrationStatus = "Registered",
+        string eventStatus = "Published")
+    {
+        var evt = await CreateTestEvent(creatorId, organizationId, eventDate: eventDate, status: eventStatus);
+        var registration = await CreateRegistration(evt.Id, userId, registrationStatus);
+        registration.TeamAssignment = teamAssignment;
+        registration.RegisteredPosition = position;
+        registration.PaymentStatus = paymentStatus;
+        await _context.SaveChangesAsync();
+        return registration;
+    }
+
+    [Fact]
+    public async Task GetGameHistoryAsync_ReturnsFinishedRosteredGames_NewestFirst()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var older = await CreatePlayedGame(creator.Id, player.Id, null, DateTime.UtcNow.AddDays(-10));
+        var newer = await CreatePlayedGame(creator.Id, player.Id, null, DateTime.UtcNow.AddDays(-3));
+        await CreatePlayedGame(creator.Id, player.Id, null, DateTime.UtcNow.AddDays(3));
+        await CreatePlayedGame(creator.Id, player.Id, null, DateTime.UtcNow.AddDays(-5), registrationStatus: "Waitlisted");
+        await CreatePlayedGame(creator.Id, player.Id, null, DateTime.UtcNow.AddDays(-6), eventStatus: "Cancelled");
+
+        // Act
+        var result = await _sut.GetGameHistoryAsync(player.Id, player.Id, null, 0, 20);
+
+        // Assert
+        result.TotalCount.Should().Be(2);
+        result.HasMore.Should().BeFalse();
+        result.Games.Select(g => g.RegistrationId).Should().Equal(newer.Id, older.Id);
+    }
+
+    [Fact]
+    public async Task GetGameHistoryAsync_SummaryCoversWholeHistory_NotJustPage()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var org = await CreateTestOrganization(creator.Id, "Tuesday Hockey");
+        await CreatePlayedGame(creator.Id, player.Id, org.Id, DateTime.UtcNow.AddDays(-1), "Black", paymentStatus: "Verified");
+        await CreatePlayedGame(creator.Id, player.Id, org.Id, DateTime.UtcNow.AddDays(-2), "White", paymentStatus: "MarkedPaid");
+        await CreatePlayedGame(creator.Id, player.Id, null, DateTime.UtcNow.AddDays(-3), "Black", position: "Goalie");
+
+        // Act
+        var result = await _sut.GetGameHistoryAsync(player.Id, player.Id, null, 0, 1);
+
+        // Assert
+        result.Games.Should().HaveCount(1);
+        result.HasMore.Should().BeTrue();
+        result.Summary.TotalGames.Should().Be(3);
+        result.Summary.BlackGames.Should().Be(2);
+        result.Summary.WhiteGames.Should().Be(1);
+        result.Summary.GoalieGames.Should().Be(1);
+        result.Summary.UnpaidGames.Should().Be(1);
+        result.Summary.GamesByOrganization.Should().ContainSingle()
+            .Which.OrganizationName.Should().Be("Tuesday Hockey");
+    }
+
+    [Fact]
+    public async Task GetGameHistoryAsync_WithOrganization_OnlyIncludesThatOrganization()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var org = await CreateTestOrganization(creator.Id, "Tuesday Hockey");
+        var other = await CreateTestOrganization(creator.Id, "Friday Hockey");
+        await CreatePlayedGame(creator.Id, player.Id, org.Id, DateTime.UtcNow.AddDays(-1));
+        await CreatePlayedGame(creator.Id, player.Id, other.Id, DateTime.UtcNow.AddDays(-2));
+
+        // Act
+        var result = await _sut.GetGameHistoryAsync(player.Id, creator.Id, org.Id, 0, 20);
+
+        // Assert
+        result.TotalCount.Should().Be(1);
+        result.Games.Single().Event.OrganizationId.Should().Be(org.Id);
+    }
+
+    [Fact]
+    public async Task GetGameHistoryAsync_WithInvalidLimit_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var player = await CreateTestUser();
+
+        // Act & Assert
+        await _sut.Invoking(s => s.GetGameHistoryAsync(player.Id, player.Id, null, 0, 0))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*Limit*");
+    }
+
+    #endregion
+
+    #region Attendance & Reliability Tests
+
+    [Fact]
+    public async Task CancelRegistrationAsync_InsideLateCancelWindow_RecordsLateCancel()
+    {
+        // Arrange - Default window is 24h, game is in 3h
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id, eventDate: DateTime.UtcNow.AddHours(3));
+        await CreateRegistration(evt.Id, user.Id);
+        _mockWaitlistService.Setup(w => w.PromoteFromWaitlistAsync(evt.Id, 1, true))
+            .ReturnsAsync(new PromotionResult());
+
+        // Act
+        await _sut.CancelRegistrationAsync(evt.Id, user.Id);
+
+        // Assert
+        var registration = await _context.EventRegistrations.FirstAsync(r => r.EventId == evt.Id && r.UserId == user.Id);
+        registration.AttendanceStatus.Should().Be("LateCancel");
+    }
+
+    [Fact]
+    public async Task CancelRegistrationAsync_OutsideOrganizationWindow_DoesNotRecordLateCancel()
+    {
+        // Arrange - Org window is 2h, game is in 3h
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var org = await CreateTestOrganization(creator.Id);
+        org.LateCancelWindowHours = 2;
+        await _context.SaveChangesAsync();
+        var evt = await CreateTestEvent(creator.Id, org.Id, eventDate: DateTime.UtcNow.AddHours(3));
+        await CreateRegistration(evt.Id, user.Id);
+        _mockWaitlistService.Setup(w => w.PromoteFromWaitlistAsync(evt.Id, 1, true))
+            .ReturnsAsync(new PromotionResult());
+
+        // Act
+        await _sut.CancelRegistrationAsync(evt.Id, user.Id);
+
+        // Assert
+        var registration = await _context.EventRegistrations.FirstAsync(r => r.EventId == evt.Id && r.UserId == user.Id);
+        registration.AttendanceStatus.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task CancelRegistrationAsync_WhenWaitlistedInsideWindow_DoesNotRecordLateCancel()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id, eventDate: DateTime.UtcNow.AddHours(3));
+        await CreateRegistration(evt.Id, user.Id, "Waitlisted");
+
+        // Act
+        await _sut.CancelRegistrationAsync(evt.Id, user.Id);
+
+        // Assert
+        var registration = await _context.EventRegistrations.FirstAsync(r => r.EventId == evt.Id && r.UserId == user.Id);
+        registration.AttendanceStatus.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task RemoveRegistrationAsync_WithLateCancel_RecordsLateCancel()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, user.Id);
+        _mockWaitlistService.Setup(w => w.PromoteFromWaitlistAsync(evt.Id, 1, true))
+            .ReturnsAsync(new PromotionResult());
+
+        // Act
+        var result = await _sut.RemoveRegistrationAsync(evt.Id, registration.Id, creator.Id, lateCancel: true);
+
+        // Assert
+        result.Should().BeTrue();
+        registration.Status.Should().Be("Cancelled");
+        registration.AttendanceStatus.Should().Be("LateCancel");
+    }
+
+    [Fact]
+    public async Task RemoveRegistrationAsync_WithoutLateCancel_LeavesAttendanceEmpty()
+    {
+        // Arrange - Removal inside the window is not automatically a late cancel
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id, eventDate: DateTime.UtcNow.AddHours(1));
+        var registration = await CreateRegistration(evt.Id, user.Id);
+        _mockWaitlistService.Setup(w => w.PromoteFromWaitlistAsync(evt.Id, 1, true))
+            .ReturnsAsync(new PromotionResult());
+
+        // Act
+        await _sut.RemoveRegistrationAsync(evt.Id, registration.Id, creator.Id);
+
+        // Assert
+        registration.AttendanceStatus.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task UpdateAttendanceAsync_AfterGameStarted_RecordsStatuses()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var present = await CreateTestUser("present@example.com");
+        var noShow = await CreateTestUser("noshow@example.com");
+        var evt = await CreateTestEvent(creator.Id, eventDate: DateTime.UtcNow.AddHours(-2));
+        var presentReg = await CreateRegistration(evt.Id, present.Id);
+        var noShowReg = await CreateRegistration(evt.Id, noShow.Id);
+
+        // Act
+        var result = await _sut.UpdateAttendanceAsync(evt.Id, new List<AttendanceItem>
+        {
+            new(presentReg.Id, "Present"),
+            new(noShowReg.Id, "NoShow")
+        }, creator.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        presentReg.AttendanceStatus.Should().Be("Present");
+        noShowReg.AttendanceStatus.Should().Be("NoShow");
+    }
+
+    [Fact]
+    public async Task UpdateAttendanceAsync_BeforeGameStarts_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, user.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.UpdateAttendanceAsync(evt.Id,
+                new List<AttendanceItem> { new(registration.Id, "Present") }, creator.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*started*");
+    }
+
+    [Fact]
+    public async Task UpdateAttendanceAsync_WithInvalidStatus_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id, eventDate: DateTime.UtcNow.AddHours(-2));
+        var registration = await CreateRegistration(evt.Id, user.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.UpdateAttendanceAsync(evt.Id,
+                new List<AttendanceItem> { new(registration.Id, "Late") }, creator.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*Invalid attendance status*");
+    }
+
+    [Fact]
+    public async Task UpdateAttendanceAsync_ForWaitlistedPlayer_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id, eventDate: DateTime.UtcNow.AddHours(-2));
+        var registration = await CreateRegistration(evt.Id, user.Id, "Waitlisted");
+
+        // Act & Assert
+        await _sut.Invoking(s => s.UpdateAttendanceAsync(evt.Id,
+                new List<AttendanceItem> { new(registration.Id, "Present") }, creator.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*rostered*");
+    }
+
+    [Fact]
+    public async Task UpdateAttendanceAsync_WhenNotOrganizer_ReturnsFalse()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id, eventDate: DateTime.UtcNow.AddHours(-2));
+        var registration = await CreateRegistration(evt.Id, user.Id);
+
+        // Act
+        var result = await _sut.UpdateAttendanceAsync(evt.Id,
+            new List<AttendanceItem> { new(registration.Id, "Present") }, user.Id);
+
+        // Assert
+        result.Should().BeFalse();
+        registration.AttendanceStatus.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task GetRegistrationsAsync_IncludesReliabilityCountsAcrossEvents()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var pastGames = new[] { "Present", "Present", "NoShow" };
+        foreach (var status in pastGames)
+        {
+            var past = await CreateTestEvent(creator.Id, eventDate: DateTime.UtcNow.AddDays(-7));
+            var pastReg = await CreateRegistration(past.Id, user.Id);
+            pastReg.AttendanceStatus = status;
+        }
+        var cancelled = await CreateTestEvent(creator.Id, eventDate: DateTime.UtcNow.AddDays(-3));
+        var cancelledReg = await CreateRegistration(cancelled.Id, user.Id, "Cancelled");
+        cancelledReg.AttendanceStatus = "LateCancel";
+        await _context.SaveChangesAsync();
+
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, user.Id);
+
+        // Act
+        var result = await _sut.GetRegistrationsAsync(evt.Id);
+
+        // Assert
+        result.Single().Reliability.Should().Be(new ReliabilityDto(2, 1, 1));
+    }
+
+    #endregion
+
+    #region Check-In Tests
+
+    [Fact]
+    public async Task GetCheckInPassAsync_WhenRostered_ReturnsRegistrationToken()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, user.Id);
+
+        // Act
+        var pass = await _sut.GetCheckInPassAsync(evt.Id, user.Id);
+
+        // Assert
+        pass.Should().Be(new CheckInPassDto(registration.Id, registration.CheckInToken));
+        registration.CheckInToken.Should().HaveLength(32);
+    }
+
+    [Fact]
+    public async Task GetCheckInPassAsync_WhenWaitlisted_ReturnsNull()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, user.Id, "Waitlisted");
+
+        // Act
+        var pass = await _sut.GetCheckInPassAsync(evt.Id, user.Id);
+
+        // Assert
+        pass.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task CheckInAsync_WithValidToken_ChecksInAndMarksPresent()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, user.Id);
+        var scannedAt = DateTime.UtcNow.AddMinutes(-10);
+
+        // Act
+        var result = await _sut.CheckInAsync(evt.Id, new List<CheckInItem>
+        {
+            new(registration.Id, registration.CheckInToken, scannedAt)
+        }, creator.Id);
+
+        // Assert
+        result!.CheckedIn.Should().Equal(registration.Id);
+        result.Rejected.Should().BeEmpty();
+        registration.CheckedInAt.Should().Be(scannedAt);
+        registration.AttendanceStatus.Should().Be("Present");
+    }
+
+    [Fact]
+    public async Task CheckInAsync_WithWrongToken_RejectsScan()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, user.Id);
+
+        // Act
+        var result = await _sut.CheckInAsync(evt.Id, new List<CheckInItem>
+        {
+            new(registration.Id, "forged", DateTime.UtcNow)
+        }, creator.Id);
+
+        // Assert
+        result!.CheckedIn.Should().BeEmpty();
+        result.Rejected.Should().ContainSingle().Which.RegistrationId.Should().Be(registration.Id);
+        registration.CheckedInAt.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task CheckInAsync_WhenSyncedTwice_KeepsEarliestScan()
+    {
+        // Arrange - Two scanners synced the same pass
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, user.Id);
+        var first = DateTime.UtcNow.AddMinutes(-20);
+
+        // Act
+        await _sut.CheckInAsync(evt.Id, new List<CheckInItem>
+        {
+            new(registration.Id, registration.CheckInToken, DateTime.UtcNow.AddMinutes(-5))
+        }, creator.Id);
+        var result = await _sut.CheckInAsync(evt.Id, new List<CheckInItem>
+        {
+            new(registration.Id, registration.CheckInToken, first)
+        }, creator.Id);
+
+        // Assert
+        result!.CheckedIn.Should().Equal(registration.Id);
+        registration.CheckedInAt.Should().Be(first);
+    }
+
+    [Fact]
+    public async Task CheckInAsync_WhenNotOrganizer_ReturnsNull()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, user.Id);
+
+        // Act
+        var result = await _sut.CheckInAsync(evt.Id, new List<CheckInItem>
+        {
+            new(registration.Id, registration.CheckInToken, DateTime.UtcNow)
+        }, user.Id);
+
+        // Assert
+        result.Should().BeNull();
+        registration.CheckedInAt.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task UndoCheckInAsync_ClearsCheckInAndScannedAttendance()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, user.Id);
+        await _sut.CheckInAsync(evt.Id, new List<CheckInItem>
+        {
+            new(registration.Id, registration.CheckInToken, DateTime.UtcNow)
+        }, creator.Id);
+
+        // Act
+        var result = await _sut.UndoCheckInAsync(evt.Id, registration.Id, creator.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        registration.CheckedInAt.Should().BeNull();
+        registration.AttendanceStatus.Should().BeNull();
+    }
+
+    #endregion
 }
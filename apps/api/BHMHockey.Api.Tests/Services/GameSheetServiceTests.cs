@@ -0,0 +1,538 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using BHMHockey.Api.Services;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BHMHockey.Api.Tests.Services;
+
+/// <summary>
+/// Tests for GameSheetService - saving and reading match game sheets,
+/// roster validation, team penalty minutes, completing a match from a final sheet
+/// and the player stats summed from sheets.
+/// </summary>
+public class GameSheetServiceTests : IDisposable
+{
+    private readonly AppDbContext _context;
+    private readonly GameSheetService _sut;
+
+    public GameSheetServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<AppDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        _context = new AppDbContext(options);
+        var authService = new TournamentAuthorizationService(_context);
+        var auditLogger = new Mock<ILogger<TournamentAuditService>>();
+        var auditService = new TournamentAuditService(_context, authService, auditLogger.Object);
+        var matchService = new TournamentMatchService(_context, authService, auditService);
+        _sut = new GameSheetService(_context, authService, matchService);
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Helper Methods
+
+    private async Task<User> CreateTestUser(string firstName = "John", string lastName = "Doe")
+    {
+        var user = new User
+        {
+            Id = Guid.NewGuid(),
+            Email = $"{Guid.NewGuid()}@example.com",
+            PasswordHash = "hashed_password",
+            FirstName = firstName,
+            LastName = lastName,
+            Role = "Player",
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Users.Add(user);
+        await _context.SaveChangesAsync();
+        return user;
+    }
+
+    private async Task<Tournament> CreateTestTournament(Guid creatorId, string status = "InProgress")
+    {
+        var tournament = new Tournament
+        {
+            Id = Guid.NewGuid(),
+            CreatorId = creatorId,
+            Name = "Test Tournament",
+            Format = "RoundRobin",
+            TeamFormation = "OrganizerAssigned",
+            Status = status,
+            StartDate = DateTime.UtcNow.AddDays(-1),
+            EndDate = DateTime.UtcNow.AddDays(1),
+            RegistrationDeadline = DateTime.UtcNow.AddDays(-5),
+            MaxTeams = 8,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Tournaments.Add(tournament);
+        _context.TournamentAdmins.Add(new TournamentAdmin
+        {
+            Id = Guid.NewGuid(),
+            TournamentId = tournament.Id,
+            UserId = creatorId,
+            Role = "Owner",
+            AddedAt = DateTime.UtcNow
+        });
+        await _context.SaveChangesAsync();
+        return tournament;
+    }
+
+    private async Task<TournamentTeam> CreateTestTeam(Guid tournamentId, string name, params User[] players)
+    {
+        var team = new TournamentTeam
+        {
+            Id = Guid.NewGuid(),
+            TournamentId = tournamentId,
+            Name = name,
+            Status = "Active",
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.TournamentTeams.Add(team);
+        foreach (var player in players)
+        {
+            _context.TournamentTeamMembers.Add(new TournamentTeamMember
+            {
+                Id = Guid.NewGuid(),
+                TeamId = team.Id,
+                UserId = player.Id,
+                Status = "Accepted"
+            });
+        }
+        await _context.SaveChangesAsync();
+        return team;
+    }
+
+    private async Task<TournamentMatch> CreateTestMatch(Guid tournamentId, Guid homeTeamId, Guid awayTeamId)
+    {
+        var match = new TournamentMatch
+        {
+            Id = Guid.NewGuid(),
+            TournamentId = tournamentId,
+            HomeTeamId = homeTeamId,
+            AwayTeamId = awayTeamId,
+            Round = 1,
+            MatchNumber = 1,
+            Status = "InProgress",
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.TournamentMatches.Add(match);
+        await _context.SaveChangesAsync();
+        return match;
+    }
+
+    private static GameSheetGoalRequest Goal(Guid teamId, Guid scorerId, Guid? assistId = null, int period = 1, string time = "05:00") => new()
+    {
+        TeamId = teamId,
+        ScorerUserId = scorerId,
+        PrimaryAssistUserId = assistId,
+        Period = period,
+        Time = time
+    };
+
+    private static GameSheetPenaltyRequest Penalty(Guid teamId, Guid playerId, int minutes = 2) => new()
+    {
+        TeamId = teamId,
+        PlayerUserId = playerId,
+        Infraction = "Tripping",
+        Minutes = minutes,
+        Period = 2,
+        Time = "10:30"
+    };
+
+    #endregion
+
+    #region SaveAsync Tests
+
+    [Fact]
+    public async Task SaveAsync_ValidSheet_StoresEntriesAndDerivesScore()
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var scorer = await CreateTestUser("Wayne", "Gretzky");
+        var assist = await CreateTestUser("Jari", "Kurri");
+        var opponent = await CreateTestUser("Patrick", "Roy");
+        var tournament = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home", scorer, assist);
+        var away = await CreateTestTeam(tournament.Id, "Away", opponent);
+        var match = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+
+        var request = new SaveGameSheetRequest
+        {
+            Goals = { Goal(home.Id, scorer.Id, assist.Id), Goal(home.Id, assist.Id, period: 2) },
+            Penalties = { Penalty(away.Id, opponent.Id) },
+            Goalies = { new GameSheetGoalieRequest { TeamId = away.Id, UserId = opponent.Id, ShotsAgainst = 20 } }
+        };
+
+        // Act
+        var result = await _sut.SaveAsync(tournament.Id, match.Id, request, admin.Id);
+
+        // Assert
+        result.HomeScore.Should().Be(2);
+        result.AwayScore.Should().Be(0);
+        result.IsFinal.Should().BeFalse();
+        result.Goals.Should().HaveCount(2);
+        result.Goals[0].ScorerName.Should().Be("Wayne Gretzky");
+        result.Goals[0].PrimaryAssistName.Should().Be("Jari Kurri");
+        result.Penalties.Should().ContainSingle().Which.PlayerName.Should().Be("Patrick Roy");
+        result.Goalies.Should().ContainSingle().Which.ShotsAgainst.Should().Be(20);
+        result.UpdatedAt.Should().NotBeNull();
+
+        var savedMatch = await _context.TournamentMatches.FindAsync(match.Id);
+        savedMatch!.Status.Should().Be("InProgress");
+        savedMatch.GameSheetUpdatedByUserId.Should().Be(admin.Id);
+    }
+
+    [Fact]
+    public async Task SaveAsync_ReplacesPreviousSheet()
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var player = await CreateTestUser();
+        var opponent = await CreateTestUser();
+        var tournament = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home", player);
+        var away = await CreateTestTeam(tournament.Id, "Away", opponent);
+        var match = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+
+        await _sut.SaveAsync(tournament.Id, match.Id, new SaveGameSheetRequest
+        {
+            Goals = { Goal(home.Id, player.Id), Goal(away.Id, opponent.Id) }
+        }, admin.Id);
+
+        // Act
+        var result = await _sut.SaveAsync(tournament.Id, match.Id, new SaveGameSheetRequest
+        {
+            Goals = { Goal(away.Id, opponent.Id) }
+        }, admin.Id);
+
+        // Assert
+        result.Goals.Should().ContainSingle();
+        result.HomeScore.Should().Be(0);
+        result.AwayScore.Should().Be(1);
+        (await _context.MatchGoals.CountAsync()).Should().Be(1);
+    }
+
+    [Fact]
+    public async Task SaveAsync_RecalculatesTeamPenaltyMinutesAcrossMatches()
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var player = await CreateTestUser();
+        var opponent = await CreateTestUser();
+        var tournament = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home", player);
+        var away = await CreateTestTeam(tournament.Id, "Away", opponent);
+        var firstMatch = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+        var secondMatch = await CreateTestMatch(tournament.Id, away.Id, home.Id);
+
+        await _sut.SaveAsync(tournament.Id, firstMatch.Id, new SaveGameSheetRequest
+        {
+            Penalties = { Penalty(home.Id, player.Id, 5) }
+        }, admin.Id);
+
+        // Act - second match adds 2 minutes, then an edit lowers the first match to 2
+        await _sut.SaveAsync(tournament.Id, secondMatch.Id, new SaveGameSheetRequest
+        {
+            Penalties = { Penalty(home.Id, player.Id, 2) }
+        }, admin.Id);
+        await _sut.SaveAsync(tournament.Id, firstMatch.Id, new SaveGameSheetRequest
+        {
+            Penalties = { Penalty(home.Id, player.Id, 2) }
+        }, admin.Id);
+
+        // Assert
+        var homeTeam = await _context.TournamentTeams.FindAsync(home.Id);
+        homeTeam!.PenaltyMinutes.Should().Be(4);
+        var awayTeam = await _context.TournamentTeams.FindAsync(away.Id);
+        awayTeam!.PenaltyMinutes.Should().Be(0);
+    }
+
+    [Fact]
+    public async Task SaveAsync_FinalSheet_CompletesMatchWithDerivedScore()
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var player = await CreateTestUser();
+        var opponent = await CreateTestUser();
+        var tournament = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home", player);
+        var away = await CreateTestTeam(tournament.Id, "Away", opponent);
+        var match = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+
+        // Act
+        var result = await _sut.SaveAsync(tournament.Id, match.Id, new SaveGameSheetRequest
+        {
+            Goals = { Goal(home.Id, player.Id), Goal(home.Id, player.Id, time: "12:00"), Goal(away.Id, opponent.Id) },
+            IsFinal = true
+        }, admin.Id);
+
+        // Assert
+        result.IsFinal.Should().BeTrue();
+        var savedMatch = await _context.TournamentMatches.FindAsync(match.Id);
+        savedMatch!.Status.Should().Be("Completed");
+        savedMatch.HomeScore.Should().Be(2);
+        savedMatch.AwayScore.Should().Be(1);
+        savedMatch.WinnerTeamId.Should().Be(home.Id);
+        (await _context.MatchGoals.CountAsync()).Should().Be(3);
+    }
+
+    [Fact]
+    public async Task SaveAsync_CompletedMatchWithoutFinal_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var player = await CreateTestUser();
+        var opponent = await CreateTestUser();
+        var tournament = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home", player);
+        var away = await CreateTestTeam(tournament.Id, "Away", opponent);
+        var match = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+        match.Status = "Completed";
+        await _context.SaveChangesAsync();
+
+        // Act
+        var act = () => _sut.SaveAsync(tournament.Id, match.Id, new SaveGameSheetRequest(), admin.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*already completed*");
+    }
+
+    [Fact]
+    public async Task SaveAsync_PlayerNotOnTeamRoster_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var player = await CreateTestUser();
+        var opponent = await CreateTestUser();
+        var tournament = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home", player);
+        var away = await CreateTestTeam(tournament.Id, "Away", opponent);
+        var match = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+
+        // Act - opponent credited with a goal for the home team
+        var act = () => _sut.SaveAsync(tournament.Id, match.Id, new SaveGameSheetRequest
+        {
+            Goals = { Goal(home.Id, opponent.Id) }
+        }, admin.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*roster*");
+    }
+
+    [Theory]
+    [InlineData(0, "05:00", 2)]
+    [InlineData(7, "05:00", 2)]
+    [InlineData(1, "5:00", 2)]
+    [InlineData(1, "05:75", 2)]
+    [InlineData(1, "05:00", 3)]
+    public async Task SaveAsync_InvalidPenaltyEntry_ThrowsInvalidOperationException(int period, string time, int minutes)
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var player = await CreateTestUser();
+        var opponent = await CreateTestUser();
+        var tournament = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home", player);
+        var away = await CreateTestTeam(tournament.Id, "Away", opponent);
+        var match = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+
+        var penalty = Penalty(home.Id, player.Id, minutes) with { Period = period, Time = time };
+
+        // Act
+        var act = () => _sut.SaveAsync(tournament.Id, match.Id, new SaveGameSheetRequest
+        {
+            Penalties = { penalty }
+        }, admin.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>();
+    }
+
+    [Fact]
+    public async Task SaveAsync_ScorerCreditedWithAssist_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var player = await CreateTestUser();
+        var opponent = await CreateTestUser();
+        var tournament = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home", player);
+        var away = await CreateTestTeam(tournament.Id, "Away", opponent);
+        var match = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+
+        // Act
+        var act = () => _sut.SaveAsync(tournament.Id, match.Id, new SaveGameSheetRequest
+        {
+            Goals = { Goal(home.Id, player.Id, player.Id) }
+        }, admin.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*credited twice*");
+    }
+
+    [Fact]
+    public async Task SaveAsync_NonAdmin_ThrowsUnauthorizedAccessException()
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var player = await CreateTestUser();
+        var opponent = await CreateTestUser();
+        var tournament = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home", player);
+        var away = await CreateTestTeam(tournament.Id, "Away", opponent);
+        var match = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+
+        // Act
+        var act = () => _sut.SaveAsync(tournament.Id, match.Id, new SaveGameSheetRequest(), player.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<UnauthorizedAccessException>();
+    }
+
+    #endregion
+
+    #region GetPlayerStatsAsync Tests
+
+    [Fact]
+    public async Task GetPlayerStatsAsync_SumsSkaterAndGoalieTotalsFromSheets()
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var scorer = await CreateTestUser("Wayne", "Gretzky");
+        var assist = await CreateTestUser("Jari", "Kurri");
+        var homeGoalie = await CreateTestUser("Grant", "Fuhr");
+        var awayGoalie = await CreateTestUser("Patrick", "Roy");
+        var tournament = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home", scorer, assist, homeGoalie);
+        var away = await CreateTestTeam(tournament.Id, "Away", awayGoalie);
+        foreach (var member in _context.TournamentTeamMembers.Where(m => m.UserId == homeGoalie.Id || m.UserId == awayGoalie.Id))
+        {
+            member.Position = "Goalie";
+        }
+        await _context.SaveChangesAsync();
+
+        var firstMatch = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+        var secondMatch = await CreateTestMatch(tournament.Id, away.Id, home.Id);
+        await CreateTestMatch(tournament.Id, home.Id, away.Id);  // No game sheet yet
+
+        await _sut.SaveAsync(tournament.Id, firstMatch.Id, new SaveGameSheetRequest
+        {
+            Goals = { Goal(home.Id, scorer.Id, assist.Id), Goal(home.Id, scorer.Id, time: "15:00") },
+            Penalties = { Penalty(home.Id, assist.Id, 4) },
+            Goalies =
+            {
+                new GameSheetGoalieRequest { TeamId = home.Id, UserId = homeGoalie.Id, ShotsAgainst = 10 },
+                new GameSheetGoalieRequest { TeamId = away.Id, UserId = awayGoalie.Id, ShotsAgainst = 25 }
+            }
+        }, admin.Id);
+        await _sut.SaveAsync(tournament.Id, secondMatch.Id, new SaveGameSheetRequest
+        {
+            Goals = { Goal(away.Id, awayGoalie.Id), Goal(home.Id, assist.Id, scorer.Id) },
+            Goalies = { new GameSheetGoalieRequest { TeamId = home.Id, UserId = homeGoalie.Id } }
+        }, admin.Id);
+
+        // Act
+        var result = await _sut.GetPlayerStatsAsync(tournament.Id);
+
+        // Assert
+        result.Should().NotBeNull();
+        result!.Skaters.Select(s => s.Name).Should().Equal("Wayne Gretzky", "Jari Kurri", "Patrick Roy");
+
+        var gretzky = result.Skaters[0];
+        gretzky.GamesPlayed.Should().Be(2);
+        gretzky.Goals.Should().Be(2);
+        gretzky.Assists.Should().Be(1);
+        gretzky.Points.Should().Be(3);
+
+        var kurri = result.Skaters[1];
+        kurri.Points.Should().Be(2);
+        kurri.PenaltyMinutes.Should().Be(4);
+
+        var fuhr = result.Goalies.Single(g => g.UserId == homeGoalie.Id);
+        fuhr.GamesPlayed.Should().Be(2);
+        fuhr.GoalsAgainst.Should().Be(1);
+        fuhr.ShotsAgainst.Should().Be(10);
+        fuhr.Saves.Should().Be(10);
+
+        var roy = result.Goalies.Single(g => g.UserId == awayGoalie.Id);
+        roy.TeamName.Should().Be("Away");
+        roy.GoalsAgainst.Should().Be(2);
+        roy.Saves.Should().Be(23);
+    }
+
+    [Fact]
+    public async Task GetPlayerStatsAsync_TournamentNotFound_ReturnsNull()
+    {
+        // Act
+        var result = await _sut.GetPlayerStatsAsync(Guid.NewGuid());
+
+        // Assert
+        result.Should().BeNull();
+    }
+
+    #endregion
+
+    #region GetAsync Tests
+
+    [Fact]
+    public async Task GetAsync_NothingRecorded_ReturnsEmptySheet()
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var tournament = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home");
+        var away = await CreateTestTeam(tournament.Id, "Away");
+        var match = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+
+        // Act
+        var result = await _sut.GetAsync(tournament.Id, match.Id);
+
+        // Assert
+        result.Should().NotBeNull();
+        result!.Goals.Should().BeEmpty();
+        result.Penalties.Should().BeEmpty();
+        result.Goalies.Should().BeEmpty();
+        result.UpdatedAt.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task GetAsync_MatchInOtherTournament_ReturnsNull()
+    {
+        // Arrange
+        var admin = await CreateTestUser();
+        var tournament = await CreateTestTournament(admin.Id);
+        var other = await CreateTestTournament(admin.Id);
+        var home = await CreateTestTeam(tournament.Id, "Home");
+        var away = await CreateTestTeam(tournament.Id, "Away");
+        var match = await CreateTestMatch(tournament.Id, home.Id, away.Id);
+
+        // Act
+        var result = await _sut.GetAsync(other.Id, match.Id);
+
+        // Assert
+        result.Should().BeNull();
+    }
+
+    #endregion
+}
@@ -0,0 +1,337 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using BHMHockey.Api.Services;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Xunit;
+
+namespace BHMHockey.Api.Tests.Services;
+
+/// <summary>
+/// Tests for NotificationPreferenceService - organization and tournament mutes, quiet hours
+/// and the game reminder lead time.
+/// </summary>
+public class NotificationPreferenceServiceTests : IDisposable
+{
+    private readonly AppDbContext _context;
+    private readonly NotificationPreferenceService _sut;
+
+    public NotificationPreferenceServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<AppDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        _context = new AppDbContext(options);
+        _sut = new NotificationPreferenceService(_context);
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Helper Methods
+
+    private async Task<User> CreateTestUser(string email)
+    {
+        var user = new User
+        {
+            Id = Guid.NewGuid(),
+            Email = email,
+            PasswordHash = "hashed_password",
+            FirstName = "Test",
+            LastName = email.Split('@')[0],
+            Role = "Player",
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Users.Add(user);
+        await _context.SaveChangesAsync();
+        return user;
+    }
+
+    private async Task<Organization> CreateSubscribedOrganization(Guid userId, string name = "Test Org")
+    {
+        var org = new Organization
+        {
+            Id = Guid.NewGuid(),
+            Name = name,
+            CreatorId = userId,
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow
+        };
+        _context.Organizations.Add(org);
+        _context.OrganizationSubscriptions.Add(new OrganizationSubscription
+        {
+            Id = Guid.NewGuid(),
+            OrganizationId = org.Id,
+            UserId = userId,
+            SubscribedAt = DateTime.UtcNow
+        });
+
+        await _context.SaveChangesAsync();
+        return org;
+    }
+
+    private async Task<Tournament> CreateRegisteredTournament(Guid userId, string status = "Open")
+    {
+        var tournament = new Tournament
+        {
+            Id = Guid.NewGuid(),
+            CreatorId = userId,
+            Name = "Test Tournament",
+            Format = "SingleElimination",
+            TeamFormation = "OrganizerAssigned",
+            Status = status,
+            StartDate = DateTime.UtcNow.AddDays(30),
+            EndDate = DateTime.UtcNow.AddDays(32),
+            RegistrationDeadline = DateTime.UtcNow.AddDays(25),
+            MaxTeams = 8,
+            MinPlayersPerTeam = 5,
+            MaxPlayersPerTeam = 10,
+            FeeType = "PerPlayer",
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+        _context.Tournaments.Add(tournament);
+        _context.TournamentRegistrations.Add(new TournamentRegistration
+        {
+            Id = Guid.NewGuid(),
+            TournamentId = tournament.Id,
+            UserId = userId,
+            Status = "Registered",
+            Position = "Skater",
+            RegisteredAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        });
+
+        await _context.SaveChangesAsync();
+        return tournament;
+    }
+
+    private static UpdateNotificationPreferencesRequest CreateRequest(
+        List<OrganizationNotificationPreferenceUpdate>? organizations = null,
+        List<TournamentNotificationPreferenceUpdate>? tournaments = null,
+        QuietHoursDto? quietHours = null,
+        int gameReminderHours = 2)
+    {
+        return new UpdateNotificationPreferencesRequest(
+            organizations ?? new List<OrganizationNotificationPreferenceUpdate>(),
+            tournaments ?? new List<TournamentNotificationPreferenceUpdate>(),
+            quietHours,
+            gameReminderHours);
+    }
+
+    #endregion
+
+    #region GetAsync Tests
+
+    [Fact]
+    public async Task GetAsync_ListsSubscriptionsAndActiveTournaments_WithDefaults()
+    {
+        // Arrange
+        var user = await CreateTestUser("player@example.com");
+        var org = await CreateSubscribedOrganization(user.Id);
+        var tournament = await CreateRegisteredTournament(user.Id);
+        await CreateRegisteredTournament(user.Id, status: "Completed");
+
+        // Act
+        var result = await _sut.GetAsync(user.Id);
+
+        // Assert
+        result.Should().NotBeNull();
+        result!.Organizations.Should().ContainSingle(o => o.OrganizationId == org.Id && o.DisabledTypes.Count == 0);
+        result.Tournaments.Should().ContainSingle(t => t.TournamentId == tournament.Id);
+        result.QuietHours.Should().BeNull();
+        result.GameReminderHours.Should().Be(NotificationPreferences.DefaultGameReminderHours);
+    }
+
+    [Fact]
+    public async Task GetAsync_UnknownUser_ReturnsNull()
+    {
+        // Act
+        var result = await _sut.GetAsync(Guid.NewGuid());
+
+        // Assert
+        result.Should().BeNull();
+    }
+
+    #endregion
+
+    #region UpdateAsync Tests
+
+    [Fact]
+    public async Task UpdateAsync_SavesMutesQuietHoursAndReminderLeadTime()
+    {
+        // Arrange
+        var user = await CreateTestUser("player@example.com");
+        var org = await CreateSubscribedOrganization(user.Id);
+        var tournament = await CreateRegisteredTournament(user.Id);
+        var request = CreateRequest(
+            new List<OrganizationNotificationPreferenceUpdate> { new(org.Id, new List<string> { "new_event" }) },
+            new List<TournamentNotificationPreferenceUpdate> { new(tournament.Id, new List<string> { "sub_request" }) },
+            new QuietHoursDto("22:00", "07:00", "America/Chicago"),
+            gameReminderHours: 6);
+
+        // Act
+        var result = await _sut.UpdateAsync(user.Id, request);
+
+        // Assert
+        result!.Organizations.Single().DisabledTypes.Should().BeEquivalentTo(new[] { "new_event" });
+        result.Tournaments.Single().DisabledTypes.Should().BeEquivalentTo(new[] { "sub_request" });
+        result.QuietHours.Should().Be(new QuietHoursDto("22:00", "07:00", "America/Chicago"));
+        result.GameReminderHours.Should().Be(6);
+    }
+
+    [Fact]
+    public async Task UpdateAsync_IgnoresOrganizationsUserIsNotSubscribedTo()
+    {
+        // Arrange
+        var user = await CreateTestUser("player@example.com");
+        var request = CreateRequest(
+            new List<OrganizationNotificationPreferenceUpdate> { new(Guid.NewGuid(), new List<string> { "new_event" }) });
+
+        // Act
+        var result = await _sut.UpdateAsync(user.Id, request);
+
+        // Assert
+        result!.Organizations.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task UpdateAsync_TypeNotMutableForTournaments_Throws()
+    {
+        // Arrange
+        var user = await CreateTestUser("player@example.com");
+        var tournament = await CreateRegisteredTournament(user.Id);
+        var request = CreateRequest(
+            tournaments: new List<TournamentNotificationPreferenceUpdate> { new(tournament.Id, new List<string> { "new_event" }) });
+
+        // Act & Assert
+        await _sut.Invoking(s => s.UpdateAsync(user.Id, request))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*new_event*");
+    }
+
+    [Fact]
+    public async Task UpdateAsync_UnknownTimeZone_Throws()
+    {
+        // Arrange
+        var user = await CreateTestUser("player@example.com");
+        var request = CreateRequest(quietHours: new QuietHoursDto("22:00", "07:00", "Mars/Olympus_Mons"));
+
+        // Act & Assert
+        await _sut.Invoking(s => s.UpdateAsync(user.Id, request))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*time zone*");
+    }
+
+    [Fact]
+    public async Task UpdateAsync_ReminderLeadTimeNotAnOption_Throws()
+    {
+        // Arrange
+        var user = await CreateTestUser("player@example.com");
+        var request = CreateRequest(gameReminderHours: 5);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.UpdateAsync(user.Id, request))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*hours before a game*");
+    }
+
+    #endregion
+
+    #region GetDeliveryAsync Tests
+
+    [Fact]
+    public async Task GetDeliveryAsync_TypeMutedForOrganization_ReturnsSkip()
+    {
+        // Arrange
+        var user = await CreateTestUser("player@example.com");
+        var org = await CreateSubscribedOrganization(user.Id);
+        await _sut.UpdateAsync(user.Id, CreateRequest(
+            new List<OrganizationNotificationPreferenceUpdate> { new(org.Id, new List<string> { "new_event" }) }));
+
+        // Act
+        var muted = await _sut.GetDeliveryAsync(user.Id, "new_event", org.Id, null);
+        var other = await _sut.GetDeliveryAsync(user.Id, "game_reminder", org.Id, null);
+
+        // Assert
+        muted.Should().Be(NotificationDelivery.Skip);
+        other.Should().Be(NotificationDelivery.Send);
+    }
+
+    [Fact]
+    public async Task GetDeliveryAsync_TournamentScopeWinsOverOrganization()
+    {
+        // Arrange
+        var user = await CreateTestUser("player@example.com");
+        var org = await CreateSubscribedOrganization(user.Id);
+        var tournament = await CreateRegisteredTournament(user.Id);
+        await _sut.UpdateAsync(user.Id, CreateRequest(
+            new List<OrganizationNotificationPreferenceUpdate> { new(org.Id, new List<string> { "sub_request" }) }));
+
+        // Act
+        var result = await _sut.GetDeliveryAsync(user.Id, "sub_request", org.Id, tournament.Id);
+
+        // Assert
+        result.Should().Be(NotificationDelivery.Send);
+    }
+
+    [Fact]
+    public async Task GetDeliveryAsync_InsideQuietHours_ReturnsSilent()
+    {
+        // Arrange - a short window around the current time
+        var user = await CreateTestUser("player@example.com");
+        var now = DateTime.UtcNow;
+        var start = now.AddMinutes(-1).ToString("HH:mm");
+        var end = now.AddMinutes(2).ToString("HH:mm");
+        await _sut.UpdateAsync(user.Id, CreateRequest(quietHours: new QuietHoursDto(start, end, "UTC")));
+
+        // Act
+        var result = await _sut.GetDeliveryAsync(user.Id, "new_event", null, null);
+
+        // Assert
+        result.Should().Be(NotificationDelivery.Silent);
+    }
+
+    #endregion
+
+    #region Quiet Hours Tests
+
+    [Theory]
+    [InlineData("22:00", "07:00", 23, 30, true)]
+    [InlineData("22:00", "07:00", 6, 59, true)]
+    [InlineData("22:00", "07:00", 7, 0, false)]
+    [InlineData("13:00", "15:00", 14, 0, true)]
+    [InlineData("13:00", "15:00", 12, 0, false)]
+    public void IsWithinQuietHours_HandlesSameDayAndOvernightWindows(string start, string end, int hour, int minute, bool expected)
+    {
+        // Arrange
+        var utcNow = new DateTime(2026, 1, 15, hour, minute, 0, DateTimeKind.Utc);
+
+        // Act
+        var result = NotificationPreferences.IsWithinQuietHours(start, end, "UTC", utcNow);
+
+        // Assert
+        result.Should().Be(expected);
+    }
+
+    [Fact]
+    public void IsWithinQuietHours_UsesTheGivenTimeZone()
+    {
+        // Arrange - 04:00 UTC in January is 22:00 in Chicago
+        var utcNow = new DateTime(2026, 1, 15, 4, 0, 0, DateTimeKind.Utc);
+
+        // Act
+        var result = NotificationPreferences.IsWithinQuietHours("21:00", "23:00", "America/Chicago", utcNow);
+
+        // Assert
+        result.Should().BeTrue();
+    }
+
+    #endregion
+}
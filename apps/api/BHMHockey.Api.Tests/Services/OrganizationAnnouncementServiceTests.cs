@@ -0,0 +1,384 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using BHMHockey.Api.Services;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BHMHockey.Api.Tests.Services;
+
+/// <summary>
+/// Tests for OrganizationAnnouncementService - admin posts with visibility filtering
+/// (All, Admins, AutoRoster, EventRegistrants) and pushes to the target audience.
+/// </summary>
+public class OrganizationAnnouncementServiceTests : IDisposable
+{
+    private readonly AppDbContext _context;
+    private readonly Mock<INotificationService> _mockNotificationService;
+    private readonly OrganizationAnnouncementService _sut;
+
+    public OrganizationAnnouncementServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<AppDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .Options;
+        _context = new AppDbContext(options);
+        _mockNotificationService = new Mock<INotificationService>();
+        _sut = new OrganizationAnnouncementService(
+            _context,
+            new OrganizationAdminService(_context),
+            _mockNotificationService.Object,
+            Mock.Of<ILogger<OrganizationAnnouncementService>>());
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Helper Methods
+
+    private async Task<User> CreateTestUser(string email, string? pushToken = null)
+    {
+        var user = new User
+        {
+            Id = Guid.NewGuid(),
+            Email = email,
+            PasswordHash = "hashed_password",
+            FirstName = "Test",
+            LastName = email.Split('@')[0],
+            PushToken = pushToken,
+            Role = "Player",
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Users.Add(user);
+        await _context.SaveChangesAsync();
+        return user;
+    }
+
+    private async Task<Organization> CreateTestOrganization(Guid creatorId)
+    {
+        var org = new Organization
+        {
+            Id = Guid.NewGuid(),
+            Name = "Test Org",
+            CreatorId = creatorId,
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow
+        };
+        _context.Organizations.Add(org);
+        _context.OrganizationAdmins.Add(new OrganizationAdmin
+        {
+            Id = Guid.NewGuid(),
+            OrganizationId = org.Id,
+            UserId = creatorId,
+            AddedAt = DateTime.UtcNow
+        });
+
+        await _context.SaveChangesAsync();
+        return org;
+    }
+
+    private async Task<Event> CreateTestEvent(Guid creatorId, Guid organizationId, DateTime? eventDate = null)
+    {
+        var evt = new Event
+        {
+            Id = Guid.NewGuid(),
+            CreatorId = creatorId,
+            OrganizationId = organizationId,
+            Name = "Friday Skate",
+            EventDate = eventDate ?? DateTime.UtcNow.AddDays(7),
+            Duration = 60,
+            Venue = "Rink A",
+            MaxPlayers = 10,
+            Cost = 0,
+            Status = "Published",
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Events.Add(evt);
+        await _context.SaveChangesAsync();
+        return evt;
+    }
+
+    private async Task Register(Guid eventId, Guid userId)
+    {
+        _context.EventRegistrations.Add(new EventRegistration
+        {
+            Id = Guid.NewGuid(),
+            EventId = eventId,
+            UserId = userId,
+            Status = "Registered",
+            RegisteredAt = DateTime.UtcNow
+        });
+        await _context.SaveChangesAsync();
+    }
+
+    private async Task AddToAutoRoster(Guid organizationId, Guid userId)
+    {
+        _context.OrganizationAutoRosterMembers.Add(new OrganizationAutoRosterMember
+        {
+            Id = Guid.NewGuid(),
+            OrganizationId = organizationId,
+            UserId = userId,
+            AddedAt = DateTime.UtcNow
+        });
+        await _context.SaveChangesAsync();
+    }
+
+    #endregion
+
+    #region GetAnnouncementsAsync Tests
+
+    [Fact]
+    public async Task GetAnnouncementsAsync_AdminSeesEveryTarget()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var evt = await CreateTestEvent(admin.Id, org.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("Everyone", "Body", "All"), admin.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("Admins", "Body", "Admins"), admin.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("Regulars", "Body", "AutoRoster"), admin.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("Game", "Body", "EventRegistrants", evt.Id), admin.Id);
+
+        // Act
+        var result = await _sut.GetAnnouncementsAsync(org.Id, admin.Id);
+
+        // Assert
+        result.Should().HaveCount(4);
+    }
+
+    [Fact]
+    public async Task GetAnnouncementsAsync_PlayerSeesAllPostsAndPostsTargetedAtThem()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var playerGame = await CreateTestEvent(admin.Id, org.Id);
+        var otherGame = await CreateTestEvent(admin.Id, org.Id);
+        await Register(playerGame.Id, player.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("Everyone", "Body", "All"), admin.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("Admins", "Body", "Admins"), admin.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("Regulars", "Body", "AutoRoster"), admin.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("My Game", "Body", "EventRegistrants", playerGame.Id), admin.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("Other Game", "Body", "EventRegistrants", otherGame.Id), admin.Id);
+
+        // Act
+        var result = await _sut.GetAnnouncementsAsync(org.Id, player.Id);
+
+        // Assert
+        result.Select(a => a.Title).Should().BeEquivalentTo(new[] { "Everyone", "My Game" });
+        result.Single(a => a.Title == "My Game").TargetEventName.Should().Be("Friday Skate");
+    }
+
+    [Fact]
+    public async Task GetAnnouncementsAsync_AutoRosterMemberSeesAutoRosterPosts()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var regular = await CreateTestUser("regular@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        await AddToAutoRoster(org.Id, regular.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("Regulars", "Body", "AutoRoster"), admin.Id);
+
+        // Act
+        var result = await _sut.GetAnnouncementsAsync(org.Id, regular.Id);
+
+        // Assert
+        result.Should().ContainSingle(a => a.Title == "Regulars");
+    }
+
+    [Fact]
+    public async Task GetAnnouncementsAsync_AnonymousSeesOnlyAllPosts()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("Everyone", "Body", "All"), admin.Id);
+        await _sut.CreateAnnouncementAsync(org.Id, new CreateOrganizationAnnouncementRequest("Admins", "Body", "Admins"), admin.Id);
+
+        // Act
+        var result = await _sut.GetAnnouncementsAsync(org.Id, null);
+
+        // Assert
+        result.Should().ContainSingle(a => a.Title == "Everyone");
+    }
+
+    #endregion
+
+    #region CreateAnnouncementAsync Tests
+
+    [Fact]
+    public async Task CreateAnnouncementAsync_TargetAll_NotifiesOrganizationSubscribers()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+
+        // Act
+        var result = await _sut.CreateAnnouncementAsync(
+            org.Id, new CreateOrganizationAnnouncementRequest("Ice time moved", "We start at 9 tonight.", "All"), admin.Id);
+
+        // Assert
+        result.Target.Should().Be("All");
+        result.CreatedByUserId.Should().Be(admin.Id);
+        _mockNotificationService.Verify(n => n.NotifyOrganizationSubscribersAsync(
+            org.Id,
+            "Ice time moved",
+            "We start at 9 tonight.",
+            It.IsAny<object?>(),
+            "organization_announcement",
+            null), Times.Once);
+    }
+
+    [Fact]
+    public async Task CreateAnnouncementAsync_TargetEventRegistrants_PushesOnlyToThatGamesPlayers()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var player = await CreateTestUser("player@example.com", pushToken: "ExponentPushToken[player]");
+        var bystander = await CreateTestUser("bystander@example.com", pushToken: "ExponentPushToken[bystander]");
+        var org = await CreateTestOrganization(admin.Id);
+        var evt = await CreateTestEvent(admin.Id, org.Id);
+        await Register(evt.Id, player.Id);
+
+        // Act
+        await _sut.CreateAnnouncementAsync(
+            org.Id, new CreateOrganizationAnnouncementRequest("Bring dark jerseys", "Body", "EventRegistrants", evt.Id), admin.Id);
+
+        // Assert
+        _mockNotificationService.Verify(n => n.SendPushNotificationAsync(
+            "ExponentPushToken[player]",
+            "Bring dark jerseys",
+            "Body",
+            It.IsAny<object?>(),
+            player.Id,
+            "organization_announcement",
+            org.Id,
+            evt.Id), Times.Once);
+        _mockNotificationService.Verify(n => n.SendPushNotificationAsync(
+            "ExponentPushToken[bystander]",
+            It.IsAny<string>(),
+            It.IsAny<string>(),
+            It.IsAny<object?>(),
+            It.IsAny<Guid?>(),
+            It.IsAny<string?>(),
+            It.IsAny<Guid?>(),
+            It.IsAny<Guid?>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task CreateAnnouncementAsync_EventRegistrantsWithoutEvent_Throws()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.CreateAnnouncementAsync(
+                org.Id, new CreateOrganizationAnnouncementRequest("Title", "Body", "EventRegistrants"), admin.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*game*");
+    }
+
+    [Fact]
+    public async Task CreateAnnouncementAsync_PastEvent_Throws()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var evt = await CreateTestEvent(admin.Id, org.Id, DateTime.UtcNow.AddDays(-1));
+
+        // Act & Assert
+        await _sut.Invoking(s => s.CreateAnnouncementAsync(
+                org.Id, new CreateOrganizationAnnouncementRequest("Title", "Body", "EventRegistrants", evt.Id), admin.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*upcoming*");
+    }
+
+    [Fact]
+    public async Task CreateAnnouncementAsync_NonAdmin_Throws()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.CreateAnnouncementAsync(
+                org.Id, new CreateOrganizationAnnouncementRequest("Title", "Body", "All"), player.Id))
+            .Should().ThrowAsync<UnauthorizedAccessException>();
+    }
+
+    #endregion
+
+    #region Update and Delete Tests
+
+    [Fact]
+    public async Task UpdateAnnouncementAsync_EditsInPlaceWithoutNewPush()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var created = await _sut.CreateAnnouncementAsync(
+            org.Id, new CreateOrganizationAnnouncementRequest("Title", "Body", "All"), admin.Id);
+
+        // Act
+        var result = await _sut.UpdateAnnouncementAsync(
+            org.Id, created.Id, new UpdateOrganizationAnnouncementRequest(null, "Updated body"), admin.Id);
+
+        // Assert
+        result!.Title.Should().Be("Title");
+        result.Body.Should().Be("Updated body");
+        result.UpdatedAt.Should().NotBeNull();
+        _mockNotificationService.Verify(n => n.NotifyOrganizationSubscribersAsync(
+            It.IsAny<Guid>(),
+            It.IsAny<string>(),
+            It.IsAny<string>(),
+            It.IsAny<object?>(),
+            It.IsAny<string?>(),
+            It.IsAny<Guid?>()), Times.Once);  // From the create only
+    }
+
+    [Fact]
+    public async Task DeleteAnnouncementAsync_RemovesPostFromFeed()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+        var created = await _sut.CreateAnnouncementAsync(
+            org.Id, new CreateOrganizationAnnouncementRequest("Title", "Body", "All"), admin.Id);
+
+        // Act
+        var deleted = await _sut.DeleteAnnouncementAsync(org.Id, created.Id, admin.Id);
+
+        // Assert
+        deleted.Should().BeTrue();
+        (await _sut.GetAnnouncementsAsync(org.Id, admin.Id)).Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task DeleteAnnouncementAsync_NonExistentAnnouncement_ReturnsFalse()
+    {
+        // Arrange
+        var admin = await CreateTestUser("admin@example.com");
+        var org = await CreateTestOrganization(admin.Id);
+
+        // Act
+        var deleted = await _sut.DeleteAnnouncementAsync(org.Id, Guid.NewGuid(), admin.Id);
+
+        // Assert
+        deleted.Should().BeFalse();
+    }
+
+    #endregion
+}
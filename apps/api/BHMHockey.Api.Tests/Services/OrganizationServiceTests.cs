@@ -1307,4 +1307,194 @@ public class OrganizationServiceTests : IDisposable
     }
 
     #endregion
+
+    #region Late Cancel Window Tests
+
+    private static UpdateOrganizationRequest LateCancelWindowUpdateRequest(int? lateCancelWindowHours)
+    {
+        return new UpdateOrganizationRequest(
+            Name: null,
+            Description: null,
+            Location: null,
+            SkillLevels: null,
+            DefaultDayOfWeek: null,
+            DefaultStartTime: null,
+            DefaultDurationMinutes: null,
+            DefaultMaxPlayers: null,
+            DefaultCost: null,
+            DefaultVenue: null,
+            DefaultVisibility: null,
+            LateCancelWindowHours: lateCancelWindowHours
+        );
+    }
+
+    [Fact]
+    public async Task UpdateAsync_SetsLateCancelWindowHours_ReturnsItInDto()
+    {
+        // Arrange
+        var creator = await CreateTestUser();
+        var org = await CreateTestOrganization(creator.Id);
+
+        // Act
+        var result = await _sut.UpdateAsync(org.Id, LateCancelWindowUpdateRequest(48), creator.Id);
+
+        // Assert
+        result!.LateCancelWindowHours.Should().Be(48);
+        var updated = await _context.Organizations.FindAsync(org.Id);
+        updated!.LateCancelWindowHours.Should().Be(48);
+    }
+
+    [Fact]
+    public async Task UpdateAsync_LateCancelWindowOverMax_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser();
+        var org = await CreateTestOrganization(creator.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.UpdateAsync(org.Id, LateCancelWindowUpdateRequest(169), creator.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*LateCancelWindowHours*");
+    }
+
+    [Fact]
+    public async Task GetMembersAsync_ReliabilityOnlyForAdmins()
+    {
+        // Arrange
+        var creator = await CreateTestUser();
+        var member = await CreateTestUser("member@example.com");
+        var org = await CreateTestOrganization(creator.Id);
+        await CreateSubscription(org.Id, creator.Id);
+        await CreateSubscription(org.Id, member.Id);
+
+        // Act
+        var adminView = await _sut.GetMembersAsync(org.Id, creator.Id);
+        var memberView = await _sut.GetMembersAsync(org.Id, member.Id);
+
+        // Assert
+        adminView.Should().OnlyContain(m => m.Reliability != null);
+        memberView.Should().OnlyContain(m => m.Reliability == null);
+    }
+
+    #endregion
+
+    #region Availability Tests
+
+    [Fact]
+    public async Task GetMembersAsync_AvailabilityOnlyForAdmins()
+    {
+        // Arrange
+        var creator = await CreateTestUser();
+        var member = await CreateTestUser("member@example.com");
+        var org = await CreateTestOrganization(creator.Id);
+        await CreateSubscription(org.Id, creator.Id);
+        await CreateSubscription(org.Id, member.Id);
+        _context.UserAvailabilitySlots.Add(new UserAvailabilitySlot
+        {
+            UserId = member.Id,
+            Kind = "Weekly",
+            DayOfWeek = 2,
+            StartTime = "17:00",
+            EndTime = "21:00"
+        });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var adminView = await _sut.GetMembersAsync(org.Id, creator.Id);
+        var memberView = await _sut.GetMembersAsync(org.Id, member.Id);
+
+        // Assert
+        adminView.Single(m => m.Id == member.Id).Availability.Should().ContainSingle()
+            .Which.DayOfWeek.Should().Be(2);
+        adminView.Single(m => m.Id == creator.Id).Availability.Should().BeEmpty();
+        memberView.Should().OnlyContain(m => m.Availability == null);
+    }
+
+    #endregion
+
+    #region Waitlist Offer Settings Tests
+
+    private static UpdateOrganizationRequest WaitlistOfferUpdateRequest(string? mode, int? windowMinutes)
+    {
+        return new UpdateOrganizationRequest(
+            Name: null,
+            Description: null,
+            Location: null,
+            SkillLevels: null,
+            DefaultDayOfWeek: null,
+            DefaultStartTime: null,
+            DefaultDurationMinutes: null,
+            DefaultMaxPlayers: null,
+            DefaultCost: null,
+            DefaultVenue: null,
+            DefaultVisibility: null,
+            WaitlistPromotionMode: mode,
+            WaitlistOfferWindowMinutes: windowMinutes
+        );
+    }
+
+    [Fact]
+    public async Task UpdateAsync_SetsWaitlistOfferMode_ReturnsItInDto()
+    {
+        // Arrange
+        var creator = await CreateTestUser();
+        var org = await CreateTestOrganization(creator.Id);
+
+        // Act
+        var result = await _sut.UpdateAsync(org.Id, WaitlistOfferUpdateRequest("Offer", 45), creator.Id);
+
+        // Assert
+        result!.WaitlistPromotionMode.Should().Be("Offer");
+        result.WaitlistOfferWindowMinutes.Should().Be(45);
+    }
+
+    [Fact]
+    public async Task UpdateAsync_ModeWithNullWindow_ResetsWindowToDefault()
+    {
+        // Arrange
+        var creator = await CreateTestUser();
+        var org = await CreateTestOrganization(creator.Id);
+        await _sut.UpdateAsync(org.Id, WaitlistOfferUpdateRequest("Offer", 45), creator.Id);
+
+        // Act
+        var result = await _sut.UpdateAsync(org.Id, WaitlistOfferUpdateRequest("Offer", null), creator.Id);
+
+        // Assert
+        result!.WaitlistOfferWindowMinutes.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task UpdateAsync_NullMode_LeavesOfferSettingsUnchanged()
+    {
+        // Arrange
+        var creator = await CreateTestUser();
+        var org = await CreateTestOrganization(creator.Id);
+        await _sut.UpdateAsync(org.Id, WaitlistOfferUpdateRequest("Offer", 45), creator.Id);
+
+        // Act
+        var result = await _sut.UpdateAsync(org.Id, WaitlistOfferUpdateRequest(null, null), creator.Id);
+
+        // Assert
+        result!.WaitlistPromotionMode.Should().Be("Offer");
+        result.WaitlistOfferWindowMinutes.Should().Be(45);
+    }
+
+    [Theory]
+    [InlineData("Lottery", null, "*WaitlistPromotionMode*")]
+    [InlineData("Offer", 10, "*WaitlistOfferWindowMinutes*")]
+    [InlineData("Offer", 1441, "*WaitlistOfferWindowMinutes*")]
+    public async Task UpdateAsync_InvalidWaitlistOfferSettings_ThrowsInvalidOperationException(
+        string mode, int? windowMinutes, string expectedMessage)
+    {
+        // Arrange
+        var creator = await CreateTestUser();
+        var org = await CreateTestOrganization(creator.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.UpdateAsync(org.Id, WaitlistOfferUpdateRequest(mode, windowMinutes), creator.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage(expectedMessage);
+    }
+
+    #endregion
 }
@@ -0,0 +1,630 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using BHMHockey.Api.Services;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Diagnostics;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BHMHockey.Api.Tests.Services;
+
+/// <summary>
+/// Tests for RegistrationTransferService - offering, accepting, declining and cancelling spot transfers.
+/// </summary>
+public class RegistrationTransferServiceTests : IDisposable
+{
+    private readonly AppDbContext _context;
+    private readonly Mock<INotificationService> _mockNotificationService;
+    private readonly Mock<IWaitlistService> _mockWaitlistService;
+    private readonly RegistrationTransferService _sut;
+
+    public RegistrationTransferServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<AppDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .ConfigureWarnings(w => w.Ignore(InMemoryEventId.TransactionIgnoredWarning))
+            .Options;
+        _context = new AppDbContext(options);
+        _mockNotificationService = new Mock<INotificationService>();
+        _mockWaitlistService = new Mock<IWaitlistService>();
+        _sut = new RegistrationTransferService(
+            _context,
+            _mockNotificationService.Object,
+            _mockWaitlistService.Object,
+            Mock.Of<ILogger<RegistrationTransferService>>());
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Helper Methods
+
+    private async Task<User> CreateTestUser(string email, Dictionary<string, string>? positions = null, string? pushToken = null)
+    {
+        var user = new User
+        {
+            Id = Guid.NewGuid(),
+            Email = email,
+            PasswordHash = "hashed_password",
+            FirstName = "Test",
+            LastName = email.Split('@')[0],
+            Positions = positions ?? new Dictionary<string, string> { { "skater", "Silver" } },
+            PushToken = pushToken,
+            Role = "Player",
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Users.Add(user);
+        await _context.SaveChangesAsync();
+        return user;
+    }
+
+    private async Task<Event> CreateTestEvent(
+        Guid creatorId,
+        DateTime? eventDate = null,
+        decimal cost = 20m)
+    {
+        var evt = new Event
+        {
+            Id = Guid.NewGuid(),
+            CreatorId = creatorId,
+            Name = "Tuesday Pickup",
+            EventDate = eventDate ?? DateTime.UtcNow.AddDays(3),
+            Duration = 60,
+            MaxPlayers = 10,
+            Cost = cost,
+            Status = "Published",
+            Visibility = "Public",
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Events.Add(evt);
+        await _context.SaveChangesAsync();
+        return evt;
+    }
+
+    private async Task<EventRegistration> CreateRegistration(
+        Guid eventId,
+        Guid userId,
+        string status = "Registered",
+        string? paymentStatus = null)
+    {
+        var registration = new EventRegistration
+        {
+            Id = Guid.NewGuid(),
+            EventId = eventId,
+            UserId = userId,
+            Status = status,
+            RegisteredPosition = "Skater",
+            TeamAssignment = status == "Registered" ? "Black" : null,
+            RosterOrder = status == "Registered" ? 3 : null,
+            WaitlistPosition = status == "Waitlisted" ? 1 : null,
+            PaymentStatus = paymentStatus,
+            RegisteredAt = DateTime.UtcNow
+        };
+
+        _context.EventRegistrations.Add(registration);
+        await _context.SaveChangesAsync();
+        return registration;
+    }
+
+    private async Task<TournamentTeam> CreateTestTeam(Guid creatorId, string status = "Open")
+    {
+        var tournament = new Tournament
+        {
+            Id = Guid.NewGuid(),
+            CreatorId = creatorId,
+            Name = "Spring Classic",
+            Format = "SingleElimination",
+            TeamFormation = "PreFormed",
+            Status = status,
+            StartDate = DateTime.UtcNow.AddDays(30),
+            EndDate = DateTime.UtcNow.AddDays(31),
+            RegistrationDeadline = DateTime.UtcNow.AddDays(25),
+            MaxTeams = 4,
+            EntryFee = 50,
+            FeeType = "PerPlayer",
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+        var team = new TournamentTeam
+        {
+            Id = Guid.NewGuid(),
+            TournamentId = tournament.Id,
+            Name = "Team Alpha",
+            Status = "Registered",
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Tournaments.Add(tournament);
+        _context.TournamentTeams.Add(team);
+        await _context.SaveChangesAsync();
+        return team;
+    }
+
+    private async Task<TournamentTeamMember> CreateTeamMember(Guid teamId, Guid userId, string role = "Player")
+    {
+        var member = new TournamentTeamMember
+        {
+            Id = Guid.NewGuid(),
+            TeamId = teamId,
+            UserId = userId,
+            Role = role,
+            Status = "Accepted",
+            Position = "Skater",
+            JoinedAt = DateTime.UtcNow
+        };
+
+        _context.TournamentTeamMembers.Add(member);
+        await _context.SaveChangesAsync();
+        return member;
+    }
+
+    private async Task<TournamentRegistration> CreateTournamentRegistration(
+        Guid tournamentId,
+        Guid userId,
+        string status = "Assigned",
+        Guid? assignedTeamId = null,
+        string? paymentStatus = "Pending")
+    {
+        var registration = new TournamentRegistration
+        {
+            TournamentId = tournamentId,
+            UserId = userId,
+            Status = status,
+            Position = "Skater",
+            AssignedTeamId = assignedTeamId,
+            PaymentStatus = paymentStatus
+        };
+
+        _context.TournamentRegistrations.Add(registration);
+        await _context.SaveChangesAsync();
+        return registration;
+    }
+
+    #endregion
+
+    #region CreateAsync Tests
+
+    [Fact]
+    public async Task CreateAsync_ToPlayer_CreatesPendingTransferAndNotifiesRecipient()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var to = await CreateTestUser("to@example.com", pushToken: "ExponentPushToken[to]");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, from.Id, paymentStatus: "Verified");
+
+        // Act
+        var result = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, to.Id), from.Id);
+
+        // Assert
+        result.Status.Should().Be("Pending");
+        result.ToUserId.Should().Be(to.Id);
+        result.Position.Should().Be("Skater");
+        result.TeamName.Should().Be("Black");
+        result.Cost.Should().Be(20m);
+        result.FromPaymentStatus.Should().Be("Verified");
+        _mockNotificationService.Verify(
+            n => n.SendPushNotificationAsync(
+                "ExponentPushToken[to]",
+                "Spot Offered",
+                It.IsAny<string>(),
+                It.IsAny<object>(),
+                to.Id,
+                "registration_transfer",
+                It.IsAny<Guid?>(),
+                evt.Id),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task CreateAsync_ToWaitlist_NotifiesWaitlistedPlayers()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var waitlisted = await CreateTestUser("waitlisted@example.com", pushToken: "ExponentPushToken[waitlisted]");
+        var rostered = await CreateTestUser("rostered@example.com", pushToken: "ExponentPushToken[rostered]");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, from.Id);
+        await CreateRegistration(evt.Id, waitlisted.Id, "Waitlisted");
+        await CreateRegistration(evt.Id, rostered.Id);
+
+        // Act
+        var result = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, null), from.Id);
+
+        // Assert
+        result.ToUserId.Should().BeNull();
+        _mockNotificationService.Verify(
+            n => n.SendPushNotificationAsync(
+                "ExponentPushToken[waitlisted]",
+                "Spot Available",
+                It.IsAny<string>(),
+                It.IsAny<object>(),
+                waitlisted.Id,
+                "registration_transfer",
+                It.IsAny<Guid?>(),
+                evt.Id),
+            Times.Once);
+        _mockNotificationService.Verify(
+            n => n.SendPushNotificationAsync(
+                "ExponentPushToken[rostered]",
+                It.IsAny<string>(),
+                It.IsAny<string>(),
+                It.IsAny<object>(),
+                It.IsAny<Guid?>(),
+                It.IsAny<string?>(),
+                It.IsAny<Guid?>(),
+                It.IsAny<Guid?>()),
+            Times.Never);
+    }
+
+    [Fact]
+    public async Task CreateAsync_WhenWaitlisted_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, from.Id, "Waitlisted");
+
+        // Act & Assert
+        await _sut.Invoking(s => s.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, null), from.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*roster*");
+    }
+
+    [Fact]
+    public async Task CreateAsync_WithPendingTransferForSameSpot_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, from.Id);
+        await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, null), from.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, null), from.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*already have a pending transfer*");
+    }
+
+    [Fact]
+    public async Task CreateAsync_ToRosteredPlayer_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var rostered = await CreateTestUser("rostered@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, from.Id);
+        await CreateRegistration(evt.Id, rostered.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, rostered.Id), from.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*already registered*");
+    }
+
+    #endregion
+
+    #region GetForUserAsync Tests
+
+    [Fact]
+    public async Task GetForUserAsync_ShowsWaitlistOffersOnlyToWaitlistedPlayers()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var waitlisted = await CreateTestUser("waitlisted@example.com");
+        var outsider = await CreateTestUser("outsider@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, from.Id);
+        await CreateRegistration(evt.Id, waitlisted.Id, "Waitlisted", paymentStatus: "MarkedPaid");
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, null), from.Id);
+
+        // Act
+        var waitlistedView = await _sut.GetForUserAsync(waitlisted.Id);
+        var outsiderView = await _sut.GetForUserAsync(outsider.Id);
+        var senderView = await _sut.GetForUserAsync(from.Id);
+
+        // Assert
+        waitlistedView.Should().ContainSingle(t => t.Id == transfer.Id)
+            .Which.ToPaymentStatus.Should().Be("MarkedPaid");
+        outsiderView.Should().BeEmpty();
+        senderView.Should().ContainSingle(t => t.Id == transfer.Id);
+    }
+
+    [Fact]
+    public async Task GetForUserAsync_WhenSenderCancelledRegistration_HidesPendingTransfer()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var to = await CreateTestUser("to@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, from.Id);
+        await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, to.Id), from.Id);
+        registration.Status = "Cancelled";
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _sut.GetForUserAsync(to.Id);
+
+        // Assert
+        result.Should().BeEmpty();
+    }
+
+    #endregion
+
+    #region AcceptAsync Tests
+
+    [Fact]
+    public async Task AcceptAsync_MovesRegistrationWithRosterSlotAndNotifies()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com", pushToken: "ExponentPushToken[creator]");
+        var from = await CreateTestUser("from@example.com", pushToken: "ExponentPushToken[from]");
+        var to = await CreateTestUser("to@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, from.Id, paymentStatus: "Verified");
+        var oldToken = registration.CheckInToken;
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, to.Id), from.Id);
+
+        // Act
+        var result = await _sut.AcceptAsync(transfer.Id, to.Id);
+
+        // Assert
+        result!.Status.Should().Be("Accepted");
+        result.RespondedAt.Should().NotBeNull();
+        registration.UserId.Should().Be(to.Id);
+        registration.Status.Should().Be("Registered");
+        registration.TeamAssignment.Should().Be("Black");
+        registration.RosterOrder.Should().Be(3);
+        registration.PaymentStatus.Should().Be("Verified");  // Recipient pays the sender back
+        registration.CheckInToken.Should().NotBe(oldToken);
+        _mockNotificationService.Verify(
+            n => n.SendPushNotificationAsync(
+                "ExponentPushToken[from]",
+                "Spot Transferred",
+                It.IsAny<string>(),
+                It.IsAny<object>(),
+                from.Id,
+                "registration_transferred",
+                It.IsAny<Guid?>(),
+                evt.Id),
+            Times.Once);
+        _mockNotificationService.Verify(
+            n => n.SendPushNotificationAsync(
+                "ExponentPushToken[creator]",
+                "Roster Change",
+                It.IsAny<string>(),
+                It.IsAny<object>(),
+                creator.Id,
+                "registration_transferred",
+                It.IsAny<Guid?>(),
+                evt.Id),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task AcceptAsync_UnpaidSpot_LeavesRecipientOwingOrganizer()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var to = await CreateTestUser("to@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, from.Id, paymentStatus: "Pending");
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, to.Id), from.Id);
+
+        // Act
+        await _sut.AcceptAsync(transfer.Id, to.Id);
+
+        // Assert
+        registration.UserId.Should().Be(to.Id);
+        registration.PaymentStatus.Should().Be("Pending");
+    }
+
+    [Fact]
+    public async Task AcceptAsync_WaitlistOfferByPaidWaitlistedPlayer_KeepsTheirPaymentAndRenumbersWaitlist()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var waitlisted = await CreateTestUser("waitlisted@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, from.Id, paymentStatus: "Pending");
+        var waitlistRegistration = await CreateRegistration(evt.Id, waitlisted.Id, "Waitlisted", paymentStatus: "Verified");
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, null), from.Id);
+
+        // Act
+        var result = await _sut.AcceptAsync(transfer.Id, waitlisted.Id);
+
+        // Assert
+        result!.ToUserId.Should().Be(waitlisted.Id);
+        registration.UserId.Should().Be(waitlisted.Id);
+        registration.PaymentStatus.Should().Be("Verified");
+        (await _context.EventRegistrations.AnyAsync(r => r.Id == waitlistRegistration.Id)).Should().BeFalse();
+        _mockWaitlistService.Verify(w => w.UpdateWaitlistPositionsAsync(evt.Id), Times.Once);
+    }
+
+    [Fact]
+    public async Task AcceptAsync_WaitlistOfferByNonWaitlistedPlayer_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var outsider = await CreateTestUser("outsider@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, from.Id);
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, null), from.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.AcceptAsync(transfer.Id, outsider.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*waitlist*");
+    }
+
+    [Fact]
+    public async Task AcceptAsync_OfferedToSomeoneElse_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var to = await CreateTestUser("to@example.com");
+        var other = await CreateTestUser("other@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, from.Id);
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, to.Id), from.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.AcceptAsync(transfer.Id, other.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*someone else*");
+    }
+
+    [Fact]
+    public async Task AcceptAsync_WhenSenderNoLongerHoldsSpot_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var to = await CreateTestUser("to@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, from.Id);
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, to.Id), from.Id);
+        registration.Status = "Cancelled";
+        await _context.SaveChangesAsync();
+
+        // Act & Assert
+        await _sut.Invoking(s => s.AcceptAsync(transfer.Id, to.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*no longer available*");
+    }
+
+    [Fact]
+    public async Task AcceptAsync_ForTournamentSpot_MovesRegistrationAndTeamMembership()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var to = await CreateTestUser("to@example.com");
+        var team = await CreateTestTeam(creator.Id);
+        var fromMember = await CreateTeamMember(team.Id, from.Id);
+        var registration = await CreateTournamentRegistration(team.TournamentId, from.Id, assignedTeamId: team.Id, paymentStatus: "Verified");
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(null, team.TournamentId, to.Id), from.Id);
+
+        // Act
+        var result = await _sut.AcceptAsync(transfer.Id, to.Id);
+
+        // Assert
+        result!.TeamName.Should().Be("Team Alpha");
+        registration.UserId.Should().Be(to.Id);
+        registration.AssignedTeamId.Should().Be(team.Id);
+        registration.PaymentStatus.Should().Be("Verified");
+        fromMember.LeftAt.Should().NotBeNull();
+        var toMember = await _context.TournamentTeamMembers.SingleAsync(m => m.UserId == to.Id);
+        toMember.TeamId.Should().Be(team.Id);
+        toMember.Status.Should().Be("Accepted");
+        toMember.Position.Should().Be("Skater");
+    }
+
+    #endregion
+
+    #region Decline / Cancel Tests
+
+    [Fact]
+    public async Task DeclineAsync_ByRecipient_DeclinesAndSenderKeepsSpot()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var to = await CreateTestUser("to@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, from.Id);
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, to.Id), from.Id);
+
+        // Act
+        var result = await _sut.DeclineAsync(transfer.Id, to.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        (await _context.RegistrationTransfers.FindAsync(transfer.Id))!.Status.Should().Be("Declined");
+        registration.UserId.Should().Be(from.Id);
+    }
+
+    [Fact]
+    public async Task DeclineAsync_WaitlistOffer_ReturnsFalse()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var waitlisted = await CreateTestUser("waitlisted@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, from.Id);
+        await CreateRegistration(evt.Id, waitlisted.Id, "Waitlisted");
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, null), from.Id);
+
+        // Act
+        var result = await _sut.DeclineAsync(transfer.Id, waitlisted.Id);
+
+        // Assert
+        result.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task CancelAsync_BySender_CancelsAndKeepsSpot()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var to = await CreateTestUser("to@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, from.Id);
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, to.Id), from.Id);
+
+        // Act
+        var result = await _sut.CancelAsync(transfer.Id, from.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        (await _context.RegistrationTransfers.FindAsync(transfer.Id))!.Status.Should().Be("Cancelled");
+        registration.UserId.Should().Be(from.Id);
+        await _sut.Invoking(s => s.AcceptAsync(transfer.Id, to.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*no longer available*");
+    }
+
+    [Fact]
+    public async Task CancelAsync_BySomeoneElse_ReturnsFalse()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var from = await CreateTestUser("from@example.com");
+        var to = await CreateTestUser("to@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, from.Id);
+        var transfer = await _sut.CreateAsync(new CreateRegistrationTransferRequest(evt.Id, null, to.Id), from.Id);
+
+        // Act
+        var result = await _sut.CancelAsync(transfer.Id, to.Id);
+
+        // Assert
+        result.Should().BeFalse();
+    }
+
+    #endregion
+}
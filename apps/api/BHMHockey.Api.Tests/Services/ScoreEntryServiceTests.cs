@@ -13,7 +13,8 @@ namespace BHMHockey.Api.Tests.Services;
 /// <summary>
 /// Tests for TournamentMatchService.EnterScoreAsync - TDD approach for TRN-005.
 /// Tests written FIRST before implementation.
-/// Tests score entry, bracket advancement, team statistics, and team status updates.
+/// Tests score entry, bracket advancement, team statistics, team status updates, the live clock
+/// and schedule publishing.
 /// </summary>
 public class ScoreEntryServiceTests : IDisposable
 {
@@ -1320,4 +1321,265 @@ public class ScoreEntryServiceTests : IDisposable
     }
 
     #endregion
+
+    #region UpdateClockAsync Tests
+
+    [Fact]
+    public async Task UpdateClockAsync_StartOnScheduledMatch_MovesMatchInProgress()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id);
+        await AddTournamentAdmin(tournament.Id, user.Id);
+        var teamA = await CreateTestTeam(tournament.Id, "Team A");
+        var teamB = await CreateTestTeam(tournament.Id, "Team B");
+        var match = await CreateTestMatch(tournament.Id, teamA.Id, teamB.Id);
+
+        var request = new UpdateMatchClockRequest { Period = 1, PeriodLengthMinutes = 15, ElapsedSeconds = 0, IsRunning = true };
+
+        // Act
+        var result = await _sut.UpdateClockAsync(tournament.Id, match.Id, request, user.Id);
+
+        // Assert
+        result.Status.Should().Be("InProgress");
+        result.LiveClock.Should().NotBeNull();
+        result.LiveClock!.IsRunning.Should().BeTrue();
+        result.LiveClock.PeriodLengthMinutes.Should().Be(15);
+        result.LiveClock.StartedAt.Should().BeCloseTo(DateTime.UtcNow, TimeSpan.FromSeconds(5));
+    }
+
+    [Fact]
+    public async Task UpdateClockAsync_Stop_ClearsStartedAt()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id);
+        await AddTournamentAdmin(tournament.Id, user.Id);
+        var teamA = await CreateTestTeam(tournament.Id, "Team A");
+        var teamB = await CreateTestTeam(tournament.Id, "Team B");
+        var match = await CreateTestMatch(tournament.Id, teamA.Id, teamB.Id, status: "InProgress");
+
+        var request = new UpdateMatchClockRequest { Period = 2, PeriodLengthMinutes = 15, ElapsedSeconds = 452, IsRunning = false };
+
+        // Act
+        var result = await _sut.UpdateClockAsync(tournament.Id, match.Id, request, user.Id);
+
+        // Assert
+        result.LiveClock!.IsRunning.Should().BeFalse();
+        result.LiveClock.StartedAt.Should().BeNull();
+        result.LiveClock.Period.Should().Be(2);
+        result.LiveClock.ElapsedSeconds.Should().Be(452);
+    }
+
+    [Theory]
+    [InlineData(0, 15, 0)]
+    [InlineData(7, 15, 0)]
+    [InlineData(1, 4, 0)]
+    [InlineData(1, 15, 901)]
+    [InlineData(1, 15, -1)]
+    public async Task UpdateClockAsync_InvalidClock_ThrowsInvalidOperationException(int period, int periodLengthMinutes, int elapsedSeconds)
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id);
+        await AddTournamentAdmin(tournament.Id, user.Id);
+        var teamA = await CreateTestTeam(tournament.Id, "Team A");
+        var teamB = await CreateTestTeam(tournament.Id, "Team B");
+        var match = await CreateTestMatch(tournament.Id, teamA.Id, teamB.Id);
+
+        var request = new UpdateMatchClockRequest
+        {
+            Period = period,
+            PeriodLengthMinutes = periodLengthMinutes,
+            ElapsedSeconds = elapsedSeconds,
+            IsRunning = false
+        };
+
+        // Act
+        var act = () => _sut.UpdateClockAsync(tournament.Id, match.Id, request, user.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>();
+    }
+
+    [Fact]
+    public async Task UpdateClockAsync_CompletedMatch_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id);
+        await AddTournamentAdmin(tournament.Id, user.Id);
+        var teamA = await CreateTestTeam(tournament.Id, "Team A");
+        var teamB = await CreateTestTeam(tournament.Id, "Team B");
+        var match = await CreateTestMatch(tournament.Id, teamA.Id, teamB.Id, status: "Completed");
+
+        var request = new UpdateMatchClockRequest { Period = 1, PeriodLengthMinutes = 15, ElapsedSeconds = 0, IsRunning = true };
+
+        // Act
+        var act = () => _sut.UpdateClockAsync(tournament.Id, match.Id, request, user.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*Completed*");
+    }
+
+    [Fact]
+    public async Task UpdateClockAsync_NonAdmin_ThrowsUnauthorizedAccessException()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id);
+        var teamA = await CreateTestTeam(tournament.Id, "Team A");
+        var teamB = await CreateTestTeam(tournament.Id, "Team B");
+        var match = await CreateTestMatch(tournament.Id, teamA.Id, teamB.Id);
+
+        var request = new UpdateMatchClockRequest { Period = 1, PeriodLengthMinutes = 15, ElapsedSeconds = 0, IsRunning = true };
+
+        // Act
+        var act = () => _sut.UpdateClockAsync(tournament.Id, match.Id, request, user.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<UnauthorizedAccessException>();
+    }
+
+    [Fact]
+    public async Task EnterScoreAsync_RunningClock_StopsClock()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id, format: "RoundRobin");
+        await AddTournamentAdmin(tournament.Id, user.Id);
+        var teamA = await CreateTestTeam(tournament.Id, "Team A");
+        var teamB = await CreateTestTeam(tournament.Id, "Team B");
+        var match = await CreateTestMatch(tournament.Id, teamA.Id, teamB.Id, status: "InProgress");
+        match.ClockPeriod = 3;
+        match.ClockPeriodLengthMinutes = 15;
+        match.ClockElapsedSeconds = 600;
+        match.ClockIsRunning = true;
+        match.ClockStartedAt = DateTime.UtcNow.AddMinutes(-10);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _sut.EnterScoreAsync(tournament.Id, match.Id, new EnterScoreRequest { HomeScore = 2, AwayScore = 1 }, user.Id);
+
+        // Assert
+        result.LiveClock!.IsRunning.Should().BeFalse();
+        result.LiveClock.ElapsedSeconds.Should().Be(900, "the clock stops at the end of the period");
+    }
+
+    #endregion
+
+    #region PublishScheduleAsync Tests
+
+    [Fact]
+    public async Task PublishScheduleAsync_SetsVenueTimeAndSwapsHomeAway()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id, status: "RegistrationClosed", format: "RoundRobin");
+        await AddTournamentAdmin(tournament.Id, user.Id);
+        var teamA = await CreateTestTeam(tournament.Id, "Team A");
+        var teamB = await CreateTestTeam(tournament.Id, "Team B");
+        var match = await CreateTestMatch(tournament.Id, teamA.Id, teamB.Id);
+        var startsAt = new DateTime(2026, 3, 7, 9, 0, 0, DateTimeKind.Utc);
+
+        var request = new PublishScheduleRequest
+        {
+            Slots =
+            {
+                new ScheduledMatchSlot
+                {
+                    MatchId = match.Id,
+                    Venue = "Rink B",
+                    ScheduledTime = startsAt,
+                    HomeTeamId = teamB.Id,
+                    AwayTeamId = teamA.Id
+                }
+            }
+        };
+
+        // Act
+        var result = await _sut.PublishScheduleAsync(tournament.Id, request, user.Id);
+
+        // Assert
+        var published = result.Single(m => m.Id == match.Id);
+        published.Venue.Should().Be("Rink B");
+        published.ScheduledTime.Should().Be(startsAt);
+        published.HomeTeamId.Should().Be(teamB.Id);
+        published.AwayTeamId.Should().Be(teamA.Id);
+    }
+
+    [Fact]
+    public async Task PublishScheduleAsync_TeamsNotInMatch_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id, format: "RoundRobin");
+        await AddTournamentAdmin(tournament.Id, user.Id);
+        var teamA = await CreateTestTeam(tournament.Id, "Team A");
+        var teamB = await CreateTestTeam(tournament.Id, "Team B");
+        var teamC = await CreateTestTeam(tournament.Id, "Team C");
+        var match = await CreateTestMatch(tournament.Id, teamA.Id, teamB.Id);
+
+        var request = new PublishScheduleRequest
+        {
+            Slots =
+            {
+                new ScheduledMatchSlot
+                {
+                    MatchId = match.Id,
+                    Venue = "Rink A",
+                    ScheduledTime = DateTime.UtcNow.AddDays(1),
+                    HomeTeamId = teamC.Id,
+                    AwayTeamId = teamA.Id
+                }
+            }
+        };
+
+        // Act
+        var act = () => _sut.PublishScheduleAsync(tournament.Id, request, user.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*two teams*");
+    }
+
+    [Fact]
+    public async Task PublishScheduleAsync_MatchAlreadyPlayed_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id, format: "RoundRobin");
+        await AddTournamentAdmin(tournament.Id, user.Id);
+        var teamA = await CreateTestTeam(tournament.Id, "Team A");
+        var teamB = await CreateTestTeam(tournament.Id, "Team B");
+        var match = await CreateTestMatch(tournament.Id, teamA.Id, teamB.Id, status: "Completed");
+
+        var request = new PublishScheduleRequest
+        {
+            Slots = { new ScheduledMatchSlot { MatchId = match.Id, Venue = "Rink A", ScheduledTime = DateTime.UtcNow } }
+        };
+
+        // Act
+        var act = () => _sut.PublishScheduleAsync(tournament.Id, request, user.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>();
+    }
+
+    [Fact]
+    public async Task PublishScheduleAsync_NonAdmin_ThrowsUnauthorizedAccessException()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id);
+
+        // Act
+        var act = () => _sut.PublishScheduleAsync(tournament.Id, new PublishScheduleRequest(), user.Id);
+
+        // Assert
+        await act.Should().ThrowAsync<UnauthorizedAccessException>();
+    }
+
+    #endregion
 }
@@ -100,7 +100,8 @@ public class StandingsServiceTests : IDisposable
         int ties = 0,
         int points = 0,
         int goalsFor = 0,
-        int goalsAgainst = 0)
+        int goalsAgainst = 0,
+        int penaltyMinutes = 0)
     {
         var team = new TournamentTeam
         {
@@ -114,6 +115,7 @@ public class StandingsServiceTests : IDisposable
             Points = points,
             GoalsFor = goalsFor,
             GoalsAgainst = goalsAgainst,
+            PenaltyMinutes = penaltyMinutes,
             CreatedAt = DateTime.UtcNow,
             UpdatedAt = DateTime.UtcNow
         };
@@ -339,6 +341,83 @@ public class StandingsServiceTests : IDisposable
         result.Standings[0].TeamName.Should().Be("Team A"); // Better GD wins despite H2H loss
     }
 
+    [Fact]
+    public async Task GetStandingsAsync_EarlierCriterionTakesPrecedenceOverLaterOnes()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tiebreakerOrder = JsonSerializer.Serialize(new[] { "GoalDifferential", "GoalsScored" });
+        var tournament = await CreateTestTournament(user.Id, tiebreakerOrder: tiebreakerOrder);
+
+        await CreateTestTeam(tournament.Id, "Team A", points: 6, goalsFor: 6, goalsAgainst: 2);  // GD = +4, GF = 6
+        await CreateTestTeam(tournament.Id, "Team B", points: 6, goalsFor: 12, goalsAgainst: 10); // GD = +2, GF = 12
+
+        // Act
+        var result = await _sut.GetStandingsAsync(tournament.Id);
+
+        // Assert
+        result!.Standings.Select(s => s.TeamName).Should().Equal("Team A", "Team B");
+    }
+
+    [Fact]
+    public async Task GetStandingsAsync_GoalsAgainst_FewestGoalsAllowedRanksFirst()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tiebreakerOrder = JsonSerializer.Serialize(new[] { "GoalsAgainst" });
+        var tournament = await CreateTestTournament(user.Id, tiebreakerOrder: tiebreakerOrder);
+
+        await CreateTestTeam(tournament.Id, "Team A", points: 6, goalsFor: 10, goalsAgainst: 8);
+        await CreateTestTeam(tournament.Id, "Team B", points: 6, goalsFor: 4, goalsAgainst: 3);
+
+        // Act
+        var result = await _sut.GetStandingsAsync(tournament.Id);
+
+        // Assert
+        result!.Standings.Select(s => s.TeamName).Should().Equal("Team B", "Team A");
+    }
+
+    [Fact]
+    public async Task GetStandingsAsync_FewestPenaltyMinutes_RanksCleanerTeamFirstAndReturnsTotals()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tiebreakerOrder = JsonSerializer.Serialize(new[] { "FewestPenaltyMinutes" });
+        var tournament = await CreateTestTournament(user.Id, tiebreakerOrder: tiebreakerOrder);
+
+        await CreateTestTeam(tournament.Id, "Team A", points: 6, penaltyMinutes: 12);
+        await CreateTestTeam(tournament.Id, "Team B", points: 6, penaltyMinutes: 4);
+
+        // Act
+        var result = await _sut.GetStandingsAsync(tournament.Id);
+
+        // Assert
+        result!.Standings.Select(s => s.TeamName).Should().Equal("Team B", "Team A");
+        result.Standings[0].PenaltyMinutes.Should().Be(4);
+        result.Standings[1].PenaltyMinutes.Should().Be(12);
+    }
+
+    [Fact]
+    public async Task GetStandingsAsync_CoinFlip_ResolvesTieTheSameWayEveryTime()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tiebreakerOrder = JsonSerializer.Serialize(new[] { "GoalDifferential", "CoinFlip" });
+        var tournament = await CreateTestTournament(user.Id, tiebreakerOrder: tiebreakerOrder);
+
+        await CreateTestTeam(tournament.Id, "Team A", points: 6);
+        await CreateTestTeam(tournament.Id, "Team B", points: 6);
+        await CreateTestTeam(tournament.Id, "Team C", points: 6);
+
+        // Act
+        var first = await _sut.GetStandingsAsync(tournament.Id);
+        var second = await _sut.GetStandingsAsync(tournament.Id);
+
+        // Assert
+        first!.Standings.Select(s => s.TeamId).Should().Equal(second!.Standings.Select(s => s.TeamId));
+        first.TiedGroups.Should().BeNull();
+    }
+
     #endregion
 
     #region 3+ Way Tie Tests
@@ -0,0 +1,511 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using BHMHockey.Api.Services;
+using FluentAssertions;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.EntityFrameworkCore.Diagnostics;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BHMHockey.Api.Tests.Services;
+
+/// <summary>
+/// Tests for SubRequestService - posting, matching, accepting and cancelling sub requests.
+/// </summary>
+public class SubRequestServiceTests : IDisposable
+{
+    private readonly AppDbContext _context;
+    private readonly Mock<INotificationService> _mockNotificationService;
+    private readonly SubRequestService _sut;
+
+    public SubRequestServiceTests()
+    {
+        var options = new DbContextOptionsBuilder<AppDbContext>()
+            .UseInMemoryDatabase(Guid.NewGuid().ToString())
+            .ConfigureWarnings(w => w.Ignore(InMemoryEventId.TransactionIgnoredWarning))
+            .Options;
+        _context = new AppDbContext(options);
+        _mockNotificationService = new Mock<INotificationService>();
+        _sut = new SubRequestService(_context, _mockNotificationService.Object, Mock.Of<ILogger<SubRequestService>>());
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Helper Methods
+
+    private async Task<User> CreateTestUser(string email, Dictionary<string, string>? positions = null, string? pushToken = null)
+    {
+        var user = new User
+        {
+            Id = Guid.NewGuid(),
+            Email = email,
+            PasswordHash = "hashed_password",
+            FirstName = "Test",
+            LastName = email.Split('@')[0],
+            Positions = positions ?? new Dictionary<string, string> { { "skater", "Silver" } },
+            PushToken = pushToken,
+            Role = "Player",
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Users.Add(user);
+        await _context.SaveChangesAsync();
+        return user;
+    }
+
+    private async Task<Organization> CreateTestOrganization(Guid creatorId)
+    {
+        var org = new Organization
+        {
+            Id = Guid.NewGuid(),
+            Name = "Test Org",
+            CreatorId = creatorId,
+            IsActive = true,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Organizations.Add(org);
+        await _context.SaveChangesAsync();
+        return org;
+    }
+
+    private async Task<Event> CreateTestEvent(
+        Guid creatorId,
+        Guid? organizationId = null,
+        List<string>? skillLevels = null,
+        DateTime? eventDate = null,
+        decimal cost = 20m)
+    {
+        var evt = new Event
+        {
+            Id = Guid.NewGuid(),
+            CreatorId = creatorId,
+            OrganizationId = organizationId,
+            Name = "Tuesday Pickup",
+            EventDate = eventDate ?? DateTime.UtcNow.AddDays(3),
+            Duration = 60,
+            MaxPlayers = 10,
+            Cost = cost,
+            Status = "Published",
+            Visibility = "Public",
+            SkillLevels = skillLevels,
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Events.Add(evt);
+        await _context.SaveChangesAsync();
+        return evt;
+    }
+
+    private async Task<EventRegistration> CreateRegistration(
+        Guid eventId,
+        Guid userId,
+        string status = "Registered",
+        string? paymentStatus = null)
+    {
+        var registration = new EventRegistration
+        {
+            Id = Guid.NewGuid(),
+            EventId = eventId,
+            UserId = userId,
+            Status = status,
+            RegisteredPosition = "Skater",
+            TeamAssignment = "Black",
+            PaymentStatus = paymentStatus,
+            RegisteredAt = DateTime.UtcNow
+        };
+
+        _context.EventRegistrations.Add(registration);
+        await _context.SaveChangesAsync();
+        return registration;
+    }
+
+    private async Task<TournamentTeam> CreateTestTeam(Guid creatorId, string status = "Open")
+    {
+        var tournament = new Tournament
+        {
+            Id = Guid.NewGuid(),
+            CreatorId = creatorId,
+            Name = "Spring Classic",
+            Format = "SingleElimination",
+            TeamFormation = "PreFormed",
+            Status = status,
+            StartDate = DateTime.UtcNow.AddDays(30),
+            EndDate = DateTime.UtcNow.AddDays(31),
+            RegistrationDeadline = DateTime.UtcNow.AddDays(25),
+            MaxTeams = 4,
+            EntryFee = 50,
+            FeeType = "PerPlayer",
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+        var team = new TournamentTeam
+        {
+            Id = Guid.NewGuid(),
+            TournamentId = tournament.Id,
+            Name = "Team Alpha",
+            Status = "Registered",
+            CreatedAt = DateTime.UtcNow,
+            UpdatedAt = DateTime.UtcNow
+        };
+
+        _context.Tournaments.Add(tournament);
+        _context.TournamentTeams.Add(team);
+        await _context.SaveChangesAsync();
+        return team;
+    }
+
+    private async Task<TournamentTeamMember> CreateTeamMember(Guid teamId, Guid userId, string role = "Player")
+    {
+        var member = new TournamentTeamMember
+        {
+            Id = Guid.NewGuid(),
+            TeamId = teamId,
+            UserId = userId,
+            Role = role,
+            Status = "Accepted",
+            Position = "Skater",
+            JoinedAt = DateTime.UtcNow
+        };
+
+        _context.TournamentTeamMembers.Add(member);
+        await _context.SaveChangesAsync();
+        return member;
+    }
+
+    #endregion
+
+    #region CreateAsync Tests
+
+    [Fact]
+    public async Task CreateAsync_ForRosteredPlayer_CreatesOpenRequestWithPosition()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, requester.Id, paymentStatus: "Verified");
+
+        // Act
+        var result = await _sut.CreateAsync(new CreateSubRequestRequest(evt.Id, null, "Out of town"), requester.Id);
+
+        // Assert
+        result.Status.Should().Be("Open");
+        result.Position.Should().Be("Skater");
+        result.EventId.Should().Be(evt.Id);
+        result.Cost.Should().Be(20m);
+        result.RequesterPaymentStatus.Should().Be("Verified");
+        result.Note.Should().Be("Out of town");
+        var saved = await _context.SubRequests.SingleAsync();
+        saved.EventRegistrationId.Should().Be(registration.Id);
+    }
+
+    [Fact]
+    public async Task CreateAsync_WhenWaitlisted_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, requester.Id, "Waitlisted");
+
+        // Act & Assert
+        await _sut.Invoking(s => s.CreateAsync(new CreateSubRequestRequest(evt.Id, null, null), requester.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*roster*");
+    }
+
+    [Fact]
+    public async Task CreateAsync_WithOpenRequestForSameSpot_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, requester.Id);
+        await _sut.CreateAsync(new CreateSubRequestRequest(evt.Id, null, null), requester.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.CreateAsync(new CreateSubRequestRequest(evt.Id, null, null), requester.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*already have an open sub request*");
+    }
+
+    [Fact]
+    public async Task CreateAsync_NotifiesOnlyEligibleOrganizationMembers()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com");
+        var silver = await CreateTestUser("silver@example.com", pushToken: "ExponentPushToken[silver]");
+        var bronze = await CreateTestUser("bronze@example.com",
+            new Dictionary<string, string> { { "skater", "Bronze" } }, "ExponentPushToken[bronze]");
+        var goalie = await CreateTestUser("goalie@example.com",
+            new Dictionary<string, string> { { "goalie", "Silver" } }, "ExponentPushToken[goalie]");
+        var org = await CreateTestOrganization(creator.Id);
+        foreach (var member in new[] { requester, silver, bronze, goalie })
+        {
+            _context.OrganizationSubscriptions.Add(new OrganizationSubscription
+            {
+                OrganizationId = org.Id,
+                UserId = member.Id,
+                SubscribedAt = DateTime.UtcNow
+            });
+        }
+        await _context.SaveChangesAsync();
+        var evt = await CreateTestEvent(creator.Id, org.Id, new List<string> { "Silver", "Gold" });
+        await CreateRegistration(evt.Id, requester.Id);
+
+        // Act
+        await _sut.CreateAsync(new CreateSubRequestRequest(evt.Id, null, null), requester.Id);
+
+        // Assert
+        _mockNotificationService.Verify(
+            n => n.SendPushNotificationAsync(
+                "ExponentPushToken[silver]",
+                "Sub Needed",
+                It.IsAny<string>(),
+                It.IsAny<object>(),
+                silver.Id,
+                "sub_request",
+                org.Id,
+                evt.Id),
+            Times.Once);
+        _mockNotificationService.Verify(
+            n => n.SendPushNotificationAsync(
+                It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<object>(),
+                It.IsAny<Guid?>(), It.IsAny<string?>(), It.IsAny<Guid?>(), It.IsAny<Guid?>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task CreateAsync_ForTeamCaptain_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var captain = await CreateTestUser("captain@example.com");
+        var team = await CreateTestTeam(creator.Id);
+        await CreateTeamMember(team.Id, captain.Id, "Captain");
+
+        // Act & Assert
+        await _sut.Invoking(s => s.CreateAsync(new CreateSubRequestRequest(null, team.Id, null), captain.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*captaincy*");
+    }
+
+    #endregion
+
+    #region GetOpenForUserAsync Tests
+
+    [Fact]
+    public async Task GetOpenForUserAsync_ExcludesIneligibleOwnAndJoinedGames()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com");
+        var viewer = await CreateTestUser("viewer@example.com");
+        var matching = await CreateTestEvent(creator.Id, skillLevels: new List<string> { "Silver" });
+        var wrongSkill = await CreateTestEvent(creator.Id, skillLevels: new List<string> { "Gold" });
+        var alreadyIn = await CreateTestEvent(creator.Id);
+        foreach (var evt in new[] { matching, wrongSkill, alreadyIn })
+        {
+            await CreateRegistration(evt.Id, requester.Id);
+            await _sut.CreateAsync(new CreateSubRequestRequest(evt.Id, null, null), requester.Id);
+        }
+        await CreateRegistration(alreadyIn.Id, viewer.Id, "Waitlisted");
+
+        // Act
+        var viewerResult = await _sut.GetOpenForUserAsync(viewer.Id);
+        var requesterResult = await _sut.GetOpenForUserAsync(requester.Id);
+
+        // Assert
+        viewerResult.Should().ContainSingle().Which.EventId.Should().Be(matching.Id);
+        requesterResult.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task GetOpenForUserAsync_WhenRequesterCancelledRegistration_HidesRequest()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com");
+        var viewer = await CreateTestUser("viewer@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, requester.Id);
+        await _sut.CreateAsync(new CreateSubRequestRequest(evt.Id, null, null), requester.Id);
+        registration.Status = "Cancelled";
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _sut.GetOpenForUserAsync(viewer.Id);
+
+        // Assert
+        result.Should().BeEmpty();
+    }
+
+    #endregion
+
+    #region AcceptAsync Tests
+
+    [Fact]
+    public async Task AcceptAsync_TransfersRegistrationWithPaymentStatus()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com", pushToken: "ExponentPushToken[requester]");
+        var sub = await CreateTestUser("sub@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, requester.Id, paymentStatus: "Verified");
+        var oldToken = registration.CheckInToken;
+        var request = await _sut.CreateAsync(new CreateSubRequestRequest(evt.Id, null, null), requester.Id);
+
+        // Act
+        var result = await _sut.AcceptAsync(request.Id, sub.Id);
+
+        // Assert
+        result!.RegistrationId.Should().Be(registration.Id);
+        result.SubRequest.Status.Should().Be("Filled");
+        result.SubRequest.AcceptedByUserId.Should().Be(sub.Id);
+        registration.UserId.Should().Be(sub.Id);
+        registration.Status.Should().Be("Registered");
+        registration.TeamAssignment.Should().Be("Black");
+        registration.PaymentStatus.Should().Be("Verified");
+        registration.CheckInToken.Should().NotBe(oldToken);
+        _mockNotificationService.Verify(
+            n => n.SendPushNotificationAsync(
+                "ExponentPushToken[requester]",
+                "Sub Found",
+                It.IsAny<string>(),
+                It.IsAny<object>(),
+                requester.Id,
+                "sub_request_filled",
+                It.IsAny<Guid?>(),
+                evt.Id),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task AcceptAsync_WhenAlreadyFilled_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com");
+        var first = await CreateTestUser("first@example.com");
+        var second = await CreateTestUser("second@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, requester.Id);
+        var request = await _sut.CreateAsync(new CreateSubRequestRequest(evt.Id, null, null), requester.Id);
+        await _sut.AcceptAsync(request.Id, first.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.AcceptAsync(request.Id, second.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*already been filled*");
+    }
+
+    [Fact]
+    public async Task AcceptAsync_WhenSubDoesNotPlayPosition_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com");
+        var goalie = await CreateTestUser("goalie@example.com", new Dictionary<string, string> { { "goalie", "Silver" } });
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, requester.Id);
+        var request = await _sut.CreateAsync(new CreateSubRequestRequest(evt.Id, null, null), requester.Id);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.AcceptAsync(request.Id, goalie.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*Skater*");
+    }
+
+    [Fact]
+    public async Task AcceptAsync_ForTeamSpot_MovesMembershipAndRegistration()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com");
+        var sub = await CreateTestUser("sub@example.com");
+        var team = await CreateTestTeam(creator.Id);
+        var requesterMember = await CreateTeamMember(team.Id, requester.Id);
+        var tournamentRegistration = new TournamentRegistration
+        {
+            TournamentId = team.TournamentId,
+            UserId = requester.Id,
+            Status = "Assigned",
+            Position = "Skater",
+            AssignedTeamId = team.Id,
+            PaymentStatus = "Verified"
+        };
+        _context.TournamentRegistrations.Add(tournamentRegistration);
+        await _context.SaveChangesAsync();
+        var request = await _sut.CreateAsync(new CreateSubRequestRequest(null, team.Id, null), requester.Id);
+
+        // Act
+        var result = await _sut.AcceptAsync(request.Id, sub.Id);
+
+        // Assert
+        result!.RegistrationId.Should().BeNull();
+        requesterMember.LeftAt.Should().NotBeNull();
+        var subMember = await _context.TournamentTeamMembers.SingleAsync(m => m.UserId == sub.Id);
+        subMember.TeamId.Should().Be(team.Id);
+        subMember.Status.Should().Be("Accepted");
+        subMember.Position.Should().Be("Skater");
+        tournamentRegistration.UserId.Should().Be(sub.Id);
+        tournamentRegistration.PaymentStatus.Should().Be("Verified");
+    }
+
+    #endregion
+
+    #region CancelAsync Tests
+
+    [Fact]
+    public async Task CancelAsync_ByRequester_CancelsAndKeepsSpot()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        var registration = await CreateRegistration(evt.Id, requester.Id);
+        var request = await _sut.CreateAsync(new CreateSubRequestRequest(evt.Id, null, null), requester.Id);
+
+        // Act
+        var result = await _sut.CancelAsync(request.Id, requester.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        (await _context.SubRequests.SingleAsync()).Status.Should().Be("Cancelled");
+        registration.UserId.Should().Be(requester.Id);
+    }
+
+    [Fact]
+    public async Task CancelAsync_BySomeoneElse_ReturnsFalse()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var requester = await CreateTestUser("requester@example.com");
+        var other = await CreateTestUser("other@example.com");
+        var evt = await CreateTestEvent(creator.Id);
+        await CreateRegistration(evt.Id, requester.Id);
+        var request = await _sut.CreateAsync(new CreateSubRequestRequest(evt.Id, null, null), requester.Id);
+
+        // Act
+        var result = await _sut.CancelAsync(request.Id, other.Id);
+
+        // Assert
+        result.Should().BeFalse();
+        (await _context.SubRequests.SingleAsync()).Status.Should().Be("Open");
+    }
+
+    #endregion
+}
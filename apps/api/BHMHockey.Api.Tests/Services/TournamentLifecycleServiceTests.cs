@@ -27,7 +27,7 @@ public class TournamentLifecycleServiceTests : IDisposable
         _authService = new TournamentAuthorizationService(_context);
         var orgAdminService = new OrganizationAdminService(_context);
         _tournamentService = new TournamentService(_context, orgAdminService, _authService);
-        _sut = new TournamentLifecycleService(_context, _tournamentService, _authService);
+        _sut = new TournamentLifecycleService(_context, _tournamentService, _authService, new BadgeAdminService(_context));
     }
 
     public void Dispose()
@@ -108,6 +108,21 @@ public class TournamentLifecycleServiceTests : IDisposable
         result.Status.Should().Be("Open");
     }
 
+    [Fact]
+    public async Task PublishAsync_ValidDraftTournament_KeepsOwnerPermissions()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id, "Draft");
+
+        // Act
+        var result = await _sut.PublishAsync(tournament.Id, user.Id);
+
+        // Assert
+        result.CanManage.Should().BeTrue();
+        result.CanEnterScores.Should().BeTrue();
+    }
+
     [Fact]
     public async Task PublishAsync_ValidDraftTournament_SetsPublishedAtTimestamp()
     {
@@ -376,6 +391,30 @@ public class TournamentLifecycleServiceTests : IDisposable
             .WithMessage("*Cannot transition*Open*");
     }
 
+    [Fact]
+    public async Task CompleteAsync_AwardsPlacementBadgesFromActiveRules()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await CreateTestTournament(user.Id, "InProgress");
+        var badgeType = new BadgeType { Code = "tournament_winner", Name = "Champion", Category = "achievement" };
+        _context.BadgeTypes.Add(badgeType);
+        _context.BadgeRules.Add(new BadgeRule { BadgeTypeId = badgeType.Id, Trigger = "TournamentPlacement", Threshold = 1 });
+        var team = new TournamentTeam { TournamentId = tournament.Id, Name = "Champs", FinalPlacement = 1 };
+        _context.TournamentTeams.Add(team);
+        _context.TournamentTeamMembers.Add(new TournamentTeamMember { TeamId = team.Id, UserId = user.Id, Status = "Accepted" });
+        await _context.SaveChangesAsync();
+
+        // Act
+        await _sut.CompleteAsync(tournament.Id, user.Id);
+
+        // Assert
+        var badge = await _context.UserBadges.SingleAsync();
+        badge.UserId.Should().Be(user.Id);
+        badge.BadgeTypeId.Should().Be(badgeType.Id);
+        badge.CelebratedAt.Should().BeNull();
+    }
+
     #endregion
 
     #region PostponeAsync Tests
@@ -1220,6 +1220,86 @@ public class TournamentRegistrationServiceTests : IDisposable
         exception.Message.Should().Contain("required");
     }
 
+    [Fact]
+    public async Task RegisterAsync_WithHiddenRequiredQuestion_AndNoAnswer_Succeeds()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+
+        // q2 is only shown when q1 is answered "yes"
+        var customQuestions = "[{\"id\":\"q1\",\"type\":\"yesno\",\"label\":\"Need a jersey?\",\"required\":true},{\"id\":\"q2\",\"type\":\"tshirtSize\",\"label\":\"Jersey Size\",\"required\":true,\"visibleWhen\":{\"questionId\":\"q1\",\"equals\":true}}]";
+        var tournament = await CreateTestTournament(
+            creator.Id,
+            status: "Open",
+            customQuestions: customQuestions);
+
+        var request = new CreateTournamentRegistrationRequest
+        {
+            Position = "Skater",
+            CustomResponses = "{\"q1\":false}" // q2 is hidden
+        };
+
+        // Act
+        var result = await _sut.RegisterAsync(tournament.Id, request, user.Id);
+
+        // Assert
+        result.Should().NotBeNull();
+        result.Status.Should().Be("Registered");
+    }
+
+    [Fact]
+    public async Task RegisterAsync_WithVisibleConditionalRequiredQuestion_AndNoAnswer_ThrowsException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+
+        var customQuestions = "[{\"id\":\"q1\",\"type\":\"yesno\",\"label\":\"Need a jersey?\",\"required\":true},{\"id\":\"q2\",\"type\":\"tshirtSize\",\"label\":\"Jersey Size\",\"required\":true,\"visibleWhen\":{\"questionId\":\"q1\",\"equals\":true}}]";
+        var tournament = await CreateTestTournament(
+            creator.Id,
+            status: "Open",
+            customQuestions: customQuestions);
+
+        var request = new CreateTournamentRegistrationRequest
+        {
+            Position = "Skater",
+            CustomResponses = "{\"q1\":true}" // q2 is shown but unanswered
+        };
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAsync<InvalidOperationException>(
+            () => _sut.RegisterAsync(tournament.Id, request, user.Id));
+
+        exception.Message.Should().Contain("Jersey Size");
+    }
+
+    [Fact]
+    public async Task RegisterAsync_WithVersionedSchema_ValidatesRequiredQuestions()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var user = await CreateTestUser("user@example.com");
+
+        var customQuestions = "{\"version\":2,\"questions\":[{\"id\":\"q1\",\"type\":\"jerseyNumber\",\"label\":\"Jersey Number\",\"required\":true}]}";
+        var tournament = await CreateTestTournament(
+            creator.Id,
+            status: "Open",
+            customQuestions: customQuestions);
+
+        var request = new CreateTournamentRegistrationRequest
+        {
+            Position = "Skater",
+            CustomResponses = "{}"
+        };
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAsync<InvalidOperationException>(
+            () => _sut.RegisterAsync(tournament.Id, request, user.Id));
+
+        exception.Message.Should().Contain("Jersey Number");
+    }
+
     [Fact]
     public async Task RegisterAsync_WithRequiredQuestions_AndValidAnswers_Succeeds()
     {
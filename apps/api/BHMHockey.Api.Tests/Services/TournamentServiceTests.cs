@@ -256,6 +256,37 @@ public class TournamentServiceTests : IDisposable
             () => _sut.CreateAsync(request, nonAdmin.Id));
     }
 
+    [Theory]
+    [InlineData("[{\"id\":\"q1\",\"type\":\"text\",\"label\":\"Team name\",\"required\":true}]")]
+    [InlineData("{\"version\":2,\"questions\":[{\"id\":\"q1\",\"type\":\"jerseyNumber\",\"label\":\"Jersey\",\"required\":true}]}")]
+    public async Task CreateAsync_WithSupportedCustomQuestions_StoresThem(string customQuestions)
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var request = CreateValidRequest();
+        request.CustomQuestions = customQuestions;
+
+        // Act
+        var result = await _sut.CreateAsync(request, user.Id);
+
+        // Assert
+        result.CustomQuestions.Should().Be(customQuestions);
+    }
+
+    [Fact]
+    public async Task CreateAsync_WithNewerCustomQuestionsVersion_ThrowsException()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var request = CreateValidRequest();
+        request.CustomQuestions = "{\"version\":3,\"questions\":[]}";
+
+        // Act & Assert
+        var exception = await Assert.ThrowsAsync<InvalidOperationException>(
+            () => _sut.CreateAsync(request, user.Id));
+        exception.Message.Should().Contain("version 3");
+    }
+
     #endregion
 
     #region GetAllAsync Tests
@@ -386,6 +417,35 @@ public class TournamentServiceTests : IDisposable
         result.RulesContent.Should().Be("Tournament rules here");
     }
 
+    [Fact]
+    public async Task GetByIdAsync_ForScorekeeper_SetsCanEnterScores()
+    {
+        // Arrange
+        var owner = await CreateTestUser("owner@example.com");
+        var scorekeeper = await CreateTestUser("scorekeeper@example.com");
+        var player = await CreateTestUser("player@example.com");
+        var org = await CreateTestOrganization(owner.Id);
+        var tournament = await CreateTournamentWithStatus(owner.Id, org.Id, "InProgress", "Test Tournament");
+
+        _context.TournamentAdmins.Add(new TournamentAdmin
+        {
+            Id = Guid.NewGuid(),
+            TournamentId = tournament.Id,
+            UserId = scorekeeper.Id,
+            Role = "Scorekeeper",
+            AddedAt = DateTime.UtcNow
+        });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var scorekeeperResult = await _sut.GetByIdAsync(tournament.Id, scorekeeper.Id);
+        var playerResult = await _sut.GetByIdAsync(tournament.Id, player.Id);
+
+        // Assert
+        scorekeeperResult!.CanEnterScores.Should().BeTrue();
+        playerResult!.CanEnterScores.Should().BeFalse();
+    }
+
     #endregion
 
     #region UpdateAsync Tests
@@ -529,6 +589,20 @@ public class TournamentServiceTests : IDisposable
         result!.UpdatedAt.Should().BeAfter(originalUpdatedAt);
     }
 
+    [Fact]
+    public async Task UpdateAsync_WithMalformedCustomQuestionsSchema_ThrowsException()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var tournament = await _sut.CreateAsync(CreateValidRequest(), user.Id);
+
+        var updateRequest = new UpdateTournamentRequest { CustomQuestions = "{\"questions\":[]}" };
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(
+            () => _sut.UpdateAsync(tournament.Id, updateRequest, user.Id));
+    }
+
     #endregion
 
     #region DeleteAsync Tests
@@ -402,4 +402,126 @@ public class UserServiceTests : IDisposable
     }
 
     #endregion
+
+    #region Availability Tests
+
+    private static AvailabilitySlotDto WeeklySlot(int dayOfWeek = 2, string startTime = "17:00", string endTime = "21:00", string? position = null)
+        => new("client-id", "Weekly", dayOfWeek, null, startTime, endTime, position);
+
+    [Fact]
+    public async Task GetAvailabilityAsync_WithNoSlots_ReturnsEmptyList()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+
+        // Act
+        var result = await _sut.GetAvailabilityAsync(user.Id);
+
+        // Assert
+        result.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async Task ReplaceAvailabilityAsync_SavesSlotsWithServerIds()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var request = new UpdateAvailabilityRequest(new List<AvailabilitySlotDto>
+        {
+            new(null, "OneOff", null, "2026-11-07", "06:00", "12:00", "Goalie"),
+            WeeklySlot(endTime: "24:00")
+        });
+
+        // Act
+        var result = await _sut.ReplaceAvailabilityAsync(user.Id, request);
+
+        // Assert - weekly slots come first
+        result.Should().HaveCount(2);
+        result[0].Kind.Should().Be("Weekly");
+        result[0].EndTime.Should().Be("24:00");
+        result[1].Date.Should().Be("2026-11-07");
+        result[1].Position.Should().Be("Goalie");
+        result.Select(s => Guid.TryParse(s.Id, out _)).Should().OnlyContain(isGuid => isGuid);
+    }
+
+    [Fact]
+    public async Task ReplaceAvailabilityAsync_ReplacesExistingSlots()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        await _sut.ReplaceAvailabilityAsync(user.Id, new UpdateAvailabilityRequest(new List<AvailabilitySlotDto> { WeeklySlot(1), WeeklySlot(3) }));
+
+        // Act
+        var result = await _sut.ReplaceAvailabilityAsync(user.Id, new UpdateAvailabilityRequest(new List<AvailabilitySlotDto> { WeeklySlot(5) }));
+
+        // Assert
+        result.Should().ContainSingle().Which.DayOfWeek.Should().Be(5);
+        _context.UserAvailabilitySlots.Count(s => s.UserId == user.Id).Should().Be(1);
+    }
+
+    [Fact]
+    public async Task ReplaceAvailabilityAsync_WithEmptyList_ClearsSlots()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        await _sut.ReplaceAvailabilityAsync(user.Id, new UpdateAvailabilityRequest(new List<AvailabilitySlotDto> { WeeklySlot() }));
+
+        // Act
+        var result = await _sut.ReplaceAvailabilityAsync(user.Id, new UpdateAvailabilityRequest(new List<AvailabilitySlotDto>()));
+
+        // Assert
+        result.Should().BeEmpty();
+    }
+
+    [Theory]
+    [InlineData("Weekly", 7, null, "17:00", "21:00", null, "*day of week*")]
+    [InlineData("OneOff", null, "11/07/2026", "17:00", "21:00", null, "*YYYY-MM-DD*")]
+    [InlineData("Weekly", 2, null, "5pm", "21:00", null, "*start time*")]
+    [InlineData("Weekly", 2, null, "17:00", "24:30", null, "*end time*")]
+    [InlineData("Weekly", 2, null, "21:00", "17:00", null, "*after the start*")]
+    [InlineData("Weekly", 2, null, "17:00", "21:00", "Defense", "*position*")]
+    [InlineData("Monthly", 2, null, "17:00", "21:00", null, "*kind*")]
+    public async Task ReplaceAvailabilityAsync_WithInvalidSlot_ThrowsAndKeepsExisting(
+        string kind, int? dayOfWeek, string? date, string startTime, string endTime, string? position, string expectedMessage)
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        await _sut.ReplaceAvailabilityAsync(user.Id, new UpdateAvailabilityRequest(new List<AvailabilitySlotDto> { WeeklySlot() }));
+        var invalid = new AvailabilitySlotDto(null, kind, dayOfWeek, date, startTime, endTime, position);
+
+        // Act
+        var act = () => _sut.ReplaceAvailabilityAsync(user.Id, new UpdateAvailabilityRequest(new List<AvailabilitySlotDto> { invalid }));
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>().WithMessage(expectedMessage);
+        _context.UserAvailabilitySlots.Count(s => s.UserId == user.Id).Should().Be(1);
+    }
+
+    [Fact]
+    public async Task ReplaceAvailabilityAsync_WithTooManySlots_ThrowsException()
+    {
+        // Arrange
+        var user = await CreateTestUser();
+        var slots = Enumerable.Range(0, PlayerAvailability.MaxSlots + 1).Select(i => WeeklySlot(i % 7)).ToList();
+
+        // Act
+        var act = () => _sut.ReplaceAvailabilityAsync(user.Id, new UpdateAvailabilityRequest(slots));
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage($"*{PlayerAvailability.MaxSlots}*");
+    }
+
+    [Fact]
+    public async Task ReplaceAvailabilityAsync_WithNonExistentUser_ThrowsException()
+    {
+        // Act
+        var act = () => _sut.ReplaceAvailabilityAsync(Guid.NewGuid(), new UpdateAvailabilityRequest(new List<AvailabilitySlotDto> { WeeklySlot() }));
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*not found*");
+    }
+
+    #endregion
 }
@@ -124,6 +124,31 @@ public class WaitlistServiceTests : IDisposable
         return registration;
     }
 
+    private async Task<Organization> CreateOfferModeOrganization(Guid creatorId, int? windowMinutes = 60)
+    {
+        var org = new Organization
+        {
+            Id = Guid.NewGuid(),
+            Name = "Offer Mode Org",
+            CreatorId = creatorId,
+            WaitlistPromotionMode = "Offer",
+            WaitlistOfferWindowMinutes = windowMinutes
+        };
+
+        _context.Organizations.Add(org);
+        await _context.SaveChangesAsync();
+        return org;
+    }
+
+    private async Task<Event> CreateOfferModeEvent(Guid creatorId, decimal cost = 25.00m)
+    {
+        var org = await CreateOfferModeOrganization(creatorId);
+        var evt = await CreateTestEvent(creatorId, cost: cost, isRosterPublished: true);
+        evt.OrganizationId = org.Id;
+        await _context.SaveChangesAsync();
+        return evt;
+    }
+
     #endregion
 
     #region GetNextWaitlistPositionAsync Tests
@@ -662,7 +687,7 @@ public class WaitlistServiceTests : IDisposable
     {
         // Arrange
         var creator = await CreateTestUser("creator@example.com");
-        var evt = await CreateTestEvent(creator.Id, cost: 25.00m);
+        var evt = await CreateOfferModeEvent(creator.Id, cost: 25.00m);
 
         var user = await CreateTestUser("user@example.com", pushToken: "ExponentPushToken[user]");
         // Create registration with expired payment deadline
@@ -1639,4 +1664,250 @@ public class WaitlistServiceTests : IDisposable
     }
 
     #endregion
+
+    #region Waitlist Offer Tests
+
+    [Fact]
+    public async Task PromoteFromWaitlistAsync_OfferMode_OffersSpotToNextInLine()
+    {
+        // Arrange - position 1 is unverified, position 2 verified; offers go by position
+        var creator = await CreateTestUser("creator@example.com");
+        var evt = await CreateOfferModeEvent(creator.Id);
+        var user1 = await CreateTestUser("user1@example.com", pushToken: "ExponentPushToken[user1]");
+        var user2 = await CreateTestUser("user2@example.com");
+        var reg1 = await CreateRegistration(evt.Id, user1.Id, status: "Waitlisted", waitlistPosition: 1, paymentStatus: "Pending");
+        await CreateRegistration(evt.Id, user2.Id, status: "Waitlisted", waitlistPosition: 2, paymentStatus: "Verified");
+
+        // Act
+        var result = await _sut.PromoteFromWaitlistAsync(evt.Id, spotCount: 1);
+
+        // Assert - nobody is promoted; the first in line holds the spot for the org's window
+        result.Promoted.Should().BeEmpty();
+        result.Offered.Should().ContainSingle().Which.Id.Should().Be(reg1.Id);
+
+        var reg1After = await _context.EventRegistrations.FirstAsync(r => r.Id == reg1.Id);
+        reg1After.Status.Should().Be("Waitlisted");
+        reg1After.OfferedAt.Should().NotBeNull();
+        reg1After.OfferExpiresAt.Should().BeCloseTo(DateTime.UtcNow.AddMinutes(60), TimeSpan.FromMinutes(1));
+
+        _mockNotificationService.Verify(
+            n => n.SendPushNotificationAsync(
+                "ExponentPushToken[user1]",
+                "Spot Available",
+                It.IsAny<string>(),
+                It.IsAny<object>(),
+                user1.Id,
+                "waitlist_offer",
+                evt.OrganizationId,
+                evt.Id),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task PromoteFromWaitlistAsync_OfferMode_SkipsPlayersAlreadyOffered()
+    {
+        // Arrange - position 1 already passed on an offer
+        var creator = await CreateTestUser("creator@example.com");
+        var evt = await CreateOfferModeEvent(creator.Id);
+        var user1 = await CreateTestUser("user1@example.com");
+        var user2 = await CreateTestUser("user2@example.com");
+        var reg1 = await CreateRegistration(evt.Id, user1.Id, status: "Waitlisted", waitlistPosition: 1);
+        var reg2 = await CreateRegistration(evt.Id, user2.Id, status: "Waitlisted", waitlistPosition: 2);
+        reg1.OfferedAt = DateTime.UtcNow.AddHours(-1);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _sut.PromoteFromWaitlistAsync(evt.Id, spotCount: 1);
+
+        // Assert
+        result.Offered.Should().ContainSingle().Which.Id.Should().Be(reg2.Id);
+    }
+
+    [Fact]
+    public async Task AcceptOfferAsync_PaidEvent_MovesToRosterAndStartsPaymentDeadline()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var evt = await CreateOfferModeEvent(creator.Id, cost: 25.00m);
+        var user = await CreateTestUser("user@example.com");
+        var other = await CreateTestUser("other@example.com");
+        var reg = await CreateRegistration(evt.Id, user.Id, status: "Waitlisted", waitlistPosition: 1, paymentStatus: "Pending");
+        var otherReg = await CreateRegistration(evt.Id, other.Id, status: "Waitlisted", waitlistPosition: 2);
+        reg.OfferedAt = DateTime.UtcNow;
+        reg.OfferExpiresAt = DateTime.UtcNow.AddMinutes(30);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _sut.AcceptOfferAsync(evt.Id, user.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        var regAfter = await _context.EventRegistrations.FirstAsync(r => r.Id == reg.Id);
+        regAfter.Status.Should().Be("Registered");
+        regAfter.WaitlistPosition.Should().BeNull();
+        regAfter.TeamAssignment.Should().NotBeNull();
+        regAfter.OfferExpiresAt.Should().BeNull();
+        regAfter.PaymentDeadlineAt.Should().BeCloseTo(DateTime.UtcNow.AddHours(2), TimeSpan.FromMinutes(1));
+
+        var otherAfter = await _context.EventRegistrations.FirstAsync(r => r.Id == otherReg.Id);
+        otherAfter.WaitlistPosition.Should().Be(1);
+    }
+
+    [Fact]
+    public async Task AcceptOfferAsync_ExpiredOffer_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var evt = await CreateOfferModeEvent(creator.Id);
+        var user = await CreateTestUser("user@example.com");
+        var reg = await CreateRegistration(evt.Id, user.Id, status: "Waitlisted", waitlistPosition: 1);
+        reg.OfferedAt = DateTime.UtcNow.AddHours(-2);
+        reg.OfferExpiresAt = DateTime.UtcNow.AddMinutes(-1);
+        await _context.SaveChangesAsync();
+
+        // Act & Assert
+        await _sut.Invoking(s => s.AcceptOfferAsync(evt.Id, user.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*expired*");
+    }
+
+    [Fact]
+    public async Task AcceptOfferAsync_NoOffer_ThrowsInvalidOperationException()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var evt = await CreateOfferModeEvent(creator.Id);
+        var user = await CreateTestUser("user@example.com");
+        await CreateRegistration(evt.Id, user.Id, status: "Waitlisted", waitlistPosition: 1);
+
+        // Act & Assert
+        await _sut.Invoking(s => s.AcceptOfferAsync(evt.Id, user.Id))
+            .Should().ThrowAsync<InvalidOperationException>()
+            .WithMessage("*open waitlist offer*");
+    }
+
+    [Fact]
+    public async Task AcceptOfferAsync_NotWaitlisted_ReturnsFalse()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var evt = await CreateOfferModeEvent(creator.Id);
+        var user = await CreateTestUser("user@example.com");
+
+        // Act
+        var result = await _sut.AcceptOfferAsync(evt.Id, user.Id);
+
+        // Assert
+        result.Should().BeFalse();
+    }
+
+    [Fact]
+    public async Task DeclineOfferAsync_CascadesToNextPlayerAndKeepsWaitlistSpot()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var evt = await CreateOfferModeEvent(creator.Id);
+        var user1 = await CreateTestUser("user1@example.com");
+        var user2 = await CreateTestUser("user2@example.com");
+        var reg1 = await CreateRegistration(evt.Id, user1.Id, status: "Waitlisted", waitlistPosition: 1);
+        var reg2 = await CreateRegistration(evt.Id, user2.Id, status: "Waitlisted", waitlistPosition: 2);
+        reg1.OfferedAt = DateTime.UtcNow;
+        reg1.OfferExpiresAt = DateTime.UtcNow.AddMinutes(30);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _sut.DeclineOfferAsync(evt.Id, user1.Id);
+
+        // Assert
+        result.Should().BeTrue();
+        var reg1After = await _context.EventRegistrations.FirstAsync(r => r.Id == reg1.Id);
+        reg1After.Status.Should().Be("Waitlisted");
+        reg1After.WaitlistPosition.Should().Be(1);
+        reg1After.OfferExpiresAt.Should().BeNull();
+
+        var reg2After = await _context.EventRegistrations.FirstAsync(r => r.Id == reg2.Id);
+        reg2After.OfferExpiresAt.Should().NotBeNull();
+    }
+
+    [Fact]
+    public async Task ProcessExpiredOffersAsync_LapsedOffer_CascadesAndNotifies()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var evt = await CreateOfferModeEvent(creator.Id);
+        var user1 = await CreateTestUser("user1@example.com", pushToken: "ExponentPushToken[user1]");
+        var user2 = await CreateTestUser("user2@example.com");
+        var reg1 = await CreateRegistration(evt.Id, user1.Id, status: "Waitlisted", waitlistPosition: 1);
+        var reg2 = await CreateRegistration(evt.Id, user2.Id, status: "Waitlisted", waitlistPosition: 2);
+        reg1.OfferedAt = DateTime.UtcNow.AddHours(-2);
+        reg1.OfferExpiresAt = DateTime.UtcNow.AddMinutes(-5);
+        await _context.SaveChangesAsync();
+
+        // Act
+        await _sut.ProcessExpiredOffersAsync();
+
+        // Assert - the lapsed player stays waitlisted and the next in line gets the offer
+        var reg1After = await _context.EventRegistrations.FirstAsync(r => r.Id == reg1.Id);
+        reg1After.Status.Should().Be("Waitlisted");
+        reg1After.OfferExpiresAt.Should().BeNull();
+
+        var reg2After = await _context.EventRegistrations.FirstAsync(r => r.Id == reg2.Id);
+        reg2After.OfferExpiresAt.Should().BeAfter(DateTime.UtcNow);
+
+        _mockNotificationService.Verify(
+            n => n.SendPushNotificationAsync(
+                "ExponentPushToken[user1]",
+                "Offer Expired",
+                It.IsAny<string>(),
+                It.IsAny<object>(),
+                user1.Id,
+                "waitlist_offer_expired",
+                evt.OrganizationId,
+                evt.Id),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task ProcessExpiredPaymentDeadlinesAsync_OfferMode_ReleasesSpotToNextInLine()
+    {
+        // Arrange
+        var creator = await CreateTestUser("creator@example.com");
+        var evt = await CreateOfferModeEvent(creator.Id, cost: 25.00m);
+        var unpaid = await CreateTestUser("unpaid@example.com");
+        var waiting = await CreateTestUser("waiting@example.com");
+        var unpaidReg = await CreateRegistration(evt.Id, unpaid.Id, status: "Registered",
+            paymentStatus: "Pending", paymentDeadlineAt: DateTime.UtcNow.AddMinutes(-10));
+        var waitingReg = await CreateRegistration(evt.Id, waiting.Id, status: "Waitlisted", waitlistPosition: 1);
+
+        // Act
+        await _sut.ProcessExpiredPaymentDeadlinesAsync();
+
+        // Assert
+        var unpaidAfter = await _context.EventRegistrations.FirstAsync(r => r.Id == unpaidReg.Id);
+        unpaidAfter.Status.Should().Be("Cancelled");
+
+        var waitingAfter = await _context.EventRegistrations.FirstAsync(r => r.Id == waitingReg.Id);
+        waitingAfter.Status.Should().Be("Waitlisted");
+        waitingAfter.OfferExpiresAt.Should().NotBeNull();
+    }
+
+    [Fact]
+    public async Task ProcessExpiredPaymentDeadlinesAsync_ImmediateMode_LeavesRegistrationAlone()
+    {
+        // Arrange - organizer-managed payments outside 'Offer' mode
+        var creator = await CreateTestUser("creator@example.com");
+        var evt = await CreateTestEvent(creator.Id, cost: 25.00m);
+        var user = await CreateTestUser("user@example.com");
+        var reg = await CreateRegistration(evt.Id, user.Id, status: "Registered",
+            paymentStatus: "Pending", paymentDeadlineAt: DateTime.UtcNow.AddHours(-1));
+
+        // Act
+        await _sut.ProcessExpiredPaymentDeadlinesAsync();
+
+        // Assert
+        var regAfter = await _context.EventRegistrations.FirstAsync(r => r.Id == reg.Id);
+        regAfter.Status.Should().Be("Registered");
+    }
+
+    #endregion
 }
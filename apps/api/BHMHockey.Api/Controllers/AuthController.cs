@@ -11,10 +11,12 @@ namespace BHMHockey.Api.Controllers;
 public class AuthController : ControllerBase
 {
     private readonly IAuthService _authService;
+    private readonly IBadgeAdminService _badgeAdminService;
 
-    public AuthController(IAuthService authService)
+    public AuthController(IAuthService authService, IBadgeAdminService badgeAdminService)
     {
         _authService = authService;
+        _badgeAdminService = badgeAdminService;
     }
 
     private Guid GetCurrentUserId()
@@ -213,4 +215,213 @@ public class AuthController : ControllerBase
             return BadRequest(new { message = ex.Message });
         }
     }
+
+    /// <summary>
+    /// Admin-only endpoint to list all badge types.
+    /// </summary>
+    [HttpGet("admin/badge-types")]
+    [Authorize]
+    public async Task<ActionResult<List<BadgeTypeDto>>> GetBadgeTypes()
+    {
+        if (!IsAdmin())
+        {
+            return Forbid();
+        }
+
+        var badgeTypes = await _badgeAdminService.GetBadgeTypesAsync();
+        return Ok(badgeTypes);
+    }
+
+    /// <summary>
+    /// Admin-only endpoint to create a badge type.
+    /// </summary>
+    /// <param name="request">Code, display fields and category</param>
+    /// <returns>The created badge type</returns>
+    [HttpPost("admin/badge-types")]
+    [Authorize]
+    public async Task<ActionResult<BadgeTypeDto>> CreateBadgeType([FromBody] CreateBadgeTypeRequest request)
+    {
+        if (!IsAdmin())
+        {
+            return Forbid();
+        }
+
+        try
+        {
+            var badgeType = await _badgeAdminService.CreateBadgeTypeAsync(request);
+            return Ok(badgeType);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Admin-only endpoint to award a badge to a user.
+    /// The badge starts uncelebrated, so the user sees the celebration next time they open the app.
+    /// </summary>
+    /// <param name="request">User, badge type and context</param>
+    /// <returns>The awarded badge</returns>
+    [HttpPost("admin/badges")]
+    [Authorize]
+    public async Task<ActionResult<UserBadgeDto>> AwardBadge([FromBody] AwardBadgeRequest request)
+    {
+        if (!IsAdmin())
+        {
+            return Forbid();
+        }
+
+        try
+        {
+            var badge = await _badgeAdminService.AwardBadgeAsync(request);
+            return Ok(badge);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Admin-only endpoint to revoke a user's badge.
+    /// </summary>
+    /// <param name="userBadgeId">The awarded badge to remove</param>
+    [HttpDelete("admin/badges/{userBadgeId}")]
+    [Authorize]
+    public async Task<ActionResult> RevokeBadge(Guid userBadgeId)
+    {
+        if (!IsAdmin())
+        {
+            return Forbid();
+        }
+
+        var revoked = await _badgeAdminService.RevokeBadgeAsync(userBadgeId);
+        if (!revoked)
+        {
+            return NotFound(new { message = "Badge not found" });
+        }
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Admin-only endpoint to list automatic badge rules.
+    /// </summary>
+    [HttpGet("admin/badge-rules")]
+    [Authorize]
+    public async Task<ActionResult<List<BadgeRuleDto>>> GetBadgeRules()
+    {
+        if (!IsAdmin())
+        {
+            return Forbid();
+        }
+
+        var rules = await _badgeAdminService.GetBadgeRulesAsync();
+        return Ok(rules);
+    }
+
+    /// <summary>
+    /// Admin-only endpoint to create an automatic badge rule.
+    /// Active rules are evaluated when a tournament completes (TournamentPlacement)
+    /// and as pickup games finish (GamesPlayed).
+    /// </summary>
+    /// <param name="request">Badge type, trigger and threshold</param>
+    /// <returns>The created rule</returns>
+    [HttpPost("admin/badge-rules")]
+    [Authorize]
+    public async Task<ActionResult<BadgeRuleDto>> CreateBadgeRule([FromBody] CreateBadgeRuleRequest request)
+    {
+        if (!IsAdmin())
+        {
+            return Forbid();
+        }
+
+        try
+        {
+            var rule = await _badgeAdminService.CreateBadgeRuleAsync(request);
+            return Ok(rule);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Admin-only endpoint to update a rule's threshold or turn it on/off.
+    /// </summary>
+    /// <param name="ruleId">The rule to update</param>
+    /// <param name="request">New threshold and/or active state</param>
+    /// <returns>The updated rule</returns>
+    [HttpPut("admin/badge-rules/{ruleId}")]
+    [Authorize]
+    public async Task<ActionResult<BadgeRuleDto>> UpdateBadgeRule(Guid ruleId, [FromBody] UpdateBadgeRuleRequest request)
+    {
+        if (!IsAdmin())
+        {
+            return Forbid();
+        }
+
+        try
+        {
+            var rule = await _badgeAdminService.UpdateBadgeRuleAsync(ruleId, request);
+            if (rule == null)
+            {
+                return NotFound(new { message = "Badge rule not found" });
+            }
+
+            return Ok(rule);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Admin-only endpoint to delete a rule. Badges it already awarded are kept.
+    /// </summary>
+    /// <param name="ruleId">The rule to delete</param>
+    [HttpDelete("admin/badge-rules/{ruleId}")]
+    [Authorize]
+    public async Task<ActionResult> DeleteBadgeRule(Guid ruleId)
+    {
+        if (!IsAdmin())
+        {
+            return Forbid();
+        }
+
+        var deleted = await _badgeAdminService.DeleteBadgeRuleAsync(ruleId);
+        if (!deleted)
+        {
+            return NotFound(new { message = "Badge rule not found" });
+        }
+
+        return NoContent();
+    }
+
+    /// <summary>
+    /// Admin-only endpoint to run a rule against every player now,
+    /// awarding anyone who already qualifies.
+    /// </summary>
+    /// <param name="ruleId">The rule to apply</param>
+    /// <returns>Number of badges awarded</returns>
+    [HttpPost("admin/badge-rules/{ruleId}/apply")]
+    [Authorize]
+    public async Task<ActionResult<ApplyBadgeRuleResponse>> ApplyBadgeRule(Guid ruleId)
+    {
+        if (!IsAdmin())
+        {
+            return Forbid();
+        }
+
+        var response = await _badgeAdminService.ApplyBadgeRuleAsync(ruleId);
+        if (response == null)
+        {
+            return NotFound(new { message = "Badge rule not found" });
+        }
+
+        return Ok(response);
+    }
 }
@@ -0,0 +1,34 @@
+using BHMHockey.Api.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+namespace BHMHockey.Api.Controllers;
+
+[ApiController]
+[Route("api/calendar-feeds")]
+[AllowAnonymous]
+public class CalendarFeedsController : ControllerBase
+{
+    private readonly ICalendarFeedService _calendarFeedService;
+
+    public CalendarFeedsController(ICalendarFeedService calendarFeedService)
+    {
+        _calendarFeedService = calendarFeedService;
+    }
+
+    /// <summary>
+    /// The iCalendar feed calendar apps subscribe to. The token in the URL is the only
+    /// credential (calendar apps can't send auth headers).
+    /// </summary>
+    [HttpGet("{token}.ics")]
+    public async Task<IActionResult> GetFeed(string token)
+    {
+        var calendar = await _calendarFeedService.BuildFeedAsync(token);
+        if (calendar == null)
+        {
+            return NotFound(new { message = "Calendar feed not found" });
+        }
+
+        return Content(calendar, "text/calendar; charset=utf-8");
+    }
+}
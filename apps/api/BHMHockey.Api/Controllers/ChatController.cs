@@ -0,0 +1,183 @@
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+
+namespace BHMHockey.Api.Controllers;
+
+[ApiController]
+[Route("api")]
+[Authorize]
+public class ChatController : ControllerBase
+{
+    private readonly IChatService _chatService;
+
+    public ChatController(IChatService chatService)
+    {
+        _chatService = chatService;
+    }
+
+    private Guid GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value
+            ?? User.FindFirst("sub")?.Value;
+
+        if (userIdClaim == null || !Guid.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("User ID not found in token");
+        }
+
+        return userId;
+    }
+
+    #region Threads
+
+    /// <summary>
+    /// Get a page of the event's chat, newest first (registered and waitlisted players, organizers)
+    /// </summary>
+    [HttpGet("events/{eventId:guid}/chat/messages")]
+    public Task<ActionResult<ChatMessagePageDto>> GetEventMessages(
+        Guid eventId,
+        [FromQuery] string? before,
+        [FromQuery] int? limit)
+        => GetMessages("Event", eventId, before, limit);
+
+    /// <summary>
+    /// Post to the event's chat
+    /// </summary>
+    [HttpPost("events/{eventId:guid}/chat/messages")]
+    public Task<ActionResult<ChatMessageDto>> SendEventMessage(Guid eventId, [FromBody] SendChatMessageRequest request)
+        => SendMessage("Event", eventId, request);
+
+    /// <summary>
+    /// Get a page of the organization's chat, newest first (members and admins)
+    /// </summary>
+    [HttpGet("organizations/{organizationId:guid}/chat/messages")]
+    public Task<ActionResult<ChatMessagePageDto>> GetOrganizationMessages(
+        Guid organizationId,
+        [FromQuery] string? before,
+        [FromQuery] int? limit)
+        => GetMessages("Organization", organizationId, before, limit);
+
+    /// <summary>
+    /// Post to the organization's chat
+    /// </summary>
+    [HttpPost("organizations/{organizationId:guid}/chat/messages")]
+    public Task<ActionResult<ChatMessageDto>> SendOrganizationMessage(
+        Guid organizationId,
+        [FromBody] SendChatMessageRequest request)
+        => SendMessage("Organization", organizationId, request);
+
+    private async Task<ActionResult<ChatMessagePageDto>> GetMessages(string threadType, Guid threadId, string? before, int? limit)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var page = await _chatService.GetMessagesAsync(threadType, threadId, userId, before, limit);
+            if (page == null)
+            {
+                return NotFound(new { message = $"{threadType} not found" });
+            }
+
+            return Ok(page);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    private async Task<ActionResult<ChatMessageDto>> SendMessage(string threadType, Guid threadId, SendChatMessageRequest request)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var message = await _chatService.SendMessageAsync(threadType, threadId, request, userId);
+            if (message == null)
+            {
+                return NotFound(new { message = $"{threadType} not found" });
+            }
+
+            return Ok(message);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    #endregion
+
+    #region Messages
+
+    /// <summary>
+    /// Pin a message to the top of its thread (organizers only)
+    /// </summary>
+    [HttpPost("chat/messages/{messageId:guid}/pin")]
+    public Task<ActionResult<ChatMessageDto>> PinMessage(Guid messageId)
+        => SetPinned(messageId, true);
+
+    /// <summary>
+    /// Unpin a message (organizers only)
+    /// </summary>
+    [HttpDelete("chat/messages/{messageId:guid}/pin")]
+    public Task<ActionResult<ChatMessageDto>> UnpinMessage(Guid messageId)
+        => SetPinned(messageId, false);
+
+    /// <summary>
+    /// Delete a message (its sender or an organizer)
+    /// </summary>
+    [HttpDelete("chat/messages/{messageId:guid}")]
+    public async Task<IActionResult> DeleteMessage(Guid messageId)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var success = await _chatService.DeleteMessageAsync(messageId, userId);
+            if (!success)
+            {
+                return NotFound(new { message = "Message not found" });
+            }
+
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+    }
+
+    private async Task<ActionResult<ChatMessageDto>> SetPinned(Guid messageId, bool isPinned)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var message = await _chatService.SetPinnedAsync(messageId, isPinned, userId);
+            if (message == null)
+            {
+                return NotFound(new { message = "Message not found" });
+            }
+
+            return Ok(message);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+    }
+
+    #endregion
+}
@@ -0,0 +1,282 @@
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Exceptions;
+using BHMHockey.Api.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+
+namespace BHMHockey.Api.Controllers;
+
+[ApiController]
+[Route("api")]
+[Authorize]
+public class EventInvitationsController : ControllerBase
+{
+    private readonly IEventInvitationService _invitationService;
+
+    public EventInvitationsController(IEventInvitationService invitationService)
+    {
+        _invitationService = invitationService;
+    }
+
+    private Guid GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value
+            ?? User.FindFirst("sub")?.Value;
+
+        if (userIdClaim == null || !Guid.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("User ID not found in token");
+        }
+
+        return userId;
+    }
+
+    #region Invitations
+
+    /// <summary>
+    /// Invite players (organizer only). Sends each an invite push; on InviteOnly events
+    /// it also creates tracked invitations.
+    /// </summary>
+    [HttpPost("events/{eventId:guid}/invites")]
+    public async Task<IActionResult> InvitePlayers(Guid eventId, [FromBody] InvitePlayersRequest request)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var success = await _invitationService.InvitePlayersAsync(eventId, request.UserIds, userId);
+            if (!success)
+            {
+                return NotFound(new { message = "Event not found" });
+            }
+
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Invite every subscriber of the event's organization, optionally filtered by skill level (organizer only)
+    /// </summary>
+    [HttpPost("events/{eventId:guid}/invites/organization-members")]
+    public async Task<ActionResult<InviteOrganizationMembersResponse>> InviteOrganizationMembers(
+        Guid eventId,
+        [FromBody] InviteOrganizationMembersRequest? request)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var result = await _invitationService.InviteOrganizationMembersAsync(
+                eventId, request ?? new InviteOrganizationMembersRequest(), userId);
+            if (result == null)
+            {
+                return NotFound(new { message = "Event not found" });
+            }
+
+            return Ok(result);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Get the event's invitations with their status (organizer only)
+    /// </summary>
+    [HttpGet("events/{eventId:guid}/invites")]
+    public async Task<ActionResult<List<EventInvitationDto>>> GetInvitations(Guid eventId)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var invitations = await _invitationService.GetInvitationsAsync(eventId, userId);
+            if (invitations == null)
+            {
+                return NotFound(new { message = "Event not found" });
+            }
+
+            return Ok(invitations);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+    }
+
+    /// <summary>
+    /// Withdraw an invitation (organizer only). Players already registered keep their spot.
+    /// </summary>
+    [HttpDelete("events/{eventId:guid}/invites/{invitationId:guid}")]
+    public async Task<IActionResult> RevokeInvitation(Guid eventId, Guid invitationId)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var success = await _invitationService.RevokeInvitationAsync(eventId, invitationId, userId);
+            if (!success)
+            {
+                return NotFound(new { message = "Invitation not found" });
+            }
+
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+    }
+
+    /// <summary>
+    /// Decline the current user's invitation. Registering is how an invitation is accepted.
+    /// </summary>
+    [HttpPost("events/{eventId:guid}/invites/decline")]
+    public async Task<IActionResult> DeclineInvitation(Guid eventId)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var success = await _invitationService.DeclineInvitationAsync(eventId, userId);
+            if (!success)
+            {
+                return NotFound(new { message = "Invitation not found" });
+            }
+
+            return NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    #endregion
+
+    #region Invite Links
+
+    /// <summary>
+    /// Get the event's invite links, including expired and revoked ones (organizer only)
+    /// </summary>
+    [HttpGet("events/{eventId:guid}/invite-links")]
+    public async Task<ActionResult<List<EventInviteLinkDto>>> GetInviteLinks(Guid eventId)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var links = await _invitationService.GetInviteLinksAsync(eventId, userId);
+            if (links == null)
+            {
+                return NotFound(new { message = "Event not found" });
+            }
+
+            return Ok(links);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+    }
+
+    /// <summary>
+    /// Create a shareable invite link (organizer only)
+    /// </summary>
+    [HttpPost("events/{eventId:guid}/invite-links")]
+    public async Task<ActionResult<EventInviteLinkDto>> CreateInviteLink(
+        Guid eventId,
+        [FromBody] CreateEventInviteLinkRequest? request)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var link = await _invitationService.CreateInviteLinkAsync(
+                eventId, request ?? new CreateEventInviteLinkRequest(), userId);
+            if (link == null)
+            {
+                return NotFound(new { message = "Event not found" });
+            }
+
+            return Ok(link);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Revoke an invite link (organizer only). Invitations it already created stay.
+    /// </summary>
+    [HttpDelete("events/{eventId:guid}/invite-links/{linkId:guid}")]
+    public async Task<IActionResult> RevokeInviteLink(Guid eventId, Guid linkId)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var success = await _invitationService.RevokeInviteLinkAsync(eventId, linkId, userId);
+            if (!success)
+            {
+                return NotFound(new { message = "Invite link not found" });
+            }
+
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException)
+        {
+            return Forbid();
+        }
+    }
+
+    /// <summary>
+    /// Open an invite link as the current user - creates their invitation and returns the event.
+    /// 410 for expired links, 404 for revoked or unknown ones.
+    /// </summary>
+    [HttpPost("invite-links/{token}/redeem")]
+    public async Task<ActionResult<EventDto>> RedeemInviteLink(string token)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var evt = await _invitationService.RedeemInviteLinkAsync(token, userId);
+            if (evt == null)
+            {
+                return NotFound(new { message = "Invite link not found" });
+            }
+
+            return Ok(evt);
+        }
+        catch (InviteLinkExpiredException ex)
+        {
+            return StatusCode(StatusCodes.Status410Gone, new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    #endregion
+}
@@ -123,8 +123,34 @@ public class EventsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Create a recurring series of games. Requires authentication and Organizer/Admin role.
+    /// </summary>
+    [Authorize]
+    [HttpPost("series")]
+    public async Task<ActionResult<EventSeriesDto>> CreateSeries([FromBody] CreateEventSeriesRequest request)
+    {
+        if (GetCurrentUserRole() == "Player")
+        {
+            return Forbid();
+        }
+
+        var userId = GetCurrentUserId();
+        try
+        {
+            var seriesDto = await _eventService.CreateSeriesAsync(request, userId);
+            return Ok(seriesDto);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning("Event series creation rejected for user {UserId}: {Message}", userId, ex.Message);
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Update an event. Only the creator can update.
+    /// Set ApplyTo = "ThisAndFuture" to also update later games in the event's series.
     /// </summary>
     [Authorize]
     [HttpPut("{id:guid}")]
@@ -230,12 +256,21 @@ public class EventsController : ControllerBase
         if (evt == null)
             return NotFound();
 
-        // Organizers and published events: full roster
-        if (evt.CanManage || evt.IsRosterPublished)
+        // Organizers: full roster including attendance and reliability
+        if (evt.CanManage)
         {
             return Ok(await _eventService.GetRegistrationsAsync(id));
         }
 
+        // Published events: full roster, attendance and check-in records stay organizer-only
+        if (evt.IsRosterPublished)
+        {
+            var registrations = await _eventService.GetRegistrationsAsync(id);
+            return Ok(registrations
+                .Select(r => r with { AttendanceStatus = null, Reliability = null, CheckedInAt = null, CheckInToken = null })
+                .ToList());
+        }
+
         // Pre-publish waitlist visibility: when enabled, viewers registered or waitlisted on the
         // event see the ordered waitlist (names + positions, no payment info). Roster names stay hidden.
         if (evt.ShowWaitlistBeforePublish && (evt.IsRegistered || evt.AmIWaitlisted))
@@ -313,6 +348,58 @@ public class EventsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Accept the current user's open waitlist offer ('Offer' promotion mode).
+    /// Moves them onto the roster; on paid events the payment deadline starts now.
+    /// </summary>
+    [Authorize]
+    [HttpPost("{eventId:guid}/waitlist-offer/accept")]
+    public async Task<IActionResult> AcceptWaitlistOffer(Guid eventId)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var success = await _waitlistService.AcceptOfferAsync(eventId, userId);
+            if (!success)
+            {
+                return NotFound(new { message = "Waitlist registration not found" });
+            }
+
+            return NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Decline the current user's open waitlist offer. The spot cascades to the next
+    /// player in line and the user keeps their waitlist spot.
+    /// </summary>
+    [Authorize]
+    [HttpPost("{eventId:guid}/waitlist-offer/decline")]
+    public async Task<IActionResult> DeclineWaitlistOffer(Guid eventId)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var success = await _waitlistService.DeclineOfferAsync(eventId, userId);
+            if (!success)
+            {
+                return NotFound(new { message = "Waitlist registration not found" });
+            }
+
+            return NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     #endregion
 
     #region Payment
@@ -390,16 +477,17 @@ public class EventsController : ControllerBase
 
     /// <summary>
     /// Remove a registration (organizer only). Works for both registered and waitlisted users.
+    /// lateCancel records the removal of a rostered player as a late cancellation.
     /// </summary>
     [Authorize]
     [HttpDelete("{eventId:guid}/registrations/{registrationId:guid}")]
-    public async Task<IActionResult> RemoveRegistration(Guid eventId, Guid registrationId)
+    public async Task<IActionResult> RemoveRegistration(Guid eventId, Guid registrationId, [FromQuery] bool lateCancel = false)
     {
         var userId = GetCurrentUserId();
 
         try
         {
-            var success = await _eventService.RemoveRegistrationAsync(eventId, registrationId, userId);
+            var success = await _eventService.RemoveRegistrationAsync(eventId, registrationId, userId, lateCancel);
 
             if (!success)
             {
@@ -684,5 +772,95 @@ public class EventsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Record attendance for rostered players once the game has started (organizer only).
+    /// Only the registrations included are changed; a null status clears the record.
+    /// </summary>
+    [Authorize]
+    [HttpPut("{eventId:guid}/attendance")]
+    public async Task<IActionResult> UpdateAttendance(
+        Guid eventId,
+        [FromBody] UpdateAttendanceRequest request)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var success = await _eventService.UpdateAttendanceAsync(eventId, request.Items, userId);
+
+            if (!success)
+            {
+                return NotFound(new { message = "Event not found or you are not the organizer." });
+            }
+
+            return Ok(new { message = "Attendance updated successfully" });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    #endregion
+
+    #region Rink Check-In
+
+    /// <summary>
+    /// Get the current user's check-in pass for an event (rostered players only).
+    /// </summary>
+    [Authorize]
+    [HttpGet("{eventId:guid}/check-in/pass")]
+    public async Task<ActionResult<CheckInPassDto>> GetCheckInPass(Guid eventId)
+    {
+        var userId = GetCurrentUserId();
+        var pass = await _eventService.GetCheckInPassAsync(eventId, userId);
+
+        if (pass == null)
+        {
+            return NotFound(new { message = "You are not on the roster for this event." });
+        }
+
+        return Ok(pass);
+    }
+
+    /// <summary>
+    /// Check players in from scanned passes (organizer only).
+    /// Accepts a batch so scans made offline sync in one call; checked-in rostered players are marked Present.
+    /// </summary>
+    [Authorize]
+    [HttpPost("{eventId:guid}/check-ins")]
+    public async Task<ActionResult<CheckInResultDto>> CheckIn(
+        Guid eventId,
+        [FromBody] CheckInRequest request)
+    {
+        var userId = GetCurrentUserId();
+        var result = await _eventService.CheckInAsync(eventId, request.Items, userId);
+
+        if (result == null)
+        {
+            return NotFound(new { message = "Event not found or you are not the organizer." });
+        }
+
+        return Ok(result);
+    }
+
+    /// <summary>
+    /// Undo a check-in (organizer only).
+    /// </summary>
+    [Authorize]
+    [HttpDelete("{eventId:guid}/check-ins/{registrationId:guid}")]
+    public async Task<IActionResult> UndoCheckIn(Guid eventId, Guid registrationId)
+    {
+        var userId = GetCurrentUserId();
+        var success = await _eventService.UndoCheckInAsync(eventId, registrationId, userId);
+
+        if (!success)
+        {
+            return NotFound(new { message = "Check-in not found, or you are not the organizer." });
+        }
+
+        return Ok(new { message = "Check-in removed successfully" });
+    }
+
     #endregion
 }
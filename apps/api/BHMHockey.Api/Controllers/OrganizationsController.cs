@@ -14,6 +14,8 @@ public class OrganizationsController : ControllerBase
     private readonly IOrganizationAdminService _adminService;
     private readonly IOrganizationAutoRosterService _autoRosterService;
     private readonly IOrganizationWaiverService _waiverService;
+    private readonly IEventService _eventService;
+    private readonly IOrganizationAnnouncementService _announcementService;
     private readonly ILogger<OrganizationsController> _logger;
 
     public OrganizationsController(
@@ -21,12 +23,16 @@ public class OrganizationsController : ControllerBase
         IOrganizationAdminService adminService,
         IOrganizationAutoRosterService autoRosterService,
         IOrganizationWaiverService waiverService,
+        IEventService eventService,
+        IOrganizationAnnouncementService announcementService,
         ILogger<OrganizationsController> logger)
     {
         _organizationService = organizationService;
         _adminService = adminService;
         _autoRosterService = autoRosterService;
         _waiverService = waiverService;
+        _eventService = eventService;
+        _announcementService = announcementService;
         _logger = logger;
     }
 
@@ -226,6 +232,35 @@ public class OrganizationsController : ControllerBase
         return NoContent();
     }
 
+    /// <summary>
+    /// Get a member's past pickup games with this organization, for reliability checks.
+    /// Only admins can access; the summary covers this organization only.
+    /// </summary>
+    [HttpGet("{id:guid}/members/{memberUserId:guid}/games")]
+    [Authorize]
+    public async Task<ActionResult<GameHistoryResponse>> GetMemberGames(
+        Guid id,
+        Guid memberUserId,
+        [FromQuery] int offset = 0,
+        [FromQuery] int limit = 20)
+    {
+        var userId = GetCurrentUserId();
+        if (!await _adminService.IsUserAdminAsync(id, userId))
+        {
+            return Forbid();
+        }
+
+        try
+        {
+            var history = await _eventService.GetGameHistoryAsync(memberUserId, userId, id, offset, limit);
+            return Ok(history);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Leave an organization: unsubscribe AND cancel upcoming registrations in the
     /// org's events (waitlist promotions fire as usual). Requires authentication.
@@ -494,4 +529,98 @@ public class OrganizationsController : ControllerBase
             return BadRequest(new { message = ex.Message });
         }
     }
+
+    // Announcement endpoints - admin posts pushed to subscribers, admins, the auto-roster or one game's players
+
+    /// <summary>
+    /// Get the organization's announcements, newest first. Results are filtered by the user's visibility.
+    /// </summary>
+    [HttpGet("{id:guid}/announcements")]
+    public async Task<ActionResult<List<OrganizationAnnouncementDto>>> GetAnnouncements(Guid id)
+    {
+        var userId = GetCurrentUserIdOrNull();
+        var announcements = await _announcementService.GetAnnouncementsAsync(id, userId);
+        return Ok(announcements);
+    }
+
+    /// <summary>
+    /// Post an announcement and push it to the target audience. Only admins can post.
+    /// </summary>
+    [HttpPost("{id:guid}/announcements")]
+    [Authorize]
+    public async Task<ActionResult<OrganizationAnnouncementDto>> CreateAnnouncement(Guid id, [FromBody] CreateOrganizationAnnouncementRequest request)
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var announcement = await _announcementService.CreateAnnouncementAsync(id, request, userId);
+            return CreatedAtAction(nameof(GetAnnouncements), new { id }, announcement);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            _logger.LogWarning("Create announcement denied for organization {OrganizationId}: requester is not an admin", id);
+            return Forbid();
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning("Create announcement rejected for organization {OrganizationId}: {Message}", id, ex.Message);
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Edit an announcement's title or body. No new push is sent. Only admins can edit.
+    /// </summary>
+    [HttpPut("{id:guid}/announcements/{announcementId:guid}")]
+    [Authorize]
+    public async Task<ActionResult<OrganizationAnnouncementDto>> UpdateAnnouncement(Guid id, Guid announcementId, [FromBody] UpdateOrganizationAnnouncementRequest request)
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var announcement = await _announcementService.UpdateAnnouncementAsync(id, announcementId, request, userId);
+
+            if (announcement == null)
+            {
+                return NotFound(new { message = "Announcement not found" });
+            }
+
+            return Ok(announcement);
+        }
+        catch (UnauthorizedAccessException)
+        {
+            _logger.LogWarning("Update announcement denied for organization {OrganizationId}: requester is not an admin", id);
+            return Forbid();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Delete an announcement. Only admins can delete.
+    /// </summary>
+    [HttpDelete("{id:guid}/announcements/{announcementId:guid}")]
+    [Authorize]
+    public async Task<IActionResult> DeleteAnnouncement(Guid id, Guid announcementId)
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var deleted = await _announcementService.DeleteAnnouncementAsync(id, announcementId, userId);
+
+            if (!deleted)
+            {
+                return NotFound(new { message = "Announcement not found" });
+            }
+
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException)
+        {
+            _logger.LogWarning("Delete announcement denied for organization {OrganizationId}: requester is not an admin", id);
+            return Forbid();
+        }
+    }
 }
@@ -0,0 +1,156 @@
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+
+namespace BHMHockey.Api.Controllers;
+
+[ApiController]
+[Route("api/registration-transfers")]
+[Authorize]
+public class RegistrationTransfersController : ControllerBase
+{
+    private readonly IRegistrationTransferService _transferService;
+
+    public RegistrationTransfersController(IRegistrationTransferService transferService)
+    {
+        _transferService = transferService;
+    }
+
+    private Guid GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value
+            ?? User.FindFirst("sub")?.Value;
+
+        if (userIdClaim == null || !Guid.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("User ID not found in token");
+        }
+
+        return userId;
+    }
+
+    /// <summary>
+    /// Get the current user's transfers, sent and received, including waitlist offers they can accept
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<List<RegistrationTransferDto>>> GetMyTransfers()
+    {
+        var userId = GetCurrentUserId();
+        return Ok(await _transferService.GetForUserAsync(userId));
+    }
+
+    /// <summary>
+    /// Search for players the current user can hand their event or tournament spot to
+    /// </summary>
+    [HttpGet("search-users")]
+    public async Task<ActionResult<List<UserSearchResultDto>>> SearchRecipients(
+        [FromQuery] Guid? eventId,
+        [FromQuery] Guid? tournamentId,
+        [FromQuery] string query)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var results = await _transferService.SearchRecipientsAsync(eventId, tournamentId, userId, query);
+            return Ok(results);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Offer the current user's spot to a player, or to the waitlist when toUserId is omitted
+    /// </summary>
+    [HttpPost]
+    public async Task<ActionResult<RegistrationTransferDto>> CreateTransfer([FromBody] CreateRegistrationTransferRequest request)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var transfer = await _transferService.CreateAsync(request, userId);
+            return Ok(transfer);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Accept a transfer - the registration moves to the current user with its team and roster slot
+    /// </summary>
+    [HttpPost("{id:guid}/accept")]
+    public async Task<ActionResult<RegistrationTransferDto>> AcceptTransfer(Guid id)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var transfer = await _transferService.AcceptAsync(id, userId);
+            if (transfer == null)
+            {
+                return NotFound(new { message = "Transfer not found" });
+            }
+
+            return Ok(transfer);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Decline a transfer offered to the current user
+    /// </summary>
+    [HttpPost("{id:guid}/decline")]
+    public async Task<IActionResult> DeclineTransfer(Guid id)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var success = await _transferService.DeclineAsync(id, userId);
+            if (!success)
+            {
+                return NotFound(new { message = "Transfer not found" });
+            }
+
+            return NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Cancel the current user's pending transfer - they keep their spot
+    /// </summary>
+    [HttpDelete("{id:guid}")]
+    public async Task<IActionResult> CancelTransfer(Guid id)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var success = await _transferService.CancelAsync(id, userId);
+            if (!success)
+            {
+                return NotFound(new { message = "Transfer not found" });
+            }
+
+            return NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+}
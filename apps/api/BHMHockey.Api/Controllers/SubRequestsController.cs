@@ -0,0 +1,120 @@
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using System.Security.Claims;
+
+namespace BHMHockey.Api.Controllers;
+
+[ApiController]
+[Route("api/sub-requests")]
+[Authorize]
+public class SubRequestsController : ControllerBase
+{
+    private readonly ISubRequestService _subRequestService;
+
+    public SubRequestsController(ISubRequestService subRequestService)
+    {
+        _subRequestService = subRequestService;
+    }
+
+    private Guid GetCurrentUserId()
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value
+            ?? User.FindFirst("sub")?.Value;
+
+        if (userIdClaim == null || !Guid.TryParse(userIdClaim, out var userId))
+        {
+            throw new UnauthorizedAccessException("User ID not found in token");
+        }
+
+        return userId;
+    }
+
+    /// <summary>
+    /// Get open sub requests the current user could fill (matched by position and skill)
+    /// </summary>
+    [HttpGet]
+    public async Task<ActionResult<List<SubRequestDto>>> GetOpenSubRequests()
+    {
+        var userId = GetCurrentUserId();
+        return Ok(await _subRequestService.GetOpenForUserAsync(userId));
+    }
+
+    /// <summary>
+    /// Get the current user's own sub requests, open and filled
+    /// </summary>
+    [HttpGet("mine")]
+    public async Task<ActionResult<List<SubRequestDto>>> GetMySubRequests()
+    {
+        var userId = GetCurrentUserId();
+        return Ok(await _subRequestService.GetMineAsync(userId));
+    }
+
+    /// <summary>
+    /// Post a sub request for the current user's event registration or tournament team spot
+    /// </summary>
+    [HttpPost]
+    public async Task<ActionResult<SubRequestDto>> CreateSubRequest([FromBody] CreateSubRequestRequest request)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var subRequest = await _subRequestService.CreateAsync(request, userId);
+            return Ok(subRequest);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Accept a sub request - the first to accept takes over the spot
+    /// </summary>
+    [HttpPost("{id:guid}/accept")]
+    public async Task<ActionResult<AcceptSubRequestResponse>> AcceptSubRequest(Guid id)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var result = await _subRequestService.AcceptAsync(id, userId);
+            if (result == null)
+            {
+                return NotFound(new { message = "Sub request not found" });
+            }
+
+            return Ok(result);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Cancel the current user's open sub request
+    /// </summary>
+    [HttpDelete("{id:guid}")]
+    public async Task<IActionResult> CancelSubRequest(Guid id)
+    {
+        var userId = GetCurrentUserId();
+
+        try
+        {
+            var success = await _subRequestService.CancelAsync(id, userId);
+            if (!success)
+            {
+                return NotFound(new { message = "Sub request not found" });
+            }
+
+            return NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+}
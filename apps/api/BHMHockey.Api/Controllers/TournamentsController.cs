@@ -24,6 +24,8 @@ public class TournamentsController : ControllerBase
     private readonly ITournamentAdminService _adminService;
     private readonly ITournamentAuditService _auditService;
     private readonly ITournamentAnnouncementService _announcementService;
+    private readonly IGameSheetService _gameSheetService;
+    private readonly ILiveMatchHub _liveMatchHub;
     private readonly AppDbContext _context;
 
     public TournamentsController(
@@ -39,6 +41,8 @@ public class TournamentsController : ControllerBase
         ITournamentAdminService adminService,
         ITournamentAuditService auditService,
         ITournamentAnnouncementService announcementService,
+        IGameSheetService gameSheetService,
+        ILiveMatchHub liveMatchHub,
         AppDbContext context)
     {
         _tournamentService = tournamentService;
@@ -54,6 +58,8 @@ public class TournamentsController : ControllerBase
         _adminService = adminService;
         _auditService = auditService;
         _announcementService = announcementService;
+        _gameSheetService = gameSheetService;
+        _liveMatchHub = liveMatchHub;
     }
 
     private Guid? GetCurrentUserIdOrNull()
@@ -84,6 +90,17 @@ public class TournamentsController : ControllerBase
         return userId.Value;
     }
 
+    private Task PublishLiveMatchEventAsync(string type, TournamentMatchDto match)
+    {
+        return _liveMatchHub.PublishAsync(new LiveMatchEventDto
+        {
+            Type = type,
+            TournamentId = match.TournamentId,
+            MatchId = match.Id,
+            Match = match
+        });
+    }
+
     /// <summary>
     /// Get all public tournaments (Open, InProgress, Completed statuses).
     /// </summary>
@@ -915,6 +932,7 @@ public class TournamentsController : ControllerBase
         {
             var userId = GetCurrentUserId();
             var match = await _matchService.EnterScoreAsync(id, matchId, request, userId);
+            await PublishLiveMatchEventAsync("MatchUpdated", match);
             return Ok(match);
         }
         catch (InvalidOperationException ex)
@@ -956,6 +974,7 @@ public class TournamentsController : ControllerBase
         {
             var userId = GetCurrentUserId();
             var match = await _matchService.ForfeitMatchAsync(id, matchId, request, userId);
+            await PublishLiveMatchEventAsync("MatchUpdated", match);
             return Ok(match);
         }
         catch (InvalidOperationException ex)
@@ -968,6 +987,181 @@ public class TournamentsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Get the game sheet (goals, penalties and goalies) for a match.
+    /// </summary>
+    /// <param name="id">Tournament ID</param>
+    /// <param name="matchId">Match ID</param>
+    /// <response code="200">Returns the game sheet (empty if nothing recorded yet)</response>
+    /// <response code="404">Match not found</response>
+    [HttpGet("{id:guid}/matches/{matchId:guid}/gamesheet")]
+    [ProducesResponseType(typeof(GameSheetDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<GameSheetDto>> GetGameSheet(Guid id, Guid matchId)
+    {
+        var sheet = await _gameSheetService.GetAsync(id, matchId);
+
+        if (sheet == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(sheet);
+    }
+
+    /// <summary>
+    /// Replace the game sheet for a match. Requires authentication and tournament admin role.
+    /// </summary>
+    /// <remarks>
+    /// Every player must be on the accepted roster of the team they are recorded for.
+    /// Team penalty minutes are recalculated for the FewestPenaltyMinutes tiebreaker.
+    /// When IsFinal is set, the match is completed with the score derived from the goals.
+    /// </remarks>
+    /// <param name="id">Tournament ID</param>
+    /// <param name="matchId">Match ID</param>
+    /// <param name="request">Full game sheet</param>
+    /// <response code="200">Game sheet saved successfully</response>
+    /// <response code="400">Invalid request (e.g., player not on the team's roster)</response>
+    /// <response code="401">Not authenticated</response>
+    /// <response code="403">Not authorized to manage this tournament</response>
+    [HttpPut("{id:guid}/matches/{matchId:guid}/gamesheet")]
+    [Authorize]
+    [ProducesResponseType(typeof(GameSheetDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    public async Task<ActionResult<GameSheetDto>> SaveGameSheet(Guid id, Guid matchId, [FromBody] SaveGameSheetRequest request)
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var sheet = await _gameSheetService.SaveAsync(id, matchId, request, userId);
+            var match = await _matchService.GetByIdAsync(id, matchId);
+            if (match != null)
+            {
+                await PublishLiveMatchEventAsync("GameSheetUpdated", match);
+            }
+            return Ok(sheet);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Start, stop or reset a match's live period clock. Requires authentication and tournament admin role
+    /// (including Scorekeeper).
+    /// </summary>
+    /// <remarks>
+    /// Starting the clock on a Scheduled match moves it to InProgress. Viewers on the live channel
+    /// receive the updated match.
+    /// </remarks>
+    /// <param name="id">Tournament ID</param>
+    /// <param name="matchId">Match ID</param>
+    /// <param name="request">Period, period length, elapsed seconds and whether the clock is running</param>
+    /// <response code="200">Clock updated successfully</response>
+    /// <response code="400">Invalid request (e.g., match already completed)</response>
+    /// <response code="401">Not authenticated</response>
+    /// <response code="403">Not authorized to manage this tournament</response>
+    [HttpPut("{id:guid}/matches/{matchId:guid}/clock")]
+    [Authorize]
+    [ProducesResponseType(typeof(TournamentMatchDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    public async Task<ActionResult<TournamentMatchDto>> UpdateMatchClock(Guid id, Guid matchId, [FromBody] UpdateMatchClockRequest request)
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var match = await _matchService.UpdateClockAsync(id, matchId, request, userId);
+            await PublishLiveMatchEventAsync("MatchUpdated", match);
+            return Ok(match);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Publish a generated schedule. Requires authentication and tournament admin role.
+    /// </summary>
+    /// <remarks>
+    /// Sets each listed match's rink (venue), start time and home/away. Only matches that haven't
+    /// started can be scheduled; matches not in the request keep their current slot.
+    /// </remarks>
+    /// <param name="id">Tournament ID</param>
+    /// <param name="request">Reviewed schedule slots</param>
+    /// <response code="200">Returns all matches with the published schedule</response>
+    /// <response code="400">Invalid request (e.g., match already played)</response>
+    /// <response code="401">Not authenticated</response>
+    /// <response code="403">Not authorized to manage this tournament</response>
+    [HttpPut("{id:guid}/schedule")]
+    [Authorize]
+    [ProducesResponseType(typeof(List<TournamentMatchDto>), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status401Unauthorized)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    public async Task<ActionResult<List<TournamentMatchDto>>> PublishSchedule(Guid id, [FromBody] PublishScheduleRequest request)
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var matches = await _matchService.PublishScheduleAsync(id, request, userId);
+            return Ok(matches);
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Live match channel (WebSocket). Pushes a LiveMatchEvent whenever a match's clock, score
+    /// or game sheet changes.
+    /// </summary>
+    /// <remarks>
+    /// Open with a WebSocket request. The token may be passed as ?access_token= since not every
+    /// platform can set headers on the handshake; the channel is public like the match list.
+    /// </remarks>
+    /// <param name="id">Tournament ID</param>
+    /// <response code="400">Not a WebSocket request</response>
+    /// <response code="404">Tournament not found</response>
+    [HttpGet("{id:guid}/live")]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> LiveMatches(Guid id)
+    {
+        if (!HttpContext.WebSockets.IsWebSocketRequest)
+        {
+            return BadRequest(new { message = "Expected a WebSocket request" });
+        }
+
+        var tournamentExists = await _context.Tournaments.AnyAsync(t => t.Id == id);
+        if (!tournamentExists)
+        {
+            return NotFound();
+        }
+
+        using var socket = await HttpContext.WebSockets.AcceptWebSocketAsync();
+        await _liveMatchHub.ListenAsync(id, socket, HttpContext.RequestAborted);
+        return new EmptyResult();
+    }
+
     #endregion
 
     #region Bracket Generation
@@ -1051,6 +1245,31 @@ public class TournamentsController : ControllerBase
         return Ok(standings);
     }
 
+    /// <summary>
+    /// Get player stats for a tournament, summed from match game sheets.
+    /// </summary>
+    /// <remarks>
+    /// Skaters have goals, assists, points and penalty minutes; goalies of record have
+    /// goals against, shots against and saves. Games played counts matches with a game sheet.
+    /// </remarks>
+    /// <param name="id">Tournament ID</param>
+    /// <response code="200">Returns player stats</response>
+    /// <response code="404">Tournament not found</response>
+    [HttpGet("{id:guid}/player-stats")]
+    [ProducesResponseType(typeof(TournamentPlayerStatsDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<TournamentPlayerStatsDto>> GetPlayerStats(Guid id)
+    {
+        var stats = await _gameSheetService.GetPlayerStatsAsync(id);
+
+        if (stats == null)
+        {
+            return NotFound();
+        }
+
+        return Ok(stats);
+    }
+
     /// <summary>
     /// Manually resolve tied standings by setting final placements. Requires tournament admin role.
     /// </summary>
@@ -18,6 +18,8 @@ public class UsersController : ControllerBase
     private readonly ITournamentTeamMemberService _tournamentTeamMemberService;
     private readonly ITournamentService _tournamentService;
     private readonly IOrganizationWaiverService _waiverService;
+    private readonly ICalendarFeedService _calendarFeedService;
+    private readonly INotificationPreferenceService _notificationPreferenceService;
     private readonly ILogger<UsersController> _logger;
 
     public UsersController(
@@ -28,6 +30,8 @@ public class UsersController : ControllerBase
         ITournamentTeamMemberService tournamentTeamMemberService,
         ITournamentService tournamentService,
         IOrganizationWaiverService waiverService,
+        ICalendarFeedService calendarFeedService,
+        INotificationPreferenceService notificationPreferenceService,
         ILogger<UsersController> logger)
     {
         _userService = userService;
@@ -37,6 +41,8 @@ public class UsersController : ControllerBase
         _tournamentTeamMemberService = tournamentTeamMemberService;
         _tournamentService = tournamentService;
         _waiverService = waiverService;
+        _calendarFeedService = calendarFeedService;
+        _notificationPreferenceService = notificationPreferenceService;
         _logger = logger;
     }
 
@@ -142,6 +148,171 @@ public class UsersController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Gets the current user's past pickup games (newest first).
+    /// The summary covers the whole history, not just this page.
+    /// </summary>
+    /// <param name="offset">Number of games to skip</param>
+    /// <param name="limit">Page size (1-100)</param>
+    [HttpGet("me/games")]
+    public async Task<ActionResult<GameHistoryResponse>> GetMyGames([FromQuery] int offset = 0, [FromQuery] int limit = 20)
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var history = await _eventService.GetGameHistoryAsync(userId, userId, null, offset, limit);
+            return Ok(history);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Gets the current user's availability (weekly and one-off slots)
+    /// </summary>
+    [HttpGet("me/availability")]
+    public async Task<ActionResult<List<AvailabilitySlotDto>>> GetMyAvailability()
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var slots = await _userService.GetAvailabilityAsync(userId);
+            return Ok(slots);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Replaces the current user's availability. Org admins see it when filling games.
+    /// </summary>
+    /// <returns>The saved slots</returns>
+    [HttpPut("me/availability")]
+    public async Task<ActionResult<List<AvailabilitySlotDto>>> UpdateMyAvailability([FromBody] UpdateAvailabilityRequest request)
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var slots = await _userService.ReplaceAvailabilityAsync(userId, request);
+            return Ok(slots);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Gets the current user's personal calendar feed (iCalendar subscription URL).
+    /// The feed lists rostered games and scheduled tournament matches.
+    /// </summary>
+    [HttpGet("me/calendar-feed")]
+    public async Task<ActionResult<CalendarFeedDto>> GetMyCalendarFeed()
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var feed = await _calendarFeedService.GetFeedAsync(userId);
+            if (feed == null)
+            {
+                return NotFound(new { message = "User not found" });
+            }
+
+            return Ok(feed);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Issues a new calendar feed URL. Calendars subscribed to the old one stop updating.
+    /// </summary>
+    [HttpPost("me/calendar-feed/reset")]
+    public async Task<ActionResult<CalendarFeedDto>> ResetMyCalendarFeed()
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var feed = await _calendarFeedService.ResetFeedAsync(userId);
+            if (feed == null)
+            {
+                return NotFound(new { message = "User not found" });
+            }
+
+            return Ok(feed);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Gets the current user's notification preferences: per-organization and per-tournament
+    /// mutes, quiet hours and the game reminder lead time
+    /// </summary>
+    [HttpGet("me/notification-preferences")]
+    public async Task<ActionResult<NotificationPreferencesDto>> GetMyNotificationPreferences()
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var preferences = await _notificationPreferenceService.GetAsync(userId);
+            if (preferences == null)
+            {
+                return NotFound(new { message = "User not found" });
+            }
+
+            return Ok(preferences);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Replaces the current user's notification preferences
+    /// </summary>
+    [HttpPut("me/notification-preferences")]
+    public async Task<ActionResult<NotificationPreferencesDto>> UpdateMyNotificationPreferences(
+        [FromBody] UpdateNotificationPreferencesRequest request)
+    {
+        try
+        {
+            var userId = GetCurrentUserId();
+            var preferences = await _notificationPreferenceService.UpdateAsync(userId, request);
+            if (preferences == null)
+            {
+                return NotFound(new { message = "User not found" });
+            }
+
+            return Ok(preferences);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return Unauthorized(new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     [HttpGet("me/organizations")]
     public async Task<ActionResult<List<OrganizationDto>>> GetMyOrganizations()
     {
@@ -0,0 +1,56 @@
+using BHMHockey.Api.Services;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+namespace BHMHockey.Api.Controllers;
+
+[ApiController]
+[Route(".well-known")]
+[AllowAnonymous]
+public class WellKnownController : ControllerBase
+{
+    private readonly IConfiguration _configuration;
+    private readonly ILogger<WellKnownController> _logger;
+
+    public WellKnownController(IConfiguration configuration, ILogger<WellKnownController> logger)
+    {
+        _configuration = configuration;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Universal links association for the iOS app. Needs AppLinks:AppleTeamId.
+    /// </summary>
+    [HttpGet("apple-app-site-association")]
+    public IActionResult GetAppleAppSiteAssociation()
+    {
+        var teamId = _configuration["AppLinks:AppleTeamId"];
+        if (string.IsNullOrWhiteSpace(teamId))
+        {
+            _logger.LogWarning("AppLinks:AppleTeamId is not configured; universal links are disabled");
+            return NotFound();
+        }
+
+        var bundleId = _configuration["AppLinks:IosBundleId"] ?? AppLinks.DefaultAppId;
+        return Content(AppLinks.BuildAppleAppSiteAssociation(teamId.Trim(), bundleId), "application/json");
+    }
+
+    /// <summary>
+    /// App links association for the Android app. Needs AppLinks:AndroidSha256CertFingerprints
+    /// (comma-separated signing certificate fingerprints).
+    /// </summary>
+    [HttpGet("assetlinks.json")]
+    public IActionResult GetAssetLinks()
+    {
+        var fingerprints = _configuration["AppLinks:AndroidSha256CertFingerprints"]?
+            .Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries);
+        if (fingerprints == null || fingerprints.Length == 0)
+        {
+            _logger.LogWarning("AppLinks:AndroidSha256CertFingerprints is not configured; app links are disabled");
+            return NotFound();
+        }
+
+        var packageName = _configuration["AppLinks:AndroidPackage"] ?? AppLinks.DefaultAppId;
+        return Content(AppLinks.BuildAssetLinks(packageName, fingerprints), "application/json");
+    }
+}
@@ -18,13 +18,23 @@ public class AppDbContext : DbContext
     public DbSet<OrganizationSubscription> OrganizationSubscriptions { get; set; }
     public DbSet<OrganizationAdmin> OrganizationAdmins { get; set; }
     public DbSet<OrganizationAutoRosterMember> OrganizationAutoRosterMembers { get; set; }
+    public DbSet<OrganizationAnnouncement> OrganizationAnnouncements { get; set; }
+    public DbSet<ChatMessage> ChatMessages { get; set; }
     public DbSet<OrganizationWaiver> OrganizationWaivers { get; set; }
     public DbSet<WaiverAcceptance> WaiverAcceptances { get; set; }
     public DbSet<Event> Events { get; set; }
+    public DbSet<EventSeries> EventSeries { get; set; }
     public DbSet<EventRegistration> EventRegistrations { get; set; }
+    public DbSet<EventInvitation> EventInvitations { get; set; }
+    public DbSet<EventInviteLink> EventInviteLinks { get; set; }
     public DbSet<Notification> Notifications { get; set; }
     public DbSet<BadgeType> BadgeTypes { get; set; }
     public DbSet<UserBadge> UserBadges { get; set; }
+    public DbSet<BadgeRule> BadgeRules { get; set; }
+    public DbSet<SubRequest> SubRequests { get; set; }
+    public DbSet<RegistrationTransfer> RegistrationTransfers { get; set; }
+    public DbSet<UserAvailabilitySlot> UserAvailabilitySlots { get; set; }
+    public DbSet<TournamentNotificationPreference> TournamentNotificationPreferences { get; set; }
     public DbSet<Tournament> Tournaments { get; set; }
     public DbSet<TournamentAdmin> TournamentAdmins { get; set; }
     public DbSet<TournamentAuditLog> TournamentAuditLogs { get; set; }
@@ -33,6 +43,9 @@ public class AppDbContext : DbContext
     public DbSet<TournamentMatch> TournamentMatches { get; set; }
     public DbSet<TournamentRegistration> TournamentRegistrations { get; set; }
     public DbSet<TournamentAnnouncement> TournamentAnnouncements { get; set; }
+    public DbSet<MatchGoal> MatchGoals { get; set; }
+    public DbSet<MatchPenalty> MatchPenalties { get; set; }
+    public DbSet<MatchGoalie> MatchGoalies { get; set; }
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -50,6 +63,11 @@ public class AppDbContext : DbContext
             entity.Property(e => e.FirstName).IsRequired().HasMaxLength(100);
             entity.Property(e => e.LastName).IsRequired().HasMaxLength(100);
             entity.Property(e => e.Role).HasMaxLength(50).HasDefaultValue("Player");
+            entity.Property(e => e.CalendarFeedToken).HasMaxLength(64);
+            entity.HasIndex(e => e.CalendarFeedToken).IsUnique();
+            entity.Property(e => e.QuietHoursStart).HasMaxLength(5);
+            entity.Property(e => e.QuietHoursEnd).HasMaxLength(5);
+            entity.Property(e => e.QuietHoursTimeZone).HasMaxLength(64);
 
             // Store Positions as JSONB for multi-position support
             if (isInMemory)
@@ -121,6 +139,27 @@ public class AppDbContext : DbContext
                 .WithMany()
                 .HasForeignKey(e => e.UserId)
                 .OnDelete(DeleteBehavior.Cascade);
+
+            // Muted notification types as a JSONB array
+            if (isInMemory)
+            {
+                var listConverter = new ValueConverter<List<string>?, string?>(
+                    v => v == null ? null : JsonSerializer.Serialize(v, (JsonSerializerOptions?)null),
+                    v => v == null ? null : JsonSerializer.Deserialize<List<string>>(v, (JsonSerializerOptions?)null)
+                );
+                var listComparer = new ValueComparer<List<string>?>(
+                    (c1, c2) => c1 != null && c2 != null ? c1.SequenceEqual(c2) : c1 == c2,
+                    c => c == null ? 0 : c.Aggregate(0, (a, v) => HashCode.Combine(a, v.GetHashCode())),
+                    c => c == null ? null : new List<string>(c)
+                );
+                entity.Property(e => e.DisabledNotificationTypes)
+                    .HasConversion(listConverter)
+                    .Metadata.SetValueComparer(listComparer);
+            }
+            else
+            {
+                entity.Property(e => e.DisabledNotificationTypes).HasColumnType("jsonb");
+            }
         });
 
         // OrganizationAdmin configuration
@@ -224,6 +263,11 @@ public class AppDbContext : DbContext
                 .WithMany()
                 .HasForeignKey(e => e.CreatorId)
                 .OnDelete(DeleteBehavior.Restrict);
+            // Deleting a series leaves its games as one-off events
+            entity.HasOne(e => e.Series)
+                .WithMany(s => s.Events)
+                .HasForeignKey(e => e.SeriesId)
+                .OnDelete(DeleteBehavior.SetNull);
 
             // Store SkillLevels as JSONB array for multi-skill level support
             if (isInMemory)
@@ -262,12 +306,37 @@ public class AppDbContext : DbContext
             }
         });
 
+        // EventSeries configuration
+        modelBuilder.Entity<EventSeries>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Recurrence).IsRequired();
+            entity.HasIndex(e => e.OrganizationId);
+
+            entity.HasOne(e => e.Organization)
+                .WithMany()
+                .HasForeignKey(e => e.OrganizationId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Creator)
+                .WithMany()
+                .HasForeignKey(e => e.CreatorId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            if (!isInMemory)
+            {
+                entity.Property(e => e.Recurrence).HasColumnType("jsonb");
+            }
+        });
+
         // EventRegistration configuration
         modelBuilder.Entity<EventRegistration>(entity =>
         {
             entity.HasKey(e => e.Id);
             entity.HasIndex(e => new { e.EventId, e.UserId }).IsUnique();
             entity.Property(e => e.Status).HasMaxLength(50).HasDefaultValue("Registered");
+            entity.Property(e => e.AttendanceStatus).HasMaxLength(20);
+            entity.Property(e => e.CheckInToken).HasMaxLength(32);
             entity.HasOne(e => e.Event)
                 .WithMany(ev => ev.Registrations)
                 .HasForeignKey(e => e.EventId)
@@ -367,6 +436,208 @@ public class AppDbContext : DbContext
             }
         });
 
+        // BadgeRule configuration
+        modelBuilder.Entity<BadgeRule>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Trigger).IsRequired().HasMaxLength(50);
+
+            // Index for finding active rules by trigger
+            entity.HasIndex(e => new { e.Trigger, e.IsActive });
+
+            entity.HasOne(e => e.BadgeType)
+                .WithMany()
+                .HasForeignKey(e => e.BadgeTypeId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
+        // SubRequest configuration
+        modelBuilder.Entity<SubRequest>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Position).IsRequired().HasMaxLength(20);
+            entity.Property(e => e.Note).HasMaxLength(500);
+            entity.Property(e => e.Status).IsRequired().HasMaxLength(20);
+
+            // Index for the open-request marketplace
+            entity.HasIndex(e => e.Status);
+
+            entity.HasOne(e => e.Requester)
+                .WithMany()
+                .HasForeignKey(e => e.RequesterId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Event)
+                .WithMany()
+                .HasForeignKey(e => e.EventId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.EventRegistration)
+                .WithMany()
+                .HasForeignKey(e => e.EventRegistrationId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.TournamentTeam)
+                .WithMany()
+                .HasForeignKey(e => e.TournamentTeamId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.AcceptedByUser)
+                .WithMany()
+                .HasForeignKey(e => e.AcceptedByUserId)
+                .OnDelete(DeleteBehavior.SetNull);
+        });
+
+        // RegistrationTransfer configuration
+        modelBuilder.Entity<RegistrationTransfer>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Status).IsRequired().HasMaxLength(20);
+
+            // Index for pending waitlist offers
+            entity.HasIndex(e => e.Status);
+
+            entity.HasOne(e => e.FromUser)
+                .WithMany()
+                .HasForeignKey(e => e.FromUserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.ToUser)
+                .WithMany()
+                .HasForeignKey(e => e.ToUserId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.Event)
+                .WithMany()
+                .HasForeignKey(e => e.EventId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.EventRegistration)
+                .WithMany()
+                .HasForeignKey(e => e.EventRegistrationId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.Tournament)
+                .WithMany()
+                .HasForeignKey(e => e.TournamentId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.TournamentRegistration)
+                .WithMany()
+                .HasForeignKey(e => e.TournamentRegistrationId)
+                .OnDelete(DeleteBehavior.SetNull);
+        });
+
+        // EventInvitation configuration
+        modelBuilder.Entity<EventInvitation>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Source).IsRequired().HasMaxLength(30);
+            entity.Property(e => e.Status).IsRequired().HasMaxLength(20);
+
+            // One invitation per player per event
+            entity.HasIndex(e => new { e.EventId, e.UserId }).IsUnique();
+
+            entity.HasOne(e => e.Event)
+                .WithMany(ev => ev.Invitations)
+                .HasForeignKey(e => e.EventId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.User)
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.InvitedByUser)
+                .WithMany()
+                .HasForeignKey(e => e.InvitedByUserId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.InviteLink)
+                .WithMany()
+                .HasForeignKey(e => e.InviteLinkId)
+                .OnDelete(DeleteBehavior.SetNull);
+        });
+
+        // EventInviteLink configuration
+        modelBuilder.Entity<EventInviteLink>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Token).IsRequired().HasMaxLength(64);
+
+            // Redeem looks links up by token
+            entity.HasIndex(e => e.Token).IsUnique();
+
+            entity.HasOne(e => e.Event)
+                .WithMany()
+                .HasForeignKey(e => e.EventId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.CreatedByUser)
+                .WithMany()
+                .HasForeignKey(e => e.CreatedByUserId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
+        // TournamentNotificationPreference configuration
+        modelBuilder.Entity<TournamentNotificationPreference>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            // One row per player per tournament
+            entity.HasIndex(e => new { e.UserId, e.TournamentId }).IsUnique();
+
+            entity.HasOne(e => e.User)
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Tournament)
+                .WithMany()
+                .HasForeignKey(e => e.TournamentId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Muted notification types as a JSONB array
+            if (isInMemory)
+            {
+                var listConverter = new ValueConverter<List<string>, string>(
+                    v => JsonSerializer.Serialize(v, (JsonSerializerOptions?)null),
+                    v => JsonSerializer.Deserialize<List<string>>(v, (JsonSerializerOptions?)null) ?? new List<string>()
+                );
+                var listComparer = new ValueComparer<List<string>>(
+                    (c1, c2) => c1!.SequenceEqual(c2!),
+                    c => c.Aggregate(0, (a, v) => HashCode.Combine(a, v.GetHashCode())),
+                    c => new List<string>(c)
+                );
+                entity.Property(e => e.DisabledNotificationTypes)
+                    .HasConversion(listConverter)
+                    .Metadata.SetValueComparer(listComparer);
+            }
+            else
+            {
+                entity.Property(e => e.DisabledNotificationTypes).HasColumnType("jsonb");
+            }
+        });
+
+        // UserAvailabilitySlot configuration
+        modelBuilder.Entity<UserAvailabilitySlot>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Kind).IsRequired().HasMaxLength(20);
+            entity.Property(e => e.Date).HasMaxLength(10);
+            entity.Property(e => e.StartTime).IsRequired().HasMaxLength(5);
+            entity.Property(e => e.EndTime).IsRequired().HasMaxLength(5);
+            entity.Property(e => e.Position).HasMaxLength(20);
+
+            // Index for loading a user's slots (and batch loads for org member lists)
+            entity.HasIndex(e => e.UserId);
+
+            entity.HasOne(e => e.User)
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+
         // Tournament configuration
         modelBuilder.Entity<Tournament>(entity =>
         {
@@ -532,6 +803,11 @@ public class AppDbContext : DbContext
                 .WithMany()
                 .HasForeignKey(e => e.LoserNextMatchId)
                 .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.GameSheetUpdatedBy)
+                .WithMany()
+                .HasForeignKey(e => e.GameSheetUpdatedByUserId)
+                .OnDelete(DeleteBehavior.SetNull);
         });
 
         // TournamentRegistration configuration
@@ -599,6 +875,80 @@ public class AppDbContext : DbContext
             entity.HasIndex(e => e.UserId);
         });
 
+        // OrganizationAnnouncement configuration
+        modelBuilder.Entity<OrganizationAnnouncement>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Title).IsRequired().HasMaxLength(255);
+            entity.Property(e => e.Body).IsRequired();
+            entity.Property(e => e.Target).IsRequired().HasMaxLength(50);
+
+            // Index for the organization feed, newest first
+            entity.HasIndex(e => new { e.OrganizationId, e.CreatedAt });
+
+            entity.HasOne(e => e.Organization)
+                .WithMany(o => o.Announcements)
+                .HasForeignKey(e => e.OrganizationId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.TargetEvent)
+                .WithMany()
+                .HasForeignKey(e => e.TargetEventId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.CreatedByUser)
+                .WithMany()
+                .HasForeignKey(e => e.CreatedByUserId)
+                .OnDelete(DeleteBehavior.Restrict);
+        });
+
+        // ChatMessage configuration - event and organization chat threads
+        modelBuilder.Entity<ChatMessage>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Body).IsRequired().HasMaxLength(1000);
+
+            // Indexes for paging a thread, newest first
+            entity.HasIndex(e => new { e.EventId, e.CreatedAt });
+            entity.HasIndex(e => new { e.OrganizationId, e.CreatedAt });
+
+            entity.HasOne(e => e.Event)
+                .WithMany()
+                .HasForeignKey(e => e.EventId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Organization)
+                .WithMany()
+                .HasForeignKey(e => e.OrganizationId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.SenderUser)
+                .WithMany()
+                .HasForeignKey(e => e.SenderUserId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            // Mentioned user IDs as a JSONB array
+            if (isInMemory)
+            {
+                var listConverter = new ValueConverter<List<Guid>, string>(
+                    v => JsonSerializer.Serialize(v, (JsonSerializerOptions?)null),
+                    v => JsonSerializer.Deserialize<List<Guid>>(v, (JsonSerializerOptions?)null) ?? new List<Guid>()
+                );
+                var listComparer = new ValueComparer<List<Guid>>(
+                    (c1, c2) => c1!.SequenceEqual(c2!),
+                    c => c.Aggregate(0, (a, v) => HashCode.Combine(a, v.GetHashCode())),
+                    c => new List<Guid>(c)
+                );
+                entity.Property(e => e.MentionedUserIds)
+                    .HasConversion(listConverter)
+                    .Metadata.SetValueComparer(listComparer);
+            }
+            else
+            {
+                entity.Property(e => e.MentionedUserIds).HasColumnType("jsonb");
+            }
+        });
+
         // TournamentAnnouncement configuration
         modelBuilder.Entity<TournamentAnnouncement>(entity =>
         {
@@ -629,5 +979,93 @@ public class AppDbContext : DbContext
                 entity.Property(e => e.TargetTeamIds).HasColumnType("jsonb");
             }
         });
+
+        // MatchGoal configuration - game sheet goals
+        modelBuilder.Entity<MatchGoal>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Time).IsRequired().HasMaxLength(5);
+
+            // Index for loading a match's game sheet
+            entity.HasIndex(e => e.MatchId);
+
+            entity.HasOne(e => e.Match)
+                .WithMany()
+                .HasForeignKey(e => e.MatchId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Team)
+                .WithMany()
+                .HasForeignKey(e => e.TeamId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Scorer)
+                .WithMany()
+                .HasForeignKey(e => e.ScorerUserId)
+                .OnDelete(DeleteBehavior.Restrict);
+
+            entity.HasOne(e => e.PrimaryAssist)
+                .WithMany()
+                .HasForeignKey(e => e.PrimaryAssistUserId)
+                .OnDelete(DeleteBehavior.SetNull);
+
+            entity.HasOne(e => e.SecondaryAssist)
+                .WithMany()
+                .HasForeignKey(e => e.SecondaryAssistUserId)
+                .OnDelete(DeleteBehavior.SetNull);
+        });
+
+        // MatchPenalty configuration - game sheet penalties
+        modelBuilder.Entity<MatchPenalty>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Infraction).IsRequired().HasMaxLength(100);
+            entity.Property(e => e.Time).IsRequired().HasMaxLength(5);
+
+            // Index for loading a match's game sheet
+            entity.HasIndex(e => e.MatchId);
+
+            // Index for summing a team's penalty minutes
+            entity.HasIndex(e => e.TeamId);
+
+            entity.HasOne(e => e.Match)
+                .WithMany()
+                .HasForeignKey(e => e.MatchId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Team)
+                .WithMany()
+                .HasForeignKey(e => e.TeamId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Player)
+                .WithMany()
+                .HasForeignKey(e => e.PlayerUserId)
+                .OnDelete(DeleteBehavior.Restrict);
+        });
+
+        // MatchGoalie configuration - goalie of record per team
+        modelBuilder.Entity<MatchGoalie>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            // Unique constraint: one goalie of record per team per match
+            entity.HasIndex(e => new { e.MatchId, e.TeamId }).IsUnique();
+
+            entity.HasOne(e => e.Match)
+                .WithMany()
+                .HasForeignKey(e => e.MatchId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.Team)
+                .WithMany()
+                .HasForeignKey(e => e.TeamId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasOne(e => e.User)
+                .WithMany()
+                .HasForeignKey(e => e.UserId)
+                .OnDelete(DeleteBehavior.Restrict);
+        });
     }
 }
@@ -0,0 +1,244 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BHMHockey.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddMatchGameSheets : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "GameSheetUpdatedAt",
+                table: "TournamentMatches",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<Guid>(
+                name: "GameSheetUpdatedByUserId",
+                table: "TournamentMatches",
+                type: "uuid",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "MatchGoalies",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    MatchId = table.Column<Guid>(type: "uuid", nullable: false),
+                    TeamId = table.Column<Guid>(type: "uuid", nullable: false),
+                    UserId = table.Column<Guid>(type: "uuid", nullable: false),
+                    ShotsAgainst = table.Column<int>(type: "integer", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_MatchGoalies", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_MatchGoalies_TournamentMatches_MatchId",
+                        column: x => x.MatchId,
+                        principalTable: "TournamentMatches",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_MatchGoalies_TournamentTeams_TeamId",
+                        column: x => x.TeamId,
+                        principalTable: "TournamentTeams",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_MatchGoalies_Users_UserId",
+                        column: x => x.UserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "MatchGoals",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    MatchId = table.Column<Guid>(type: "uuid", nullable: false),
+                    TeamId = table.Column<Guid>(type: "uuid", nullable: false),
+                    ScorerUserId = table.Column<Guid>(type: "uuid", nullable: false),
+                    PrimaryAssistUserId = table.Column<Guid>(type: "uuid", nullable: true),
+                    SecondaryAssistUserId = table.Column<Guid>(type: "uuid", nullable: true),
+                    Period = table.Column<int>(type: "integer", nullable: false),
+                    Time = table.Column<string>(type: "character varying(5)", maxLength: 5, nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_MatchGoals", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_MatchGoals_TournamentMatches_MatchId",
+                        column: x => x.MatchId,
+                        principalTable: "TournamentMatches",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_MatchGoals_TournamentTeams_TeamId",
+                        column: x => x.TeamId,
+                        principalTable: "TournamentTeams",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_MatchGoals_Users_PrimaryAssistUserId",
+                        column: x => x.PrimaryAssistUserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                    table.ForeignKey(
+                        name: "FK_MatchGoals_Users_ScorerUserId",
+                        column: x => x.ScorerUserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                    table.ForeignKey(
+                        name: "FK_MatchGoals_Users_SecondaryAssistUserId",
+                        column: x => x.SecondaryAssistUserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                });
+
+            migrationBuilder.CreateTable(
+                name: "MatchPenalties",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    MatchId = table.Column<Guid>(type: "uuid", nullable: false),
+                    TeamId = table.Column<Guid>(type: "uuid", nullable: false),
+                    PlayerUserId = table.Column<Guid>(type: "uuid", nullable: false),
+                    Infraction = table.Column<string>(type: "character varying(100)", maxLength: 100, nullable: false),
+                    Minutes = table.Column<int>(type: "integer", nullable: false),
+                    Period = table.Column<int>(type: "integer", nullable: false),
+                    Time = table.Column<string>(type: "character varying(5)", maxLength: 5, nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_MatchPenalties", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_MatchPenalties_TournamentMatches_MatchId",
+                        column: x => x.MatchId,
+                        principalTable: "TournamentMatches",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_MatchPenalties_TournamentTeams_TeamId",
+                        column: x => x.TeamId,
+                        principalTable: "TournamentTeams",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_MatchPenalties_Users_PlayerUserId",
+                        column: x => x.PlayerUserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Restrict);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_TournamentMatches_GameSheetUpdatedByUserId",
+                table: "TournamentMatches",
+                column: "GameSheetUpdatedByUserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MatchGoalies_MatchId_TeamId",
+                table: "MatchGoalies",
+                columns: new[] { "MatchId", "TeamId" },
+                unique: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MatchGoalies_TeamId",
+                table: "MatchGoalies",
+                column: "TeamId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MatchGoalies_UserId",
+                table: "MatchGoalies",
+                column: "UserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MatchGoals_MatchId",
+                table: "MatchGoals",
+                column: "MatchId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MatchGoals_PrimaryAssistUserId",
+                table: "MatchGoals",
+                column: "PrimaryAssistUserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MatchGoals_ScorerUserId",
+                table: "MatchGoals",
+                column: "ScorerUserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MatchGoals_SecondaryAssistUserId",
+                table: "MatchGoals",
+                column: "SecondaryAssistUserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MatchGoals_TeamId",
+                table: "MatchGoals",
+                column: "TeamId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MatchPenalties_MatchId",
+                table: "MatchPenalties",
+                column: "MatchId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MatchPenalties_PlayerUserId",
+                table: "MatchPenalties",
+                column: "PlayerUserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_MatchPenalties_TeamId",
+                table: "MatchPenalties",
+                column: "TeamId");
+
+            migrationBuilder.AddForeignKey(
+                name: "FK_TournamentMatches_Users_GameSheetUpdatedByUserId",
+                table: "TournamentMatches",
+                column: "GameSheetUpdatedByUserId",
+                principalTable: "Users",
+                principalColumn: "Id",
+                onDelete: ReferentialAction.SetNull);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropForeignKey(
+                name: "FK_TournamentMatches_Users_GameSheetUpdatedByUserId",
+                table: "TournamentMatches");
+
+            migrationBuilder.DropTable(
+                name: "MatchGoalies");
+
+            migrationBuilder.DropTable(
+                name: "MatchGoals");
+
+            migrationBuilder.DropTable(
+                name: "MatchPenalties");
+
+            migrationBuilder.DropIndex(
+                name: "IX_TournamentMatches_GameSheetUpdatedByUserId",
+                table: "TournamentMatches");
+
+            migrationBuilder.DropColumn(
+                name: "GameSheetUpdatedAt",
+                table: "TournamentMatches");
+
+            migrationBuilder.DropColumn(
+                name: "GameSheetUpdatedByUserId",
+                table: "TournamentMatches");
+        }
+    }
+}
@@ -0,0 +1,71 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BHMHockey.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddMatchLiveClock : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "ClockElapsedSeconds",
+                table: "TournamentMatches",
+                type: "integer",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "ClockIsRunning",
+                table: "TournamentMatches",
+                type: "boolean",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<int>(
+                name: "ClockPeriod",
+                table: "TournamentMatches",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "ClockPeriodLengthMinutes",
+                table: "TournamentMatches",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "ClockStartedAt",
+                table: "TournamentMatches",
+                type: "timestamp with time zone",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "ClockElapsedSeconds",
+                table: "TournamentMatches");
+
+            migrationBuilder.DropColumn(
+                name: "ClockIsRunning",
+                table: "TournamentMatches");
+
+            migrationBuilder.DropColumn(
+                name: "ClockPeriod",
+                table: "TournamentMatches");
+
+            migrationBuilder.DropColumn(
+                name: "ClockPeriodLengthMinutes",
+                table: "TournamentMatches");
+
+            migrationBuilder.DropColumn(
+                name: "ClockStartedAt",
+                table: "TournamentMatches");
+        }
+    }
+}
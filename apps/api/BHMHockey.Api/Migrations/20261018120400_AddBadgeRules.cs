@@ -0,0 +1,54 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BHMHockey.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddBadgeRules : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "BadgeRules",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    BadgeTypeId = table.Column<Guid>(type: "uuid", nullable: false),
+                    Trigger = table.Column<string>(type: "character varying(50)", maxLength: 50, nullable: false),
+                    Threshold = table.Column<int>(type: "integer", nullable: false),
+                    IsActive = table.Column<bool>(type: "boolean", nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_BadgeRules", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_BadgeRules_BadgeTypes_BadgeTypeId",
+                        column: x => x.BadgeTypeId,
+                        principalTable: "BadgeTypes",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BadgeRules_BadgeTypeId",
+                table: "BadgeRules",
+                column: "BadgeTypeId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_BadgeRules_Trigger_IsActive",
+                table: "BadgeRules",
+                columns: new[] { "Trigger", "IsActive" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "BadgeRules");
+        }
+    }
+}
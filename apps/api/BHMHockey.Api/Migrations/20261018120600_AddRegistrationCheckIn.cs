@@ -0,0 +1,55 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BHMHockey.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddRegistrationCheckIn : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "CheckInToken",
+                table: "EventRegistrations",
+                type: "character varying(32)",
+                maxLength: 32,
+                nullable: true);
+
+            // Existing registrations get a pass token too
+            migrationBuilder.Sql(
+                "UPDATE \"EventRegistrations\" SET \"CheckInToken\" = md5(random()::text || \"Id\"::text);");
+
+            migrationBuilder.AlterColumn<string>(
+                name: "CheckInToken",
+                table: "EventRegistrations",
+                type: "character varying(32)",
+                maxLength: 32,
+                nullable: false,
+                oldClrType: typeof(string),
+                oldType: "character varying(32)",
+                oldMaxLength: 32,
+                oldNullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "CheckedInAt",
+                table: "EventRegistrations",
+                type: "timestamp with time zone",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CheckInToken",
+                table: "EventRegistrations");
+
+            migrationBuilder.DropColumn(
+                name: "CheckedInAt",
+                table: "EventRegistrations");
+        }
+    }
+}
@@ -0,0 +1,103 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BHMHockey.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSubRequests : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "SubRequests",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    RequesterId = table.Column<Guid>(type: "uuid", nullable: false),
+                    EventId = table.Column<Guid>(type: "uuid", nullable: true),
+                    EventRegistrationId = table.Column<Guid>(type: "uuid", nullable: true),
+                    TournamentTeamId = table.Column<Guid>(type: "uuid", nullable: true),
+                    Position = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    Note = table.Column<string>(type: "character varying(500)", maxLength: 500, nullable: true),
+                    Status = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    AcceptedByUserId = table.Column<Guid>(type: "uuid", nullable: true),
+                    FilledAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_SubRequests", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_SubRequests_EventRegistrations_EventRegistrationId",
+                        column: x => x.EventRegistrationId,
+                        principalTable: "EventRegistrations",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                    table.ForeignKey(
+                        name: "FK_SubRequests_Events_EventId",
+                        column: x => x.EventId,
+                        principalTable: "Events",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_SubRequests_TournamentTeams_TournamentTeamId",
+                        column: x => x.TournamentTeamId,
+                        principalTable: "TournamentTeams",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_SubRequests_Users_AcceptedByUserId",
+                        column: x => x.AcceptedByUserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                    table.ForeignKey(
+                        name: "FK_SubRequests_Users_RequesterId",
+                        column: x => x.RequesterId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SubRequests_AcceptedByUserId",
+                table: "SubRequests",
+                column: "AcceptedByUserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SubRequests_EventId",
+                table: "SubRequests",
+                column: "EventId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SubRequests_EventRegistrationId",
+                table: "SubRequests",
+                column: "EventRegistrationId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SubRequests_RequesterId",
+                table: "SubRequests",
+                column: "RequesterId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SubRequests_Status",
+                table: "SubRequests",
+                column: "Status");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_SubRequests_TournamentTeamId",
+                table: "SubRequests",
+                column: "TournamentTeamId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "SubRequests");
+        }
+    }
+}
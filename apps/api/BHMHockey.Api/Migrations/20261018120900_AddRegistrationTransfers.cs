@@ -0,0 +1,113 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BHMHockey.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddRegistrationTransfers : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "RegistrationTransfers",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    FromUserId = table.Column<Guid>(type: "uuid", nullable: false),
+                    ToUserId = table.Column<Guid>(type: "uuid", nullable: true),
+                    EventId = table.Column<Guid>(type: "uuid", nullable: true),
+                    EventRegistrationId = table.Column<Guid>(type: "uuid", nullable: true),
+                    TournamentId = table.Column<Guid>(type: "uuid", nullable: true),
+                    TournamentRegistrationId = table.Column<Guid>(type: "uuid", nullable: true),
+                    Status = table.Column<string>(type: "character varying(20)", maxLength: 20, nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                    RespondedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_RegistrationTransfers", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_RegistrationTransfers_EventRegistrations_EventRegistrationId",
+                        column: x => x.EventRegistrationId,
+                        principalTable: "EventRegistrations",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                    table.ForeignKey(
+                        name: "FK_RegistrationTransfers_Events_EventId",
+                        column: x => x.EventId,
+                        principalTable: "Events",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_RegistrationTransfers_TournamentRegistrations_TournamentRegistrationId",
+                        column: x => x.TournamentRegistrationId,
+                        principalTable: "TournamentRegistrations",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                    table.ForeignKey(
+                        name: "FK_RegistrationTransfers_Tournaments_TournamentId",
+                        column: x => x.TournamentId,
+                        principalTable: "Tournaments",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_RegistrationTransfers_Users_FromUserId",
+                        column: x => x.FromUserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_RegistrationTransfers_Users_ToUserId",
+                        column: x => x.ToUserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.SetNull);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_RegistrationTransfers_EventId",
+                table: "RegistrationTransfers",
+                column: "EventId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_RegistrationTransfers_EventRegistrationId",
+                table: "RegistrationTransfers",
+                column: "EventRegistrationId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_RegistrationTransfers_FromUserId",
+                table: "RegistrationTransfers",
+                column: "FromUserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_RegistrationTransfers_Status",
+                table: "RegistrationTransfers",
+                column: "Status");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_RegistrationTransfers_ToUserId",
+                table: "RegistrationTransfers",
+                column: "ToUserId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_RegistrationTransfers_TournamentId",
+                table: "RegistrationTransfers",
+                column: "TournamentId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_RegistrationTransfers_TournamentRegistrationId",
+                table: "RegistrationTransfers",
+                column: "TournamentRegistrationId");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "RegistrationTransfers");
+        }
+    }
+}
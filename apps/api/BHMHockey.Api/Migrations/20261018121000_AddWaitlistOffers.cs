@@ -0,0 +1,59 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BHMHockey.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddWaitlistOffers : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "OfferExpiresAt",
+                table: "EventRegistrations",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "OfferedAt",
+                table: "EventRegistrations",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "WaitlistOfferWindowMinutes",
+                table: "Organizations",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "WaitlistPromotionMode",
+                table: "Organizations",
+                type: "text",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "OfferExpiresAt",
+                table: "EventRegistrations");
+
+            migrationBuilder.DropColumn(
+                name: "OfferedAt",
+                table: "EventRegistrations");
+
+            migrationBuilder.DropColumn(
+                name: "WaitlistOfferWindowMinutes",
+                table: "Organizations");
+
+            migrationBuilder.DropColumn(
+                name: "WaitlistPromotionMode",
+                table: "Organizations");
+        }
+    }
+}
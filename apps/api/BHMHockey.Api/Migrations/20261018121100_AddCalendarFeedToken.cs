@@ -0,0 +1,50 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BHMHockey.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCalendarFeedToken : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<DateTime>(
+                name: "CalendarFeedCreatedAt",
+                table: "Users",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "CalendarFeedToken",
+                table: "Users",
+                type: "character varying(64)",
+                maxLength: 64,
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Users_CalendarFeedToken",
+                table: "Users",
+                column: "CalendarFeedToken",
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_Users_CalendarFeedToken",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "CalendarFeedCreatedAt",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "CalendarFeedToken",
+                table: "Users");
+        }
+    }
+}
@@ -0,0 +1,124 @@
+﻿using System;
+using System.Collections.Generic;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace BHMHockey.Api.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddNotificationPreferences : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "GameReminderHours",
+                table: "Users",
+                type: "integer",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "QuietHoursEnd",
+                table: "Users",
+                type: "character varying(5)",
+                maxLength: 5,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "QuietHoursStart",
+                table: "Users",
+                type: "character varying(5)",
+                maxLength: 5,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "QuietHoursTimeZone",
+                table: "Users",
+                type: "character varying(64)",
+                maxLength: 64,
+                nullable: true);
+
+            migrationBuilder.AddColumn<List<string>>(
+                name: "DisabledNotificationTypes",
+                table: "OrganizationSubscriptions",
+                type: "jsonb",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "ReminderSentAt",
+                table: "EventRegistrations",
+                type: "timestamp with time zone",
+                nullable: true);
+
+            migrationBuilder.CreateTable(
+                name: "TournamentNotificationPreferences",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uuid", nullable: false),
+                    UserId = table.Column<Guid>(type: "uuid", nullable: false),
+                    TournamentId = table.Column<Guid>(type: "uuid", nullable: false),
+                    DisabledNotificationTypes = table.Column<List<string>>(type: "jsonb", nullable: false),
+                    UpdatedAt = table.Column<DateTime>(type: "timestamp with time zone", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_TournamentNotificationPreferences", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_TournamentNotificationPreferences_Tournaments_TournamentId",
+                        column: x => x.TournamentId,
+                        principalTable: "Tournaments",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                    table.ForeignKey(
+                        name: "FK_TournamentNotificationPreferences_Users_UserId",
+                        column: x => x.UserId,
+                        principalTable: "Users",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_TournamentNotificationPreferences_TournamentId",
+                table: "TournamentNotificationPreferences",
+                column: "TournamentId");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_TournamentNotificationPreferences_UserId_TournamentId",
+                table: "TournamentNotificationPreferences",
+                columns: new[] { "UserId", "TournamentId" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "TournamentNotificationPreferences");
+
+            migrationBuilder.DropColumn(
+                name: "GameReminderHours",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "QuietHoursEnd",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "QuietHoursStart",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "QuietHoursTimeZone",
+                table: "Users");
+
+            migrationBuilder.DropColumn(
+                name: "DisabledNotificationTypes",
+                table: "OrganizationSubscriptions");
+
+            migrationBuilder.DropColumn(
+                name: "ReminderSentAt",
+                table: "EventRegistrations");
+        }
+    }
+}
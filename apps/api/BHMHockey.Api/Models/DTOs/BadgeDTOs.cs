@@ -40,3 +40,61 @@ public record UncelebratedBadgeDto(
     DateTime EarnedAt,
     int TotalAwarded
 );
+
+/// <summary>
+/// Request to create a badge type (app admins only)
+/// </summary>
+public record CreateBadgeTypeRequest(
+    string Code,
+    string Name,
+    string Description,
+    string IconName,
+    string Category,
+    int? SortPriority
+);
+
+/// <summary>
+/// Request to award a badge to a user (app admins only)
+/// </summary>
+public record AwardBadgeRequest(
+    Guid UserId,
+    Guid BadgeTypeId,
+    Dictionary<string, object>? Context,
+    DateTime? EarnedAt
+);
+
+/// <summary>
+/// DTO for an automatic badge rule
+/// </summary>
+public record BadgeRuleDto(
+    Guid Id,
+    BadgeTypeDto BadgeType,
+    string Trigger,
+    int Threshold,
+    bool IsActive,
+    DateTime CreatedAt
+);
+
+/// <summary>
+/// Request to create an automatic badge rule
+/// </summary>
+public record CreateBadgeRuleRequest(
+    Guid BadgeTypeId,
+    string Trigger,
+    int Threshold
+);
+
+/// <summary>
+/// Request to update a badge rule's threshold or active state
+/// </summary>
+public record UpdateBadgeRuleRequest(
+    int? Threshold,
+    bool? IsActive
+);
+
+/// <summary>
+/// Result of running a rule against existing players
+/// </summary>
+public record ApplyBadgeRuleResponse(
+    int AwardedCount
+);
@@ -0,0 +1,29 @@
+namespace BHMHockey.Api.Models.DTOs;
+
+public record ChatMessageDto(
+    Guid Id,
+    string ThreadType,          // "Event" | "Organization"
+    Guid ThreadId,              // Event ID or Organization ID
+    Guid SenderUserId,
+    string SenderFirstName,
+    string SenderLastName,
+    string Body,
+    List<Guid> MentionedUserIds,
+    bool IsPinned,
+    DateTime? PinnedAt,
+    DateTime CreatedAt
+);
+
+// One page of history, newest first. NextCursor is passed back as `before` to load
+// older messages; null when the start of the thread was reached.
+public record ChatMessagePageDto(
+    List<ChatMessageDto> Messages,
+    List<ChatMessageDto> PinnedMessages,  // Always the thread's full pinned set
+    string? NextCursor
+);
+
+// Mentioned users get a push notification
+public record SendChatMessageRequest(
+    string Body,
+    List<Guid>? MentionedUserIds = null
+);
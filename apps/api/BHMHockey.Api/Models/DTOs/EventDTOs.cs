@@ -45,7 +45,23 @@ public record EventDto(
     bool? MyWaitlistPaymentEligible = null,  // null when not applicable (not waitlisted or free event)
     // Waiver gate for the current user: org event + active waiver + not accepted
     // (same rule for everyone with a real account, including managers)
-    bool RequiresWaiverAcceptance = false
+    bool RequiresWaiverAcceptance = false,
+    // Event series (recurring games)
+    Guid? SeriesId = null,             // Set when the event was generated from a recurring series
+    // Late cancellation window in hours, resolved server-side (org setting or default)
+    int LateCancelWindowHours = 24,
+    // Current user's open sub request for their spot (null when none)
+    Guid? MySubRequestId = null,
+    // Current user's pending transfer of their spot (null when none)
+    Guid? MyTransferId = null,
+    // Waitlist promotion mode, resolved server-side (org setting or "Immediate")
+    string WaitlistPromotionMode = "Immediate",
+    // When the current user's open waitlist offer lapses (null when none)
+    DateTime? MyOfferExpiresAt = null,
+    // Current user's invitation to an InviteOnly event: Pending, Accepted, Declined (null when none)
+    string? MyInvitationStatus = null,
+    // In-app chat, from the event's organization (standalone events use the GroupMe link)
+    bool InAppChatEnabled = false
 );
 
 public record CreateEventRequest(
@@ -79,7 +95,48 @@ public record UpdateEventRequest(
     List<string>? SkillLevels,                     // Can change skill levels after creation
     Dictionary<int, string>? SlotPositionLabels,  // Slot position labels (e.g., {1: "C", 2: "LW"})
     string? GroupMeLink = null,                   // Empty/whitespace clears the override (falls back to org); null leaves unchanged
-    bool? ShowWaitlistBeforePublish = null        // null leaves unchanged
+    bool? ShowWaitlistBeforePublish = null,       // null leaves unchanged
+    string? ApplyTo = null                        // Series events only: "ThisEvent" (default) or "ThisAndFuture"
+);
+
+// Event series (recurring games)
+public record RecurrenceRuleDto(
+    string Frequency,                    // Weekly, BiWeekly, SpecificDates
+    string StartDate,                    // "YYYY-MM-DD" - first game (Weekly/BiWeekly)
+    string StartTime,                    // "HH:mm" local start time of every game
+    string? EndDate = null,              // "YYYY-MM-DD" inclusive - last possible game date
+    int? Occurrences = null,             // Number of games (used when EndDate is not set)
+    List<string>? SpecificDates = null,  // "YYYY-MM-DD" game dates (SpecificDates only)
+    List<string>? SkipDates = null,      // "YYYY-MM-DD" dates left out (rink closures, etc.)
+    bool? SkipHolidays = null            // Leave out US federal holidays
+);
+
+// Creates every game of a series in one request. EventDates are the dates the client
+// previewed from Recurrence; each game gets the shared event fields below.
+public record CreateEventSeriesRequest(
+    RecurrenceRuleDto Recurrence,
+    List<DateTime> EventDates,
+    int MaxPlayers,
+    decimal Cost,
+    Guid? OrganizationId = null,
+    string? Name = null,
+    string? Description = null,
+    int? Duration = null,
+    string? Venue = null,
+    DateTime? RegistrationDeadline = null,  // Relative to the first game; each game gets the same lead time
+    string? Visibility = "Public",
+    List<string>? SkillLevels = null,
+    bool ApplyAutoRoster = true,
+    string? GroupMeLink = null,
+    bool? ShowWaitlistBeforePublish = null
+);
+
+public record EventSeriesDto(
+    Guid Id,
+    Guid? OrganizationId,
+    RecurrenceRuleDto Recurrence,
+    List<EventDto> Events,               // Generated games, ordered by date
+    DateTime CreatedAt
 );
 
 public record EventRegistrationDto(
@@ -104,7 +161,60 @@ public record EventRegistrationDto(
     DateTime? PaymentDeadlineAt, // Deadline to pay after promotion
     bool IsWaitlisted,           // True if Status == "Waitlisted"
     // True ONLY when: org event + active waiver + real user (not ghost) + no current acceptance
-    bool HasNotAcceptedWaiver = false
+    bool HasNotAcceptedWaiver = false,
+    // Attendance (organizer views only)
+    string? AttendanceStatus = null,   // Present, NoShow, LateCancel, or null until attendance is taken
+    ReliabilityDto? Reliability = null,
+    // Rink check-in (organizer views only)
+    DateTime? CheckedInAt = null,
+    string? CheckInToken = null,       // Matches the player's pass so scans verify offline
+    // Waitlist offers ('Offer' promotion mode)
+    DateTime? OfferedAt = null,
+    DateTime? OfferExpiresAt = null    // When the open offer lapses and cascades to the next player
+);
+
+// A player's attendance record across all recorded games
+public record ReliabilityDto(
+    int GamesAttended,
+    int NoShows,
+    int LateCancels
+);
+
+// Attendance for one rostered registration; null clears it
+public record AttendanceItem(
+    Guid RegistrationId,
+    string? AttendanceStatus             // Present, NoShow, LateCancel, or null
+);
+
+public record UpdateAttendanceRequest(
+    List<AttendanceItem> Items
+);
+
+// A player's personal check-in pass, shown as a QR code at the rink
+public record CheckInPassDto(
+    Guid RegistrationId,
+    string Token
+);
+
+// One scan; CheckedInAt is when it was scanned, which may be before an offline sync
+public record CheckInItem(
+    Guid RegistrationId,
+    string Token,
+    DateTime CheckedInAt
+);
+
+public record CheckInRequest(
+    List<CheckInItem> Items
+);
+
+public record CheckInRejectionDto(
+    Guid RegistrationId,
+    string Reason
+);
+
+public record CheckInResultDto(
+    List<Guid> CheckedIn,
+    List<CheckInRejectionDto> Rejected
 );
 
 // Payment request DTOs (Phase 4)
@@ -208,3 +318,43 @@ public record UpdateGhostPlayerRequest(
     string Position,                      // "Goalie" or "Skater"
     string? SkillLevel = null             // Optional: "Gold", "Silver", "Bronze", "D-League"
 );
+
+// One past pickup game the user was rostered for
+public record GameHistoryItemDto(
+    Guid RegistrationId,
+    EventDto Event,
+    string? TeamAssignment,               // "Black" or "White"
+    string? RegisteredPosition,           // "Goalie" or "Skater"
+    string? PaymentStatus                 // Null for free games
+);
+
+public record GameHistoryMonthCount(
+    string Month,                         // "YYYY-MM" (UTC)
+    int Count
+);
+
+public record GameHistoryOrganizationCount(
+    Guid OrganizationId,
+    string OrganizationName,
+    int Count
+);
+
+// Totals across the whole history (not just the loaded page)
+public record GameHistorySummaryDto(
+    int TotalGames,
+    int BlackGames,
+    int WhiteGames,
+    int GoalieGames,
+    int SkaterGames,
+    int UnpaidGames,                                         // Paid games not yet Verified
+    List<GameHistoryMonthCount> GamesByMonth,                // Months with at least one game, oldest first
+    List<GameHistoryOrganizationCount> GamesByOrganization   // Standalone events are left out
+);
+
+// Paginated game history, newest first
+public record GameHistoryResponse(
+    List<GameHistoryItemDto> Games,
+    int TotalCount,
+    bool HasMore,
+    GameHistorySummaryDto Summary
+);
@@ -0,0 +1,43 @@
+namespace BHMHockey.Api.Models.DTOs;
+
+// Organizer invites specific players. On InviteOnly events this creates tracked
+// invitations; on other events it just sends the invite push.
+public record InvitePlayersRequest(
+    List<Guid> UserIds
+);
+
+public record EventInvitationDto(
+    Guid Id,
+    Guid EventId,
+    Guid UserId,
+    string FirstName,
+    string LastName,
+    string Status,                      // Pending, Accepted, Declined
+    string Source,                      // Direct, OrganizationMembers, Link
+    DateTime InvitedAt,
+    DateTime? RespondedAt
+);
+
+// Invite every subscriber of the event's organization, optionally only those at the given skill levels
+public record InviteOrganizationMembersRequest(
+    List<string>? SkillLevels = null
+);
+
+public record InviteOrganizationMembersResponse(
+    int InvitedCount                    // Members already invited or registered are skipped
+);
+
+public record EventInviteLinkDto(
+    Guid Id,
+    Guid EventId,
+    string Token,
+    string Url,                         // bhmhockey://invite/{token}
+    DateTime CreatedAt,
+    DateTime? ExpiresAt,                // Null = valid until the event starts
+    DateTime? RevokedAt,
+    int UseCount
+);
+
+public record CreateEventInviteLinkRequest(
+    int? ExpiresInHours = null          // Omit to keep the link valid until the event starts
+);
@@ -0,0 +1,152 @@
+namespace BHMHockey.Api.Models.DTOs;
+
+/// <summary>
+/// Goal on a game sheet (period 4+ is overtime)
+/// </summary>
+public record MatchGoalDto
+{
+    public required Guid Id { get; init; }
+    public required Guid TeamId { get; init; }
+    public required Guid ScorerUserId { get; init; }
+    public required string ScorerName { get; init; }
+    public Guid? PrimaryAssistUserId { get; init; }
+    public string? PrimaryAssistName { get; init; }
+    public Guid? SecondaryAssistUserId { get; init; }
+    public string? SecondaryAssistName { get; init; }
+    public required int Period { get; init; }
+    public required string Time { get; init; }
+}
+
+/// <summary>
+/// Penalty on a game sheet
+/// </summary>
+public record MatchPenaltyDto
+{
+    public required Guid Id { get; init; }
+    public required Guid TeamId { get; init; }
+    public required Guid PlayerUserId { get; init; }
+    public required string PlayerName { get; init; }
+    public required string Infraction { get; init; }
+    public required int Minutes { get; init; }
+    public required int Period { get; init; }
+    public required string Time { get; init; }
+}
+
+/// <summary>
+/// Goalie of record for one team
+/// </summary>
+public record MatchGoalieDto
+{
+    public required Guid TeamId { get; init; }
+    public required Guid UserId { get; init; }
+    public required string Name { get; init; }
+    public int? ShotsAgainst { get; init; }
+}
+
+/// <summary>
+/// Full game sheet for a match. The score is derived from the goals.
+/// </summary>
+public record GameSheetDto
+{
+    public required Guid MatchId { get; init; }
+    public required Guid TournamentId { get; init; }
+    public required List<MatchGoalDto> Goals { get; init; }
+    public required List<MatchPenaltyDto> Penalties { get; init; }
+    public required List<MatchGoalieDto> Goalies { get; init; }
+    public required int HomeScore { get; init; }
+    public required int AwayScore { get; init; }
+    public required bool IsFinal { get; init; }  // True once the match is completed
+    public DateTime? UpdatedAt { get; init; }
+    public string? UpdatedByName { get; init; }
+}
+
+/// <summary>
+/// Goal entry when saving a game sheet
+/// </summary>
+public record GameSheetGoalRequest
+{
+    public required Guid TeamId { get; init; }
+    public required Guid ScorerUserId { get; init; }
+    public Guid? PrimaryAssistUserId { get; init; }
+    public Guid? SecondaryAssistUserId { get; init; }
+    public required int Period { get; init; }
+    public required string Time { get; init; }  // "MM:SS" elapsed in the period
+}
+
+/// <summary>
+/// Penalty entry when saving a game sheet
+/// </summary>
+public record GameSheetPenaltyRequest
+{
+    public required Guid TeamId { get; init; }
+    public required Guid PlayerUserId { get; init; }
+    public required string Infraction { get; init; }
+    public required int Minutes { get; init; }
+    public required int Period { get; init; }
+    public required string Time { get; init; }  // "MM:SS" elapsed in the period
+}
+
+/// <summary>
+/// Goalie entry when saving a game sheet
+/// </summary>
+public record GameSheetGoalieRequest
+{
+    public required Guid TeamId { get; init; }
+    public required Guid UserId { get; init; }
+    public int? ShotsAgainst { get; init; }
+}
+
+/// <summary>
+/// Request DTO for replacing a match's game sheet.
+/// IsFinal completes the match with the score derived from the goals; a tied final sheet
+/// in an elimination format needs OvertimeWinnerId.
+/// </summary>
+public record SaveGameSheetRequest
+{
+    public List<GameSheetGoalRequest> Goals { get; init; } = new();
+    public List<GameSheetPenaltyRequest> Penalties { get; init; } = new();
+    public List<GameSheetGoalieRequest> Goalies { get; init; } = new();
+    public bool IsFinal { get; init; }
+    public Guid? OvertimeWinnerId { get; init; }
+}
+
+/// <summary>
+/// Scoring totals for one skater, summed from game sheets
+/// </summary>
+public record SkaterStatsDto
+{
+    public required Guid UserId { get; init; }
+    public required string Name { get; init; }
+    public required Guid TeamId { get; init; }
+    public required string TeamName { get; init; }
+    public required int GamesPlayed { get; init; }
+    public required int Goals { get; init; }
+    public required int Assists { get; init; }
+    public required int Points { get; init; }
+    public required int PenaltyMinutes { get; init; }
+}
+
+/// <summary>
+/// Totals for one goalie across the games they were goalie of record
+/// </summary>
+public record GoalieStatsDto
+{
+    public required Guid UserId { get; init; }
+    public required string Name { get; init; }
+    public required Guid TeamId { get; init; }
+    public required string TeamName { get; init; }
+    public required int GamesPlayed { get; init; }
+    public required int GoalsAgainst { get; init; }
+    public required int ShotsAgainst { get; init; }  // Only from games where shots were recorded
+    public required int Saves { get; init; }
+}
+
+/// <summary>
+/// Player leaderboard for a tournament
+/// </summary>
+public record TournamentPlayerStatsDto
+{
+    public required Guid TournamentId { get; init; }
+    public required List<SkaterStatsDto> Skaters { get; init; }
+    public required List<GoalieStatsDto> Goalies { get; init; }
+}
@@ -0,0 +1,31 @@
+namespace BHMHockey.Api.Models.DTOs;
+
+// Response DTO - includes creator details
+public record OrganizationAnnouncementDto(
+    Guid Id,
+    Guid OrganizationId,
+    string Title,
+    string Body,
+    string Target,            // "All", "Admins", "AutoRoster", "EventRegistrants"
+    Guid? TargetEventId,      // Set when Target is EventRegistrants
+    string? TargetEventName,
+    Guid CreatedByUserId,
+    string CreatedByFirstName,
+    string CreatedByLastName,
+    DateTime CreatedAt,
+    DateTime? UpdatedAt
+);
+
+// Create request - sends a push to the target audience
+public record CreateOrganizationAnnouncementRequest(
+    string Title,
+    string Body,
+    string Target,
+    Guid? TargetEventId = null  // Required when Target is EventRegistrants
+);
+
+// Update request - edits the post in place; no new push is sent
+public record UpdateOrganizationAnnouncementRequest(
+    string? Title,
+    string? Body
+);
@@ -19,7 +19,11 @@ public record OrganizationDto(
     string? DefaultVenue,
     string? DefaultVisibility,
     string? GroupMeLink = null,  // Org-wide GroupMe chat link (events fall back to this)
-    bool? DefaultShowWaitlistBeforePublish = null  // Pre-fills ShowWaitlistBeforePublish on new events
+    bool? DefaultShowWaitlistBeforePublish = null,  // Pre-fills ShowWaitlistBeforePublish on new events
+    int? LateCancelWindowHours = null,  // null = PlayerReliability.DefaultLateCancelWindowHours
+    string? WaitlistPromotionMode = null,  // "Immediate" | "Offer" (null = Immediate)
+    int? WaitlistOfferWindowMinutes = null,  // null = WaitlistOffers.DefaultWindowMinutes
+    bool InAppChatEnabled = false  // Off = the GroupMe link is the chat
 );
 
 // Member/subscriber info - visible to all subscribers
@@ -34,7 +38,9 @@ public record OrganizationMemberDto(
     bool IsAdmin,  // True if this member is an admin of the organization
     List<UserBadgeDto>? Badges = null,  // Top 3 badges by displayOrder
     int TotalBadgeCount = 0,  // Total badges user has earned
-    bool? HasAcceptedCurrentWaiver = null  // null when the org has no active waiver
+    bool? HasAcceptedCurrentWaiver = null,  // null when the org has no active waiver
+    ReliabilityDto? Reliability = null,  // Only populated for admin viewers
+    List<AvailabilitySlotDto>? Availability = null  // Only populated for admin viewers
 );
 
 public record CreateOrganizationRequest(
@@ -50,7 +56,11 @@ public record CreateOrganizationRequest(
     string? DefaultVenue,
     string? DefaultVisibility,
     string? GroupMeLink = null,  // Org-wide GroupMe chat link
-    bool? DefaultShowWaitlistBeforePublish = null
+    bool? DefaultShowWaitlistBeforePublish = null,
+    int? LateCancelWindowHours = null,
+    string? WaitlistPromotionMode = null,
+    int? WaitlistOfferWindowMinutes = null,
+    bool? InAppChatEnabled = null
 );
 
 public record UpdateOrganizationRequest(
@@ -66,7 +76,11 @@ public record UpdateOrganizationRequest(
     string? DefaultVenue,
     string? DefaultVisibility,
     string? GroupMeLink = null,  // Empty/whitespace clears the link; null leaves it unchanged
-    bool? DefaultShowWaitlistBeforePublish = null  // null leaves unchanged
+    bool? DefaultShowWaitlistBeforePublish = null,  // null leaves unchanged
+    int? LateCancelWindowHours = null,  // null leaves unchanged
+    string? WaitlistPromotionMode = null,  // null leaves unchanged
+    int? WaitlistOfferWindowMinutes = null,  // Applied together with the mode (null = default); ignored when the mode is null
+    bool? InAppChatEnabled = null  // null leaves unchanged
 );
 
 public record OrganizationSubscriptionDto(
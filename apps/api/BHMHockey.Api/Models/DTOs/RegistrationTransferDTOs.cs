@@ -0,0 +1,34 @@
+namespace BHMHockey.Api.Models.DTOs;
+
+// A registered player handing their spot to someone else. Exactly one of EventId / TournamentId is set.
+// On accept the registration itself moves: position, team assignment and roster slot carry over.
+public record RegistrationTransferDto(
+    Guid Id,
+    string Status,                      // Pending, Accepted, Declined, Cancelled
+    Guid? EventId,
+    Guid? TournamentId,
+    string Title,                       // Event or tournament name
+    DateTime GameDate,                  // Event date, or tournament start date
+    Guid FromUserId,
+    string FromFirstName,
+    string FromLastName,
+    string? FromVenmoHandle,
+    Guid? ToUserId,                     // Null when offered to the whole waitlist
+    string? ToFirstName,
+    string? ToLastName,
+    string? Position,
+    string? TeamName,                   // Team assignment that carries over, if any
+    decimal Cost,                       // Event cost or per-player tournament fee
+    string? FromPaymentStatus,
+    string? ToPaymentStatus,            // Recipient's waitlist payment, if any
+    string? OrganizerVenmoHandle,
+    DateTime CreatedAt,
+    DateTime? RespondedAt
+);
+
+// Omit ToUserId to offer the spot to the waitlist; the first waitlisted player to accept takes it
+public record CreateRegistrationTransferRequest(
+    Guid? EventId,
+    Guid? TournamentId,
+    Guid? ToUserId
+);
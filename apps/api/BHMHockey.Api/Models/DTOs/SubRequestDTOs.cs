@@ -0,0 +1,42 @@
+namespace BHMHockey.Api.Models.DTOs;
+
+// A player asking someone to take their spot in a pickup game or on a tournament team.
+// Exactly one of EventId / TournamentTeamId is set.
+public record SubRequestDto(
+    Guid Id,
+    string Status,                      // Open, Filled, Cancelled
+    Guid RequesterId,
+    string RequesterFirstName,
+    string RequesterLastName,
+    string? RequesterVenmoHandle,
+    string Position,                    // The requester's registered position
+    List<string>? SkillLevels,          // The event's skill levels; empty matches any skill
+    Guid? EventId,
+    Guid? TournamentId,
+    Guid? TournamentTeamId,
+    string Title,                       // Event name, or "Team - Tournament"
+    string? OrganizationName,
+    DateTime GameDate,                  // Event date, or tournament start date
+    string? Venue,
+    decimal Cost,                       // What the spot costs (event cost or per-player fee)
+    string? RequesterPaymentStatus,     // Null for free spots
+    string? OrganizerVenmoHandle,
+    string? Note,
+    DateTime CreatedAt,
+    // Set once filled
+    Guid? AcceptedByUserId,
+    string? AcceptedByName,
+    DateTime? FilledAt
+);
+
+public record CreateSubRequestRequest(
+    Guid? EventId,
+    Guid? TournamentTeamId,
+    string? Note
+);
+
+// Accepting transfers the requester's registration (or team spot) to the sub
+public record AcceptSubRequestResponse(
+    SubRequestDto SubRequest,
+    Guid? RegistrationId                // The transferred EventRegistration, for event requests
+);
@@ -66,6 +66,7 @@ public record TournamentDto
 
     // Computed fields (context-aware)
     public bool CanManage { get; init; }
+    public bool CanEnterScores { get; init; }  // Any tournament admin role, including Scorekeeper
 }
 
 /// <summary>
@@ -197,6 +198,7 @@ public record TeamStandingDto
     public required int GoalsFor { get; init; }
     public required int GoalsAgainst { get; init; }
     public required int GoalDifferential { get; init; }
+    public required int PenaltyMinutes { get; init; }
     public required int GamesPlayed { get; init; }
     public required bool IsPlayoffBound { get; init; }
 }
@@ -28,7 +28,9 @@ public record TournamentRegistrationDto(
     // Timestamps
     DateTime RegisteredAt,
     DateTime UpdatedAt,
-    DateTime? CancelledAt
+    DateTime? CancelledAt,
+    // The player's pending transfer of this spot (only set on their own registration)
+    Guid? PendingTransferId = null
 );
 
 /// <summary>
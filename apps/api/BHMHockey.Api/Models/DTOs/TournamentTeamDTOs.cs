@@ -94,6 +94,9 @@ public record TournamentMatchDto
     // Forfeit
     public string? ForfeitReason { get; init; }
 
+    // Live period clock (set once a scorekeeper starts running the match live)
+    public LiveMatchClockDto? LiveClock { get; init; }
+
     // Bracket Navigation
     public Guid? NextMatchId { get; init; }
     public Guid? LoserNextMatchId { get; init; }
@@ -143,6 +146,88 @@ public record ForfeitMatchRequest
     public required string Reason { get; init; }
 }
 
+/// <summary>
+/// Period clock for a match being run live. Counts up from 00:00 each period,
+/// matching the elapsed times on the game sheet.
+/// </summary>
+public record LiveMatchClockDto
+{
+    public required int Period { get; init; }
+    public required int PeriodLengthMinutes { get; init; }
+
+    /// <summary>
+    /// Elapsed seconds in the period when the clock last started or stopped
+    /// </summary>
+    public required int ElapsedSeconds { get; init; }
+
+    public required bool IsRunning { get; init; }
+
+    /// <summary>
+    /// When the clock last started - set while running
+    /// </summary>
+    public DateTime? StartedAt { get; init; }
+}
+
+/// <summary>
+/// Request DTO for starting, stopping or resetting a match's live clock.
+/// Starting the clock on a Scheduled match moves it to InProgress.
+/// </summary>
+public record UpdateMatchClockRequest
+{
+    /// <summary>
+    /// Period number (4+ is overtime)
+    /// </summary>
+    public required int Period { get; init; }
+
+    /// <summary>
+    /// Period length in minutes (5-60)
+    /// </summary>
+    public required int PeriodLengthMinutes { get; init; }
+
+    /// <summary>
+    /// Elapsed seconds in the period (0 to the period length)
+    /// </summary>
+    public required int ElapsedSeconds { get; init; }
+
+    public required bool IsRunning { get; init; }
+}
+
+/// <summary>
+/// Message pushed over a tournament's live channel.
+/// Type: MatchUpdated (status, score or clock changed) or GameSheetUpdated
+/// </summary>
+public record LiveMatchEventDto
+{
+    public required string Type { get; init; }
+    public required Guid TournamentId { get; init; }
+    public required Guid MatchId { get; init; }
+    public TournamentMatchDto? Match { get; init; }
+}
+
+/// <summary>
+/// One match placed in a rink/time slot by the schedule generator
+/// </summary>
+public record ScheduledMatchSlot
+{
+    public required Guid MatchId { get; init; }
+    public required string Venue { get; init; }
+    public required DateTime ScheduledTime { get; init; }
+
+    /// <summary>
+    /// May be swapped from the bracket to balance home games. Must be the match's two teams.
+    /// </summary>
+    public Guid? HomeTeamId { get; init; }
+    public Guid? AwayTeamId { get; init; }
+}
+
+/// <summary>
+/// Request DTO for publishing a reviewed schedule - sets scheduledTime, venue and home/away on each match.
+/// </summary>
+public record PublishScheduleRequest
+{
+    public List<ScheduledMatchSlot> Slots { get; init; } = new();
+}
+
 /// <summary>
 /// DTO for score entry audit log details (serialized to JSON in audit log)
 /// </summary>
@@ -94,4 +94,5 @@ public record UserSearchResultDto
     public required string LastName { get; init; }
     public required string Email { get; init; }
     public Dictionary<string, string>? Positions { get; init; }  // position -> skill level (e.g., "goalie" -> "Silver")
+    public ReliabilityDto? Reliability { get; init; }  // Only populated for event organizer searches
 }
@@ -27,3 +27,72 @@ public record UpdateUserProfileRequest(
 public record UpdatePushTokenRequest(
     string PushToken
 );
+
+// A window a player is free to play. Weekly slots repeat on DayOfWeek, one-off slots
+// cover a single Date. Org admins see these when filling short games.
+public record AvailabilitySlotDto(
+    string? Id,             // Ignored on update - the server assigns ids
+    string Kind,            // Weekly, OneOff
+    int? DayOfWeek,         // 0 = Sunday (Weekly only)
+    string? Date,           // "YYYY-MM-DD" (OneOff only)
+    string StartTime,       // "HH:mm" local
+    string EndTime,         // "HH:mm" local, exclusive ("24:00" = midnight)
+    string? Position        // Goalie or Skater, null for either
+);
+
+// Replaces all of the user's slots
+public record UpdateAvailabilityRequest(
+    List<AvailabilitySlotDto> Slots
+);
+
+// Personal iCalendar subscription feed. The URL carries a secret token, so anyone
+// with it can read the user's schedule; resetting issues a new one.
+public record CalendarFeedDto(
+    string Url,             // https feed URL
+    string WebcalUrl,       // Same feed on the webcal:// scheme (opens the calendar app's subscribe flow)
+    DateTime CreatedAt
+);
+
+// Notification preferences: per-organization and per-tournament mutes, quiet hours
+// (pushes arrive without sound) and the game reminder lead time
+public record QuietHoursDto(
+    string Start,           // "HH:mm" local, e.g. "22:00"
+    string End,             // "HH:mm" local - earlier than Start means the window spans midnight
+    string TimeZone         // IANA zone, e.g. "America/Chicago"
+);
+
+public record OrganizationNotificationPreferenceDto(
+    Guid OrganizationId,
+    string OrganizationName,
+    List<string> DisabledTypes
+);
+
+public record TournamentNotificationPreferenceDto(
+    Guid TournamentId,
+    string TournamentName,
+    List<string> DisabledTypes
+);
+
+public record NotificationPreferencesDto(
+    List<OrganizationNotificationPreferenceDto> Organizations,  // One per subscribed organization
+    List<TournamentNotificationPreferenceDto> Tournaments,      // One per upcoming or active tournament the user is in
+    QuietHoursDto? QuietHours,
+    int GameReminderHours
+);
+
+public record OrganizationNotificationPreferenceUpdate(
+    Guid OrganizationId,
+    List<string> DisabledTypes
+);
+
+public record TournamentNotificationPreferenceUpdate(
+    Guid TournamentId,
+    List<string> DisabledTypes
+);
+
+public record UpdateNotificationPreferencesRequest(
+    List<OrganizationNotificationPreferenceUpdate> Organizations,
+    List<TournamentNotificationPreferenceUpdate> Tournaments,
+    QuietHoursDto? QuietHours,
+    int GameReminderHours
+);
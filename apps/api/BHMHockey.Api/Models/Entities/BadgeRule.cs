@@ -0,0 +1,22 @@
+namespace BHMHockey.Api.Models.Entities;
+
+public class BadgeRule
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    // The badge type this rule awards
+    public Guid BadgeTypeId { get; set; }
+    public BadgeType BadgeType { get; set; } = null!;
+
+    // What the rule watches: "TournamentPlacement" or "GamesPlayed"
+    public string Trigger { get; set; } = string.Empty;
+
+    // TournamentPlacement: finish at or above this place (1 = won)
+    // GamesPlayed: number of pickup games needed
+    public int Threshold { get; set; }
+
+    // Inactive rules are kept but never evaluated
+    public bool IsActive { get; set; } = true;
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
@@ -0,0 +1,29 @@
+namespace BHMHockey.Api.Models.Entities;
+
+// One message in an event's or an organization's in-app chat thread.
+// Exactly one of EventId / OrganizationId is set.
+public class ChatMessage
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    public Guid? EventId { get; set; }
+    public Event? Event { get; set; }
+
+    public Guid? OrganizationId { get; set; }
+    public Organization? Organization { get; set; }
+
+    public Guid SenderUserId { get; set; }
+    public User SenderUser { get; set; } = null!;
+
+    public string Body { get; set; } = null!;
+
+    // Users @mentioned in the message - each got a chat_mention push
+    public List<Guid> MentionedUserIds { get; set; } = new();
+
+    public bool IsPinned { get; set; }
+    public DateTime? PinnedAt { get; set; }
+    public Guid? PinnedByUserId { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? DeletedAt { get; set; }  // Soft delete
+}
@@ -31,7 +31,7 @@ public class Event
     // Visibility controls who can see and register for the event
     // - Public: Anyone can see and register
     // - OrganizationMembers: Only subscribers of the organization (requires OrganizationId)
-    // - InviteOnly: Only invited users can see/register (Phase B: will use EventInvitation table)
+    // - InviteOnly: Only invited users can see/register (EventInvitation table)
     public string Visibility { get; set; } = "Public";
 
     // Optional skill levels - if set, overrides organization's skill levels
@@ -44,7 +44,7 @@ public class Event
     public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
 
     // Reminder tracking - to avoid sending duplicates
-    public DateTime? PlayerReminderSentAt { get; set; }
+    public DateTime? PlayerReminderSentAt { get; set; }  // Legacy - player reminders are now tracked per registration
     public DateTime? OrganizerPaymentReminderSentAt { get; set; }
 
     // Publishing tracking - for roster publication state and reminders
@@ -57,9 +57,11 @@ public class Event
     // Slot position labels - maps slot index to position label (e.g., {1: "C", 2: "LW"})
     public Dictionary<int, string>? SlotPositionLabels { get; set; }
 
+    // Recurring series this game was generated from (null for one-off events)
+    public Guid? SeriesId { get; set; }
+    public EventSeries? Series { get; set; }
+
     // Navigation properties
     public ICollection<EventRegistration> Registrations { get; set; } = new List<EventRegistration>();
-
-    // Phase B: Uncomment when implementing invite system
-    // public ICollection<EventInvitation> Invitations { get; set; } = new List<EventInvitation>();
+    public ICollection<EventInvitation> Invitations { get; set; } = new List<EventInvitation>();
 }
@@ -0,0 +1,31 @@
+namespace BHMHockey.Api.Models.Entities;
+
+// An invitation to an InviteOnly event. Invited players can see the event and register;
+// registering accepts the invitation.
+public class EventInvitation
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    public Guid EventId { get; set; }
+    public Event Event { get; set; } = null!;
+
+    public Guid UserId { get; set; }
+    public User User { get; set; } = null!;
+
+    // The organizer who sent it (null for link redemptions)
+    public Guid? InvitedByUserId { get; set; }
+    public User? InvitedByUser { get; set; }
+
+    // Source: Direct, OrganizationMembers, Link
+    public string Source { get; set; } = "Direct";
+
+    // The invite link it was redeemed from (Source = Link)
+    public Guid? InviteLinkId { get; set; }
+    public EventInviteLink? InviteLink { get; set; }
+
+    // Status: Pending, Accepted (registered), Declined
+    public string Status { get; set; } = "Pending";
+
+    public DateTime InvitedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? RespondedAt { get; set; }
+}
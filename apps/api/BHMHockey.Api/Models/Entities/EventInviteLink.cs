@@ -0,0 +1,23 @@
+namespace BHMHockey.Api.Models.Entities;
+
+// Shareable link to an InviteOnly event - anyone who opens it gets an invitation
+public class EventInviteLink
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    public Guid EventId { get; set; }
+    public Event Event { get; set; } = null!;
+
+    // Random token in the bhmhockey://invite/{token} URL
+    public string Token { get; set; } = string.Empty;
+
+    public Guid CreatedByUserId { get; set; }
+    public User CreatedByUser { get; set; } = null!;
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? ExpiresAt { get; set; }  // Null = valid until the event starts
+    public DateTime? RevokedAt { get; set; }
+
+    // Invitations created from this link
+    public int UseCount { get; set; }
+}
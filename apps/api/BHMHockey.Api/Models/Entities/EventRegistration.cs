@@ -1,4 +1,5 @@
 using System.ComponentModel.DataAnnotations.Schema;
+using System.Security.Cryptography;
 
 namespace BHMHockey.Api.Models.Entities;
 
@@ -31,10 +32,29 @@ public class EventRegistration
     public DateTime? PromotedAt { get; set; } // When user was promoted from waitlist
     public DateTime? PaymentDeadlineAt { get; set; } // Deadline to pay after promotion (2 hours)
 
+    // Waitlist offers - set while a waitlisted player holds an open spot in 'Offer' mode
+    public DateTime? OfferedAt { get; set; }
+    public DateTime? OfferExpiresAt { get; set; }
+
+    // Game reminder push - sent at the player's own lead time (User.GameReminderHours)
+    public DateTime? ReminderSentAt { get; set; }
+
+    // Attendance - recorded by the organizer after the game, or LateCancel when a
+    // rostered player cancels inside the org's late-cancel window
+    public string? AttendanceStatus { get; set; } // null, Present, NoShow, LateCancel
+
+    // Rink check-in - the token is the secret half of the player's QR pass, so a pass
+    // can't be forged from the registration id alone. Scanning a pass sets CheckedInAt.
+    public string CheckInToken { get; set; } = NewCheckInToken();
+    public DateTime? CheckedInAt { get; set; }
+
     // Computed properties
     [NotMapped]
     public bool IsWaitlisted => Status == "Waitlisted";
 
     [NotMapped]
     public bool IsPromotedAndPending => PromotedAt != null && PaymentStatus == "Pending";
+
+    // A new pass token, e.g. when the spot is transferred to another player
+    public static string NewCheckInToken() => Convert.ToHexString(RandomNumberGenerator.GetBytes(16)).ToLowerInvariant();
 }
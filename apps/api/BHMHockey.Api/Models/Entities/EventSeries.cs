@@ -0,0 +1,25 @@
+namespace BHMHockey.Api.Models.Entities;
+
+/// <summary>
+/// A recurring set of games created in one request. Each game is an ordinary
+/// Event row pointing back here through SeriesId, so registration, rosters and
+/// payments work per game exactly as for one-off events.
+/// </summary>
+public class EventSeries
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    // Organization is optional - null means standalone/pickup series
+    public Guid? OrganizationId { get; set; }
+    public Organization? Organization { get; set; }
+
+    public Guid CreatorId { get; set; }
+    public User Creator { get; set; } = null!;
+
+    // JSONB recurrence rule the game dates were generated from (RecurrenceRuleDto)
+    public string Recurrence { get; set; } = "{}";
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    public ICollection<Event> Events { get; set; } = new List<Event>();
+}
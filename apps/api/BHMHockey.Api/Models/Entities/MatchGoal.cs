@@ -0,0 +1,36 @@
+namespace BHMHockey.Api.Models.Entities;
+
+/// <summary>
+/// A goal recorded on a tournament match's game sheet.
+/// </summary>
+public class MatchGoal
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    public Guid MatchId { get; set; }
+    public TournamentMatch Match { get; set; } = null!;
+
+    public Guid TeamId { get; set; }
+    public TournamentTeam Team { get; set; } = null!;
+
+    public Guid ScorerUserId { get; set; }
+    public User Scorer { get; set; } = null!;
+
+    public Guid? PrimaryAssistUserId { get; set; }
+    public User? PrimaryAssist { get; set; }
+
+    public Guid? SecondaryAssistUserId { get; set; }
+    public User? SecondaryAssist { get; set; }
+
+    /// <summary>
+    /// Period number (4+ is overtime)
+    /// </summary>
+    public int Period { get; set; }
+
+    /// <summary>
+    /// Elapsed time in the period as "MM:SS"
+    /// </summary>
+    public string Time { get; set; } = "00:00";
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
@@ -0,0 +1,23 @@
+namespace BHMHockey.Api.Models.Entities;
+
+/// <summary>
+/// Goalie of record for one team on a tournament match's game sheet.
+/// </summary>
+public class MatchGoalie
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    public Guid MatchId { get; set; }
+    public TournamentMatch Match { get; set; } = null!;
+
+    public Guid TeamId { get; set; }
+    public TournamentTeam Team { get; set; } = null!;
+
+    public Guid UserId { get; set; }
+    public User User { get; set; } = null!;
+
+    /// <summary>
+    /// Shots faced, when recorded (needed for save percentage)
+    /// </summary>
+    public int? ShotsAgainst { get; set; }
+}
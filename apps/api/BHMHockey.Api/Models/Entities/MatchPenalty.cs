@@ -0,0 +1,33 @@
+namespace BHMHockey.Api.Models.Entities;
+
+/// <summary>
+/// A penalty recorded on a tournament match's game sheet.
+/// </summary>
+public class MatchPenalty
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    public Guid MatchId { get; set; }
+    public TournamentMatch Match { get; set; } = null!;
+
+    public Guid TeamId { get; set; }
+    public TournamentTeam Team { get; set; } = null!;
+
+    public Guid PlayerUserId { get; set; }
+    public User Player { get; set; } = null!;
+
+    public string Infraction { get; set; } = string.Empty;
+    public int Minutes { get; set; }
+
+    /// <summary>
+    /// Period number (4+ is overtime)
+    /// </summary>
+    public int Period { get; set; }
+
+    /// <summary>
+    /// Elapsed time in the period as "MM:SS"
+    /// </summary>
+    public string Time { get; set; } = "00:00";
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
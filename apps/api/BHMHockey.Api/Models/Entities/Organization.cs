@@ -26,8 +26,20 @@ public class Organization
     // Org-wide GroupMe chat link - events fall back to this unless they set their own
     public string? GroupMeLink { get; set; }
 
+    // In-app chat for the org and its events. Off = the GroupMe link stays the chat.
+    public bool InAppChatEnabled { get; set; }
+
+    // Rostered players who cancel this many hours or less before a game get a late cancel (null = default)
+    public int? LateCancelWindowHours { get; set; }
+
+    // How open spots reach the waitlist: "Immediate" or "Offer" (null = Immediate), and how long
+    // an offer stays open before it cascades to the next player (null = default)
+    public string? WaitlistPromotionMode { get; set; }
+    public int? WaitlistOfferWindowMinutes { get; set; }
+
     // Navigation properties
     public ICollection<OrganizationSubscription> Subscriptions { get; set; } = new List<OrganizationSubscription>();
     public ICollection<Event> Events { get; set; } = new List<Event>();
     public ICollection<OrganizationAdmin> Admins { get; set; } = new List<OrganizationAdmin>();
+    public ICollection<OrganizationAnnouncement> Announcements { get; set; } = new List<OrganizationAnnouncement>();
 }
@@ -0,0 +1,26 @@
+namespace BHMHockey.Api.Models.Entities;
+
+public class OrganizationAnnouncement
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    public Guid OrganizationId { get; set; }
+    public Organization Organization { get; set; } = null!;
+
+    public string Title { get; set; } = null!;
+    public string Body { get; set; } = null!;
+
+    // Target: "All", "Admins", "AutoRoster", "EventRegistrants"
+    public string Target { get; set; } = "All";
+
+    // The game whose registered players are targeted (EventRegistrants only)
+    public Guid? TargetEventId { get; set; }
+    public Event? TargetEvent { get; set; }
+
+    public Guid CreatedByUserId { get; set; }
+    public User CreatedByUser { get; set; } = null!;
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? UpdatedAt { get; set; }
+    public DateTime? DeletedAt { get; set; }  // Soft delete
+}
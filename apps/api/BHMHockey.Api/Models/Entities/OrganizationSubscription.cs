@@ -8,5 +8,7 @@ public class OrganizationSubscription
     public Guid UserId { get; set; }
     public User User { get; set; } = null!;
     public bool NotificationEnabled { get; set; } = true;
+    // Notification types the member muted for this organization (NotificationPreferences.OrganizationTypes)
+    public List<string>? DisabledNotificationTypes { get; set; }
     public DateTime SubscribedAt { get; set; } = DateTime.UtcNow;
 }
@@ -0,0 +1,33 @@
+namespace BHMHockey.Api.Models.Entities;
+
+public class RegistrationTransfer
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    // The player handing over their spot
+    public Guid FromUserId { get; set; }
+    public User FromUser { get; set; } = null!;
+
+    // The player it was offered to. Null while offered to the whole waitlist;
+    // set to whoever accepts once it goes through.
+    public Guid? ToUserId { get; set; }
+    public User? ToUser { get; set; }
+
+    // Pickup game spot (exactly one of EventId / TournamentId is set)
+    public Guid? EventId { get; set; }
+    public Event? Event { get; set; }
+    public Guid? EventRegistrationId { get; set; }
+    public EventRegistration? EventRegistration { get; set; }
+
+    // Tournament spot
+    public Guid? TournamentId { get; set; }
+    public Tournament? Tournament { get; set; }
+    public Guid? TournamentRegistrationId { get; set; }
+    public TournamentRegistration? TournamentRegistration { get; set; }
+
+    // Status: Pending, Accepted, Declined, Cancelled
+    public string Status { get; set; } = "Pending";
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+    public DateTime? RespondedAt { get; set; }
+}
@@ -0,0 +1,35 @@
+namespace BHMHockey.Api.Models.Entities;
+
+public class SubRequest
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    // The player giving up their spot
+    public Guid RequesterId { get; set; }
+    public User Requester { get; set; } = null!;
+
+    // Pickup game spot: the requester's registration, transferred to the sub when filled
+    public Guid? EventId { get; set; }
+    public Event? Event { get; set; }
+    public Guid? EventRegistrationId { get; set; }
+    public EventRegistration? EventRegistration { get; set; }
+
+    // Tournament team spot (exactly one of EventId / TournamentTeamId is set)
+    public Guid? TournamentTeamId { get; set; }
+    public TournamentTeam? TournamentTeam { get; set; }
+
+    // Goalie or Skater - the requester's position, which the sub must play
+    public string Position { get; set; } = "Skater";
+
+    public string? Note { get; set; }
+
+    // Status: Open, Filled, Cancelled
+    public string Status { get; set; } = "Open";
+
+    // Set once filled
+    public Guid? AcceptedByUserId { get; set; }
+    public User? AcceptedByUser { get; set; }
+    public DateTime? FilledAt { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
@@ -61,6 +61,18 @@ public class TournamentMatch
     public Guid? LoserNextMatchId { get; set; }
     public TournamentMatch? LoserNextMatch { get; set; }
 
+    // Live period clock (ClockPeriod is null until a scorekeeper starts running the match live)
+    public int? ClockPeriod { get; set; }
+    public int? ClockPeriodLengthMinutes { get; set; }
+    public int ClockElapsedSeconds { get; set; } = 0;  // Elapsed when the clock last started or stopped
+    public bool ClockIsRunning { get; set; } = false;
+    public DateTime? ClockStartedAt { get; set; }
+
+    // Game sheet (goals, penalties and goalies are stored in their own tables)
+    public DateTime? GameSheetUpdatedAt { get; set; }
+    public Guid? GameSheetUpdatedByUserId { get; set; }
+    public User? GameSheetUpdatedBy { get; set; }
+
     // Timestamps
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
     public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
@@ -0,0 +1,18 @@
+namespace BHMHockey.Api.Models.Entities;
+
+// Notification types a player muted for one tournament they're in. Overrides the
+// organization's toggles for pushes about that tournament.
+public class TournamentNotificationPreference
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    public Guid UserId { get; set; }
+    public User User { get; set; } = null!;
+
+    public Guid TournamentId { get; set; }
+    public Tournament Tournament { get; set; } = null!;
+
+    public List<string> DisabledNotificationTypes { get; set; } = new();
+
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+}
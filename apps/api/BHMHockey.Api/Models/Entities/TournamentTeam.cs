@@ -31,6 +31,7 @@ public class TournamentTeam
     public int Points { get; set; } = 0;
     public int GoalsFor { get; set; } = 0;
     public int GoalsAgainst { get; set; } = 0;
+    public int PenaltyMinutes { get; set; } = 0;  // Total PIM from game sheets (FewestPenaltyMinutes tiebreaker)
 
     /// <summary>
     /// PaymentStatus: null, Pending, MarkedPaid, Verified
@@ -19,6 +19,18 @@ public class User
     public string Role { get; set; } = "Player"; // Player, Organizer, Admin
     public bool IsActive { get; set; } = true;
     public bool IsGhostPlayer { get; set; } = false;
+
+    // Secret token in the personal iCalendar feed URL (null until the feed is first requested)
+    public string? CalendarFeedToken { get; set; }
+    public DateTime? CalendarFeedCreatedAt { get; set; }
+
+    // Notification preferences. Quiet hours are "HH:mm" wall-clock times in an IANA zone;
+    // pushes inside the window arrive without sound. Null start/end = no quiet hours.
+    public string? QuietHoursStart { get; set; }
+    public string? QuietHoursEnd { get; set; }
+    public string? QuietHoursTimeZone { get; set; }
+    public int? GameReminderHours { get; set; }  // Null = NotificationPreferences.DefaultGameReminderHours
+
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
     public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
 }
@@ -0,0 +1,23 @@
+namespace BHMHockey.Api.Models.Entities;
+
+public class UserAvailabilitySlot
+{
+    public Guid Id { get; set; } = Guid.NewGuid();
+
+    public Guid UserId { get; set; }
+    public User User { get; set; } = null!;
+
+    // Weekly (repeats on DayOfWeek) or OneOff (a single Date)
+    public string Kind { get; set; } = "Weekly";
+    public int? DayOfWeek { get; set; }  // 0 = Sunday (Weekly only)
+    public string? Date { get; set; }    // "YYYY-MM-DD" (OneOff only)
+
+    // "HH:mm" local times; EndTime may be "24:00" for windows running to midnight
+    public string StartTime { get; set; } = string.Empty;
+    public string EndTime { get; set; } = string.Empty;
+
+    // Goalie or Skater when the window only applies to one position, null for either
+    public string? Position { get; set; }
+
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+}
@@ -0,0 +1,10 @@
+namespace BHMHockey.Api.Models.Exceptions;
+
+/// <summary>
+/// Thrown when a player opens an invite link that has expired (or whose event has started).
+/// Surfaced as 410 Gone so clients can tell it apart from a revoked or unknown link.
+/// </summary>
+public class InviteLinkExpiredException : Exception
+{
+    public InviteLinkExpiredException(string message) : base(message) { }
+}
@@ -113,6 +113,21 @@ builder.Services.AddAuthentication(JwtBearerDefaults.AuthenticationScheme)
             IssuerSigningKey = new SymmetricSecurityKey(
                 Encoding.UTF8.GetBytes(jwtSecret))
         };
+
+        // WebSocket handshakes can't send an Authorization header on every platform,
+        // so the live match channel passes the token as ?access_token=
+        options.Events = new JwtBearerEvents
+        {
+            OnMessageReceived = context =>
+            {
+                var accessToken = context.Request.Query["access_token"];
+                if (!string.IsNullOrEmpty(accessToken) && context.Request.Path.Value?.EndsWith("/live") == true)
+                {
+                    context.Token = accessToken;
+                }
+                return Task.CompletedTask;
+            }
+        };
     });
 
 builder.Services.AddAuthorization();
@@ -137,6 +152,14 @@ builder.Services.AddScoped<IWaitlistService, WaitlistService>();
 builder.Services.AddScoped<IEventReminderService, EventReminderService>();
 builder.Services.AddScoped<INotificationPersistenceService, NotificationPersistenceService>();
 builder.Services.AddScoped<IBadgeService, BadgeService>();
+builder.Services.AddScoped<IBadgeAdminService, BadgeAdminService>();
+builder.Services.AddScoped<ISubRequestService, SubRequestService>();
+builder.Services.AddScoped<IRegistrationTransferService, RegistrationTransferService>();
+builder.Services.AddScoped<ICalendarFeedService, CalendarFeedService>();
+builder.Services.AddScoped<INotificationPreferenceService, NotificationPreferenceService>();
+builder.Services.AddScoped<IOrganizationAnnouncementService, OrganizationAnnouncementService>();
+builder.Services.AddScoped<IChatService, ChatService>();
+builder.Services.AddScoped<IEventInvitationService, EventInvitationService>();
 builder.Services.AddScoped<ITournamentService, TournamentService>();
 builder.Services.AddScoped<ITournamentLifecycleService, TournamentLifecycleService>();
 builder.Services.AddScoped<ITournamentTeamService, TournamentTeamService>();
@@ -150,6 +173,8 @@ builder.Services.AddScoped<ITournamentAdminService, TournamentAdminService>();
 builder.Services.AddScoped<ITournamentAuditService, TournamentAuditService>();
 builder.Services.AddScoped<ITournamentAnnouncementService, TournamentAnnouncementService>();
 builder.Services.AddScoped<IStandingsService, StandingsService>();
+builder.Services.AddScoped<IGameSheetService, GameSheetService>();
+builder.Services.AddSingleton<ILiveMatchHub, LiveMatchHub>();
 builder.Services.AddScoped<IRosterPublishService, RosterPublishService>();
 builder.Services.AddScoped<INotFullGameReminderService, NotFullGameReminderService>();
 
@@ -159,6 +184,7 @@ builder.Services.AddHostedService<EventReminderBackgroundService>();
 builder.Services.AddHostedService<NotificationCleanupBackgroundService>();
 builder.Services.AddHostedService<RosterPublishBackgroundService>();
 builder.Services.AddHostedService<NotFullGameReminderBackgroundService>();
+builder.Services.AddHostedService<BadgeRuleBackgroundService>();
 
 // Health Checks
 builder.Services.AddHealthChecks()
@@ -233,6 +259,7 @@ using (var scope = app.Services.CreateScope())
 
 app.UseHttpsRedirection();
 app.UseCors("AllowExpoApp");
+app.UseWebSockets();  // Live match channel (/api/tournaments/{id}/live)
 app.UseAuthentication();
 app.UseAuthorization();
 
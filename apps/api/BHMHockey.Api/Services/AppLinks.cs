@@ -0,0 +1,79 @@
+using System.Text.Json.Nodes;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Association files that let iOS and Android open https links on the API host in the app
+/// (universal links / app links). Paths mirror the shared deep-link route table.
+/// </summary>
+public static class AppLinks
+{
+    public const string DefaultAppId = "com.bhmhockey.app";  // iOS bundle id and Android package (app.json)
+
+    // Top-level link paths from the shared route table - everything else (the API itself,
+    // /privacy, /health) stays in the browser
+    public static readonly string[] LinkPaths =
+    {
+        "/events/*",
+        "/tournament/*",
+        "/organizations/*",
+        "/invite/*",
+        "/subs",
+        "/transfers"
+    };
+
+    /// <summary>
+    /// apple-app-site-association for "TEAMID.bundleId"
+    /// </summary>
+    public static string BuildAppleAppSiteAssociation(string teamId, string bundleId)
+    {
+        var components = new JsonArray();
+        foreach (var path in LinkPaths)
+        {
+            components.Add(new JsonObject { ["/"] = path });
+        }
+
+        var document = new JsonObject
+        {
+            ["applinks"] = new JsonObject
+            {
+                ["details"] = new JsonArray
+                {
+                    new JsonObject
+                    {
+                        ["appIDs"] = new JsonArray { $"{teamId}.{bundleId}" },
+                        ["components"] = components
+                    }
+                }
+            }
+        };
+        return document.ToJsonString();
+    }
+
+    /// <summary>
+    /// Digital Asset Links statement for the Android package, signed by any of the given certificates
+    /// </summary>
+    public static string BuildAssetLinks(string packageName, IEnumerable<string> sha256CertFingerprints)
+    {
+        var fingerprints = new JsonArray();
+        foreach (var fingerprint in sha256CertFingerprints)
+        {
+            fingerprints.Add(fingerprint.Trim().ToUpperInvariant());
+        }
+
+        var statements = new JsonArray
+        {
+            new JsonObject
+            {
+                ["relation"] = new JsonArray { "delegate_permission/common.handle_all_urls" },
+                ["target"] = new JsonObject
+                {
+                    ["namespace"] = "android_app",
+                    ["package_name"] = packageName,
+                    ["sha256_cert_fingerprints"] = fingerprints
+                }
+            }
+        };
+        return statements.ToJsonString();
+    }
+}
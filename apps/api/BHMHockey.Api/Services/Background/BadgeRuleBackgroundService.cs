@@ -0,0 +1,67 @@
+namespace BHMHockey.Api.Services.Background;
+
+/// <summary>
+/// Background service that evaluates GamesPlayed badge rules as pickup games finish.
+/// Runs every hour; badges it awards start uncelebrated.
+/// </summary>
+public class BadgeRuleBackgroundService : BackgroundService
+{
+    private readonly IServiceProvider _serviceProvider;
+    private readonly ILogger<BadgeRuleBackgroundService> _logger;
+
+    private static readonly TimeSpan CheckInterval = TimeSpan.FromHours(1);
+
+    public BadgeRuleBackgroundService(
+        IServiceProvider serviceProvider,
+        ILogger<BadgeRuleBackgroundService> logger)
+    {
+        _serviceProvider = serviceProvider;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("Badge rule background service started. Checking every {Interval} minutes.",
+            CheckInterval.TotalMinutes);
+
+        while (!stoppingToken.IsCancellationRequested)
+        {
+            try
+            {
+                await EvaluateRulesAsync();
+            }
+            catch (Exception ex)
+            {
+                // Log error but don't rethrow - keep the service running
+                _logger.LogError(ex, "Error evaluating badge rules");
+            }
+
+            try
+            {
+                await Task.Delay(CheckInterval, stoppingToken);
+            }
+            catch (TaskCanceledException)
+            {
+                // Expected when stopping - don't log as error
+                break;
+            }
+        }
+
+        _logger.LogInformation("Badge rule background service stopped");
+    }
+
+    private async Task EvaluateRulesAsync()
+    {
+        // Create a scope because BackgroundService is singleton
+        // but BadgeAdminService is scoped (requires DbContext)
+        using var scope = _serviceProvider.CreateScope();
+        var badgeAdminService = scope.ServiceProvider.GetRequiredService<IBadgeAdminService>();
+
+        var awardedCount = await badgeAdminService.EvaluateGamesPlayedRulesAsync();
+
+        if (awardedCount > 0)
+        {
+            _logger.LogInformation("Awarded {Count} games-played badges", awardedCount);
+        }
+    }
+}
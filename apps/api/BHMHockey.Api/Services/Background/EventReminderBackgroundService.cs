@@ -2,7 +2,7 @@ namespace BHMHockey.Api.Services.Background;
 
 /// <summary>
 /// Background service that periodically checks for and sends event reminders:
-/// - Player reminders 1 hour before game (game time, venue, team)
+/// - Player reminders at each player's lead time, 2 hours before by default (game time, venue, team)
 /// - Organizer payment reminders 5 hours before game (if unpaid players exist)
 /// Runs every 15 minutes.
 /// </summary>
@@ -62,7 +62,7 @@ public class EventReminderBackgroundService : BackgroundService
 
         _logger.LogDebug("Checking for event reminders to send");
 
-        // Send player reminders (1 hour before)
+        // Send player reminders (each player's lead time)
         await reminderService.SendPlayerRemindersAsync();
 
         // Send organizer payment reminders (5 hours before)
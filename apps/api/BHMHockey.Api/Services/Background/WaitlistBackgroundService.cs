@@ -1,9 +1,9 @@
 namespace BHMHockey.Api.Services.Background;
 
 /// <summary>
-/// Background service that periodically checks for and processes
-/// expired payment deadlines for promoted waitlist users.
-/// Runs every 15 minutes to enforce the 2-hour payment window.
+/// Background service that periodically expires lapsed waitlist offers and
+/// processes expired payment deadlines for players who accepted one.
+/// Runs every 15 minutes to enforce the offer and 2-hour payment windows.
 /// </summary>
 public class WaitlistBackgroundService : BackgroundService
 {
@@ -28,17 +28,27 @@ public class WaitlistBackgroundService : BackgroundService
 
         while (!stoppingToken.IsCancellationRequested)
         {
-            // Payment deadlines no longer enforced - organizer manages manually
-            // The ProcessExpiredDeadlinesAsync method is preserved for potential future use
-            // try
-            // {
-            //     await ProcessExpiredDeadlinesAsync();
-            // }
-            // catch (Exception ex)
-            // {
-            //     // Log error but don't rethrow - keep the service running
-            //     _logger.LogError(ex, "Error processing expired payment deadlines");
-            // }
+            try
+            {
+                await ProcessExpiredOffersAsync();
+            }
+            catch (Exception ex)
+            {
+                // Log error but don't rethrow - keep the service running
+                _logger.LogError(ex, "Error processing expired waitlist offers");
+            }
+
+            // Payment deadlines are only enforced for 'Offer' mode orgs - elsewhere the
+            // organizer manages unpaid players manually
+            try
+            {
+                await ProcessExpiredDeadlinesAsync();
+            }
+            catch (Exception ex)
+            {
+                // Log error but don't rethrow - keep the service running
+                _logger.LogError(ex, "Error processing expired payment deadlines");
+            }
 
             try
             {
@@ -64,4 +74,13 @@ public class WaitlistBackgroundService : BackgroundService
         _logger.LogDebug("Checking for expired payment deadlines");
         await waitlistService.ProcessExpiredPaymentDeadlinesAsync();
     }
+
+    private async Task ProcessExpiredOffersAsync()
+    {
+        using var scope = _serviceProvider.CreateScope();
+        var waitlistService = scope.ServiceProvider.GetRequiredService<IWaitlistService>();
+
+        _logger.LogDebug("Checking for expired waitlist offers");
+        await waitlistService.ProcessExpiredOffersAsync();
+    }
 }
@@ -0,0 +1,421 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace BHMHockey.Api.Services;
+
+public class BadgeAdminService : IBadgeAdminService
+{
+    private readonly AppDbContext _context;
+
+    private static readonly string[] ValidCategories = { "achievement", "milestone", "social" };
+    private static readonly string[] ValidTriggers = { "TournamentPlacement", "GamesPlayed" };
+
+    public BadgeAdminService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    #region Badge Types
+
+    public async Task<List<BadgeTypeDto>> GetBadgeTypesAsync()
+    {
+        var badgeTypes = await _context.BadgeTypes
+            .OrderBy(bt => bt.SortPriority)
+            .ThenBy(bt => bt.Name)
+            .ToListAsync();
+
+        return badgeTypes.Select(MapToDto).ToList();
+    }
+
+    public async Task<BadgeTypeDto> CreateBadgeTypeAsync(CreateBadgeTypeRequest request)
+    {
+        // 1. Validate fields
+        var code = request.Code?.Trim() ?? string.Empty;
+        if (string.IsNullOrEmpty(code) || code.Length > 100)
+        {
+            throw new InvalidOperationException("Code is required and must be 100 characters or less");
+        }
+        if (string.IsNullOrWhiteSpace(request.Name) || request.Name.Trim().Length > 200)
+        {
+            throw new InvalidOperationException("Name is required and must be 200 characters or less");
+        }
+        if (string.IsNullOrWhiteSpace(request.Description) || request.Description.Trim().Length > 500)
+        {
+            throw new InvalidOperationException("Description is required and must be 500 characters or less");
+        }
+        if (string.IsNullOrWhiteSpace(request.IconName) || request.IconName.Trim().Length > 100)
+        {
+            throw new InvalidOperationException("Icon name is required and must be 100 characters or less");
+        }
+        if (!ValidCategories.Contains(request.Category))
+        {
+            throw new InvalidOperationException("Invalid category. Must be achievement, milestone, or social.");
+        }
+
+        // 2. Code must be unique
+        if (await _context.BadgeTypes.AnyAsync(bt => bt.Code == code))
+        {
+            throw new InvalidOperationException($"A badge type with code '{code}' already exists");
+        }
+
+        var badgeType = new BadgeType
+        {
+            Code = code,
+            Name = request.Name.Trim(),
+            Description = request.Description.Trim(),
+            IconName = request.IconName.Trim(),
+            Category = request.Category,
+            SortPriority = request.SortPriority ?? 0
+        };
+
+        _context.BadgeTypes.Add(badgeType);
+        await _context.SaveChangesAsync();
+
+        return MapToDto(badgeType);
+    }
+
+    #endregion
+
+    #region Awards
+
+    public async Task<UserBadgeDto> AwardBadgeAsync(AwardBadgeRequest request)
+    {
+        // 1. Validate user and badge type
+        if (!await _context.Users.AnyAsync(u => u.Id == request.UserId))
+        {
+            throw new InvalidOperationException("User not found");
+        }
+
+        var badgeType = await _context.BadgeTypes.FindAsync(request.BadgeTypeId);
+        if (badgeType == null)
+        {
+            throw new InvalidOperationException("Badge type not found");
+        }
+
+        // 2. A user can only have each badge type once
+        var alreadyAwarded = await _context.UserBadges
+            .AnyAsync(ub => ub.UserId == request.UserId && ub.BadgeTypeId == request.BadgeTypeId);
+        if (alreadyAwarded)
+        {
+            throw new InvalidOperationException("User already has this badge");
+        }
+
+        // 3. Award (CelebratedAt stays null so the celebration modal shows)
+        var userBadge = new UserBadge
+        {
+            UserId = request.UserId,
+            BadgeTypeId = badgeType.Id,
+            BadgeType = badgeType,
+            Context = request.Context,
+            EarnedAt = request.EarnedAt ?? DateTime.UtcNow
+        };
+
+        _context.UserBadges.Add(userBadge);
+        await _context.SaveChangesAsync();
+
+        return new UserBadgeDto(
+            Id: userBadge.Id,
+            BadgeType: MapToDto(badgeType),
+            Context: userBadge.Context,
+            EarnedAt: userBadge.EarnedAt,
+            DisplayOrder: userBadge.DisplayOrder
+        );
+    }
+
+    public async Task<bool> RevokeBadgeAsync(Guid userBadgeId)
+    {
+        var userBadge = await _context.UserBadges.FindAsync(userBadgeId);
+        if (userBadge == null)
+        {
+            return false;
+        }
+
+        _context.UserBadges.Remove(userBadge);
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    #endregion
+
+    #region Rules
+
+    public async Task<List<BadgeRuleDto>> GetBadgeRulesAsync()
+    {
+        var rules = await _context.BadgeRules
+            .Include(r => r.BadgeType)
+            .OrderByDescending(r => r.CreatedAt)
+            .ToListAsync();
+
+        return rules.Select(MapToDto).ToList();
+    }
+
+    public async Task<BadgeRuleDto> CreateBadgeRuleAsync(CreateBadgeRuleRequest request)
+    {
+        if (!ValidTriggers.Contains(request.Trigger))
+        {
+            throw new InvalidOperationException("Invalid trigger. Must be TournamentPlacement or GamesPlayed.");
+        }
+        ValidateThreshold(request.Threshold);
+
+        var badgeType = await _context.BadgeTypes.FindAsync(request.BadgeTypeId);
+        if (badgeType == null)
+        {
+            throw new InvalidOperationException("Badge type not found");
+        }
+
+        var rule = new BadgeRule
+        {
+            BadgeTypeId = badgeType.Id,
+            BadgeType = badgeType,
+            Trigger = request.Trigger,
+            Threshold = request.Threshold
+        };
+
+        _context.BadgeRules.Add(rule);
+        await _context.SaveChangesAsync();
+
+        return MapToDto(rule);
+    }
+
+    public async Task<BadgeRuleDto?> UpdateBadgeRuleAsync(Guid ruleId, UpdateBadgeRuleRequest request)
+    {
+        var rule = await _context.BadgeRules
+            .Include(r => r.BadgeType)
+            .FirstOrDefaultAsync(r => r.Id == ruleId);
+
+        if (rule == null)
+        {
+            return null;
+        }
+
+        if (request.Threshold.HasValue)
+        {
+            ValidateThreshold(request.Threshold.Value);
+            rule.Threshold = request.Threshold.Value;
+        }
+        if (request.IsActive.HasValue)
+        {
+            rule.IsActive = request.IsActive.Value;
+        }
+
+        await _context.SaveChangesAsync();
+        return MapToDto(rule);
+    }
+
+    public async Task<bool> DeleteBadgeRuleAsync(Guid ruleId)
+    {
+        var rule = await _context.BadgeRules.FindAsync(ruleId);
+        if (rule == null)
+        {
+            return false;
+        }
+
+        // UserBadges have no link to the rule, so awarded badges are kept
+        _context.BadgeRules.Remove(rule);
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    public async Task<ApplyBadgeRuleResponse?> ApplyBadgeRuleAsync(Guid ruleId)
+    {
+        var rule = await _context.BadgeRules.FindAsync(ruleId);
+        if (rule == null)
+        {
+            return null;
+        }
+
+        var candidates = rule.Trigger == "TournamentPlacement"
+            ? await GetPlacementCandidatesAsync(rule.Threshold, tournamentId: null)
+            : await GetGamesPlayedCandidatesAsync(rule.Threshold);
+
+        var awardedCount = await AwardToCandidatesAsync(rule, candidates);
+        await _context.SaveChangesAsync();
+
+        return new ApplyBadgeRuleResponse(awardedCount);
+    }
+
+    #endregion
+
+    #region Evaluation
+
+    public async Task<int> EvaluateTournamentPlacementRulesAsync(Guid tournamentId)
+    {
+        var rules = await _context.BadgeRules
+            .Where(r => r.IsActive && r.Trigger == "TournamentPlacement")
+            .ToListAsync();
+
+        var awardedCount = 0;
+        foreach (var rule in rules)
+        {
+            var candidates = await GetPlacementCandidatesAsync(rule.Threshold, tournamentId);
+            awardedCount += await AwardToCandidatesAsync(rule, candidates);
+        }
+
+        await _context.SaveChangesAsync();
+        return awardedCount;
+    }
+
+    public async Task<int> EvaluateGamesPlayedRulesAsync()
+    {
+        var rules = await _context.BadgeRules
+            .Where(r => r.IsActive && r.Trigger == "GamesPlayed")
+            .ToListAsync();
+
+        var awardedCount = 0;
+        foreach (var rule in rules)
+        {
+            var candidates = await GetGamesPlayedCandidatesAsync(rule.Threshold);
+            awardedCount += await AwardToCandidatesAsync(rule, candidates);
+        }
+
+        await _context.SaveChangesAsync();
+        return awardedCount;
+    }
+
+    /// <summary>
+    /// Accepted members of completed tournament teams that finished at or above the threshold.
+    /// A player who qualifies in several tournaments gets the earliest one as context.
+    /// </summary>
+    private async Task<Dictionary<Guid, Dictionary<string, object>>> GetPlacementCandidatesAsync(int threshold, Guid? tournamentId)
+    {
+        var query = _context.TournamentTeamMembers
+            .Where(m => m.Status == "Accepted")
+            .Where(m => m.Team.FinalPlacement != null && m.Team.FinalPlacement <= threshold)
+            .Where(m => m.Team.Tournament.Status == "Completed");
+
+        if (tournamentId.HasValue)
+        {
+            query = query.Where(m => m.Team.TournamentId == tournamentId.Value);
+        }
+
+        var finishes = await query
+            .Select(m => new
+            {
+                m.UserId,
+                m.Team.TournamentId,
+                TournamentName = m.Team.Tournament.Name,
+                m.Team.Tournament.StartDate,
+                m.Team.Tournament.CompletedAt
+            })
+            .ToListAsync();
+
+        return finishes
+            .GroupBy(f => f.UserId)
+            .ToDictionary(
+                g => g.Key,
+                g =>
+                {
+                    var first = g.OrderBy(f => f.CompletedAt ?? f.StartDate).First();
+                    return new Dictionary<string, object>
+                    {
+                        ["tournamentName"] = first.TournamentName,
+                        ["tournamentId"] = first.TournamentId.ToString(),
+                        ["year"] = first.StartDate.Year
+                    };
+                });
+    }
+
+    /// <summary>
+    /// Players with at least the threshold number of finished, non-cancelled pickup games
+    /// they were registered for (waitlisted and cancelled registrations don't count).
+    /// </summary>
+    private async Task<Dictionary<Guid, Dictionary<string, object>>> GetGamesPlayedCandidatesAsync(int threshold)
+    {
+        var now = DateTime.UtcNow;
+
+        var userIds = await _context.EventRegistrations
+            .Where(r => r.Status == "Registered")
+            .Where(r => r.Event.Status != "Cancelled" && r.Event.EventDate.AddMinutes(r.Event.Duration) <= now)
+            .GroupBy(r => r.UserId)
+            .Where(g => g.Count() >= threshold)
+            .Select(g => g.Key)
+            .ToListAsync();
+
+        return userIds.ToDictionary(
+            id => id,
+            _ => new Dictionary<string, object>
+            {
+                ["description"] = $"Played {threshold} games"
+            });
+    }
+
+    /// <summary>
+    /// Adds the rule's badge for every candidate who doesn't have it yet. Caller saves.
+    /// </summary>
+    private async Task<int> AwardToCandidatesAsync(BadgeRule rule, Dictionary<Guid, Dictionary<string, object>> candidates)
+    {
+        if (candidates.Count == 0)
+        {
+            return 0;
+        }
+
+        var candidateIds = candidates.Keys.ToList();
+        var alreadyAwarded = await _context.UserBadges
+            .Where(ub => ub.BadgeTypeId == rule.BadgeTypeId && candidateIds.Contains(ub.UserId))
+            .Select(ub => ub.UserId)
+            .ToListAsync();
+
+        // Also skip badges added earlier in this unit of work
+        var pending = _context.ChangeTracker.Entries<UserBadge>()
+            .Where(e => e.State == EntityState.Added && e.Entity.BadgeTypeId == rule.BadgeTypeId)
+            .Select(e => e.Entity.UserId);
+
+        var skip = alreadyAwarded.Concat(pending).ToHashSet();
+        var awardedCount = 0;
+
+        foreach (var (userId, context) in candidates)
+        {
+            if (skip.Contains(userId))
+            {
+                continue;
+            }
+
+            _context.UserBadges.Add(new UserBadge
+            {
+                UserId = userId,
+                BadgeTypeId = rule.BadgeTypeId,
+                Context = context,
+                EarnedAt = DateTime.UtcNow
+            });
+            awardedCount++;
+        }
+
+        return awardedCount;
+    }
+
+    #endregion
+
+    private static void ValidateThreshold(int threshold)
+    {
+        if (threshold < 1)
+        {
+            throw new InvalidOperationException("Threshold must be at least 1");
+        }
+    }
+
+    private static BadgeTypeDto MapToDto(BadgeType badgeType)
+    {
+        return new BadgeTypeDto(
+            Id: badgeType.Id,
+            Code: badgeType.Code,
+            Name: badgeType.Name,
+            Description: badgeType.Description,
+            IconName: badgeType.IconName,
+            Category: badgeType.Category
+        );
+    }
+
+    private static BadgeRuleDto MapToDto(BadgeRule rule)
+    {
+        return new BadgeRuleDto(
+            Id: rule.Id,
+            BadgeType: MapToDto(rule.BadgeType),
+            Trigger: rule.Trigger,
+            Threshold: rule.Threshold,
+            IsActive: rule.IsActive,
+            CreatedAt: rule.CreatedAt
+        );
+    }
+}
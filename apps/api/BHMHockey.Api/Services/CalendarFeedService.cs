@@ -0,0 +1,137 @@
+using System.Security.Cryptography;
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace BHMHockey.Api.Services;
+
+public class CalendarFeedService : ICalendarFeedService
+{
+    private readonly AppDbContext _context;
+    private readonly ITournamentService _tournamentService;
+    private readonly IConfiguration _configuration;
+
+    private const string DefaultPublicBaseUrl = "https://bhmhockey-mb3md.ondigitalocean.app";
+
+    // Games stay in subscribed calendars for a while after they're played
+    private static readonly TimeSpan PastGamesWindow = TimeSpan.FromDays(30);
+
+    public CalendarFeedService(
+        AppDbContext context,
+        ITournamentService tournamentService,
+        IConfiguration configuration)
+    {
+        _context = context;
+        _tournamentService = tournamentService;
+        _configuration = configuration;
+    }
+
+    public async Task<CalendarFeedDto?> GetFeedAsync(Guid userId)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null) return null;
+
+        if (user.CalendarFeedToken == null)
+        {
+            IssueToken(user);
+            await _context.SaveChangesAsync();
+        }
+
+        return MapToDto(user);
+    }
+
+    public async Task<CalendarFeedDto?> ResetFeedAsync(Guid userId)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null) return null;
+
+        IssueToken(user);
+        await _context.SaveChangesAsync();
+
+        return MapToDto(user);
+    }
+
+    public async Task<string?> BuildFeedAsync(string token)
+    {
+        var user = await _context.Users.FirstOrDefaultAsync(u => u.CalendarFeedToken == token);
+        if (user == null) return null;
+
+        var now = DateTime.UtcNow;
+        var since = now - PastGamesWindow;
+
+        var registrations = await _context.EventRegistrations
+            .Include(r => r.Event)
+                .ThenInclude(e => e.Organization)
+            .Where(r => r.UserId == user.Id && r.Status == "Registered")
+            .Where(r => r.Event.Status != "Cancelled" && r.Event.EventDate >= since)
+            .ToListAsync();
+
+        var matches = await _tournamentService.GetUpcomingMatchesForUserAsync(user.Id);
+
+        var entries = registrations.Select(EventToEntry)
+            .Concat(matches.Where(m => m.ScheduledTime.HasValue).Select(MatchToEntry))
+            .OrderBy(e => e.Start)
+            .ToList();
+
+        return IcsCalendar.Build(entries, IcsCalendar.FeedName, now);
+    }
+
+    /// <summary>
+    /// A pickup game. The description carries the venue, duration and the player's team color once teams are set.
+    /// </summary>
+    private static IcsCalendar.Entry EventToEntry(EventRegistration registration)
+    {
+        var evt = registration.Event;
+        var organizationName = evt.Organization?.Name;
+        var title = evt.Name ?? $"{organizationName ?? "Pickup"} Hockey";
+        var details = new[]
+        {
+            organizationName != null && evt.Name != null ? organizationName : null,
+            evt.Venue != null ? $"Venue: {evt.Venue}" : null,
+            $"Duration: {evt.Duration} min",
+            registration.TeamAssignment != null ? $"Team: {registration.TeamAssignment} jersey" : null
+        }.Where(line => line != null);
+
+        return new IcsCalendar.Entry(
+            $"event-{evt.Id}@{IcsCalendar.UidDomain}",
+            title,
+            evt.EventDate,
+            evt.Duration,
+            evt.Venue,
+            string.Join("\n", details));
+    }
+
+    private static IcsCalendar.Entry MatchToEntry(UpcomingTournamentMatchDto match)
+    {
+        var details = new[]
+        {
+            $"Round {match.Round}, Match {match.MatchNumber}",
+            match.Venue != null ? $"Venue: {match.Venue}" : null,
+            match.IsHomeTeam ? "Home" : "Away"
+        }.Where(line => line != null);
+
+        return new IcsCalendar.Entry(
+            $"match-{match.Id}@{IcsCalendar.UidDomain}",
+            $"{match.TournamentName}: {match.UserTeamName} vs {match.OpponentTeamName ?? "TBD"}",
+            match.ScheduledTime!.Value,
+            IcsCalendar.DefaultMatchDurationMinutes,
+            match.Venue,
+            string.Join("\n", details));
+    }
+
+    private static void IssueToken(User user)
+    {
+        user.CalendarFeedToken = Convert.ToHexString(RandomNumberGenerator.GetBytes(32)).ToLowerInvariant();
+        user.CalendarFeedCreatedAt = DateTime.UtcNow;
+    }
+
+    private CalendarFeedDto MapToDto(User user)
+    {
+        var baseUrl = (_configuration["Api:PublicBaseUrl"] ?? DefaultPublicBaseUrl).TrimEnd('/');
+        var url = $"{baseUrl}/api/calendar-feeds/{user.CalendarFeedToken}.ics";
+        var webcalUrl = "webcal://" + url[(url.IndexOf("://", StringComparison.Ordinal) + 3)..];
+
+        return new CalendarFeedDto(url, webcalUrl, user.CalendarFeedCreatedAt!.Value);
+    }
+}
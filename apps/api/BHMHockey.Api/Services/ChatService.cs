@@ -0,0 +1,318 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace BHMHockey.Api.Services;
+
+public class ChatService : IChatService
+{
+    private readonly AppDbContext _context;
+    private readonly IOrganizationAdminService _adminService;
+    private readonly INotificationService _notificationService;
+    private readonly ILogger<ChatService> _logger;
+
+    // Mirrors the shared CHAT constants
+    private const int DefaultPageSize = 30;
+    private const int MaxPageSize = 100;
+    private const int MaxMessageLength = 1000;
+
+    public ChatService(
+        AppDbContext context,
+        IOrganizationAdminService adminService,
+        INotificationService notificationService,
+        ILogger<ChatService> logger)
+    {
+        _context = context;
+        _adminService = adminService;
+        _notificationService = notificationService;
+        _logger = logger;
+    }
+
+    // A resolved thread: the event (event threads) and the organization that owns the chat
+    private record ChatThread(string Type, Guid Id, Organization Organization, Event? Event);
+
+    public async Task<ChatMessagePageDto?> GetMessagesAsync(string threadType, Guid threadId, Guid userId, string? before, int? limit)
+    {
+        var thread = await FindThreadAsync(threadType, threadId);
+        if (thread == null) return null;
+
+        await EnsureParticipantAsync(thread, userId);
+
+        var pageSize = Math.Clamp(limit ?? DefaultPageSize, 1, MaxPageSize);
+        var query = ThreadMessages(thread);
+
+        if (!string.IsNullOrEmpty(before))
+        {
+            var cursor = Guid.TryParse(before, out var cursorId)
+                ? await query.FirstOrDefaultAsync(m => m.Id == cursorId)
+                : null;
+            if (cursor == null)
+            {
+                throw new InvalidOperationException("Invalid cursor");
+            }
+
+            query = query.Where(m => m.CreatedAt < cursor.CreatedAt);
+        }
+
+        // One extra row tells whether there's an older page
+        var messages = await query
+            .Include(m => m.SenderUser)
+            .OrderByDescending(m => m.CreatedAt)
+            .Take(pageSize + 1)
+            .ToListAsync();
+        var hasMore = messages.Count > pageSize;
+        if (hasMore) messages.RemoveAt(messages.Count - 1);
+
+        var pinned = await ThreadMessages(thread)
+            .Include(m => m.SenderUser)
+            .Where(m => m.IsPinned)
+            .OrderByDescending(m => m.PinnedAt)
+            .ToListAsync();
+
+        return new ChatMessagePageDto(
+            messages.Select(m => MapToDto(m, thread)).ToList(),
+            pinned.Select(m => MapToDto(m, thread)).ToList(),
+            hasMore ? messages[^1].Id.ToString() : null);
+    }
+
+    public async Task<ChatMessageDto?> SendMessageAsync(string threadType, Guid threadId, SendChatMessageRequest request, Guid userId)
+    {
+        var thread = await FindThreadAsync(threadType, threadId);
+        if (thread == null) return null;
+
+        var participantIds = await GetParticipantIdsAsync(thread);
+        if (!participantIds.Contains(userId))
+        {
+            throw new UnauthorizedAccessException("Only players in this chat can post.");
+        }
+
+        var body = request.Body?.Trim();
+        if (string.IsNullOrEmpty(body))
+        {
+            throw new InvalidOperationException("Message can't be empty.");
+        }
+        if (body.Length > MaxMessageLength)
+        {
+            throw new InvalidOperationException($"Messages can be at most {MaxMessageLength} characters.");
+        }
+
+        // Only people who can read the thread are notified; the sender never is
+        var mentionedUserIds = (request.MentionedUserIds ?? new List<Guid>())
+            .Where(id => id != userId && participantIds.Contains(id))
+            .Distinct()
+            .ToList();
+
+        var message = new ChatMessage
+        {
+            EventId = thread.Event?.Id,
+            OrganizationId = thread.Event == null ? thread.Organization.Id : null,
+            SenderUserId = userId,
+            Body = body,
+            MentionedUserIds = mentionedUserIds,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        _context.ChatMessages.Add(message);
+        await _context.SaveChangesAsync();
+
+        await _context.Entry(message).Reference(m => m.SenderUser).LoadAsync();
+
+        if (mentionedUserIds.Any())
+        {
+            await NotifyMentionedUsersAsync(thread, message);
+        }
+
+        return MapToDto(message, thread);
+    }
+
+    public async Task<ChatMessageDto?> SetPinnedAsync(Guid messageId, bool isPinned, Guid userId)
+    {
+        var message = await _context.ChatMessages
+            .Include(m => m.SenderUser)
+            .Include(m => m.Event)
+            .FirstOrDefaultAsync(m => m.Id == messageId && m.DeletedAt == null);
+        if (message == null) return null;
+
+        var thread = await FindThreadAsync(message);
+        if (thread == null) return null;
+
+        if (!await _adminService.IsUserAdminAsync(thread.Organization.Id, userId))
+        {
+            throw new UnauthorizedAccessException("Only organizers can pin messages.");
+        }
+
+        if (message.IsPinned != isPinned)
+        {
+            message.IsPinned = isPinned;
+            message.PinnedAt = isPinned ? DateTime.UtcNow : null;
+            message.PinnedByUserId = isPinned ? userId : null;
+            await _context.SaveChangesAsync();
+        }
+
+        return MapToDto(message, thread);
+    }
+
+    public async Task<bool> DeleteMessageAsync(Guid messageId, Guid userId)
+    {
+        var message = await _context.ChatMessages
+            .Include(m => m.Event)
+            .FirstOrDefaultAsync(m => m.Id == messageId && m.DeletedAt == null);
+        if (message == null) return false;
+
+        if (message.SenderUserId != userId)
+        {
+            var organizationId = message.OrganizationId ?? message.Event?.OrganizationId;
+            if (!organizationId.HasValue || !await _adminService.IsUserAdminAsync(organizationId.Value, userId))
+            {
+                throw new UnauthorizedAccessException("Only the sender or an organizer can delete this message.");
+            }
+        }
+
+        // Soft delete
+        message.DeletedAt = DateTime.UtcNow;
+        message.IsPinned = false;
+        await _context.SaveChangesAsync();
+
+        return true;
+    }
+
+    private async Task<ChatThread?> FindThreadAsync(string threadType, Guid threadId)
+    {
+        Organization? organization;
+        Event? evt = null;
+
+        if (threadType == "Event")
+        {
+            evt = await _context.Events
+                .Include(e => e.Organization)
+                .FirstOrDefaultAsync(e => e.Id == threadId);
+            if (evt == null) return null;
+            organization = evt.Organization;
+        }
+        else
+        {
+            organization = await _context.Organizations.FindAsync(threadId);
+            if (organization == null) return null;
+        }
+
+        if (organization == null || !organization.InAppChatEnabled)
+        {
+            throw new InvalidOperationException("In-app chat isn't turned on for this organization.");
+        }
+
+        return new ChatThread(threadType, threadId, organization, evt);
+    }
+
+    private async Task<ChatThread?> FindThreadAsync(ChatMessage message)
+    {
+        try
+        {
+            return message.EventId.HasValue
+                ? await FindThreadAsync("Event", message.EventId.Value)
+                : await FindThreadAsync("Organization", message.OrganizationId!.Value);
+        }
+        catch (InvalidOperationException)
+        {
+            // Chat was turned off after the message was posted
+            return null;
+        }
+    }
+
+    private IQueryable<ChatMessage> ThreadMessages(ChatThread thread)
+    {
+        var query = _context.ChatMessages.Where(m => m.DeletedAt == null);
+        return thread.Event != null
+            ? query.Where(m => m.EventId == thread.Event.Id)
+            : query.Where(m => m.OrganizationId == thread.Organization.Id);
+    }
+
+    /// <summary>
+    /// Everyone who can read the thread: the organization's admins plus registered and
+    /// waitlisted players (event threads) or subscribers (organization threads)
+    /// </summary>
+    private async Task<HashSet<Guid>> GetParticipantIdsAsync(ChatThread thread)
+    {
+        var participantIds = thread.Event != null
+            ? await _context.EventRegistrations
+                .Where(r => r.EventId == thread.Event.Id && (r.Status == "Registered" || r.Status == "Waitlisted"))
+                .Select(r => r.UserId)
+                .ToListAsync()
+            : await _context.OrganizationSubscriptions
+                .Where(s => s.OrganizationId == thread.Organization.Id)
+                .Select(s => s.UserId)
+                .ToListAsync();
+
+        var adminIds = await _context.OrganizationAdmins
+            .Where(a => a.OrganizationId == thread.Organization.Id)
+            .Select(a => a.UserId)
+            .ToListAsync();
+
+        return participantIds.Concat(adminIds).ToHashSet();
+    }
+
+    private async Task EnsureParticipantAsync(ChatThread thread, Guid userId)
+    {
+        var participantIds = await GetParticipantIdsAsync(thread);
+        if (!participantIds.Contains(userId))
+        {
+            throw new UnauthorizedAccessException(thread.Event != null
+                ? "Only registered and waitlisted players can read this chat."
+                : "Only members can read this chat.");
+        }
+    }
+
+    private async Task NotifyMentionedUsersAsync(ChatThread thread, ChatMessage message)
+    {
+        var recipients = await _context.Users
+            .Where(u => message.MentionedUserIds.Contains(u.Id) && !string.IsNullOrEmpty(u.PushToken))
+            .Select(u => new { u.Id, u.PushToken })
+            .ToListAsync();
+
+        var threadName = thread.Event != null ? thread.Event.Name ?? "Hockey Game" : thread.Organization.Name;
+        var preview = message.Body.Length > 200 ? message.Body.Substring(0, 197) + "..." : message.Body;
+
+        foreach (var recipient in recipients)
+        {
+            try
+            {
+                await _notificationService.SendPushNotificationAsync(
+                    recipient.PushToken!,
+                    $"{message.SenderUser.FirstName} mentioned you in {threadName}",
+                    preview,
+                    new
+                    {
+                        eventId = thread.Event?.Id.ToString(),
+                        organizationId = thread.Organization.Id.ToString(),
+                        messageId = message.Id.ToString(),
+                        type = "chat_mention"
+                    },
+                    userId: recipient.Id,
+                    type: "chat_mention",
+                    organizationId: thread.Organization.Id,
+                    eventId: thread.Event?.Id);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to send chat mention {MessageId} to user {UserId}", message.Id, recipient.Id);
+            }
+        }
+    }
+
+    private static ChatMessageDto MapToDto(ChatMessage message, ChatThread thread)
+    {
+        return new ChatMessageDto(
+            message.Id,
+            thread.Type,
+            thread.Id,
+            message.SenderUserId,
+            message.SenderUser.FirstName,
+            message.SenderUser.LastName,
+            message.Body,
+            message.MentionedUserIds,
+            message.IsPinned,
+            message.PinnedAt,
+            message.CreatedAt
+        );
+    }
+}
@@ -0,0 +1,83 @@
+using System.Text.Json;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Reads and validates Tournament.CustomQuestions. Version 1 stored a bare question array;
+/// later versions store { "version": n, "questions": [...] } (CustomQuestionSchema in the
+/// shared package). Both shapes are accepted.
+/// </summary>
+public static class CustomQuestionSchema
+{
+    /// <summary>
+    /// Latest schema version the API understands (matches CUSTOM_QUESTIONS_SCHEMA_VERSION).
+    /// </summary>
+    public const int CurrentVersion = 2;
+
+    /// <summary>
+    /// Throws InvalidOperationException unless the JSON is a question array or a versioned
+    /// schema with a supported version. Null/empty input (no questions) is valid.
+    /// </summary>
+    public static void Validate(string? customQuestionsJson)
+    {
+        if (string.IsNullOrWhiteSpace(customQuestionsJson)) return;
+
+        JsonElement root;
+        try
+        {
+            root = JsonSerializer.Deserialize<JsonElement>(customQuestionsJson);
+        }
+        catch (JsonException)
+        {
+            throw new InvalidOperationException("Custom questions must be valid JSON.");
+        }
+
+        if (root.ValueKind == JsonValueKind.Array) return;
+
+        if (root.ValueKind != JsonValueKind.Object ||
+            !root.TryGetProperty("version", out var version) ||
+            !version.TryGetInt32(out var versionNumber))
+        {
+            throw new InvalidOperationException("Custom questions must be a question list or a versioned schema.");
+        }
+
+        if (versionNumber < 1 || versionNumber > CurrentVersion)
+        {
+            throw new InvalidOperationException(
+                $"Custom questions schema version {versionNumber} is not supported. Latest supported version is {CurrentVersion}.");
+        }
+
+        if (!root.TryGetProperty("questions", out var questions) || questions.ValueKind != JsonValueKind.Array)
+        {
+            throw new InvalidOperationException("Custom questions schema is missing its question list.");
+        }
+    }
+
+    /// <summary>
+    /// Returns the question array from either shape, or null when there is none or the JSON
+    /// can't be read.
+    /// </summary>
+    public static JsonElement? GetQuestions(string? customQuestionsJson)
+    {
+        if (string.IsNullOrWhiteSpace(customQuestionsJson)) return null;
+
+        try
+        {
+            var root = JsonSerializer.Deserialize<JsonElement>(customQuestionsJson);
+            if (root.ValueKind == JsonValueKind.Array) return root;
+
+            if (root.ValueKind == JsonValueKind.Object &&
+                root.TryGetProperty("questions", out var questions) &&
+                questions.ValueKind == JsonValueKind.Array)
+            {
+                return questions;
+            }
+        }
+        catch (JsonException)
+        {
+            // Unreadable JSON has no questions
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,369 @@
+using System.Security.Cryptography;
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using BHMHockey.Api.Models.Exceptions;
+using Microsoft.EntityFrameworkCore;
+
+namespace BHMHockey.Api.Services;
+
+public class EventInvitationService : IEventInvitationService
+{
+    private readonly AppDbContext _context;
+    private readonly IEventService _eventService;
+    private readonly INotificationService _notificationService;
+    private readonly ILogger<EventInvitationService> _logger;
+
+    private const string InviteUrlPrefix = "bhmhockey://invite/";
+    private const int MinLinkExpiryHours = 1;
+    private const int MaxLinkExpiryHours = 720;  // 30 days
+
+    // Central Time Zone for displaying times to users (local community app)
+    private static readonly TimeZoneInfo CentralTimeZone = TimeZoneInfo.FindSystemTimeZoneById("America/Chicago");
+
+    public EventInvitationService(
+        AppDbContext context,
+        IEventService eventService,
+        INotificationService notificationService,
+        ILogger<EventInvitationService> logger)
+    {
+        _context = context;
+        _eventService = eventService;
+        _notificationService = notificationService;
+        _logger = logger;
+    }
+
+    #region Invitations
+
+    public async Task<bool> InvitePlayersAsync(Guid eventId, List<Guid> userIds, Guid organizerId)
+    {
+        var evt = await GetManagedEventAsync(eventId, organizerId);
+        if (evt == null) return false;
+
+        EnsureOpenForInvites(evt);
+        if (userIds.Count == 0)
+        {
+            throw new InvalidOperationException("Select at least one player to invite");
+        }
+
+        var requestedIds = userIds.Distinct().ToList();
+        var users = await _context.Users
+            .Where(u => requestedIds.Contains(u.Id) && !u.IsGhostPlayer && u.Id != organizerId)
+            .ToListAsync();
+        var invitees = await ExcludeInvitedOrRegisteredAsync(evt, users);
+
+        if (evt.Visibility == "InviteOnly")
+        {
+            AddInvitations(evt, invitees, "Direct", organizerId);
+            await _context.SaveChangesAsync();
+        }
+
+        await NotifyInviteesAsync(evt, invitees);
+        return true;
+    }
+
+    public async Task<InviteOrganizationMembersResponse?> InviteOrganizationMembersAsync(
+        Guid eventId, InviteOrganizationMembersRequest request, Guid organizerId)
+    {
+        var evt = await GetManagedEventAsync(eventId, organizerId);
+        if (evt == null) return null;
+
+        EnsureOpenForInvites(evt);
+        if (evt.Visibility != "InviteOnly" || !evt.OrganizationId.HasValue)
+        {
+            throw new InvalidOperationException("Organization member invites are only for invite-only organization events");
+        }
+
+        var members = await _context.OrganizationSubscriptions
+            .Where(s => s.OrganizationId == evt.OrganizationId.Value && !s.User.IsGhostPlayer && s.UserId != organizerId)
+            .Select(s => s.User)
+            .ToListAsync();
+
+        // Skill filter matches on any of the member's positions
+        var skillLevels = request.SkillLevels;
+        if (skillLevels != null && skillLevels.Count > 0)
+        {
+            members = members
+                .Where(u => u.Positions != null && u.Positions.Values.Any(skillLevels.Contains))
+                .ToList();
+        }
+
+        var invitees = await ExcludeInvitedOrRegisteredAsync(evt, members);
+        AddInvitations(evt, invitees, "OrganizationMembers", organizerId);
+        await _context.SaveChangesAsync();
+
+        await NotifyInviteesAsync(evt, invitees);
+        return new InviteOrganizationMembersResponse(invitees.Count);
+    }
+
+    public async Task<List<EventInvitationDto>?> GetInvitationsAsync(Guid eventId, Guid organizerId)
+    {
+        var evt = await GetManagedEventAsync(eventId, organizerId);
+        if (evt == null) return null;
+
+        var invitations = await _context.EventInvitations
+            .Include(i => i.User)
+            .Where(i => i.EventId == eventId)
+            .OrderBy(i => i.InvitedAt)
+            .ToListAsync();
+
+        return invitations.Select(MapToDto).ToList();
+    }
+
+    public async Task<bool> RevokeInvitationAsync(Guid eventId, Guid invitationId, Guid organizerId)
+    {
+        var evt = await GetManagedEventAsync(eventId, organizerId);
+        if (evt == null) return false;
+
+        var invitation = await _context.EventInvitations
+            .FirstOrDefaultAsync(i => i.Id == invitationId && i.EventId == eventId);
+        if (invitation == null) return false;
+
+        _context.EventInvitations.Remove(invitation);
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    public async Task<bool> DeclineInvitationAsync(Guid eventId, Guid userId)
+    {
+        var invitation = await _context.EventInvitations
+            .FirstOrDefaultAsync(i => i.EventId == eventId && i.UserId == userId);
+        if (invitation == null) return false;
+
+        var isSignedUp = await _context.EventRegistrations
+            .AnyAsync(r => r.EventId == eventId && r.UserId == userId && (r.Status == "Registered" || r.Status == "Waitlisted"));
+        if (isSignedUp)
+        {
+            throw new InvalidOperationException("You're already signed up for this event. Cancel your registration instead.");
+        }
+
+        invitation.Status = "Declined";
+        invitation.RespondedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    #endregion
+
+    #region Invite Links
+
+    public async Task<List<EventInviteLinkDto>?> GetInviteLinksAsync(Guid eventId, Guid organizerId)
+    {
+        var evt = await GetManagedEventAsync(eventId, organizerId);
+        if (evt == null) return null;
+
+        var links = await _context.EventInviteLinks
+            .Where(l => l.EventId == eventId)
+            .OrderByDescending(l => l.CreatedAt)
+            .ToListAsync();
+
+        return links.Select(MapToDto).ToList();
+    }
+
+    public async Task<EventInviteLinkDto?> CreateInviteLinkAsync(Guid eventId, CreateEventInviteLinkRequest request, Guid organizerId)
+    {
+        var evt = await GetManagedEventAsync(eventId, organizerId);
+        if (evt == null) return null;
+
+        EnsureOpenForInvites(evt);
+        if (evt.Visibility != "InviteOnly")
+        {
+            throw new InvalidOperationException("Invite links are only for invite-only events");
+        }
+
+        if (request.ExpiresInHours.HasValue &&
+            (request.ExpiresInHours.Value < MinLinkExpiryHours || request.ExpiresInHours.Value > MaxLinkExpiryHours))
+        {
+            throw new InvalidOperationException($"ExpiresInHours must be between {MinLinkExpiryHours} and {MaxLinkExpiryHours}");
+        }
+
+        var link = new EventInviteLink
+        {
+            EventId = eventId,
+            Token = Convert.ToHexString(RandomNumberGenerator.GetBytes(16)).ToLowerInvariant(),
+            CreatedByUserId = organizerId,
+            ExpiresAt = request.ExpiresInHours.HasValue ? DateTime.UtcNow.AddHours(request.ExpiresInHours.Value) : null
+        };
+        _context.EventInviteLinks.Add(link);
+        await _context.SaveChangesAsync();
+
+        return MapToDto(link);
+    }
+
+    public async Task<bool> RevokeInviteLinkAsync(Guid eventId, Guid linkId, Guid organizerId)
+    {
+        var evt = await GetManagedEventAsync(eventId, organizerId);
+        if (evt == null) return false;
+
+        var link = await _context.EventInviteLinks
+            .FirstOrDefaultAsync(l => l.Id == linkId && l.EventId == eventId);
+        if (link == null) return false;
+
+        link.RevokedAt ??= DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    public async Task<EventDto?> RedeemInviteLinkAsync(string token, Guid userId)
+    {
+        var link = await _context.EventInviteLinks
+            .Include(l => l.Event)
+            .FirstOrDefaultAsync(l => l.Token == token);
+        if (link == null || link.RevokedAt.HasValue) return null;
+
+        var evt = link.Event;
+        var now = DateTime.UtcNow;
+        if (link.ExpiresAt <= now || evt.EventDate <= now)
+        {
+            throw new InviteLinkExpiredException("This invite link has expired");
+        }
+
+        if (evt.Status == "Cancelled")
+        {
+            throw new InvalidOperationException("This event has been cancelled");
+        }
+
+        // Managers and players already invited or signed up just land on the event
+        var alreadyIn = await _eventService.CanUserManageEventAsync(evt.Id, userId) ||
+            await _context.EventInvitations.AnyAsync(i => i.EventId == evt.Id && i.UserId == userId) ||
+            await _context.EventRegistrations.AnyAsync(r => r.EventId == evt.Id && r.UserId == userId && r.Status != "Cancelled");
+        if (!alreadyIn)
+        {
+            _context.EventInvitations.Add(new EventInvitation
+            {
+                EventId = evt.Id,
+                UserId = userId,
+                Source = "Link",
+                InviteLinkId = link.Id
+            });
+            link.UseCount++;
+            await _context.SaveChangesAsync();
+        }
+
+        return await _eventService.GetByIdAsync(evt.Id, userId);
+    }
+
+    #endregion
+
+    #region Helpers
+
+    /// <summary>
+    /// Loads the event, or null if it doesn't exist. Throws if the user can't manage it.
+    /// </summary>
+    private async Task<Event?> GetManagedEventAsync(Guid eventId, Guid userId)
+    {
+        var evt = await _context.Events
+            .Include(e => e.Organization)
+            .FirstOrDefaultAsync(e => e.Id == eventId);
+        if (evt == null) return null;
+
+        if (!await _eventService.CanUserManageEventAsync(eventId, userId))
+        {
+            throw new UnauthorizedAccessException("You don't have permission to manage this event");
+        }
+
+        return evt;
+    }
+
+    private static void EnsureOpenForInvites(Event evt)
+    {
+        if (evt.Status == "Cancelled")
+        {
+            throw new InvalidOperationException("Can't invite players to a cancelled event");
+        }
+
+        if (evt.EventDate <= DateTime.UtcNow)
+        {
+            throw new InvalidOperationException("This event has already started");
+        }
+    }
+
+    private async Task<List<User>> ExcludeInvitedOrRegisteredAsync(Event evt, List<User> users)
+    {
+        var userIds = users.Select(u => u.Id).ToList();
+        var invitedIds = await _context.EventInvitations
+            .Where(i => i.EventId == evt.Id && userIds.Contains(i.UserId))
+            .Select(i => i.UserId)
+            .ToListAsync();
+        var registeredIds = await _context.EventRegistrations
+            .Where(r => r.EventId == evt.Id && userIds.Contains(r.UserId) && r.Status != "Cancelled")
+            .Select(r => r.UserId)
+            .ToListAsync();
+
+        var skip = invitedIds.Concat(registeredIds).ToHashSet();
+        return users.Where(u => !skip.Contains(u.Id)).ToList();
+    }
+
+    private void AddInvitations(Event evt, List<User> invitees, string source, Guid organizerId)
+    {
+        foreach (var user in invitees)
+        {
+            _context.EventInvitations.Add(new EventInvitation
+            {
+                EventId = evt.Id,
+                UserId = user.Id,
+                InvitedByUserId = organizerId,
+                Source = source
+            });
+        }
+    }
+
+    private async Task NotifyInviteesAsync(Event evt, List<User> invitees)
+    {
+        var eventName = evt.Name ?? "Pickup game";
+        var eventDate = TimeZoneInfo.ConvertTimeFromUtc(evt.EventDate, CentralTimeZone);
+        var from = evt.Organization?.Name ?? "An organizer";
+        var body = $"{from} invited you to {eventName} on {eventDate:ddd, MMM d 'at' h:mm tt}.";
+
+        foreach (var user in invitees.Where(u => !string.IsNullOrEmpty(u.PushToken)))
+        {
+            try
+            {
+                await _notificationService.SendPushNotificationAsync(
+                    user.PushToken!,
+                    "You're Invited",
+                    body,
+                    new { eventId = evt.Id.ToString(), type = "event_invite" },
+                    userId: user.Id,
+                    type: "event_invite",
+                    organizationId: evt.OrganizationId,
+                    eventId: evt.Id);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to send invite for event {EventId} to user {UserId}", evt.Id, user.Id);
+            }
+        }
+    }
+
+    private static EventInvitationDto MapToDto(EventInvitation invitation)
+    {
+        return new EventInvitationDto(
+            invitation.Id,
+            invitation.EventId,
+            invitation.UserId,
+            invitation.User.FirstName,
+            invitation.User.LastName,
+            invitation.Status,
+            invitation.Source,
+            invitation.InvitedAt,
+            invitation.RespondedAt
+        );
+    }
+
+    private static EventInviteLinkDto MapToDto(EventInviteLink link)
+    {
+        return new EventInviteLinkDto(
+            link.Id,
+            link.EventId,
+            link.Token,
+            InviteUrlPrefix + link.Token,
+            link.CreatedAt,
+            link.ExpiresAt,
+            link.RevokedAt,
+            link.UseCount
+        );
+    }
+
+    #endregion
+}
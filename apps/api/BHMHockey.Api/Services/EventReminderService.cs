@@ -12,8 +12,10 @@ public class EventReminderService : IEventReminderService
     // Central Time Zone for displaying times to users (local community app)
     private static readonly TimeZoneInfo CentralTimeZone = TimeZoneInfo.FindSystemTimeZoneById("America/Chicago");
 
-    // Send player reminders 1 hour before event
-    private static readonly TimeSpan PlayerReminderWindow = TimeSpan.FromHours(1);
+    // Players pick their own reminder lead time (NotificationPreferences.GameReminderHourOptions),
+    // so look this far ahead for games that still have reminders to send
+    private static readonly TimeSpan PlayerReminderLookahead =
+        TimeSpan.FromHours(NotificationPreferences.GameReminderHourOptions.Max());
     // Send organizer payment reminders 5 hours before event
     private static readonly TimeSpan OrganizerPaymentReminderWindow = TimeSpan.FromHours(5);
 
@@ -30,20 +32,29 @@ public class EventReminderService : IEventReminderService
     public async Task SendPlayerRemindersAsync()
     {
         var now = DateTime.UtcNow;
-        var reminderCutoff = now.Add(PlayerReminderWindow);
+        var lookaheadCutoff = now.Add(PlayerReminderLookahead);
 
-        // Find events starting within the next hour that haven't had reminders sent
-        var eventsToRemind = await _context.Events
+        // Events starting within the longest lead time. PlayerReminderSentAt marks events
+        // reminded before lead times were per player.
+        var upcomingEvents = await _context.Events
             .Include(e => e.Registrations)
                 .ThenInclude(r => r.User)
             .Where(e => e.Status == "Published")
             .Where(e => e.EventDate > now) // Event hasn't started yet
-            .Where(e => e.EventDate <= reminderCutoff) // Starting within 1 hour
-            .Where(e => e.PlayerReminderSentAt == null) // Reminder not sent yet
+            .Where(e => e.EventDate <= lookaheadCutoff)
+            .Where(e => e.PlayerReminderSentAt == null)
             .ToListAsync();
 
-        foreach (var evt in eventsToRemind)
+        foreach (var evt in upcomingEvents)
         {
+            // Registered players whose own lead time has been reached
+            var playersToRemind = evt.Registrations
+                .Where(r => r.Status == "Registered" && r.ReminderSentAt == null)
+                .Where(r => evt.EventDate <= now.AddHours(r.User.GameReminderHours ?? NotificationPreferences.DefaultGameReminderHours))
+                .ToList();
+
+            if (!playersToRemind.Any()) continue;
+
             _logger.LogInformation(
                 "Sending player reminders for event {EventId} starting at {EventDate}",
                 evt.Id, evt.EventDate);
@@ -53,19 +64,18 @@ public class EventReminderService : IEventReminderService
             var localEventDate = TimeZoneInfo.ConvertTimeFromUtc(evt.EventDate, CentralTimeZone);
             var eventTime = localEventDate.ToString("h:mm tt");
 
-            // Send to each registered player with a push token
-            var registeredPlayers = evt.Registrations
-                .Where(r => r.Status == "Registered" && !string.IsNullOrEmpty(r.User.PushToken))
-                .ToList();
-
-            foreach (var registration in registeredPlayers)
+            foreach (var registration in playersToRemind)
             {
+                // Marked even without a push token so the player isn't re-checked every run
+                registration.ReminderSentAt = now;
+                if (string.IsNullOrEmpty(registration.User.PushToken)) continue;
+
                 var teamInfo = registration.TeamAssignment != null
                     ? $"You're on Team {registration.TeamAssignment}."
                     : "";
 
                 await _notificationService.SendPushNotificationAsync(
-                    registration.User.PushToken!,
+                    registration.User.PushToken,
                     "Game Starting Soon!",
                     $"{eventName} starts at {eventTime}. {teamInfo}",
                     new { eventId = evt.Id.ToString(), type = "game_reminder" },
@@ -75,13 +85,11 @@ public class EventReminderService : IEventReminderService
                     eventId: evt.Id);
             }
 
-            // Mark reminder as sent
-            evt.PlayerReminderSentAt = now;
             await _context.SaveChangesAsync();
 
             _logger.LogInformation(
                 "Sent player reminders to {Count} players for event {EventId}",
-                registeredPlayers.Count, evt.Id);
+                playersToRemind.Count, evt.Id);
         }
     }
 
@@ -1,4 +1,7 @@
 using System.Data;
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
 using BHMHockey.Api.Data;
 using BHMHockey.Api.Models.DTOs;
 using BHMHockey.Api.Models.Entities;
@@ -15,6 +18,9 @@ public class EventService : IEventService
     private readonly IOrganizationWaiverService _waiverService;
     private readonly ILogger<EventService> _logger;
     private static readonly HashSet<string> ValidSkillLevels = new() { "Gold", "Silver", "Bronze", "D-League" };
+    private static readonly HashSet<string> ValidRecurrenceFrequencies = new() { "Weekly", "BiWeekly", "SpecificDates" };
+    private static readonly HashSet<string> ValidSeriesEditScopes = new() { "ThisEvent", "ThisAndFuture" };
+    private const int MaxSeriesGames = 52;  // One season of weekly games
 
     // Central Time Zone for displaying times to users (local community app)
     private static readonly TimeZoneInfo CentralTimeZone = TimeZoneInfo.FindSystemTimeZoneById("America/Chicago");
@@ -89,6 +95,68 @@ public class EventService : IEventService
     }
 
     public async Task<EventDto> CreateAsync(CreateEventRequest request, Guid creatorId)
+    {
+        var evt = BuildEvent(request, creatorId);
+
+        _context.Events.Add(evt);
+
+        if (evt.OrganizationId.HasValue)
+        {
+            // Create the event and place the org's auto-roster regulars atomically:
+            // a failure mid-placement must not leave a partially-rostered event committed.
+            // Serializable matches the cancellation/promotion paths elsewhere in this service.
+            await using var transaction = await _context.Database
+                .BeginTransactionAsync(IsolationLevel.Serializable);
+            try
+            {
+                await _context.SaveChangesAsync();
+
+                // Load organization for MapToDto and auto-roster placement
+                evt.Organization = await _context.Organizations.FindAsync(evt.OrganizationId.Value);
+
+                // Auto-add the org's regulars before subscribers are notified,
+                // so they're placed before anyone else can register
+                if (request.ApplyAutoRoster)
+                {
+                    await ApplyAutoRosterAsync(evt);
+                }
+
+                await transaction.CommitAsync();
+            }
+            catch
+            {
+                await transaction.RollbackAsync();
+                throw;
+            }
+
+            // Notify organization subscribers AFTER commit so a rollback can't send a
+            // "New Game" blast for an event that was never persisted
+            var orgName = evt.Organization?.Name ?? "An organization";
+            var venueText = !string.IsNullOrWhiteSpace(evt.Venue) ? $" - {evt.Venue}" : "";
+            // Convert UTC to Central Time for display
+            var localEventDate = TimeZoneInfo.ConvertTimeFromUtc(evt.EventDate, CentralTimeZone);
+            await _notificationService.NotifyOrganizationSubscribersAsync(
+                evt.OrganizationId.Value,
+                $"New Game: {evt.Name}",
+                $"{orgName} posted a new game on {localEventDate:MMM d} at {localEventDate:h:mm tt}{venueText}",
+                new { eventId = evt.Id.ToString(), type = "new_event" },
+                type: "new_event",
+                eventId: evt.Id
+            );
+        }
+        else
+        {
+            await _context.SaveChangesAsync();
+        }
+
+        return await MapToDto(evt, creatorId);
+    }
+
+    /// <summary>
+    /// Validates a create request and builds the (unsaved) event entity.
+    /// Shared by single-event and series creation.
+    /// </summary>
+    private Event BuildEvent(CreateEventRequest request, Guid creatorId)
     {
         // Validate visibility rules
         var visibility = request.Visibility ?? "Public";
@@ -102,7 +170,7 @@ public class EventService : IEventService
         // Default duration to 60 minutes if not provided
         var duration = request.Duration ?? 60;
 
-        var evt = new Event
+        return new Event
         {
             OrganizationId = request.OrganizationId,
             CreatorId = creatorId,
@@ -119,28 +187,81 @@ public class EventService : IEventService
             GroupMeLink = GroupMeLinkValidator.Normalize(request.GroupMeLink),
             ShowWaitlistBeforePublish = request.ShowWaitlistBeforePublish ?? false
         };
+    }
 
-        _context.Events.Add(evt);
+    public async Task<EventSeriesDto> CreateSeriesAsync(CreateEventSeriesRequest request, Guid creatorId)
+    {
+        if (!ValidRecurrenceFrequencies.Contains(request.Recurrence.Frequency))
+        {
+            throw new InvalidOperationException($"Invalid recurrence frequency: '{request.Recurrence.Frequency}'. Valid values: Weekly, BiWeekly, SpecificDates");
+        }
 
-        if (evt.OrganizationId.HasValue)
+        var eventDates = request.EventDates.Distinct().OrderBy(d => d).ToList();
+        if (eventDates.Count == 0)
         {
-            // Create the event and place the org's auto-roster regulars atomically:
-            // a failure mid-placement must not leave a partially-rostered event committed.
-            // Serializable matches the cancellation/promotion paths elsewhere in this service.
+            throw new InvalidOperationException("A series needs at least one game date");
+        }
+        if (eventDates.Count > MaxSeriesGames)
+        {
+            throw new InvalidOperationException($"A series can have at most {MaxSeriesGames} games");
+        }
+
+        var series = new EventSeries
+        {
+            OrganizationId = request.OrganizationId,
+            CreatorId = creatorId,
+            Recurrence = JsonSerializer.Serialize(request.Recurrence)
+        };
+
+        // The deadline is given for the first game; every game keeps the same lead time
+        var deadlineLead = request.RegistrationDeadline.HasValue
+            ? eventDates[0] - request.RegistrationDeadline.Value
+            : (TimeSpan?)null;
+
+        var events = eventDates
+            .Select(date =>
+            {
+                var evt = BuildEvent(new CreateEventRequest(
+                    date,
+                    request.MaxPlayers,
+                    request.Cost,
+                    request.OrganizationId,
+                    request.Name,
+                    request.Description,
+                    request.Duration,
+                    request.Venue,
+                    deadlineLead.HasValue ? date - deadlineLead.Value : null,
+                    request.Visibility,
+                    request.SkillLevels,
+                    request.ApplyAutoRoster,
+                    request.GroupMeLink,
+                    request.ShowWaitlistBeforePublish), creatorId);
+                evt.SeriesId = series.Id;
+                return evt;
+            })
+            .ToList();
+
+        _context.EventSeries.Add(series);
+        _context.Events.AddRange(events);
+
+        if (series.OrganizationId.HasValue)
+        {
+            // Same atomicity as single-event creation: all games and their
+            // auto-roster placements commit together or not at all
             await using var transaction = await _context.Database
                 .BeginTransactionAsync(IsolationLevel.Serializable);
             try
             {
                 await _context.SaveChangesAsync();
 
-                // Load organization for MapToDto and auto-roster placement
-                evt.Organization = await _context.Organizations.FindAsync(evt.OrganizationId.Value);
-
-                // Auto-add the org's regulars before subscribers are notified,
-                // so they're placed before anyone else can register
-                if (request.ApplyAutoRoster)
+                var organization = await _context.Organizations.FindAsync(series.OrganizationId.Value);
+                foreach (var evt in events)
                 {
-                    await ApplyAutoRosterAsync(evt);
+                    evt.Organization = organization;
+                    if (request.ApplyAutoRoster)
+                    {
+                        await ApplyAutoRosterAsync(evt);
+                    }
                 }
 
                 await transaction.CommitAsync();
@@ -151,19 +272,18 @@ public class EventService : IEventService
                 throw;
             }
 
-            // Notify organization subscribers AFTER commit so a rollback can't send a
-            // "New Game" blast for an event that was never persisted
-            var orgName = evt.Organization?.Name ?? "An organization";
-            var venueText = !string.IsNullOrWhiteSpace(evt.Venue) ? $" - {evt.Venue}" : "";
-            // Convert UTC to Central Time for display
-            var localEventDate = TimeZoneInfo.ConvertTimeFromUtc(evt.EventDate, CentralTimeZone);
+            // One "New Games" push for the whole series instead of one per game
+            var first = events[0];
+            var orgName = first.Organization?.Name ?? "An organization";
+            var venueText = !string.IsNullOrWhiteSpace(first.Venue) ? $" - {first.Venue}" : "";
+            var localFirstDate = TimeZoneInfo.ConvertTimeFromUtc(first.EventDate, CentralTimeZone);
             await _notificationService.NotifyOrganizationSubscribersAsync(
-                evt.OrganizationId.Value,
-                $"New Game: {evt.Name}",
-                $"{orgName} posted a new game on {localEventDate:MMM d} at {localEventDate:h:mm tt}{venueText}",
-                new { eventId = evt.Id.ToString(), type = "new_event" },
+                series.OrganizationId.Value,
+                $"New Games: {first.Name}",
+                $"{orgName} posted {events.Count} games starting {localFirstDate:MMM d} at {localFirstDate:h:mm tt}{venueText}",
+                new { eventId = first.Id.ToString(), type = "new_event" },
                 type: "new_event",
-                eventId: evt.Id
+                eventId: first.Id
             );
         }
         else
@@ -171,7 +291,13 @@ public class EventService : IEventService
             await _context.SaveChangesAsync();
         }
 
-        return await MapToDto(evt, creatorId);
+        var eventDtos = new List<EventDto>();
+        foreach (var evt in events)
+        {
+            eventDtos.Add(await MapToDto(evt, creatorId));
+        }
+
+        return new EventSeriesDto(series.Id, series.OrganizationId, request.Recurrence, eventDtos, series.CreatedAt);
     }
 
     /// <summary>
@@ -302,7 +428,8 @@ public class EventService : IEventService
 
     /// <summary>
     /// Determines if a user can see an event based on visibility rules.
-    /// Phase B: Will add InviteOnly check against EventInvitation table.
+    /// InviteOnly events are visible to invited players (any status - declining doesn't
+    /// lock them out) and to anyone already on the roster or waitlist.
     /// </summary>
     private async Task<bool> CanUserSeeEventAsync(Event evt, Guid? currentUserId, List<Guid> userSubscribedOrgIds)
     {
@@ -326,11 +453,20 @@ public class EventService : IEventService
         {
             "Public" => true,
             "OrganizationMembers" => evt.OrganizationId.HasValue && userSubscribedOrgIds.Contains(evt.OrganizationId.Value),
-            "InviteOnly" => false, // Phase B: Check EventInvitation table
+            "InviteOnly" => currentUserId.HasValue && await IsInvitedOrRegisteredAsync(evt, currentUserId.Value),
             _ => true // Default to visible for unknown visibility types
         };
     }
 
+    private async Task<bool> IsInvitedOrRegisteredAsync(Event evt, Guid userId)
+    {
+        var isRegistered = evt.Registrations?.Any(r => r.UserId == userId && r.Status != "Cancelled") ??
+            await _context.EventRegistrations.AnyAsync(r => r.EventId == evt.Id && r.UserId == userId && r.Status != "Cancelled");
+
+        return isRegistered ||
+            await _context.EventInvitations.AnyAsync(i => i.EventId == evt.Id && i.UserId == userId);
+    }
+
     public async Task<List<EventDto>> GetByOrganizationAsync(Guid organizationId, Guid? currentUserId = null)
     {
         // Check if user is subscribed to this organization
@@ -403,6 +539,51 @@ public class EventService : IEventService
         // Check if user can manage this event
         if (!await CanUserManageEventAsync(evt, userId)) return null;
 
+        var applyTo = request.ApplyTo ?? "ThisEvent";
+        if (!ValidSeriesEditScopes.Contains(applyTo))
+        {
+            throw new InvalidOperationException($"Invalid applyTo: '{applyTo}'. Valid values: ThisEvent, ThisAndFuture");
+        }
+
+        // Later games of the series, loaded before this game's date changes
+        var futureSeriesEvents = new List<Event>();
+        if (applyTo == "ThisAndFuture" && evt.SeriesId.HasValue)
+        {
+            futureSeriesEvents = await _context.Events
+                .Where(e => e.SeriesId == evt.SeriesId && e.Id != evt.Id
+                    && e.EventDate > evt.EventDate && e.Status != "Cancelled")
+                .ToListAsync();
+        }
+
+        // A date or deadline change moves later games by the same amount
+        var dateShift = request.EventDate.HasValue ? request.EventDate.Value - evt.EventDate : TimeSpan.Zero;
+        var deadlineLead = request.RegistrationDeadline.HasValue
+            ? (request.EventDate ?? evt.EventDate) - request.RegistrationDeadline.Value
+            : (TimeSpan?)null;
+
+        ApplyEventUpdate(evt, request);
+
+        foreach (var futureEvent in futureSeriesEvents)
+        {
+            var shiftedDate = futureEvent.EventDate + dateShift;
+            ApplyEventUpdate(futureEvent, request with
+            {
+                EventDate = shiftedDate,
+                RegistrationDeadline = deadlineLead.HasValue ? shiftedDate - deadlineLead.Value : null
+            });
+        }
+
+        await _context.SaveChangesAsync();
+
+        return await MapToDto(evt, userId);
+    }
+
+    /// <summary>
+    /// Applies the non-null fields of an update request to one event.
+    /// Throws InvalidOperationException for invalid visibility or skill levels.
+    /// </summary>
+    private void ApplyEventUpdate(Event evt, UpdateEventRequest request)
+    {
         if (request.Name != null) evt.Name = request.Name;
         if (request.Description != null) evt.Description = request.Description;
         if (request.EventDate.HasValue)
@@ -456,10 +637,6 @@ public class EventService : IEventService
         }
 
         evt.UpdatedAt = DateTime.UtcNow;
-
-        await _context.SaveChangesAsync();
-
-        return await MapToDto(evt, userId);
     }
 
     public async Task<bool> DeleteAsync(Guid id, Guid userId)
@@ -526,15 +703,32 @@ public class EventService : IEventService
             throw new InvalidOperationException("Waiver acceptance required: you must accept this organization's current waiver before registering for this event.");
         }
 
-        // Goalies don't count against MaxPlayers - only skaters do
-        var skaterCount = evt.Registrations.Count(r => r.Status == "Registered" && r.RegisteredPosition != "Goalie");
-        bool isFull = registeredPosition == "Goalie" ? false : skaterCount >= evt.MaxPlayers;
-        bool isPaidEvent = evt.Cost > 0;
-
         // Event managers self-registering skip payment verification: they roster
         // directly as Verified when a spot is open (they'd be verifying themselves)
         bool isManager = await CanUserManageEventAsync(evt, userId);
 
+        // InviteOnly events: only invited players (and managers) can register.
+        // Registering accepts the invitation - including one the player declined earlier.
+        if (evt.Visibility == "InviteOnly" && !isManager)
+        {
+            var invitation = await _context.EventInvitations
+                .FirstOrDefaultAsync(i => i.EventId == eventId && i.UserId == userId);
+            if (invitation == null)
+            {
+                throw new InvalidOperationException("This event is invite-only. Ask the organizer for an invitation.");
+            }
+
+            invitation.Status = "Accepted";
+            invitation.RespondedAt = DateTime.UtcNow;
+        }
+
+        // Goalies don't count against MaxPlayers - only skaters do. Open waitlist offers
+        // hold their spot, so newcomers can't jump ahead of the player it was offered to.
+        var skaterCount = evt.Registrations.Count(r => r.Status == "Registered" && r.RegisteredPosition != "Goalie");
+        var offeredSkaterCount = evt.Registrations.Count(r => WaitlistOffers.IsOfferActive(r, DateTime.UtcNow) && r.RegisteredPosition != "Goalie");
+        bool isFull = registeredPosition == "Goalie" ? false : skaterCount + offeredSkaterCount >= evt.MaxPlayers;
+        bool isPaidEvent = evt.Cost > 0;
+
         // Paid events: ALWAYS waitlist first (organizer verifies payment before adding to roster)
         // Free events: Only waitlist if roster is full
         if ((isPaidEvent && !isManager) || isFull)
@@ -556,6 +750,8 @@ public class EventService : IEventService
                 existingReg.PaymentVerifiedAt = null;
                 existingReg.PromotedAt = null;
                 existingReg.PaymentDeadlineAt = null;
+                existingReg.AttendanceStatus = null;
+                existingReg.CheckedInAt = null;
                 waitlistReg = existingReg;
             }
             else
@@ -623,6 +819,8 @@ public class EventService : IEventService
                 existingReg.PaymentVerifiedAt = paymentVerifiedAt;
                 existingReg.PromotedAt = null;
                 existingReg.PaymentDeadlineAt = null;
+                existingReg.AttendanceStatus = null;
+                existingReg.CheckedInAt = null;
             }
             else
             {
@@ -715,6 +913,20 @@ public class EventService : IEventService
 
         var wasRegistered = registration.Status == "Registered";
         var wasWaitlisted = registration.Status == "Waitlisted";
+        var hadOpenOffer = WaitlistOffers.IsOfferActive(registration, DateTime.UtcNow);
+
+        // Dropping off the roster inside the org's window counts against reliability
+        var isLateCancel = false;
+        if (wasRegistered)
+        {
+            var evt = await _context.Events
+                .Include(e => e.Organization)
+                .FirstOrDefaultAsync(e => e.Id == eventId);
+            isLateCancel = evt != null && PlayerReliability.IsLateCancellation(
+                evt.EventDate,
+                PlayerReliability.ResolveWindowHours(evt.Organization?.LateCancelWindowHours),
+                DateTime.UtcNow);
+        }
 
         // Use Serializable transaction to atomically cancel and promote
         await using var transaction = await _context.Database
@@ -727,6 +939,12 @@ public class EventService : IEventService
             registration.Status = "Cancelled";
             registration.WaitlistPosition = null;
             registration.PaymentDeadlineAt = null;
+            registration.OfferedAt = null;
+            registration.OfferExpiresAt = null;
+            if (isLateCancel)
+            {
+                registration.AttendanceStatus = "LateCancel";
+            }
             await _context.SaveChangesAsync();
 
             // If a registered user cancels, promote next from waitlist
@@ -742,6 +960,16 @@ public class EventService : IEventService
             else if (wasWaitlisted)
             {
                 await _waitlistService.UpdateWaitlistPositionsAsync(eventId);
+
+                // A spot they were holding on offer goes to the next player in line
+                if (hadOpenOffer)
+                {
+                    promotionResult = await _waitlistService.PromoteFromWaitlistAsync(
+                        eventId,
+                        spotCount: 1,
+                        callerOwnsTransaction: true
+                    );
+                }
             }
 
             await transaction.CommitAsync();
@@ -781,6 +1009,9 @@ public class EventService : IEventService
         // Batch compute which real users still need to accept the org's active waiver
         var waiverUnaccepted = await GetWaiverUnacceptedUserIdsAsync(eventId, registrations);
 
+        // Batch load attendance counts (stripped by the controller for non-managers)
+        var reliabilityByUser = await PlayerReliability.GetForUsersAsync(_context, userIds);
+
         return registrations.Select(r => {
             var (topBadges, totalCount) = badgesByUser.TryGetValue(r.User.Id, out var badges)
                 ? badges
@@ -815,7 +1046,13 @@ public class EventService : IEventService
                 r.PromotedAt,           // Phase 5 - Waitlist
                 r.PaymentDeadlineAt,    // Phase 5 - Waitlist
                 r.IsWaitlisted,         // Phase 5 - Waitlist
-                waiverUnaccepted.Contains(r.UserId)  // Waiver indicator (real users only)
+                waiverUnaccepted.Contains(r.UserId), // Waiver indicator (real users only)
+                r.AttendanceStatus,     // Attendance
+                reliabilityByUser.GetValueOrDefault(r.UserId),
+                r.CheckedInAt,          // Rink check-in
+                r.CheckInToken,         // Rink check-in
+                r.OfferedAt,            // Waitlist offer
+                r.OfferExpiresAt        // Waitlist offer
             );
         }).ToList();
     }
@@ -831,6 +1068,9 @@ public class EventService : IEventService
         // Batch compute which real users still need to accept the org's active waiver
         var waiverUnaccepted = await GetWaiverUnacceptedUserIdsAsync(eventId, waitlist);
 
+        // Batch load attendance counts (stripped by the controller for non-managers)
+        var reliabilityByUser = await PlayerReliability.GetForUsersAsync(_context, userIds);
+
         return waitlist.Select(r => {
             var (topBadges, totalCount) = badgesByUser.TryGetValue(r.User.Id, out var badges)
                 ? badges
@@ -865,7 +1105,13 @@ public class EventService : IEventService
                 r.PromotedAt,
                 r.PaymentDeadlineAt,
                 r.IsWaitlisted,
-                waiverUnaccepted.Contains(r.UserId)  // Waiver indicator (real users only)
+                waiverUnaccepted.Contains(r.UserId), // Waiver indicator (real users only)
+                r.AttendanceStatus,
+                reliabilityByUser.GetValueOrDefault(r.UserId),
+                r.CheckedInAt,
+                r.CheckInToken,
+                r.OfferedAt,
+                r.OfferExpiresAt
             );
         }).ToList();
     }
@@ -1005,6 +1251,91 @@ public class EventService : IEventService
         return dtos;
     }
 
+    public async Task<GameHistoryResponse> GetGameHistoryAsync(Guid userId, Guid viewerId, Guid? organizationId, int offset, int limit)
+    {
+        if (offset < 0)
+        {
+            throw new InvalidOperationException("Offset cannot be negative");
+        }
+        if (limit < 1 || limit > 100)
+        {
+            throw new InvalidOperationException("Limit must be between 1 and 100");
+        }
+
+        // A game counts once it's over and the player was on the roster
+        var now = DateTime.UtcNow;
+        var query = _context.EventRegistrations
+            .Where(r => r.UserId == userId && r.Status == "Registered")
+            .Where(r => r.Event.Status != "Cancelled" && r.Event.EventDate.AddMinutes(r.Event.Duration) <= now);
+
+        if (organizationId.HasValue)
+        {
+            query = query.Where(r => r.Event.OrganizationId == organizationId.Value);
+        }
+
+        // Summary covers the whole history, so load a lightweight projection of every game
+        var allGames = await query
+            .Select(r => new
+            {
+                r.TeamAssignment,
+                r.RegisteredPosition,
+                r.PaymentStatus,
+                r.Event.EventDate,
+                r.Event.OrganizationId,
+                OrganizationName = r.Event.Organization != null ? r.Event.Organization.Name : null
+            })
+            .ToListAsync();
+
+        var summary = new GameHistorySummaryDto(
+            TotalGames: allGames.Count,
+            BlackGames: allGames.Count(g => g.TeamAssignment == "Black"),
+            WhiteGames: allGames.Count(g => g.TeamAssignment == "White"),
+            GoalieGames: allGames.Count(g => g.RegisteredPosition == "Goalie"),
+            SkaterGames: allGames.Count(g => g.RegisteredPosition == "Skater"),
+            UnpaidGames: allGames.Count(g => g.PaymentStatus != null && g.PaymentStatus != "Verified"),
+            GamesByMonth: allGames
+                .GroupBy(g => $"{g.EventDate.Year:D4}-{g.EventDate.Month:D2}")
+                .OrderBy(g => g.Key)
+                .Select(g => new GameHistoryMonthCount(g.Key, g.Count()))
+                .ToList(),
+            GamesByOrganization: allGames
+                .Where(g => g.OrganizationId.HasValue)
+                .GroupBy(g => new { OrganizationId = g.OrganizationId!.Value, g.OrganizationName })
+                .OrderByDescending(g => g.Count())
+                .ThenBy(g => g.Key.OrganizationName)
+                .Select(g => new GameHistoryOrganizationCount(g.Key.OrganizationId, g.Key.OrganizationName ?? string.Empty, g.Count()))
+                .ToList()
+        );
+
+        var page = await query
+            .Include(r => r.Event)
+            .ThenInclude(e => e.Organization)
+            .Include(r => r.Event.Registrations)
+            .OrderByDescending(r => r.Event.EventDate)
+            .Skip(offset)
+            .Take(limit)
+            .ToListAsync();
+
+        var games = new List<GameHistoryItemDto>();
+        foreach (var reg in page)
+        {
+            games.Add(new GameHistoryItemDto(
+                RegistrationId: reg.Id,
+                Event: await MapToDto(reg.Event, viewerId),
+                TeamAssignment: reg.TeamAssignment,
+                RegisteredPosition: reg.RegisteredPosition,
+                PaymentStatus: reg.PaymentStatus
+            ));
+        }
+
+        return new GameHistoryResponse(
+            Games: games,
+            TotalCount: allGames.Count,
+            HasMore: offset + games.Count < allGames.Count,
+            Summary: summary
+        );
+    }
+
     private async Task<EventDto> MapToDto(Event evt, Guid? currentUserId)
     {
         // Count only skaters for capacity display (goalies don't count against MaxPlayers)
@@ -1066,6 +1397,7 @@ public class EventService : IEventService
 
         int? myWaitlistPosition = null;
         DateTime? myPaymentDeadline = null;
+        DateTime? myOfferExpiresAt = null;
         bool amIWaitlisted = false;
         bool? myWaitlistPaymentEligible = null;
         if (currentUserId.HasValue)
@@ -1081,6 +1413,12 @@ public class EventService : IEventService
                 // Own waitlist position is always visible, even before the roster is published
                 myWaitlistPosition = myReg.WaitlistPosition;
 
+                // Open waitlist offer ('Offer' promotion mode)
+                if (WaitlistOffers.IsOfferActive(myReg, DateTime.UtcNow))
+                {
+                    myOfferExpiresAt = myReg.OfferExpiresAt;
+                }
+
                 // Pay-eligibility only applies to waitlisted registrations on paid events
                 if (amIWaitlisted && evt.Cost > 0)
                 {
@@ -1097,8 +1435,36 @@ public class EventService : IEventService
             requiresWaiverAcceptance = await _waiverService.IsAcceptanceRequiredAsync(evt.OrganizationId.Value, currentUserId.Value);
         }
 
+        // Current user's open sub request and pending transfer for their spot
+        Guid? mySubRequestId = null;
+        Guid? myTransferId = null;
+        if (isRegistered)
+        {
+            mySubRequestId = await _context.SubRequests
+                .Where(r => r.EventId == evt.Id && r.RequesterId == currentUserId!.Value && r.Status == "Open")
+                .Select(r => (Guid?)r.Id)
+                .FirstOrDefaultAsync();
+            myTransferId = await _context.RegistrationTransfers
+                .Where(t => t.EventId == evt.Id && t.FromUserId == currentUserId!.Value && t.Status == "Pending")
+                .Select(t => (Guid?)t.Id)
+                .FirstOrDefaultAsync();
+        }
+
+        // Current user's invitation (InviteOnly events)
+        string? myInvitationStatus = null;
+        if (currentUserId.HasValue && evt.Visibility == "InviteOnly")
+        {
+            myInvitationStatus = await _context.EventInvitations
+                .Where(i => i.EventId == evt.Id && i.UserId == currentUserId.Value)
+                .Select(i => i.Status)
+                .FirstOrDefaultAsync();
+        }
+
         // Resolve chat link at read time: event override wins, else the org's link (live fallback,
         // so rotating the org link updates all inheriting events instantly)
+        var org = evt.OrganizationId.HasValue
+            ? evt.Organization ?? await _context.Organizations.FindAsync(evt.OrganizationId.Value)
+            : null;
         string? groupMeLink = null;
         string? groupMeLinkSource = null;
         if (!string.IsNullOrWhiteSpace(evt.GroupMeLink))
@@ -1106,14 +1472,10 @@ public class EventService : IEventService
             groupMeLink = evt.GroupMeLink;
             groupMeLinkSource = "event";
         }
-        else if (evt.OrganizationId.HasValue)
+        else if (!string.IsNullOrWhiteSpace(org?.GroupMeLink))
         {
-            var org = evt.Organization ?? await _context.Organizations.FindAsync(evt.OrganizationId.Value);
-            if (!string.IsNullOrWhiteSpace(org?.GroupMeLink))
-            {
-                groupMeLink = org.GroupMeLink;
-                groupMeLinkSource = "organization";
-            }
+            groupMeLink = org.GroupMeLink;
+            groupMeLinkSource = "organization";
         }
 
         return new EventDto(
@@ -1150,7 +1512,15 @@ public class EventService : IEventService
             groupMeLinkSource,   // "event" | "organization" | null
             evt.ShowWaitlistBeforePublish,  // Waitlist visibility (pre-publish)
             myWaitlistPaymentEligible,      // Pay-eligibility for current user's waitlisted spot
-            requiresWaiverAcceptance        // Waiver gate for the current user
+            requiresWaiverAcceptance,       // Waiver gate for the current user
+            evt.SeriesId,                   // Recurring series
+            PlayerReliability.ResolveWindowHours(evt.Organization?.LateCancelWindowHours),
+            mySubRequestId,                 // Sub request for the current user's spot
+            myTransferId,                   // Pending transfer of the current user's spot
+            WaitlistOffers.ResolveMode(evt.Organization),
+            myOfferExpiresAt,               // Current user's open waitlist offer
+            myInvitationStatus,             // Current user's invitation (InviteOnly events)
+            org?.InAppChatEnabled ?? false  // In-app chat (org setting)
         );
     }
 
@@ -1450,7 +1820,7 @@ public class EventService : IEventService
     }
 
     // Organizer registration management
-    public async Task<bool> RemoveRegistrationAsync(Guid eventId, Guid registrationId, Guid organizerId)
+    public async Task<bool> RemoveRegistrationAsync(Guid eventId, Guid registrationId, Guid organizerId, bool lateCancel = false)
     {
         // Verify the organizer can manage this event
         var evt = await _context.Events.FirstOrDefaultAsync(e => e.Id == eventId);
@@ -1473,6 +1843,7 @@ public class EventService : IEventService
 
         var wasRegistered = registration.Status == "Registered";
         var wasWaitlisted = registration.Status == "Waitlisted";
+        var hadOpenOffer = WaitlistOffers.IsOfferActive(registration, DateTime.UtcNow);
 
         // Capture user and event for notification after transaction
         var removedUser = registration.User;
@@ -1490,6 +1861,14 @@ public class EventService : IEventService
             registration.Status = "Cancelled";
             registration.WaitlistPosition = null;
             registration.PaymentDeadlineAt = null;
+            registration.OfferedAt = null;
+            registration.OfferExpiresAt = null;
+
+            // Organizer is removing a player who dropped out late (only rostered spots count)
+            if (lateCancel && wasRegistered)
+            {
+                registration.AttendanceStatus = "LateCancel";
+            }
 
             await _context.SaveChangesAsync();
 
@@ -1506,6 +1885,16 @@ public class EventService : IEventService
             else if (wasWaitlisted)
             {
                 await _waitlistService.UpdateWaitlistPositionsAsync(eventId);
+
+                // A spot they were holding on offer goes to the next player in line
+                if (hadOpenOffer)
+                {
+                    promotionResult = await _waitlistService.PromoteFromWaitlistAsync(
+                        eventId,
+                        spotCount: 1,
+                        callerOwnsTransaction: true
+                    );
+                }
             }
 
             await transaction.CommitAsync();
@@ -1529,6 +1918,138 @@ public class EventService : IEventService
         }
     }
 
+    public async Task<bool> UpdateAttendanceAsync(Guid eventId, List<AttendanceItem> items, Guid organizerId)
+    {
+        var evt = await _context.Events.FirstOrDefaultAsync(e => e.Id == eventId);
+        if (evt == null) return false;
+
+        if (!await CanUserManageEventAsync(evt, organizerId)) return false;
+
+        if (evt.EventDate > DateTime.UtcNow)
+        {
+            throw new InvalidOperationException("Attendance can only be recorded once the game has started");
+        }
+
+        foreach (var item in items)
+        {
+            if (item.AttendanceStatus != null && !PlayerReliability.ValidStatuses.Contains(item.AttendanceStatus))
+            {
+                throw new InvalidOperationException($"Invalid attendance status '{item.AttendanceStatus}'. Must be Present, NoShow, or LateCancel");
+            }
+        }
+
+        var registrationIds = items.Select(i => i.RegistrationId).Distinct().ToList();
+        var registrations = await _context.EventRegistrations
+            .Where(r => r.EventId == eventId && registrationIds.Contains(r.Id))
+            .ToListAsync();
+
+        if (registrations.Count != registrationIds.Count)
+        {
+            throw new InvalidOperationException("One or more registrations were not found for this event");
+        }
+
+        if (registrations.Any(r => r.Status != "Registered"))
+        {
+            throw new InvalidOperationException("Attendance can only be recorded for rostered players");
+        }
+
+        foreach (var item in items)
+        {
+            registrations.First(r => r.Id == item.RegistrationId).AttendanceStatus = item.AttendanceStatus;
+        }
+
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
+    public async Task<CheckInPassDto?> GetCheckInPassAsync(Guid eventId, Guid userId)
+    {
+        // Passes are for rostered players only
+        var registration = await _context.EventRegistrations
+            .FirstOrDefaultAsync(r => r.EventId == eventId && r.UserId == userId && r.Status == "Registered");
+
+        return registration == null ? null : new CheckInPassDto(registration.Id, registration.CheckInToken);
+    }
+
+    public async Task<CheckInResultDto?> CheckInAsync(Guid eventId, List<CheckInItem> items, Guid organizerId)
+    {
+        var evt = await _context.Events.FirstOrDefaultAsync(e => e.Id == eventId);
+        if (evt == null) return null;
+
+        if (!await CanUserManageEventAsync(evt, organizerId)) return null;
+
+        var registrationIds = items.Select(i => i.RegistrationId).Distinct().ToList();
+        var registrations = await _context.EventRegistrations
+            .Where(r => r.EventId == eventId && registrationIds.Contains(r.Id))
+            .ToListAsync();
+
+        var checkedIn = new List<Guid>();
+        var rejected = new List<CheckInRejectionDto>();
+        var now = DateTime.UtcNow;
+
+        foreach (var item in items)
+        {
+            var registration = registrations.FirstOrDefault(r => r.Id == item.RegistrationId);
+            if (registration == null || (registration.Status != "Registered" && registration.Status != "Waitlisted"))
+            {
+                rejected.Add(new CheckInRejectionDto(item.RegistrationId, "Not registered for this game"));
+                continue;
+            }
+
+            if (!CryptographicOperations.FixedTimeEquals(
+                    Encoding.UTF8.GetBytes(registration.CheckInToken),
+                    Encoding.UTF8.GetBytes(item.Token ?? string.Empty)))
+            {
+                rejected.Add(new CheckInRejectionDto(item.RegistrationId, "Check-in code is not valid"));
+                continue;
+            }
+
+            // Scans can sync late (offline) or twice (two scanners); keep the earliest time
+            var scannedAt = item.CheckedInAt.ToUniversalTime();
+            if (scannedAt > now) scannedAt = now;
+            if (registration.CheckedInAt == null || scannedAt < registration.CheckedInAt)
+            {
+                registration.CheckedInAt = scannedAt;
+            }
+
+            // Showing up counts as attendance for rostered players
+            if (registration.Status == "Registered")
+            {
+                registration.AttendanceStatus = "Present";
+            }
+
+            if (!checkedIn.Contains(registration.Id))
+            {
+                checkedIn.Add(registration.Id);
+            }
+        }
+
+        await _context.SaveChangesAsync();
+        return new CheckInResultDto(checkedIn, rejected);
+    }
+
+    public async Task<bool> UndoCheckInAsync(Guid eventId, Guid registrationId, Guid organizerId)
+    {
+        var evt = await _context.Events.FirstOrDefaultAsync(e => e.Id == eventId);
+        if (evt == null) return false;
+
+        if (!await CanUserManageEventAsync(evt, organizerId)) return false;
+
+        var registration = await _context.EventRegistrations
+            .FirstOrDefaultAsync(r => r.Id == registrationId && r.EventId == eventId);
+        if (registration == null || registration.CheckedInAt == null) return false;
+
+        registration.CheckedInAt = null;
+        // Only undo the attendance the scan recorded; an organizer's manual record stays
+        if (registration.AttendanceStatus == "Present")
+        {
+            registration.AttendanceStatus = null;
+        }
+
+        await _context.SaveChangesAsync();
+        return true;
+    }
+
     // Roster/Waitlist move operations (Phase 3 - Organizer Controls)
     public async Task<MoveResultDto> MoveToRosterAsync(Guid eventId, Guid registrationId, Guid organizerId)
     {
@@ -1918,7 +2439,12 @@ public class EventService : IEventService
             })
             .ToListAsync();
 
-        return users;
+        // Attendance counts help organizers pick who to add
+        var reliabilityByUser = await PlayerReliability.GetForUsersAsync(_context, users.Select(u => u.Id));
+
+        return users
+            .Select(u => u with { Reliability = reliabilityByUser.GetValueOrDefault(u.Id) })
+            .ToList();
     }
 
     /// <summary>
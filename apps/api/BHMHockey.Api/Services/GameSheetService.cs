@@ -0,0 +1,429 @@
+using System.Text.RegularExpressions;
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Service for tournament match game sheets and the player stats built from them.
+/// Each save replaces the whole sheet; a final sheet completes the match through the regular score entry path.
+/// </summary>
+public class GameSheetService : IGameSheetService
+{
+    // Match the GAME_SHEET and PENALTY_MINUTES constants in the shared package
+    private const int MaxPeriods = 6;
+    private const int MaxPeriodMinutes = 60;
+    private const int MaxInfractionLength = 100;
+    private static readonly HashSet<int> ValidPenaltyMinutes = new() { 2, 4, 5, 10 };
+    private static readonly HashSet<string> UnplayedStatuses = new() { "Cancelled", "Forfeit", "Bye" };
+    private static readonly Regex TimePattern = new(@"^(\d{2}):([0-5]\d)$");
+
+    private readonly AppDbContext _context;
+    private readonly ITournamentAuthorizationService _authService;
+    private readonly ITournamentMatchService _matchService;
+
+    public GameSheetService(
+        AppDbContext context,
+        ITournamentAuthorizationService authService,
+        ITournamentMatchService matchService)
+    {
+        _context = context;
+        _authService = authService;
+        _matchService = matchService;
+    }
+
+    public async Task<GameSheetDto?> GetAsync(Guid tournamentId, Guid matchId)
+    {
+        var match = await _context.TournamentMatches
+            .Include(m => m.GameSheetUpdatedBy)
+            .FirstOrDefaultAsync(m => m.Id == matchId && m.TournamentId == tournamentId);
+
+        if (match == null)
+        {
+            return null;
+        }
+
+        var goals = await _context.MatchGoals
+            .Include(g => g.Scorer)
+            .Include(g => g.PrimaryAssist)
+            .Include(g => g.SecondaryAssist)
+            .Where(g => g.MatchId == matchId)
+            .ToListAsync();
+
+        var penalties = await _context.MatchPenalties
+            .Include(p => p.Player)
+            .Where(p => p.MatchId == matchId)
+            .ToListAsync();
+
+        var goalies = await _context.MatchGoalies
+            .Include(g => g.User)
+            .Where(g => g.MatchId == matchId)
+            .ToListAsync();
+
+        return new GameSheetDto
+        {
+            MatchId = match.Id,
+            TournamentId = match.TournamentId,
+            Goals = goals
+                .OrderBy(g => g.Period)
+                .ThenBy(g => g.Time, StringComparer.Ordinal)
+                .Select(g => new MatchGoalDto
+                {
+                    Id = g.Id,
+                    TeamId = g.TeamId,
+                    ScorerUserId = g.ScorerUserId,
+                    ScorerName = FullName(g.Scorer),
+                    PrimaryAssistUserId = g.PrimaryAssistUserId,
+                    PrimaryAssistName = g.PrimaryAssist != null ? FullName(g.PrimaryAssist) : null,
+                    SecondaryAssistUserId = g.SecondaryAssistUserId,
+                    SecondaryAssistName = g.SecondaryAssist != null ? FullName(g.SecondaryAssist) : null,
+                    Period = g.Period,
+                    Time = g.Time
+                })
+                .ToList(),
+            Penalties = penalties
+                .OrderBy(p => p.Period)
+                .ThenBy(p => p.Time, StringComparer.Ordinal)
+                .Select(p => new MatchPenaltyDto
+                {
+                    Id = p.Id,
+                    TeamId = p.TeamId,
+                    PlayerUserId = p.PlayerUserId,
+                    PlayerName = FullName(p.Player),
+                    Infraction = p.Infraction,
+                    Minutes = p.Minutes,
+                    Period = p.Period,
+                    Time = p.Time
+                })
+                .ToList(),
+            Goalies = goalies
+                .Select(g => new MatchGoalieDto
+                {
+                    TeamId = g.TeamId,
+                    UserId = g.UserId,
+                    Name = FullName(g.User),
+                    ShotsAgainst = g.ShotsAgainst
+                })
+                .ToList(),
+            HomeScore = goals.Count(g => g.TeamId == match.HomeTeamId),
+            AwayScore = goals.Count(g => g.TeamId == match.AwayTeamId),
+            IsFinal = match.Status == "Completed",
+            UpdatedAt = match.GameSheetUpdatedAt,
+            UpdatedByName = match.GameSheetUpdatedBy != null ? FullName(match.GameSheetUpdatedBy) : null
+        };
+    }
+
+    public async Task<GameSheetDto> SaveAsync(Guid tournamentId, Guid matchId, SaveGameSheetRequest request, Guid userId)
+    {
+        // 1. Authorization Check (Any admin role, including Scorekeeper)
+        var canEnterScores = await _authService.CanEnterScoresAsync(tournamentId, userId);
+        if (!canEnterScores)
+        {
+            throw new UnauthorizedAccessException("User is not a tournament admin");
+        }
+
+        // 2. Validate the match
+        var match = await _context.TournamentMatches
+            .Include(m => m.Tournament)
+            .FirstOrDefaultAsync(m => m.Id == matchId && m.TournamentId == tournamentId);
+
+        if (match == null)
+        {
+            throw new InvalidOperationException("Match not found");
+        }
+
+        if (match.Tournament.Status != "InProgress")
+        {
+            throw new InvalidOperationException("Cannot record a game sheet for tournament not in InProgress status");
+        }
+
+        if (match.HomeTeamId == null || match.AwayTeamId == null)
+        {
+            throw new InvalidOperationException("Cannot record a game sheet for match with TBD teams");
+        }
+
+        if (UnplayedStatuses.Contains(match.Status))
+        {
+            throw new InvalidOperationException($"Cannot record a game sheet for a match with status '{match.Status}'");
+        }
+
+        if (match.Status == "Completed" && !request.IsFinal)
+        {
+            throw new InvalidOperationException("This match is already completed. Save the game sheet as final to change it.");
+        }
+
+        // 3. Validate entries against the two teams' rosters
+        var homeTeamId = match.HomeTeamId.Value;
+        var awayTeamId = match.AwayTeamId.Value;
+        var rosters = await _context.TournamentTeamMembers
+            .Where(m => (m.TeamId == homeTeamId || m.TeamId == awayTeamId) && m.Status == "Accepted")
+            .Select(m => new { m.TeamId, m.UserId })
+            .ToListAsync();
+        var rosterKeys = rosters.Select(m => (m.TeamId, m.UserId)).ToHashSet();
+
+        void ValidatePlayer(Guid teamId, Guid playerId, string role)
+        {
+            if (teamId != homeTeamId && teamId != awayTeamId)
+            {
+                throw new InvalidOperationException("Game sheet entries must be for one of the match's teams");
+            }
+            if (!rosterKeys.Contains((teamId, playerId)))
+            {
+                throw new InvalidOperationException($"The {role} must be on that team's roster");
+            }
+        }
+
+        foreach (var goal in request.Goals)
+        {
+            ValidatePeriodAndTime(goal.Period, goal.Time);
+            ValidatePlayer(goal.TeamId, goal.ScorerUserId, "goal scorer");
+
+            if (goal.PrimaryAssistUserId.HasValue)
+            {
+                ValidatePlayer(goal.TeamId, goal.PrimaryAssistUserId.Value, "assisting player");
+            }
+            if (goal.SecondaryAssistUserId.HasValue)
+            {
+                if (!goal.PrimaryAssistUserId.HasValue)
+                {
+                    throw new InvalidOperationException("A secondary assist requires a primary assist");
+                }
+                ValidatePlayer(goal.TeamId, goal.SecondaryAssistUserId.Value, "assisting player");
+            }
+
+            var creditedPlayers = new[] { goal.ScorerUserId, goal.PrimaryAssistUserId, goal.SecondaryAssistUserId }
+                .Where(id => id.HasValue)
+                .ToList();
+            if (creditedPlayers.Count != creditedPlayers.Distinct().Count())
+            {
+                throw new InvalidOperationException("A player can't be credited twice on the same goal");
+            }
+        }
+
+        foreach (var penalty in request.Penalties)
+        {
+            ValidatePeriodAndTime(penalty.Period, penalty.Time);
+            ValidatePlayer(penalty.TeamId, penalty.PlayerUserId, "penalized player");
+
+            if (string.IsNullOrWhiteSpace(penalty.Infraction) || penalty.Infraction.Trim().Length > MaxInfractionLength)
+            {
+                throw new InvalidOperationException($"Infraction is required and must not exceed {MaxInfractionLength} characters");
+            }
+            if (!ValidPenaltyMinutes.Contains(penalty.Minutes))
+            {
+                throw new InvalidOperationException(
+                    $"Invalid penalty length {penalty.Minutes}. Valid values: {string.Join(", ", ValidPenaltyMinutes.OrderBy(m => m))}");
+            }
+        }
+
+        foreach (var goalie in request.Goalies)
+        {
+            ValidatePlayer(goalie.TeamId, goalie.UserId, "goalie");
+
+            if (goalie.ShotsAgainst.HasValue && goalie.ShotsAgainst.Value < 0)
+            {
+                throw new InvalidOperationException("Shots against can't be negative");
+            }
+        }
+
+        if (request.Goalies.GroupBy(g => g.TeamId).Any(g => g.Count() > 1))
+        {
+            throw new InvalidOperationException("Each team has one goalie of record");
+        }
+
+        // 4. Replace the sheet
+        _context.MatchGoals.RemoveRange(await _context.MatchGoals.Where(g => g.MatchId == matchId).ToListAsync());
+        _context.MatchPenalties.RemoveRange(await _context.MatchPenalties.Where(p => p.MatchId == matchId).ToListAsync());
+        _context.MatchGoalies.RemoveRange(await _context.MatchGoalies.Where(g => g.MatchId == matchId).ToListAsync());
+
+        var now = DateTime.UtcNow;
+        _context.MatchGoals.AddRange(request.Goals.Select(g => new MatchGoal
+        {
+            MatchId = matchId,
+            TeamId = g.TeamId,
+            ScorerUserId = g.ScorerUserId,
+            PrimaryAssistUserId = g.PrimaryAssistUserId,
+            SecondaryAssistUserId = g.SecondaryAssistUserId,
+            Period = g.Period,
+            Time = g.Time,
+            CreatedAt = now
+        }));
+        _context.MatchPenalties.AddRange(request.Penalties.Select(p => new MatchPenalty
+        {
+            MatchId = matchId,
+            TeamId = p.TeamId,
+            PlayerUserId = p.PlayerUserId,
+            Infraction = p.Infraction.Trim(),
+            Minutes = p.Minutes,
+            Period = p.Period,
+            Time = p.Time,
+            CreatedAt = now
+        }));
+        _context.MatchGoalies.AddRange(request.Goalies.Select(g => new MatchGoalie
+        {
+            MatchId = matchId,
+            TeamId = g.TeamId,
+            UserId = g.UserId,
+            ShotsAgainst = g.ShotsAgainst
+        }));
+
+        // 5. Refresh team penalty minutes (FewestPenaltyMinutes tiebreaker)
+        foreach (var teamId in new[] { homeTeamId, awayTeamId })
+        {
+            var team = await _context.TournamentTeams.FindAsync(teamId);
+            var otherMatchMinutes = await _context.MatchPenalties
+                .Where(p => p.TeamId == teamId && p.MatchId != matchId)
+                .SumAsync(p => p.Minutes);
+            team!.PenaltyMinutes = otherMatchMinutes + request.Penalties.Where(p => p.TeamId == teamId).Sum(p => p.Minutes);
+            team.UpdatedAt = now;
+        }
+
+        match.GameSheetUpdatedAt = now;
+        match.GameSheetUpdatedByUserId = userId;
+        match.UpdatedAt = now;
+
+        // 6. A final sheet completes the match with the derived score (saves the sheet too)
+        if (request.IsFinal)
+        {
+            await _matchService.EnterScoreAsync(tournamentId, matchId, new EnterScoreRequest
+            {
+                HomeScore = request.Goals.Count(g => g.TeamId == homeTeamId),
+                AwayScore = request.Goals.Count(g => g.TeamId == awayTeamId),
+                OvertimeWinnerId = request.OvertimeWinnerId
+            }, userId);
+        }
+        else
+        {
+            await _context.SaveChangesAsync();
+        }
+
+        return (await GetAsync(tournamentId, matchId))!;
+    }
+
+    public async Task<TournamentPlayerStatsDto?> GetPlayerStatsAsync(Guid tournamentId)
+    {
+        var tournamentExists = await _context.Tournaments.AnyAsync(t => t.Id == tournamentId);
+        if (!tournamentExists)
+        {
+            return null;
+        }
+
+        // 1. Matches that have a game sheet
+        var matches = await _context.TournamentMatches
+            .Where(m => m.TournamentId == tournamentId && m.GameSheetUpdatedAt != null)
+            .Select(m => new { m.Id, m.HomeTeamId, m.AwayTeamId })
+            .ToListAsync();
+        var matchIds = matches.Select(m => m.Id).ToList();
+
+        var goals = await _context.MatchGoals
+            .Where(g => matchIds.Contains(g.MatchId))
+            .ToListAsync();
+        var penalties = await _context.MatchPenalties
+            .Where(p => matchIds.Contains(p.MatchId))
+            .ToListAsync();
+        var goalies = await _context.MatchGoalies
+            .Include(g => g.User)
+            .Where(g => matchIds.Contains(g.MatchId))
+            .ToListAsync();
+
+        // 2. Rosters
+        var teams = await _context.TournamentTeams
+            .Where(t => t.TournamentId == tournamentId)
+            .ToDictionaryAsync(t => t.Id, t => t.Name);
+        var teamIds = teams.Keys.ToList();
+        var members = await _context.TournamentTeamMembers
+            .Include(m => m.User)
+            .Where(m => teamIds.Contains(m.TeamId) && m.Status == "Accepted")
+            .ToListAsync();
+
+        var sheetGamesByTeam = teamIds.ToDictionary(
+            id => id,
+            id => matches.Count(m => m.HomeTeamId == id || m.AwayTeamId == id));
+
+        // 3. Skaters - goalies only appear here once they have points or penalties
+        var skaters = members
+            .Where(m => m.Position != "Goalie"
+                || goals.Any(g => g.TeamId == m.TeamId
+                    && (g.ScorerUserId == m.UserId || g.PrimaryAssistUserId == m.UserId || g.SecondaryAssistUserId == m.UserId))
+                || penalties.Any(p => p.TeamId == m.TeamId && p.PlayerUserId == m.UserId))
+            .Select(m =>
+            {
+                var goalCount = goals.Count(g => g.TeamId == m.TeamId && g.ScorerUserId == m.UserId);
+                var assistCount = goals.Count(g => g.TeamId == m.TeamId
+                    && (g.PrimaryAssistUserId == m.UserId || g.SecondaryAssistUserId == m.UserId));
+                var penaltyMinutes = penalties
+                    .Where(p => p.TeamId == m.TeamId && p.PlayerUserId == m.UserId)
+                    .Sum(p => p.Minutes);
+
+                return new SkaterStatsDto
+                {
+                    UserId = m.UserId,
+                    Name = FullName(m.User),
+                    TeamId = m.TeamId,
+                    TeamName = teams[m.TeamId],
+                    GamesPlayed = sheetGamesByTeam[m.TeamId],
+                    Goals = goalCount,
+                    Assists = assistCount,
+                    Points = goalCount + assistCount,
+                    PenaltyMinutes = penaltyMinutes
+                };
+            })
+            .OrderByDescending(s => s.Points)
+            .ThenByDescending(s => s.Goals)
+            .ThenBy(s => s.Name)
+            .ToList();
+
+        // 4. Goalies of record - saves only count games where shots were recorded
+        var goalieStats = goalies
+            .GroupBy(g => (g.UserId, g.TeamId))
+            .Select(group =>
+            {
+                var games = group.Select(g =>
+                {
+                    var goalsAgainst = goals.Count(goal => goal.MatchId == g.MatchId && goal.TeamId != g.TeamId);
+                    return new { goalsAgainst, g.ShotsAgainst };
+                }).ToList();
+                var recorded = games.Where(g => g.ShotsAgainst.HasValue).ToList();
+
+                return new GoalieStatsDto
+                {
+                    UserId = group.Key.UserId,
+                    Name = FullName(group.First().User),
+                    TeamId = group.Key.TeamId,
+                    TeamName = teams.GetValueOrDefault(group.Key.TeamId, string.Empty),
+                    GamesPlayed = games.Count,
+                    GoalsAgainst = games.Sum(g => g.goalsAgainst),
+                    ShotsAgainst = recorded.Sum(g => g.ShotsAgainst!.Value),
+                    Saves = recorded.Sum(g => Math.Max(0, g.ShotsAgainst!.Value - g.goalsAgainst))
+                };
+            })
+            .OrderByDescending(g => g.GamesPlayed)
+            .ThenBy(g => g.Name)
+            .ToList();
+
+        return new TournamentPlayerStatsDto
+        {
+            TournamentId = tournamentId,
+            Skaters = skaters,
+            Goalies = goalieStats
+        };
+    }
+
+    private static void ValidatePeriodAndTime(int period, string time)
+    {
+        if (period < 1 || period > MaxPeriods)
+        {
+            throw new InvalidOperationException($"Period must be between 1 and {MaxPeriods}");
+        }
+
+        var parsed = TimePattern.Match(time ?? string.Empty);
+        if (!parsed.Success || int.Parse(parsed.Groups[1].Value) > MaxPeriodMinutes)
+        {
+            throw new InvalidOperationException("Time must be MM:SS elapsed in the period");
+        }
+    }
+
+    private static string FullName(User user) => $"{user.FirstName} {user.LastName}".Trim();
+}
@@ -0,0 +1,75 @@
+using BHMHockey.Api.Models.DTOs;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Badge administration for app admins: badge types, manual awards and automatic rules.
+/// Callers are responsible for checking the Admin role.
+/// </summary>
+public interface IBadgeAdminService
+{
+    /// <summary>
+    /// Gets all badge types, sorted by sortPriority
+    /// </summary>
+    Task<List<BadgeTypeDto>> GetBadgeTypesAsync();
+
+    /// <summary>
+    /// Creates a badge type
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown if validation fails or the code is taken</exception>
+    Task<BadgeTypeDto> CreateBadgeTypeAsync(CreateBadgeTypeRequest request);
+
+    /// <summary>
+    /// Awards a badge to a user. The badge starts uncelebrated.
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown if the user or badge type is not found, or the user already has it</exception>
+    Task<UserBadgeDto> AwardBadgeAsync(AwardBadgeRequest request);
+
+    /// <summary>
+    /// Revokes a user's badge
+    /// </summary>
+    /// <returns>False if the badge was not found</returns>
+    Task<bool> RevokeBadgeAsync(Guid userBadgeId);
+
+    /// <summary>
+    /// Gets all automatic badge rules, newest first
+    /// </summary>
+    Task<List<BadgeRuleDto>> GetBadgeRulesAsync();
+
+    /// <summary>
+    /// Creates an automatic badge rule. New rules are active.
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown if validation fails or the badge type is not found</exception>
+    Task<BadgeRuleDto> CreateBadgeRuleAsync(CreateBadgeRuleRequest request);
+
+    /// <summary>
+    /// Updates a rule's threshold or active state
+    /// </summary>
+    /// <returns>Null if the rule was not found</returns>
+    /// <exception cref="InvalidOperationException">Thrown if the threshold is invalid</exception>
+    Task<BadgeRuleDto?> UpdateBadgeRuleAsync(Guid ruleId, UpdateBadgeRuleRequest request);
+
+    /// <summary>
+    /// Deletes a rule. Badges it already awarded are kept.
+    /// </summary>
+    /// <returns>False if the rule was not found</returns>
+    Task<bool> DeleteBadgeRuleAsync(Guid ruleId);
+
+    /// <summary>
+    /// Runs a rule against every player now, awarding anyone who already qualifies
+    /// </summary>
+    /// <returns>Null if the rule was not found</returns>
+    Task<ApplyBadgeRuleResponse?> ApplyBadgeRuleAsync(Guid ruleId);
+
+    /// <summary>
+    /// Evaluates active TournamentPlacement rules for a tournament that just completed
+    /// </summary>
+    /// <returns>Number of badges awarded</returns>
+    Task<int> EvaluateTournamentPlacementRulesAsync(Guid tournamentId);
+
+    /// <summary>
+    /// Evaluates active GamesPlayed rules against every player's finished pickup games
+    /// </summary>
+    /// <returns>Number of badges awarded</returns>
+    Task<int> EvaluateGamesPlayedRulesAsync();
+}
@@ -0,0 +1,29 @@
+using BHMHockey.Api.Models.DTOs;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Personal iCalendar subscription feed. The feed URL carries a secret token, so anyone
+/// with it can read the user's schedule; resetting issues a new one.
+/// </summary>
+public interface ICalendarFeedService
+{
+    /// <summary>
+    /// Gets the user's feed URL, issuing a token on first use
+    /// </summary>
+    /// <returns>Null if the user doesn't exist</returns>
+    Task<CalendarFeedDto?> GetFeedAsync(Guid userId);
+
+    /// <summary>
+    /// Issues a new feed token. Calendars subscribed to the old URL stop updating.
+    /// </summary>
+    /// <returns>Null if the user doesn't exist</returns>
+    Task<CalendarFeedDto?> ResetFeedAsync(Guid userId);
+
+    /// <summary>
+    /// Builds the iCalendar file for a feed token: rostered games (recent and upcoming) and
+    /// scheduled tournament matches. Cancelled games and waitlisted spots are left out.
+    /// </summary>
+    /// <returns>Null if no user has this token</returns>
+    Task<string?> BuildFeedAsync(string token);
+}
@@ -0,0 +1,43 @@
+using BHMHockey.Api.Models.DTOs;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// In-app chat for organizations that turned it on. Each event and organization has one thread.
+/// Event threads are open to registered and waitlisted players, organization threads to
+/// subscribers; the organization's admins can read, pin and moderate both.
+/// </summary>
+public interface IChatService
+{
+    /// <summary>
+    /// Gets a page of a thread's history, newest first, with its pinned messages
+    /// </summary>
+    /// <param name="threadType">"Event" or "Organization"</param>
+    /// <param name="before">NextCursor from the previous page</param>
+    /// <returns>Null if the event or organization doesn't exist</returns>
+    /// <exception cref="UnauthorizedAccessException">User isn't in the thread</exception>
+    /// <exception cref="InvalidOperationException">In-app chat is off, or the cursor is invalid</exception>
+    Task<ChatMessagePageDto?> GetMessagesAsync(string threadType, Guid threadId, Guid userId, string? before, int? limit);
+
+    /// <summary>
+    /// Posts a message. Mentioned users who are in the thread get a chat_mention push.
+    /// </summary>
+    /// <returns>Null if the event or organization doesn't exist</returns>
+    /// <exception cref="UnauthorizedAccessException">User isn't in the thread</exception>
+    /// <exception cref="InvalidOperationException">In-app chat is off, or the body is empty or too long</exception>
+    Task<ChatMessageDto?> SendMessageAsync(string threadType, Guid threadId, SendChatMessageRequest request, Guid userId);
+
+    /// <summary>
+    /// Pins or unpins a message (organization admins only)
+    /// </summary>
+    /// <returns>Null if the message doesn't exist</returns>
+    /// <exception cref="UnauthorizedAccessException">User isn't an admin of the thread's organization</exception>
+    Task<ChatMessageDto?> SetPinnedAsync(Guid messageId, bool isPinned, Guid userId);
+
+    /// <summary>
+    /// Deletes a message (its sender or an organization admin)
+    /// </summary>
+    /// <returns>False if the message doesn't exist</returns>
+    /// <exception cref="UnauthorizedAccessException">User didn't send the message and isn't an admin</exception>
+    Task<bool> DeleteMessageAsync(Guid messageId, Guid userId);
+}
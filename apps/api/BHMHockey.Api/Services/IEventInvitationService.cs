@@ -0,0 +1,81 @@
+using BHMHockey.Api.Models.DTOs;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Invitations for InviteOnly events. Organizers invite individual players, their
+/// organization's members, or share an invite link. Invited players can see the event
+/// and register; registering accepts the invitation.
+/// </summary>
+public interface IEventInvitationService
+{
+    /// <summary>
+    /// Sends an invite push to each player. On InviteOnly events it also creates tracked
+    /// invitations. Players already registered or invited are skipped.
+    /// </summary>
+    /// <returns>False if the event was not found</returns>
+    /// <exception cref="UnauthorizedAccessException">Thrown if the user can't manage the event</exception>
+    /// <exception cref="InvalidOperationException">Thrown if no players were given or the event is cancelled or over</exception>
+    Task<bool> InvitePlayersAsync(Guid eventId, List<Guid> userIds, Guid organizerId);
+
+    /// <summary>
+    /// Invites every subscriber of the event's organization, optionally only those whose
+    /// skill level matches. Members already invited or registered are skipped.
+    /// </summary>
+    /// <returns>Null if the event was not found</returns>
+    /// <exception cref="UnauthorizedAccessException">Thrown if the user can't manage the event</exception>
+    /// <exception cref="InvalidOperationException">Thrown if the event isn't an InviteOnly organization event, or is cancelled or over</exception>
+    Task<InviteOrganizationMembersResponse?> InviteOrganizationMembersAsync(Guid eventId, InviteOrganizationMembersRequest request, Guid organizerId);
+
+    /// <summary>
+    /// Gets the event's invitations with their pending/accepted/declined status
+    /// </summary>
+    /// <returns>Null if the event was not found</returns>
+    /// <exception cref="UnauthorizedAccessException">Thrown if the user can't manage the event</exception>
+    Task<List<EventInvitationDto>?> GetInvitationsAsync(Guid eventId, Guid organizerId);
+
+    /// <summary>
+    /// Withdraws an invitation. Players already registered keep their spot.
+    /// </summary>
+    /// <returns>False if the event or invitation was not found</returns>
+    /// <exception cref="UnauthorizedAccessException">Thrown if the user can't manage the event</exception>
+    Task<bool> RevokeInvitationAsync(Guid eventId, Guid invitationId, Guid organizerId);
+
+    /// <summary>
+    /// Declines the user's invitation. They can still register later.
+    /// </summary>
+    /// <returns>False if the user has no invitation to the event</returns>
+    /// <exception cref="InvalidOperationException">Thrown if the user is already signed up</exception>
+    Task<bool> DeclineInvitationAsync(Guid eventId, Guid userId);
+
+    /// <summary>
+    /// Gets the event's invite links, including expired and revoked ones
+    /// </summary>
+    /// <returns>Null if the event was not found</returns>
+    /// <exception cref="UnauthorizedAccessException">Thrown if the user can't manage the event</exception>
+    Task<List<EventInviteLinkDto>?> GetInviteLinksAsync(Guid eventId, Guid organizerId);
+
+    /// <summary>
+    /// Creates a shareable invite link, valid until the event starts unless an expiry is given
+    /// </summary>
+    /// <returns>Null if the event was not found</returns>
+    /// <exception cref="UnauthorizedAccessException">Thrown if the user can't manage the event</exception>
+    /// <exception cref="InvalidOperationException">Thrown if the event isn't InviteOnly, is cancelled or over, or the expiry is out of range</exception>
+    Task<EventInviteLinkDto?> CreateInviteLinkAsync(Guid eventId, CreateEventInviteLinkRequest request, Guid organizerId);
+
+    /// <summary>
+    /// Revokes an invite link. Invitations it already created stay.
+    /// </summary>
+    /// <returns>False if the event or link was not found</returns>
+    /// <exception cref="UnauthorizedAccessException">Thrown if the user can't manage the event</exception>
+    Task<bool> RevokeInviteLinkAsync(Guid eventId, Guid linkId, Guid organizerId);
+
+    /// <summary>
+    /// Opens an invite link as the user: creates their invitation (unless they're already
+    /// invited, registered or managing the event) and returns the event
+    /// </summary>
+    /// <returns>Null if the token is unknown or the link was revoked</returns>
+    /// <exception cref="Models.Exceptions.InviteLinkExpiredException">Thrown if the link expired or the event has started</exception>
+    /// <exception cref="InvalidOperationException">Thrown if the event was cancelled</exception>
+    Task<EventDto?> RedeemInviteLinkAsync(string token, Guid userId);
+}
@@ -3,7 +3,7 @@ namespace BHMHockey.Api.Services;
 public interface IEventReminderService
 {
     /// <summary>
-    /// Send game reminders to registered players 1 hour before event starts.
+    /// Send game reminders to registered players at their own lead time (2 hours before by default).
     /// Includes game time, venue, and team assignment.
     /// </summary>
     Task SendPlayerRemindersAsync();
@@ -5,6 +5,12 @@ namespace BHMHockey.Api.Services;
 public interface IEventService
 {
     Task<EventDto> CreateAsync(CreateEventRequest request, Guid creatorId);
+
+    /// <summary>
+    /// Create every game of a recurring series (one event per date, linked by SeriesId).
+    /// Org subscribers get a single "New Games" notification for the whole series.
+    /// </summary>
+    Task<EventSeriesDto> CreateSeriesAsync(CreateEventSeriesRequest request, Guid creatorId);
     Task<List<EventDto>> GetAllAsync(Guid? currentUserId = null);
     Task<List<EventDto>> GetByOrganizationAsync(Guid organizationId, Guid? currentUserId = null);
     Task<EventDto?> GetByIdAsync(Guid id, Guid? currentUserId = null);
@@ -15,6 +21,13 @@ public interface IEventService
     Task<List<EventRegistrationDto>> GetRegistrationsAsync(Guid eventId);
     Task<List<EventDto>> GetUserRegistrationsAsync(Guid userId);
 
+    /// <summary>
+    /// Past pickup games a user was rostered for (newest first), with a summary over the whole
+    /// history. Cancelled events and games that haven't finished yet are left out.
+    /// Pass organizationId to limit both the page and the summary to one organization.
+    /// </summary>
+    Task<GameHistoryResponse> GetGameHistoryAsync(Guid userId, Guid viewerId, Guid? organizationId, int offset, int limit);
+
     // Payment methods (Phase 4)
     Task<bool> MarkPaymentAsync(Guid eventId, Guid userId, string? paymentReference);
     Task<PaymentUpdateResultDto> UpdatePaymentStatusAsync(Guid eventId, Guid registrationId, string paymentStatus, Guid organizerId);
@@ -26,7 +39,13 @@ public interface IEventService
     Task<bool> UpdateRosterOrderAsync(Guid eventId, List<RosterOrderItem> items, Guid organizerId, Dictionary<int, string>? slotPositionLabels = null);
 
     // Organizer registration management
-    Task<bool> RemoveRegistrationAsync(Guid eventId, Guid registrationId, Guid organizerId);
+    Task<bool> RemoveRegistrationAsync(Guid eventId, Guid registrationId, Guid organizerId, bool lateCancel = false);
+    Task<bool> UpdateAttendanceAsync(Guid eventId, List<AttendanceItem> items, Guid organizerId);
+
+    // Rink check-in
+    Task<CheckInPassDto?> GetCheckInPassAsync(Guid eventId, Guid userId);
+    Task<CheckInResultDto?> CheckInAsync(Guid eventId, List<CheckInItem> items, Guid organizerId);
+    Task<bool> UndoCheckInAsync(Guid eventId, Guid registrationId, Guid organizerId);
 
     /// <summary>
     /// Move a waitlisted player to the roster (organizer only).
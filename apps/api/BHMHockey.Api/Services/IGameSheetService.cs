@@ -0,0 +1,42 @@
+using BHMHockey.Api.Models.DTOs;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Service for tournament match game sheets (goals, penalties and goalies of record)
+/// and the player stats built from them.
+/// </summary>
+public interface IGameSheetService
+{
+    /// <summary>
+    /// Gets the game sheet for a match. A match with nothing recorded yet returns an empty sheet.
+    /// Returns null if match not found or doesn't belong to tournament.
+    /// </summary>
+    Task<GameSheetDto?> GetAsync(Guid tournamentId, Guid matchId);
+
+    /// <summary>
+    /// Replaces a match's game sheet and refreshes both teams' penalty minutes.
+    /// When IsFinal is set, the match is completed with the score derived from the goals.
+    /// </summary>
+    /// <param name="tournamentId">Tournament ID</param>
+    /// <param name="matchId">Match ID</param>
+    /// <param name="request">Goals, penalties, goalies and whether the sheet is final</param>
+    /// <param name="userId">User performing the action (must be tournament admin/scorekeeper)</param>
+    /// <returns>Saved game sheet</returns>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when: match not found, tournament not InProgress, match has TBD teams or was not played,
+    /// an entry names a team outside the match or a player not on that team's roster,
+    /// or an entry has an invalid period, time or penalty length
+    /// </exception>
+    /// <exception cref="UnauthorizedAccessException">Thrown when user is not authorized to enter scores</exception>
+    Task<GameSheetDto> SaveAsync(Guid tournamentId, Guid matchId, SaveGameSheetRequest request, Guid userId);
+
+    /// <summary>
+    /// Gets skater and goalie totals for a tournament, summed from every match with a game sheet.
+    /// Skaters are every accepted roster member who is not a goalie, plus any goalie with points or penalties;
+    /// goalies are the goalies of record.
+    /// </summary>
+    /// <param name="tournamentId">Tournament ID</param>
+    /// <returns>Player stats sorted by points (skaters) and games played (goalies). Returns null if tournament not found.</returns>
+    Task<TournamentPlayerStatsDto?> GetPlayerStatsAsync(Guid tournamentId);
+}
@@ -0,0 +1,23 @@
+using System.Net.WebSockets;
+using BHMHockey.Api.Models.DTOs;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Push channel for live tournament matches. Viewers hold a WebSocket per tournament
+/// and receive a LiveMatchEventDto whenever a match's clock, score or game sheet changes.
+/// </summary>
+public interface ILiveMatchHub
+{
+    /// <summary>
+    /// Keeps a viewer's socket subscribed to a tournament until the viewer disconnects
+    /// or the request is aborted. Messages from the viewer are ignored.
+    /// </summary>
+    Task ListenAsync(Guid tournamentId, WebSocket socket, CancellationToken cancellationToken);
+
+    /// <summary>
+    /// Sends an event to every viewer of the event's tournament. Viewers whose socket
+    /// fails are dropped; they reconnect and poll in the meantime.
+    /// </summary>
+    Task PublishAsync(LiveMatchEventDto liveEvent);
+}
@@ -0,0 +1,31 @@
+using BHMHockey.Api.Models.DTOs;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Per-organization and per-tournament notification mutes, quiet hours and the game
+/// reminder lead time. The push send path asks GetDeliveryAsync before every push.
+/// </summary>
+public interface INotificationPreferenceService
+{
+    /// <summary>
+    /// Gets the user's preferences: one entry per subscribed organization and per upcoming
+    /// or active tournament they're in
+    /// </summary>
+    /// <returns>Null if the user doesn't exist</returns>
+    Task<NotificationPreferencesDto?> GetAsync(Guid userId);
+
+    /// <summary>
+    /// Replaces the user's preferences. Entries for organizations or tournaments the user
+    /// isn't in are ignored.
+    /// </summary>
+    /// <returns>Null if the user doesn't exist</returns>
+    /// <exception cref="InvalidOperationException">Unknown or unmutable type, bad quiet hours or reminder lead time</exception>
+    Task<NotificationPreferencesDto?> UpdateAsync(Guid userId, UpdateNotificationPreferencesRequest request);
+
+    /// <summary>
+    /// How a push of this type reaches the user right now. Tournament toggles win over
+    /// organization toggles when a tournament id is given.
+    /// </summary>
+    Task<NotificationDelivery> GetDeliveryAsync(Guid userId, string type, Guid? organizationId, Guid? tournamentId);
+}
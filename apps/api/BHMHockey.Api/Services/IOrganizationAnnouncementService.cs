@@ -0,0 +1,33 @@
+using BHMHockey.Api.Models.DTOs;
+
+namespace BHMHockey.Api.Services;
+
+public interface IOrganizationAnnouncementService
+{
+    /// <summary>
+    /// Gets the organization's announcements, newest first. Admins see every post; others see
+    /// "All" posts plus the ones targeted at them (auto-roster, or a game they're in).
+    /// </summary>
+    Task<List<OrganizationAnnouncementDto>> GetAnnouncementsAsync(Guid organizationId, Guid? requesterId);
+
+    /// <summary>
+    /// Posts an announcement and pushes it to the target audience. Admins only.
+    /// </summary>
+    /// <exception cref="UnauthorizedAccessException">Requester is not an admin</exception>
+    /// <exception cref="InvalidOperationException">Missing title or body, unknown target, or invalid target event</exception>
+    Task<OrganizationAnnouncementDto> CreateAnnouncementAsync(Guid organizationId, CreateOrganizationAnnouncementRequest request, Guid requesterId);
+
+    /// <summary>
+    /// Edits an announcement's title or body. No new push is sent. Admins only.
+    /// </summary>
+    /// <returns>Null if the announcement doesn't exist</returns>
+    /// <exception cref="UnauthorizedAccessException">Requester is not an admin</exception>
+    Task<OrganizationAnnouncementDto?> UpdateAnnouncementAsync(Guid organizationId, Guid announcementId, UpdateOrganizationAnnouncementRequest request, Guid requesterId);
+
+    /// <summary>
+    /// Deletes an announcement. Admins only.
+    /// </summary>
+    /// <returns>False if the announcement doesn't exist</returns>
+    /// <exception cref="UnauthorizedAccessException">Requester is not an admin</exception>
+    Task<bool> DeleteAnnouncementAsync(Guid organizationId, Guid announcementId, Guid requesterId);
+}
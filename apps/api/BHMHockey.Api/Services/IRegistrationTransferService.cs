@@ -0,0 +1,51 @@
+using BHMHockey.Api.Models.DTOs;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Registration transfers: a registered player hands their event or tournament registration
+/// to a specific player, or offers it to the waitlist. The registration row itself moves on
+/// accept, so position, team assignment and roster slot carry over.
+/// </summary>
+public interface IRegistrationTransferService
+{
+    /// <summary>
+    /// Gets the user's transfers, sent and received, plus pending waitlist offers for games
+    /// they're waitlisted for. Newest first.
+    /// </summary>
+    Task<List<RegistrationTransferDto>> GetForUserAsync(Guid userId);
+
+    /// <summary>
+    /// Searches players the user can hand their spot to (excludes players already on the roster)
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown if the user doesn't hold a spot in the event or tournament</exception>
+    Task<List<UserSearchResultDto>> SearchRecipientsAsync(Guid? eventId, Guid? tournamentId, Guid userId, string query);
+
+    /// <summary>
+    /// Offers the user's spot to a player, or to the waitlist when ToUserId is omitted,
+    /// and notifies them
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown if the user doesn't hold the spot, the game is over, a transfer is already pending, or the recipient can't take it</exception>
+    Task<RegistrationTransferDto> CreateAsync(CreateRegistrationTransferRequest request, Guid userId);
+
+    /// <summary>
+    /// Accepts a pending transfer, moving the registration (and settling its payment status) to the user
+    /// </summary>
+    /// <returns>Null if the transfer was not found</returns>
+    /// <exception cref="InvalidOperationException">Thrown if the transfer isn't pending, isn't offered to the user, or the spot is gone</exception>
+    Task<RegistrationTransferDto?> AcceptAsync(Guid transferId, Guid userId);
+
+    /// <summary>
+    /// Declines a transfer offered directly to the user. The sender keeps their spot.
+    /// </summary>
+    /// <returns>False if the transfer was not found or wasn't offered to the user</returns>
+    /// <exception cref="InvalidOperationException">Thrown if the transfer is no longer pending</exception>
+    Task<bool> DeclineAsync(Guid transferId, Guid userId);
+
+    /// <summary>
+    /// Cancels the user's own pending transfer. They keep their spot.
+    /// </summary>
+    /// <returns>False if the transfer was not found or belongs to someone else</returns>
+    /// <exception cref="InvalidOperationException">Thrown if the transfer is no longer pending</exception>
+    Task<bool> CancelAsync(Guid transferId, Guid userId);
+}
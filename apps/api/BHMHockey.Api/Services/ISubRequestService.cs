@@ -0,0 +1,42 @@
+using BHMHockey.Api.Models.DTOs;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Sub requests: a rostered player asks someone to take their spot in a pickup game
+/// or on a tournament team. The first eligible player to accept takes the spot over.
+/// </summary>
+public interface ISubRequestService
+{
+    /// <summary>
+    /// Gets open requests the user could fill: upcoming, matching their position and skill,
+    /// and for games they aren't already in. Soonest game first.
+    /// </summary>
+    Task<List<SubRequestDto>> GetOpenForUserAsync(Guid userId);
+
+    /// <summary>
+    /// Gets the user's own requests, open and closed, newest first
+    /// </summary>
+    Task<List<SubRequestDto>> GetMineAsync(Guid userId);
+
+    /// <summary>
+    /// Posts a request for the user's event registration or tournament team spot and
+    /// notifies eligible players in the organization
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown if the user doesn't hold the spot, the game is over, or a request is already open</exception>
+    Task<SubRequestDto> CreateAsync(CreateSubRequestRequest request, Guid userId);
+
+    /// <summary>
+    /// Accepts an open request, transferring the spot (and its payment status) to the user
+    /// </summary>
+    /// <returns>Null if the request was not found</returns>
+    /// <exception cref="InvalidOperationException">Thrown if the request is closed, the user isn't eligible, or the spot is gone</exception>
+    Task<AcceptSubRequestResponse?> AcceptAsync(Guid subRequestId, Guid userId);
+
+    /// <summary>
+    /// Cancels the user's own open request. They keep their spot.
+    /// </summary>
+    /// <returns>False if the request was not found or belongs to someone else</returns>
+    /// <exception cref="InvalidOperationException">Thrown if the request is no longer open</exception>
+    Task<bool> CancelAsync(Guid subRequestId, Guid userId);
+}
@@ -49,4 +49,35 @@ public interface ITournamentMatchService
     /// </exception>
     /// <exception cref="UnauthorizedAccessException">Thrown when user is not authorized to manage tournament</exception>
     Task<TournamentMatchDto> ForfeitMatchAsync(Guid tournamentId, Guid matchId, ForfeitMatchRequest request, Guid userId);
+
+    /// <summary>
+    /// Starts, stops or resets a match's live period clock. Starting the clock on a Scheduled match
+    /// moves it to InProgress. A running clock is anchored to the server time it was started.
+    /// </summary>
+    /// <param name="tournamentId">Tournament ID</param>
+    /// <param name="matchId">Match ID</param>
+    /// <param name="request">Period, period length, elapsed seconds and whether the clock is running</param>
+    /// <param name="userId">User performing the action (must be tournament admin/scorekeeper)</param>
+    /// <returns>Updated match DTO</returns>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when: match not found, tournament not InProgress, match has TBD teams or is already decided,
+    /// invalid period, period length or elapsed time
+    /// </exception>
+    /// <exception cref="UnauthorizedAccessException">Thrown when user is not authorized to enter scores</exception>
+    Task<TournamentMatchDto> UpdateClockAsync(Guid tournamentId, Guid matchId, UpdateMatchClockRequest request, Guid userId);
+
+    /// <summary>
+    /// Publishes a generated schedule: sets each listed match's venue and start time, and swaps
+    /// home/away where the slot asks for it. Matches not listed are left alone. Logs the action for audit.
+    /// </summary>
+    /// <param name="tournamentId">Tournament ID</param>
+    /// <param name="request">Slots to apply</param>
+    /// <param name="userId">User performing the action (must be tournament admin)</param>
+    /// <returns>All matches for the tournament after the update</returns>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when: tournament not found, completed or cancelled, a slot names a match outside the tournament
+    /// or one already underway, a match appears twice, a venue is missing, or home/away aren't the match's teams
+    /// </exception>
+    /// <exception cref="UnauthorizedAccessException">Thrown when user is not authorized to manage the schedule</exception>
+    Task<List<TournamentMatchDto>> PublishScheduleAsync(Guid tournamentId, PublishScheduleRequest request, Guid userId);
 }
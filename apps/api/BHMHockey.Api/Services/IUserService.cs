@@ -8,4 +8,16 @@ public interface IUserService
     Task<UserDto> UpdateProfileAsync(Guid userId, UpdateUserProfileRequest request);
     Task UpdatePushTokenAsync(Guid userId, string pushToken);
     Task DeleteAccountAsync(Guid userId);
+
+    /// <summary>
+    /// Gets the user's availability slots, weekly first
+    /// </summary>
+    Task<List<AvailabilitySlotDto>> GetAvailabilityAsync(Guid userId);
+
+    /// <summary>
+    /// Replaces all of the user's availability slots
+    /// </summary>
+    /// <returns>The saved slots with server-assigned ids</returns>
+    /// <exception cref="InvalidOperationException">Thrown if the user is not found, there are too many slots, or a slot is invalid</exception>
+    Task<List<AvailabilitySlotDto>> ReplaceAvailabilityAsync(Guid userId, UpdateAvailabilityRequest request);
 }
@@ -25,6 +25,27 @@ public interface IWaitlistService
     /// </summary>
     Task ProcessExpiredPaymentDeadlinesAsync();
 
+    /// <summary>
+    /// Expire lapsed waitlist offers and cascade each spot to the next player in line
+    /// </summary>
+    Task ProcessExpiredOffersAsync();
+
+    /// <summary>
+    /// Accept the current user's open waitlist offer, moving them onto the roster.
+    /// On paid events the payment deadline starts now.
+    /// </summary>
+    /// <returns>False if the user isn't on the event's waitlist</returns>
+    /// <exception cref="InvalidOperationException">Thrown if there is no open offer or it has expired</exception>
+    Task<bool> AcceptOfferAsync(Guid eventId, Guid userId);
+
+    /// <summary>
+    /// Decline the current user's open waitlist offer. The spot cascades to the next player
+    /// and the user keeps their waitlist spot.
+    /// </summary>
+    /// <returns>False if the user isn't on the event's waitlist</returns>
+    /// <exception cref="InvalidOperationException">Thrown if there is no open offer</exception>
+    Task<bool> DeclineOfferAsync(Guid eventId, Guid userId);
+
     /// <summary>
     /// Get current waitlist for an event
     /// </summary>
@@ -39,6 +60,7 @@ public interface IWaitlistService
     /// <summary>
     /// Promotes users from waitlist using priority queue: verified users first (by RegisteredAt),
     /// then notifies unverified users of available spots (by WaitlistPosition).
+    /// Events of 'Offer' mode orgs offer the spots to the next players in line instead.
     /// </summary>
     /// <param name="eventId">The event ID</param>
     /// <param name="spotCount">Number of spots to fill</param>
@@ -0,0 +1,115 @@
+using System.Globalization;
+using System.Text;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// RFC 5545 iCalendar builder for the personal calendar feed. Mirrors the shared
+/// package's calendar utils so exported .ics files and the feed look the same.
+/// </summary>
+public static class IcsCalendar
+{
+    public const string ProdId = "-//BHM Hockey//Games//EN";
+    public const string UidDomain = "bhmhockey";
+    public const string FeedName = "BHM Hockey";
+    public const int DefaultMatchDurationMinutes = 60;  // Tournament matches have no length of their own
+
+    /// <summary>
+    /// One VEVENT. The uid is stable per game so calendar apps update it in place on reschedules.
+    /// </summary>
+    public record Entry(
+        string Uid,
+        string Title,
+        DateTime Start,
+        int DurationMinutes,
+        string? Location = null,
+        string? Description = null
+    );
+
+    /// <summary>
+    /// Escape a TEXT value (backslash, semicolon, comma, newline)
+    /// </summary>
+    public static string EscapeText(string text)
+    {
+        return text
+            .Replace("\\", "\\\\")
+            .Replace(";", "\\;")
+            .Replace(",", "\\,")
+            .Replace("\r\n", "\\n")
+            .Replace("\n", "\\n");
+    }
+
+    /// <summary>
+    /// UTC date-time, e.g. "20260310T220000Z"
+    /// </summary>
+    public static string FormatDate(DateTime date)
+    {
+        return DateTime.SpecifyKind(date, DateTimeKind.Utc).ToString("yyyyMMdd'T'HHmmss'Z'", CultureInfo.InvariantCulture);
+    }
+
+    /// <summary>
+    /// Fold a content line at 75 octets (continuation lines start with a space).
+    /// Splits between characters so multi-byte names stay intact.
+    /// </summary>
+    public static string FoldLine(string line)
+    {
+        var parts = new List<string>();
+        var current = new StringBuilder();
+        var octets = 0;
+        var enumerator = StringInfo.GetTextElementEnumerator(line);
+        while (enumerator.MoveNext())
+        {
+            var element = enumerator.GetTextElement();
+            var size = Encoding.UTF8.GetByteCount(element);
+            // Continuation lines lose one octet to the leading space
+            var limit = parts.Count == 0 ? 75 : 74;
+            if (octets + size > limit)
+            {
+                parts.Add(current.ToString());
+                current.Clear();
+                octets = 0;
+            }
+            current.Append(element);
+            octets += size;
+        }
+        parts.Add(current.ToString());
+        return string.Join("\r\n ", parts);
+    }
+
+    /// <summary>
+    /// Build a calendar (CRLF line endings, folded lines)
+    /// </summary>
+    public static string Build(IEnumerable<Entry> entries, string? name, DateTime now)
+    {
+        var stamp = FormatDate(now);
+        var lines = new List<string>
+        {
+            "BEGIN:VCALENDAR",
+            "VERSION:2.0",
+            $"PRODID:{ProdId}",
+            "CALSCALE:GREGORIAN",
+            "METHOD:PUBLISH"
+        };
+        if (name != null)
+        {
+            lines.Add($"X-WR-CALNAME:{EscapeText(name)}");
+        }
+
+        foreach (var entry in entries)
+        {
+            lines.Add("BEGIN:VEVENT");
+            lines.Add($"UID:{entry.Uid}");
+            lines.Add($"DTSTAMP:{stamp}");
+            lines.Add($"DTSTART:{FormatDate(entry.Start)}");
+            lines.Add($"DTEND:{FormatDate(entry.Start.AddMinutes(entry.DurationMinutes))}");
+            lines.Add($"SUMMARY:{EscapeText(entry.Title)}");
+            if (!string.IsNullOrEmpty(entry.Location)) lines.Add($"LOCATION:{EscapeText(entry.Location)}");
+            if (!string.IsNullOrEmpty(entry.Description)) lines.Add($"DESCRIPTION:{EscapeText(entry.Description)}");
+            lines.Add("STATUS:CONFIRMED");
+            lines.Add("END:VEVENT");
+        }
+
+        lines.Add("END:VCALENDAR");
+        return string.Join("\r\n", lines.Select(FoldLine)) + "\r\n";
+    }
+}
@@ -0,0 +1,106 @@
+using System.Collections.Concurrent;
+using System.Net.WebSockets;
+using System.Text;
+using System.Text.Json;
+using BHMHockey.Api.Models.DTOs;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// In-memory live match channel (registered as a singleton). Viewers connected to another
+/// instance of the API don't receive pushes and fall back to polling.
+/// </summary>
+public class LiveMatchHub : ILiveMatchHub
+{
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web);
+
+    private readonly ConcurrentDictionary<Guid, ConcurrentDictionary<Guid, Viewer>> _viewers = new();
+    private readonly ILogger<LiveMatchHub> _logger;
+
+    public LiveMatchHub(ILogger<LiveMatchHub> logger)
+    {
+        _logger = logger;
+    }
+
+    public async Task ListenAsync(Guid tournamentId, WebSocket socket, CancellationToken cancellationToken)
+    {
+        var viewerId = Guid.NewGuid();
+        var viewers = _viewers.GetOrAdd(tournamentId, _ => new ConcurrentDictionary<Guid, Viewer>());
+        viewers[viewerId] = new Viewer(socket);
+
+        try
+        {
+            var buffer = new byte[1024];
+            while (socket.State == WebSocketState.Open && !cancellationToken.IsCancellationRequested)
+            {
+                var result = await socket.ReceiveAsync(buffer, cancellationToken);
+                if (result.MessageType == WebSocketMessageType.Close)
+                {
+                    await socket.CloseAsync(WebSocketCloseStatus.NormalClosure, null, CancellationToken.None);
+                    break;
+                }
+            }
+        }
+        catch (Exception ex) when (ex is WebSocketException or OperationCanceledException)
+        {
+            // Viewer went away without a close handshake
+        }
+        finally
+        {
+            viewers.TryRemove(viewerId, out _);
+        }
+    }
+
+    public async Task PublishAsync(LiveMatchEventDto liveEvent)
+    {
+        if (!_viewers.TryGetValue(liveEvent.TournamentId, out var viewers) || viewers.IsEmpty)
+        {
+            return;
+        }
+
+        var payload = Encoding.UTF8.GetBytes(JsonSerializer.Serialize(liveEvent, JsonOptions));
+
+        foreach (var (viewerId, viewer) in viewers)
+        {
+            try
+            {
+                await viewer.SendAsync(payload);
+            }
+            catch (Exception ex) when (ex is WebSocketException or ObjectDisposedException or InvalidOperationException)
+            {
+                _logger.LogInformation("📡 Dropping live viewer for tournament {TournamentId}: {Message}", liveEvent.TournamentId, ex.Message);
+                viewers.TryRemove(viewerId, out _);
+            }
+        }
+    }
+
+    /// <summary>
+    /// A connected socket. WebSocket allows one send at a time, so sends are serialized.
+    /// </summary>
+    private sealed class Viewer
+    {
+        private readonly WebSocket _socket;
+        private readonly SemaphoreSlim _sendLock = new(1, 1);
+
+        public Viewer(WebSocket socket)
+        {
+            _socket = socket;
+        }
+
+        public async Task SendAsync(byte[] payload)
+        {
+            await _sendLock.WaitAsync();
+            try
+            {
+                if (_socket.State == WebSocketState.Open)
+                {
+                    await _socket.SendAsync(payload, WebSocketMessageType.Text, true, CancellationToken.None);
+                }
+            }
+            finally
+            {
+                _sendLock.Release();
+            }
+        }
+    }
+}
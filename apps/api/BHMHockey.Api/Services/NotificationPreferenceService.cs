@@ -0,0 +1,199 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace BHMHockey.Api.Services;
+
+public class NotificationPreferenceService : INotificationPreferenceService
+{
+    private readonly AppDbContext _context;
+
+    public NotificationPreferenceService(AppDbContext context)
+    {
+        _context = context;
+    }
+
+    public async Task<NotificationPreferencesDto?> GetAsync(Guid userId)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null) return null;
+
+        return await BuildDtoAsync(user);
+    }
+
+    public async Task<NotificationPreferencesDto?> UpdateAsync(Guid userId, UpdateNotificationPreferencesRequest request)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null) return null;
+
+        ValidateTypes(request.Organizations.SelectMany(o => o.DisabledTypes), NotificationPreferences.OrganizationTypes);
+        ValidateTypes(request.Tournaments.SelectMany(t => t.DisabledTypes), NotificationPreferences.TournamentTypes);
+
+        if (!NotificationPreferences.GameReminderHourOptions.Contains(request.GameReminderHours))
+        {
+            throw new InvalidOperationException(
+                $"Game reminders can be sent {string.Join(", ", NotificationPreferences.GameReminderHourOptions.Order())} hours before a game");
+        }
+
+        if (request.QuietHours != null)
+        {
+            var start = NotificationPreferences.ParseTimeOfDay(request.QuietHours.Start);
+            var end = NotificationPreferences.ParseTimeOfDay(request.QuietHours.End);
+            if (start == null || end == null)
+            {
+                throw new InvalidOperationException("Quiet hours must be HH:mm times");
+            }
+            if (start == end)
+            {
+                throw new InvalidOperationException("Quiet hours must start and end at different times");
+            }
+            if (NotificationPreferences.FindTimeZone(request.QuietHours.TimeZone) == null)
+            {
+                throw new InvalidOperationException($"Unknown time zone: {request.QuietHours.TimeZone}");
+            }
+        }
+
+        // Organization mutes live on the subscription
+        var subscriptions = await _context.OrganizationSubscriptions
+            .Where(s => s.UserId == userId)
+            .ToListAsync();
+        foreach (var subscription in subscriptions)
+        {
+            var update = request.Organizations.FirstOrDefault(o => o.OrganizationId == subscription.OrganizationId);
+            if (update == null) continue;
+
+            subscription.DisabledNotificationTypes = update.DisabledTypes.Count > 0
+                ? update.DisabledTypes.Distinct().ToList()
+                : null;
+        }
+
+        // Tournament mutes get their own rows, created on first change
+        var tournamentIds = (await GetTournamentsAsync(userId)).Select(t => t.Id).ToHashSet();
+        var existing = await _context.TournamentNotificationPreferences
+            .Where(p => p.UserId == userId)
+            .ToListAsync();
+        foreach (var update in request.Tournaments.Where(t => tournamentIds.Contains(t.TournamentId)))
+        {
+            var preference = existing.FirstOrDefault(p => p.TournamentId == update.TournamentId);
+            if (preference == null)
+            {
+                if (update.DisabledTypes.Count == 0) continue;
+
+                preference = new TournamentNotificationPreference
+                {
+                    UserId = userId,
+                    TournamentId = update.TournamentId
+                };
+                _context.TournamentNotificationPreferences.Add(preference);
+            }
+
+            preference.DisabledNotificationTypes = update.DisabledTypes.Distinct().ToList();
+            preference.UpdatedAt = DateTime.UtcNow;
+        }
+
+        user.QuietHoursStart = request.QuietHours?.Start;
+        user.QuietHoursEnd = request.QuietHours?.End;
+        user.QuietHoursTimeZone = request.QuietHours?.TimeZone;
+        user.GameReminderHours = request.GameReminderHours;
+        user.UpdatedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        return await BuildDtoAsync(user);
+    }
+
+    public async Task<NotificationDelivery> GetDeliveryAsync(Guid userId, string type, Guid? organizationId, Guid? tournamentId)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null) return NotificationDelivery.Send;
+
+        List<string>? disabledTypes;
+        if (tournamentId.HasValue)
+        {
+            disabledTypes = await _context.TournamentNotificationPreferences
+                .Where(p => p.UserId == userId && p.TournamentId == tournamentId.Value)
+                .Select(p => p.DisabledNotificationTypes)
+                .FirstOrDefaultAsync();
+        }
+        else if (organizationId.HasValue)
+        {
+            disabledTypes = await _context.OrganizationSubscriptions
+                .Where(s => s.UserId == userId && s.OrganizationId == organizationId.Value)
+                .Select(s => s.DisabledNotificationTypes)
+                .FirstOrDefaultAsync();
+        }
+        else
+        {
+            disabledTypes = null;
+        }
+
+        if (disabledTypes != null && disabledTypes.Contains(type)) return NotificationDelivery.Skip;
+
+        return NotificationPreferences.IsWithinQuietHours(
+            user.QuietHoursStart, user.QuietHoursEnd, user.QuietHoursTimeZone, DateTime.UtcNow)
+            ? NotificationDelivery.Silent
+            : NotificationDelivery.Send;
+    }
+
+    private async Task<NotificationPreferencesDto> BuildDtoAsync(User user)
+    {
+        var organizations = await _context.OrganizationSubscriptions
+            .Where(s => s.UserId == user.Id)
+            .Include(s => s.Organization)
+            .OrderBy(s => s.Organization.Name)
+            .ToListAsync();
+
+        var tournaments = await GetTournamentsAsync(user.Id);
+        var tournamentPreferences = await _context.TournamentNotificationPreferences
+            .Where(p => p.UserId == user.Id)
+            .ToListAsync();
+
+        var quietHours = user.QuietHoursStart != null && user.QuietHoursEnd != null && user.QuietHoursTimeZone != null
+            ? new QuietHoursDto(user.QuietHoursStart, user.QuietHoursEnd, user.QuietHoursTimeZone)
+            : null;
+
+        return new NotificationPreferencesDto(
+            organizations
+                .Select(s => new OrganizationNotificationPreferenceDto(
+                    s.OrganizationId,
+                    s.Organization.Name,
+                    s.DisabledNotificationTypes ?? new List<string>()))
+                .ToList(),
+            tournaments
+                .Select(t => new TournamentNotificationPreferenceDto(
+                    t.Id,
+                    t.Name,
+                    tournamentPreferences.FirstOrDefault(p => p.TournamentId == t.Id)?.DisabledNotificationTypes
+                        ?? new List<string>()))
+                .ToList(),
+            quietHours,
+            user.GameReminderHours ?? NotificationPreferences.DefaultGameReminderHours);
+    }
+
+    // Tournaments that haven't finished where the user is registered or on a team
+    private async Task<List<Tournament>> GetTournamentsAsync(Guid userId)
+    {
+        var teamTournamentIds = _context.TournamentTeamMembers
+            .Where(m => m.UserId == userId && m.Status != "Declined" && m.LeftAt == null)
+            .Select(m => m.Team.TournamentId);
+        var registeredTournamentIds = _context.TournamentRegistrations
+            .Where(r => r.UserId == userId && r.Status != "Cancelled")
+            .Select(r => r.TournamentId);
+
+        return await _context.Tournaments
+            .Where(t => t.Status != "Completed" && t.Status != "Cancelled")
+            .Where(t => teamTournamentIds.Contains(t.Id) || registeredTournamentIds.Contains(t.Id))
+            .OrderBy(t => t.StartDate)
+            .ToListAsync();
+    }
+
+    private static void ValidateTypes(IEnumerable<string> types, HashSet<string> allowed)
+    {
+        var invalid = types.FirstOrDefault(t => !allowed.Contains(t));
+        if (invalid != null)
+        {
+            throw new InvalidOperationException($"Notification type '{invalid}' can't be turned off here");
+        }
+    }
+}
@@ -0,0 +1,86 @@
+using System.Globalization;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Notification preference rules, mirroring the shared package's notificationPreferences utils.
+/// Only the listed types can be muted - the rest are about the player's own spot (offers,
+/// transfers, filled subs) or organizer duties.
+/// </summary>
+public static class NotificationPreferences
+{
+    public const int DefaultGameReminderHours = 2;
+    public static readonly HashSet<int> GameReminderHourOptions = new() { 1, 2, 3, 6, 12, 24 };
+
+    public static readonly HashSet<string> OrganizationTypes = new()
+    {
+        "new_event",
+        "game_reminder",
+        "payment_reminder",
+        "event_invite",
+        "sub_request",
+        "organization_announcement",
+        "chat_mention"
+    };
+
+    public static readonly HashSet<string> TournamentTypes = new() { "game_reminder", "sub_request" };
+
+    /// <summary>
+    /// Minutes after midnight for an "HH:mm" time, or null when malformed
+    /// </summary>
+    public static int? ParseTimeOfDay(string? time)
+    {
+        if (time == null ||
+            !TimeOnly.TryParseExact(time, new[] { "H:mm", "HH:mm" }, CultureInfo.InvariantCulture, DateTimeStyles.None, out var parsed))
+        {
+            return null;
+        }
+
+        return parsed.Hour * 60 + parsed.Minute;
+    }
+
+    /// <summary>
+    /// The IANA zone, or null when unknown
+    /// </summary>
+    public static TimeZoneInfo? FindTimeZone(string? timeZoneId)
+    {
+        if (string.IsNullOrWhiteSpace(timeZoneId)) return null;
+
+        try
+        {
+            return TimeZoneInfo.FindSystemTimeZoneById(timeZoneId);
+        }
+        catch (Exception ex) when (ex is TimeZoneNotFoundException or InvalidTimeZoneException)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// True when utcNow falls inside the quiet window (start inclusive, end exclusive).
+    /// Windows where end is earlier than start run past midnight.
+    /// </summary>
+    public static bool IsWithinQuietHours(string? start, string? end, string? timeZoneId, DateTime utcNow)
+    {
+        var startMinutes = ParseTimeOfDay(start);
+        var endMinutes = ParseTimeOfDay(end);
+        var zone = FindTimeZone(timeZoneId);
+        if (startMinutes == null || endMinutes == null || zone == null || startMinutes == endMinutes) return false;
+
+        var local = TimeZoneInfo.ConvertTimeFromUtc(DateTime.SpecifyKind(utcNow, DateTimeKind.Utc), zone);
+        var current = local.Hour * 60 + local.Minute;
+        return startMinutes < endMinutes
+            ? current >= startMinutes && current < endMinutes
+            : current >= startMinutes || current < endMinutes;
+    }
+}
+
+/// <summary>
+/// How a push is delivered: normally, without sound (quiet hours), or not at all (muted)
+/// </summary>
+public enum NotificationDelivery
+{
+    Send,
+    Silent,
+    Skip
+}
@@ -3,6 +3,7 @@ using Microsoft.EntityFrameworkCore;
 using System.Net.Http.Headers;
 using System.Text;
 using System.Text.Json;
+using System.Text.Json.Serialization;
 
 namespace BHMHockey.Api.Services;
 
@@ -13,6 +14,7 @@ public class NotificationService : INotificationService
     private readonly ILogger<NotificationService> _logger;
     private readonly HttpClient _httpClient;
     private readonly INotificationPersistenceService _persistenceService;
+    private readonly INotificationPreferenceService _preferenceService;
     private const string ExpoPushUrl = "https://exp.host/--/api/v2/push/send";
 
     public NotificationService(
@@ -20,13 +22,15 @@ public class NotificationService : INotificationService
         IConfiguration configuration,
         ILogger<NotificationService> logger,
         IHttpClientFactory httpClientFactory,
-        INotificationPersistenceService persistenceService)
+        INotificationPersistenceService persistenceService,
+        INotificationPreferenceService preferenceService)
     {
         _context = context;
         _configuration = configuration;
         _logger = logger;
         _httpClient = httpClientFactory.CreateClient("ExpoPush");
         _persistenceService = persistenceService;
+        _preferenceService = preferenceService;
     }
 
     public async Task SendPushNotificationAsync(
@@ -39,8 +43,29 @@ public class NotificationService : INotificationService
         Guid? organizationId = null,
         Guid? eventId = null)
     {
+        // Muted types still land in the in-app list; quiet hours send without sound
+        var delivery = NotificationDelivery.Send;
+        if (userId.HasValue && !string.IsNullOrEmpty(type))
+        {
+            if (!organizationId.HasValue && eventId.HasValue)
+            {
+                organizationId = await _context.Events
+                    .Where(e => e.Id == eventId.Value)
+                    .Select(e => e.OrganizationId)
+                    .FirstOrDefaultAsync();
+            }
+
+            var tournamentId = Guid.TryParse(ConvertToDataDictionary(data)?.GetValueOrDefault("tournamentId"), out var parsed)
+                ? parsed
+                : (Guid?)null;
+            delivery = await _preferenceService.GetDeliveryAsync(userId.Value, type, organizationId, tournamentId);
+        }
+
         // Send push notification
-        await SendBatchPushNotificationsAsync(new List<string> { pushToken }, title, body, data);
+        if (delivery != NotificationDelivery.Skip)
+        {
+            await SendPushesAsync(new List<string> { pushToken }, title, body, data, delivery == NotificationDelivery.Silent);
+        }
 
         // Persist to database if userId is provided
         if (userId.HasValue && !string.IsNullOrEmpty(type))
@@ -81,7 +106,13 @@ public class NotificationService : INotificationService
         }
     }
 
-    public async Task SendBatchPushNotificationsAsync(List<string> pushTokens, string title, string body, object? data = null)
+    public Task SendBatchPushNotificationsAsync(List<string> pushTokens, string title, string body, object? data = null)
+    {
+        return SendPushesAsync(pushTokens, title, body, data, silent: false);
+    }
+
+    // Silent pushes (quiet hours) still show up in the tray, just without sound
+    private async Task SendPushesAsync(List<string> pushTokens, string title, string body, object? data, bool silent)
     {
         if (!pushTokens.Any())
         {
@@ -99,6 +130,9 @@ public class NotificationService : INotificationService
 
         _logger.LogInformation("Sending push notification to {Count} devices: {Title}", validTokens.Count, title);
 
+        // Pushes whose data names a categoryId get that category's action buttons on the device
+        var categoryId = ConvertToDataDictionary(data)?.GetValueOrDefault("categoryId");
+
         // Build notification messages for each token
         var messages = validTokens.Select(token => new
         {
@@ -106,13 +140,17 @@ public class NotificationService : INotificationService
             title = title,
             body = body,
             data = data,
-            sound = "default",
-            priority = "high"
+            sound = silent ? null : "default",
+            priority = silent ? "normal" : "high",
+            categoryId = categoryId
         }).ToList();
 
         try
         {
-            var json = JsonSerializer.Serialize(messages);
+            var json = JsonSerializer.Serialize(messages, new JsonSerializerOptions
+            {
+                DefaultIgnoreCondition = JsonIgnoreCondition.WhenWritingNull
+            });
             var content = new StringContent(json, Encoding.UTF8, "application/json");
 
             // Add Expo access token if configured
@@ -154,21 +192,43 @@ public class NotificationService : INotificationService
         var subscribers = await _context.OrganizationSubscriptions
             .Include(s => s.User)
             .Where(s => s.OrganizationId == organizationId && s.NotificationEnabled)
-            .Select(s => new { s.UserId, s.User.PushToken })
+            .Select(s => new
+            {
+                s.UserId,
+                s.User.PushToken,
+                s.DisabledNotificationTypes,
+                s.User.QuietHoursStart,
+                s.User.QuietHoursEnd,
+                s.User.QuietHoursTimeZone
+            })
             .ToListAsync();
 
-        var pushTokens = subscribers
+        // Members who muted this type for the organization get it in-app only
+        var now = DateTime.UtcNow;
+        var recipients = subscribers
             .Where(s => !string.IsNullOrEmpty(s.PushToken))
+            .Where(s => type == null || s.DisabledNotificationTypes == null || !s.DisabledNotificationTypes.Contains(type))
+            .ToList();
+        var quietTokens = recipients
+            .Where(s => NotificationPreferences.IsWithinQuietHours(s.QuietHoursStart, s.QuietHoursEnd, s.QuietHoursTimeZone, now))
+            .Select(s => s.PushToken!)
+            .ToList();
+        var pushTokens = recipients
             .Select(s => s.PushToken!)
+            .Except(quietTokens)
             .ToList();
 
-        _logger.LogInformation("Found {Count} subscribers ({PushCount} with push tokens) for organization {OrgId}",
-            subscribers.Count, pushTokens.Count, organizationId);
+        _logger.LogInformation("Found {Count} subscribers ({PushCount} with push tokens, {QuietCount} in quiet hours) for organization {OrgId}",
+            subscribers.Count, pushTokens.Count, quietTokens.Count, organizationId);
 
         // Send push notifications to those with tokens
         if (pushTokens.Any())
         {
-            await SendBatchPushNotificationsAsync(pushTokens, title, body, data);
+            await SendPushesAsync(pushTokens, title, body, data, silent: false);
+        }
+        if (quietTokens.Any())
+        {
+            await SendPushesAsync(quietTokens, title, body, data, silent: true);
         }
 
         // Persist notifications for ALL subscribers (even those without push tokens)
@@ -0,0 +1,309 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Service for organization announcements. Admins see every post, auto-roster members see
+/// "AutoRoster" posts, players in a game see "EventRegistrants" posts for that game, and
+/// everyone sees "All" posts.
+/// </summary>
+public class OrganizationAnnouncementService : IOrganizationAnnouncementService
+{
+    private readonly AppDbContext _context;
+    private readonly IOrganizationAdminService _adminService;
+    private readonly INotificationService _notificationService;
+    private readonly ILogger<OrganizationAnnouncementService> _logger;
+
+    private static readonly HashSet<string> ValidTargets = new() { "All", "Admins", "AutoRoster", "EventRegistrants" };
+
+    public OrganizationAnnouncementService(
+        AppDbContext context,
+        IOrganizationAdminService adminService,
+        INotificationService notificationService,
+        ILogger<OrganizationAnnouncementService> logger)
+    {
+        _context = context;
+        _adminService = adminService;
+        _notificationService = notificationService;
+        _logger = logger;
+    }
+
+    public async Task<List<OrganizationAnnouncementDto>> GetAnnouncementsAsync(Guid organizationId, Guid? requesterId)
+    {
+        var announcements = await _context.OrganizationAnnouncements
+            .Include(a => a.CreatedByUser)
+            .Include(a => a.TargetEvent)
+            .Where(a => a.OrganizationId == organizationId && a.DeletedAt == null)
+            .OrderByDescending(a => a.CreatedAt)
+            .ToListAsync();
+
+        // Determine what the requester can see
+        var isAdmin = false;
+        var isAutoRoster = false;
+        var registeredEventIds = new HashSet<Guid>();
+
+        if (requesterId.HasValue)
+        {
+            isAdmin = await _adminService.IsUserAdminAsync(organizationId, requesterId.Value);
+
+            if (!isAdmin)
+            {
+                isAutoRoster = await _context.OrganizationAutoRosterMembers
+                    .AnyAsync(m => m.OrganizationId == organizationId && m.UserId == requesterId.Value);
+
+                var targetEventIds = announcements
+                    .Where(a => a.TargetEventId.HasValue)
+                    .Select(a => a.TargetEventId!.Value)
+                    .ToList();
+                registeredEventIds = (await _context.EventRegistrations
+                    .Where(r => targetEventIds.Contains(r.EventId) && r.UserId == requesterId.Value && r.Status != "Cancelled")
+                    .Select(r => r.EventId)
+                    .ToListAsync()).ToHashSet();
+            }
+        }
+
+        return announcements
+            .Where(a => isAdmin || a.Target switch
+            {
+                "All" => true,
+                "AutoRoster" => isAutoRoster,
+                "EventRegistrants" => a.TargetEventId.HasValue && registeredEventIds.Contains(a.TargetEventId.Value),
+                _ => false  // Admins-only posts
+            })
+            .Select(MapToDto)
+            .ToList();
+    }
+
+    public async Task<OrganizationAnnouncementDto> CreateAnnouncementAsync(Guid organizationId, CreateOrganizationAnnouncementRequest request, Guid requesterId)
+    {
+        var isAdmin = await _adminService.IsUserAdminAsync(organizationId, requesterId);
+        if (!isAdmin)
+        {
+            throw new UnauthorizedAccessException("Only organization admins can create announcements.");
+        }
+
+        if (string.IsNullOrWhiteSpace(request.Title))
+        {
+            throw new InvalidOperationException("Title is required.");
+        }
+
+        if (string.IsNullOrWhiteSpace(request.Body))
+        {
+            throw new InvalidOperationException("Body is required.");
+        }
+
+        if (!ValidTargets.Contains(request.Target))
+        {
+            throw new InvalidOperationException($"Unknown announcement target: {request.Target}");
+        }
+
+        Event? targetEvent = null;
+        if (request.Target == "EventRegistrants")
+        {
+            if (!request.TargetEventId.HasValue)
+            {
+                throw new InvalidOperationException("Choose the game whose players should get this announcement.");
+            }
+
+            targetEvent = await _context.Events
+                .FirstOrDefaultAsync(e => e.Id == request.TargetEventId.Value && e.OrganizationId == organizationId);
+            if (targetEvent == null)
+            {
+                throw new InvalidOperationException("That game isn't one of this organization's events.");
+            }
+            if (targetEvent.Status == "Cancelled" || targetEvent.EventDate <= DateTime.UtcNow)
+            {
+                throw new InvalidOperationException("Announcements can only target players in an upcoming game.");
+            }
+        }
+
+        var announcement = new OrganizationAnnouncement
+        {
+            OrganizationId = organizationId,
+            Title = request.Title,
+            Body = request.Body,
+            Target = request.Target,
+            TargetEventId = targetEvent?.Id,
+            TargetEvent = targetEvent,
+            CreatedByUserId = requesterId,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        _context.OrganizationAnnouncements.Add(announcement);
+        await _context.SaveChangesAsync();
+
+        // Load creator user for DTO
+        await _context.Entry(announcement).Reference(a => a.CreatedByUser).LoadAsync();
+
+        // Send push notifications (don't fail if this errors)
+        try
+        {
+            await SendAnnouncementNotificationsAsync(announcement);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to send push notifications for announcement {AnnouncementId} in organization {OrganizationId}",
+                announcement.Id, organizationId);
+        }
+
+        return MapToDto(announcement);
+    }
+
+    public async Task<OrganizationAnnouncementDto?> UpdateAnnouncementAsync(Guid organizationId, Guid announcementId, UpdateOrganizationAnnouncementRequest request, Guid requesterId)
+    {
+        var isAdmin = await _adminService.IsUserAdminAsync(organizationId, requesterId);
+        if (!isAdmin)
+        {
+            throw new UnauthorizedAccessException("Only organization admins can update announcements.");
+        }
+
+        var announcement = await _context.OrganizationAnnouncements
+            .Include(a => a.CreatedByUser)
+            .Include(a => a.TargetEvent)
+            .FirstOrDefaultAsync(a => a.Id == announcementId && a.OrganizationId == organizationId && a.DeletedAt == null);
+
+        if (announcement == null)
+        {
+            return null;
+        }
+
+        // PATCH semantics - only update provided fields
+        if (request.Title != null)
+        {
+            if (string.IsNullOrWhiteSpace(request.Title))
+            {
+                throw new InvalidOperationException("Title cannot be empty.");
+            }
+            announcement.Title = request.Title;
+        }
+
+        if (request.Body != null)
+        {
+            if (string.IsNullOrWhiteSpace(request.Body))
+            {
+                throw new InvalidOperationException("Body cannot be empty.");
+            }
+            announcement.Body = request.Body;
+        }
+
+        announcement.UpdatedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        return MapToDto(announcement);
+    }
+
+    public async Task<bool> DeleteAnnouncementAsync(Guid organizationId, Guid announcementId, Guid requesterId)
+    {
+        var isAdmin = await _adminService.IsUserAdminAsync(organizationId, requesterId);
+        if (!isAdmin)
+        {
+            throw new UnauthorizedAccessException("Only organization admins can delete announcements.");
+        }
+
+        var announcement = await _context.OrganizationAnnouncements
+            .FirstOrDefaultAsync(a => a.Id == announcementId && a.OrganizationId == organizationId && a.DeletedAt == null);
+
+        if (announcement == null)
+        {
+            return false;
+        }
+
+        // Soft delete
+        announcement.DeletedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        return true;
+    }
+
+    /// <summary>
+    /// Push the announcement to its audience. Goes through the per-user send path so
+    /// members who muted announcements for the organization only see it in-app.
+    /// </summary>
+    private async Task SendAnnouncementNotificationsAsync(OrganizationAnnouncement announcement)
+    {
+        // Truncate body if too long (keep it under 200 characters for notification)
+        var notificationBody = announcement.Body.Length > 200 ? announcement.Body.Substring(0, 197) + "..." : announcement.Body;
+        var data = new
+        {
+            organizationId = announcement.OrganizationId.ToString(),
+            announcementId = announcement.Id.ToString(),
+            type = "organization_announcement"
+        };
+
+        if (announcement.Target == "All")
+        {
+            await _notificationService.NotifyOrganizationSubscribersAsync(
+                announcement.OrganizationId,
+                announcement.Title,
+                notificationBody,
+                data,
+                type: "organization_announcement");
+            return;
+        }
+
+        var targetUserIds = announcement.Target switch
+        {
+            "Admins" => await _context.OrganizationAdmins
+                .Where(a => a.OrganizationId == announcement.OrganizationId)
+                .Select(a => a.UserId)
+                .ToListAsync(),
+            "AutoRoster" => await _context.OrganizationAutoRosterMembers
+                .Where(m => m.OrganizationId == announcement.OrganizationId)
+                .Select(m => m.UserId)
+                .ToListAsync(),
+            _ => await _context.EventRegistrations
+                .Where(r => r.EventId == announcement.TargetEventId && (r.Status == "Registered" || r.Status == "Waitlisted"))
+                .Select(r => r.UserId)
+                .ToListAsync()
+        };
+
+        var recipients = await _context.Users
+            .Where(u => targetUserIds.Contains(u.Id) && !string.IsNullOrEmpty(u.PushToken))
+            .Select(u => new { u.Id, u.PushToken })
+            .ToListAsync();
+
+        _logger.LogInformation("Sending announcement {AnnouncementId} ({Target}) to {Count} users",
+            announcement.Id, announcement.Target, recipients.Count);
+
+        foreach (var recipient in recipients)
+        {
+            try
+            {
+                await _notificationService.SendPushNotificationAsync(
+                    recipient.PushToken!,
+                    announcement.Title,
+                    notificationBody,
+                    data,
+                    userId: recipient.Id,
+                    type: "organization_announcement",
+                    organizationId: announcement.OrganizationId,
+                    eventId: announcement.TargetEventId);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to send announcement {AnnouncementId} to user {UserId}", announcement.Id, recipient.Id);
+            }
+        }
+    }
+
+    private static OrganizationAnnouncementDto MapToDto(OrganizationAnnouncement announcement)
+    {
+        return new OrganizationAnnouncementDto(
+            announcement.Id,
+            announcement.OrganizationId,
+            announcement.Title,
+            announcement.Body,
+            announcement.Target,
+            announcement.TargetEventId,
+            announcement.TargetEvent == null ? null : announcement.TargetEvent.Name ?? "Hockey Game",
+            announcement.CreatedByUserId,
+            announcement.CreatedByUser.FirstName,
+            announcement.CreatedByUser.LastName,
+            announcement.CreatedAt,
+            announcement.UpdatedAt
+        );
+    }
+}
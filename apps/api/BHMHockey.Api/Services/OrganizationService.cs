@@ -94,6 +94,8 @@ public class OrganizationService : IOrganizationService
             request.DefaultCost,
             request.DefaultVenue,
             request.DefaultVisibility);
+        PlayerReliability.ValidateWindowHours(request.LateCancelWindowHours);
+        WaitlistOffers.Validate(request.WaitlistPromotionMode, request.WaitlistOfferWindowMinutes);
 
         // Check for duplicate name
         var existingOrg = await _context.Organizations
@@ -118,7 +120,11 @@ public class OrganizationService : IOrganizationService
             DefaultVenue = request.DefaultVenue,
             DefaultVisibility = request.DefaultVisibility,
             DefaultShowWaitlistBeforePublish = request.DefaultShowWaitlistBeforePublish,
-            GroupMeLink = GroupMeLinkValidator.Normalize(request.GroupMeLink)
+            GroupMeLink = GroupMeLinkValidator.Normalize(request.GroupMeLink),
+            LateCancelWindowHours = request.LateCancelWindowHours,
+            WaitlistPromotionMode = request.WaitlistPromotionMode,
+            WaitlistOfferWindowMinutes = request.WaitlistOfferWindowMinutes,
+            InAppChatEnabled = request.InAppChatEnabled ?? false
         };
 
         _context.Organizations.Add(organization);
@@ -188,6 +194,8 @@ public class OrganizationService : IOrganizationService
             request.DefaultCost,
             request.DefaultVenue,
             request.DefaultVisibility);
+        PlayerReliability.ValidateWindowHours(request.LateCancelWindowHours);
+        WaitlistOffers.Validate(request.WaitlistPromotionMode, request.WaitlistOfferWindowMinutes);
 
         if (request.Name != null && request.Name != organization.Name)
         {
@@ -217,6 +225,14 @@ public class OrganizationService : IOrganizationService
         if (request.DefaultShowWaitlistBeforePublish != null) organization.DefaultShowWaitlistBeforePublish = request.DefaultShowWaitlistBeforePublish;
         // Empty/whitespace clears the link (Normalize returns null); null leaves it unchanged
         if (request.GroupMeLink != null) organization.GroupMeLink = GroupMeLinkValidator.Normalize(request.GroupMeLink);
+        if (request.LateCancelWindowHours != null) organization.LateCancelWindowHours = request.LateCancelWindowHours;
+        if (request.InAppChatEnabled != null) organization.InAppChatEnabled = request.InAppChatEnabled.Value;
+        // The offer window travels with the mode, so a null window resets it to the default
+        if (request.WaitlistPromotionMode != null)
+        {
+            organization.WaitlistPromotionMode = request.WaitlistPromotionMode;
+            organization.WaitlistOfferWindowMinutes = request.WaitlistOfferWindowMinutes;
+        }
 
         organization.UpdatedAt = DateTime.UtcNow;
 
@@ -426,6 +442,16 @@ public class OrganizationService : IOrganizationService
             }
         }
 
+        // Attendance counts - ADMIN-ONLY, like waiver status
+        var reliabilityByUser = isAdmin
+            ? await PlayerReliability.GetForUsersAsync(_context, memberUserIds)
+            : null;
+
+        // Availability - ADMIN-ONLY, used to rank who to invite to short games
+        var availabilityByUser = isAdmin
+            ? await PlayerAvailability.GetForUsersAsync(_context, memberUserIds)
+            : null;
+
         // Build member DTOs
         var members = subscriptions.Select(s => new OrganizationMemberDto(
             s.User.Id,
@@ -437,7 +463,9 @@ public class OrganizationService : IOrganizationService
             adminUserIds.Contains(s.User.Id),
             badgesByUser.GetValueOrDefault(s.User.Id, new List<UserBadgeDto>()),
             badgeCountsByUser.GetValueOrDefault(s.User.Id, 0),
-            acceptedUserIds == null ? null : acceptedUserIds.Contains(s.User.Id)
+            acceptedUserIds == null ? null : acceptedUserIds.Contains(s.User.Id),
+            reliabilityByUser?.GetValueOrDefault(s.User.Id),
+            availabilityByUser?.GetValueOrDefault(s.User.Id)
         )).ToList();
 
         return members;
@@ -499,7 +527,11 @@ public class OrganizationService : IOrganizationService
             org.DefaultVenue,
             org.DefaultVisibility,
             org.GroupMeLink,
-            org.DefaultShowWaitlistBeforePublish
+            org.DefaultShowWaitlistBeforePublish,
+            org.LateCancelWindowHours,
+            org.WaitlistPromotionMode,
+            org.WaitlistOfferWindowMinutes,
+            org.InAppChatEnabled
         );
     }
 }
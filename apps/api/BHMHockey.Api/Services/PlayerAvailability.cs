@@ -0,0 +1,126 @@
+using System.Globalization;
+using System.Text.RegularExpressions;
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Player availability: weekly and one-off windows a player is free to play. Players replace
+/// their whole list at once; org admins see it on the member list to rank who to invite.
+/// </summary>
+public static class PlayerAvailability
+{
+    public const int MaxSlots = 50;
+
+    public static readonly HashSet<string> ValidKinds = new() { "Weekly", "OneOff" };
+    public static readonly HashSet<string> ValidPositions = new() { "Goalie", "Skater" };
+
+    private static readonly Regex TimePattern = new(@"^([01]\d|2[0-3]):[0-5]\d$", RegexOptions.Compiled);
+
+    /// <summary>
+    /// Throws InvalidOperationException for an unknown kind or position, a missing day/date,
+    /// a malformed time, or an end time that isn't after the start time
+    /// </summary>
+    public static void Validate(AvailabilitySlotDto slot)
+    {
+        if (!ValidKinds.Contains(slot.Kind))
+        {
+            throw new InvalidOperationException($"Invalid availability kind: '{slot.Kind}'. Must be Weekly or OneOff");
+        }
+
+        if (slot.Kind == "Weekly" && (slot.DayOfWeek is null or < 0 or > 6))
+        {
+            throw new InvalidOperationException("Weekly availability needs a day of week between 0 (Sunday) and 6");
+        }
+
+        if (slot.Kind == "OneOff" && !DateOnly.TryParseExact(slot.Date, "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out _))
+        {
+            throw new InvalidOperationException("One-off availability needs a date in YYYY-MM-DD format");
+        }
+
+        if (!TimePattern.IsMatch(slot.StartTime))
+        {
+            throw new InvalidOperationException($"Invalid start time: '{slot.StartTime}'. Must be HH:mm");
+        }
+
+        if (slot.EndTime != "24:00" && !TimePattern.IsMatch(slot.EndTime))
+        {
+            throw new InvalidOperationException($"Invalid end time: '{slot.EndTime}'. Must be HH:mm or 24:00");
+        }
+
+        // Zero-padded HH:mm compares correctly as a string
+        if (string.CompareOrdinal(slot.EndTime, slot.StartTime) <= 0)
+        {
+            throw new InvalidOperationException("Availability end time must be after the start time");
+        }
+
+        if (slot.Position != null && !ValidPositions.Contains(slot.Position))
+        {
+            throw new InvalidOperationException($"Invalid position: '{slot.Position}'. Must be Goalie or Skater");
+        }
+    }
+
+    /// <summary>
+    /// Builds the entity for a validated slot. Day and date are only kept for the kind that uses them.
+    /// </summary>
+    public static UserAvailabilitySlot ToEntity(AvailabilitySlotDto slot, Guid userId)
+    {
+        return new UserAvailabilitySlot
+        {
+            UserId = userId,
+            Kind = slot.Kind,
+            DayOfWeek = slot.Kind == "Weekly" ? slot.DayOfWeek : null,
+            Date = slot.Kind == "OneOff" ? slot.Date : null,
+            StartTime = slot.StartTime,
+            EndTime = slot.EndTime,
+            Position = slot.Position
+        };
+    }
+
+    public static AvailabilitySlotDto ToDto(UserAvailabilitySlot slot)
+    {
+        return new AvailabilitySlotDto(
+            slot.Id.ToString(),
+            slot.Kind,
+            slot.DayOfWeek,
+            slot.Date,
+            slot.StartTime,
+            slot.EndTime,
+            slot.Position
+        );
+    }
+
+    /// <summary>
+    /// Orders slots weekly first (by day), then one-offs by date, each by start time
+    /// </summary>
+    public static IOrderedQueryable<UserAvailabilitySlot> Ordered(IQueryable<UserAvailabilitySlot> slots)
+    {
+        return slots
+            .OrderByDescending(s => s.Kind == "Weekly")
+            .ThenBy(s => s.DayOfWeek)
+            .ThenBy(s => s.Date)
+            .ThenBy(s => s.StartTime);
+    }
+
+    /// <summary>
+    /// Batch loads availability for a list of users. Users with no slots get an empty list.
+    /// </summary>
+    public static async Task<Dictionary<Guid, List<AvailabilitySlotDto>>> GetForUsersAsync(AppDbContext context, IEnumerable<Guid> userIds)
+    {
+        var userIdList = userIds.Distinct().ToList();
+        if (userIdList.Count == 0)
+        {
+            return new Dictionary<Guid, List<AvailabilitySlotDto>>();
+        }
+
+        var slots = await Ordered(context.UserAvailabilitySlots.Where(s => userIdList.Contains(s.UserId)))
+            .ToListAsync();
+
+        return userIdList.ToDictionary(
+            id => id,
+            id => slots.Where(s => s.UserId == id).Select(ToDto).ToList());
+    }
+}
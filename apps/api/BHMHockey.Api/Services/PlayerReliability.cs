@@ -0,0 +1,72 @@
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using Microsoft.EntityFrameworkCore;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Attendance records and the late-cancel window. Organizers record Present/NoShow/LateCancel
+/// on registrations after a game; a rostered player who cancels inside the window gets
+/// LateCancel automatically. The score itself is computed client-side from the counts.
+/// </summary>
+public static class PlayerReliability
+{
+    public const int DefaultLateCancelWindowHours = 24;
+    public const int MaxLateCancelWindowHours = 168;
+
+    public static readonly HashSet<string> ValidStatuses = new() { "Present", "NoShow", "LateCancel" };
+
+    /// <summary>
+    /// The organization's window, or the default for standalone events and orgs that haven't set one
+    /// </summary>
+    public static int ResolveWindowHours(int? organizationWindowHours)
+    {
+        return organizationWindowHours ?? DefaultLateCancelWindowHours;
+    }
+
+    /// <summary>
+    /// Cancelling at `now` is late when it's inside the window before the game or after it started
+    /// </summary>
+    public static bool IsLateCancellation(DateTime eventDate, int windowHours, DateTime now)
+    {
+        return eventDate - now < TimeSpan.FromHours(windowHours);
+    }
+
+    /// <summary>
+    /// Batch loads attendance counts for a list of users across all events.
+    /// Users with no recorded attendance get zero counts.
+    /// </summary>
+    public static async Task<Dictionary<Guid, ReliabilityDto>> GetForUsersAsync(AppDbContext context, IEnumerable<Guid> userIds)
+    {
+        var userIdList = userIds.Distinct().ToList();
+        if (userIdList.Count == 0)
+        {
+            return new Dictionary<Guid, ReliabilityDto>();
+        }
+
+        var counts = await context.EventRegistrations
+            .Where(r => userIdList.Contains(r.UserId) && r.AttendanceStatus != null)
+            .GroupBy(r => new { r.UserId, r.AttendanceStatus })
+            .Select(g => new { g.Key.UserId, g.Key.AttendanceStatus, Count = g.Count() })
+            .ToListAsync();
+
+        return userIdList.ToDictionary(
+            id => id,
+            id => new ReliabilityDto(
+                GamesAttended: counts.Where(c => c.UserId == id && c.AttendanceStatus == "Present").Sum(c => c.Count),
+                NoShows: counts.Where(c => c.UserId == id && c.AttendanceStatus == "NoShow").Sum(c => c.Count),
+                LateCancels: counts.Where(c => c.UserId == id && c.AttendanceStatus == "LateCancel").Sum(c => c.Count)
+            ));
+    }
+
+    /// <summary>
+    /// Throws InvalidOperationException for a window outside 0..MaxLateCancelWindowHours
+    /// </summary>
+    public static void ValidateWindowHours(int? windowHours)
+    {
+        if (windowHours.HasValue && (windowHours.Value < 0 || windowHours.Value > MaxLateCancelWindowHours))
+        {
+            throw new InvalidOperationException($"LateCancelWindowHours must be between 0 and {MaxLateCancelWindowHours}.");
+        }
+    }
+}
@@ -0,0 +1,763 @@
+using System.Data;
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace BHMHockey.Api.Services;
+
+public class RegistrationTransferService : IRegistrationTransferService
+{
+    private readonly AppDbContext _context;
+    private readonly INotificationService _notificationService;
+    private readonly IWaitlistService _waitlistService;
+    private readonly ILogger<RegistrationTransferService> _logger;
+
+    // Central Time Zone for displaying times to users (local community app)
+    private static readonly TimeZoneInfo CentralTimeZone = TimeZoneInfo.FindSystemTimeZoneById("America/Chicago");
+
+    public RegistrationTransferService(
+        AppDbContext context,
+        INotificationService notificationService,
+        IWaitlistService waitlistService,
+        ILogger<RegistrationTransferService> logger)
+    {
+        _context = context;
+        _notificationService = notificationService;
+        _waitlistService = waitlistService;
+        _logger = logger;
+    }
+
+    #region Queries
+
+    public async Task<List<RegistrationTransferDto>> GetForUserAsync(Guid userId)
+    {
+        // Waitlist offers are visible to everyone on that game's waitlist
+        var waitlistedEventIds = await _context.EventRegistrations
+            .Where(r => r.UserId == userId && r.Status == "Waitlisted")
+            .Select(r => r.EventId)
+            .ToListAsync();
+        var waitlistedTournamentIds = await _context.TournamentRegistrations
+            .Where(r => r.UserId == userId && r.Status == "Waitlisted")
+            .Select(r => r.TournamentId)
+            .ToListAsync();
+
+        var transfers = await QueryTransfers()
+            .Where(t => t.FromUserId == userId
+                || t.ToUserId == userId
+                || (t.ToUserId == null && t.Status == "Pending"
+                    && ((t.EventId != null && waitlistedEventIds.Contains(t.EventId.Value))
+                        || (t.TournamentId != null && waitlistedTournamentIds.Contains(t.TournamentId.Value)))))
+            .OrderByDescending(t => t.CreatedAt)
+            .ToListAsync();
+
+        // Pending transfers are left as-is when the sender gives up the spot another way,
+        // so they're filtered here instead
+        var visible = transfers
+            .Where(t => t.Status != "Pending" || IsSpotStillHeld(t))
+            .ToList();
+
+        return await MapToDtosAsync(visible, userId);
+    }
+
+    public async Task<List<UserSearchResultDto>> SearchRecipientsAsync(Guid? eventId, Guid? tournamentId, Guid userId, string query)
+    {
+        if (eventId.HasValue == tournamentId.HasValue)
+        {
+            throw new InvalidOperationException("Provide either an event or a tournament");
+        }
+
+        var holdsSpot = eventId.HasValue
+            ? await _context.EventRegistrations
+                .AnyAsync(r => r.EventId == eventId.Value && r.UserId == userId && r.Status == "Registered")
+            : await _context.TournamentRegistrations
+                .AnyAsync(r => r.TournamentId == tournamentId!.Value && r.UserId == userId
+                    && (r.Status == "Registered" || r.Status == "Assigned"));
+        if (!holdsSpot)
+        {
+            throw new InvalidOperationException("You don't have a spot to transfer");
+        }
+
+        if (string.IsNullOrWhiteSpace(query) || query.Length < 2)
+        {
+            return new List<UserSearchResultDto>();
+        }
+
+        // Waitlisted players can take the spot; players already in can't
+        var excludedUserIds = await GetRosteredUserIdsAsync(eventId, tournamentId);
+        excludedUserIds.Add(userId);
+
+        // Exclude ghost players - they are placeholders for non-app users
+        var queryLower = query.ToLower();
+        return await _context.Users
+            .Where(u =>
+                !u.IsGhostPlayer &&
+                u.IsActive &&
+                (u.FirstName.ToLower().Contains(queryLower) ||
+                 u.LastName.ToLower().Contains(queryLower)) &&
+                !excludedUserIds.Contains(u.Id))
+            .OrderBy(u => u.LastName)
+            .ThenBy(u => u.FirstName)
+            .Take(20)
+            .Select(u => new UserSearchResultDto
+            {
+                Id = u.Id,
+                FirstName = u.FirstName,
+                LastName = u.LastName,
+                Email = u.Email,
+                Positions = u.Positions
+            })
+            .ToListAsync();
+    }
+
+    #endregion
+
+    #region Create / Accept / Decline / Cancel
+
+    public async Task<RegistrationTransferDto> CreateAsync(CreateRegistrationTransferRequest request, Guid userId)
+    {
+        if (request.EventId.HasValue == request.TournamentId.HasValue)
+        {
+            throw new InvalidOperationException("Provide either an event or a tournament");
+        }
+
+        var transfer = new RegistrationTransfer
+        {
+            FromUserId = userId,
+            EventId = request.EventId,
+            TournamentId = request.TournamentId
+        };
+
+        if (request.EventId.HasValue)
+        {
+            var evt = await _context.Events.FirstOrDefaultAsync(e => e.Id == request.EventId.Value)
+                ?? throw new InvalidOperationException("Event not found");
+
+            if (evt.Status == "Cancelled" || evt.EventDate <= DateTime.UtcNow)
+            {
+                throw new InvalidOperationException("Spots can only be transferred for upcoming games");
+            }
+
+            // Waitlisted players have no spot to hand over; they just cancel
+            var registration = await _context.EventRegistrations
+                .FirstOrDefaultAsync(r => r.EventId == evt.Id && r.UserId == userId && r.Status == "Registered")
+                ?? throw new InvalidOperationException("Only players on the roster can transfer their spot");
+
+            if (await _context.RegistrationTransfers.AnyAsync(t => t.EventRegistrationId == registration.Id && t.Status == "Pending"))
+            {
+                throw new InvalidOperationException("You already have a pending transfer for this spot");
+            }
+
+            transfer.EventRegistrationId = registration.Id;
+        }
+        else
+        {
+            var tournament = await _context.Tournaments.FirstOrDefaultAsync(t => t.Id == request.TournamentId!.Value)
+                ?? throw new InvalidOperationException("Tournament not found");
+
+            if (tournament.Status == "Completed" || tournament.Status == "Cancelled")
+            {
+                throw new InvalidOperationException("Spots can't be transferred for a finished tournament");
+            }
+
+            var registration = await _context.TournamentRegistrations
+                .Include(r => r.AssignedTeam)
+                .FirstOrDefaultAsync(r => r.TournamentId == tournament.Id && r.UserId == userId
+                    && (r.Status == "Registered" || r.Status == "Assigned"))
+                ?? throw new InvalidOperationException("Only registered players can transfer their spot");
+
+            if (registration.AssignedTeam?.CaptainUserId == userId)
+            {
+                throw new InvalidOperationException("Captains must hand off captaincy before transferring their spot");
+            }
+
+            if (await _context.RegistrationTransfers.AnyAsync(t => t.TournamentRegistrationId == registration.Id && t.Status == "Pending"))
+            {
+                throw new InvalidOperationException("You already have a pending transfer for this spot");
+            }
+
+            transfer.TournamentRegistrationId = registration.Id;
+        }
+
+        if (request.ToUserId.HasValue)
+        {
+            if (request.ToUserId.Value == userId)
+            {
+                throw new InvalidOperationException("You can't transfer your spot to yourself");
+            }
+
+            var recipient = await _context.Users.FindAsync(request.ToUserId.Value);
+            if (recipient == null || !recipient.IsActive || recipient.IsGhostPlayer)
+            {
+                throw new InvalidOperationException("Recipient not found");
+            }
+
+            var rosteredUserIds = await GetRosteredUserIdsAsync(request.EventId, request.TournamentId);
+            if (rosteredUserIds.Contains(recipient.Id))
+            {
+                throw new InvalidOperationException($"{recipient.FirstName} {recipient.LastName} is already registered");
+            }
+
+            transfer.ToUserId = recipient.Id;
+        }
+
+        _context.RegistrationTransfers.Add(transfer);
+        await _context.SaveChangesAsync();
+
+        var created = await QueryTransfers().SingleAsync(t => t.Id == transfer.Id);
+
+        if (created.ToUser != null)
+        {
+            await NotifyRecipientAsync(created);
+        }
+        else
+        {
+            await NotifyWaitlistAsync(created);
+        }
+
+        return (await MapToDtosAsync(new List<RegistrationTransfer> { created }, userId)).Single();
+    }
+
+    public async Task<RegistrationTransferDto?> AcceptAsync(Guid transferId, Guid userId)
+    {
+        var transfer = await QueryTransfers().FirstOrDefaultAsync(t => t.Id == transferId);
+        if (transfer == null) return null;
+
+        if (transfer.Status == "Accepted")
+        {
+            throw new InvalidOperationException("This transfer has already been accepted");
+        }
+        if (transfer.Status != "Pending")
+        {
+            throw new InvalidOperationException("This transfer is no longer available");
+        }
+        if (transfer.FromUserId == userId)
+        {
+            throw new InvalidOperationException("You can't accept your own transfer");
+        }
+        if (transfer.ToUserId.HasValue && transfer.ToUserId.Value != userId)
+        {
+            throw new InvalidOperationException("This transfer was offered to someone else");
+        }
+
+        var user = await _context.Users.FindAsync(userId)
+            ?? throw new InvalidOperationException("User not found");
+
+        if (!transfer.ToUserId.HasValue)
+        {
+            var isWaitlisted = transfer.EventId.HasValue
+                ? await _context.EventRegistrations
+                    .AnyAsync(r => r.EventId == transfer.EventId.Value && r.UserId == userId && r.Status == "Waitlisted")
+                : await _context.TournamentRegistrations
+                    .AnyAsync(r => r.TournamentId == transfer.TournamentId!.Value && r.UserId == userId && r.Status == "Waitlisted");
+            if (!isWaitlisted)
+            {
+                throw new InvalidOperationException("Only players on the waitlist can accept this spot");
+            }
+        }
+
+        var removedWaitlistSpot = false;
+
+        // Serializable so two waitlisted players accepting at once can't both take the spot
+        await using var transaction = await _context.Database
+            .BeginTransactionAsync(IsolationLevel.Serializable);
+
+        try
+        {
+            if (!IsSpotStillHeld(transfer))
+            {
+                throw new InvalidOperationException("This spot is no longer available");
+            }
+
+            removedWaitlistSpot = transfer.EventRegistration != null
+                ? await MoveEventRegistrationAsync(transfer, userId)
+                : await MoveTournamentRegistrationAsync(transfer, userId);
+
+            transfer.Status = "Accepted";
+            transfer.ToUserId = userId;
+            transfer.ToUser = user;
+            transfer.RespondedAt = DateTime.UtcNow;
+
+            await _context.SaveChangesAsync();
+
+            if (removedWaitlistSpot && transfer.EventId.HasValue)
+            {
+                await _waitlistService.UpdateWaitlistPositionsAsync(transfer.EventId.Value);
+            }
+
+            await transaction.CommitAsync();
+        }
+        catch
+        {
+            await transaction.RollbackAsync();
+            throw;
+        }
+
+        // Notify AFTER commit to prevent false notifications on rollback
+        await NotifyTransferredAsync(transfer, user);
+
+        return (await MapToDtosAsync(new List<RegistrationTransfer> { transfer }, userId)).Single();
+    }
+
+    public async Task<bool> DeclineAsync(Guid transferId, Guid userId)
+    {
+        var transfer = await _context.RegistrationTransfers.FirstOrDefaultAsync(t => t.Id == transferId);
+
+        // Waitlist offers go to whoever accepts first, so there's nothing to decline
+        if (transfer == null || transfer.ToUserId != userId) return false;
+
+        if (transfer.Status != "Pending")
+        {
+            throw new InvalidOperationException("Only pending transfers can be declined");
+        }
+
+        transfer.Status = "Declined";
+        transfer.RespondedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        return true;
+    }
+
+    public async Task<bool> CancelAsync(Guid transferId, Guid userId)
+    {
+        var transfer = await _context.RegistrationTransfers.FirstOrDefaultAsync(t => t.Id == transferId);
+        if (transfer == null || transfer.FromUserId != userId) return false;
+
+        if (transfer.Status != "Pending")
+        {
+            throw new InvalidOperationException("Only pending transfers can be cancelled");
+        }
+
+        transfer.Status = "Cancelled";
+        transfer.RespondedAt = DateTime.UtcNow;
+        await _context.SaveChangesAsync();
+
+        return true;
+    }
+
+    #endregion
+
+    #region Moving Registrations
+
+    /// <summary>
+    /// Hands the sender's event registration to the recipient. Roster slot, team and position
+    /// carry over. Returns true when the recipient's waitlist spot was given up to take it.
+    /// </summary>
+    private async Task<bool> MoveEventRegistrationAsync(RegistrationTransfer transfer, Guid toUserId)
+    {
+        var registration = transfer.EventRegistration!;
+
+        var existing = await _context.EventRegistrations
+            .FirstOrDefaultAsync(r => r.EventId == registration.EventId && r.UserId == toUserId);
+        if (existing?.Status == "Registered")
+        {
+            throw new InvalidOperationException("You're already signed up for this game");
+        }
+
+        var wasWaitlisted = existing?.Status == "Waitlisted";
+        var settled = SettlePayment(
+            transfer.Event!.Cost,
+            (registration.PaymentStatus, registration.PaymentMarkedAt, registration.PaymentVerifiedAt),
+            wasWaitlisted ? (existing!.PaymentStatus, existing.PaymentMarkedAt, existing.PaymentVerifiedAt) : null);
+
+        if (existing != null)
+        {
+            // One registration row per player per event; the transferred one replaces it
+            _context.EventRegistrations.Remove(existing);
+        }
+
+        registration.UserId = toUserId;
+        (registration.PaymentStatus, registration.PaymentMarkedAt, registration.PaymentVerifiedAt) = settled;
+        registration.AttendanceStatus = null;
+        registration.CheckedInAt = null;
+        registration.CheckInToken = EventRegistration.NewCheckInToken();
+
+        return wasWaitlisted;
+    }
+
+    /// <summary>
+    /// Hands the sender's tournament registration to the recipient, along with their place on
+    /// the assigned team (if any). Returns true when the recipient's waitlist spot was given up.
+    /// </summary>
+    private async Task<bool> MoveTournamentRegistrationAsync(RegistrationTransfer transfer, Guid toUserId)
+    {
+        var registration = transfer.TournamentRegistration!;
+        var tournament = transfer.Tournament!;
+        var now = DateTime.UtcNow;
+
+        var existing = await _context.TournamentRegistrations
+            .FirstOrDefaultAsync(r => r.TournamentId == tournament.Id && r.UserId == toUserId);
+        var onATeam = await _context.TournamentTeamMembers
+            .AnyAsync(m => m.UserId == toUserId && m.Team.TournamentId == tournament.Id
+                && m.Status != "Declined" && m.LeftAt == null);
+        if (existing?.Status == "Registered" || existing?.Status == "Assigned" || onATeam)
+        {
+            throw new InvalidOperationException("You're already registered for this tournament");
+        }
+
+        // Only per-player fees belong to the spot; per-team fees stay with the team
+        var cost = tournament.FeeType == "PerPlayer" ? tournament.EntryFee : 0;
+        var wasWaitlisted = existing?.Status == "Waitlisted";
+        var settled = SettlePayment(
+            cost,
+            (registration.PaymentStatus, registration.PaymentMarkedAt, registration.PaymentVerifiedAt),
+            wasWaitlisted ? (existing!.PaymentStatus, existing.PaymentMarkedAt, existing.PaymentVerifiedAt) : null);
+
+        if (cost > 0)
+        {
+            (registration.PaymentStatus, registration.PaymentMarkedAt, registration.PaymentVerifiedAt) = settled;
+        }
+
+        // Waivers and custom answers are personal, so the recipient's own carry over when they have them
+        if (registration.WaiverStatus != null)
+        {
+            registration.WaiverStatus = existing?.WaiverStatus ?? "Pending";
+        }
+        registration.CustomResponses = existing?.CustomResponses ?? registration.CustomResponses;
+
+        if (existing != null)
+        {
+            // One registration row per player per tournament; the transferred one replaces it
+            _context.TournamentRegistrations.Remove(existing);
+        }
+
+        registration.UserId = toUserId;
+        registration.UpdatedAt = now;
+
+        if (registration.AssignedTeamId.HasValue)
+        {
+            var fromMember = await _context.TournamentTeamMembers
+                .FirstOrDefaultAsync(m => m.TeamId == registration.AssignedTeamId.Value && m.UserId == transfer.FromUserId
+                    && m.Status == "Accepted" && m.LeftAt == null);
+            if (fromMember != null)
+            {
+                fromMember.LeftAt = now;
+            }
+
+            var toMember = await _context.TournamentTeamMembers
+                .FirstOrDefaultAsync(m => m.TeamId == registration.AssignedTeamId.Value && m.UserId == toUserId);
+            if (toMember == null)
+            {
+                toMember = new TournamentTeamMember
+                {
+                    TeamId = registration.AssignedTeamId.Value,
+                    UserId = toUserId,
+                    JoinedAt = now
+                };
+                _context.TournamentTeamMembers.Add(toMember);
+            }
+            toMember.Role = "Player";
+            toMember.Status = "Accepted";
+            toMember.Position = registration.Position;
+            toMember.RespondedAt = now;
+            toMember.LeftAt = null;
+        }
+
+        return wasWaitlisted;
+    }
+
+    /// <summary>
+    /// The spot is only ever paid for once: a recipient who already paid from the waitlist keeps
+    /// their payment (the organizer refunds the sender); otherwise a paid spot keeps the sender's
+    /// status (the recipient pays them back) and an unpaid one is owed to the organizer.
+    /// Mirrors getTransferPaymentPlan in the shared package.
+    /// </summary>
+    private static (string? Status, DateTime? MarkedAt, DateTime? VerifiedAt) SettlePayment(
+        decimal cost,
+        (string? Status, DateTime? MarkedAt, DateTime? VerifiedAt) from,
+        (string? Status, DateTime? MarkedAt, DateTime? VerifiedAt)? to)
+    {
+        if (cost <= 0) return from;
+        if (to.HasValue && IsPaid(to.Value.Status)) return to.Value;
+        if (IsPaid(from.Status)) return from;
+        return ("Pending", null, null);
+    }
+
+    private static bool IsPaid(string? paymentStatus)
+    {
+        return paymentStatus == "Verified" || paymentStatus == "MarkedPaid";
+    }
+
+    #endregion
+
+    #region Notifications
+
+    private async Task NotifyRecipientAsync(RegistrationTransfer transfer)
+    {
+        if (string.IsNullOrEmpty(transfer.ToUser?.PushToken)) return;
+
+        await _notificationService.SendPushNotificationAsync(
+            transfer.ToUser.PushToken,
+            "Spot Offered",
+            $"{transfer.FromUser.FirstName} {transfer.FromUser.LastName} offered you their spot for {GetTitle(transfer)} on {FormatGameDate(transfer)}.",
+            new { transferId = transfer.Id.ToString(), type = "registration_transfer" },
+            userId: transfer.ToUser.Id,
+            type: "registration_transfer",
+            organizationId: GetOrganizationId(transfer),
+            eventId: transfer.EventId);
+    }
+
+    /// <summary>
+    /// Pushes a waitlist offer to everyone on the game's waitlist
+    /// </summary>
+    private async Task NotifyWaitlistAsync(RegistrationTransfer transfer)
+    {
+        var waitlisted = transfer.EventId.HasValue
+            ? await _context.EventRegistrations
+                .Where(r => r.EventId == transfer.EventId.Value && r.Status == "Waitlisted")
+                .Select(r => r.User)
+                .ToListAsync()
+            : await _context.TournamentRegistrations
+                .Where(r => r.TournamentId == transfer.TournamentId!.Value && r.Status == "Waitlisted")
+                .Select(r => r.User)
+                .ToListAsync();
+
+        var body = $"A spot opened up for {GetTitle(transfer)} on {FormatGameDate(transfer)}. First to accept takes it.";
+
+        foreach (var recipient in waitlisted.Where(u => !u.IsGhostPlayer && !string.IsNullOrEmpty(u.PushToken)))
+        {
+            try
+            {
+                await _notificationService.SendPushNotificationAsync(
+                    recipient.PushToken!,
+                    "Spot Available",
+                    body,
+                    new { transferId = transfer.Id.ToString(), type = "registration_transfer" },
+                    userId: recipient.Id,
+                    type: "registration_transfer",
+                    organizationId: GetOrganizationId(transfer),
+                    eventId: transfer.EventId);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to send transfer {TransferId} to user {UserId}", transfer.Id, recipient.Id);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Tells the sender their spot went through, and the organizer who now holds it
+    /// </summary>
+    private async Task NotifyTransferredAsync(RegistrationTransfer transfer, User toUser)
+    {
+        var title = GetTitle(transfer);
+        var toName = $"{toUser.FirstName} {toUser.LastName}";
+        var data = new
+        {
+            transferId = transfer.Id.ToString(),
+            eventId = transfer.EventId?.ToString(),
+            tournamentId = transfer.TournamentId?.ToString(),
+            type = "registration_transferred"
+        };
+
+        var recipients = new List<(User User, string Title, string Body)>
+        {
+            (transfer.FromUser, "Spot Transferred", $"{toName} took your spot for {title}.")
+        };
+
+        var organizer = transfer.Event?.Creator ?? transfer.Tournament?.Creator;
+        if (organizer != null && organizer.Id != transfer.FromUserId && organizer.Id != toUser.Id)
+        {
+            recipients.Add((organizer, "Roster Change",
+                $"{transfer.FromUser.FirstName} {transfer.FromUser.LastName} transferred their spot for {title} to {toName}."));
+        }
+
+        foreach (var (user, pushTitle, body) in recipients.Where(r => !string.IsNullOrEmpty(r.User.PushToken)))
+        {
+            try
+            {
+                await _notificationService.SendPushNotificationAsync(
+                    user.PushToken!,
+                    pushTitle,
+                    body,
+                    data,
+                    userId: user.Id,
+                    type: "registration_transferred",
+                    organizationId: GetOrganizationId(transfer),
+                    eventId: transfer.EventId);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to send transfer {TransferId} update to user {UserId}", transfer.Id, user.Id);
+            }
+        }
+    }
+
+    #endregion
+
+    #region Helpers
+
+    private IQueryable<RegistrationTransfer> QueryTransfers()
+    {
+        return _context.RegistrationTransfers
+            .Include(t => t.FromUser)
+            .Include(t => t.ToUser)
+            .Include(t => t.Event).ThenInclude(e => e!.Creator)
+            .Include(t => t.EventRegistration)
+            .Include(t => t.Tournament).ThenInclude(t => t!.Creator)
+            .Include(t => t.TournamentRegistration).ThenInclude(r => r!.AssignedTeam);
+    }
+
+    /// <summary>
+    /// The sender still holds the registration and the game hasn't happened yet
+    /// </summary>
+    private static bool IsSpotStillHeld(RegistrationTransfer transfer)
+    {
+        if (transfer.Event != null)
+        {
+            return transfer.EventRegistration != null
+                && transfer.EventRegistration.UserId == transfer.FromUserId
+                && transfer.EventRegistration.Status == "Registered"
+                && transfer.Event.Status != "Cancelled"
+                && transfer.Event.EventDate > DateTime.UtcNow;
+        }
+
+        return transfer.Tournament != null
+            && transfer.TournamentRegistration != null
+            && transfer.TournamentRegistration.UserId == transfer.FromUserId
+            && (transfer.TournamentRegistration.Status == "Registered" || transfer.TournamentRegistration.Status == "Assigned")
+            && transfer.Tournament.Status != "Completed"
+            && transfer.Tournament.Status != "Cancelled";
+    }
+
+    /// <summary>
+    /// Players already holding a spot (waitlisted players don't count - they can take one)
+    /// </summary>
+    private async Task<HashSet<Guid>> GetRosteredUserIdsAsync(Guid? eventId, Guid? tournamentId)
+    {
+        if (eventId.HasValue)
+        {
+            return (await _context.EventRegistrations
+                .Where(r => r.EventId == eventId.Value && r.Status == "Registered")
+                .Select(r => r.UserId)
+                .ToListAsync()).ToHashSet();
+        }
+
+        var registered = await _context.TournamentRegistrations
+            .Where(r => r.TournamentId == tournamentId!.Value && (r.Status == "Registered" || r.Status == "Assigned"))
+            .Select(r => r.UserId)
+            .ToListAsync();
+        var teamMembers = await _context.TournamentTeamMembers
+            .Where(m => m.Team.TournamentId == tournamentId!.Value && m.Status != "Declined" && m.LeftAt == null)
+            .Select(m => m.UserId)
+            .ToListAsync();
+
+        return registered.Concat(teamMembers).ToHashSet();
+    }
+
+    private static Guid? GetOrganizationId(RegistrationTransfer transfer)
+    {
+        return transfer.Event?.OrganizationId ?? transfer.Tournament?.OrganizationId;
+    }
+
+    private static DateTime GetGameDate(RegistrationTransfer transfer)
+    {
+        return transfer.Event?.EventDate ?? transfer.Tournament!.StartDate;
+    }
+
+    private static string FormatGameDate(RegistrationTransfer transfer)
+    {
+        return TimeZoneInfo.ConvertTimeFromUtc(GetGameDate(transfer), CentralTimeZone).ToString("ddd, MMM d");
+    }
+
+    private static string GetTitle(RegistrationTransfer transfer)
+    {
+        if (transfer.Event != null)
+        {
+            return transfer.Event.Name ?? $"Pickup game on {transfer.Event.EventDate:MMM d}";
+        }
+
+        return transfer.Tournament!.Name;
+    }
+
+    /// <summary>
+    /// Maps transfers for a viewer. For waitlist offers the viewer is the would-be recipient,
+    /// so ToPaymentStatus is their own waitlist payment.
+    /// </summary>
+    private async Task<List<RegistrationTransferDto>> MapToDtosAsync(List<RegistrationTransfer> transfers, Guid viewerId)
+    {
+        Guid RecipientId(RegistrationTransfer t) => t.ToUserId ?? viewerId;
+
+        // Batch load recipients' waitlist payments for pending transfers
+        var pending = transfers.Where(t => t.Status == "Pending").ToList();
+        var recipientIds = pending.Select(RecipientId).Distinct().ToList();
+        var eventIds = pending.Where(t => t.EventId.HasValue).Select(t => t.EventId!.Value).Distinct().ToList();
+        var tournamentIds = pending.Where(t => t.TournamentId.HasValue).Select(t => t.TournamentId!.Value).Distinct().ToList();
+
+        var eventWaitlistPayments = eventIds.Count == 0
+            ? new Dictionary<(Guid, Guid), string?>()
+            : (await _context.EventRegistrations
+                .Where(r => eventIds.Contains(r.EventId) && recipientIds.Contains(r.UserId) && r.Status == "Waitlisted")
+                .Select(r => new { r.EventId, r.UserId, r.PaymentStatus })
+                .ToListAsync())
+                .ToDictionary(r => (r.EventId, r.UserId), r => r.PaymentStatus);
+        var tournamentWaitlistPayments = tournamentIds.Count == 0
+            ? new Dictionary<(Guid, Guid), string?>()
+            : (await _context.TournamentRegistrations
+                .Where(r => tournamentIds.Contains(r.TournamentId) && recipientIds.Contains(r.UserId) && r.Status == "Waitlisted")
+                .Select(r => new { r.TournamentId, r.UserId, r.PaymentStatus })
+                .ToListAsync())
+                .ToDictionary(r => (r.TournamentId, r.UserId), r => r.PaymentStatus);
+
+        return transfers.Select(t =>
+        {
+            var evt = t.Event;
+            var tournament = t.Tournament;
+
+            decimal cost;
+            string? fromPaymentStatus;
+            string? toPaymentStatus = null;
+            string? position;
+            string? teamName;
+            if (evt != null)
+            {
+                cost = evt.Cost;
+                fromPaymentStatus = evt.Cost > 0 ? t.EventRegistration?.PaymentStatus : null;
+                if (t.Status == "Pending" && evt.Cost > 0)
+                {
+                    toPaymentStatus = eventWaitlistPayments.GetValueOrDefault((evt.Id, RecipientId(t)));
+                }
+                position = t.EventRegistration?.RegisteredPosition;
+                teamName = t.EventRegistration?.TeamAssignment;
+            }
+            else
+            {
+                var isPerPlayer = tournament!.FeeType == "PerPlayer" && tournament.EntryFee > 0;
+                cost = isPerPlayer ? tournament.EntryFee : 0;
+                fromPaymentStatus = isPerPlayer ? t.TournamentRegistration?.PaymentStatus : null;
+                if (t.Status == "Pending" && isPerPlayer)
+                {
+                    toPaymentStatus = tournamentWaitlistPayments.GetValueOrDefault((tournament.Id, RecipientId(t)));
+                }
+                position = t.TournamentRegistration?.Position;
+                teamName = t.TournamentRegistration?.AssignedTeam?.Name;
+            }
+
+            return new RegistrationTransferDto(
+                t.Id,
+                t.Status,
+                t.EventId,
+                t.TournamentId,
+                GetTitle(t),
+                GetGameDate(t),
+                t.FromUserId,
+                t.FromUser.FirstName,
+                t.FromUser.LastName,
+                t.FromUser.VenmoHandle,
+                t.ToUserId,
+                t.ToUser?.FirstName,
+                t.ToUser?.LastName,
+                position,
+                teamName,
+                cost,
+                fromPaymentStatus,
+                toPaymentStatus,
+                evt?.Creator.VenmoHandle ?? tournament?.Creator.VenmoHandle,
+                t.CreatedAt,
+                t.RespondedAt
+            );
+        }).ToList();
+    }
+
+    #endregion
+}
@@ -27,7 +27,8 @@ public class StandingsService : IStandingsService
 
     /// <summary>
     /// Gets standings for a tournament. Works for all tournament formats.
-    /// Teams are sorted by points, then tiebreakers (head-to-head, goal differential, goals scored).
+    /// Teams are sorted by points, then the tournament's tiebreaker order (head-to-head, goal differential,
+    /// goals scored by default; goals against, fewest penalty minutes and coin flip are also supported).
     /// For unresolvable ties (3+ teams), returns tiedGroups array for manual resolution.
     /// </summary>
     public async Task<StandingsDto?> GetStandingsAsync(Guid tournamentId)
@@ -88,35 +89,24 @@ public class StandingsService : IStandingsService
 
         foreach (var pointGroup in teamsByPoints)
         {
-            var teamsInGroup = pointGroup.ToList();
+            // Teams level on points are split by the tiebreakers into blocks in rank order;
+            // a block with more than one team is still tied after every criterion
+            var blocks = ApplyTiebreakers(pointGroup.ToList(), tiebreakerOrder, completedMatches, tournament, 0);
 
-            if (teamsInGroup.Count == 1)
+            foreach (var team in blocks.SelectMany(block => block))
             {
-                // No tie, just add the team
-                var team = teamsInGroup[0];
                 standings.Add(CreateTeamStandingDto(team, currentRank, gamesPlayedDict[team.Id], false));
                 currentRank++;
             }
-            else
-            {
-                // Multiple teams with same points - apply tiebreakers
-                var sortedTeams = ApplyTiebreakers(teamsInGroup, tiebreakerOrder, completedMatches);
-
-                // Check for unresolvable 3+ way ties
-                var unresolvableTies = DetectUnresolvableTies(sortedTeams, tiebreakerOrder, completedMatches);
-
-                foreach (var team in sortedTeams)
-                {
-                    standings.Add(CreateTeamStandingDto(team, currentRank, gamesPlayedDict[team.Id], false));
-                    currentRank++;
-                }
 
-                // Add to tiedGroups if there are unresolvable ties
-                if (unresolvableTies.Count > 0)
+            // 3+ way ties still level after every criterion are left for manual resolution
+            tiedGroups.AddRange(blocks
+                .Where(block => block.Count >= 3)
+                .Select(block => new TiedGroupDto
                 {
-                    tiedGroups.AddRange(unresolvableTies);
-                }
-            }
+                    TeamIds = block.Select(t => t.Id).ToList(),
+                    Reason = "Teams tied on points and all configured tiebreakers"
+                }));
         }
 
         // 7. Mark playoff-bound teams
@@ -157,201 +147,115 @@ public class StandingsService : IStandingsService
         }
     }
 
-    private List<TournamentTeam> ApplyTiebreakers(
+    /// <summary>
+    /// Orders teams level on points by applying the criteria in turn. When a criterion splits
+    /// the group, each smaller group starts over from the first criterion (so head-to-head is
+    /// recomputed among just the teams still level); when it doesn't, the group moves on to the
+    /// next criterion. Mirrors the client's ranking so both sides agree on the order.
+    /// </summary>
+    private List<List<TournamentTeam>> ApplyTiebreakers(
         List<TournamentTeam> teams,
         List<string> tiebreakerOrder,
-        List<TournamentMatch> completedMatches)
+        List<TournamentMatch> completedMatches,
+        Tournament tournament,
+        int criterionIndex)
     {
-        // Create a mutable list for sorting
-        var sortedTeams = new List<TournamentTeam>(teams);
-
-        // Apply each tiebreaker in order
-        foreach (var tiebreaker in tiebreakerOrder)
+        if (teams.Count <= 1 || criterionIndex >= tiebreakerOrder.Count)
         {
-            switch (tiebreaker)
-            {
-                case "HeadToHead":
-                    sortedTeams = ApplyHeadToHeadTiebreaker(sortedTeams, completedMatches);
-                    break;
-                case "GoalDifferential":
-                    sortedTeams = sortedTeams.OrderByDescending(t => t.GoalsFor - t.GoalsAgainst).ToList();
-                    break;
-                case "GoalsScored":
-                    sortedTeams = sortedTeams.OrderByDescending(t => t.GoalsFor).ToList();
-                    break;
-            }
+            return new List<List<TournamentTeam>> { teams };
         }
 
-        return sortedTeams;
-    }
-
-    private List<TournamentTeam> ApplyHeadToHeadTiebreaker(
-        List<TournamentTeam> teams,
-        List<TournamentMatch> completedMatches)
-    {
-        if (teams.Count == 2)
-        {
-            // Two-way tie: find direct match
-            var team1 = teams[0];
-            var team2 = teams[1];
-
-            var h2hMatch = completedMatches.FirstOrDefault(m =>
-                (m.HomeTeamId == team1.Id && m.AwayTeamId == team2.Id) ||
-                (m.HomeTeamId == team2.Id && m.AwayTeamId == team1.Id));
+        var values = GetTiebreakerValues(tiebreakerOrder[criterionIndex], teams, completedMatches, tournament);
+        var buckets = teams
+            .GroupBy(t => values[t.Id])
+            .OrderByDescending(g => g.Key)
+            .Select(g => g.ToList())
+            .ToList();
 
-            if (h2hMatch != null && h2hMatch.WinnerTeamId.HasValue)
-            {
-                // Winner ranks higher
-                if (h2hMatch.WinnerTeamId.Value == team1.Id)
-                {
-                    return new List<TournamentTeam> { team1, team2 };
-                }
-                else
-                {
-                    return new List<TournamentTeam> { team2, team1 };
-                }
-            }
-        }
-        else if (teams.Count >= 3)
+        if (buckets.Count == 1)
         {
-            // 3+ way tie: calculate mini-table points from games among tied teams
-            var teamIds = teams.Select(t => t.Id).ToHashSet();
-            var h2hMatches = completedMatches.Where(m =>
-                m.HomeTeamId.HasValue && m.AwayTeamId.HasValue &&
-                teamIds.Contains(m.HomeTeamId.Value) && teamIds.Contains(m.AwayTeamId.Value))
-                .ToList();
-
-            var h2hPoints = teams.ToDictionary(t => t.Id, t => 0);
-            var h2hWins = teams.ToDictionary(t => t.Id, t => 0);
-
-            foreach (var match in h2hMatches)
-            {
-                if (match.WinnerTeamId.HasValue)
-                {
-                    // Win = 3 points (assuming standard scoring)
-                    h2hPoints[match.WinnerTeamId.Value] += 3;
-                    h2hWins[match.WinnerTeamId.Value]++;
-
-                    // Loss = 0 points (already initialized to 0)
-                }
-                else if (match.HomeScore.HasValue && match.AwayScore.HasValue &&
-                         match.HomeScore.Value == match.AwayScore.Value)
-                {
-                    // Tie = 1 point each
-                    h2hPoints[match.HomeTeamId!.Value] += 1;
-                    h2hPoints[match.AwayTeamId!.Value] += 1;
-                }
-            }
-
-            // Sort by H2H points, then H2H wins
-            teams = teams.OrderByDescending(t => h2hPoints[t.Id])
-                        .ThenByDescending(t => h2hWins[t.Id])
-                        .ToList();
+            return ApplyTiebreakers(teams, tiebreakerOrder, completedMatches, tournament, criterionIndex + 1);
         }
 
-        return teams;
+        return buckets
+            .SelectMany(bucket => ApplyTiebreakers(bucket, tiebreakerOrder, completedMatches, tournament, 0))
+            .ToList();
     }
 
-    private List<TiedGroupDto> DetectUnresolvableTies(
+    /// <summary>
+    /// Scores each team in a tied group on one criterion - higher is better.
+    /// Unknown criteria score every team the same so they never split a group.
+    /// </summary>
+    private static Dictionary<Guid, long> GetTiebreakerValues(
+        string tiebreaker,
         List<TournamentTeam> teams,
-        List<string> tiebreakerOrder,
-        List<TournamentMatch> completedMatches)
+        List<TournamentMatch> completedMatches,
+        Tournament tournament)
     {
-        var tiedGroups = new List<TiedGroupDto>();
-
-        if (teams.Count < 3)
+        return tiebreaker switch
         {
-            // Only check for 3+ way ties
-            return tiedGroups;
-        }
+            "HeadToHead" => GetHeadToHeadPoints(teams, completedMatches, tournament),
+            "GoalDifferential" => teams.ToDictionary(t => t.Id, t => (long)(t.GoalsFor - t.GoalsAgainst)),
+            "GoalsScored" => teams.ToDictionary(t => t.Id, t => (long)t.GoalsFor),
+            "GoalsAgainst" => teams.ToDictionary(t => t.Id, t => (long)-t.GoalsAgainst),
+            "FewestPenaltyMinutes" => teams.ToDictionary(t => t.Id, t => (long)-t.PenaltyMinutes),
+            "CoinFlip" => teams.ToDictionary(t => t.Id, t => (long)GetCoinFlipValue(tournament.Id, t.Id)),
+            _ => teams.ToDictionary(t => t.Id, _ => 0L)
+        };
+    }
 
-        // Group consecutive teams that are tied on ALL tiebreakers
-        var currentGroup = new List<TournamentTeam> { teams[0] };
+    /// <summary>
+    /// Points each team earned in completed games against the other teams in the group,
+    /// using the tournament's win/tie/loss scoring.
+    /// </summary>
+    private static Dictionary<Guid, long> GetHeadToHeadPoints(
+        List<TournamentTeam> teams,
+        List<TournamentMatch> completedMatches,
+        Tournament tournament)
+    {
+        var teamIds = teams.Select(t => t.Id).ToHashSet();
+        var points = teams.ToDictionary(t => t.Id, _ => 0L);
 
-        for (int i = 1; i < teams.Count; i++)
+        foreach (var match in completedMatches)
         {
-            if (AreTeamsTiedOnAllCriteria(currentGroup[0], teams[i], tiebreakerOrder, completedMatches))
+            if (!match.HomeTeamId.HasValue || !match.AwayTeamId.HasValue ||
+                !teamIds.Contains(match.HomeTeamId.Value) || !teamIds.Contains(match.AwayTeamId.Value))
             {
-                currentGroup.Add(teams[i]);
+                continue;
             }
-            else
+
+            if (match.WinnerTeamId.HasValue)
             {
-                // Check if current group is a 3+ way tie
-                if (currentGroup.Count >= 3)
-                {
-                    tiedGroups.Add(new TiedGroupDto
-                    {
-                        TeamIds = currentGroup.Select(t => t.Id).ToList(),
-                        Reason = "Teams tied on points and all configured tiebreakers"
-                    });
-                }
-
-                currentGroup = new List<TournamentTeam> { teams[i] };
+                var loserId = match.WinnerTeamId.Value == match.HomeTeamId.Value
+                    ? match.AwayTeamId.Value
+                    : match.HomeTeamId.Value;
+                points[match.WinnerTeamId.Value] += tournament.PointsWin;
+                points[loserId] += tournament.PointsLoss;
             }
-        }
-
-        // Check final group
-        if (currentGroup.Count >= 3)
-        {
-            tiedGroups.Add(new TiedGroupDto
+            else if (match.HomeScore.HasValue && match.AwayScore.HasValue &&
+                     match.HomeScore.Value == match.AwayScore.Value)
             {
-                TeamIds = currentGroup.Select(t => t.Id).ToList(),
-                Reason = "Teams tied on points and all configured tiebreakers"
-            });
+                points[match.HomeTeamId.Value] += tournament.PointsTie;
+                points[match.AwayTeamId.Value] += tournament.PointsTie;
+            }
         }
 
-        return tiedGroups;
+        return points;
     }
 
-    private bool AreTeamsTiedOnAllCriteria(
-        TournamentTeam team1,
-        TournamentTeam team2,
-        List<string> tiebreakerOrder,
-        List<TournamentMatch> completedMatches)
+    /// <summary>
+    /// Stable pseudo-random value per team (FNV-1a over "tournamentId:teamId") so a coin flip
+    /// gives the same result on every request and matches the client's flip.
+    /// </summary>
+    private static uint GetCoinFlipValue(Guid tournamentId, Guid teamId)
     {
-        // Same points (already guaranteed by grouping)
-        if (team1.Points != team2.Points)
+        uint hash = 2166136261;
+        foreach (var c in $"{tournamentId}:{teamId}")
         {
-            return false;
+            hash ^= c;
+            hash = unchecked(hash * 16777619);
         }
-
-        // Check each tiebreaker
-        foreach (var tiebreaker in tiebreakerOrder)
-        {
-            switch (tiebreaker)
-            {
-                case "HeadToHead":
-                    // For 2-team comparison, check if there's a direct match with a winner
-                    var h2hMatch = completedMatches.FirstOrDefault(m =>
-                        (m.HomeTeamId == team1.Id && m.AwayTeamId == team2.Id) ||
-                        (m.HomeTeamId == team2.Id && m.AwayTeamId == team1.Id));
-
-                    if (h2hMatch != null && h2hMatch.WinnerTeamId.HasValue)
-                    {
-                        // There's a clear winner in H2H, not tied
-                        return false;
-                    }
-                    break;
-
-                case "GoalDifferential":
-                    var gd1 = team1.GoalsFor - team1.GoalsAgainst;
-                    var gd2 = team2.GoalsFor - team2.GoalsAgainst;
-                    if (gd1 != gd2)
-                    {
-                        return false;
-                    }
-                    break;
-
-                case "GoalsScored":
-                    if (team1.GoalsFor != team2.GoalsFor)
-                    {
-                        return false;
-                    }
-                    break;
-            }
-        }
-
-        return true;
+        return hash;
     }
 
     private TeamStandingDto CreateTeamStandingDto(
@@ -372,6 +276,7 @@ public class StandingsService : IStandingsService
             GoalsFor = team.GoalsFor,
             GoalsAgainst = team.GoalsAgainst,
             GoalDifferential = team.GoalsFor - team.GoalsAgainst,
+            PenaltyMinutes = team.PenaltyMinutes,
             GamesPlayed = gamesPlayed,
             IsPlayoffBound = isPlayoffBound
         };
@@ -0,0 +1,604 @@
+using System.Data;
+using BHMHockey.Api.Data;
+using BHMHockey.Api.Models.DTOs;
+using BHMHockey.Api.Models.Entities;
+using Microsoft.EntityFrameworkCore;
+
+namespace BHMHockey.Api.Services;
+
+public class SubRequestService : ISubRequestService
+{
+    private readonly AppDbContext _context;
+    private readonly INotificationService _notificationService;
+    private readonly ILogger<SubRequestService> _logger;
+
+    private const int MaxNoteLength = 500;
+
+    // Central Time Zone for displaying times to users (local community app)
+    private static readonly TimeZoneInfo CentralTimeZone = TimeZoneInfo.FindSystemTimeZoneById("America/Chicago");
+
+    public SubRequestService(
+        AppDbContext context,
+        INotificationService notificationService,
+        ILogger<SubRequestService> logger)
+    {
+        _context = context;
+        _notificationService = notificationService;
+        _logger = logger;
+    }
+
+    #region Queries
+
+    public async Task<List<SubRequestDto>> GetOpenForUserAsync(Guid userId)
+    {
+        var user = await _context.Users.FindAsync(userId);
+        if (user == null) return new List<SubRequestDto>();
+
+        var requests = await QuerySubRequests()
+            .Where(r => r.Status == "Open" && r.RequesterId != userId)
+            .ToListAsync();
+
+        // Games the user is already in can't be subbed into
+        var myEventIds = (await _context.EventRegistrations
+            .Where(r => r.UserId == userId && (r.Status == "Registered" || r.Status == "Waitlisted"))
+            .Select(r => r.EventId)
+            .ToListAsync()).ToHashSet();
+        var myTournamentIds = await GetActiveTournamentIdsAsync(userId);
+        var heldTeamSpots = await GetHeldTeamSpotsAsync(requests);
+
+        var matching = requests
+            .Where(r => IsSpotStillHeld(r, heldTeamSpots))
+            .Where(r => r.EventId == null || !myEventIds.Contains(r.EventId.Value))
+            .Where(r => r.TournamentTeam == null || !myTournamentIds.Contains(r.TournamentTeam.TournamentId))
+            .Where(r => IsEligible(r, user.Positions))
+            .OrderBy(GetGameDate)
+            .ToList();
+
+        return await MapToDtosAsync(matching);
+    }
+
+    public async Task<List<SubRequestDto>> GetMineAsync(Guid userId)
+    {
+        var requests = await QuerySubRequests()
+            .Where(r => r.RequesterId == userId)
+            .OrderByDescending(r => r.CreatedAt)
+            .ToListAsync();
+
+        return await MapToDtosAsync(requests);
+    }
+
+    #endregion
+
+    #region Create / Accept / Cancel
+
+    public async Task<SubRequestDto> CreateAsync(CreateSubRequestRequest request, Guid userId)
+    {
+        if (request.EventId.HasValue == request.TournamentTeamId.HasValue)
+        {
+            throw new InvalidOperationException("Provide either an event or a tournament team");
+        }
+
+        var note = string.IsNullOrWhiteSpace(request.Note) ? null : request.Note.Trim();
+        if (note != null && note.Length > MaxNoteLength)
+        {
+            throw new InvalidOperationException($"Note must be {MaxNoteLength} characters or less");
+        }
+
+        var subRequest = new SubRequest
+        {
+            RequesterId = userId,
+            Note = note
+        };
+
+        Guid? organizationId;
+        if (request.EventId.HasValue)
+        {
+            var evt = await _context.Events.FirstOrDefaultAsync(e => e.Id == request.EventId.Value)
+                ?? throw new InvalidOperationException("Event not found");
+
+            if (evt.Status == "Cancelled" || evt.EventDate <= DateTime.UtcNow)
+            {
+                throw new InvalidOperationException("Sub requests can only be posted for upcoming games");
+            }
+
+            // Only rostered spots can be handed off; waitlisted players just cancel
+            var registration = await _context.EventRegistrations
+                .FirstOrDefaultAsync(r => r.EventId == evt.Id && r.UserId == userId && r.Status == "Registered")
+                ?? throw new InvalidOperationException("Only players on the roster can request a sub");
+
+            if (await _context.SubRequests.AnyAsync(r => r.EventRegistrationId == registration.Id && r.Status == "Open"))
+            {
+                throw new InvalidOperationException("You already have an open sub request for this spot");
+            }
+
+            subRequest.EventId = evt.Id;
+            subRequest.EventRegistrationId = registration.Id;
+            subRequest.Position = registration.RegisteredPosition ?? "Skater";
+            organizationId = evt.OrganizationId;
+        }
+        else
+        {
+            var team = await _context.TournamentTeams
+                .Include(t => t.Tournament)
+                .FirstOrDefaultAsync(t => t.Id == request.TournamentTeamId!.Value)
+                ?? throw new InvalidOperationException("Team not found");
+
+            if (team.Tournament.Status == "Completed" || team.Tournament.Status == "Cancelled")
+            {
+                throw new InvalidOperationException("Sub requests can't be posted for a finished tournament");
+            }
+
+            var member = await _context.TournamentTeamMembers
+                .FirstOrDefaultAsync(m => m.TeamId == team.Id && m.UserId == userId
+                    && m.Status == "Accepted" && m.LeftAt == null)
+                ?? throw new InvalidOperationException("Only players on the team roster can request a sub");
+
+            if (member.Role == "Captain" || team.CaptainUserId == userId)
+            {
+                throw new InvalidOperationException("Captains must hand off captaincy before requesting a sub");
+            }
+
+            if (await _context.SubRequests.AnyAsync(r => r.TournamentTeamId == team.Id && r.RequesterId == userId && r.Status == "Open"))
+            {
+                throw new InvalidOperationException("You already have an open sub request for this spot");
+            }
+
+            subRequest.TournamentTeamId = team.Id;
+            subRequest.Position = member.Position ?? "Skater";
+            organizationId = team.Tournament.OrganizationId;
+        }
+
+        _context.SubRequests.Add(subRequest);
+        await _context.SaveChangesAsync();
+
+        var created = await QuerySubRequests().SingleAsync(r => r.Id == subRequest.Id);
+
+        await NotifyEligiblePlayersAsync(created, organizationId);
+
+        return (await MapToDtosAsync(new List<SubRequest> { created })).Single();
+    }
+
+    public async Task<AcceptSubRequestResponse?> AcceptAsync(Guid subRequestId, Guid userId)
+    {
+        var subRequest = await QuerySubRequests().FirstOrDefaultAsync(r => r.Id == subRequestId);
+        if (subRequest == null) return null;
+
+        if (subRequest.Status == "Filled")
+        {
+            throw new InvalidOperationException("This sub request has already been filled");
+        }
+        if (subRequest.Status != "Open")
+        {
+            throw new InvalidOperationException("This sub request was cancelled");
+        }
+        if (subRequest.RequesterId == userId)
+        {
+            throw new InvalidOperationException("You can't accept your own sub request");
+        }
+
+        var user = await _context.Users.FindAsync(userId)
+            ?? throw new InvalidOperationException("User not found");
+
+        if (!IsEligible(subRequest, user.Positions))
+        {
+            throw new InvalidOperationException($"You don't play {subRequest.Position} at this game's skill level");
+        }
+
+        // Serializable so two players accepting at once can't both take the spot
+        await using var transaction = await _context.Database
+            .BeginTransactionAsync(IsolationLevel.Serializable);
+
+        try
+        {
+            if (subRequest.EventRegistration != null)
+            {
+                await TransferEventRegistrationAsync(subRequest, userId);
+            }
+            else
+            {
+                await TransferTeamSpotAsync(subRequest, userId);
+            }
+
+            subRequest.Status = "Filled";
+            subRequest.AcceptedByUserId = userId;
+            subRequest.AcceptedByUser = user;
+            subRequest.FilledAt = DateTime.UtcNow;
+
+            await _context.SaveChangesAsync();
+            await transaction.CommitAsync();
+        }
+        catch
+        {
+            await transaction.RollbackAsync();
+            throw;
+        }
+
+        // Notify AFTER commit to prevent false notifications on rollback
+        await NotifyRequesterFilledAsync(subRequest, user);
+
+        var dto = (await MapToDtosAsync(new List<SubRequest> { subRequest })).Single();
+        return new AcceptSubRequestResponse(dto, subRequest.EventRegistrationId);
+    }
+
+    public async Task<bool> CancelAsync(Guid subRequestId, Guid userId)
+    {
+        var subRequest = await _context.SubRequests.FirstOrDefaultAsync(r => r.Id == subRequestId);
+        if (subRequest == null || subRequest.RequesterId != userId) return false;
+
+        if (subRequest.Status != "Open")
+        {
+            throw new InvalidOperationException("Only open sub requests can be cancelled");
+        }
+
+        subRequest.Status = "Cancelled";
+        await _context.SaveChangesAsync();
+
+        return true;
+    }
+
+    #endregion
+
+    #region Transfers
+
+    /// <summary>
+    /// Hands the requester's registration to the sub. Roster slot, team and payment status
+    /// carry over, so a sub for a paid spot owes the requester (if they paid) or the organizer.
+    /// </summary>
+    private async Task TransferEventRegistrationAsync(SubRequest subRequest, Guid subUserId)
+    {
+        var registration = subRequest.EventRegistration!;
+        var evt = subRequest.Event!;
+
+        if (!IsSpotStillHeld(subRequest, new HashSet<(Guid, Guid)>())
+            || evt.Status == "Cancelled" || evt.EventDate <= DateTime.UtcNow)
+        {
+            throw new InvalidOperationException("This spot is no longer available");
+        }
+
+        var existing = await _context.EventRegistrations
+            .FirstOrDefaultAsync(r => r.EventId == evt.Id && r.UserId == subUserId);
+        if (existing != null)
+        {
+            if (existing.Status != "Cancelled")
+            {
+                throw new InvalidOperationException("You're already signed up for this game");
+            }
+
+            // One registration row per player per event; the transferred one replaces it
+            _context.EventRegistrations.Remove(existing);
+        }
+
+        registration.UserId = subUserId;
+        registration.AttendanceStatus = null;
+        registration.CheckedInAt = null;
+        registration.CheckInToken = EventRegistration.NewCheckInToken();
+    }
+
+    /// <summary>
+    /// Moves the requester off the team and puts the sub on it in the same position.
+    /// The requester's tournament registration (and its payment status) goes to the sub.
+    /// </summary>
+    private async Task TransferTeamSpotAsync(SubRequest subRequest, Guid subUserId)
+    {
+        var team = subRequest.TournamentTeam!;
+        var now = DateTime.UtcNow;
+
+        if (team.Tournament.Status == "Completed" || team.Tournament.Status == "Cancelled")
+        {
+            throw new InvalidOperationException("This spot is no longer available");
+        }
+
+        var requesterMember = await _context.TournamentTeamMembers
+            .FirstOrDefaultAsync(m => m.TeamId == team.Id && m.UserId == subRequest.RequesterId
+                && m.Status == "Accepted" && m.LeftAt == null)
+            ?? throw new InvalidOperationException("This spot is no longer available");
+
+        if ((await GetActiveTournamentIdsAsync(subUserId)).Contains(team.TournamentId))
+        {
+            throw new InvalidOperationException("You're already on a team in this tournament");
+        }
+
+        requesterMember.LeftAt = now;
+
+        var subMember = await _context.TournamentTeamMembers
+            .FirstOrDefaultAsync(m => m.TeamId == team.Id && m.UserId == subUserId);
+        if (subMember == null)
+        {
+            subMember = new TournamentTeamMember
+            {
+                TeamId = team.Id,
+                UserId = subUserId,
+                JoinedAt = now
+            };
+            _context.TournamentTeamMembers.Add(subMember);
+        }
+        subMember.Role = "Player";
+        subMember.Status = "Accepted";
+        subMember.Position = subRequest.Position;
+        subMember.RespondedAt = now;
+        subMember.LeftAt = null;
+
+        var requesterRegistration = await _context.TournamentRegistrations
+            .FirstOrDefaultAsync(r => r.TournamentId == team.TournamentId && r.UserId == subRequest.RequesterId);
+        var subRegistration = await _context.TournamentRegistrations
+            .FirstOrDefaultAsync(r => r.TournamentId == team.TournamentId && r.UserId == subUserId);
+
+        if (requesterRegistration != null && subRegistration == null)
+        {
+            requesterRegistration.UserId = subUserId;
+            requesterRegistration.AssignedTeamId = team.Id;
+            requesterRegistration.Position = subRequest.Position;
+            requesterRegistration.UpdatedAt = now;
+        }
+        else if (subRegistration != null)
+        {
+            // One registration per player per tournament: reuse the sub's and close the requester's
+            subRegistration.Status = "Assigned";
+            subRegistration.AssignedTeamId = team.Id;
+            subRegistration.Position = subRequest.Position;
+            subRegistration.CancelledAt = null;
+            subRegistration.UpdatedAt = now;
+
+            if (requesterRegistration != null)
+            {
+                requesterRegistration.Status = "Cancelled";
+                requesterRegistration.AssignedTeamId = null;
+                requesterRegistration.CancelledAt = now;
+                requesterRegistration.UpdatedAt = now;
+            }
+        }
+    }
+
+    #endregion
+
+    #region Notifications
+
+    /// <summary>
+    /// Pushes the request to organization members who play the position at the right skill
+    /// and aren't already in the game. Standalone events and tournaments have no member list,
+    /// so their requests are only listed in the marketplace.
+    /// </summary>
+    private async Task NotifyEligiblePlayersAsync(SubRequest subRequest, Guid? organizationId)
+    {
+        if (!organizationId.HasValue) return;
+
+        var subscribers = await _context.OrganizationSubscriptions
+            .Include(s => s.User)
+            .Where(s => s.OrganizationId == organizationId.Value
+                && s.UserId != subRequest.RequesterId
+                && !s.User.IsGhostPlayer
+                && s.User.PushToken != null)
+            .Select(s => s.User)
+            .ToListAsync();
+
+        var inGameUserIds = subRequest.EventId.HasValue
+            ? (await _context.EventRegistrations
+                .Where(r => r.EventId == subRequest.EventId.Value && (r.Status == "Registered" || r.Status == "Waitlisted"))
+                .Select(r => r.UserId)
+                .ToListAsync()).ToHashSet()
+            : (await _context.TournamentTeamMembers
+                .Where(m => m.Team.TournamentId == subRequest.TournamentTeam!.TournamentId
+                    && m.Status != "Declined" && m.LeftAt == null)
+                .Select(m => m.UserId)
+                .ToListAsync()).ToHashSet();
+
+        var recipients = subscribers
+            .Where(u => !inGameUserIds.Contains(u.Id) && IsEligible(subRequest, u.Positions))
+            .ToList();
+
+        var gameDate = TimeZoneInfo.ConvertTimeFromUtc(GetGameDate(subRequest), CentralTimeZone);
+        var body = $"{GetTitle(subRequest)} on {gameDate:ddd, MMM d} needs a {subRequest.Position.ToLowerInvariant()}. First to accept takes the spot.";
+
+        foreach (var recipient in recipients)
+        {
+            try
+            {
+                await _notificationService.SendPushNotificationAsync(
+                    recipient.PushToken!,
+                    "Sub Needed",
+                    body,
+                    new
+                    {
+                        subRequestId = subRequest.Id.ToString(),
+                        tournamentId = subRequest.TournamentTeam?.TournamentId.ToString(),
+                        type = "sub_request"
+                    },
+                    userId: recipient.Id,
+                    type: "sub_request",
+                    organizationId: organizationId,
+                    eventId: subRequest.EventId);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to send sub request {SubRequestId} to user {UserId}", subRequest.Id, recipient.Id);
+            }
+        }
+    }
+
+    private async Task NotifyRequesterFilledAsync(SubRequest subRequest, User sub)
+    {
+        if (string.IsNullOrEmpty(subRequest.Requester.PushToken)) return;
+
+        await _notificationService.SendPushNotificationAsync(
+            subRequest.Requester.PushToken,
+            "Sub Found",
+            $"{sub.FirstName} {sub.LastName} took your spot for {GetTitle(subRequest)}.",
+            new
+            {
+                subRequestId = subRequest.Id.ToString(),
+                eventId = subRequest.EventId?.ToString(),
+                tournamentId = subRequest.TournamentTeam?.TournamentId.ToString(),
+                tournamentTeamId = subRequest.TournamentTeamId?.ToString(),
+                type = "sub_request_filled"
+            },
+            userId: subRequest.RequesterId,
+            type: "sub_request_filled",
+            organizationId: subRequest.Event?.OrganizationId ?? subRequest.TournamentTeam?.Tournament.OrganizationId,
+            eventId: subRequest.EventId);
+    }
+
+    #endregion
+
+    #region Helpers
+
+    private IQueryable<SubRequest> QuerySubRequests()
+    {
+        return _context.SubRequests
+            .Include(r => r.Requester)
+            .Include(r => r.AcceptedByUser)
+            .Include(r => r.EventRegistration)
+            .Include(r => r.Event).ThenInclude(e => e!.Organization)
+            .Include(r => r.Event).ThenInclude(e => e!.Creator)
+            .Include(r => r.TournamentTeam).ThenInclude(t => t!.Tournament).ThenInclude(t => t.Organization)
+            .Include(r => r.TournamentTeam).ThenInclude(t => t!.Tournament).ThenInclude(t => t.Creator);
+    }
+
+    /// <summary>
+    /// True when the user plays the requested position at one of the event's skill levels.
+    /// Events without skill levels (and tournament teams) match any skill.
+    /// </summary>
+    private static bool IsEligible(SubRequest subRequest, Dictionary<string, string>? positions)
+    {
+        var positionKey = subRequest.Position == "Goalie" ? "goalie" : "skater";
+        if (positions == null || !positions.TryGetValue(positionKey, out var skill)) return false;
+
+        var skillLevels = subRequest.Event?.SkillLevels;
+        return skillLevels == null || skillLevels.Count == 0 || skillLevels.Contains(skill);
+    }
+
+    /// <summary>
+    /// The requester still holds the spot and the game hasn't happened yet. Requests are left
+    /// open when the requester cancels or leaves another way, so they're filtered here instead.
+    /// </summary>
+    private static bool IsSpotStillHeld(SubRequest subRequest, HashSet<(Guid TeamId, Guid UserId)> heldTeamSpots)
+    {
+        if (subRequest.Event != null)
+        {
+            return subRequest.EventRegistration != null
+                && subRequest.EventRegistration.UserId == subRequest.RequesterId
+                && subRequest.EventRegistration.Status == "Registered"
+                && subRequest.Event.Status != "Cancelled"
+                && subRequest.Event.EventDate > DateTime.UtcNow;
+        }
+
+        return subRequest.TournamentTeam != null
+            && subRequest.TournamentTeam.Tournament.Status != "Completed"
+            && subRequest.TournamentTeam.Tournament.Status != "Cancelled"
+            && heldTeamSpots.Contains((subRequest.TournamentTeam.Id, subRequest.RequesterId));
+    }
+
+    /// <summary>
+    /// Team spots the requesters of these team requests still hold
+    /// </summary>
+    private async Task<HashSet<(Guid TeamId, Guid UserId)>> GetHeldTeamSpotsAsync(List<SubRequest> requests)
+    {
+        var teamIds = requests
+            .Where(r => r.TournamentTeamId.HasValue)
+            .Select(r => r.TournamentTeamId!.Value)
+            .Distinct()
+            .ToList();
+        if (teamIds.Count == 0) return new HashSet<(Guid, Guid)>();
+
+        var members = await _context.TournamentTeamMembers
+            .Where(m => teamIds.Contains(m.TeamId) && m.Status == "Accepted" && m.LeftAt == null)
+            .Select(m => new { m.TeamId, m.UserId })
+            .ToListAsync();
+
+        return members.Select(m => (m.TeamId, m.UserId)).ToHashSet();
+    }
+
+    /// <summary>
+    /// Tournaments where the user is on a team (pending or accepted)
+    /// </summary>
+    private async Task<HashSet<Guid>> GetActiveTournamentIdsAsync(Guid userId)
+    {
+        return (await _context.TournamentTeamMembers
+            .Where(m => m.UserId == userId && m.Status != "Declined" && m.LeftAt == null)
+            .Select(m => m.Team.TournamentId)
+            .ToListAsync()).ToHashSet();
+    }
+
+    private static DateTime GetGameDate(SubRequest subRequest)
+    {
+        return subRequest.Event?.EventDate ?? subRequest.TournamentTeam!.Tournament.StartDate;
+    }
+
+    private static string GetTitle(SubRequest subRequest)
+    {
+        if (subRequest.Event != null)
+        {
+            return subRequest.Event.Name ?? $"Pickup game on {subRequest.Event.EventDate:MMM d}";
+        }
+
+        return $"{subRequest.TournamentTeam!.Name} - {subRequest.TournamentTeam.Tournament.Name}";
+    }
+
+    private async Task<List<SubRequestDto>> MapToDtosAsync(List<SubRequest> requests)
+    {
+        // Batch load per-player tournament payment status for team requests
+        var tournamentIds = requests
+            .Where(r => r.TournamentTeam != null)
+            .Select(r => r.TournamentTeam!.TournamentId)
+            .Distinct()
+            .ToList();
+        var requesterIds = requests.Select(r => r.RequesterId).Distinct().ToList();
+        var tournamentPayments = tournamentIds.Count == 0
+            ? new Dictionary<(Guid, Guid), string?>()
+            : (await _context.TournamentRegistrations
+                .Where(r => tournamentIds.Contains(r.TournamentId) && requesterIds.Contains(r.UserId))
+                .Select(r => new { r.TournamentId, r.UserId, r.PaymentStatus })
+                .ToListAsync())
+                .ToDictionary(r => (r.TournamentId, r.UserId), r => r.PaymentStatus);
+
+        return requests.Select(r =>
+        {
+            var evt = r.Event;
+            var tournament = r.TournamentTeam?.Tournament;
+
+            decimal cost;
+            string? requesterPaymentStatus;
+            if (evt != null)
+            {
+                cost = evt.Cost;
+                requesterPaymentStatus = evt.Cost > 0 ? r.EventRegistration?.PaymentStatus : null;
+            }
+            else
+            {
+                // Only per-player fees belong to the spot; per-team fees stay with the team
+                var isPerPlayer = tournament!.FeeType == "PerPlayer" && tournament.EntryFee > 0;
+                cost = isPerPlayer ? tournament.EntryFee : 0;
+                requesterPaymentStatus = isPerPlayer
+                    ? tournamentPayments.GetValueOrDefault((tournament.Id, r.RequesterId))
+                    : null;
+            }
+
+            return new SubRequestDto(
+                r.Id,
+                r.Status,
+                r.RequesterId,
+                r.Requester.FirstName,
+                r.Requester.LastName,
+                r.Requester.VenmoHandle,
+                r.Position,
+                evt?.SkillLevels,
+                r.EventId,
+                tournament?.Id,
+                r.TournamentTeamId,
+                GetTitle(r),
+                evt?.Organization?.Name ?? tournament?.Organization?.Name,
+                GetGameDate(r),
+                evt?.Venue ?? tournament?.Venue,
+                cost,
+                requesterPaymentStatus,
+                evt?.Creator.VenmoHandle ?? tournament?.Creator.VenmoHandle,
+                r.Note,
+                r.CreatedAt,
+                r.AcceptedByUserId,
+                r.AcceptedByUser == null ? null : $"{r.AcceptedByUser.FirstName} {r.AcceptedByUser.LastName}",
+                r.FilledAt
+            );
+        }).ToList();
+    }
+
+    #endregion
+}
@@ -14,12 +14,18 @@ public class TournamentLifecycleService : ITournamentLifecycleService
     private readonly AppDbContext _context;
     private readonly ITournamentService _tournamentService;
     private readonly ITournamentAuthorizationService _authService;
+    private readonly IBadgeAdminService _badgeAdminService;
 
-    public TournamentLifecycleService(AppDbContext context, ITournamentService tournamentService, ITournamentAuthorizationService authService)
+    public TournamentLifecycleService(
+        AppDbContext context,
+        ITournamentService tournamentService,
+        ITournamentAuthorizationService authService,
+        IBadgeAdminService badgeAdminService)
     {
         _context = context;
         _tournamentService = tournamentService;
         _authService = authService;
+        _badgeAdminService = badgeAdminService;
     }
 
     public async Task<TournamentDto> PublishAsync(Guid tournamentId, Guid userId)
@@ -45,10 +51,15 @@ public class TournamentLifecycleService : ITournamentLifecycleService
 
     public async Task<TournamentDto> CompleteAsync(Guid tournamentId, Guid userId)
     {
-        return await TransitionAsync(tournamentId, userId, "Completed", tournament =>
+        var result = await TransitionAsync(tournamentId, userId, "Completed", tournament =>
         {
             tournament.CompletedAt = DateTime.UtcNow;
         });
+
+        // Award placement badges (e.g. "won a tournament") now that results are final
+        await _badgeAdminService.EvaluateTournamentPlacementRulesAsync(tournamentId);
+
+        return result;
     }
 
     public async Task<TournamentDto> PostponeAsync(Guid tournamentId, Guid userId, DateTime? newStartDate = null, DateTime? newEndDate = null)
@@ -159,6 +170,7 @@ public class TournamentLifecycleService : ITournamentLifecycleService
     private async Task<TournamentDto> MapToDto(Tournament tournament, Guid userId)
     {
         var canManage = await _tournamentService.CanUserManageTournamentAsync(tournament.Id, userId);
+        var canEnterScores = await _authService.CanEnterScoresAsync(tournament.Id, userId);
 
         return new TournamentDto
         {
@@ -200,7 +212,8 @@ public class TournamentLifecycleService : ITournamentLifecycleService
             StartedAt = tournament.StartedAt,
             CompletedAt = tournament.CompletedAt,
             CancelledAt = tournament.CancelledAt,
-            CanManage = canManage
+            CanManage = canManage,
+            CanEnterScores = canEnterScores
         };
     }
 }
@@ -12,6 +12,11 @@ namespace BHMHockey.Api.Services;
 /// </summary>
 public class TournamentMatchService : ITournamentMatchService
 {
+    // Match the GAME_SHEET and LIVE_MATCH constants in the shared package
+    private const int MaxClockPeriods = 6;
+    private const int MinPeriodLengthMinutes = 5;
+    private const int MaxPeriodLengthMinutes = 60;
+
     private readonly AppDbContext _context;
     private readonly ITournamentAuthorizationService _authService;
     private readonly ITournamentAuditService _auditService;
@@ -168,6 +173,7 @@ public class TournamentMatchService : ITournamentMatchService
         match.WinnerTeamId = winnerId;
         match.Status = "Completed";
         match.UpdatedAt = DateTime.UtcNow;
+        StopClock(match, match.UpdatedAt);
 
         // 7. Update Team Statistics
         var homeTeamEntity = await _context.TournamentTeams.FindAsync(match.HomeTeamId);
@@ -372,6 +378,7 @@ public class TournamentMatchService : ITournamentMatchService
         match.Status = "Forfeit";
         match.ForfeitReason = request.Reason;
         match.UpdatedAt = DateTime.UtcNow;
+        StopClock(match, match.UpdatedAt);
 
         // 6. Update Team Statistics
         var winnerTeam = await _context.TournamentTeams.FindAsync(winnerId);
@@ -497,6 +504,190 @@ public class TournamentMatchService : ITournamentMatchService
         return MapToDto(updatedMatch);
     }
 
+    public async Task<TournamentMatchDto> UpdateClockAsync(Guid tournamentId, Guid matchId, UpdateMatchClockRequest request, Guid userId)
+    {
+        // 1. Authorization Check (Any role can run the clock)
+        var canEnterScores = await _authService.CanEnterScoresAsync(tournamentId, userId);
+        if (!canEnterScores)
+        {
+            throw new UnauthorizedAccessException("User is not a tournament admin");
+        }
+
+        // 2. Validation
+        var match = await _context.TournamentMatches
+            .Include(m => m.Tournament)
+            .FirstOrDefaultAsync(m => m.Id == matchId && m.TournamentId == tournamentId);
+
+        if (match == null)
+        {
+            throw new InvalidOperationException("Match not found");
+        }
+
+        if (match.Tournament.Status != "InProgress")
+        {
+            throw new InvalidOperationException("Cannot run the clock for tournament not in InProgress status");
+        }
+
+        if (match.HomeTeamId == null || match.AwayTeamId == null)
+        {
+            throw new InvalidOperationException("Cannot run the clock for match with TBD teams");
+        }
+
+        if (match.Status != "Scheduled" && match.Status != "InProgress")
+        {
+            throw new InvalidOperationException($"Cannot run the clock for a match with status '{match.Status}'");
+        }
+
+        if (request.Period < 1 || request.Period > MaxClockPeriods)
+        {
+            throw new InvalidOperationException($"Period must be between 1 and {MaxClockPeriods}");
+        }
+
+        if (request.PeriodLengthMinutes < MinPeriodLengthMinutes || request.PeriodLengthMinutes > MaxPeriodLengthMinutes)
+        {
+            throw new InvalidOperationException(
+                $"Period length must be between {MinPeriodLengthMinutes} and {MaxPeriodLengthMinutes} minutes");
+        }
+
+        if (request.ElapsedSeconds < 0 || request.ElapsedSeconds > request.PeriodLengthMinutes * 60)
+        {
+            throw new InvalidOperationException("Elapsed time must be within the period");
+        }
+
+        // 3. Update the clock - the server time anchors a running clock for every viewer
+        var now = DateTime.UtcNow;
+        match.ClockPeriod = request.Period;
+        match.ClockPeriodLengthMinutes = request.PeriodLengthMinutes;
+        match.ClockElapsedSeconds = request.ElapsedSeconds;
+        match.ClockIsRunning = request.IsRunning;
+        match.ClockStartedAt = request.IsRunning ? now : null;
+        match.UpdatedAt = now;
+
+        // Starting the clock puts a scheduled match in progress
+        if (request.IsRunning && match.Status == "Scheduled")
+        {
+            match.Status = "InProgress";
+        }
+
+        await _context.SaveChangesAsync();
+
+        var updatedMatch = await _context.TournamentMatches
+            .Include(m => m.HomeTeam)
+            .Include(m => m.AwayTeam)
+            .Include(m => m.WinnerTeam)
+            .FirstAsync(m => m.Id == matchId);
+
+        return MapToDto(updatedMatch);
+    }
+
+    public async Task<List<TournamentMatchDto>> PublishScheduleAsync(Guid tournamentId, PublishScheduleRequest request, Guid userId)
+    {
+        // 1. Authorization Check (Admin+ can manage the schedule)
+        var canManageSchedule = await _authService.CanManageScheduleAsync(tournamentId, userId);
+        if (!canManageSchedule)
+        {
+            throw new UnauthorizedAccessException("User is not a tournament admin");
+        }
+
+        // 2. Validation
+        var tournament = await _context.Tournaments.FindAsync(tournamentId);
+        if (tournament == null)
+        {
+            throw new InvalidOperationException("Tournament not found");
+        }
+
+        if (tournament.Status == "Completed" || tournament.Status == "Cancelled")
+        {
+            throw new InvalidOperationException($"Cannot publish a schedule for a tournament with status '{tournament.Status}'");
+        }
+
+        if (request.Slots.Select(slot => slot.MatchId).Distinct().Count() != request.Slots.Count)
+        {
+            throw new InvalidOperationException("Each match can only be scheduled once");
+        }
+
+        var matchIds = request.Slots.Select(slot => slot.MatchId).ToList();
+        var matches = await _context.TournamentMatches
+            .Where(m => m.TournamentId == tournamentId && matchIds.Contains(m.Id))
+            .ToDictionaryAsync(m => m.Id);
+
+        foreach (var slot in request.Slots)
+        {
+            if (!matches.TryGetValue(slot.MatchId, out var match))
+            {
+                throw new InvalidOperationException("Match not found");
+            }
+
+            if (match.IsBye || match.Status != "Scheduled")
+            {
+                throw new InvalidOperationException($"Match {match.MatchNumber} has already been played or is underway");
+            }
+
+            if (string.IsNullOrWhiteSpace(slot.Venue) || slot.Venue.Trim().Length > 255)
+            {
+                throw new InvalidOperationException("Venue is required and must not exceed 255 characters");
+            }
+
+            var requestedTeams = new[] { slot.HomeTeamId, slot.AwayTeamId }.Where(id => id.HasValue).OrderBy(id => id).ToList();
+            var matchTeams = new[] { match.HomeTeamId, match.AwayTeamId }.Where(id => id.HasValue).OrderBy(id => id).ToList();
+            if (requestedTeams.Count > 0 && !requestedTeams.SequenceEqual(matchTeams))
+            {
+                throw new InvalidOperationException($"Home and away for Match {match.MatchNumber} must be its two teams");
+            }
+        }
+
+        // 3. Apply the slots
+        var now = DateTime.UtcNow;
+        foreach (var slot in request.Slots)
+        {
+            var match = matches[slot.MatchId];
+            match.Venue = slot.Venue.Trim();
+            match.ScheduledTime = slot.ScheduledTime;
+            if (slot.HomeTeamId.HasValue && slot.HomeTeamId != match.HomeTeamId)
+            {
+                (match.HomeTeamId, match.AwayTeamId) = (match.AwayTeamId, match.HomeTeamId);
+            }
+            match.UpdatedAt = now;
+        }
+
+        // 4. Audit Logging
+        await _auditService.LogAsync(
+            tournamentId: tournamentId,
+            userId: userId,
+            action: "schedule_published",
+            entityType: "Tournament",
+            entityId: tournamentId,
+            oldValue: null,
+            newValue: JsonSerializer.Serialize(new { matchCount = request.Slots.Count })
+        );
+
+        // 5. Save and Return
+        await _context.SaveChangesAsync();
+
+        return await GetAllAsync(tournamentId);
+    }
+
+    /// <summary>
+    /// Freezes a running clock at its elapsed time (capped at the period length)
+    /// </summary>
+    private static void StopClock(TournamentMatch match, DateTime now)
+    {
+        if (!match.ClockIsRunning)
+        {
+            return;
+        }
+
+        var elapsed = match.ClockElapsedSeconds;
+        if (match.ClockStartedAt.HasValue)
+        {
+            elapsed += Math.Max(0, (int)(now - match.ClockStartedAt.Value).TotalSeconds);
+        }
+
+        match.ClockElapsedSeconds = Math.Min(elapsed, (match.ClockPeriodLengthMinutes ?? 0) * 60);
+        match.ClockIsRunning = false;
+        match.ClockStartedAt = null;
+    }
+
     private static TournamentMatchDto MapToDto(TournamentMatch match)
     {
         return new TournamentMatchDto
@@ -520,6 +711,16 @@ public class TournamentMatchService : ITournamentMatchService
             WinnerTeamId = match.WinnerTeamId,
             WinnerTeamName = match.WinnerTeam?.Name,
             ForfeitReason = match.ForfeitReason,
+            LiveClock = match.ClockPeriod.HasValue && match.ClockPeriodLengthMinutes.HasValue
+                ? new LiveMatchClockDto
+                {
+                    Period = match.ClockPeriod.Value,
+                    PeriodLengthMinutes = match.ClockPeriodLengthMinutes.Value,
+                    ElapsedSeconds = match.ClockElapsedSeconds,
+                    IsRunning = match.ClockIsRunning,
+                    StartedAt = match.ClockStartedAt
+                }
+                : null,
             NextMatchId = match.NextMatchId,
             LoserNextMatchId = match.LoserNextMatchId,
             CreatedAt = match.CreatedAt,
@@ -141,7 +141,12 @@ public class TournamentRegistrationService : ITournamentRegistrationService
             return null;
         }
 
-        return MapToDto(registration);
+        var pendingTransferId = await _context.RegistrationTransfers
+            .Where(t => t.TournamentRegistrationId == registration.Id && t.FromUserId == userId && t.Status == "Pending")
+            .Select(t => (Guid?)t.Id)
+            .FirstOrDefaultAsync();
+
+        return MapToDto(registration) with { PendingTransferId = pendingTransferId };
     }
 
     public async Task<TournamentRegistrationDto?> UpdateAsync(
@@ -387,8 +392,10 @@ public class TournamentRegistrationService : ITournamentRegistrationService
     /// </summary>
     private void ValidateCustomQuestions(string? customQuestionsJson, string? customResponsesJson)
     {
-        // If no custom questions defined, nothing to validate
-        if (string.IsNullOrEmpty(customQuestionsJson))
+        // If no custom questions defined, nothing to validate. Accepts both the bare
+        // question array and the versioned schema.
+        var questionsElement = CustomQuestionSchema.GetQuestions(customQuestionsJson);
+        if (questionsElement == null)
         {
             return;
         }
@@ -401,7 +408,7 @@ public class TournamentRegistrationService : ITournamentRegistrationService
             {
                 PropertyNameCaseInsensitive = true
             };
-            questions = System.Text.Json.JsonSerializer.Deserialize<List<CustomQuestion>>(customQuestionsJson, options);
+            questions = System.Text.Json.JsonSerializer.Deserialize<List<CustomQuestion>>(questionsElement.Value, options);
         }
         catch
         {
@@ -429,8 +436,9 @@ public class TournamentRegistrationService : ITournamentRegistrationService
         }
         responses ??= new Dictionary<string, System.Text.Json.JsonElement>();
 
-        // Check each required question has a non-empty answer
-        foreach (var question in questions.Where(q => q.Required))
+        // Check each required question has a non-empty answer. Questions hidden by
+        // their visibleWhen condition are never shown, so they can't be required.
+        foreach (var question in questions.Where(q => q.Required && IsQuestionVisible(q, questions, responses)))
         {
             if (!responses.TryGetValue(question.Id, out var answer))
             {
@@ -445,6 +453,64 @@ public class TournamentRegistrationService : ITournamentRegistrationService
         }
     }
 
+    /// <summary>
+    /// Whether a question is shown given the answers. A question whose condition
+    /// depends on a hidden question is hidden too (matches isQuestionVisible in
+    /// the shared package).
+    /// </summary>
+    private static bool IsQuestionVisible(
+        CustomQuestion question,
+        List<CustomQuestion> questions,
+        Dictionary<string, System.Text.Json.JsonElement> responses)
+    {
+        var seen = new HashSet<string>();
+        var current = question;
+
+        while (current?.VisibleWhen != null)
+        {
+            // Circular conditions never show
+            if (!seen.Add(current.Id))
+            {
+                return false;
+            }
+
+            var condition = current.VisibleWhen;
+            if (!responses.TryGetValue(condition.QuestionId, out var answer) ||
+                !AnswerMatches(answer, condition.EqualsValue))
+            {
+                return false;
+            }
+
+            current = questions.FirstOrDefault(q => q.Id == condition.QuestionId);
+        }
+
+        return true;
+    }
+
+    /// <summary>
+    /// Whether an answer satisfies a visibleWhen condition. Multi-select answers
+    /// match when they include the value.
+    /// </summary>
+    private static bool AnswerMatches(System.Text.Json.JsonElement answer, System.Text.Json.JsonElement expected)
+    {
+        if (answer.ValueKind == System.Text.Json.JsonValueKind.Array)
+        {
+            return expected.ValueKind == System.Text.Json.JsonValueKind.String &&
+                answer.EnumerateArray().Any(choice =>
+                    choice.ValueKind == System.Text.Json.JsonValueKind.String &&
+                    choice.GetString() == expected.GetString());
+        }
+
+        return expected.ValueKind switch
+        {
+            System.Text.Json.JsonValueKind.String =>
+                answer.ValueKind == System.Text.Json.JsonValueKind.String && answer.GetString() == expected.GetString(),
+            System.Text.Json.JsonValueKind.True or System.Text.Json.JsonValueKind.False =>
+                answer.ValueKind == expected.ValueKind,
+            _ => false
+        };
+    }
+
     /// <summary>
     /// Represents a custom question definition.
     /// </summary>
@@ -455,6 +521,18 @@ public class TournamentRegistrationService : ITournamentRegistrationService
         public string Label { get; set; } = string.Empty;
         public bool Required { get; set; }
         public List<string>? Options { get; set; }
+        public CustomQuestionCondition? VisibleWhen { get; set; }
+    }
+
+    /// <summary>
+    /// Show a question only when an earlier question has a given answer.
+    /// </summary>
+    private class CustomQuestionCondition
+    {
+        public string QuestionId { get; set; } = string.Empty;
+
+        [System.Text.Json.Serialization.JsonPropertyName("equals")]
+        public System.Text.Json.JsonElement EqualsValue { get; set; }
     }
 
     /// <summary>
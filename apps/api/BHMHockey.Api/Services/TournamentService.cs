@@ -62,6 +62,9 @@ public class TournamentService : ITournamentService
                 $"Invalid team formation '{request.TeamFormation}'. Valid values: {string.Join(", ", ValidTeamFormations)}");
         }
 
+        // Validate custom questions schema version
+        CustomQuestionSchema.Validate(request.CustomQuestions);
+
         // If organization is specified, validate it exists and user is an admin
         if (request.OrganizationId.HasValue)
         {
@@ -204,6 +207,9 @@ public class TournamentService : ITournamentService
                 $"Invalid team formation '{request.TeamFormation}'. Valid values: {string.Join(", ", ValidTeamFormations)}");
         }
 
+        // Validate custom questions schema version
+        CustomQuestionSchema.Validate(request.CustomQuestions);
+
         // Apply updates (patch semantics - only update provided fields)
         if (request.Name != null) tournament.Name = request.Name;
         if (request.Description != null) tournament.Description = request.Description;
@@ -577,6 +583,9 @@ public class TournamentService : ITournamentService
         var canManage = currentUserId.HasValue
             ? await CanUserManageTournamentAsync(tournament.Id, currentUserId.Value)
             : false;
+        var canEnterScores = currentUserId.HasValue
+            ? await _authService.CanEnterScoresAsync(tournament.Id, currentUserId.Value)
+            : false;
 
         return new TournamentDto
         {
@@ -618,7 +627,8 @@ public class TournamentService : ITournamentService
             StartedAt = tournament.StartedAt,
             CompletedAt = tournament.CompletedAt,
             CancelledAt = tournament.CancelledAt,
-            CanManage = canManage
+            CanManage = canManage,
+            CanEnterScores = canEnterScores
         };
     }
 }
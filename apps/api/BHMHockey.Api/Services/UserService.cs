@@ -151,4 +151,42 @@ public class UserService : IUserService
 
         await _context.SaveChangesAsync();
     }
+
+    public async Task<List<AvailabilitySlotDto>> GetAvailabilityAsync(Guid userId)
+    {
+        var slots = await PlayerAvailability.Ordered(_context.UserAvailabilitySlots.Where(s => s.UserId == userId))
+            .ToListAsync();
+
+        return slots.Select(PlayerAvailability.ToDto).ToList();
+    }
+
+    public async Task<List<AvailabilitySlotDto>> ReplaceAvailabilityAsync(Guid userId, UpdateAvailabilityRequest request)
+    {
+        var userExists = await _context.Users.AnyAsync(u => u.Id == userId);
+        if (!userExists)
+        {
+            throw new InvalidOperationException("User not found");
+        }
+
+        var slots = request.Slots ?? new List<AvailabilitySlotDto>();
+        if (slots.Count > PlayerAvailability.MaxSlots)
+        {
+            throw new InvalidOperationException($"Cannot save more than {PlayerAvailability.MaxSlots} availability slots");
+        }
+
+        foreach (var slot in slots)
+        {
+            PlayerAvailability.Validate(slot);
+        }
+
+        var existing = await _context.UserAvailabilitySlots
+            .Where(s => s.UserId == userId)
+            .ToListAsync();
+        _context.UserAvailabilitySlots.RemoveRange(existing);
+        _context.UserAvailabilitySlots.AddRange(slots.Select(s => PlayerAvailability.ToEntity(s, userId)));
+
+        await _context.SaveChangesAsync();
+
+        return await GetAvailabilityAsync(userId);
+    }
 }
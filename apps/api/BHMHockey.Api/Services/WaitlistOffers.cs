@@ -0,0 +1,60 @@
+using BHMHockey.Api.Models.Entities;
+
+namespace BHMHockey.Api.Services;
+
+/// <summary>
+/// Waitlist promotion modes. 'Immediate' (the default) auto-promotes verified waitlisted players;
+/// 'Offer' holds an open spot for the next player in line for a window, cascading down the
+/// waitlist when the offer is declined or lapses.
+/// </summary>
+public static class WaitlistOffers
+{
+    public const string ImmediateMode = "Immediate";
+    public const string OfferMode = "Offer";
+
+    public const int DefaultWindowMinutes = 120;
+    public const int MinWindowMinutes = 15;
+    public const int MaxWindowMinutes = 1440;
+
+    public static readonly HashSet<string> ValidModes = new() { ImmediateMode, OfferMode };
+
+    /// <summary>
+    /// The organization's mode, or Immediate for standalone events and orgs that haven't set one
+    /// </summary>
+    public static string ResolveMode(Organization? organization)
+    {
+        return organization?.WaitlistPromotionMode ?? ImmediateMode;
+    }
+
+    /// <summary>
+    /// The organization's offer window, or the default when it hasn't set one
+    /// </summary>
+    public static int ResolveWindowMinutes(int? organizationWindowMinutes)
+    {
+        return organizationWindowMinutes ?? DefaultWindowMinutes;
+    }
+
+    /// <summary>
+    /// True while the registration holds an offer that hasn't lapsed
+    /// </summary>
+    public static bool IsOfferActive(EventRegistration registration, DateTime now)
+    {
+        return registration.Status == "Waitlisted" && registration.OfferExpiresAt > now;
+    }
+
+    /// <summary>
+    /// Throws InvalidOperationException for an unknown mode or a window outside MinWindowMinutes..MaxWindowMinutes
+    /// </summary>
+    public static void Validate(string? mode, int? windowMinutes)
+    {
+        if (mode != null && !ValidModes.Contains(mode))
+        {
+            throw new InvalidOperationException($"WaitlistPromotionMode must be one of: {string.Join(", ", ValidModes)}.");
+        }
+
+        if (windowMinutes.HasValue && (windowMinutes.Value < MinWindowMinutes || windowMinutes.Value > MaxWindowMinutes))
+        {
+            throw new InvalidOperationException($"WaitlistOfferWindowMinutes must be between {MinWindowMinutes} and {MaxWindowMinutes}.");
+        }
+    }
+}
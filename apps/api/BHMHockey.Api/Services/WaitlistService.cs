@@ -97,11 +97,14 @@ public class WaitlistService : IWaitlistService
 
     public async Task ProcessExpiredPaymentDeadlinesAsync()
     {
+        // Deadlines are only enforced for 'Offer' mode orgs - elsewhere the organizer
+        // manages unpaid players manually
         var expiredRegistrations = await _context.EventRegistrations
             .Where(r => r.Status == "Registered")
             .Where(r => r.PaymentDeadlineAt != null)
             .Where(r => r.PaymentDeadlineAt < DateTime.UtcNow)
             .Where(r => r.PaymentStatus == "Pending" || r.PaymentStatus == null)
+            .Where(r => r.Event.Organization != null && r.Event.Organization.WaitlistPromotionMode == WaitlistOffers.OfferMode)
             .Include(r => r.User)
             .Include(r => r.Event)
             .ToListAsync();
@@ -121,12 +124,115 @@ public class WaitlistService : IWaitlistService
             // Notify user their registration was cancelled
             await NotifyRegistrationExpiredAsync(registration);
 
-            // Promote next verified user from waitlist
-            var promotionResult = await PromoteFromWaitlistAsync(registration.EventId, spotCount: 1);
-            await SendPendingNotificationsAsync(promotionResult.PendingNotifications);
+            // Offer the released spot to the next player in line (notifications are sent by the promotion)
+            await PromoteFromWaitlistAsync(registration.EventId, spotCount: 1);
         }
     }
 
+    public async Task ProcessExpiredOffersAsync()
+    {
+        var now = DateTime.UtcNow;
+        var lapsedOffers = await _context.EventRegistrations
+            .Where(r => r.Status == "Waitlisted")
+            .Where(r => r.OfferExpiresAt != null && r.OfferExpiresAt <= now)
+            .Include(r => r.User)
+            .Include(r => r.Event)
+            .ToListAsync();
+
+        foreach (var registration in lapsedOffers)
+        {
+            _logger.LogInformation(
+                "Waitlist offer lapsed for user {UserId} on event {EventId}. Offering the spot to the next player.",
+                registration.UserId, registration.EventId);
+
+            // OfferedAt stays set, so they keep their waitlist spot but aren't offered again
+            registration.OfferExpiresAt = null;
+
+            await _context.SaveChangesAsync();
+
+            await NotifyOfferExpiredAsync(registration);
+
+            await PromoteFromWaitlistAsync(registration.EventId, spotCount: 1);
+        }
+    }
+
+    public async Task<bool> AcceptOfferAsync(Guid eventId, Guid userId)
+    {
+        var registration = await _context.EventRegistrations
+            .Include(r => r.User)
+            .Include(r => r.Event)
+                .ThenInclude(e => e.Creator)
+            .FirstOrDefaultAsync(r => r.EventId == eventId && r.UserId == userId && r.Status == "Waitlisted");
+
+        if (registration == null) return false;
+
+        var now = DateTime.UtcNow;
+        if (registration.OfferExpiresAt == null)
+        {
+            throw new InvalidOperationException("You don't have an open waitlist offer for this event");
+        }
+        if (!WaitlistOffers.IsOfferActive(registration, now))
+        {
+            throw new InvalidOperationException("This waitlist offer has expired");
+        }
+
+        registration.Status = "Registered";
+        registration.WaitlistPosition = null;
+        registration.PromotedAt = now;
+        registration.OfferedAt = null;
+        registration.OfferExpiresAt = null;
+        registration.TeamAssignment = await DetermineTeamAssignmentAsync(eventId, registration.RegisteredPosition);
+
+        // On paid events the payment deadline starts now, unless the payment is already verified
+        if (registration.Event.Cost > 0 && registration.PaymentStatus != "Verified")
+        {
+            registration.PaymentStatus ??= "Pending";
+            registration.PaymentDeadlineAt = now.Add(PaymentDeadlineDuration);
+        }
+        else
+        {
+            registration.PaymentDeadlineAt = null;
+        }
+
+        await _context.SaveChangesAsync();
+
+        await UpdateWaitlistPositionsAsync(eventId);
+
+        await NotifyOrganizerAutoPromotionAsync(registration);
+
+        _logger.LogInformation(
+            "User {UserId} accepted a waitlist offer for event {EventId}. Payment deadline: {Deadline}",
+            userId, eventId, registration.PaymentDeadlineAt);
+
+        return true;
+    }
+
+    public async Task<bool> DeclineOfferAsync(Guid eventId, Guid userId)
+    {
+        var registration = await _context.EventRegistrations
+            .FirstOrDefaultAsync(r => r.EventId == eventId && r.UserId == userId && r.Status == "Waitlisted");
+
+        if (registration == null) return false;
+
+        if (!WaitlistOffers.IsOfferActive(registration, DateTime.UtcNow))
+        {
+            throw new InvalidOperationException("You don't have an open waitlist offer for this event");
+        }
+
+        // OfferedAt stays set, so they keep their waitlist spot but aren't offered again
+        registration.OfferExpiresAt = null;
+
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "User {UserId} declined a waitlist offer for event {EventId}. Offering the spot to the next player.",
+            userId, eventId);
+
+        await PromoteFromWaitlistAsync(eventId, spotCount: 1);
+
+        return true;
+    }
+
     public async Task<List<EventRegistration>> GetWaitlistAsync(Guid eventId)
     {
         return await _context.EventRegistrations
@@ -234,6 +340,26 @@ public class WaitlistService : IWaitlistService
             eventId: registration.EventId);
     }
 
+    private async Task NotifyOfferExpiredAsync(EventRegistration registration)
+    {
+        if (string.IsNullOrEmpty(registration.User.PushToken))
+        {
+            return;
+        }
+
+        var eventName = registration.Event.Name ?? $"Event on {registration.Event.EventDate:MMM d}";
+
+        await _notificationService.SendPushNotificationAsync(
+            registration.User.PushToken,
+            "Offer Expired",
+            $"Your spot offer for {eventName} expired and went to the next player. You're still on the waitlist.",
+            new { eventId = registration.EventId.ToString(), type = "waitlist_offer_expired" },
+            userId: registration.UserId,
+            type: "waitlist_offer_expired",
+            organizationId: registration.Event.OrganizationId,
+            eventId: registration.EventId);
+    }
+
     private async Task NotifyOrganizerAutoPromotionAsync(EventRegistration registration)
     {
         // Don't notify about auto-promotions during draft mode
@@ -308,6 +434,7 @@ public class WaitlistService : IWaitlistService
     /// Promotes users from waitlist using priority queue: verified users first (by RegisteredAt).
     /// Unverified waitlisted users are NOT notified when spots open - the organizer handles all
     /// outreach manually (capacity often blips transiently while guests are swapped).
+    /// Events of 'Offer' mode orgs offer the spots to the next players in line instead.
     /// </summary>
     /// <param name="eventId">The event ID</param>
     /// <param name="spotCount">Number of spots to fill</param>
@@ -318,6 +445,14 @@ public class WaitlistService : IWaitlistService
         int spotCount = 1,
         bool callerOwnsTransaction = false)
     {
+        var evt = await _context.Events
+            .Include(e => e.Organization)
+            .FirstOrDefaultAsync(e => e.Id == eventId);
+        if (evt != null && WaitlistOffers.ResolveMode(evt.Organization) == WaitlistOffers.OfferMode)
+        {
+            return await OfferSpotsAsync(evt, spotCount, callerOwnsTransaction);
+        }
+
         var result = new PromotionResult();
 
         // Get verified waitlist users ordered by RegisteredAt, then by Id
@@ -376,6 +511,60 @@ public class WaitlistService : IWaitlistService
         return result;
     }
 
+    /// <summary>
+    /// Offers open spots to the next waitlisted players in line (by WaitlistPosition) for the
+    /// org's offer window. Each player is offered a spot once per event - a declined or lapsed
+    /// offer cascades to the next player while they keep their waitlist spot.
+    /// </summary>
+    private async Task<PromotionResult> OfferSpotsAsync(Event evt, int spotCount, bool callerOwnsTransaction)
+    {
+        var result = new PromotionResult();
+        var now = DateTime.UtcNow;
+
+        // Nothing to offer once the game has started or was cancelled
+        if (evt.Status == "Cancelled" || evt.EventDate <= now)
+        {
+            return result;
+        }
+
+        var window = TimeSpan.FromMinutes(WaitlistOffers.ResolveWindowMinutes(evt.Organization?.WaitlistOfferWindowMinutes));
+
+        var nextInLine = await _context.EventRegistrations
+            .Include(r => r.User)
+            .Where(r => r.EventId == evt.Id && r.Status == "Waitlisted" && r.OfferedAt == null)
+            .OrderBy(r => r.WaitlistPosition)
+            .Take(spotCount)
+            .ToListAsync();
+
+        foreach (var registration in nextInLine)
+        {
+            registration.OfferedAt = now;
+            registration.OfferExpiresAt = now.Add(window);
+
+            result.Offered.Add(registration);
+            result.PendingNotifications.Add(new PendingNotification
+            {
+                User = registration.User,
+                Event = evt,
+                Type = NotificationType.WaitlistOffer,
+                OfferExpiresAt = registration.OfferExpiresAt
+            });
+        }
+
+        await _context.SaveChangesAsync();
+
+        if (!callerOwnsTransaction)
+        {
+            await SendPendingNotificationsAsync(result.PendingNotifications);
+        }
+
+        _logger.LogInformation(
+            "OfferSpotsAsync: Offered {OfferedCount} of {SpotCount} spots for event {EventId}",
+            result.Offered.Count, spotCount, evt.Id);
+
+        return result;
+    }
+
     /// <summary>
     /// Sends pending notifications after a transaction has committed.
     /// </summary>
@@ -383,6 +572,13 @@ public class WaitlistService : IWaitlistService
     {
         foreach (var notification in notifications)
         {
+            // Offers go out even during draft mode - the player has to answer before the window lapses
+            if (notification.Type == NotificationType.WaitlistOffer)
+            {
+                await SendWaitlistOfferAsync(notification);
+                continue;
+            }
+
             // Don't send roster-related notifications during draft mode
             if (!notification.Event.IsRosterPublished)
             {
@@ -427,6 +623,36 @@ public class WaitlistService : IWaitlistService
         }
     }
 
+    private async Task SendWaitlistOfferAsync(PendingNotification notification)
+    {
+        if (string.IsNullOrEmpty(notification.User.PushToken) || notification.OfferExpiresAt == null)
+        {
+            return;
+        }
+
+        var eventName = notification.Event.Name ?? $"Event on {notification.Event.EventDate:MMM d}";
+        var window = notification.OfferExpiresAt.Value - DateTime.UtcNow;
+        var windowText = window.TotalMinutes >= 60
+            ? $"{Math.Round(window.TotalHours, 1):0.#} hours"
+            : $"{Math.Max(1, (int)Math.Round(window.TotalMinutes))} minutes";
+
+        await _notificationService.SendPushNotificationAsync(
+            notification.User.PushToken,
+            "Spot Available",
+            $"A spot opened up for {eventName}. Claim it within {windowText} or it goes to the next player.",
+            new
+            {
+                eventId = notification.Event.Id.ToString(),
+                type = "waitlist_offer",
+                offerExpiresAt = notification.OfferExpiresAt.Value.ToString("o"),
+                categoryId = "waitlist_offer"
+            },
+            userId: notification.User.Id,
+            type: "waitlist_offer",
+            organizationId: notification.Event.OrganizationId,
+            eventId: notification.Event.Id);
+    }
+
     public async Task<bool> ReorderWaitlistAsync(Guid eventId, List<WaitlistReorderItem> items)
     {
         // Get current waitlist for this event
@@ -478,7 +704,12 @@ public class PromotionResult
     public List<EventRegistration> Promoted { get; set; } = new();
 
     /// <summary>
-    /// Notifications pending to be sent (auto-promoted).
+    /// Waitlisted registrations that were offered a spot ('Offer' promotion mode).
+    /// </summary>
+    public List<EventRegistration> Offered { get; set; } = new();
+
+    /// <summary>
+    /// Notifications pending to be sent (auto-promoted, waitlist offers).
     /// </summary>
     public List<PendingNotification> PendingNotifications { get; set; } = new();
 }
@@ -492,6 +723,7 @@ public class PendingNotification
     public Event Event { get; set; } = null!;
     public User? Organizer { get; set; }
     public NotificationType Type { get; set; }
+    public DateTime? OfferExpiresAt { get; set; }
 }
 
 /// <summary>
@@ -500,5 +732,8 @@ public class PendingNotification
 public enum NotificationType
 {
     /// <summary>User was auto-promoted from waitlist.</summary>
-    AutoPromoted
+    AutoPromoted,
+
+    /// <summary>User was offered an open spot ('Offer' promotion mode).</summary>
+    WaitlistOffer
 }
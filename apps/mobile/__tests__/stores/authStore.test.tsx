@@ -26,6 +26,7 @@ jest.mock('@bhmhockey/api-client', () => ({
 }));
 
 // Import after mocking
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useAuthStore } from '../../stores/authStore';
 
 // Types for test
@@ -192,6 +193,31 @@ describe('authStore', () => {
       expect(useAuthStore.getState().user).toBeNull();
     });
 
+    it('keeps the session with the cached user when the server is unreachable', async () => {
+      mockGetToken.mockResolvedValue('valid-token');
+      mockGetCurrentUser.mockRejectedValue({ message: 'Network Error', statusCode: 500, isNetworkError: true });
+      (AsyncStorage.getItem as jest.Mock).mockResolvedValueOnce(
+        JSON.stringify({ data: mockUser, cachedAt: '2026-01-01T00:00:00Z' })
+      );
+
+      await useAuthStore.getState().checkAuth();
+
+      expect(mockRemoveToken).not.toHaveBeenCalled();
+      expect(useAuthStore.getState().isAuthenticated).toBe(true);
+      expect(useAuthStore.getState().user).toEqual(mockUser);
+    });
+
+    it('keeps the token when offline with no cached user', async () => {
+      mockGetToken.mockResolvedValue('valid-token');
+      mockGetCurrentUser.mockRejectedValue({ message: 'Network Error', statusCode: 500, isNetworkError: true });
+
+      await useAuthStore.getState().checkAuth();
+
+      expect(mockRemoveToken).not.toHaveBeenCalled();
+      expect(useAuthStore.getState().isAuthenticated).toBe(false);
+      expect(useAuthStore.getState().isLoading).toBe(false);
+    });
+
     it('sets isLoading to true during check', async () => {
       let resolveToken: (value: string | null) => void;
       mockGetToken.mockReturnValue(
@@ -0,0 +1,221 @@
+/**
+ * ChatStore Tests - Protecting thread pagination, polling merges and the
+ * optimistic delete rollback.
+ */
+
+// Mock functions must be defined before jest.mock
+const mockGetMessages = jest.fn();
+const mockSendMessage = jest.fn();
+const mockPinMessage = jest.fn();
+const mockUnpinMessage = jest.fn();
+const mockDeleteMessage = jest.fn();
+
+// Mock the api-client module
+jest.mock('@bhmhockey/api-client', () => ({
+  chatService: {
+    getMessages: mockGetMessages,
+    sendMessage: mockSendMessage,
+    pinMessage: mockPinMessage,
+    unpinMessage: mockUnpinMessage,
+    deleteMessage: mockDeleteMessage,
+  },
+}));
+
+// Import after mocking
+import { useChatStore, getChatThreadKey } from '../../stores/chatStore';
+import type { ChatMessageDto, ChatParticipant } from '@bhmhockey/shared';
+
+const createMockMessage = (id: string, minute: number, overrides: Partial<ChatMessageDto> = {}): ChatMessageDto => ({
+  id,
+  threadType: 'Event',
+  threadId: 'event-1',
+  senderUserId: 'user-1',
+  senderFirstName: 'Test',
+  senderLastName: 'Player',
+  body: `Message ${id}`,
+  mentionedUserIds: [],
+  isPinned: false,
+  pinnedAt: null,
+  createdAt: new Date(Date.UTC(2026, 9, 1, 20, minute)).toISOString(),
+  ...overrides,
+});
+
+const key = getChatThreadKey('Event', 'event-1');
+const getThread = () => useChatStore.getState().threads[key];
+
+describe('chatStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    useChatStore.setState({ threads: {}, isSending: false, error: null });
+  });
+
+  describe('fetchLatest', () => {
+    it('loads the newest page with its cursor', async () => {
+      const messages = [createMockMessage('m2', 2), createMockMessage('m1', 1)];
+      mockGetMessages.mockResolvedValue({ messages, pinnedMessages: [], nextCursor: 'cursor-1' });
+
+      await useChatStore.getState().fetchLatest('Event', 'event-1');
+
+      expect(mockGetMessages).toHaveBeenCalledWith('Event', 'event-1', { limit: 30 });
+      expect(getThread().messages).toEqual(messages);
+      expect(getThread().nextCursor).toBe('cursor-1');
+      expect(getThread().isLoading).toBe(false);
+    });
+
+    it('merges new messages on a poll and keeps the history cursor', async () => {
+      const m1 = createMockMessage('m1', 1);
+      const m2 = createMockMessage('m2', 2);
+      useChatStore.setState({
+        threads: {
+          [key]: { messages: [m1], pinnedMessages: [], nextCursor: 'older', isLoading: false, isLoadingOlder: false },
+        },
+      });
+      mockGetMessages.mockResolvedValue({ messages: [m2, m1], pinnedMessages: [], nextCursor: 'newest-page' });
+
+      await useChatStore.getState().fetchLatest('Event', 'event-1');
+
+      expect(getThread().messages.map((m) => m.id)).toEqual(['m2', 'm1']);
+      expect(getThread().nextCursor).toBe('older');
+    });
+
+    it('starts over when the newest page does not overlap the loaded messages', async () => {
+      useChatStore.setState({
+        threads: {
+          [key]: {
+            messages: [createMockMessage('m1', 1)],
+            pinnedMessages: [],
+            nextCursor: null,
+            isLoading: false,
+            isLoadingOlder: false,
+          },
+        },
+      });
+      const latest = [createMockMessage('m40', 40)];
+      mockGetMessages.mockResolvedValue({ messages: latest, pinnedMessages: [], nextCursor: 'gap' });
+
+      await useChatStore.getState().fetchLatest('Event', 'event-1');
+
+      expect(getThread().messages).toEqual(latest);
+      expect(getThread().nextCursor).toBe('gap');
+    });
+
+    it('sets error on failure', async () => {
+      mockGetMessages.mockRejectedValue(new Error('Register for this game to see its chat'));
+
+      await useChatStore.getState().fetchLatest('Event', 'event-1');
+
+      expect(useChatStore.getState().error).toBe('Register for this game to see its chat');
+      expect(getThread().isLoading).toBe(false);
+    });
+  });
+
+  describe('fetchOlder', () => {
+    it('loads the page before the cursor', async () => {
+      useChatStore.setState({
+        threads: {
+          [key]: {
+            messages: [createMockMessage('m2', 2)],
+            pinnedMessages: [],
+            nextCursor: 'cursor-1',
+            isLoading: false,
+            isLoadingOlder: false,
+          },
+        },
+      });
+      mockGetMessages.mockResolvedValue({
+        messages: [createMockMessage('m1', 1)],
+        pinnedMessages: [],
+        nextCursor: null,
+      });
+
+      await useChatStore.getState().fetchOlder('Event', 'event-1');
+
+      expect(mockGetMessages).toHaveBeenCalledWith('Event', 'event-1', { before: 'cursor-1', limit: 30 });
+      expect(getThread().messages.map((m) => m.id)).toEqual(['m2', 'm1']);
+      expect(getThread().nextCursor).toBeNull();
+    });
+
+    it('does nothing at the start of the thread', async () => {
+      await useChatStore.getState().fetchOlder('Event', 'event-1');
+
+      expect(mockGetMessages).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('sends the mentioned user ids and adds the message', async () => {
+      const participants: ChatParticipant[] = [
+        { userId: 'user-2', firstName: 'Jo', lastName: 'Park' },
+        { userId: 'user-3', firstName: 'Sam', lastName: 'Lee' },
+      ];
+      const sent = createMockMessage('m1', 1, { body: '@Jo Park bring pucks', mentionedUserIds: ['user-2'] });
+      mockSendMessage.mockResolvedValue(sent);
+
+      const result = await useChatStore
+        .getState()
+        .sendMessage('Event', 'event-1', '@Jo Park bring pucks', participants);
+
+      expect(result).toBe(true);
+      expect(mockSendMessage).toHaveBeenCalledWith('Event', 'event-1', {
+        body: '@Jo Park bring pucks',
+        mentionedUserIds: ['user-2'],
+      });
+      expect(getThread().messages).toEqual([sent]);
+      expect(useChatStore.getState().isSending).toBe(false);
+    });
+  });
+
+  describe('togglePin', () => {
+    it('pins the message and adds it to the pinned list', async () => {
+      const message = createMockMessage('m1', 1);
+      useChatStore.setState({
+        threads: {
+          [key]: { messages: [message], pinnedMessages: [], nextCursor: null, isLoading: false, isLoadingOlder: false },
+        },
+      });
+      const pinned = { ...message, isPinned: true, pinnedAt: message.createdAt };
+      mockPinMessage.mockResolvedValue(pinned);
+
+      const result = await useChatStore.getState().togglePin('Event', 'event-1', message);
+
+      expect(result).toBe(true);
+      expect(mockPinMessage).toHaveBeenCalledWith('m1');
+      expect(getThread().messages).toEqual([pinned]);
+      expect(getThread().pinnedMessages).toEqual([pinned]);
+    });
+
+    it('unpins a pinned message', async () => {
+      const pinned = createMockMessage('m1', 1, { isPinned: true });
+      useChatStore.setState({
+        threads: {
+          [key]: { messages: [pinned], pinnedMessages: [pinned], nextCursor: null, isLoading: false, isLoadingOlder: false },
+        },
+      });
+      mockUnpinMessage.mockResolvedValue({ ...pinned, isPinned: false });
+
+      await useChatStore.getState().togglePin('Event', 'event-1', pinned);
+
+      expect(mockUnpinMessage).toHaveBeenCalledWith('m1');
+      expect(getThread().pinnedMessages).toEqual([]);
+    });
+  });
+
+  describe('deleteMessage', () => {
+    it('rolls back on failure', async () => {
+      const message = createMockMessage('m1', 1, { isPinned: true });
+      useChatStore.setState({
+        threads: {
+          [key]: { messages: [message], pinnedMessages: [message], nextCursor: null, isLoading: false, isLoadingOlder: false },
+        },
+      });
+      mockDeleteMessage.mockRejectedValue(new Error('Delete failed'));
+
+      const result = await useChatStore.getState().deleteMessage('Event', 'event-1', 'm1');
+
+      expect(result).toBe(false);
+      expect(getThread().messages).toEqual([message]);
+      expect(getThread().pinnedMessages).toEqual([message]);
+      expect(useChatStore.getState().error).toBe('Delete failed');
+    });
+  });
+});
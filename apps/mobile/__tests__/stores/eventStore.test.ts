@@ -11,12 +11,15 @@
 const mockGetAll = jest.fn();
 const mockGetById = jest.fn();
 const mockCreate = jest.fn();
+const mockCreateSeries = jest.fn();
 const mockRegister = jest.fn();
 const mockCancelRegistration = jest.fn();
 const mockGetMyRegistrations = jest.fn();
 const mockReorderWaitlist = jest.fn();
 const mockMarkPayment = jest.fn();
 const mockUpdateGhostPlayer = jest.fn();
+const mockAcceptWaitlistOffer = jest.fn();
+const mockDeclineWaitlistOffer = jest.fn();
 
 // Mock the api-client module
 jest.mock('@bhmhockey/api-client', () => ({
@@ -24,12 +27,15 @@ jest.mock('@bhmhockey/api-client', () => ({
     getAll: mockGetAll,
     getById: mockGetById,
     create: mockCreate,
+    createSeries: mockCreateSeries,
     register: mockRegister,
     cancelRegistration: mockCancelRegistration,
     getMyRegistrations: mockGetMyRegistrations,
     reorderWaitlist: mockReorderWaitlist,
     markPayment: mockMarkPayment,
     updateGhostPlayer: mockUpdateGhostPlayer,
+    acceptWaitlistOffer: mockAcceptWaitlistOffer,
+    declineWaitlistOffer: mockDeclineWaitlistOffer,
   },
 }));
 
@@ -378,6 +384,51 @@ describe('eventStore', () => {
     });
   });
 
+  describe('createEventSeries', () => {
+    const seriesRequest = {
+      organizationId: 'org-1',
+      maxPlayers: 20,
+      cost: 15,
+      recurrence: {
+        frequency: 'Weekly' as const,
+        startDate: '2026-11-05',
+        startTime: '21:30',
+        occurrences: 2,
+      },
+      eventDates: ['2026-11-06T02:30:00.000Z', '2026-11-13T02:30:00.000Z'],
+    };
+
+    it('adds every generated event to the list in date order', async () => {
+      const existingEvent = createMockEvent({ id: 'existing-event', eventDate: '2026-11-10T00:00:00.000Z' });
+      useEventStore.setState({ events: [existingEvent] });
+      mockCreateSeries.mockResolvedValue({
+        id: 'series-1',
+        recurrence: seriesRequest.recurrence,
+        createdAt: '2026-10-18T00:00:00.000Z',
+        events: [
+          createMockEvent({ id: 'game-1', seriesId: 'series-1', eventDate: seriesRequest.eventDates[0] }),
+          createMockEvent({ id: 'game-2', seriesId: 'series-1', eventDate: seriesRequest.eventDates[1] }),
+        ],
+      });
+
+      const result = await useEventStore.getState().createEventSeries(seriesRequest);
+
+      expect(result?.id).toBe('series-1');
+      expect(useEventStore.getState().events.map((e) => e.id)).toEqual(['game-1', 'existing-event', 'game-2']);
+      expect(useEventStore.getState().isCreating).toBe(false);
+    });
+
+    it('returns null and sets error on failure', async () => {
+      mockCreateSeries.mockRejectedValue(new Error('Series failed'));
+
+      const result = await useEventStore.getState().createEventSeries(seriesRequest);
+
+      expect(result).toBeNull();
+      expect(useEventStore.getState().error).toBe('Series failed');
+      expect(useEventStore.getState().isCreating).toBe(false);
+    });
+  });
+
   describe('fetchEventById', () => {
     it('sets selectedEvent on successful fetch', async () => {
       const event = createMockEvent({ id: 'event-1' });
@@ -566,6 +617,59 @@ describe('eventStore', () => {
     });
   });
 
+  describe('waitlist offers', () => {
+    const offerEvent = () =>
+      createMockEvent({
+        id: 'event-1',
+        amIWaitlisted: true,
+        myWaitlistPosition: 1,
+        waitlistPromotionMode: 'Offer',
+        myOfferExpiresAt: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+      });
+
+    it('refetches the event after accepting an offer', async () => {
+      const accepted = createMockEvent({ id: 'event-1', isRegistered: true, myOfferExpiresAt: null });
+      useEventStore.setState({ selectedEvent: offerEvent() });
+      mockAcceptWaitlistOffer.mockResolvedValue(undefined);
+      mockGetById.mockResolvedValue(accepted);
+      mockGetMyRegistrations.mockResolvedValue([accepted]);
+
+      const result = await useEventStore.getState().acceptWaitlistOffer('event-1');
+
+      expect(result).toBe(true);
+      expect(mockAcceptWaitlistOffer).toHaveBeenCalledWith('event-1');
+      expect(useEventStore.getState().selectedEvent?.isRegistered).toBe(true);
+      expect(useEventStore.getState().processingEventId).toBeNull();
+    });
+
+    it('surfaces the server message when an offer has lapsed', async () => {
+      useEventStore.setState({ selectedEvent: offerEvent() });
+      mockAcceptWaitlistOffer.mockRejectedValue({ message: 'This offer expired' });
+
+      const result = await useEventStore.getState().acceptWaitlistOffer('event-1');
+
+      expect(result).toBe(false);
+      expect(useEventStore.getState().error).toBe('This offer expired');
+      expect(mockGetById).not.toHaveBeenCalled();
+    });
+
+    it('clears the offer when declining and rolls back on failure', async () => {
+      const event = offerEvent();
+      useEventStore.setState({ selectedEvent: event });
+      mockDeclineWaitlistOffer.mockResolvedValueOnce(undefined);
+
+      expect(await useEventStore.getState().declineWaitlistOffer('event-1')).toBe(true);
+      expect(useEventStore.getState().selectedEvent?.myOfferExpiresAt).toBeNull();
+      expect(useEventStore.getState().selectedEvent?.amIWaitlisted).toBe(true);
+
+      useEventStore.setState({ selectedEvent: event });
+      mockDeclineWaitlistOffer.mockRejectedValueOnce(new Error('Network down'));
+
+      expect(await useEventStore.getState().declineWaitlistOffer('event-1')).toBe(false);
+      expect(useEventStore.getState().selectedEvent?.myOfferExpiresAt).toBe(event.myOfferExpiresAt);
+    });
+  });
+
   describe('updateGhostPlayer', () => {
     it('calls the API and refreshes event data on success', async () => {
       const event = createMockEvent({ id: 'event-1' });
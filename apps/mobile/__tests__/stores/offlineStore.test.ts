@@ -0,0 +1,214 @@
+/**
+ * OfflineStore Tests - Writes made while offline are queued, persisted and
+ * replayed in order once the device reconnects.
+ */
+
+const mockRegister = jest.fn();
+const mockCancelRegistration = jest.fn();
+const mockEnterScore = jest.fn();
+const mockSaveGameSheet = jest.fn();
+const mockCheckIn = jest.fn();
+
+jest.mock('@bhmhockey/api-client', () => ({
+  eventService: {
+    register: mockRegister,
+    cancelRegistration: mockCancelRegistration,
+    checkIn: mockCheckIn,
+  },
+  tournamentService: {
+    enterScore: mockEnterScore,
+    saveGameSheet: mockSaveGameSheet,
+  },
+}));
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useOfflineStore } from '../../stores/offlineStore';
+
+const QUEUE_KEY = '@bhmhockey:offlineQueue';
+const OWNER_KEY = '@bhmhockey:offlineOwner';
+const mockStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+let store: Record<string, string>;
+
+const networkError = { message: 'Network Error', statusCode: 500, isNetworkError: true };
+
+describe('offlineStore', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = {};
+    mockStorage.getItem.mockImplementation((key: string) => Promise.resolve(store[key] ?? null));
+    mockStorage.setItem.mockImplementation((key: string, value: string) => {
+      store[key] = value;
+      return Promise.resolve();
+    });
+    mockStorage.removeItem.mockImplementation((key: string) => {
+      delete store[key];
+      return Promise.resolve();
+    });
+    useOfflineStore.setState({
+      isOffline: false,
+      queue: [],
+      isSyncing: false,
+      lastSyncError: null,
+    });
+  });
+
+  describe('enqueue', () => {
+    it('persists queued writes and marks the store offline', async () => {
+      await useOfflineStore.getState().enqueue({ kind: 'registerForEvent', eventId: 'event-1', position: 'Skater' });
+
+      const state = useOfflineStore.getState();
+      expect(state.isOffline).toBe(true);
+      expect(state.queue).toHaveLength(1);
+      expect(JSON.parse(store[QUEUE_KEY])[0]).toMatchObject({ kind: 'registerForEvent', eventId: 'event-1' });
+    });
+
+    it('drops a queued registration when it is cancelled before syncing', async () => {
+      const { enqueue } = useOfflineStore.getState();
+      await enqueue({ kind: 'registerForEvent', eventId: 'event-1' });
+      await enqueue({ kind: 'cancelEventRegistration', eventId: 'event-1' });
+
+      expect(useOfflineStore.getState().queue).toEqual([]);
+    });
+
+    it('keeps only the latest score for a match', async () => {
+      const { enqueue } = useOfflineStore.getState();
+      await enqueue({ kind: 'enterScore', tournamentId: 't-1', matchId: 'm-1', request: { homeScore: 1, awayScore: 0 } });
+      await enqueue({ kind: 'enterScore', tournamentId: 't-1', matchId: 'm-1', request: { homeScore: 2, awayScore: 0 } });
+
+      const queue = useOfflineStore.getState().queue;
+      expect(queue).toHaveLength(1);
+      expect(queue[0]).toMatchObject({ request: { homeScore: 2, awayScore: 0 } });
+    });
+
+    it('keeps only the latest game sheet for a match, separate from its score', async () => {
+      const { enqueue } = useOfflineStore.getState();
+      const sheet = { goals: [], penalties: [], goalies: [], isFinal: false };
+      await enqueue({ kind: 'saveGameSheet', tournamentId: 't-1', matchId: 'm-1', request: sheet });
+      await enqueue({ kind: 'enterScore', tournamentId: 't-1', matchId: 'm-1', request: { homeScore: 1, awayScore: 0 } });
+      await enqueue({ kind: 'saveGameSheet', tournamentId: 't-1', matchId: 'm-1', request: { ...sheet, isFinal: true } });
+
+      const queue = useOfflineStore.getState().queue;
+      expect(queue.map((q) => q.kind)).toEqual(['enterScore', 'saveGameSheet']);
+      expect(queue[1]).toMatchObject({ request: { isFinal: true } });
+
+      mockEnterScore.mockResolvedValue({});
+      mockSaveGameSheet.mockResolvedValue({});
+      await useOfflineStore.getState().flushQueue();
+      expect(mockSaveGameSheet).toHaveBeenCalledWith('t-1', 'm-1', { ...sheet, isFinal: true });
+    });
+  });
+
+  describe('loadQueue', () => {
+    it('restores writes persisted in a previous session', async () => {
+      store[QUEUE_KEY] = JSON.stringify([
+        { id: 'q-1', queuedAt: '2026-01-01T00:00:00Z', kind: 'cancelEventRegistration', eventId: 'event-1' },
+      ]);
+
+      await useOfflineStore.getState().loadQueue('user-1');
+
+      expect(useOfflineStore.getState().queue).toHaveLength(1);
+    });
+
+    it('keeps the queue when the same user signs back in', async () => {
+      store[OWNER_KEY] = 'user-1';
+      store[QUEUE_KEY] = JSON.stringify([
+        { id: 'q-1', queuedAt: '2026-01-01T00:00:00Z', kind: 'cancelEventRegistration', eventId: 'event-1' },
+      ]);
+
+      await useOfflineStore.getState().loadQueue('user-1');
+
+      expect(useOfflineStore.getState().queue).toHaveLength(1);
+    });
+
+    it('drops the previous user\'s queue when a different user signs in', async () => {
+      store[OWNER_KEY] = 'user-1';
+      store[QUEUE_KEY] = JSON.stringify([
+        { id: 'q-1', queuedAt: '2026-01-01T00:00:00Z', kind: 'cancelEventRegistration', eventId: 'event-1' },
+      ]);
+
+      await useOfflineStore.getState().loadQueue('user-2');
+
+      expect(useOfflineStore.getState().queue).toEqual([]);
+      expect(store[QUEUE_KEY]).toBeUndefined();
+      expect(store[OWNER_KEY]).toBe('user-2');
+    });
+  });
+
+  describe('flushQueue', () => {
+    it('replays writes in order and clears the queue', async () => {
+      const { enqueue } = useOfflineStore.getState();
+      await enqueue({ kind: 'registerForEvent', eventId: 'event-1', position: 'Goalie' });
+      await enqueue({ kind: 'enterScore', tournamentId: 't-1', matchId: 'm-1', request: { homeScore: 3, awayScore: 2 } });
+      mockRegister.mockResolvedValue({ status: 'Registered' });
+      mockEnterScore.mockResolvedValue({});
+
+      const replayed = await useOfflineStore.getState().flushQueue();
+
+      expect(replayed).toBe(2);
+      expect(mockRegister).toHaveBeenCalledWith('event-1', 'Goalie');
+      expect(mockEnterScore).toHaveBeenCalledWith('t-1', 'm-1', { homeScore: 3, awayScore: 2 });
+      expect(useOfflineStore.getState().queue).toEqual([]);
+      expect(useOfflineStore.getState().isOffline).toBe(false);
+      expect(JSON.parse(store[QUEUE_KEY])).toEqual([]);
+    });
+
+    it('stops and keeps the remaining writes while still offline', async () => {
+      const { enqueue } = useOfflineStore.getState();
+      await enqueue({ kind: 'registerForEvent', eventId: 'event-1' });
+      await enqueue({ kind: 'cancelEventRegistration', eventId: 'event-2' });
+      mockRegister.mockRejectedValue(networkError);
+
+      const replayed = await useOfflineStore.getState().flushQueue();
+
+      expect(replayed).toBe(0);
+      expect(mockCancelRegistration).not.toHaveBeenCalled();
+      expect(useOfflineStore.getState().queue).toHaveLength(2);
+      expect(useOfflineStore.getState().isOffline).toBe(true);
+      expect(useOfflineStore.getState().isSyncing).toBe(false);
+    });
+
+    it('drops writes the server rejects and reports the error', async () => {
+      const { enqueue } = useOfflineStore.getState();
+      await enqueue({ kind: 'registerForEvent', eventId: 'event-1' });
+      await enqueue({ kind: 'cancelEventRegistration', eventId: 'event-2' });
+      mockRegister.mockRejectedValue({ message: 'Event is full', statusCode: 400, isNetworkError: false });
+      mockCancelRegistration.mockResolvedValue(undefined);
+
+      const replayed = await useOfflineStore.getState().flushQueue();
+
+      expect(replayed).toBe(1);
+      expect(useOfflineStore.getState().queue).toEqual([]);
+      expect(useOfflineStore.getState().lastSyncError).toBe('Event is full');
+    });
+
+    it('syncs the first scan of each check-in and reports rejected ones', async () => {
+      const { enqueue } = useOfflineStore.getState();
+      const scan = { registrationId: 'reg-1', token: 'abc', checkedInAt: '2026-03-10T19:00:00Z' };
+      await enqueue({ kind: 'checkIn', eventId: 'event-1', item: scan });
+      await enqueue({ kind: 'checkIn', eventId: 'event-1', item: { ...scan, checkedInAt: '2026-03-10T19:05:00Z' } });
+      await enqueue({ kind: 'checkIn', eventId: 'event-1', item: { ...scan, registrationId: 'reg-2' } });
+      mockCheckIn
+        .mockResolvedValueOnce({ checkedIn: ['reg-1'], rejected: [] })
+        .mockResolvedValueOnce({ checkedIn: [], rejected: [{ registrationId: 'reg-2', reason: 'Invalid token' }] });
+
+      const replayed = await useOfflineStore.getState().flushQueue();
+
+      expect(mockCheckIn).toHaveBeenCalledTimes(2);
+      expect(mockCheckIn).toHaveBeenNthCalledWith(1, 'event-1', [scan]);
+      expect(replayed).toBe(1);
+      expect(useOfflineStore.getState().lastSyncError).toBe('Check-in not saved: Invalid token');
+    });
+  });
+
+  describe('reset', () => {
+    it('clears state and the persisted queue', async () => {
+      await useOfflineStore.getState().enqueue({ kind: 'registerForEvent', eventId: 'event-1' });
+
+      await useOfflineStore.getState().reset();
+
+      expect(useOfflineStore.getState().queue).toEqual([]);
+      expect(useOfflineStore.getState().isOffline).toBe(false);
+      expect(store[QUEUE_KEY]).toBeUndefined();
+    });
+  });
+});
@@ -14,6 +14,10 @@ const mockRemoveAutoRosterMember = jest.fn();
 const mockReorderAutoRoster = jest.fn();
 const mockGetWaiver = jest.fn();
 const mockSetWaiver = jest.fn();
+const mockGetAnnouncements = jest.fn();
+const mockCreateAnnouncement = jest.fn();
+const mockUpdateAnnouncement = jest.fn();
+const mockDeleteAnnouncement = jest.fn();
 
 // Mock the api-client module
 jest.mock('@bhmhockey/api-client', () => ({
@@ -28,12 +32,22 @@ jest.mock('@bhmhockey/api-client', () => ({
     reorderAutoRoster: mockReorderAutoRoster,
     getWaiver: mockGetWaiver,
     setWaiver: mockSetWaiver,
+    getAnnouncements: mockGetAnnouncements,
+    createAnnouncement: mockCreateAnnouncement,
+    updateAnnouncement: mockUpdateAnnouncement,
+    deleteAnnouncement: mockDeleteAnnouncement,
   },
 }));
 
 // Import after mocking
 import { useOrganizationStore } from '../../stores/organizationStore';
-import type { Organization, OrganizationSubscription, AutoRosterMember, OrganizationWaiver } from '@bhmhockey/shared';
+import type {
+  Organization,
+  OrganizationSubscription,
+  AutoRosterMember,
+  OrganizationWaiver,
+  OrganizationAnnouncementDto,
+} from '@bhmhockey/shared';
 
 const createMockOrg = (overrides: Partial<Organization> = {}): Organization => ({
   id: 'org-1',
@@ -77,6 +91,22 @@ const createMockWaiver = (overrides: Partial<OrganizationWaiver> = {}): Organiza
   ...overrides,
 });
 
+const createMockAnnouncement = (overrides: Partial<OrganizationAnnouncementDto> = {}): OrganizationAnnouncementDto => ({
+  id: 'ann-1',
+  organizationId: 'org-1',
+  title: 'Ice time moved',
+  body: 'Thursday skate starts at 9:30 this week.',
+  target: 'All',
+  targetEventId: null,
+  targetEventName: null,
+  createdByUserId: 'creator-1',
+  createdByFirstName: 'Test',
+  createdByLastName: 'Admin',
+  createdAt: '2026-10-01T12:00:00Z',
+  updatedAt: null,
+  ...overrides,
+});
+
 describe('organizationStore', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -89,6 +119,9 @@ describe('organizationStore', () => {
       members: [],
       waiver: null,
       waiverOrgId: null,
+      announcements: [],
+      announcementsOrgId: null,
+      isLoadingAnnouncements: false,
       isLoading: false,
       error: null,
     });
@@ -517,4 +550,103 @@ describe('organizationStore', () => {
       expect(useOrganizationStore.getState().organizations[0].id).toBe('existing-org');
     });
   });
+
+  describe('fetchAnnouncements', () => {
+    it('sets announcements newest first with the org id', async () => {
+      const older = createMockAnnouncement({ id: 'ann-1', createdAt: '2026-10-01T12:00:00Z' });
+      const newer = createMockAnnouncement({ id: 'ann-2', createdAt: '2026-10-03T12:00:00Z' });
+      mockGetAnnouncements.mockResolvedValue([older, newer]);
+
+      await useOrganizationStore.getState().fetchAnnouncements('org-1');
+
+      expect(mockGetAnnouncements).toHaveBeenCalledWith('org-1');
+      expect(useOrganizationStore.getState().announcements.map((a) => a.id)).toEqual(['ann-2', 'ann-1']);
+      expect(useOrganizationStore.getState().announcementsOrgId).toBe('org-1');
+      expect(useOrganizationStore.getState().isLoadingAnnouncements).toBe(false);
+    });
+
+    it("clears another org's feed before loading", async () => {
+      useOrganizationStore.setState({
+        announcements: [createMockAnnouncement({ organizationId: 'org-2' })],
+        announcementsOrgId: 'org-2',
+      });
+      mockGetAnnouncements.mockRejectedValue(new Error('Forbidden'));
+
+      await useOrganizationStore.getState().fetchAnnouncements('org-1');
+
+      expect(useOrganizationStore.getState().announcements).toEqual([]);
+      expect(useOrganizationStore.getState().error).toBe('Forbidden');
+    });
+  });
+
+  describe('createAnnouncement', () => {
+    it('adds the new post to the top of the feed', async () => {
+      const existing = createMockAnnouncement({ id: 'ann-1' });
+      useOrganizationStore.setState({ announcements: [existing], announcementsOrgId: 'org-1' });
+      const created = createMockAnnouncement({ id: 'ann-2', createdAt: '2026-10-05T12:00:00Z' });
+      mockCreateAnnouncement.mockResolvedValue(created);
+      const request = { title: created.title, body: created.body, target: 'All' as const };
+
+      const result = await useOrganizationStore.getState().createAnnouncement('org-1', request);
+
+      expect(result).toBe(true);
+      expect(mockCreateAnnouncement).toHaveBeenCalledWith('org-1', request);
+      expect(useOrganizationStore.getState().announcements).toEqual([created, existing]);
+    });
+
+    it('sets error and returns false on failure', async () => {
+      mockCreateAnnouncement.mockRejectedValue(new Error('Pick an upcoming event'));
+
+      const result = await useOrganizationStore
+        .getState()
+        .createAnnouncement('org-1', { title: 'Hi', body: 'There', target: 'EventRegistrants' });
+
+      expect(result).toBe(false);
+      expect(useOrganizationStore.getState().error).toBe('Pick an upcoming event');
+    });
+  });
+
+  describe('updateAnnouncement', () => {
+    it('replaces the edited post in the feed', async () => {
+      const first = createMockAnnouncement({ id: 'ann-1' });
+      const second = createMockAnnouncement({ id: 'ann-2' });
+      useOrganizationStore.setState({ announcements: [first, second], announcementsOrgId: 'org-1' });
+      const updated = { ...first, body: 'Back to 9:00.', updatedAt: '2026-10-02T12:00:00Z' };
+      mockUpdateAnnouncement.mockResolvedValue(updated);
+
+      const result = await useOrganizationStore
+        .getState()
+        .updateAnnouncement('org-1', 'ann-1', { body: 'Back to 9:00.' });
+
+      expect(result).toBe(true);
+      expect(mockUpdateAnnouncement).toHaveBeenCalledWith('org-1', 'ann-1', { body: 'Back to 9:00.' });
+      expect(useOrganizationStore.getState().announcements).toEqual([updated, second]);
+    });
+  });
+
+  describe('deleteAnnouncement', () => {
+    it('optimistically removes the post', async () => {
+      const first = createMockAnnouncement({ id: 'ann-1' });
+      const second = createMockAnnouncement({ id: 'ann-2' });
+      useOrganizationStore.setState({ announcements: [first, second] });
+      mockDeleteAnnouncement.mockResolvedValue(undefined);
+
+      const result = await useOrganizationStore.getState().deleteAnnouncement('org-1', 'ann-1');
+
+      expect(result).toBe(true);
+      expect(useOrganizationStore.getState().announcements).toEqual([second]);
+    });
+
+    it('rolls back on failure', async () => {
+      const announcement = createMockAnnouncement();
+      useOrganizationStore.setState({ announcements: [announcement] });
+      mockDeleteAnnouncement.mockRejectedValue(new Error('Delete failed'));
+
+      const result = await useOrganizationStore.getState().deleteAnnouncement('org-1', 'ann-1');
+
+      expect(result).toBe(false);
+      expect(useOrganizationStore.getState().announcements).toEqual([announcement]);
+      expect(useOrganizationStore.getState().error).toBe('Delete failed');
+    });
+  });
 });
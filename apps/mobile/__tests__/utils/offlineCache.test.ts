@@ -0,0 +1,83 @@
+/**
+ * Offline cache tests - screens fall back to the last fetched copy only when
+ * the device is offline; server errors still surface.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  cacheKeys,
+  clearOfflineCache,
+  fetchWithCache,
+  isNetworkError,
+} from '../../utils/offlineCache';
+
+const mockStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+let store: Record<string, string>;
+
+const networkError = { message: 'Network Error', statusCode: 500, isNetworkError: true };
+const serverError = { message: 'Event not found', statusCode: 404, isNetworkError: false };
+
+beforeEach(() => {
+  store = {};
+  mockStorage.getItem.mockImplementation((key: string) => Promise.resolve(store[key] ?? null));
+  mockStorage.setItem.mockImplementation((key: string, value: string) => {
+    store[key] = value;
+    return Promise.resolve();
+  });
+  mockStorage.getAllKeys.mockImplementation(() => Promise.resolve(Object.keys(store)));
+  mockStorage.multiRemove.mockImplementation((keys: readonly string[]) => {
+    keys.forEach((key) => delete store[key]);
+    return Promise.resolve();
+  });
+});
+
+describe('isNetworkError', () => {
+  it('only matches errors flagged by the api-client', () => {
+    expect(isNetworkError(networkError)).toBe(true);
+    expect(isNetworkError(serverError)).toBe(false);
+    expect(isNetworkError(new Error('boom'))).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+  });
+});
+
+describe('fetchWithCache', () => {
+  const key = cacheKeys.event('event-1');
+
+  it('returns fresh data and caches it', async () => {
+    const result = await fetchWithCache(key, () => Promise.resolve({ id: 'event-1' }));
+
+    expect(result).toEqual({ data: { id: 'event-1' }, cachedAt: null });
+    expect(JSON.parse(store[key]).data).toEqual({ id: 'event-1' });
+  });
+
+  it('falls back to the cached copy when offline', async () => {
+    await fetchWithCache(key, () => Promise.resolve({ id: 'event-1', name: 'Cached' }));
+    const cachedAt = JSON.parse(store[key]).cachedAt;
+
+    const result = await fetchWithCache(key, () => Promise.reject(networkError));
+
+    expect(result).toEqual({ data: { id: 'event-1', name: 'Cached' }, cachedAt });
+  });
+
+  it('rethrows offline errors when nothing is cached', async () => {
+    await expect(fetchWithCache(key, () => Promise.reject(networkError))).rejects.toBe(networkError);
+  });
+
+  it('rethrows server errors even when a cached copy exists', async () => {
+    await fetchWithCache(key, () => Promise.resolve({ id: 'event-1' }));
+
+    await expect(fetchWithCache(key, () => Promise.reject(serverError))).rejects.toBe(serverError);
+  });
+});
+
+describe('clearOfflineCache', () => {
+  it('removes cached entries and leaves other storage alone', async () => {
+    store[cacheKeys.event('event-1')] = '{}';
+    store[cacheKeys.tournamentStandings('t-1')] = '{}';
+    store['@bhmhockey:authToken'] = 'token';
+
+    await clearOfflineCache();
+
+    expect(Object.keys(store)).toEqual(['@bhmhockey:authToken']);
+  });
+});
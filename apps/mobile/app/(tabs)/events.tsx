@@ -120,18 +120,23 @@ export default function EventsScreen() {
             <Text style={styles.subtitle}>Upcoming hockey events</Text>
           </View>
           {isAuthenticated && (
-            <TouchableOpacity
-              style={styles.createButton}
-              onPress={() => {
-                if (canCreateContent(user?.role)) {
-                  router.push('/events/create');
-                } else {
-                  showOrganizerAccessDialog();
-                }
-              }}
-            >
-              <Text style={styles.createButtonText}>+</Text>
-            </TouchableOpacity>
+            <View style={styles.headerActions}>
+              <TouchableOpacity style={styles.subsButton} onPress={() => router.push('/subs')}>
+                <Text style={styles.subsButtonText}>Subs</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.createButton}
+                onPress={() => {
+                  if (canCreateContent(user?.role)) {
+                    router.push('/events/create');
+                  } else {
+                    showOrganizerAccessDialog();
+                  }
+                }}
+              >
+                <Text style={styles.createButtonText}>+</Text>
+              </TouchableOpacity>
+            </View>
           )}
         </View>
       </View>
@@ -272,6 +277,25 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     marginTop: 2,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  subsButton: {
+    height: 44,
+    paddingHorizontal: spacing.md,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  subsButtonText: {
+    color: colors.primary.teal,
+    fontSize: 15,
+    fontWeight: '600',
+  },
   createButton: {
     width: 44,
     height: 44,
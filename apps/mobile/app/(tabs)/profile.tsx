@@ -22,6 +22,8 @@ import {
   buildPositionsFromState,
   createStateFromPositions,
   TrophyCase,
+  GameHistory,
+  AvailabilityEditor,
 } from '../../components';
 import { colors, spacing, radius } from '../../theme';
 
@@ -287,6 +289,13 @@ export default function ProfileScreen() {
           )}
         </FormSection>
 
+        <FormSection title="My Games">
+          <GameHistory
+            loadPage={userService.getMyGames}
+            onGamePress={(event) => router.push(`/events/${event.id}`)}
+          />
+        </FormSection>
+
         <FormSection title="Basic Information">
           <FormInput
             label="First Name"
@@ -325,6 +334,10 @@ export default function ProfileScreen() {
           />
         </FormSection>
 
+        <FormSection title="Availability" hint="Organizers see this when they need players">
+          <AvailabilityEditor />
+        </FormSection>
+
         <FormSection title="Payment">
           <FormInput
             label="Venmo Handle"
@@ -356,6 +369,22 @@ export default function ProfileScreen() {
           <Text style={styles.changePasswordButtonText}>Change Password</Text>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={styles.changePasswordButton}
+          onPress={() => router.push('/settings/notifications')}
+          disabled={saving}
+        >
+          <Text style={styles.changePasswordButtonText}>Notification Settings</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.changePasswordButton}
+          onPress={() => router.push('/settings/calendar')}
+          disabled={saving}
+        >
+          <Text style={styles.changePasswordButtonText}>Calendar Sync</Text>
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={styles.logoutButton}
           onPress={handleLogout}
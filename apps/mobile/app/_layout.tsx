@@ -11,6 +11,7 @@ import { colors } from '../theme';
 import { useAuthStore } from '../stores/authStore';
 import { useCelebrationStore } from '../stores/celebrationStore';
 import { useWaiverStore } from '../stores/waiverStore';
+import { useNotificationStore } from '../stores/notificationStore';
 import { BadgeCelebrationModal, EnvBanner, WaiverAcceptanceModal } from '../components';
 import { useBadgeCelebration } from '../hooks';
 import {
@@ -27,7 +28,7 @@ import {
   addDeepLinkListener,
   handleDeepLink,
 } from '../utils/deepLinks';
-import { useOtaUpdates } from '../hooks';
+import { useOtaUpdates, useOfflineSync } from '../hooks';
 
 // Disable font scaling globally to prevent text overflow on devices with large font settings
 // This must be set before any components render
@@ -52,6 +53,7 @@ function RootLayoutContent() {
   const fetchPendingWaivers = useWaiverStore((state) => state.fetchPendingWaivers);
 
   useOtaUpdates();
+  useOfflineSync();
   const notificationListener = useRef<Notifications.Subscription | null>(null);
   const responseListener = useRef<Notifications.Subscription | null>(null);
   const lastHandledNotificationId = useRef<string | null>(null);
@@ -63,7 +65,8 @@ function RootLayoutContent() {
     initializeApiClient({
       baseURL: getApiUrl(),
       onAuthError: () => {
-        // When 401 occurs, update Zustand store to trigger redirect to login
+        // Called once the refresh token is rejected too (plain 401s are
+        // refreshed and replayed by the client) - redirect to login
         console.log('🔒 Auth error (401) - logging out user');
         useAuthStore.setState({
           user: null,
@@ -128,6 +131,9 @@ function RootLayoutContent() {
       }
     });
 
+    // Foreground pushes follow the user's preferences (muted types, quiet hours)
+    useNotificationStore.getState().fetchPreferences();
+
     // Handle cold start: app launched by tapping notification while killed
     // Catches the notification that addNotificationResponseReceivedListener misses
     getLastNotificationResponse().then((response) => {
@@ -145,7 +151,7 @@ function RootLayoutContent() {
 
       // Delay navigation to ensure app is fully mounted
       setTimeout(() => {
-        handleNotificationData(data);
+        handleNotificationData(data, response.actionIdentifier);
       }, 500);
     });
 
@@ -162,7 +168,7 @@ function RootLayoutContent() {
 
       lastHandledNotificationId.current = notificationId;
       const data = response.notification.request.content.data;
-      handleNotificationData(data);
+      handleNotificationData(data, response.actionIdentifier);
     });
 
     return () => {
@@ -307,6 +313,10 @@ function RootLayoutContent() {
         <Stack.Screen name="events/create" options={{ title: 'Create Event', presentation: 'modal' }} />
         <Stack.Screen name="events/edit" options={{ title: 'Edit Event' }} />
         <Stack.Screen name="events/[id]/index" options={{ title: 'Event' }} />
+        <Stack.Screen name="events/[id]/invitations" options={{ title: 'Invitations' }} />
+        <Stack.Screen name="invite/[token]" options={{ title: 'Invite' }} />
+        <Stack.Screen name="subs/index" options={{ title: 'Sub Requests' }} />
+        <Stack.Screen name="transfers/index" options={{ title: 'Spot Transfers' }} />
         {/* Organization screens */}
         <Stack.Screen name="organizations/create" options={{ title: 'Create Organization', presentation: 'modal' }} />
         <Stack.Screen name="organizations/[id]" options={{ title: 'Organization' }} />
@@ -24,6 +24,13 @@ export default function AdminLayout() {
           headerShown: true,
         }}
       />
+      <Stack.Screen
+        name="badges"
+        options={{
+          title: 'Badges',
+          headerShown: true,
+        }}
+      />
     </Stack>
   );
 }
@@ -0,0 +1,878 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Switch,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import { adminService, userService } from '@bhmhockey/api-client';
+import {
+  BADGE_CATEGORIES,
+  BADGE_RULE_TRIGGER_LABELS,
+  describeBadgeRule,
+  formatBadgeContext,
+  validateBadgeRule,
+  validateBadgeTypeRequest,
+} from '@bhmhockey/shared';
+import type {
+  AdminUserSearchResult,
+  BadgeCategory,
+  BadgeContext,
+  BadgeRuleDto,
+  BadgeRuleTrigger,
+  BadgeTypeDto,
+  UserBadgeDto,
+} from '@bhmhockey/shared';
+import { useAuthStore } from '../../stores/authStore';
+import { useCelebrationStore } from '../../stores/celebrationStore';
+import { BadgeIcon, BADGE_ICON_NAMES } from '../../components';
+import { colors, spacing, radius } from '../../theme';
+
+type ContextKind = 'tournament' | 'generic';
+
+const RULE_TRIGGERS = Object.keys(BADGE_RULE_TRIGGER_LABELS) as BadgeRuleTrigger[];
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.message || error?.response?.data?.message || fallback;
+
+export default function AdminBadgesScreen() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+
+  const [badgeTypes, setBadgeTypes] = useState<BadgeTypeDto[]>([]);
+  const [rules, setRules] = useState<BadgeRuleDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // New badge type form
+  const [showTypeForm, setShowTypeForm] = useState(false);
+  const [typeCode, setTypeCode] = useState('');
+  const [typeName, setTypeName] = useState('');
+  const [typeDescription, setTypeDescription] = useState('');
+  const [typeIcon, setTypeIcon] = useState('');
+  const [typeCategory, setTypeCategory] = useState<BadgeCategory>('achievement');
+  const [isCreatingType, setIsCreatingType] = useState(false);
+
+  // Award / revoke
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<AdminUserSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [selectedUser, setSelectedUser] = useState<AdminUserSearchResult | null>(null);
+  const [userBadges, setUserBadges] = useState<UserBadgeDto[]>([]);
+  const [isLoadingUserBadges, setIsLoadingUserBadges] = useState(false);
+  const [awardTypeId, setAwardTypeId] = useState<string | null>(null);
+  const [contextKind, setContextKind] = useState<ContextKind>('tournament');
+  const [tournamentName, setTournamentName] = useState('');
+  const [tournamentYear, setTournamentYear] = useState(String(new Date().getFullYear()));
+  const [contextDescription, setContextDescription] = useState('');
+  const [isAwarding, setIsAwarding] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  // New rule form
+  const [ruleTypeId, setRuleTypeId] = useState<string | null>(null);
+  const [ruleTrigger, setRuleTrigger] = useState<BadgeRuleTrigger>('TournamentPlacement');
+  const [ruleThreshold, setRuleThreshold] = useState('1');
+  const [isCreatingRule, setIsCreatingRule] = useState(false);
+  const [busyRuleId, setBusyRuleId] = useState<string | null>(null);
+
+  // Redirect if not admin, and load badge types and rules
+  useFocusEffect(
+    useCallback(() => {
+      if (user?.role !== 'Admin') {
+        router.replace('/(tabs)/profile');
+        return;
+      }
+
+      Promise.all([adminService.getBadgeTypes(), adminService.getBadgeRules()])
+        .then(([types, loadedRules]) => {
+          setBadgeTypes(types);
+          setRules(loadedRules);
+        })
+        .catch((error) => Alert.alert('Error', getErrorMessage(error, 'Failed to load badges')))
+        .finally(() => setIsLoading(false));
+    }, [user, router])
+  );
+
+  // The admin may have just earned a badge themselves - run the normal celebration flow
+  const checkOwnBadges = (userId?: string) => {
+    if (!userId || userId === user?.id) {
+      useCelebrationStore.getState().fetchUncelebrated();
+    }
+  };
+
+  const resetTypeForm = () => {
+    setShowTypeForm(false);
+    setTypeCode('');
+    setTypeName('');
+    setTypeDescription('');
+    setTypeIcon('');
+    setTypeCategory('achievement');
+  };
+
+  const handleCreateType = async () => {
+    const request = {
+      code: typeCode.trim(),
+      name: typeName.trim(),
+      description: typeDescription.trim(),
+      iconName: typeIcon,
+      category: typeCategory,
+    };
+    const errors = validateBadgeTypeRequest(request, badgeTypes.map((t) => t.code));
+    if (errors.length > 0) {
+      Alert.alert('Check Badge Type', errors.join('\n'));
+      return;
+    }
+
+    try {
+      setIsCreatingType(true);
+      const created = await adminService.createBadgeType(request);
+      setBadgeTypes((prev) => [...prev, created]);
+      resetTypeForm();
+    } catch (error: any) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to create badge type'));
+    } finally {
+      setIsCreatingType(false);
+    }
+  };
+
+  const handleSearch = async () => {
+    if (searchQuery.length < 2) {
+      Alert.alert('Error', 'Please enter at least 2 characters to search');
+      return;
+    }
+
+    try {
+      setIsSearching(true);
+      const results = await adminService.searchUsers(searchQuery);
+      setSearchResults(results);
+      if (results.length === 0) {
+        Alert.alert('No Results', 'No users found matching that search');
+      }
+    } catch (error: any) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to search users'));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleSelectUser = async (selected: AdminUserSearchResult) => {
+    setSelectedUser(selected);
+    setSearchResults([]);
+    try {
+      setIsLoadingUserBadges(true);
+      setUserBadges(await userService.getUserBadges(selected.id));
+    } catch (error: any) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to load badges'));
+    } finally {
+      setIsLoadingUserBadges(false);
+    }
+  };
+
+  const handleAward = async () => {
+    if (!selectedUser || !awardTypeId) {
+      Alert.alert('Award Badge', 'Pick a badge to award.');
+      return;
+    }
+
+    let context: BadgeContext;
+    if (contextKind === 'tournament') {
+      const year = Number(tournamentYear);
+      if (!tournamentName.trim() || !Number.isInteger(year) || year < 2000) {
+        Alert.alert('Award Badge', 'Enter the tournament name and year.');
+        return;
+      }
+      context = { tournamentName: tournamentName.trim(), year };
+    } else {
+      if (!contextDescription.trim()) {
+        Alert.alert('Award Badge', 'Enter a description.');
+        return;
+      }
+      context = { description: contextDescription.trim() };
+    }
+
+    try {
+      setIsAwarding(true);
+      const badge = await adminService.awardBadge({ userId: selectedUser.id, badgeTypeId: awardTypeId, context });
+      setUserBadges((prev) => [...prev, badge]);
+      setTournamentName('');
+      setContextDescription('');
+      Alert.alert('Badge Awarded', `${selectedUser.firstName} will see it next time they open the app.`);
+      checkOwnBadges(selectedUser.id);
+    } catch (error: any) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to award badge'));
+    } finally {
+      setIsAwarding(false);
+    }
+  };
+
+  const handleRevoke = (badge: UserBadgeDto) => {
+    Alert.alert(
+      'Revoke Badge',
+      `Remove ${badge.badgeType.name} from ${selectedUser?.firstName ?? 'this user'}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setRevokingId(badge.id);
+              await adminService.revokeBadge(badge.id);
+              setUserBadges((prev) => prev.filter((b) => b.id !== badge.id));
+            } catch (error: any) {
+              Alert.alert('Error', getErrorMessage(error, 'Failed to revoke badge'));
+            } finally {
+              setRevokingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCreateRule = async () => {
+    const request = { badgeTypeId: ruleTypeId ?? '', trigger: ruleTrigger, threshold: Number(ruleThreshold) };
+    const errors = validateBadgeRule(request);
+    if (errors.length > 0) {
+      Alert.alert('Check Rule', errors.join('\n'));
+      return;
+    }
+
+    try {
+      setIsCreatingRule(true);
+      const created = await adminService.createBadgeRule(request);
+      setRules((prev) => [...prev, created]);
+      setRuleTypeId(null);
+      setRuleThreshold('1');
+    } catch (error: any) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to create rule'));
+    } finally {
+      setIsCreatingRule(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: BadgeRuleDto, isActive: boolean) => {
+    try {
+      setBusyRuleId(rule.id);
+      const updated = await adminService.updateBadgeRule(rule.id, { isActive });
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? updated : r)));
+    } catch (error: any) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to update rule'));
+    } finally {
+      setBusyRuleId(null);
+    }
+  };
+
+  const handleApplyRule = (rule: BadgeRuleDto) => {
+    Alert.alert(
+      'Run Rule Now',
+      `Award ${rule.badgeType.name} to everyone who already qualifies (${describeBadgeRule(rule).toLowerCase()})?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Run',
+          onPress: async () => {
+            try {
+              setBusyRuleId(rule.id);
+              const result = await adminService.applyBadgeRule(rule.id);
+              Alert.alert(
+                'Rule Applied',
+                result.awardedCount === 0
+                  ? 'No new players qualified.'
+                  : `Awarded to ${result.awardedCount} ${result.awardedCount === 1 ? 'player' : 'players'}.`
+              );
+              checkOwnBadges();
+            } catch (error: any) {
+              Alert.alert('Error', getErrorMessage(error, 'Failed to run rule'));
+            } finally {
+              setBusyRuleId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDeleteRule = (rule: BadgeRuleDto) => {
+    Alert.alert('Delete Rule', 'Badges this rule already awarded are kept.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            setBusyRuleId(rule.id);
+            await adminService.deleteBadgeRule(rule.id);
+            setRules((prev) => prev.filter((r) => r.id !== rule.id));
+          } catch (error: any) {
+            Alert.alert('Error', getErrorMessage(error, 'Failed to delete rule'));
+          } finally {
+            setBusyRuleId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderBadgeTypeChips = (selectedId: string | null, onSelect: (id: string) => void) => (
+    <View style={styles.chipRow}>
+      {badgeTypes.map((type) => (
+        <TouchableOpacity
+          key={type.id}
+          style={[styles.chip, selectedId === type.id && styles.chipActive]}
+          onPress={() => onSelect(type.id)}
+        >
+          <BadgeIcon iconName={type.iconName} size={16} />
+          <Text style={[styles.chipText, selectedId === type.id && styles.chipTextActive]}>{type.name}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  if (user?.role !== 'Admin' || isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.primary.teal} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} keyboardShouldPersistTaps="handled">
+      <View style={styles.content}>
+        {/* Badge Types */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Badge Types</Text>
+            {!showTypeForm && (
+              <TouchableOpacity onPress={() => setShowTypeForm(true)}>
+                <Text style={styles.linkText}>+ New</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {badgeTypes.map((type) => (
+            <View key={type.id} style={styles.card}>
+              <BadgeIcon iconName={type.iconName} size={32} />
+              <View style={styles.cardInfo}>
+                <Text style={styles.cardTitle}>{type.name}</Text>
+                <Text style={styles.cardSubtitle}>
+                  {type.code} · {type.category}
+                </Text>
+                <Text style={styles.cardBody}>{type.description}</Text>
+              </View>
+            </View>
+          ))}
+
+          {showTypeForm && (
+            <View style={styles.formCard}>
+              <TextInput
+                style={styles.input}
+                placeholder="Code (e.g. iron_man)"
+                placeholderTextColor={colors.text.muted}
+                value={typeCode}
+                onChangeText={setTypeCode}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="Name"
+                placeholderTextColor={colors.text.muted}
+                value={typeName}
+                onChangeText={setTypeName}
+              />
+              <TextInput
+                style={styles.input}
+                placeholder="Description"
+                placeholderTextColor={colors.text.muted}
+                value={typeDescription}
+                onChangeText={setTypeDescription}
+              />
+              <Text style={styles.label}>Icon</Text>
+              <View style={styles.chipRow}>
+                {BADGE_ICON_NAMES.map((iconName) => (
+                  <TouchableOpacity
+                    key={iconName}
+                    style={[styles.iconChoice, typeIcon === iconName && styles.chipActive]}
+                    onPress={() => setTypeIcon(iconName)}
+                  >
+                    <BadgeIcon iconName={iconName} size={28} />
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <Text style={styles.label}>Category</Text>
+              <View style={styles.chipRow}>
+                {BADGE_CATEGORIES.map((category) => (
+                  <TouchableOpacity
+                    key={category}
+                    style={[styles.chip, typeCategory === category && styles.chipActive]}
+                    onPress={() => setTypeCategory(category)}
+                  >
+                    <Text style={[styles.chipText, typeCategory === category && styles.chipTextActive]}>
+                      {category}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.formActions}>
+                <TouchableOpacity style={styles.secondaryButton} onPress={resetTypeForm} disabled={isCreatingType}>
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.primaryButton, styles.formActionButton, isCreatingType && styles.buttonDisabled]}
+                  onPress={handleCreateType}
+                  disabled={isCreatingType}
+                >
+                  {isCreatingType ? (
+                    <ActivityIndicator size="small" color={colors.bg.darkest} />
+                  ) : (
+                    <Text style={styles.primaryButtonText}>Create</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </View>
+
+        {/* Award / Revoke */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Award Badges</Text>
+          <View style={styles.searchRow}>
+            <TextInput
+              style={[styles.input, styles.searchInput]}
+              placeholder="Search by name or email..."
+              placeholderTextColor={colors.text.muted}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              autoCapitalize="none"
+              autoCorrect={false}
+              onSubmitEditing={handleSearch}
+            />
+            <TouchableOpacity
+              style={[styles.primaryButton, styles.searchButton, isSearching && styles.buttonDisabled]}
+              onPress={handleSearch}
+              disabled={isSearching}
+            >
+              {isSearching ? (
+                <ActivityIndicator size="small" color={colors.bg.darkest} />
+              ) : (
+                <Text style={styles.primaryButtonText}>Search</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+
+          {searchResults.map((result) => (
+            <TouchableOpacity key={result.id} style={styles.resultRow} onPress={() => handleSelectUser(result)}>
+              <Text style={styles.cardTitle}>
+                {result.firstName} {result.lastName}
+              </Text>
+              <Text style={styles.cardSubtitle}>{result.email}</Text>
+            </TouchableOpacity>
+          ))}
+
+          {selectedUser && (
+            <View style={styles.formCard}>
+              <Text style={styles.cardTitle}>
+                {selectedUser.firstName} {selectedUser.lastName}
+              </Text>
+              <Text style={styles.cardSubtitle}>{selectedUser.email}</Text>
+
+              <Text style={styles.label}>Current Badges</Text>
+              {isLoadingUserBadges ? (
+                <ActivityIndicator size="small" color={colors.primary.teal} />
+              ) : userBadges.length === 0 ? (
+                <Text style={styles.emptyText}>No badges yet</Text>
+              ) : (
+                userBadges.map((badge) => (
+                  <View key={badge.id} style={styles.userBadgeRow}>
+                    <BadgeIcon iconName={badge.badgeType.iconName} size={24} />
+                    <View style={styles.cardInfo}>
+                      <Text style={styles.userBadgeName}>{badge.badgeType.name}</Text>
+                      {!!formatBadgeContext(badge.context) && (
+                        <Text style={styles.cardSubtitle}>{formatBadgeContext(badge.context)}</Text>
+                      )}
+                    </View>
+                    <TouchableOpacity
+                      style={[styles.revokeButton, revokingId === badge.id && styles.buttonDisabled]}
+                      onPress={() => handleRevoke(badge)}
+                      disabled={revokingId === badge.id}
+                    >
+                      <Text style={styles.revokeButtonText}>Revoke</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))
+              )}
+
+              <Text style={styles.label}>Badge to Award</Text>
+              {renderBadgeTypeChips(awardTypeId, setAwardTypeId)}
+
+              <Text style={styles.label}>Context</Text>
+              <View style={styles.chipRow}>
+                {(['tournament', 'generic'] as ContextKind[]).map((kind) => (
+                  <TouchableOpacity
+                    key={kind}
+                    style={[styles.chip, contextKind === kind && styles.chipActive]}
+                    onPress={() => setContextKind(kind)}
+                  >
+                    <Text style={[styles.chipText, contextKind === kind && styles.chipTextActive]}>
+                      {kind === 'tournament' ? 'Tournament' : 'Description'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {contextKind === 'tournament' ? (
+                <View style={styles.searchRow}>
+                  <TextInput
+                    style={[styles.input, styles.searchInput]}
+                    placeholder="Tournament name"
+                    placeholderTextColor={colors.text.muted}
+                    value={tournamentName}
+                    onChangeText={setTournamentName}
+                  />
+                  <TextInput
+                    style={[styles.input, styles.yearInput]}
+                    placeholder="Year"
+                    placeholderTextColor={colors.text.muted}
+                    value={tournamentYear}
+                    onChangeText={setTournamentYear}
+                    keyboardType="number-pad"
+                    maxLength={4}
+                  />
+                </View>
+              ) : (
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g. Original beta tester"
+                  placeholderTextColor={colors.text.muted}
+                  value={contextDescription}
+                  onChangeText={setContextDescription}
+                />
+              )}
+
+              <TouchableOpacity
+                style={[styles.primaryButton, isAwarding && styles.buttonDisabled]}
+                onPress={handleAward}
+                disabled={isAwarding}
+              >
+                {isAwarding ? (
+                  <ActivityIndicator size="small" color={colors.bg.darkest} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Award Badge</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        {/* Automatic Rules */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Automatic Rules</Text>
+          <Text style={styles.hintText}>
+            Active rules are checked when a tournament completes or a game is played.
+          </Text>
+
+          {rules.map((rule) => (
+            <View key={rule.id} style={styles.card}>
+              <BadgeIcon iconName={rule.badgeType.iconName} size={32} />
+              <View style={styles.cardInfo}>
+                <Text style={styles.cardTitle}>{rule.badgeType.name}</Text>
+                <Text style={styles.cardSubtitle}>{describeBadgeRule(rule)}</Text>
+                <View style={styles.ruleActions}>
+                  <TouchableOpacity onPress={() => handleApplyRule(rule)} disabled={busyRuleId === rule.id}>
+                    <Text style={styles.linkText}>Run Now</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => handleDeleteRule(rule)} disabled={busyRuleId === rule.id}>
+                    <Text style={styles.deleteText}>Delete</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+              <Switch
+                value={rule.isActive}
+                onValueChange={(value) => handleToggleRule(rule, value)}
+                disabled={busyRuleId === rule.id}
+                trackColor={{ false: colors.bg.elevated, true: colors.primary.teal }}
+              />
+            </View>
+          ))}
+
+          <View style={styles.formCard}>
+            <Text style={styles.label}>Badge</Text>
+            {renderBadgeTypeChips(ruleTypeId, setRuleTypeId)}
+            <Text style={styles.label}>When</Text>
+            <View style={styles.chipRow}>
+              {RULE_TRIGGERS.map((trigger) => (
+                <TouchableOpacity
+                  key={trigger}
+                  style={[styles.chip, ruleTrigger === trigger && styles.chipActive]}
+                  onPress={() => setRuleTrigger(trigger)}
+                >
+                  <Text style={[styles.chipText, ruleTrigger === trigger && styles.chipTextActive]}>
+                    {BADGE_RULE_TRIGGER_LABELS[trigger]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={styles.thresholdRow}>
+              <Text style={styles.label}>
+                {ruleTrigger === 'TournamentPlacement' ? 'Finish at or above place' : 'Games played'}
+              </Text>
+              <TextInput
+                style={[styles.input, styles.yearInput]}
+                value={ruleThreshold}
+                onChangeText={setRuleThreshold}
+                keyboardType="number-pad"
+                maxLength={4}
+              />
+            </View>
+            {Number(ruleThreshold) >= 1 && (
+              <Text style={styles.hintText}>
+                {describeBadgeRule({ trigger: ruleTrigger, threshold: Number(ruleThreshold) })}
+              </Text>
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, isCreatingRule && styles.buttonDisabled]}
+              onPress={handleCreateRule}
+              disabled={isCreatingRule}
+            >
+              {isCreatingRule ? (
+                <ActivityIndicator size="small" color={colors.bg.darkest} />
+              ) : (
+                <Text style={styles.primaryButtonText}>Add Rule</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg.darkest,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.bg.darkest,
+  },
+  content: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.xl,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginBottom: spacing.md,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  deleteText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.status.error,
+  },
+  hintText: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginBottom: spacing.sm,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  cardBody: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: spacing.xs,
+  },
+  formCard: {
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    gap: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    marginTop: spacing.sm,
+  },
+  label: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: spacing.xs,
+  },
+  input: {
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    fontSize: 16,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+  },
+  searchButton: {
+    paddingHorizontal: spacing.lg,
+  },
+  yearInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  thresholdRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  chipActive: {
+    borderColor: colors.primary.teal,
+    backgroundColor: colors.subtle.teal,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  chipTextActive: {
+    color: colors.primary.teal,
+    fontWeight: '600',
+  },
+  iconChoice: {
+    padding: spacing.xs,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    backgroundColor: colors.bg.elevated,
+  },
+  resultRow: {
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    marginTop: spacing.sm,
+  },
+  userBadgeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  userBadgeName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  revokeButton: {
+    borderWidth: 1,
+    borderColor: colors.status.error,
+    borderRadius: radius.md,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  revokeButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.status.error,
+  },
+  ruleActions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginTop: spacing.xs,
+  },
+  formActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  primaryButton: {
+    backgroundColor: colors.primary.teal,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: colors.bg.darkest,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  formActionButton: {
+    flex: 1,
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  secondaryButtonText: {
+    color: colors.text.secondary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -185,6 +185,14 @@ export default function AdminScreen() {
           </View>
         )}
 
+        {/* Badge Administration */}
+        <TouchableOpacity
+          style={styles.badgesButton}
+          onPress={() => router.push('/admin/badges')}
+        >
+          <Text style={styles.badgesButtonText}>Manage Badges</Text>
+        </TouchableOpacity>
+
         {/* Search Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Search User</Text>
@@ -356,6 +364,20 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     marginTop: spacing.xs,
   },
+  badgesButton: {
+    backgroundColor: colors.bg.dark,
+    borderWidth: 1,
+    borderColor: colors.primary.purple,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  badgesButtonText: {
+    color: colors.primary.purple,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   section: {
     marginBottom: spacing.lg,
   },
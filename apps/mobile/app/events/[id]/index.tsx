@@ -11,11 +11,13 @@ import {
 } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { useLocalSearchParams, useRouter, useFocusEffect, Stack } from 'expo-router';
-import { useEventStore } from '../../../stores/eventStore';
+import { useEventStore, getErrorMessage } from '../../../stores/eventStore';
 import { useAuthStore } from '../../../stores/authStore';
 import { useOrganizationStore } from '../../../stores/organizationStore';
 import { useWaiverStore } from '../../../stores/waiverStore';
+import { useOfflineStore } from '../../../stores/offlineStore';
 import { openVenmoPayment } from '../../../utils/venmo';
+import { shareIcsFile } from '../../../utils/calendarExport';
 import {
   SegmentedControl,
   EventInfoTab,
@@ -23,24 +25,30 @@ import {
   EventChatTab,
   RegistrationFooter,
   WaiverAcceptanceModal,
+  OfflineBanner,
+  TransferSpotModal,
 } from '../../../components';
 import type { TabKey } from '../../../components';
 import { colors, spacing } from '../../../theme';
+import { eventService, subRequestService, registrationTransferService } from '@bhmhockey/api-client';
+import { buildIcsCalendar, eventToCalendarEntry, isLateCancellation } from '@bhmhockey/shared';
 import type { Position, RegistrationResultDto, WaiverSignatureDetails } from '@bhmhockey/shared';
 
 export default function EventDetailScreen() {
-  const { id } = useLocalSearchParams<{ id: string }>();
+  const { id, tab } = useLocalSearchParams<{ id: string; tab?: TabKey }>();
   const router = useRouter();
   const { isAuthenticated, user } = useAuthStore();
   const [selectedTab, setSelectedTab] = useState<TabKey>('info');
   const [isProcessing, setIsProcessing] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [waiverModalVisible, setWaiverModalVisible] = useState(false);
+  const [transferModalVisible, setTransferModalVisible] = useState(false);
   const orgWaiver = useOrganizationStore((state) => state.waiver);
   const fetchWaiver = useOrganizationStore((state) => state.fetchWaiver);
 
   const {
     selectedEvent,
+    selectedEventCachedAt,
     isLoading,
     error,
     fetchEventById,
@@ -50,6 +58,8 @@ export default function EventDetailScreen() {
     clearError,
     markPayment,
     cancelEvent,
+    acceptWaitlistOffer,
+    declineWaitlistOffer,
   } = useEventStore();
 
   useFocusEffect(
@@ -71,7 +81,10 @@ export default function EventDetailScreen() {
     // Determine default tab based on user's relationship to event
     let defaultTab: TabKey = 'info';
 
-    if (selectedEvent.canManage) {
+    if (tab === 'chat') {
+      // Opened from a chat mention
+      defaultTab = 'chat';
+    } else if (selectedEvent.canManage) {
       // Organizers default to roster
       defaultTab = 'roster';
     } else if (selectedEvent.isRegistered || selectedEvent.amIWaitlisted) {
@@ -108,11 +121,22 @@ export default function EventDetailScreen() {
       ? Object.keys(positions).filter((k) => positions[k as keyof typeof positions]).length
       : 0;
 
+    // register() resolves null without an error when the request was queued offline
+    const hasQueuedOfflineWrite = () =>
+      useOfflineStore
+        .getState()
+        .queue.some((write) => write.kind === 'registerForEvent' && write.eventId === id);
+
     const showResultMessage = (
       result: RegistrationResultDto | null,
       position: string
     ) => {
-      if (!result) return;
+      if (!result) {
+        if (hasQueuedOfflineWrite()) {
+          Alert.alert('Saved Offline', "You're offline. Your registration will be sent when you reconnect.");
+        }
+        return;
+      }
       if (result.status === 'Waitlisted') {
         // Server message is payment-aware: pay-now vs don't-pay-yet
         const title = result.payEligible ? 'Please Send Payment' : 'Added to Waitlist';
@@ -251,9 +275,16 @@ export default function EventDetailScreen() {
 
     const isWaitlisted = selectedEvent?.amIWaitlisted;
     const title = isWaitlisted ? 'Leave Waitlist' : 'Cancel Registration';
+    // Rostered players dropping out inside the org's window get a late cancel on their record
+    const isLate =
+      !isWaitlisted &&
+      !!selectedEvent &&
+      isLateCancellation(selectedEvent.eventDate, selectedEvent.lateCancelWindowHours);
     const message = isWaitlisted
       ? 'Are you sure you want to leave the waitlist?'
-      : 'Are you sure you want to cancel your registration?';
+      : isLate
+        ? 'The game is coming up soon, so this will count as a late cancellation on your reliability score.\n\nAre you sure you want to cancel your registration?'
+        : 'Are you sure you want to cancel your registration?';
     const successMessage = isWaitlisted
       ? 'You have been removed from the waitlist.'
       : 'Your registration has been cancelled.';
@@ -265,9 +296,14 @@ export default function EventDetailScreen() {
         style: 'destructive',
         onPress: async () => {
           setIsProcessing(true);
+          const queueBefore = useOfflineStore.getState().queue;
           try {
             const success = await cancelRegistration(id);
-            if (success) Alert.alert('Done', successMessage);
+            if (success) {
+              Alert.alert('Done', successMessage);
+            } else if (useOfflineStore.getState().queue !== queueBefore) {
+              Alert.alert('Saved Offline', "You're offline. Your cancellation will be sent when you reconnect.");
+            }
           } finally {
             setIsProcessing(false);
           }
@@ -276,6 +312,119 @@ export default function EventDetailScreen() {
     ]);
   };
 
+  const handleRequestSub = () => {
+    if (!id || !selectedEvent) return;
+
+    const subRequestId = selectedEvent.mySubRequestId;
+    if (subRequestId) {
+      Alert.alert('Cancel Sub Request', 'You will keep your spot.', [
+        { text: 'No', style: 'cancel' },
+        {
+          text: 'Cancel Request',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await subRequestService.cancelSubRequest(subRequestId);
+              await fetchEventById(id);
+            } catch (error) {
+              Alert.alert('Error', getErrorMessage(error, 'Failed to cancel sub request'));
+            }
+          },
+        },
+      ]);
+      return;
+    }
+
+    const isPaid = selectedEvent.myPaymentStatus === 'Verified' || selectedEvent.myPaymentStatus === 'MarkedPaid';
+    const paymentMessage =
+      selectedEvent.cost > 0
+        ? isPaid
+          ? ' Since you already paid, they will pay you back directly.'
+          : ' They will owe the organizer for the spot.'
+        : '';
+    Alert.alert(
+      'Find a Sub',
+      `Players who match your position and skill level will be notified. The first to accept takes your spot.${paymentMessage}\n\nYou stay registered until then.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Post Request',
+          onPress: async () => {
+            try {
+              await subRequestService.createSubRequest({ eventId: id });
+              await fetchEventById(id);
+              Alert.alert('Sub Request Posted', "We'll let you know when someone takes your spot.");
+            } catch (error) {
+              Alert.alert('Error', getErrorMessage(error, 'Failed to post sub request'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleTransferSpot = () => {
+    if (!id || !selectedEvent) return;
+
+    const transferId = selectedEvent.myTransferId;
+    if (!transferId) {
+      setTransferModalVisible(true);
+      return;
+    }
+
+    Alert.alert('Cancel Transfer', 'You will keep your spot.', [
+      { text: 'No', style: 'cancel' },
+      {
+        text: 'Cancel Transfer',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await registrationTransferService.cancelTransfer(transferId);
+            await fetchEventById(id);
+          } catch (error) {
+            Alert.alert('Error', getErrorMessage(error, 'Failed to cancel transfer'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleManageInvitations = () => {
+    if (!id) return;
+    router.push(`/events/${id}/invitations`);
+  };
+
+  const handleDeclineInvitation = () => {
+    if (!id) return;
+    Alert.alert('Decline Invitation', "The organizer will see you can't make it. You can still register later.", [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Decline',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await eventService.declineInvitation(id);
+            await fetchEventById(id);
+          } catch (error) {
+            Alert.alert('Error', getErrorMessage(error, 'Failed to decline invitation'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleAddToCalendar = async () => {
+    if (!selectedEvent) return;
+    try {
+      await shareIcsFile(
+        `game-${selectedEvent.id}.ics`,
+        buildIcsCalendar([eventToCalendarEntry(selectedEvent)])
+      );
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to export calendar file'));
+    }
+  };
+
   const handlePayWithVenmo = async () => {
     if (!selectedEvent || !selectedEvent.creatorVenmoHandle) {
       Alert.alert('Error', 'Organizer has not set up their Venmo handle.');
@@ -316,6 +465,43 @@ export default function EventDetailScreen() {
     );
   };
 
+  const handleAcceptOffer = async () => {
+    if (!id || !selectedEvent) return;
+
+    setIsProcessing(true);
+    const success = await acceptWaitlistOffer(id);
+    setIsProcessing(false);
+    if (success) {
+      Alert.alert(
+        "You're In!",
+        selectedEvent.cost > 0
+          ? 'You are on the roster. Pay the organizer before your payment deadline to keep your spot.'
+          : 'You are on the roster.'
+      );
+    } else {
+      Alert.alert('Offer Unavailable', useEventStore.getState().error || 'This offer has expired.');
+      await fetchEventById(id);
+    }
+  };
+
+  const handleDeclineOffer = () => {
+    if (!id) return;
+
+    Alert.alert('Pass on This Spot?', 'The spot goes to the next player. You stay on the waitlist.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Pass',
+        style: 'destructive',
+        onPress: async () => {
+          const success = await declineWaitlistOffer(id);
+          if (!success) {
+            Alert.alert('Error', 'Failed to decline the offer. Please try again.');
+          }
+        },
+      },
+    ]);
+  };
+
   const handleDeleteEvent = () => {
     if (!id) return;
 
@@ -369,6 +555,13 @@ export default function EventDetailScreen() {
             onPayWithVenmo={handlePayWithVenmo}
             onMarkAsPaid={handleMarkAsPaid}
             onCancelRegistration={handleCancelRegistration}
+            onRequestSub={handleRequestSub}
+            onTransferSpot={handleTransferSpot}
+            onAcceptOffer={handleAcceptOffer}
+            onDeclineOffer={handleDeclineOffer}
+            onAddToCalendar={handleAddToCalendar}
+            onManageInvitations={handleManageInvitations}
+            onDeclineInvitation={handleDeclineInvitation}
             onRefresh={handleRefresh}
             isRefreshing={isRefreshing}
           />
@@ -406,6 +599,7 @@ export default function EventDetailScreen() {
             : undefined,
         }}
       />
+      <OfflineBanner cachedAt={selectedEventCachedAt} />
 
       {isLoading || !selectedEvent ? (
         <View style={styles.centered}>
@@ -444,6 +638,15 @@ export default function EventDetailScreen() {
               onClose={() => setWaiverModalVisible(false)}
             />
           )}
+
+          <TransferSpotModal
+            visible={transferModalVisible}
+            onClose={() => setTransferModalVisible(false)}
+            eventId={id}
+            cost={selectedEvent.cost}
+            paymentStatus={selectedEvent.myPaymentStatus}
+            onTransferCreated={() => fetchEventById(id)}
+          />
         </View>
       )}
     </GestureHandlerRootView>
@@ -0,0 +1,526 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useFocusEffect, useLocalSearchParams } from 'expo-router';
+import { eventService } from '@bhmhockey/api-client';
+import {
+  INVITATIONS,
+  getInviteLinkState,
+  sortInvitations,
+  summarizeInvitations,
+} from '@bhmhockey/shared';
+import type {
+  EventDto,
+  EventInvitationDto,
+  EventInvitationStatus,
+  EventInviteLinkDto,
+  EventInviteLinkState,
+  UserSearchResultDto,
+} from '@bhmhockey/shared';
+import { useEventStore, getErrorMessage } from '../../../stores/eventStore';
+import { Badge, SectionHeader, EmptyState } from '../../../components';
+import type { BadgeVariant } from '../../../components';
+import { shareEventInviteLink } from '../../../utils/share';
+import { colors, spacing, radius } from '../../../theme';
+
+const STATUS_BADGES: Record<EventInvitationStatus, BadgeVariant> = {
+  Pending: 'warning',
+  Accepted: 'green',
+  Declined: 'error',
+};
+
+const LINK_BADGES: Record<EventInviteLinkState, BadgeVariant> = {
+  Active: 'teal',
+  Expired: 'default',
+  Revoked: 'error',
+};
+
+const formatExpiry = (hours: number) => (hours < 48 ? `${hours} hours` : `${hours / 24} days`);
+
+export default function EventInvitationsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const searchUsersForEvent = useEventStore((state) => state.searchUsersForEvent);
+
+  const [event, setEvent] = useState<EventDto | null>(null);
+  const [invitations, setInvitations] = useState<EventInvitationDto[]>([]);
+  const [links, setLinks] = useState<EventInviteLinkDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserSearchResultDto[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const loadInvitations = async () => {
+    if (!id) return;
+    try {
+      const [eventData, invitationData, linkData] = await Promise.all([
+        eventService.getById(id),
+        eventService.getInvitations(id),
+        eventService.getInviteLinks(id),
+      ]);
+      setEvent(eventData);
+      setInvitations(sortInvitations(invitationData));
+      setLinks(linkData);
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to load invitations'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadInvitations();
+    }, [id])
+  );
+
+  // Debounced player search (same endpoint the Add Player modal uses)
+  useEffect(() => {
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+    if (!id || query.trim().length < 2) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    searchTimeoutRef.current = setTimeout(async () => {
+      const searchResults = await searchUsersForEvent(id, query);
+      setResults(searchResults);
+      setIsSearching(false);
+    }, 300);
+
+    return () => {
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
+    };
+  }, [query, id, searchUsersForEvent]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadInvitations();
+    setIsRefreshing(false);
+  };
+
+  const eventTitle = event?.name || event?.organizationName || 'a pickup game';
+  const invitedUserIds = new Set(invitations.map((invitation) => invitation.userId));
+
+  const handleInviteUser = async (user: UserSearchResultDto) => {
+    if (!id) return;
+    setProcessingId(user.id);
+    try {
+      await eventService.invitePlayers(id, [user.id]);
+      setQuery('');
+      await loadInvitations();
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to send invitation'));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleInviteMembers = () => {
+    if (!id || !event?.organizationName) return;
+    Alert.alert(
+      'Invite All Members',
+      `Every subscriber of ${event.organizationName} will get an invitation. Members already invited are skipped.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Invite Members',
+          onPress: async () => {
+            setProcessingId('members');
+            try {
+              const result = await eventService.inviteOrganizationMembers(id);
+              Alert.alert('Invitations Sent', `Invited ${result.invitedCount} member${result.invitedCount === 1 ? '' : 's'}.`);
+              await loadInvitations();
+            } catch (error) {
+              Alert.alert('Error', getErrorMessage(error, 'Failed to invite members'));
+            } finally {
+              setProcessingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const createLink = async (expiresInHours?: number) => {
+    if (!id) return;
+    setProcessingId('new-link');
+    try {
+      const link = await eventService.createInviteLink(id, { expiresInHours });
+      setLinks((current) => [link, ...current]);
+      await shareEventInviteLink(eventTitle, link.url);
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to create invite link'));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleCreateLink = () => {
+    Alert.alert('Create Invite Link', 'Anyone with the link can see this game and sign up. How long should it work?', [
+      ...INVITATIONS.LINK_EXPIRY_OPTIONS_HOURS.map((hours) => ({
+        text: formatExpiry(hours),
+        onPress: () => createLink(hours),
+      })),
+      { text: 'Until the game', onPress: () => createLink() },
+      { text: 'Cancel', style: 'cancel' as const },
+    ]);
+  };
+
+  const handleRevokeLink = (link: EventInviteLinkDto) => {
+    if (!id) return;
+    Alert.alert('Revoke Link', 'The link will stop working. Players it already invited stay invited.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Revoke',
+        style: 'destructive',
+        onPress: async () => {
+          setProcessingId(link.id);
+          try {
+            await eventService.revokeInviteLink(id, link.id);
+            await loadInvitations();
+          } catch (error) {
+            Alert.alert('Error', getErrorMessage(error, 'Failed to revoke link'));
+          } finally {
+            setProcessingId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleRevokeInvitation = (invitation: EventInvitationDto) => {
+    if (!id) return;
+    Alert.alert(
+      'Withdraw Invitation',
+      `${invitation.firstName} ${invitation.lastName} will no longer see this game.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Withdraw',
+          style: 'destructive',
+          onPress: async () => {
+            setProcessingId(invitation.id);
+            try {
+              await eventService.revokeInvitation(id, invitation.id);
+              await loadInvitations();
+            } catch (error) {
+              Alert.alert('Error', getErrorMessage(error, 'Failed to withdraw invitation'));
+            } finally {
+              setProcessingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary.teal} />
+      </View>
+    );
+  }
+
+  const summary = summarizeInvitations(invitations);
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+          tintColor={colors.primary.teal}
+          colors={[colors.primary.teal]}
+          progressBackgroundColor={colors.bg.dark}
+        />
+      }
+    >
+      {/* Summary */}
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{summary.Pending}</Text>
+          <Text style={styles.summaryLabel}>Pending</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{summary.Accepted}</Text>
+          <Text style={styles.summaryLabel}>Accepted</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{summary.Declined}</Text>
+          <Text style={styles.summaryLabel}>Declined</Text>
+        </View>
+      </View>
+
+      {/* Invite players */}
+      <SectionHeader title="Invite Players" />
+      <TextInput
+        style={styles.searchInput}
+        placeholder="Search by name or email"
+        placeholderTextColor={colors.text.muted}
+        value={query}
+        onChangeText={setQuery}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {isSearching && <ActivityIndicator color={colors.primary.teal} style={styles.searchSpinner} />}
+      {results.map((user) => {
+        const alreadyInvited = invitedUserIds.has(user.id);
+        return (
+          <View key={user.id} style={styles.row}>
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle}>
+                {user.firstName} {user.lastName}
+              </Text>
+              <Text style={styles.rowSubtitle}>{user.email}</Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.smallButton, (alreadyInvited || processingId === user.id) && styles.buttonDisabled]}
+              onPress={() => handleInviteUser(user)}
+              disabled={alreadyInvited || processingId === user.id}
+            >
+              <Text style={styles.smallButtonText}>{alreadyInvited ? 'Invited' : 'Invite'}</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      {event?.organizationId && (
+        <TouchableOpacity
+          style={[styles.secondaryButton, processingId === 'members' && styles.buttonDisabled]}
+          onPress={handleInviteMembers}
+          disabled={processingId === 'members'}
+        >
+          <Text style={styles.secondaryButtonText}>Invite All {event.organizationName} Members</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Invite links */}
+      <SectionHeader title="Invite Links" action="New Link" onActionPress={handleCreateLink} />
+      {links.length === 0 ? (
+        <Text style={styles.hint}>Share a link in a group chat so players can invite themselves.</Text>
+      ) : (
+        links.map((link) => {
+          const state = getInviteLinkState(link);
+          return (
+            <View key={link.id} style={styles.row}>
+              <View style={styles.rowInfo}>
+                <View style={styles.rowTitleLine}>
+                  <Badge variant={LINK_BADGES[state]}>{state}</Badge>
+                  <Text style={styles.rowSubtitle}>
+                    {link.useCount} use{link.useCount === 1 ? '' : 's'}
+                  </Text>
+                </View>
+                <Text style={styles.rowSubtitle}>
+                  {link.expiresAt
+                    ? `${state === 'Expired' ? 'Expired' : 'Expires'} ${new Date(link.expiresAt).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}`
+                    : 'Works until the game starts'}
+                </Text>
+              </View>
+              {state === 'Active' && (
+                <View style={styles.rowActions}>
+                  <TouchableOpacity
+                    style={styles.smallButton}
+                    onPress={() => shareEventInviteLink(eventTitle, link.url)}
+                  >
+                    <Text style={styles.smallButtonText}>Share</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.revokeButton, processingId === link.id && styles.buttonDisabled]}
+                    onPress={() => handleRevokeLink(link)}
+                    disabled={processingId === link.id}
+                  >
+                    <Text style={styles.revokeButtonText}>Revoke</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          );
+        })
+      )}
+
+      {/* Invitations */}
+      <SectionHeader title="Invited" count={invitations.length} />
+      {invitations.length === 0 ? (
+        <EmptyState icon="mail-outline" message="No one has been invited yet" />
+      ) : (
+        invitations.map((invitation) => (
+          <View key={invitation.id} style={styles.row}>
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle}>
+                {invitation.firstName} {invitation.lastName}
+              </Text>
+              <Text style={styles.rowSubtitle}>
+                {invitation.source === 'Link'
+                  ? 'Joined via link'
+                  : invitation.source === 'OrganizationMembers'
+                    ? 'Organization member'
+                    : 'Invited directly'}
+              </Text>
+            </View>
+            <Badge variant={STATUS_BADGES[invitation.status]}>{invitation.status}</Badge>
+            {invitation.status === 'Pending' && (
+              <TouchableOpacity
+                style={[styles.revokeButton, processingId === invitation.id && styles.buttonDisabled]}
+                onPress={() => handleRevokeInvitation(invitation)}
+                disabled={processingId === invitation.id}
+              >
+                <Text style={styles.revokeButtonText}>Withdraw</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg.darkest,
+  },
+  content: {
+    padding: spacing.md,
+    paddingBottom: spacing.xxl,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.bg.darkest,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  searchInput: {
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    fontSize: 16,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    marginBottom: spacing.sm,
+  },
+  searchSpinner: {
+    marginVertical: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  rowInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitleLine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  rowSubtitle: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  rowActions: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  smallButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.md,
+    backgroundColor: colors.primary.teal,
+  },
+  smallButtonText: {
+    color: colors.bg.darkest,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  revokeButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  revokeButtonText: {
+    color: colors.status.error,
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  secondaryButton: {
+    backgroundColor: colors.bg.hover,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  secondaryButtonText: {
+    color: colors.text.secondary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 14,
+    color: colors.text.muted,
+    marginBottom: spacing.lg,
+  },
+});
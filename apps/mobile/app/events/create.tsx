@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { Alert } from 'react-native';
 import { useRouter, Stack } from 'expo-router';
+import { generateSeriesDates } from '@bhmhockey/shared';
 import { useEventStore } from '../../stores/eventStore';
 import { useOrganizationStore } from '../../stores/organizationStore';
 import { EventForm, EventFormData } from '../../components';
@@ -8,7 +9,7 @@ import { colors } from '../../theme';
 
 export default function CreateEventScreen() {
   const router = useRouter();
-  const { createEvent, isCreating } = useEventStore();
+  const { createEvent, createEventSeries, isCreating } = useEventStore();
   const { myOrganizations, fetchMyOrganizations } = useOrganizationStore();
 
   // Fetch user's organizations on mount
@@ -17,11 +18,10 @@ export default function CreateEventScreen() {
   }, []);
 
   const handleSubmit = async (data: EventFormData): Promise<boolean> => {
-    const result = await createEvent({
+    const fields = {
       organizationId: data.organizationId,
       name: data.name,
       description: data.description,
-      eventDate: data.eventDate,
       duration: data.duration,
       venue: data.venue,
       maxPlayers: data.maxPlayers,
@@ -31,7 +31,26 @@ export default function CreateEventScreen() {
       applyAutoRoster: data.applyAutoRoster,
       groupMeLink: data.groupMeLink || undefined,
       showWaitlistBeforePublish: data.showWaitlistBeforePublish,
-    });
+    };
+
+    // Repeating event - create every game in one request
+    if (data.recurrence) {
+      const series = await createEventSeries({
+        ...fields,
+        recurrence: data.recurrence,
+        eventDates: generateSeriesDates(data.recurrence).map((date) => date.toISOString()),
+      });
+
+      if (series) {
+        Alert.alert('Success', `Created ${series.events.length} games!`, [
+          { text: 'OK', onPress: () => router.back() }
+        ]);
+        return true;
+      }
+      return false;
+    }
+
+    const result = await createEvent({ ...fields, eventDate: data.eventDate });
 
     if (result) {
       Alert.alert('Success', 'Event created successfully!', [
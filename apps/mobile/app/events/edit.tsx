@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { View, Text, Alert, ActivityIndicator, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
 import { useRouter, useLocalSearchParams, Stack } from 'expo-router';
 import { eventService } from '@bhmhockey/api-client';
-import type { EventDto } from '@bhmhockey/shared';
+import type { EventDto, SeriesEditScope } from '@bhmhockey/shared';
 import { EventForm, EventFormData } from '../../components';
 import { useEventStore } from '../../stores/eventStore';
 import { colors, spacing, radius } from '../../theme';
@@ -36,9 +36,27 @@ export default function EditEventScreen() {
     }
   };
 
+  // Series games ask whether the edit applies to later games too
+  const chooseSeriesEditScope = (): Promise<SeriesEditScope | null> =>
+    new Promise((resolve) => {
+      Alert.alert(
+        'Edit Recurring Game',
+        'Apply these changes to this game only, or to this and all future games in the series?',
+        [
+          { text: 'Cancel', style: 'cancel', onPress: () => resolve(null) },
+          { text: 'This Game Only', onPress: () => resolve('ThisEvent') },
+          { text: 'This and Future Games', onPress: () => resolve('ThisAndFuture') },
+        ],
+        { cancelable: true, onDismiss: () => resolve(null) }
+      );
+    });
+
   const handleSubmit = async (data: EventFormData): Promise<boolean> => {
     if (!id) return false;
 
+    const applyTo = event?.seriesId ? await chooseSeriesEditScope() : undefined;
+    if (applyTo === null) return false;
+
     setIsSaving(true);
     try {
       await eventService.update(id, {
@@ -54,9 +72,13 @@ export default function EditEventScreen() {
         // '' clears the event's own link (falls back to org); a value sets the override
         groupMeLink: data.groupMeLink,
         showWaitlistBeforePublish: data.showWaitlistBeforePublish,
+        applyTo,
       });
 
-      Alert.alert('Success', 'Event updated successfully!', [
+      const successMessage = applyTo === 'ThisAndFuture'
+        ? 'This and all future games were updated!'
+        : 'Event updated successfully!';
+      Alert.alert('Success', successMessage, [
         { text: 'OK', onPress: () => router.back() }
       ]);
       return true;
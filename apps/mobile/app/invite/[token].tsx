@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { eventService } from '@bhmhockey/api-client';
+import { getErrorMessage } from '../../stores/eventStore';
+import { colors, spacing, radius } from '../../theme';
+
+/**
+ * Landing screen for shared invite links (bhmhockey://invite/{token}).
+ * Redeeming creates the player's invitation, then we hand off to the event.
+ */
+export default function InviteLinkScreen() {
+  const { token } = useLocalSearchParams<{ token: string }>();
+  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    const redeem = async () => {
+      try {
+        const event = await eventService.redeemInviteLink(token);
+        router.replace(`/events/${event.id}`);
+      } catch (err) {
+        setError(getErrorMessage(err, 'Failed to open invite link'));
+      }
+    };
+    redeem();
+  }, [token]);
+
+  if (error) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>Invite Unavailable</Text>
+        <Text style={styles.message}>{error}</Text>
+        <TouchableOpacity style={styles.button} onPress={() => router.replace('/(tabs)')}>
+          <Text style={styles.buttonText}>Go Home</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ActivityIndicator size="large" color={colors.primary.teal} />
+      <Text style={styles.message}>Opening your invite...</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+    backgroundColor: colors.bg.darkest,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  message: {
+    fontSize: 15,
+    color: colors.text.muted,
+    textAlign: 'center',
+    marginTop: spacing.md,
+  },
+  button: {
+    backgroundColor: colors.primary.teal,
+    borderRadius: radius.lg,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.xl,
+    marginTop: spacing.lg,
+  },
+  buttonText: {
+    color: colors.bg.darkest,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
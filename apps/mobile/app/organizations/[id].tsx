@@ -7,6 +7,7 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   Alert,
+  Linking,
 } from 'react-native';
 import { useLocalSearchParams, useRouter, Stack, useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
@@ -14,17 +15,24 @@ import { organizationService } from '@bhmhockey/api-client';
 import { useOrganizationStore } from '../../stores/organizationStore';
 import { useAuthStore } from '../../stores/authStore';
 import { useWaiverStore } from '../../stores/waiverStore';
-import { Badge, SkillLevelBadges, BadgeIconsRow, MemberDetailModal } from '../../components';
+import { Badge, SkillLevelBadges, BadgeIconsRow, MemberDetailModal, AnnouncementCard } from '../../components';
 import { colors, spacing, radius } from '../../theme';
 import { shareOrganizationInvite } from '../../utils/share';
 import type { Organization, OrganizationMember } from '@bhmhockey/shared';
 
+// Announcements shown before "Show all"
+const ANNOUNCEMENT_PREVIEW_COUNT = 3;
+
 export default function OrganizationDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
   const { user } = useAuthStore();
 
   const { subscribe, unsubscribe, deleteOrganization } = useOrganizationStore();
+  const storedAnnouncements = useOrganizationStore((state) => state.announcements);
+  const announcementsOrgId = useOrganizationStore((state) => state.announcementsOrgId);
+  const announcements = announcementsOrgId === id ? storedAnnouncements : [];
+  const fetchAnnouncements = useOrganizationStore((state) => state.fetchAnnouncements);
 
   const [organization, setOrganization] = useState<Organization | null>(null);
   const [members, setMembers] = useState<OrganizationMember[]>([]);
@@ -34,6 +42,7 @@ export default function OrganizationDetailScreen() {
   const [showMembers, setShowMembers] = useState(true);
   const [selectedMember, setSelectedMember] = useState<OrganizationMember | null>(null);
   const [showMemberDetail, setShowMemberDetail] = useState(false);
+  const [showAllAnnouncements, setShowAllAnnouncements] = useState(false);
 
   useFocusEffect(
     useCallback(() => {
@@ -52,6 +61,7 @@ export default function OrganizationDetailScreen() {
       // Load members for all subscribers (not just admins)
       if (org.isSubscribed || org.isAdmin) {
         loadMembers();
+        fetchAnnouncements(id);
       }
     } catch (error) {
       Alert.alert('Error', 'Failed to load organization');
@@ -224,6 +234,20 @@ export default function OrganizationDetailScreen() {
     await shareOrganizationInvite(organization.id, organization.name);
   };
 
+  const handleOpenChat = async () => {
+    if (!organization) return;
+    if (organization.inAppChatEnabled === true) {
+      router.push(`/organizations/${organization.id}/chat`);
+      return;
+    }
+    if (!organization.groupMeLink) return;
+    try {
+      await Linking.openURL(organization.groupMeLink);
+    } catch (error) {
+      Alert.alert('Error', 'Could not open the GroupMe link.');
+    }
+  };
+
   const handleDeleteOrganization = () => {
     if (!id || !organization) return;
 
@@ -259,6 +283,10 @@ export default function OrganizationDetailScreen() {
   const waiverAcceptedCount = members.filter((m) => m.hasAcceptedCurrentWaiver === true).length;
   const waiverNotAcceptedCount = members.filter((m) => m.hasAcceptedCurrentWaiver === false).length;
 
+  const visibleAnnouncements = showAllAnnouncements
+    ? announcements
+    : announcements.slice(0, ANNOUNCEMENT_PREVIEW_COUNT);
+
   return (
     <>
       <Stack.Screen
@@ -317,6 +345,34 @@ export default function OrganizationDetailScreen() {
           </View>
         </View>
 
+        {/* Announcements Feed - Visible to all subscribers */}
+        {(organization.isSubscribed || isAdmin) && (announcements.length > 0 || isAdmin) && (
+          <View style={styles.announcementsSection}>
+            <View style={styles.announcementsHeader}>
+              <Text style={styles.membersTitle}>Announcements</Text>
+              {isAdmin && (
+                <TouchableOpacity onPress={() => router.push(`/organizations/${id}/announcements`)}>
+                  <Text style={styles.announcementsLink}>Manage</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+            {announcements.length === 0 ? (
+              <Text style={styles.noMembers}>No announcements yet</Text>
+            ) : (
+              visibleAnnouncements.map((announcement) => (
+                <AnnouncementCard key={announcement.id} announcement={announcement} showTarget={isAdmin} />
+              ))
+            )}
+            {announcements.length > ANNOUNCEMENT_PREVIEW_COUNT && (
+              <TouchableOpacity onPress={() => setShowAllAnnouncements(!showAllAnnouncements)}>
+                <Text style={styles.announcementsLink}>
+                  {showAllAnnouncements ? 'Show less' : `Show all (${announcements.length})`}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
         {/* Members List - Visible to all subscribers */}
         {(organization.isSubscribed || isAdmin) && (
           <View style={styles.membersSection}>
@@ -441,6 +497,17 @@ export default function OrganizationDetailScreen() {
           </TouchableOpacity>
         )}
 
+        {/* Announcements Button - visible to admins only */}
+        {isAdmin && (
+          <TouchableOpacity
+            style={styles.settingsButton}
+            onPress={() => router.push(`/organizations/${id}/announcements`)}
+          >
+            <Ionicons name="megaphone-outline" size={20} color={colors.text.secondary} />
+            <Text style={styles.settingsButtonText}>Announcements</Text>
+          </TouchableOpacity>
+        )}
+
         {/* Auto-Roster Button - visible to admins only */}
         {isAdmin && (
           <TouchableOpacity
@@ -452,6 +519,16 @@ export default function OrganizationDetailScreen() {
           </TouchableOpacity>
         )}
 
+        {/* Chat Button - visible to all members; GroupMe unless the org turned on in-app chat */}
+        {(organization.isSubscribed || isAdmin) &&
+          (organization.inAppChatEnabled === true || !!organization.groupMeLink) && (
+          <TouchableOpacity style={styles.shareButton} onPress={handleOpenChat}>
+            <Text style={styles.shareButtonText}>
+              {organization.inAppChatEnabled === true ? 'Chat' : 'Open GroupMe'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Share Invite Button - visible to all members */}
         {(organization.isSubscribed || isAdmin) && (
           <TouchableOpacity
@@ -479,6 +556,7 @@ export default function OrganizationDetailScreen() {
       <MemberDetailModal
         visible={showMemberDetail}
         member={selectedMember}
+        organizationId={id}
         isAdmin={isAdmin}
         isCurrentUser={selectedMember?.id === user?.id}
         onClose={() => {
@@ -576,6 +654,22 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     marginTop: spacing.xs,
   },
+  announcementsSection: {
+    backgroundColor: colors.bg.dark,
+    marginTop: spacing.sm,
+    padding: spacing.md,
+  },
+  announcementsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  announcementsLink: {
+    color: colors.primary.teal,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   membersSection: {
     backgroundColor: colors.bg.dark,
     marginTop: spacing.sm,
@@ -0,0 +1,482 @@
+import { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  TextInput,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+} from 'react-native';
+import { useLocalSearchParams, Stack, useFocusEffect } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { eventService } from '@bhmhockey/api-client';
+import { formatDateTime } from '@bhmhockey/shared';
+import type { EventDto, OrganizationAnnouncementDto, OrganizationAnnouncementTarget } from '@bhmhockey/shared';
+import { useOrganizationStore } from '../../../stores/organizationStore';
+import { AnnouncementCard, EmptyState } from '../../../components';
+import { colors, spacing, radius } from '../../../theme';
+
+// Target options for announcements
+const TARGET_OPTIONS: { label: string; value: OrganizationAnnouncementTarget }[] = [
+  { label: 'Everyone', value: 'All' },
+  { label: 'Admins Only', value: 'Admins' },
+  { label: 'Auto-Roster', value: 'AutoRoster' },
+  { label: 'Game Players', value: 'EventRegistrants' },
+];
+
+export default function OrganizationAnnouncementsScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const announcements = useOrganizationStore((state) => state.announcements);
+  const isLoadingAnnouncements = useOrganizationStore((state) => state.isLoadingAnnouncements);
+  const fetchAnnouncements = useOrganizationStore((state) => state.fetchAnnouncements);
+  const createAnnouncement = useOrganizationStore((state) => state.createAnnouncement);
+  const updateAnnouncement = useOrganizationStore((state) => state.updateAnnouncement);
+  const deleteAnnouncement = useOrganizationStore((state) => state.deleteAnnouncement);
+
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [showCompose, setShowCompose] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+  const [selectedTarget, setSelectedTarget] = useState<OrganizationAnnouncementTarget>('All');
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+  const [upcomingEvents, setUpcomingEvents] = useState<EventDto[] | null>(null);
+  const [isSending, setIsSending] = useState(false);
+
+  // Load announcements when screen is focused
+  useFocusEffect(
+    useCallback(() => {
+      if (id) fetchAnnouncements(id);
+    }, [id, fetchAnnouncements])
+  );
+
+  const handleRefresh = useCallback(async () => {
+    if (!id) return;
+    setIsRefreshing(true);
+    await fetchAnnouncements(id);
+    setIsRefreshing(false);
+  }, [id, fetchAnnouncements]);
+
+  const resetCompose = () => {
+    setTitle('');
+    setBody('');
+    setSelectedTarget('All');
+    setSelectedEventId(null);
+    setEditingId(null);
+    setShowCompose(false);
+  };
+
+  const handleSelectTarget = async (target: OrganizationAnnouncementTarget) => {
+    setSelectedTarget(target);
+    if (target !== 'EventRegistrants' || upcomingEvents || !id) return;
+    try {
+      setUpcomingEvents(await eventService.getAll(id));
+    } catch {
+      setUpcomingEvents([]);
+    }
+  };
+
+  const handleEdit = (announcement: OrganizationAnnouncementDto) => {
+    setEditingId(announcement.id);
+    setTitle(announcement.title);
+    setBody(announcement.body);
+    setShowCompose(true);
+  };
+
+  const handleSend = async () => {
+    if (!id || !title.trim() || !body.trim()) {
+      Alert.alert('Error', 'Please enter a title and message');
+      return;
+    }
+    if (!editingId && selectedTarget === 'EventRegistrants' && !selectedEventId) {
+      Alert.alert('Error', 'Choose which game\'s players should get this announcement');
+      return;
+    }
+
+    setIsSending(true);
+    const success = editingId
+      ? await updateAnnouncement(id, editingId, { title: title.trim(), body: body.trim() })
+      : await createAnnouncement(id, {
+          title: title.trim(),
+          body: body.trim(),
+          target: selectedTarget,
+          targetEventId: selectedTarget === 'EventRegistrants' ? selectedEventId : null,
+        });
+    setIsSending(false);
+
+    if (success) {
+      Alert.alert('Success', editingId ? 'Announcement updated' : 'Announcement sent successfully');
+      resetCompose();
+    } else {
+      Alert.alert(
+        'Error',
+        useOrganizationStore.getState().error || (editingId ? 'Failed to update announcement' : 'Failed to send announcement')
+      );
+    }
+  };
+
+  const handleDelete = (announcementId: string) => {
+    Alert.alert(
+      'Delete Announcement',
+      'Are you sure you want to delete this announcement? It will be removed from the feed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            if (!id) return;
+            const success = await deleteAnnouncement(id, announcementId);
+            if (!success) {
+              Alert.alert('Error', 'Failed to delete announcement');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderItem = ({ item }: { item: OrganizationAnnouncementDto }) => (
+    <AnnouncementCard
+      announcement={item}
+      showTarget
+      onEdit={() => handleEdit(item)}
+      onDelete={() => handleDelete(item.id)}
+    />
+  );
+
+  if (isLoadingAnnouncements && announcements.length === 0) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: 'Announcements' }} />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary.teal} />
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <Stack.Screen
+        options={{
+          title: 'Announcements',
+          headerBackTitle: 'Back',
+          headerStyle: { backgroundColor: colors.bg.dark },
+          headerTintColor: colors.text.primary,
+        }}
+      />
+
+      {/* Compose Section */}
+      {showCompose ? (
+        <View style={styles.composeContainer}>
+          <View style={styles.composeHeader}>
+            <Text style={styles.composeTitle}>{editingId ? 'Edit Announcement' : 'New Announcement'}</Text>
+            <TouchableOpacity onPress={resetCompose}>
+              <Ionicons name="close" size={24} color={colors.text.secondary} />
+            </TouchableOpacity>
+          </View>
+
+          {editingId ? (
+            <Text style={styles.composeHint}>Edits update the feed without sending a new notification.</Text>
+          ) : (
+            <>
+              {/* Target Selector */}
+              <View style={styles.targetSelector}>
+                {TARGET_OPTIONS.map((option) => (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.targetOption,
+                      selectedTarget === option.value && styles.targetOptionSelected,
+                    ]}
+                    onPress={() => handleSelectTarget(option.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.targetOptionText,
+                        selectedTarget === option.value && styles.targetOptionTextSelected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {/* Event picker for Game Players */}
+              {selectedTarget === 'EventRegistrants' && (
+                <View style={styles.eventPicker}>
+                  {!upcomingEvents ? (
+                    <ActivityIndicator size="small" color={colors.primary.teal} />
+                  ) : upcomingEvents.length === 0 ? (
+                    <Text style={styles.composeHint}>No upcoming games to choose from.</Text>
+                  ) : (
+                    <ScrollView style={styles.eventList} nestedScrollEnabled>
+                      {upcomingEvents.map((event) => (
+                        <TouchableOpacity
+                          key={event.id}
+                          style={[styles.eventOption, selectedEventId === event.id && styles.targetOptionSelected]}
+                          onPress={() => setSelectedEventId(event.id)}
+                        >
+                          <Text
+                            style={[
+                              styles.eventOptionName,
+                              selectedEventId === event.id && styles.targetOptionTextSelected,
+                            ]}
+                            numberOfLines={1}
+                          >
+                            {event.name || 'Pickup Game'}
+                          </Text>
+                          <Text style={styles.eventOptionDate}>{formatDateTime(event.eventDate)}</Text>
+                        </TouchableOpacity>
+                      ))}
+                    </ScrollView>
+                  )}
+                </View>
+              )}
+            </>
+          )}
+
+          {/* Title Input */}
+          <TextInput
+            style={styles.titleInput}
+            placeholder="Title"
+            placeholderTextColor={colors.text.muted}
+            value={title}
+            onChangeText={setTitle}
+            maxLength={100}
+          />
+
+          {/* Body Input */}
+          <TextInput
+            style={styles.bodyInput}
+            placeholder="Write your announcement..."
+            placeholderTextColor={colors.text.muted}
+            value={body}
+            onChangeText={setBody}
+            multiline
+            numberOfLines={4}
+            maxLength={1000}
+            textAlignVertical="top"
+          />
+
+          {/* Send Button */}
+          <TouchableOpacity
+            style={[styles.sendButton, isSending && styles.sendButtonDisabled]}
+            onPress={handleSend}
+            disabled={isSending}
+          >
+            {isSending ? (
+              <ActivityIndicator size="small" color={colors.bg.darkest} />
+            ) : (
+              <>
+                <Ionicons name={editingId ? 'checkmark' : 'send'} size={18} color={colors.bg.darkest} />
+                <Text style={styles.sendButtonText}>{editingId ? 'Save Changes' : 'Send Announcement'}</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.composeButton} onPress={() => setShowCompose(true)}>
+          <Ionicons name="add" size={20} color={colors.bg.darkest} />
+          <Text style={styles.composeButtonText}>New Announcement</Text>
+        </TouchableOpacity>
+      )}
+
+      {/* Announcements List */}
+      <FlatList
+        data={announcements}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.primary.teal}
+            colors={[colors.primary.teal]}
+          />
+        }
+        ListEmptyComponent={
+          <EmptyState
+            icon="megaphone-outline"
+            title="No Announcements"
+            message="Post announcements to keep your members informed"
+          />
+        }
+      />
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg.darkest,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: spacing.md,
+    paddingTop: spacing.sm,
+    flexGrow: 1,
+  },
+
+  // Compose button (collapsed)
+  composeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary.teal,
+    margin: spacing.md,
+    marginBottom: 0,
+    padding: spacing.md,
+    borderRadius: radius.md,
+    gap: spacing.sm,
+  },
+  composeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.bg.darkest,
+  },
+
+  // Compose container (expanded)
+  composeContainer: {
+    backgroundColor: colors.bg.dark,
+    margin: spacing.md,
+    marginBottom: 0,
+    padding: spacing.md,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  composeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  composeTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  composeHint: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginBottom: spacing.md,
+  },
+
+  // Target selector
+  targetSelector: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  targetOption: {
+    flexBasis: '48%',
+    flexGrow: 1,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.bg.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    alignItems: 'center',
+  },
+  targetOptionSelected: {
+    backgroundColor: colors.subtle.teal,
+    borderColor: colors.primary.teal,
+  },
+  targetOptionText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.text.secondary,
+  },
+  targetOptionTextSelected: {
+    color: colors.primary.teal,
+  },
+
+  // Event picker
+  eventPicker: {
+    marginBottom: spacing.md,
+  },
+  eventList: {
+    maxHeight: 160,
+  },
+  eventOption: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.md,
+    backgroundColor: colors.bg.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    marginBottom: spacing.xs,
+  },
+  eventOptionName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  eventOptionDate: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+
+  // Input fields
+  titleInput: {
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    fontSize: 16,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  bodyInput: {
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    fontSize: 15,
+    color: colors.text.primary,
+    minHeight: 100,
+    marginBottom: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+
+  // Send button
+  sendButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary.teal,
+    padding: spacing.md,
+    borderRadius: radius.md,
+    gap: spacing.sm,
+  },
+  sendButtonDisabled: {
+    opacity: 0.6,
+  },
+  sendButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.bg.darkest,
+  },
+});
@@ -0,0 +1,120 @@
+import { useCallback, useState } from 'react';
+import { View, StyleSheet, ActivityIndicator, Alert, Linking } from 'react-native';
+import { useLocalSearchParams, useRouter, Stack, useFocusEffect } from 'expo-router';
+import { organizationService } from '@bhmhockey/api-client';
+import type { ChatParticipant, Organization } from '@bhmhockey/shared';
+import { useAuthStore } from '../../../stores/authStore';
+import { ChatThread, EmptyState } from '../../../components';
+import { colors } from '../../../theme';
+
+export default function OrganizationChatScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { user } = useAuthStore();
+
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [participants, setParticipants] = useState<ChatParticipant[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadOrganization();
+    }, [id])
+  );
+
+  const loadOrganization = async () => {
+    if (!id) return;
+
+    try {
+      const org = await organizationService.getById(id);
+      setOrganization(org);
+      if (org.isSubscribed || org.isAdmin) {
+        const members = await organizationService.getMembers(id);
+        setParticipants(members.map((m) => ({ userId: m.id, firstName: m.firstName, lastName: m.lastName })));
+      }
+    } catch (error) {
+      Alert.alert('Error', 'Failed to load organization chat');
+      router.back();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading || !organization || !id) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.primary.teal} />
+        </View>
+      );
+    }
+
+    if (!organization.isSubscribed && !organization.isAdmin) {
+      return (
+        <EmptyState
+          icon="chatbubbles-outline"
+          title="Members Only"
+          message={`Join ${organization.name} to see its chat.`}
+        />
+      );
+    }
+
+    // In-app chat not turned on - the GroupMe link is the fallback
+    if (organization.inAppChatEnabled !== true) {
+      const link = organization.groupMeLink;
+      return (
+        <EmptyState
+          icon="chatbubble-outline"
+          title="Chat Happens on GroupMe"
+          message={
+            link
+              ? `${organization.name} uses GroupMe instead of in-app chat.`
+              : `${organization.name} hasn't set up a chat yet.`
+          }
+          actionLabel={link ? 'Open GroupMe' : undefined}
+          onAction={
+            link
+              ? () => Linking.openURL(link).catch(() => Alert.alert('Error', 'Could not open the GroupMe link.'))
+              : undefined
+          }
+        />
+      );
+    }
+
+    return (
+      <ChatThread
+        threadType="Organization"
+        threadId={id}
+        currentUserId={user?.id}
+        participants={participants}
+        canModerate={organization.isAdmin}
+      />
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen
+        options={{
+          title: organization ? `${organization.name} Chat` : 'Chat',
+          headerBackTitle: 'Back',
+          headerStyle: { backgroundColor: colors.bg.dark },
+          headerTintColor: colors.text.primary,
+        }}
+      />
+      {renderContent()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg.darkest,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
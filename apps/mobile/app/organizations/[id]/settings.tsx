@@ -19,6 +19,7 @@ import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { Picker } from '@react-native-picker/picker';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { organizationService } from '@bhmhockey/api-client';
+import { RELIABILITY, WAITLIST_OFFERS } from '@bhmhockey/shared';
 import type { Organization, EventVisibility } from '@bhmhockey/shared';
 import { isValidGroupMeLink, GROUPME_LINK_ERROR } from '../../../utils/groupme';
 import { colors, spacing, radius } from '../../../theme';
@@ -59,6 +60,10 @@ export default function OrganizationSettingsScreen() {
   const [defaultVisibility, setDefaultVisibility] = useState<EventVisibility | null>(null);
   const [defaultShowWaitlistBeforePublish, setDefaultShowWaitlistBeforePublish] = useState(false);
   const [groupMeLink, setGroupMeLink] = useState('');
+  const [inAppChatEnabled, setInAppChatEnabled] = useState(false);
+  const [lateCancelWindowHours, setLateCancelWindowHours] = useState('');
+  const [useWaitlistOffers, setUseWaitlistOffers] = useState(false);
+  const [waitlistOfferWindowMinutes, setWaitlistOfferWindowMinutes] = useState('');
 
   // UI state
   const [showDayPicker, setShowDayPicker] = useState(false);
@@ -107,6 +112,10 @@ export default function OrganizationSettingsScreen() {
       setDefaultVisibility(org.defaultVisibility ?? null);
       setDefaultShowWaitlistBeforePublish(org.defaultShowWaitlistBeforePublish ?? false);
       setGroupMeLink(org.groupMeLink ?? '');
+      setInAppChatEnabled(org.inAppChatEnabled === true);
+      setLateCancelWindowHours(toStr(org.lateCancelWindowHours));
+      setUseWaitlistOffers(org.waitlistPromotionMode === 'Offer');
+      setWaitlistOfferWindowMinutes(toStr(org.waitlistOfferWindowMinutes));
     } catch (error) {
       Alert.alert('Error', 'Failed to load organization');
       router.back();
@@ -179,6 +188,31 @@ export default function OrganizationSettingsScreen() {
       return false;
     }
 
+    // Late cancel window validation (if provided)
+    if (lateCancelWindowHours.trim()) {
+      const hoursNum = parseInt(lateCancelWindowHours, 10);
+      if (isNaN(hoursNum) || hoursNum < 0 || hoursNum > RELIABILITY.MAX_LATE_CANCEL_WINDOW_HOURS) {
+        Alert.alert('Error', `Late cancel window must be between 0 and ${RELIABILITY.MAX_LATE_CANCEL_WINDOW_HOURS} hours`);
+        return false;
+      }
+    }
+
+    // Waitlist offer window validation (if provided)
+    if (useWaitlistOffers && waitlistOfferWindowMinutes.trim()) {
+      const minutesNum = parseInt(waitlistOfferWindowMinutes, 10);
+      if (
+        isNaN(minutesNum) ||
+        minutesNum < WAITLIST_OFFERS.MIN_WINDOW_MINUTES ||
+        minutesNum > WAITLIST_OFFERS.MAX_WINDOW_MINUTES
+      ) {
+        Alert.alert(
+          'Error',
+          `Offer window must be between ${WAITLIST_OFFERS.MIN_WINDOW_MINUTES} and ${WAITLIST_OFFERS.MAX_WINDOW_MINUTES} minutes`
+        );
+        return false;
+      }
+    }
+
     return true;
   };
 
@@ -207,6 +241,10 @@ export default function OrganizationSettingsScreen() {
         defaultShowWaitlistBeforePublish,
         // '' clears the org's link (backend stores null); a value sets it
         groupMeLink: groupMeLink.trim(),
+        inAppChatEnabled,
+        lateCancelWindowHours: parseIntOrNull(lateCancelWindowHours),
+        waitlistPromotionMode: useWaitlistOffers ? 'Offer' : 'Immediate',
+        waitlistOfferWindowMinutes: parseIntOrNull(waitlistOfferWindowMinutes),
       });
 
       Alert.alert('Success', 'Event defaults updated successfully', [
@@ -378,6 +416,25 @@ export default function OrganizationSettingsScreen() {
             />
           </View>
 
+          {/* In-App Chat */}
+          <View style={styles.field}>
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel} allowFontScaling={false}>
+                In-app chat
+              </Text>
+              <Switch
+                value={inAppChatEnabled}
+                onValueChange={setInAppChatEnabled}
+                trackColor={{ false: colors.bg.hover, true: colors.primary.teal }}
+                thumbColor={inAppChatEnabled ? colors.text.primary : colors.text.muted}
+              />
+            </View>
+            <Text style={styles.fieldHint} allowFontScaling={false}>
+              Members chat in the app, per game and org-wide. When off, players use the
+              GroupMe link below instead.
+            </Text>
+          </View>
+
           {/* GroupMe Link */}
           <View style={styles.field}>
             <Text style={styles.label}>GroupMe Link</Text>
@@ -399,6 +456,23 @@ export default function OrganizationSettingsScreen() {
             </Text>
           </View>
 
+          {/* Late Cancel Window */}
+          <View style={styles.field}>
+            <Text style={styles.label}>Late Cancel Window (hours)</Text>
+            <TextInput
+              style={styles.input}
+              value={lateCancelWindowHours}
+              onChangeText={setLateCancelWindowHours}
+              placeholder={`${RELIABILITY.DEFAULT_LATE_CANCEL_WINDOW_HOURS} (default)`}
+              placeholderTextColor={colors.text.muted}
+              keyboardType="number-pad"
+              inputAccessoryViewID={inputAccessoryViewID}
+            />
+            <Text style={styles.fieldHint} allowFontScaling={false}>
+              Rostered players who cancel this close to game time get a late cancel on their reliability score
+            </Text>
+          </View>
+
           {/* Visibility */}
           <View style={styles.field}>
             <Text style={styles.label}>Visibility</Text>
@@ -434,6 +508,44 @@ export default function OrganizationSettingsScreen() {
             </Text>
           </View>
 
+          {/* Waitlist Offers */}
+          <View style={styles.field}>
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel} allowFontScaling={false}>
+                Offer open spots to the waitlist
+              </Text>
+              <Switch
+                value={useWaitlistOffers}
+                onValueChange={setUseWaitlistOffers}
+                trackColor={{ false: colors.bg.hover, true: colors.primary.teal }}
+                thumbColor={useWaitlistOffers ? colors.text.primary : colors.text.muted}
+              />
+            </View>
+            <Text style={styles.fieldHint} allowFontScaling={false}>
+              Instead of promoting right away, the next waitlisted player gets a time-limited offer.
+              Expired or declined offers move to the next player, and spots left unpaid past the
+              payment deadline are offered again.
+            </Text>
+          </View>
+
+          {useWaitlistOffers && (
+            <View style={styles.field}>
+              <Text style={styles.label}>Offer Window (minutes)</Text>
+              <TextInput
+                style={styles.input}
+                value={waitlistOfferWindowMinutes}
+                onChangeText={setWaitlistOfferWindowMinutes}
+                placeholder={`${WAITLIST_OFFERS.DEFAULT_WINDOW_MINUTES} (default)`}
+                placeholderTextColor={colors.text.muted}
+                keyboardType="number-pad"
+                inputAccessoryViewID={inputAccessoryViewID}
+              />
+              <Text style={styles.fieldHint} allowFontScaling={false}>
+                How long each player has to claim a spot before it moves down the waitlist
+              </Text>
+            </View>
+          )}
+
           {/* Save Button */}
           <TouchableOpacity
             style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
@@ -24,6 +24,20 @@ export default function SettingsLayout() {
           headerShown: true,
         }}
       />
+      <Stack.Screen
+        name="notifications"
+        options={{
+          title: 'Notifications',
+          headerShown: true,
+        }}
+      />
+      <Stack.Screen
+        name="calendar"
+        options={{
+          title: 'Calendar Sync',
+          headerShown: true,
+        }}
+      />
     </Stack>
   );
 }
@@ -0,0 +1,239 @@
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+  Linking,
+} from 'react-native';
+import * as Clipboard from 'expo-clipboard';
+import { userService, eventService, tournamentService } from '@bhmhockey/api-client';
+import { buildMyGamesCalendar } from '@bhmhockey/shared';
+import type { CalendarFeedDto } from '@bhmhockey/shared';
+import { getErrorMessage } from '../../stores/eventStore';
+import { shareIcsFile } from '../../utils/calendarExport';
+import { colors, spacing, radius } from '../../theme';
+
+export default function CalendarSyncScreen() {
+  const [feed, setFeed] = useState<CalendarFeedDto | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isResetting, setIsResetting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    const loadFeed = async () => {
+      try {
+        setFeed(await userService.getCalendarFeed());
+      } catch (error) {
+        Alert.alert('Error', getErrorMessage(error, 'Failed to load your calendar feed'));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadFeed();
+  }, []);
+
+  const handleSubscribe = async () => {
+    if (!feed) return;
+    try {
+      await Linking.openURL(feed.webcalUrl);
+    } catch {
+      Alert.alert(
+        'No Calendar App',
+        'Copy the link and add it as a subscribed calendar in your calendar app instead.'
+      );
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    await Clipboard.setStringAsync(feed.url);
+    Alert.alert('Copied', 'Paste the link into your calendar app\'s "Add calendar from URL" option.');
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      'Reset Calendar Link',
+      'Calendars subscribed to the current link will stop updating. You will need to subscribe again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Reset Link',
+          style: 'destructive',
+          onPress: async () => {
+            setIsResetting(true);
+            try {
+              setFeed(await userService.resetCalendarFeed());
+            } catch (error) {
+              Alert.alert('Error', getErrorMessage(error, 'Failed to reset your calendar link'));
+            } finally {
+              setIsResetting(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const [registrations, matches] = await Promise.all([
+        eventService.getMyRegistrations(),
+        tournamentService.getMyUpcomingMatches(),
+      ]);
+      await shareIcsFile('bhm-hockey-games.ics', buildMyGamesCalendar(registrations, matches));
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to export your games'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary.teal} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Calendar Sync</Text>
+        <Text style={styles.subtitle}>
+          Subscribe once and your games and tournament matches show up in your phone's calendar.
+          Reschedules update automatically and cancelled games drop off.
+        </Text>
+      </View>
+
+      <View style={styles.form}>
+        {feed ? (
+          <>
+            <TouchableOpacity style={styles.submitButton} onPress={handleSubscribe}>
+              <Text style={styles.submitButtonText}>Subscribe in Calendar</Text>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.secondaryButton} onPress={handleCopy}>
+              <Text style={styles.secondaryButtonText}>Copy Feed Link</Text>
+            </TouchableOpacity>
+
+            <Text style={styles.hint}>
+              Your link is private. Anyone with it can see your upcoming games.
+            </Text>
+          </>
+        ) : (
+          <Text style={styles.hint}>Your calendar feed isn't available right now.</Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.secondaryButton, isExporting && styles.buttonDisabled]}
+          onPress={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <ActivityIndicator color={colors.text.secondary} />
+          ) : (
+            <Text style={styles.secondaryButtonText}>Export Upcoming Games (.ics)</Text>
+          )}
+        </TouchableOpacity>
+
+        {feed && (
+          <TouchableOpacity
+            style={[styles.resetButton, isResetting && styles.buttonDisabled]}
+            onPress={handleReset}
+            disabled={isResetting}
+          >
+            {isResetting ? (
+              <ActivityIndicator color={colors.status.error} />
+            ) : (
+              <Text style={styles.resetButtonText}>Reset Link</Text>
+            )}
+          </TouchableOpacity>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg.darkest,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.bg.darkest,
+  },
+  header: {
+    padding: spacing.lg,
+    backgroundColor: colors.bg.dark,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.text.muted,
+  },
+  form: {
+    padding: spacing.lg,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginTop: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  submitButton: {
+    backgroundColor: colors.primary.teal,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: colors.bg.darkest,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    backgroundColor: colors.bg.hover,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  secondaryButtonText: {
+    color: colors.text.secondary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  resetButton: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: colors.status.error,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.xl,
+  },
+  resetButtonText: {
+    color: colors.status.error,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,401 @@
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  ActivityIndicator,
+  Platform,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import {
+  NOTIFICATION_PREFERENCES,
+  NOTIFICATION_TYPE_LABELS,
+  formatTimeOfDay,
+  parseTimeOfDay,
+  setNotificationTypeEnabled,
+} from '@bhmhockey/shared';
+import type { NotificationPreferencesDto, NotificationType, QuietHours } from '@bhmhockey/shared';
+import { useNotificationStore } from '../../stores/notificationStore';
+import { colors, spacing, radius } from '../../theme';
+
+const DEFAULT_QUIET_HOURS = { start: '22:00', end: '07:00' };
+
+type QuietHoursField = 'start' | 'end';
+
+// "22:00" -> "10:00 PM"
+const formatClockTime = (time: string) => {
+  const minutes = parseTimeOfDay(time) ?? 0;
+  const date = new Date();
+  date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+};
+
+export default function NotificationPreferencesScreen() {
+  const router = useRouter();
+  const storedPreferences = useNotificationStore((state) => state.preferences);
+  const fetchPreferences = useNotificationStore((state) => state.fetchPreferences);
+  const updatePreferences = useNotificationStore((state) => state.updatePreferences);
+
+  const [draft, setDraft] = useState<NotificationPreferencesDto | null>(storedPreferences);
+  const [isLoading, setIsLoading] = useState(!storedPreferences);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingTime, setEditingTime] = useState<QuietHoursField | null>(null);
+
+  useEffect(() => {
+    fetchPreferences().finally(() => setIsLoading(false));
+  }, []);
+
+  // Pick up the fetched copy unless the user already started editing
+  useEffect(() => {
+    if (storedPreferences && (!draft || draft === storedPreferences)) {
+      setDraft(storedPreferences);
+    }
+  }, [storedPreferences]);
+
+  const toggleOrganizationType = (organizationId: string, type: NotificationType, enabled: boolean) => {
+    setDraft((current) =>
+      current && {
+        ...current,
+        organizations: current.organizations.map((org) =>
+          org.organizationId === organizationId
+            ? { ...org, disabledTypes: setNotificationTypeEnabled(org.disabledTypes, type, enabled) }
+            : org
+        ),
+      }
+    );
+  };
+
+  const toggleTournamentType = (tournamentId: string, type: NotificationType, enabled: boolean) => {
+    setDraft((current) =>
+      current && {
+        ...current,
+        tournaments: current.tournaments.map((tournament) =>
+          tournament.tournamentId === tournamentId
+            ? { ...tournament, disabledTypes: setNotificationTypeEnabled(tournament.disabledTypes, type, enabled) }
+            : tournament
+        ),
+      }
+    );
+  };
+
+  const toggleQuietHours = (enabled: boolean) => {
+    setDraft((current) => {
+      if (!current) return current;
+      const quietHours: QuietHours | null = enabled
+        ? { ...DEFAULT_QUIET_HOURS, timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone }
+        : null;
+      return { ...current, quietHours };
+    });
+  };
+
+  const handleTimeChange = (_: unknown, selectedTime?: Date) => {
+    const field = editingTime;
+    setEditingTime(null);
+    if (!selectedTime || !field) return;
+    const time = formatTimeOfDay(selectedTime.getHours() * 60 + selectedTime.getMinutes());
+    setDraft((current) =>
+      current?.quietHours ? { ...current, quietHours: { ...current.quietHours, [field]: time } } : current
+    );
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    const saved = await updatePreferences(draft);
+    setIsSaving(false);
+    if (saved) {
+      router.back();
+    } else {
+      Alert.alert('Error', 'Failed to save notification preferences');
+    }
+  };
+
+  if (isLoading || !draft) {
+    return (
+      <View style={styles.loadingContainer}>
+        {isLoading ? (
+          <ActivityIndicator size="large" color={colors.primary.teal} />
+        ) : (
+          <Text style={styles.hint}>Notification preferences aren't available right now.</Text>
+        )}
+      </View>
+    );
+  }
+
+  const pickerValue = () => {
+    const minutes = parseTimeOfDay((editingTime && draft.quietHours?.[editingTime]) || '') ?? 0;
+    const date = new Date();
+    date.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+    return date;
+  };
+
+  return (
+    <ScrollView style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Notifications</Text>
+        <Text style={styles.subtitle}>
+          Choose what each organization and tournament can notify you about. Offers, transfers and
+          other updates about your own spot always come through.
+        </Text>
+      </View>
+
+      <View style={styles.form}>
+        {/* Game reminders */}
+        <Text style={styles.sectionTitle}>Game Reminders</Text>
+        <Text style={styles.hint}>How long before a game should we remind you?</Text>
+        <View style={styles.chipRow}>
+          {NOTIFICATION_PREFERENCES.GAME_REMINDER_HOUR_OPTIONS.map((hours) => {
+            const selected = draft.gameReminderHours === hours;
+            return (
+              <TouchableOpacity
+                key={hours}
+                style={[styles.chip, selected && styles.chipSelected]}
+                onPress={() => setDraft({ ...draft, gameReminderHours: hours })}
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                  {hours === 1 ? '1 hour' : `${hours} hours`}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* Quiet hours */}
+        <View style={styles.switchRow}>
+          <View style={styles.switchInfo}>
+            <Text style={styles.sectionTitle}>Quiet Hours</Text>
+            <Text style={styles.hint}>Notifications arrive silently during this window.</Text>
+          </View>
+          <Switch
+            value={!!draft.quietHours}
+            onValueChange={toggleQuietHours}
+            trackColor={{ false: colors.bg.hover, true: colors.primary.teal }}
+            thumbColor={colors.text.primary}
+          />
+        </View>
+        {draft.quietHours && (
+          <View style={styles.timeRow}>
+            <TouchableOpacity style={styles.timeButton} onPress={() => setEditingTime('start')}>
+              <Text style={styles.timeLabel}>From</Text>
+              <Text style={styles.timeValue}>{formatClockTime(draft.quietHours.start)}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.timeButton} onPress={() => setEditingTime('end')}>
+              <Text style={styles.timeLabel}>Until</Text>
+              <Text style={styles.timeValue}>{formatClockTime(draft.quietHours.end)}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {editingTime && (
+          <DateTimePicker
+            value={pickerValue()}
+            mode="time"
+            display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+            onChange={handleTimeChange}
+          />
+        )}
+
+        {/* Organizations */}
+        <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Organizations</Text>
+        {draft.organizations.length === 0 ? (
+          <Text style={styles.hint}>Subscribe to an organization to manage its notifications.</Text>
+        ) : (
+          draft.organizations.map((org) => (
+            <View key={org.organizationId} style={styles.card}>
+              <Text style={styles.cardTitle}>{org.organizationName}</Text>
+              {NOTIFICATION_PREFERENCES.ORGANIZATION_TYPES.map((type) => (
+                <View key={type} style={styles.typeRow}>
+                  <Text style={styles.typeLabel}>{NOTIFICATION_TYPE_LABELS[type]}</Text>
+                  <Switch
+                    value={!org.disabledTypes.includes(type)}
+                    onValueChange={(enabled) => toggleOrganizationType(org.organizationId, type, enabled)}
+                    trackColor={{ false: colors.bg.hover, true: colors.primary.teal }}
+                    thumbColor={colors.text.primary}
+                  />
+                </View>
+              ))}
+            </View>
+          ))
+        )}
+
+        {/* Tournaments */}
+        {draft.tournaments.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, styles.sectionSpacing]}>Tournaments</Text>
+            {draft.tournaments.map((tournament) => (
+              <View key={tournament.tournamentId} style={styles.card}>
+                <Text style={styles.cardTitle}>{tournament.tournamentName}</Text>
+                {NOTIFICATION_PREFERENCES.TOURNAMENT_TYPES.map((type) => (
+                  <View key={type} style={styles.typeRow}>
+                    <Text style={styles.typeLabel}>{NOTIFICATION_TYPE_LABELS[type]}</Text>
+                    <Switch
+                      value={!tournament.disabledTypes.includes(type)}
+                      onValueChange={(enabled) => toggleTournamentType(tournament.tournamentId, type, enabled)}
+                      trackColor={{ false: colors.bg.hover, true: colors.primary.teal }}
+                      thumbColor={colors.text.primary}
+                    />
+                  </View>
+                ))}
+              </View>
+            ))}
+          </>
+        )}
+
+        <TouchableOpacity
+          style={[styles.submitButton, isSaving && styles.buttonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator color={colors.bg.darkest} />
+          ) : (
+            <Text style={styles.submitButtonText}>Save Preferences</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg.darkest,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+    backgroundColor: colors.bg.darkest,
+  },
+  header: {
+    padding: spacing.lg,
+    backgroundColor: colors.bg.dark,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.text.muted,
+  },
+  form: {
+    padding: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  sectionSpacing: {
+    marginTop: spacing.lg,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginBottom: spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.round,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+  },
+  chipSelected: {
+    backgroundColor: colors.subtle.teal,
+    borderColor: colors.primary.teal,
+  },
+  chipText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.primary.teal,
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  switchInfo: {
+    flex: 1,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  timeButton: {
+    flex: 1,
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  timeLabel: {
+    fontSize: 12,
+    color: colors.text.muted,
+  },
+  timeValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginTop: 2,
+  },
+  card: {
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  typeLabel: {
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  submitButton: {
+    backgroundColor: colors.primary.teal,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.lg,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: colors.bg.darkest,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,224 @@
+import { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { subRequestService } from '@bhmhockey/api-client';
+import { getMatchingSubRequests, getSubPaymentPlan } from '@bhmhockey/shared';
+import type { SubRequestDto } from '@bhmhockey/shared';
+import { useAuthStore } from '../../stores/authStore';
+import { getErrorMessage } from '../../stores/eventStore';
+import { SubRequestCard, SectionHeader, EmptyState } from '../../components';
+import { openVenmoPayment } from '../../utils/venmo';
+import { colors, spacing } from '../../theme';
+
+export default function SubRequestsScreen() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const [openRequests, setOpenRequests] = useState<SubRequestDto[]>([]);
+  const [myRequests, setMyRequests] = useState<SubRequestDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadRequests = async () => {
+    try {
+      const [open, mine] = await Promise.all([
+        subRequestService.getOpenSubRequests(),
+        subRequestService.getMySubRequests(),
+      ]);
+      setOpenRequests(user ? getMatchingSubRequests(open, user) : open);
+      setMyRequests(mine);
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to load sub requests'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadRequests();
+    }, [user?.id])
+  );
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadRequests();
+    setIsRefreshing(false);
+  };
+
+  const openGame = (request: SubRequestDto) => {
+    if (request.eventId) {
+      router.push(`/events/${request.eventId}`);
+    } else if (request.tournamentId && request.tournamentTeamId) {
+      router.push(`/tournaments/${request.tournamentId}/teams/${request.tournamentTeamId}`);
+    }
+  };
+
+  const acceptRequest = async (request: SubRequestDto) => {
+    setProcessingId(request.id);
+    try {
+      await subRequestService.acceptSubRequest(request.id);
+      const payment = getSubPaymentPlan(request);
+      const buttons: { text: string; onPress?: () => void }[] = [
+        { text: 'View Game', onPress: () => openGame(request) },
+      ];
+      if (payment.payee !== 'none' && payment.venmoHandle) {
+        buttons.unshift({
+          text: 'Pay with Venmo',
+          onPress: () => {
+            openVenmoPayment(payment.venmoHandle!, payment.amount, request.title, request.gameDate);
+          },
+        });
+      }
+      Alert.alert('The Spot Is Yours', `You're in for ${request.title}.`, buttons);
+      await loadRequests();
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Someone may have taken this spot already.'));
+      await loadRequests();
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleAccept = (request: SubRequestDto) => {
+    const payment = getSubPaymentPlan(request);
+    const paymentMessage =
+      payment.payee === 'requester'
+        ? `\n\n${request.requesterFirstName} already paid, so you'll pay them $${payment.amount.toFixed(2)} directly.`
+        : payment.payee === 'organizer'
+          ? `\n\nYou'll owe the organizer $${payment.amount.toFixed(2)}.`
+          : '';
+
+    Alert.alert(
+      'Take This Spot?',
+      `You'll take ${request.requesterFirstName}'s ${request.position.toLowerCase()} spot for ${request.title}.${paymentMessage}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Take Spot', onPress: () => acceptRequest(request) },
+      ]
+    );
+  };
+
+  const handleCancel = (request: SubRequestDto) => {
+    Alert.alert('Cancel Sub Request', 'You will keep your spot.', [
+      { text: 'No', style: 'cancel' },
+      {
+        text: 'Cancel Request',
+        style: 'destructive',
+        onPress: async () => {
+          setProcessingId(request.id);
+          try {
+            await subRequestService.cancelSubRequest(request.id);
+            await loadRequests();
+          } catch (error) {
+            Alert.alert('Error', getErrorMessage(error, 'Failed to cancel sub request'));
+          } finally {
+            setProcessingId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary.teal} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+          tintColor={colors.primary.teal}
+          colors={[colors.primary.teal]}
+          progressBackgroundColor={colors.bg.dark}
+        />
+      }
+    >
+      <Text style={styles.intro}>
+        Can't make a game? Post a sub request from the game or your tournament team. Players who
+        match your position and skill level are notified, and the first to accept takes your spot.
+      </Text>
+
+      <SectionHeader title="Open Spots For You" count={openRequests.length} />
+      {openRequests.length === 0 ? (
+        <EmptyState
+          icon="swap-horizontal-outline"
+          message="No open spots match your positions and skill levels right now"
+        />
+      ) : (
+        <View style={styles.list}>
+          {openRequests.map((request) => (
+            <SubRequestCard
+              key={request.id}
+              request={request}
+              actionLabel="Take This Spot"
+              onAction={() => handleAccept(request)}
+              isProcessing={processingId === request.id}
+              onPress={() => openGame(request)}
+            />
+          ))}
+        </View>
+      )}
+
+      {myRequests.length > 0 && (
+        <>
+          <SectionHeader title="My Requests" count={myRequests.length} />
+          <View style={styles.list}>
+            {myRequests.map((request) => (
+              <SubRequestCard
+                key={request.id}
+                request={request}
+                actionLabel="Cancel Request"
+                onAction={() => handleCancel(request)}
+                isProcessing={processingId === request.id}
+                onPress={() => openGame(request)}
+              />
+            ))}
+          </View>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg.darkest,
+  },
+  content: {
+    padding: spacing.md,
+    paddingBottom: spacing.xxl,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.bg.darkest,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.text.muted,
+    marginBottom: spacing.md,
+  },
+  list: {
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+});
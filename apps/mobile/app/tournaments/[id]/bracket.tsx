@@ -15,6 +15,7 @@ import { useShallow } from 'zustand/react/shallow';
 
 import { useTournamentStore } from '../../../stores/tournamentStore';
 import { useAuthStore } from '../../../stores/authStore';
+import { useLiveMatchUpdates } from '../../../hooks';
 import { BracketMatchBox, WinnersBracket, LosersBracket, GrandFinalSection } from '../../../components';
 import { colors, spacing, radius } from '../../../theme';
 import { groupMatchesByBracketType } from '../../../utils/bracketUtils';
@@ -74,6 +75,9 @@ export default function BracketScreen() {
     return myRegistration?.assignedTeamId || null;
   }, [user, myRegistration]);
 
+  // Follow scores as games are played
+  useLiveMatchUpdates(id);
+
   // Fetch tournament and matches on focus
   useFocusEffect(
     useCallback(() => {
@@ -154,11 +158,11 @@ export default function BracketScreen() {
   // Handle match press (for score entry)
   const handleMatchPress = useCallback(
     (match: TournamentMatchDto) => {
-      if (!currentTournament?.canManage) return;
+      if (!currentTournament?.canEnterScores) return;
       // Navigate to score entry modal/screen
       router.push(`/tournaments/${id}/match/${match.id}`);
     },
-    [currentTournament?.canManage, router, id]
+    [currentTournament?.canEnterScores, router, id]
   );
 
   // Render round selector chip
@@ -12,10 +12,11 @@ import {
 import { useLocalSearchParams, useRouter, useFocusEffect, Stack } from 'expo-router';
 import { useTournamentStore } from '../../../stores/tournamentStore';
 import { useAuthStore } from '../../../stores/authStore';
-import { TournamentStatusBadge, Badge, RegistrationStatusSheet } from '../../../components';
+import { getErrorMessage } from '../../../stores/eventStore';
+import { TournamentStatusBadge, Badge, RegistrationStatusSheet, TransferSpotModal } from '../../../components';
 import { colors, spacing, radius } from '../../../theme';
 import type { TournamentDto, TournamentFormat, TournamentTeamDto } from '@bhmhockey/shared';
-import { tournamentService } from '@bhmhockey/api-client';
+import { tournamentService, registrationTransferService } from '@bhmhockey/api-client';
 
 type TabKey = 'info' | 'bracket' | 'teams' | 'standings' | 'schedule';
 
@@ -350,6 +351,7 @@ export default function TournamentDetailScreen() {
   const [activeTab, setActiveTab] = useState<TabKey>('info');
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showStatusSheet, setShowStatusSheet] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
   const [userTeam, setUserTeam] = useState<TournamentTeamDto | null>(null);
   const [checkingTeams, setCheckingTeams] = useState(false);
 
@@ -433,6 +435,32 @@ export default function TournamentDetailScreen() {
     );
   };
 
+  const handleTransfer = () => {
+    if (!id || !myRegistration) return;
+
+    const transferId = myRegistration.pendingTransferId;
+    if (!transferId) {
+      setShowTransferModal(true);
+      return;
+    }
+
+    Alert.alert('Cancel Transfer', 'You will keep your spot.', [
+      { text: 'No', style: 'cancel' },
+      {
+        text: 'Cancel Transfer',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await registrationTransferService.cancelTransfer(transferId);
+            await fetchMyRegistration(id);
+          } catch (error) {
+            Alert.alert('Error', getErrorMessage(error, 'Failed to cancel transfer'));
+          }
+        },
+      },
+    ]);
+  };
+
   const handleEdit = () => {
     // Future: Navigate to edit registration screen
     // For now, just close the sheet
@@ -637,6 +665,18 @@ export default function TournamentDetailScreen() {
           onEdit={handleEdit}
           onWithdraw={handleWithdraw}
           onMarkPayment={handleMarkPayment}
+          onTransfer={handleTransfer}
+        />
+      )}
+
+      {currentTournament && myRegistration && (
+        <TransferSpotModal
+          visible={showTransferModal}
+          onClose={() => setShowTransferModal(false)}
+          tournamentId={currentTournament.id}
+          cost={currentTournament.entryFee}
+          paymentStatus={myRegistration.paymentStatus}
+          onTransferCreated={() => fetchMyRegistration(currentTournament.id)}
         />
       )}
     </View>
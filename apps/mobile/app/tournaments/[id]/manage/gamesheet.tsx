@@ -0,0 +1,1230 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useShallow } from 'zustand/react/shallow';
+import { tournamentService } from '@bhmhockey/api-client';
+import {
+  COMMON_INFRACTIONS,
+  GAME_SHEET,
+  LIVE_MATCH,
+  PENALTY_MINUTES,
+  advancePeriod,
+  createLiveClock,
+  deriveScoreFromGoals,
+  formatClockSeconds,
+  getClockElapsedSeconds,
+  getFullName,
+  getPeriodLabel,
+  isPeriodOver,
+  parseGameClock,
+  startClock,
+  stopClock,
+  toSaveGameSheetRequest,
+  validateGameSheet,
+} from '@bhmhockey/shared';
+import type {
+  MatchGoalDto,
+  MatchGoalieDto,
+  MatchPenaltyDto,
+  TournamentTeamMemberDto,
+} from '@bhmhockey/shared';
+
+import { useTournamentStore } from '../../../../stores/tournamentStore';
+import { LiveMatchClock } from '../../../../components';
+import { colors, spacing, radius } from '../../../../theme';
+
+type SheetEntry =
+  | { kind: 'goal'; goal: MatchGoalDto }
+  | { kind: 'penalty'; penalty: MatchPenaltyDto };
+
+// Periods offered in the entry form: regulation plus one overtime
+const PERIOD_CHOICES = Array.from({ length: GAME_SHEET.REGULATION_PERIODS + 1 }, (_, i) => i + 1);
+
+// Period lengths offered when starting a live game
+const PERIOD_LENGTH_CHOICES = [10, 12, LIVE_MATCH.DEFAULT_PERIOD_MINUTES, 20];
+
+const newEntryId = () => `new-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Keep entries in game order so "Goal 3" in a validation message is the third row
+const byGameTime = <T extends { period: number; time: string }>(a: T, b: T) =>
+  a.period - b.period || (parseGameClock(a.time) ?? 0) - (parseGameClock(b.time) ?? 0);
+
+const memberName = (member: TournamentTeamMemberDto) => getFullName(member.userFirstName, member.userLastName);
+
+interface PlayerChipsProps {
+  players: TournamentTeamMemberDto[];
+  selectedUserId?: string;
+  onSelect: (userId: string | undefined) => void;
+  allowNone?: boolean;
+}
+
+/**
+ * Roster chips for picking a scorer, assist, penalized player or goalie
+ */
+function PlayerChips({ players, selectedUserId, onSelect, allowNone }: PlayerChipsProps) {
+  if (players.length === 0) {
+    return <Text style={styles.hintText}>No players on this roster</Text>;
+  }
+  return (
+    <View style={styles.chipRow}>
+      {allowNone && (
+        <TouchableOpacity
+          style={[styles.chip, !selectedUserId && styles.chipSelected]}
+          onPress={() => onSelect(undefined)}
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.chipText, !selectedUserId && styles.chipTextSelected]}>None</Text>
+        </TouchableOpacity>
+      )}
+      {players.map((player) => {
+        const isSelected = player.userId === selectedUserId;
+        return (
+          <TouchableOpacity
+            key={player.userId}
+            style={[styles.chip, isSelected && styles.chipSelected]}
+            onPress={() => onSelect(player.userId)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{memberName(player)}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+}
+
+/**
+ * Game Sheet Screen
+ * Scorekeepers record goals, assists, penalties and goalies of record.
+ * The match score is derived from the goals entered.
+ * In live mode the scorekeeper runs the period clock; entries are timed from
+ * it and saved as they are recorded so spectators can follow along.
+ */
+export default function GameSheetScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+
+  // Get matchId from search params
+  const searchParams = useLocalSearchParams();
+  const matchId = searchParams.matchId as string;
+
+  const {
+    matches,
+    currentTournament,
+    gameSheet,
+    isLoadingGameSheet,
+    fetchGameSheet,
+    saveGameSheet,
+    clearGameSheet,
+    updateMatchClock,
+    processingId,
+    error,
+    clearError,
+  } = useTournamentStore(
+    useShallow((state) => ({
+      matches: state.matches,
+      currentTournament: state.currentTournament,
+      gameSheet: state.gameSheet,
+      isLoadingGameSheet: state.isLoadingGameSheet,
+      fetchGameSheet: state.fetchGameSheet,
+      saveGameSheet: state.saveGameSheet,
+      clearGameSheet: state.clearGameSheet,
+      updateMatchClock: state.updateMatchClock,
+      processingId: state.processingId,
+      error: state.error,
+      clearError: state.clearError,
+    }))
+  );
+
+  const match = matches.find((m) => m.id === matchId);
+  const homeTeamId = match?.homeTeamId ?? '';
+  const awayTeamId = match?.awayTeamId ?? '';
+
+  const [goals, setGoals] = useState<MatchGoalDto[]>([]);
+  const [penalties, setPenalties] = useState<MatchPenaltyDto[]>([]);
+  const [goalies, setGoalies] = useState<MatchGoalieDto[]>([]);
+  const [rosters, setRosters] = useState<Record<string, TournamentTeamMemberDto[]>>({});
+  const [isLoadingRosters, setIsLoadingRosters] = useState(true);
+  const [editing, setEditing] = useState<SheetEntry | null>(null);
+  const [entryErrors, setEntryErrors] = useState<string[]>([]);
+  const [periodLength, setPeriodLength] = useState<number>(LIVE_MATCH.DEFAULT_PERIOD_MINUTES);
+
+  const isSaving = processingId === matchId;
+  const isUpdatingClock = processingId === `clock-${matchId}`;
+  const clock = match?.liveClock ?? null;
+  const isLive = match?.status === 'InProgress' && !!clock;
+  const periodChoices =
+    clock && !PERIOD_CHOICES.includes(clock.period) ? [...PERIOD_CHOICES, clock.period] : PERIOD_CHOICES;
+
+  // Load the saved sheet
+  useEffect(() => {
+    if (id && matchId) {
+      fetchGameSheet(id, matchId);
+    }
+    return () => clearGameSheet();
+  }, [id, matchId, fetchGameSheet, clearGameSheet]);
+
+  // Start editing from the saved sheet
+  useEffect(() => {
+    if (gameSheet && gameSheet.matchId === matchId) {
+      setGoals([...gameSheet.goals].sort(byGameTime));
+      setPenalties([...gameSheet.penalties].sort(byGameTime));
+      setGoalies(gameSheet.goalies);
+    }
+  }, [gameSheet, matchId]);
+
+  // Load both rosters (accepted members only)
+  useEffect(() => {
+    if (!id || !homeTeamId || !awayTeamId) return;
+    let cancelled = false;
+    setIsLoadingRosters(true);
+    Promise.all([homeTeamId, awayTeamId].map((teamId) => tournamentService.getTeamMembers(id, teamId)))
+      .then(([home, away]) => {
+        if (cancelled) return;
+        setRosters({
+          [homeTeamId]: home.filter((m) => m.status === 'Accepted'),
+          [awayTeamId]: away.filter((m) => m.status === 'Accepted'),
+        });
+      })
+      .catch((err) => {
+        console.error('Failed to fetch rosters:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingRosters(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, homeTeamId, awayTeamId]);
+
+  // Show error if present
+  useEffect(() => {
+    if (error) {
+      Alert.alert('Error', error, [{ text: 'OK', onPress: clearError }]);
+    }
+  }, [error, clearError]);
+
+  const { homeScore, awayScore } = deriveScoreFromGoals(goals, homeTeamId, awayTeamId);
+
+  // Roster checks are skipped if the rosters couldn't be loaded
+  const rosterIds = useMemo(
+    () =>
+      Object.keys(rosters).length > 0
+        ? Object.fromEntries(
+            Object.entries(rosters).map(([teamId, members]) => [teamId, members.map((m) => m.userId)])
+          )
+        : undefined,
+    [rosters]
+  );
+
+  const teamName = (teamId: string) =>
+    (teamId === homeTeamId ? match?.homeTeamName : match?.awayTeamName) ?? (teamId === homeTeamId ? 'Home' : 'Away');
+
+  const playerName = (teamId: string, userId?: string) => {
+    const member = rosters[teamId]?.find((m) => m.userId === userId);
+    return member ? memberName(member) : undefined;
+  };
+
+  // ---- Entry editing ----
+
+  // New entries are timed from the live clock when it is running the game
+  const currentTiming = () =>
+    isLive && clock
+      ? { period: clock.period, time: formatClockSeconds(getClockElapsedSeconds(clock)) }
+      : { period: 1, time: '' };
+
+  const startGoal = (teamId: string) => {
+    setEntryErrors([]);
+    setEditing({
+      kind: 'goal',
+      goal: { id: newEntryId(), teamId, scorerUserId: '', scorerName: '', ...currentTiming() },
+    });
+  };
+
+  const startPenalty = (teamId: string) => {
+    setEntryErrors([]);
+    setEditing({
+      kind: 'penalty',
+      penalty: {
+        id: newEntryId(),
+        teamId,
+        playerUserId: '',
+        playerName: '',
+        infraction: '',
+        minutes: PENALTY_MINUTES[0],
+        ...currentTiming(),
+      },
+    });
+  };
+
+  const updateGoal = (changes: Partial<MatchGoalDto>) => {
+    if (editing?.kind !== 'goal') return;
+    setEditing({ kind: 'goal', goal: { ...editing.goal, ...changes } });
+  };
+
+  const updatePenalty = (changes: Partial<MatchPenaltyDto>) => {
+    if (editing?.kind !== 'penalty') return;
+    setEditing({ kind: 'penalty', penalty: { ...editing.penalty, ...changes } });
+  };
+
+  // Validate the edited entry in place, then commit it to the sheet
+  const handleEntryDone = () => {
+    if (!editing) return;
+
+    if (editing.kind === 'goal') {
+      const { goal } = editing;
+      const named: MatchGoalDto = {
+        ...goal,
+        scorerName: playerName(goal.teamId, goal.scorerUserId) ?? goal.scorerName,
+        primaryAssistName: goal.primaryAssistUserId
+          ? playerName(goal.teamId, goal.primaryAssistUserId) ?? goal.primaryAssistName
+          : undefined,
+        secondaryAssistName: goal.secondaryAssistUserId
+          ? playerName(goal.teamId, goal.secondaryAssistUserId) ?? goal.secondaryAssistName
+          : undefined,
+      };
+      const nextGoals = [...goals.filter((g) => g.id !== goal.id), named].sort(byGameTime);
+      const prefix = `Goal ${nextGoals.findIndex((g) => g.id === goal.id) + 1}:`;
+      const errors = validateGameSheet(
+        { goals: nextGoals, penalties: [], goalies: [] },
+        { homeTeamId, awayTeamId, rosters: rosterIds }
+      ).filter((message) => message.startsWith(prefix));
+      if (errors.length > 0) {
+        setEntryErrors(errors.map((message) => message.slice(prefix.length).trim()));
+        return;
+      }
+      setGoals(nextGoals);
+      saveLive({ goals: nextGoals, penalties, goalies });
+    } else {
+      const { penalty } = editing;
+      const named: MatchPenaltyDto = {
+        ...penalty,
+        playerName: playerName(penalty.teamId, penalty.playerUserId) ?? penalty.playerName,
+      };
+      const nextPenalties = [...penalties.filter((p) => p.id !== penalty.id), named].sort(byGameTime);
+      const prefix = `Penalty ${nextPenalties.findIndex((p) => p.id === penalty.id) + 1}:`;
+      const errors = validateGameSheet(
+        { goals: [], penalties: nextPenalties, goalies: [] },
+        { homeTeamId, awayTeamId, rosters: rosterIds }
+      ).filter((message) => message.startsWith(prefix));
+      if (errors.length > 0) {
+        setEntryErrors(errors.map((message) => message.slice(prefix.length).trim()));
+        return;
+      }
+      setPenalties(nextPenalties);
+      saveLive({ goals, penalties: nextPenalties, goalies });
+    }
+    setEditing(null);
+  };
+
+  const handleDeleteEntry = (entry: SheetEntry) => {
+    const isGoal = entry.kind === 'goal';
+    Alert.alert(isGoal ? 'Remove Goal' : 'Remove Penalty', 'Remove this entry from the game sheet?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => {
+          if (entry.kind === 'goal') {
+            const nextGoals = goals.filter((g) => g.id !== entry.goal.id);
+            setGoals(nextGoals);
+            saveLive({ goals: nextGoals, penalties, goalies });
+          } else {
+            const nextPenalties = penalties.filter((p) => p.id !== entry.penalty.id);
+            setPenalties(nextPenalties);
+            saveLive({ goals, penalties: nextPenalties, goalies });
+          }
+        },
+      },
+    ]);
+  };
+
+  // Shots against stay with the team when the goalie of record changes
+  const setGoalie = (teamId: string, userId: string | undefined) => {
+    setGoalies((prev) => {
+      const current = prev.find((g) => g.teamId === teamId);
+      const others = prev.filter((g) => g.teamId !== teamId);
+      const name = playerName(teamId, userId);
+      return userId && name ? [...others, { teamId, userId, name, shotsAgainst: current?.shotsAgainst }] : others;
+    });
+  };
+
+  const setShotsAgainst = (teamId: string, text: string) => {
+    const digits = text.replace(/\D/g, '');
+    setGoalies((prev) =>
+      prev.map((g) => (g.teamId === teamId ? { ...g, shotsAgainst: digits ? Number(digits) : undefined } : g))
+    );
+  };
+
+  // ---- Saving ----
+
+  // While live, each goal or penalty is saved as a draft as soon as it's recorded.
+  // Sheets that don't validate yet wait for a manual save, which shows the problems.
+  const saveLive = (sheet: { goals: MatchGoalDto[]; penalties: MatchPenaltyDto[]; goalies: MatchGoalieDto[] }) => {
+    if (!isLive || !id || !matchId) return;
+    if (validateGameSheet(sheet, { homeTeamId, awayTeamId, rosters: rosterIds }).length > 0) return;
+    saveGameSheet(id, matchId, toSaveGameSheetRequest(sheet, false));
+  };
+
+  // ---- Live clock ----
+
+  // Starting the clock the first time moves the match to InProgress
+  const handleStartGame = () => {
+    if (!id || !matchId) return;
+    updateMatchClock(id, matchId, { ...createLiveClock(periodLength), isRunning: true });
+  };
+
+  const handleToggleClock = () => {
+    if (!id || !matchId || !clock) return;
+    updateMatchClock(id, matchId, clock.isRunning ? stopClock(clock) : startClock(clock));
+  };
+
+  const handleNextPeriod = () => {
+    if (!id || !matchId || !clock) return;
+    const next = advancePeriod(clock);
+    if (!next) return;
+    const moveOn = () => updateMatchClock(id, matchId, next);
+    if (isPeriodOver(clock)) {
+      moveOn();
+      return;
+    }
+    Alert.alert(
+      'End Period Early',
+      `The ${getPeriodLabel(clock.period)} period still has time on the clock. Move on to the ${getPeriodLabel(next.period)}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Next Period', onPress: moveOn },
+      ]
+    );
+  };
+
+  const save = async (isFinal: boolean) => {
+    if (!id || !matchId) return;
+    const outcome = await saveGameSheet(id, matchId, toSaveGameSheetRequest({ goals, penalties, goalies }, isFinal));
+    if (outcome === 'saved' && isFinal) {
+      router.back();
+    } else if (outcome === 'saved') {
+      Alert.alert('Saved', 'The game sheet has been saved.');
+    } else if (outcome === 'queued') {
+      Alert.alert(
+        'Game Sheet Queued',
+        "You're offline. The game sheet was saved on this device and will be submitted when you reconnect.",
+        [{ text: 'OK', onPress: isFinal ? () => router.back() : undefined }]
+      );
+    }
+  };
+
+  const handleSave = (isFinal: boolean) => {
+    const errors = validateGameSheet({ goals, penalties, goalies }, { homeTeamId, awayTeamId, rosters: rosterIds });
+    if (errors.length > 0) {
+      Alert.alert('Check the Game Sheet', errors.join('\n'));
+      return;
+    }
+
+    if (!isFinal) {
+      save(false);
+      return;
+    }
+
+    // Elimination matches need a winner - record the overtime winner as a goal
+    if (homeScore === awayScore && currentTournament?.format !== 'RoundRobin') {
+      Alert.alert(
+        'Tied Score',
+        'Elimination matches cannot end in a tie. Add the game-winning goal before finalizing.',
+        [{ text: 'OK' }]
+      );
+      return;
+    }
+
+    Alert.alert(
+      'Finalize Game',
+      `Final score: ${teamName(homeTeamId)} ${homeScore}, ${teamName(awayTeamId)} ${awayScore}. This completes the match.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Finalize', onPress: () => save(true) },
+      ]
+    );
+  };
+
+  // ---- Render ----
+
+  if (!match || !match.homeTeamId || !match.awayTeamId) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: 'Game Sheet' }} />
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle-outline" size={48} color={colors.status.error} />
+          <Text style={styles.errorText}>{match ? 'Both teams must be set first' : 'Match not found'}</Text>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+            <Text style={styles.backButtonText}>Go Back</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  if ((isLoadingGameSheet && !gameSheet) || isLoadingRosters) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: 'Game Sheet' }} />
+        <View style={styles.errorContainer}>
+          <ActivityIndicator size="large" color={colors.primary.teal} />
+        </View>
+      </View>
+    );
+  }
+
+  const renderGoal = (goal: MatchGoalDto, index: number) => {
+    const assists = [goal.primaryAssistName, goal.secondaryAssistName].filter(Boolean).join(', ');
+    return (
+      <TouchableOpacity
+        key={goal.id}
+        style={styles.entryRow}
+        onPress={() => {
+          setEntryErrors([]);
+          setEditing({ kind: 'goal', goal });
+        }}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.entryIndex}>{index + 1}</Text>
+        <View style={styles.entryContent}>
+          <Text style={styles.entryTitle}>
+            {goal.scorerName} <Text style={styles.entryTeam}>({teamName(goal.teamId)})</Text>
+          </Text>
+          <Text style={styles.entryDetail}>{assists || 'Unassisted'}</Text>
+        </View>
+        <Text style={styles.entryTime}>
+          {getPeriodLabel(goal.period)} {goal.time}
+        </Text>
+        <TouchableOpacity onPress={() => handleDeleteEntry({ kind: 'goal', goal })} hitSlop={8}>
+          <Ionicons name="trash-outline" size={18} color={colors.text.muted} />
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderPenalty = (penalty: MatchPenaltyDto, index: number) => (
+    <TouchableOpacity
+      key={penalty.id}
+      style={styles.entryRow}
+      onPress={() => {
+        setEntryErrors([]);
+        setEditing({ kind: 'penalty', penalty });
+      }}
+      activeOpacity={0.7}
+    >
+      <Text style={styles.entryIndex}>{index + 1}</Text>
+      <View style={styles.entryContent}>
+        <Text style={styles.entryTitle}>
+          {penalty.playerName} <Text style={styles.entryTeam}>({teamName(penalty.teamId)})</Text>
+        </Text>
+        <Text style={styles.penaltyDetail}>
+          {penalty.infraction} - {penalty.minutes} min
+        </Text>
+      </View>
+      <Text style={styles.entryTime}>
+        {getPeriodLabel(penalty.period)} {penalty.time}
+      </Text>
+      <TouchableOpacity onPress={() => handleDeleteEntry({ kind: 'penalty', penalty })} hitSlop={8}>
+        <Ionicons name="trash-outline" size={18} color={colors.text.muted} />
+      </TouchableOpacity>
+    </TouchableOpacity>
+  );
+
+  const renderTeamButtons = (label: string, onPress: (teamId: string) => void) => (
+    <View style={styles.addRow}>
+      {[homeTeamId, awayTeamId].map((teamId) => (
+        <TouchableOpacity key={teamId} style={styles.addButton} onPress={() => onPress(teamId)} activeOpacity={0.7}>
+          <Ionicons name="add" size={18} color={colors.primary.teal} />
+          <Text style={styles.addButtonText} numberOfLines={1}>
+            {label} {teamName(teamId)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const editingTeamId = editing?.kind === 'goal' ? editing.goal.teamId : editing?.penalty.teamId ?? homeTeamId;
+  const editingRoster = rosters[editingTeamId] ?? [];
+  const editingTiming = editing?.kind === 'goal' ? editing.goal : editing?.penalty;
+  const updateTiming = (changes: { period?: number; time?: string }) =>
+    editing?.kind === 'goal' ? updateGoal(changes) : updatePenalty(changes);
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: 'Game Sheet' }} />
+
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {/* Derived score */}
+        <View style={styles.scoreCard}>
+          <View style={styles.scoreTeam}>
+            <Text style={styles.scoreTeamName} numberOfLines={2}>{match.homeTeamName ?? 'Home'}</Text>
+            <Text style={styles.scoreValue}>{homeScore}</Text>
+          </View>
+          <Text style={styles.vsText}>VS</Text>
+          <View style={styles.scoreTeam}>
+            <Text style={styles.scoreTeamName} numberOfLines={2}>{match.awayTeamName ?? 'Away'}</Text>
+            <Text style={styles.scoreValue}>{awayScore}</Text>
+          </View>
+        </View>
+        <Text style={styles.hintText}>The score is calculated from the goals below.</Text>
+
+        {/* Live clock */}
+        {match.status === 'Scheduled' && (
+          <View style={styles.liveCard}>
+            <Text style={styles.liveTitle}>Run This Game Live</Text>
+            <Text style={styles.hintText}>
+              Starts the clock and marks the game in progress. Goals and penalties are saved as you record them.
+            </Text>
+            <Text style={styles.fieldLabel}>Period Length (minutes)</Text>
+            <View style={styles.chipRow}>
+              {PERIOD_LENGTH_CHOICES.map((minutes) => {
+                const isSelected = periodLength === minutes;
+                return (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => setPeriodLength(minutes)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{minutes}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TouchableOpacity
+              style={[styles.clockButton, styles.liveStartButton, styles.startGameButton, isUpdatingClock && styles.saveButtonDisabled]}
+              onPress={handleStartGame}
+              disabled={isUpdatingClock}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="play" size={18} color={colors.bg.darkest} />
+              <Text style={styles.clockButtonTextPrimary}>Start Game</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {isLive && clock && (
+          <View style={styles.liveCard}>
+            <View style={styles.liveHeader}>
+              <LiveMatchClock clock={clock} style={styles.liveClock} />
+              <Text style={styles.hintText}>{clock.periodLengthMinutes} min periods</Text>
+            </View>
+            <View style={styles.clockButtonRow}>
+              <TouchableOpacity
+                style={[styles.clockButton, !clock.isRunning && styles.liveStartButton]}
+                onPress={handleToggleClock}
+                disabled={isUpdatingClock || (!clock.isRunning && isPeriodOver(clock))}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name={clock.isRunning ? 'pause' : 'play'}
+                  size={18}
+                  color={clock.isRunning ? colors.text.primary : colors.bg.darkest}
+                />
+                <Text style={clock.isRunning ? styles.clockButtonText : styles.clockButtonTextPrimary}>
+                  {clock.isRunning ? 'Stop Clock' : 'Start Clock'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.clockButton}
+                onPress={handleNextPeriod}
+                disabled={isUpdatingClock || clock.period >= GAME_SHEET.MAX_PERIODS}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="play-skip-forward" size={18} color={colors.text.primary} />
+                <Text style={styles.clockButtonText}>Next Period</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* Goals */}
+        <Text style={styles.sectionTitle}>Goals</Text>
+        {goals.length === 0 && <Text style={styles.hintText}>No goals yet</Text>}
+        {goals.map(renderGoal)}
+        {renderTeamButtons('Goal for', startGoal)}
+
+        {/* Penalties */}
+        <Text style={styles.sectionTitle}>Penalties</Text>
+        {penalties.length === 0 && <Text style={styles.hintText}>No penalties yet</Text>}
+        {penalties.map(renderPenalty)}
+        {renderTeamButtons('Penalty on', startPenalty)}
+
+        {/* Goalies of record */}
+        <Text style={styles.sectionTitle}>Goalies of Record</Text>
+        {[homeTeamId, awayTeamId].map((teamId) => {
+          const goalie = goalies.find((g) => g.teamId === teamId);
+          return (
+            <View key={teamId} style={styles.goalieBlock}>
+              <Text style={styles.fieldLabel}>{teamName(teamId)}</Text>
+              <PlayerChips
+                players={rosters[teamId] ?? []}
+                selectedUserId={goalie?.userId}
+                onSelect={(userId) => setGoalie(teamId, userId)}
+                allowNone
+              />
+              {goalie && (
+                <>
+                  <Text style={styles.fieldLabel}>Shots Against</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={goalie.shotsAgainst === undefined ? '' : String(goalie.shotsAgainst)}
+                    onChangeText={(text) => setShotsAgainst(teamId, text)}
+                    placeholder="Optional - used for save percentage"
+                    placeholderTextColor={colors.text.muted}
+                    keyboardType="number-pad"
+                    maxLength={3}
+                  />
+                </>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      {/* Action Buttons */}
+      <View style={styles.buttonRow}>
+        <TouchableOpacity
+          onPress={() => handleSave(false)}
+          style={styles.cancelButton}
+          activeOpacity={0.7}
+          disabled={isSaving}
+        >
+          <Text style={styles.cancelButtonText}>Save Draft</Text>
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          onPress={() => handleSave(true)}
+          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+          activeOpacity={0.7}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color={colors.bg.darkest} />
+          ) : (
+            <Text style={styles.saveButtonText}>Finalize</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {/* Goal / penalty editor */}
+      {editing && editingTiming && (
+        <Modal visible={true} transparent animationType="slide" onRequestClose={() => setEditing(null)}>
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <TouchableOpacity onPress={() => setEditing(null)}>
+                  <Text style={styles.modalCancel}>Cancel</Text>
+                </TouchableOpacity>
+                <Text style={styles.modalTitle}>
+                  {editing.kind === 'goal' ? 'Goal' : 'Penalty'} - {teamName(editingTeamId)}
+                </Text>
+                <TouchableOpacity onPress={handleEntryDone}>
+                  <Text style={styles.modalDone}>Done</Text>
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView contentContainerStyle={styles.modalBody} keyboardShouldPersistTaps="handled">
+                {editing.kind === 'goal' ? (
+                  <>
+                    <Text style={styles.fieldLabel}>Scorer *</Text>
+                    <PlayerChips
+                      players={editingRoster}
+                      selectedUserId={editing.goal.scorerUserId}
+                      onSelect={(userId) => updateGoal({ scorerUserId: userId ?? '' })}
+                    />
+                    <Text style={styles.fieldLabel}>Primary Assist</Text>
+                    <PlayerChips
+                      players={editingRoster.filter((p) => p.userId !== editing.goal.scorerUserId)}
+                      selectedUserId={editing.goal.primaryAssistUserId}
+                      onSelect={(userId) =>
+                        updateGoal({
+                          primaryAssistUserId: userId,
+                          secondaryAssistUserId: userId ? editing.goal.secondaryAssistUserId : undefined,
+                        })
+                      }
+                      allowNone
+                    />
+                    {editing.goal.primaryAssistUserId && (
+                      <>
+                        <Text style={styles.fieldLabel}>Secondary Assist</Text>
+                        <PlayerChips
+                          players={editingRoster.filter(
+                            (p) =>
+                              p.userId !== editing.goal.scorerUserId &&
+                              p.userId !== editing.goal.primaryAssistUserId
+                          )}
+                          selectedUserId={editing.goal.secondaryAssistUserId}
+                          onSelect={(userId) => updateGoal({ secondaryAssistUserId: userId })}
+                          allowNone
+                        />
+                      </>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    <Text style={styles.fieldLabel}>Player *</Text>
+                    <PlayerChips
+                      players={editingRoster}
+                      selectedUserId={editing.penalty.playerUserId}
+                      onSelect={(userId) => updatePenalty({ playerUserId: userId ?? '' })}
+                    />
+                    <Text style={styles.fieldLabel}>Infraction *</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={editing.penalty.infraction}
+                      onChangeText={(infraction) => updatePenalty({ infraction })}
+                      placeholder="e.g. Tripping"
+                      placeholderTextColor={colors.text.muted}
+                    />
+                    <View style={[styles.chipRow, styles.chipRowSpaced]}>
+                      {COMMON_INFRACTIONS.map((infraction) => {
+                        const isSelected = editing.penalty.infraction === infraction;
+                        return (
+                          <TouchableOpacity
+                            key={infraction}
+                            style={[styles.chip, isSelected && styles.chipSelected]}
+                            onPress={() => updatePenalty({ infraction })}
+                            activeOpacity={0.7}
+                          >
+                            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{infraction}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                    <Text style={styles.fieldLabel}>Minutes</Text>
+                    <View style={styles.chipRow}>
+                      {PENALTY_MINUTES.map((minutes) => {
+                        const isSelected = editing.penalty.minutes === minutes;
+                        return (
+                          <TouchableOpacity
+                            key={minutes}
+                            style={[styles.chip, isSelected && styles.chipSelected]}
+                            onPress={() => updatePenalty({ minutes })}
+                            activeOpacity={0.7}
+                          >
+                            <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{minutes}</Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </>
+                )}
+
+                <Text style={styles.fieldLabel}>Period</Text>
+                <View style={styles.chipRow}>
+                  {periodChoices.map((period) => {
+                    const isSelected = editingTiming.period === period;
+                    return (
+                      <TouchableOpacity
+                        key={period}
+                        style={[styles.chip, isSelected && styles.chipSelected]}
+                        onPress={() => updateTiming({ period })}
+                        activeOpacity={0.7}
+                      >
+                        <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>
+                          {getPeriodLabel(period)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Text style={styles.fieldLabel}>Time Elapsed *</Text>
+                <TextInput
+                  style={styles.input}
+                  value={editingTiming.time}
+                  onChangeText={(time) => updateTiming({ time })}
+                  placeholder="MM:SS"
+                  placeholderTextColor={colors.text.muted}
+                  keyboardType="numbers-and-punctuation"
+                  maxLength={5}
+                />
+
+                {entryErrors.map((message) => (
+                  <Text key={message} style={styles.entryError}>{message}</Text>
+                ))}
+              </ScrollView>
+            </View>
+          </View>
+        </Modal>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg.darkest,
+  },
+  scrollContent: {
+    padding: spacing.md,
+    paddingBottom: spacing.xl,
+  },
+
+  // Score card styles
+  scoreCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  scoreTeam: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  scoreTeamName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    textAlign: 'center',
+    marginBottom: spacing.xs,
+  },
+  scoreValue: {
+    fontSize: 36,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  vsText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.muted,
+    letterSpacing: 1,
+    marginHorizontal: spacing.md,
+  },
+
+  // Section styles
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.text.primary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: spacing.lg,
+    marginBottom: spacing.sm,
+  },
+  hintText: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginBottom: spacing.sm,
+  },
+
+  // Entry row styles
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+    gap: spacing.sm,
+  },
+  entryIndex: {
+    width: 20,
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.text.muted,
+    textAlign: 'center',
+  },
+  entryContent: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  entryTeam: {
+    fontSize: 13,
+    fontWeight: '400',
+    color: colors.text.muted,
+  },
+  entryDetail: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  penaltyDetail: {
+    fontSize: 13,
+    color: colors.status.warning,
+    marginTop: 2,
+  },
+  entryTime: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    fontVariant: ['tabular-nums'],
+  },
+
+  // Add buttons
+  addRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  addButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+    borderStyle: 'dashed',
+  },
+  addButtonText: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+
+  // Live clock styles
+  liveCard: {
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    padding: spacing.md,
+    marginTop: spacing.sm,
+  },
+  liveTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  liveHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+    marginBottom: spacing.sm,
+  },
+  liveClock: {
+    fontSize: 28,
+  },
+  clockButtonRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  clockButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.bg.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+  },
+  liveStartButton: {
+    backgroundColor: colors.primary.teal,
+    borderColor: colors.primary.teal,
+  },
+  startGameButton: {
+    marginTop: spacing.md,
+  },
+  clockButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  clockButtonTextPrimary: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.bg.darkest,
+  },
+
+  // Goalie styles
+  goalieBlock: {
+    marginBottom: spacing.md,
+  },
+
+  // Form styles
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    color: colors.text.primary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chipRowSpaced: {
+    marginTop: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.bg.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary.teal,
+    borderColor: colors.primary.teal,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.bg.darkest,
+  },
+  entryError: {
+    fontSize: 13,
+    color: colors.status.error,
+    marginTop: spacing.sm,
+  },
+
+  // Modal styles
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    maxHeight: '85%',
+    backgroundColor: colors.bg.dark,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    paddingBottom: 34,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    borderBottomWidth: 0,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.text.primary,
+    textAlign: 'center',
+    marginHorizontal: spacing.sm,
+  },
+  modalCancel: {
+    fontSize: 16,
+    color: colors.text.secondary,
+  },
+  modalDone: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  modalBody: {
+    padding: spacing.md,
+  },
+
+  // Button row styles
+  buttonRow: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.default,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: radius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.bg.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: radius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary.teal,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.bg.darkest,
+  },
+
+  // Error state styles
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+  errorText: {
+    fontSize: 16,
+    color: colors.text.muted,
+    marginTop: spacing.md,
+    marginBottom: spacing.lg,
+  },
+  backButton: {
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  backButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.primary.teal,
+  },
+});
@@ -21,15 +21,19 @@ import { useTournamentStore } from '../../../../stores/tournamentStore';
 import { tournamentService } from '@bhmhockey/api-client';
 import { colors, spacing, radius } from '../../../../theme';
 import { Ionicons } from '@expo/vector-icons';
+import {
+  CUSTOM_QUESTION_TYPE_LABELS,
+  getQuestionOptions,
+  parseCustomQuestions,
+  serializeCustomQuestions,
+  validateCustomQuestion,
+} from '@bhmhockey/shared';
+import type { CustomQuestion, CustomQuestionCondition, CustomQuestionType } from '@bhmhockey/shared';
 
-// Custom question types
-interface CustomQuestion {
-  id: string;
-  type: 'text' | 'yesno' | 'dropdown';
-  label: string;
-  required: boolean;
-  options?: string[];
-}
+const QUESTION_TYPES = Object.keys(CUSTOM_QUESTION_TYPE_LABELS) as CustomQuestionType[];
+
+// Types a later question can be conditional on
+const CONDITION_SOURCE_TYPES: CustomQuestionType[] = ['yesno', 'dropdown', 'multiselect', 'tshirtSize'];
 
 // Platform-specific Picker props for dark theme
 const pickerProps = Platform.select({
@@ -40,6 +44,30 @@ const pickerProps = Platform.select({
 const getPickerItemColor = (): string | undefined =>
   Platform.OS === 'ios' ? colors.text.primary : undefined;
 
+// Min/max apply to the value (number), length (text) or selection count (multi-select)
+const getRangeLabel = (type: CustomQuestionType): string | null => {
+  switch (type) {
+    case 'number':
+      return 'Allowed Range';
+    case 'text':
+      return 'Length (characters)';
+    case 'multiselect':
+      return 'Number of Choices';
+    default:
+      return null;
+  }
+};
+
+const parseOptionalNumber = (text: string): number | undefined => {
+  const trimmed = text.trim();
+  if (trimmed === '') return undefined;
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+const formatConditionValue = (value: string | boolean): string =>
+  typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value;
+
 export default function TournamentQuestionsScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
@@ -47,19 +75,24 @@ export default function TournamentQuestionsScreen() {
 
   // State
   const [questions, setQuestions] = useState<CustomQuestion[]>([]);
-  const [isEditing, setIsEditing] = useState<string | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
 
   // Add/Edit question form state
   const [editingQuestion, setEditingQuestion] = useState<CustomQuestion | null>(null);
-  const [newType, setNewType] = useState<'text' | 'yesno' | 'dropdown'>('text');
+  const [newType, setNewType] = useState<CustomQuestionType>('text');
   const [newLabel, setNewLabel] = useState('');
   const [newRequired, setNewRequired] = useState(false);
   const [newOptions, setNewOptions] = useState(''); // comma-separated for dropdowns
+  const [newMin, setNewMin] = useState('');
+  const [newMax, setNewMax] = useState('');
+  const [newPattern, setNewPattern] = useState('');
+  const [newPatternMessage, setNewPatternMessage] = useState('');
+  const [newCondition, setNewCondition] = useState<CustomQuestionCondition | null>(null);
 
   // Picker modal state
   const [showTypePicker, setShowTypePicker] = useState(false);
+  const [showConditionPicker, setShowConditionPicker] = useState(false);
 
   // Keyboard accessory ID for iOS
   const inputAccessoryViewID = 'questionsFormAccessory';
@@ -71,21 +104,42 @@ export default function TournamentQuestionsScreen() {
     }
   }, [id, currentTournament]);
 
-  // Parse custom questions from JSON string
+  // Parse custom questions (v1 arrays and versioned schemas)
   useEffect(() => {
-    if (currentTournament?.customQuestions) {
-      try {
-        const parsed = JSON.parse(currentTournament.customQuestions);
-        setQuestions(parsed);
-      } catch (e) {
-        console.error('Failed to parse custom questions:', e);
-        setQuestions([]);
-      }
-    } else {
-      setQuestions([]);
-    }
+    setQuestions(parseCustomQuestions(currentTournament?.customQuestions));
   }, [currentTournament?.customQuestions]);
 
+  // Questions the one being edited can depend on (earlier in the list)
+  const editingIndex = editingQuestion ? questions.findIndex((q) => q.id === editingQuestion.id) : -1;
+  const conditionSources = (editingIndex === -1 ? questions : questions.slice(0, editingIndex)).filter(
+    (q) => CONDITION_SOURCE_TYPES.includes(q.type)
+  );
+
+  // Every answer a condition can match, as "questionId|value" picker keys
+  const conditionChoices = conditionSources.flatMap((source) =>
+    (source.type === 'yesno' ? [true, false] : getQuestionOptions(source)).map((value) => ({
+      key: `${source.id}|${String(value)}`,
+      label: `${source.label} = ${formatConditionValue(value)}`,
+      condition: { questionId: source.id, equals: value } as CustomQuestionCondition,
+    }))
+  );
+
+  const describeCondition = (condition: CustomQuestionCondition): string => {
+    const source = questions.find((q) => q.id === condition.questionId);
+    return `Shown when "${source?.label ?? 'deleted question'}" is ${formatConditionValue(condition.equals)}`;
+  };
+
+  const describeRules = (question: CustomQuestion): string | null => {
+    const rules: string[] = [];
+    if (question.min !== undefined || question.max !== undefined) {
+      rules.push(`${getRangeLabel(question.type) ?? 'Range'}: ${question.min ?? 'any'} to ${question.max ?? 'any'}`);
+    }
+    if (question.pattern) {
+      rules.push(`Pattern: ${question.pattern}`);
+    }
+    return rules.length > 0 ? rules.join(' · ') : null;
+  };
+
   // Reset form state
   const resetForm = () => {
     setEditingQuestion(null);
@@ -93,6 +147,11 @@ export default function TournamentQuestionsScreen() {
     setNewLabel('');
     setNewRequired(false);
     setNewOptions('');
+    setNewMin('');
+    setNewMax('');
+    setNewPattern('');
+    setNewPatternMessage('');
+    setNewCondition(null);
   };
 
   // Open add modal
@@ -108,66 +167,73 @@ export default function TournamentQuestionsScreen() {
     setNewLabel(question.label);
     setNewRequired(question.required);
     setNewOptions(question.options?.join(', ') || '');
+    setNewMin(question.min !== undefined ? String(question.min) : '');
+    setNewMax(question.max !== undefined ? String(question.max) : '');
+    setNewPattern(question.pattern ?? '');
+    setNewPatternMessage(question.patternMessage ?? '');
+    setNewCondition(question.visibleWhen ?? null);
     setShowAddModal(true);
   };
 
   // Save question (add or edit)
   const handleSaveQuestion = () => {
-    if (!newLabel.trim()) {
-      Alert.alert('Error', 'Question label is required');
-      return;
-    }
-
-    if (newType === 'dropdown') {
-      const optionsArray = newOptions
-        .split(',')
-        .map((opt) => opt.trim())
-        .filter((opt) => opt.length > 0);
-
-      if (optionsArray.length === 0) {
-        Alert.alert('Error', 'Dropdown questions must have at least one option');
-        return;
-      }
-    }
+    const hasOptions = newType === 'dropdown' || newType === 'multiselect';
+    const hasRange = getRangeLabel(newType) !== null;
 
     const questionData: CustomQuestion = {
       id: editingQuestion?.id || `q_${Date.now()}`,
       type: newType,
       label: newLabel.trim(),
       required: newRequired,
-      options:
-        newType === 'dropdown'
-          ? newOptions
-              .split(',')
-              .map((opt) => opt.trim())
-              .filter((opt) => opt.length > 0)
-          : undefined,
+      options: hasOptions
+        ? newOptions
+            .split(',')
+            .map((opt) => opt.trim())
+            .filter((opt) => opt.length > 0)
+        : undefined,
+      min: hasRange ? parseOptionalNumber(newMin) : undefined,
+      max: hasRange ? parseOptionalNumber(newMax) : undefined,
+      pattern: newType === 'text' && newPattern.trim() ? newPattern.trim() : undefined,
+      patternMessage: newType === 'text' && newPattern.trim() && newPatternMessage.trim()
+        ? newPatternMessage.trim()
+        : undefined,
+      visibleWhen: newCondition ?? undefined,
     };
 
-    if (editingQuestion) {
-      // Edit existing question
-      setQuestions(questions.map((q) => (q.id === editingQuestion.id ? questionData : q)));
-    } else {
-      // Add new question
-      setQuestions([...questions, questionData]);
+    const updatedQuestions = editingQuestion
+      ? questions.map((q) => (q.id === editingQuestion.id ? questionData : q))
+      : [...questions, questionData];
+
+    const error = validateCustomQuestion(questionData, updatedQuestions);
+    if (error) {
+      Alert.alert('Error', error);
+      return;
     }
 
+    setQuestions(updatedQuestions);
     setShowAddModal(false);
     resetForm();
   };
 
   // Delete question
   const handleDeleteQuestion = (questionId: string) => {
+    const hasDependents = questions.some((q) => q.visibleWhen?.questionId === questionId);
     Alert.alert(
       'Delete Question',
-      'Are you sure you want to delete this question?',
+      hasDependents
+        ? 'Other questions are only shown based on this answer. They will always be shown after it is deleted.'
+        : 'Are you sure you want to delete this question?',
       [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
           onPress: () => {
-            setQuestions(questions.filter((q) => q.id !== questionId));
+            setQuestions(
+              questions
+                .filter((q) => q.id !== questionId)
+                .map((q) => (q.visibleWhen?.questionId === questionId ? { ...q, visibleWhen: undefined } : q))
+            );
           },
         },
       ]
@@ -194,10 +260,18 @@ export default function TournamentQuestionsScreen() {
   const handleSave = async () => {
     if (!id) return;
 
+    // Reordering can move a question above the one it depends on
+    for (const question of questions) {
+      const error = validateCustomQuestion(question, questions);
+      if (error) {
+        Alert.alert('Error', `${question.label}: ${error}`);
+        return;
+      }
+    }
+
     setIsSaving(true);
     try {
-      const customQuestionsJson = questions.length > 0 ? JSON.stringify(questions) : undefined;
-      await tournamentService.update(id, { customQuestions: customQuestionsJson });
+      await tournamentService.update(id, { customQuestions: serializeCustomQuestions(questions) });
 
       // Refresh tournament data
       await fetchTournamentById(id);
@@ -213,29 +287,21 @@ export default function TournamentQuestionsScreen() {
     }
   };
 
-  // Get type display name
-  const getTypeDisplayName = (type: 'text' | 'yesno' | 'dropdown') => {
-    switch (type) {
-      case 'text':
-        return 'Text';
-      case 'yesno':
-        return 'Yes/No';
-      case 'dropdown':
-        return 'Dropdown';
-      default:
-        return type;
-    }
-  };
-
   // Get type badge color
-  const getTypeBadgeColor = (type: 'text' | 'yesno' | 'dropdown') => {
+  const getTypeBadgeColor = (type: CustomQuestionType) => {
     switch (type) {
       case 'text':
+      case 'number':
         return colors.primary.blue;
       case 'yesno':
+      case 'date':
         return colors.primary.green;
       case 'dropdown':
+      case 'multiselect':
         return colors.primary.purple;
+      case 'jerseyNumber':
+      case 'tshirtSize':
+        return colors.primary.teal;
       default:
         return colors.text.muted;
     }
@@ -323,7 +389,7 @@ export default function TournamentQuestionsScreen() {
                         { color: getTypeBadgeColor(question.type) },
                       ]}
                     >
-                      {getTypeDisplayName(question.type)}
+                      {CUSTOM_QUESTION_TYPE_LABELS[question.type]}
                     </Text>
                   </View>
 
@@ -333,13 +399,23 @@ export default function TournamentQuestionsScreen() {
                     {question.required && <Text style={styles.requiredIndicator}> *</Text>}
                   </Text>
 
-                  {/* Options preview for dropdown */}
-                  {question.type === 'dropdown' && question.options && (
+                  {/* Options preview for dropdown / multi-select */}
+                  {(question.type === 'dropdown' || question.type === 'multiselect') && question.options && (
                     <Text style={styles.questionOptions}>
                       Options: {question.options.join(', ')}
                     </Text>
                   )}
 
+                  {/* Validation rules */}
+                  {describeRules(question) && (
+                    <Text style={styles.questionOptions}>{describeRules(question)}</Text>
+                  )}
+
+                  {/* Conditional visibility */}
+                  {question.visibleWhen && (
+                    <Text style={styles.questionCondition}>{describeCondition(question.visibleWhen)}</Text>
+                  )}
+
                   {/* Action buttons */}
                   <View style={styles.questionActions}>
                     {/* Move up */}
@@ -452,7 +528,7 @@ export default function TournamentQuestionsScreen() {
                   onPress={() => setShowTypePicker(true)}
                 >
                   <Text style={styles.pickerButtonText}>
-                    {getTypeDisplayName(newType)}
+                    {CUSTOM_QUESTION_TYPE_LABELS[newType]}
                   </Text>
                   <Text style={styles.pickerArrow}>&#9660;</Text>
                 </TouchableOpacity>
@@ -472,8 +548,8 @@ export default function TournamentQuestionsScreen() {
                 />
               </View>
 
-              {/* Options for Dropdown */}
-              {newType === 'dropdown' && (
+              {/* Options for Dropdown / Multi-select */}
+              {(newType === 'dropdown' || newType === 'multiselect') && (
                 <View style={styles.formField}>
                   <Text style={styles.formLabel}>Options (comma-separated) *</Text>
                   <TextInput
@@ -491,6 +567,83 @@ export default function TournamentQuestionsScreen() {
                 </View>
               )}
 
+              {/* Min / Max */}
+              {getRangeLabel(newType) && (
+                <View style={styles.formField}>
+                  <Text style={styles.formLabel}>{getRangeLabel(newType)}</Text>
+                  <View style={styles.rangeRow}>
+                    <TextInput
+                      style={[styles.input, styles.rangeInput]}
+                      value={newMin}
+                      onChangeText={setNewMin}
+                      placeholder="Min"
+                      placeholderTextColor={colors.text.muted}
+                      keyboardType="numbers-and-punctuation"
+                      inputAccessoryViewID={inputAccessoryViewID}
+                    />
+                    <TextInput
+                      style={[styles.input, styles.rangeInput]}
+                      value={newMax}
+                      onChangeText={setNewMax}
+                      placeholder="Max"
+                      placeholderTextColor={colors.text.muted}
+                      keyboardType="numbers-and-punctuation"
+                      inputAccessoryViewID={inputAccessoryViewID}
+                    />
+                  </View>
+                  <Text style={styles.fieldNote}>Leave blank for no limit</Text>
+                </View>
+              )}
+
+              {/* Pattern for Text */}
+              {newType === 'text' && (
+                <View style={styles.formField}>
+                  <Text style={styles.formLabel}>Pattern (optional)</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={newPattern}
+                    onChangeText={setNewPattern}
+                    placeholder="e.g., \d{3}-\d{3}-\d{4}"
+                    placeholderTextColor={colors.text.muted}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    inputAccessoryViewID={inputAccessoryViewID}
+                  />
+                  {newPattern.trim().length > 0 && (
+                    <TextInput
+                      style={[styles.input, styles.stackedInput]}
+                      value={newPatternMessage}
+                      onChangeText={setNewPatternMessage}
+                      placeholder="Message when it doesn't match"
+                      placeholderTextColor={colors.text.muted}
+                      inputAccessoryViewID={inputAccessoryViewID}
+                    />
+                  )}
+                  <Text style={styles.fieldNote}>
+                    Regular expression the whole answer must match
+                  </Text>
+                </View>
+              )}
+
+              {/* Conditional visibility */}
+              {conditionChoices.length > 0 && (
+                <View style={styles.formField}>
+                  <Text style={styles.formLabel}>Show This Question</Text>
+                  <TouchableOpacity
+                    style={styles.pickerButton}
+                    onPress={() => setShowConditionPicker(true)}
+                  >
+                    <Text style={styles.pickerButtonText}>
+                      {newCondition ? describeCondition(newCondition) : 'Always'}
+                    </Text>
+                    <Text style={styles.pickerArrow}>&#9660;</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.fieldNote}>
+                    Hidden questions are skipped, even when required
+                  </Text>
+                </View>
+              )}
+
               {/* Required Toggle */}
               <View style={styles.formField}>
                 <View style={styles.switchRow}>
@@ -540,9 +693,47 @@ export default function TournamentQuestionsScreen() {
                 dropdownIconColor={colors.text.primary}
                 {...pickerProps}
               >
-                <Picker.Item label="Text" value="text" color={getPickerItemColor()} />
-                <Picker.Item label="Yes/No" value="yesno" color={getPickerItemColor()} />
-                <Picker.Item label="Dropdown" value="dropdown" color={getPickerItemColor()} />
+                {QUESTION_TYPES.map((type) => (
+                  <Picker.Item
+                    key={type}
+                    label={CUSTOM_QUESTION_TYPE_LABELS[type]}
+                    value={type}
+                    color={getPickerItemColor()}
+                  />
+                ))}
+              </Picker>
+            </View>
+          </View>
+        </Modal>
+
+        {/* Condition Picker Modal */}
+        <Modal visible={showConditionPicker} transparent animationType="slide">
+          <View style={styles.pickerModalOverlay}>
+            <View style={styles.pickerModalContent}>
+              <View style={styles.pickerModalHeader}>
+                <Text style={styles.pickerModalTitle}>Show This Question</Text>
+                <TouchableOpacity onPress={() => setShowConditionPicker(false)}>
+                  <Text style={styles.pickerModalDone}>Done</Text>
+                </TouchableOpacity>
+              </View>
+              <Picker
+                selectedValue={newCondition ? `${newCondition.questionId}|${String(newCondition.equals)}` : ''}
+                onValueChange={(key) => {
+                  setNewCondition(conditionChoices.find((choice) => choice.key === key)?.condition ?? null);
+                }}
+                style={styles.picker}
+                dropdownIconColor={colors.text.primary}
+                {...pickerProps}
+              >
+                <Picker.Item label="Always" value="" color={getPickerItemColor()} />
+                {conditionChoices.map((choice) => (
+                  <Picker.Item
+                    key={choice.key}
+                    label={`When ${choice.label}`}
+                    value={choice.key}
+                    color={getPickerItemColor()}
+                  />
+                ))}
               </Picker>
             </View>
           </View>
@@ -660,6 +851,11 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     marginBottom: spacing.sm,
   },
+  questionCondition: {
+    fontSize: 13,
+    color: colors.primary.teal,
+    marginBottom: spacing.sm,
+  },
   questionActions: {
     flexDirection: 'row',
     gap: spacing.sm,
@@ -751,6 +947,16 @@ const styles = StyleSheet.create({
     borderColor: colors.border.default,
     color: colors.text.primary,
   },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  rangeInput: {
+    flex: 1,
+  },
+  stackedInput: {
+    marginTop: spacing.sm,
+  },
   fieldNote: {
     fontSize: 12,
     color: colors.text.muted,
@@ -17,6 +17,16 @@ import { useLocalSearchParams, Stack, useFocusEffect } from 'expo-router';
 import { useTournamentStore } from '../../../../stores/tournamentStore';
 import { Badge, EmptyState } from '../../../../components';
 import { colors, spacing, radius } from '../../../../theme';
+import { shareCsvFile } from '../../../../utils/registrationExport';
+import {
+  buildRegistrationsCsv,
+  formatCustomResponse,
+  getRegistrationsCsvFilename,
+  isQuestionVisible,
+  parseCustomQuestions,
+  parseCustomResponses,
+  validateCustomResponses,
+} from '@bhmhockey/shared';
 import type { TournamentRegistrationDto, PaymentStatus } from '@bhmhockey/shared';
 
 type PaymentFilter = 'All' | PaymentStatus;
@@ -43,15 +53,43 @@ export default function RegistrationsScreen() {
   const [paymentFilter, setPaymentFilter] = useState<PaymentFilter>('All');
   const [positionFilter, setPositionFilter] = useState<PositionFilter>('All');
   const [assignmentFilter, setAssignmentFilter] = useState<AssignmentFilter>('All');
-
-  const { registrations, fetchAllRegistrations, verifyPayment, removeRegistration, isLoading } = useTournamentStore();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const {
+    currentTournament,
+    fetchTournamentById,
+    registrations,
+    fetchAllRegistrations,
+    verifyPayment,
+    removeRegistration,
+    isLoading,
+  } = useTournamentStore();
 
   useFocusEffect(
     useCallback(() => {
       if (id) fetchAllRegistrations(id);
+      if (id && currentTournament?.id !== id) fetchTournamentById(id);
     }, [id])
   );
 
+  const customQuestions = useMemo(
+    () => (currentTournament?.id === id ? parseCustomQuestions(currentTournament.customQuestions) : []),
+    [id, currentTournament?.id, currentTournament?.customQuestions]
+  );
+
+  // Answers that fail the same checks players see when registering (e.g. a
+  // question added or made required after they signed up)
+  const answerIssues = useMemo(() => {
+    const issues: Record<string, string[]> = {};
+    registrations.forEach((reg) => {
+      const errors = validateCustomResponses(customQuestions, parseCustomResponses(reg.customResponses));
+      if (Object.keys(errors).length > 0) {
+        issues[reg.id] = Object.values(errors);
+      }
+    });
+    return issues;
+  }, [registrations, customQuestions]);
+
   const handleRefresh = async () => {
     if (!id) return;
     setIsRefreshing(true);
@@ -99,12 +137,40 @@ export default function RegistrationsScreen() {
     });
   }, [registrations, searchQuery, paymentFilter, positionFilter, assignmentFilter]);
 
+  // Export the filtered list, one column per custom question
+  const handleExport = async () => {
+    if (filteredRegistrations.length === 0) {
+      Alert.alert('Nothing to Export', 'No registrations match the current filters.');
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const csv = buildRegistrationsCsv(filteredRegistrations, customQuestions);
+      await shareCsvFile(getRegistrationsCsvFilename(currentTournament?.name ?? ''), csv);
+    } catch (error: any) {
+      Alert.alert('Export Failed', error?.message || 'Unable to export registrations');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleRegistrationPress = (registration: TournamentRegistrationDto) => {
     if (!id) return;
 
     const currentStatus = registration.paymentStatus || 'Pending';
     const playerName = `${registration.user.firstName} ${registration.user.lastName}`;
 
+    const handleViewAnswers = () => {
+      const answers = parseCustomResponses(registration.customResponses);
+      const lines = customQuestions
+        .filter((question) => isQuestionVisible(question, customQuestions, answers))
+        .map((question) => `${question.label}: ${formatCustomResponse(question, answers[question.id]) || '—'}`);
+      const issues = answerIssues[registration.id];
+      const issueText = issues ? `\n\nNeeds attention:\n${issues.map((issue) => `• ${issue}`).join('\n')}` : '';
+      Alert.alert(`${playerName} - Answers`, `${lines.join('\n')}${issueText}`);
+    };
+
     const handleRemoveRegistration = () => {
       Alert.alert(
         'Remove Registration',
@@ -126,9 +192,12 @@ export default function RegistrationsScreen() {
     };
 
     if (Platform.OS === 'ios') {
+      const options = customQuestions.length > 0
+        ? ['Cancel', 'Verify Payment', 'Reject Payment', 'Remove Registration', 'View Answers']
+        : ['Cancel', 'Verify Payment', 'Reject Payment', 'Remove Registration'];
       ActionSheetIOS.showActionSheetWithOptions(
         {
-          options: ['Cancel', 'Verify Payment', 'Reject Payment', 'Remove Registration'],
+          options,
           cancelButtonIndex: 0,
           destructiveButtonIndex: 3,
           title: `${playerName} - ${currentStatus}`,
@@ -136,7 +205,9 @@ export default function RegistrationsScreen() {
         async (buttonIndex) => {
           if (buttonIndex === 0) return; // Cancel
 
-          if (buttonIndex === 1) {
+          if (buttonIndex === 4) {
+            handleViewAnswers();
+          } else if (buttonIndex === 1) {
             // Verify Payment
             const success = await verifyPayment(id, registration.id, true);
             if (success) {
@@ -171,6 +242,7 @@ export default function RegistrationsScreen() {
       // Android - use Alert.alert with buttons
       Alert.alert(`${playerName} - ${currentStatus}`, 'Choose an action:', [
         { text: 'Cancel', style: 'cancel' },
+        ...(customQuestions.length > 0 ? [{ text: 'View Answers', onPress: handleViewAnswers }] : []),
         {
           text: 'Verify Payment',
           onPress: async () => {
@@ -216,6 +288,15 @@ export default function RegistrationsScreen() {
             {item.assignedTeamName || 'Unassigned'}
           </Text>
         </View>
+
+        {/* Custom question answers that no longer pass validation */}
+        {answerIssues[item.id] && (
+          <Text style={styles.answerIssueText}>
+            {answerIssues[item.id].length === 1
+              ? answerIssues[item.id][0]
+              : `${answerIssues[item.id].length} answers need attention`}
+          </Text>
+        )}
       </View>
 
       {/* Right section: Payment status */}
@@ -377,6 +458,26 @@ export default function RegistrationsScreen() {
           headerBackTitle: 'Back',
           headerStyle: { backgroundColor: colors.bg.dark },
           headerTintColor: colors.text.primary,
+          headerRight: () => (
+            <TouchableOpacity
+              onPress={handleExport}
+              disabled={isExporting || registrations.length === 0}
+              style={styles.headerButton}
+            >
+              {isExporting ? (
+                <ActivityIndicator size="small" color={colors.primary.teal} />
+              ) : (
+                <Text
+                  style={[
+                    styles.headerButtonText,
+                    registrations.length === 0 && styles.headerButtonTextDisabled,
+                  ]}
+                >
+                  Export
+                </Text>
+              )}
+            </TouchableOpacity>
+          ),
         }}
       />
 
@@ -405,6 +506,19 @@ export default function RegistrationsScreen() {
 }
 
 const styles = StyleSheet.create({
+  // Header button
+  headerButton: {
+    marginRight: spacing.sm,
+  },
+  headerButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  headerButtonTextDisabled: {
+    color: colors.text.muted,
+  },
+
   container: {
     flex: 1,
     backgroundColor: colors.bg.darkest,
@@ -524,6 +638,11 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: colors.text.muted,
   },
+  answerIssueText: {
+    fontSize: 12,
+    color: colors.status.warning,
+    marginTop: spacing.xs,
+  },
   registrationRight: {
     alignItems: 'flex-end',
   },
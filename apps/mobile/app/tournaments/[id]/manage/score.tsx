@@ -111,11 +111,17 @@ export default function ScoreEntryScreen() {
     }
 
     setIsSaving(true);
-    const success = await enterScore(id, matchId, homeScore, awayScore);
+    const outcome = await enterScore(id, matchId, homeScore, awayScore);
     setIsSaving(false);
 
-    if (success) {
+    if (outcome === 'saved') {
       router.back();
+    } else if (outcome === 'queued') {
+      Alert.alert(
+        'Score Queued',
+        "You're offline. The score was saved on this device and will be submitted when you reconnect.",
+        [{ text: 'OK', onPress: () => router.back() }]
+      );
     }
   };
 
@@ -21,7 +21,9 @@ import { Picker } from '@react-native-picker/picker';
 import { useTournamentStore } from '../../../../stores/tournamentStore';
 import { tournamentService } from '@bhmhockey/api-client';
 import { colors, spacing, radius } from '../../../../theme';
-import type { TournamentStatus, TournamentFormat, UpdateTournamentRequest } from '@bhmhockey/shared';
+import { TiebreakerOrderEditor } from '../../../../components';
+import { parseTiebreakerOrder, serializeTiebreakerOrder } from '@bhmhockey/shared';
+import type { TournamentStatus, TournamentFormat, UpdateTournamentRequest, TiebreakerCriterion } from '@bhmhockey/shared';
 
 // Platform-specific Picker props for dark theme
 const pickerProps = Platform.select({
@@ -58,6 +60,7 @@ export default function TournamentSettingsScreen() {
   const [waiverUrl, setWaiverUrl] = useState('');
   const [eligibilityRequirements, setEligibilityRequirements] = useState('');
   const [format, setFormat] = useState<TournamentFormat>('SingleElimination');
+  const [tiebreakerOrder, setTiebreakerOrder] = useState<TiebreakerCriterion[]>(parseTiebreakerOrder(null));
 
   // UI state
   const [isSaving, setIsSaving] = useState(false);
@@ -92,6 +95,7 @@ export default function TournamentSettingsScreen() {
       setWaiverUrl(currentTournament.waiverUrl || '');
       setEligibilityRequirements(currentTournament.eligibilityRequirements || '');
       setFormat(currentTournament.format);
+      setTiebreakerOrder(parseTiebreakerOrder(currentTournament.tiebreakerOrder));
     }
   }, [currentTournament]);
 
@@ -197,6 +201,11 @@ export default function TournamentSettingsScreen() {
       }
     }
 
+    if (tiebreakerOrder.length === 0) {
+      Alert.alert('Error', 'Choose at least one tiebreaker');
+      return false;
+    }
+
     return true;
   };
 
@@ -216,6 +225,7 @@ export default function TournamentSettingsScreen() {
         entryFee: parseFloat(entryFee),
         waiverUrl: waiverUrl.trim() || undefined,
         eligibilityRequirements: eligibilityRequirements.trim() || undefined,
+        tiebreakerOrder: serializeTiebreakerOrder(tiebreakerOrder),
       };
 
       // Only include locked fields if they're not locked
@@ -527,6 +537,15 @@ export default function TournamentSettingsScreen() {
             </View>
           </View>
 
+          {/* Tiebreakers Section */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle} allowFontScaling={false}>TIEBREAKERS</Text>
+            <TiebreakerOrderEditor value={tiebreakerOrder} onChange={setTiebreakerOrder} />
+            <Text style={styles.fieldNote} allowFontScaling={false}>
+              Teams level on points are ranked by these, top to bottom
+            </Text>
+          </View>
+
           {/* Payment Section */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle} allowFontScaling={false}>PAYMENT</Text>
@@ -1,4 +1,4 @@
-import { useCallback } from 'react';
+import { useCallback, useEffect } from 'react';
 import {
   View,
   Text,
@@ -7,12 +7,17 @@ import {
   TouchableOpacity,
   ActivityIndicator,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { useLocalSearchParams, useRouter, useFocusEffect, Stack } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useShallow } from 'zustand/react/shallow';
+import { buildIcsCalendar, tournamentMatchToCalendarEntry } from '@bhmhockey/shared';
 
 import { useTournamentStore } from '../../../../stores/tournamentStore';
+import { useLiveMatchUpdates } from '../../../../hooks';
+import { LiveMatchClock, OfflineBanner, ScoringSummary } from '../../../../components';
+import { shareIcsFile } from '../../../../utils/calendarExport';
 import { colors, spacing, radius } from '../../../../theme';
 
 /**
@@ -26,19 +31,31 @@ export default function MatchDetailScreen() {
   const {
     currentTournament,
     matches,
+    matchesCachedAt,
     fetchTournamentById,
     fetchMatches,
     isLoading,
+    gameSheet,
+    fetchGameSheet,
+    clearGameSheet,
   } = useTournamentStore(useShallow((state) => ({
     currentTournament: state.currentTournament,
     matches: state.matches,
+    matchesCachedAt: state.matchesCachedAt,
     fetchTournamentById: state.fetchTournamentById,
     fetchMatches: state.fetchMatches,
     isLoading: state.isLoading,
+    gameSheet: state.gameSheet,
+    fetchGameSheet: state.fetchGameSheet,
+    clearGameSheet: state.clearGameSheet,
   })));
 
   // Find the specific match
   const match = matches.find((m) => m.id === matchId);
+  const hasStarted = match?.status === 'InProgress' || match?.status === 'Completed';
+
+  // Scorekeepers can enter scores without being able to manage the tournament
+  const canEnterScores = !!currentTournament?.canEnterScores;
 
   // Fetch tournament and match data on focus
   useFocusEffect(
@@ -49,11 +66,27 @@ export default function MatchDetailScreen() {
     }, [id, fetchTournamentById])
   );
 
+  // Follow the score and clock while games are being played
+  useLiveMatchUpdates(id);
+
+  // Fetch the game sheet once the match is underway (again whenever the match changes)
+  useEffect(() => {
+    if (id && matchId && hasStarted) {
+      fetchGameSheet(id, matchId);
+    }
+  }, [id, matchId, hasStarted, match?.updatedAt, fetchGameSheet]);
+
+  useEffect(() => () => clearGameSheet(), [clearGameSheet]);
+
   // Handle refresh
   const handleRefresh = useCallback(async () => {
     if (!id) return;
-    await Promise.all([fetchTournamentById(id), fetchMatches(id)]);
-  }, [id, fetchTournamentById, fetchMatches]);
+    await Promise.all([
+      fetchTournamentById(id),
+      fetchMatches(id),
+      hasStarted && matchId ? fetchGameSheet(id, matchId) : Promise.resolve(),
+    ]);
+  }, [id, matchId, hasStarted, fetchTournamentById, fetchMatches, fetchGameSheet]);
 
   // Handle navigation to bracket
   const handleViewBracket = () => {
@@ -67,12 +100,30 @@ export default function MatchDetailScreen() {
     router.push(`/tournaments/${id}/schedule`);
   };
 
-  // Handle navigation to score entry (for admins)
+  // Handle navigation to score entry (for admins and scorekeepers)
   const handleEnterScore = () => {
     if (!id || !matchId) return;
     router.push(`/tournaments/${id}/manage/score?matchId=${matchId}`);
   };
 
+  // Handle navigation to the game sheet (for admins and scorekeepers)
+  const handleOpenGameSheet = () => {
+    if (!id || !matchId) return;
+    router.push(`/tournaments/${id}/manage/gamesheet?matchId=${matchId}`);
+  };
+
+  // Export the match as a one-off .ics file
+  const handleAddToCalendar = async () => {
+    if (!match || !currentTournament) return;
+    const entry = tournamentMatchToCalendarEntry(match, currentTournament.name);
+    if (!entry) return;
+    try {
+      await shareIcsFile(`match-${match.id}.ics`, buildIcsCalendar([entry]));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to export calendar file');
+    }
+  };
+
   // Format scheduled time
   const formattedTime = match?.scheduledTime
     ? new Date(match.scheduledTime).toLocaleString('en-US', {
@@ -116,6 +167,7 @@ export default function MatchDetailScreen() {
 
   // Check if match is completed
   const isCompleted = match?.status === 'Completed' || match?.status === 'Forfeit';
+  const isLive = match?.status === 'InProgress';
   const homeIsWinner = isCompleted && match?.winnerTeamId === match?.homeTeamId;
   const awayIsWinner = isCompleted && match?.winnerTeamId === match?.awayTeamId;
 
@@ -153,6 +205,7 @@ export default function MatchDetailScreen() {
   return (
     <View style={styles.container}>
       <Stack.Screen options={{ title: 'Match Details' }} />
+      <OfflineBanner cachedAt={matchesCachedAt} />
 
       {/* Content */}
       <ScrollView
@@ -173,10 +226,13 @@ export default function MatchDetailScreen() {
           {/* Header: Match number + Status */}
           <View style={styles.matchHeader}>
             <Text style={styles.matchNumber}>Match {match.matchNumber}</Text>
-            <View style={[styles.statusBadge, { backgroundColor: getStatusColor() + '20' }]}>
-              <Text style={[styles.statusText, { color: getStatusColor() }]}>
-                {getStatusLabel()}
-              </Text>
+            <View style={styles.statusRow}>
+              {isLive && match.liveClock && <LiveMatchClock clock={match.liveClock} />}
+              <View style={[styles.statusBadge, { backgroundColor: getStatusColor() + '20' }]}>
+                <Text style={[styles.statusText, { color: getStatusColor() }]}>
+                  {getStatusLabel()}
+                </Text>
+              </View>
             </View>
           </View>
 
@@ -197,7 +253,7 @@ export default function MatchDetailScreen() {
                   {match.homeTeamName || 'TBD'}
                 </Text>
               </View>
-              {isCompleted && (
+              {(isCompleted || isLive) && (
                 <Text style={[styles.score, homeIsWinner && styles.winnerScore]}>
                   {match.homeScore ?? '-'}
                 </Text>
@@ -226,7 +282,7 @@ export default function MatchDetailScreen() {
                   {match.awayTeamName || 'TBD'}
                 </Text>
               </View>
-              {isCompleted && (
+              {(isCompleted || isLive) && (
                 <Text style={[styles.score, awayIsWinner && styles.winnerScore]}>
                   {match.awayScore ?? '-'}
                 </Text>
@@ -292,6 +348,19 @@ export default function MatchDetailScreen() {
           </View>
         </View>
 
+        {/* Scoring Summary */}
+        {gameSheet && gameSheet.matchId === match.id && (
+          <View style={styles.linksSection}>
+            <Text style={styles.sectionTitle}>Scoring Summary</Text>
+            <ScoringSummary
+              sheet={gameSheet}
+              homeTeamId={match.homeTeamId}
+              homeTeamName={match.homeTeamName}
+              awayTeamName={match.awayTeamName}
+            />
+          </View>
+        )}
+
         {/* Tournament Context Links */}
         <View style={styles.linksSection}>
           <Text style={styles.sectionTitle}>Tournament</Text>
@@ -321,20 +390,51 @@ export default function MatchDetailScreen() {
             </View>
             <Ionicons name="chevron-forward" size={20} color={colors.text.muted} />
           </TouchableOpacity>
+
+          {/* Add to Calendar */}
+          {match.scheduledTime && !isCompleted && match.status !== 'Cancelled' && (
+            <TouchableOpacity
+              style={styles.linkButton}
+              onPress={handleAddToCalendar}
+              activeOpacity={0.7}
+            >
+              <View style={styles.linkContent}>
+                <Ionicons name="add-circle-outline" size={20} color={colors.text.secondary} />
+                <Text style={styles.linkText}>Add to Calendar</Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={colors.text.muted} />
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Admin Actions */}
-        {currentTournament?.canManage && !isCompleted && (
+        {canEnterScores && !isCompleted && (
           <View style={styles.actionsSection}>
             <Text style={styles.sectionTitle}>Admin Actions</Text>
+            {match.homeTeamId && match.awayTeamId && (
+              <TouchableOpacity
+                style={styles.adminButton}
+                onPress={handleOpenGameSheet}
+                activeOpacity={0.8}
+              >
+                <Ionicons
+                  name={match.status === 'Scheduled' ? 'play-circle-outline' : 'clipboard-outline'}
+                  size={20}
+                  color={colors.bg.darkest}
+                />
+                <Text style={styles.adminButtonText}>
+                  {match.status === 'Scheduled' ? 'Run Game Live' : 'Game Sheet'}
+                </Text>
+              </TouchableOpacity>
+            )}
             <TouchableOpacity
-              style={styles.adminButton}
+              style={styles.secondaryAdminButton}
               onPress={handleEnterScore}
               activeOpacity={0.8}
             >
-              <Ionicons name="create-outline" size={20} color={colors.bg.darkest} />
-              <Text style={styles.adminButtonText}>
-                {match.status === 'InProgress' ? 'Edit Score' : 'Enter Score'}
+              <Ionicons name="create-outline" size={20} color={colors.primary.teal} />
+              <Text style={styles.secondaryAdminButtonText}>
+                {match.status === 'InProgress' ? 'Edit Score Only' : 'Enter Score Only'}
               </Text>
             </TouchableOpacity>
           </View>
@@ -386,6 +486,11 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     textTransform: 'uppercase',
   },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
   statusBadge: {
     paddingHorizontal: spacing.sm,
     paddingVertical: 4,
@@ -559,6 +664,23 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: colors.bg.darkest,
   },
+  secondaryAdminButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    padding: spacing.md,
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  secondaryAdminButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
 
   // Loading state
   loadingContainer: {
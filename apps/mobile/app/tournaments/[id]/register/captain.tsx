@@ -21,16 +21,14 @@ import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { useTournamentStore } from '../../../../stores/tournamentStore';
 import { useTournamentTeamStore } from '../../../../stores/tournamentTeamStore';
 import { colors, spacing, radius } from '../../../../theme';
-import type { CreateTournamentRegistrationRequest } from '@bhmhockey/shared';
-
-// Custom question types
-interface CustomQuestion {
-  id: string;
-  type: 'text' | 'yesno' | 'dropdown';
-  label: string;
-  required: boolean;
-  options?: string[];
-}
+import { CustomQuestionFields } from '../../../../components';
+import {
+  getDefaultResponses,
+  parseCustomQuestions,
+  serializeCustomResponses,
+  validateCustomResponses,
+} from '@bhmhockey/shared';
+import type { CreateTournamentRegistrationRequest, CustomResponses } from '@bhmhockey/shared';
 
 // Platform-specific Picker props for dark theme
 const pickerProps = Platform.select({
@@ -53,12 +51,12 @@ export default function CaptainRegistrationScreen() {
   // Form state
   const [teamName, setTeamName] = useState('');
   const [position, setPosition] = useState<string>('Skater');
-  const [customResponses, setCustomResponses] = useState<Record<string, any>>({});
+  const [customResponses, setCustomResponses] = useState<CustomResponses>({});
+  const [showQuestionErrors, setShowQuestionErrors] = useState(false);
   const [waiverAccepted, setWaiverAccepted] = useState(false);
 
   // Modal state
   const [showPositionPicker, setShowPositionPicker] = useState(false);
-  const [showDropdownPicker, setShowDropdownPicker] = useState<string | null>(null);
 
   // Keyboard accessory ID for iOS
   const inputAccessoryViewID = 'captainRegFormAccessory';
@@ -70,31 +68,14 @@ export default function CaptainRegistrationScreen() {
     }
   }, [id, currentTournament]);
 
-  // Parse custom questions from JSON string
-  const customQuestions: CustomQuestion[] = (() => {
-    if (!currentTournament?.customQuestions) return [];
-    try {
-      return JSON.parse(currentTournament.customQuestions);
-    } catch (e) {
-      console.error('Failed to parse custom questions:', e);
-      return [];
-    }
-  })();
+  // Parse custom questions (v1 arrays and versioned schemas)
+  const customQuestions = parseCustomQuestions(currentTournament?.customQuestions);
+  const questionErrors = validateCustomResponses(customQuestions, customResponses);
 
   // Initialize custom responses with defaults
   useEffect(() => {
     if (customQuestions.length > 0) {
-      const initial: Record<string, any> = {};
-      customQuestions.forEach((q) => {
-        if (q.type === 'yesno') {
-          initial[q.id] = false;
-        } else if (q.type === 'dropdown' && q.options && q.options.length > 0) {
-          initial[q.id] = q.options[0];
-        } else {
-          initial[q.id] = '';
-        }
-      });
-      setCustomResponses(initial);
+      setCustomResponses(getDefaultResponses(customQuestions));
     }
   }, [customQuestions.length]);
 
@@ -109,19 +90,11 @@ export default function CaptainRegistrationScreen() {
 
   // Step 2 validation (Position & Custom Questions)
   const validateStep2 = (): boolean => {
-    // Validate required custom questions
-    for (const question of customQuestions) {
-      if (question.required) {
-        const response = customResponses[question.id];
-        if (
-          response === undefined ||
-          response === null ||
-          (typeof response === 'string' && response.trim() === '')
-        ) {
-          Alert.alert('Required Field', `Please answer: ${question.label}`);
-          return false;
-        }
-      }
+    const firstError = Object.values(questionErrors)[0];
+    if (firstError) {
+      setShowQuestionErrors(true);
+      Alert.alert('Check Your Answers', firstError);
+      return false;
     }
     return true;
   };
@@ -169,7 +142,7 @@ export default function CaptainRegistrationScreen() {
       // The registration is separate - it registers the user for the tournament
       const registrationRequest: CreateTournamentRegistrationRequest = {
         position,
-        customResponses: JSON.stringify(customResponses),
+        customResponses: serializeCustomResponses(customQuestions, customResponses),
         waiverAccepted: currentTournament?.waiverUrl ? waiverAccepted : true,
       };
 
@@ -206,53 +179,6 @@ export default function CaptainRegistrationScreen() {
     }
   };
 
-  // Render custom question input
-  const renderQuestionInput = (question: CustomQuestion) => {
-    const value = customResponses[question.id];
-
-    switch (question.type) {
-      case 'text':
-        return (
-          <TextInput
-            style={styles.input}
-            value={value || ''}
-            onChangeText={(text) => setCustomResponses({ ...customResponses, [question.id]: text })}
-            placeholder={question.required ? 'Required' : 'Optional'}
-            placeholderTextColor={colors.text.muted}
-            returnKeyType="next"
-            inputAccessoryViewID={inputAccessoryViewID}
-          />
-        );
-
-      case 'yesno':
-        return (
-          <View style={styles.switchRow}>
-            <Text style={styles.switchLabel}>{value ? 'Yes' : 'No'}</Text>
-            <Switch
-              value={value || false}
-              onValueChange={(val) => setCustomResponses({ ...customResponses, [question.id]: val })}
-              trackColor={{ false: colors.border.muted, true: colors.primary.teal }}
-              thumbColor={Platform.OS === 'ios' ? undefined : colors.bg.elevated}
-            />
-          </View>
-        );
-
-      case 'dropdown':
-        return (
-          <TouchableOpacity
-            style={styles.pickerButton}
-            onPress={() => setShowDropdownPicker(question.id)}
-          >
-            <Text style={styles.pickerButtonText}>{value || 'Select an option'}</Text>
-            <Text style={styles.pickerArrow}>&#9660;</Text>
-          </TouchableOpacity>
-        );
-
-      default:
-        return null;
-    }
-  };
-
   // Render step indicator dots
   const renderStepIndicator = () => {
     return (
@@ -364,14 +290,13 @@ export default function CaptainRegistrationScreen() {
               </View>
 
               {/* Custom Questions */}
-              {customQuestions.map((question) => (
-                <View key={question.id} style={styles.field}>
-                  <Text style={styles.label}>
-                    {question.label} {question.required && '*'}
-                  </Text>
-                  {renderQuestionInput(question)}
-                </View>
-              ))}
+              <CustomQuestionFields
+                questions={customQuestions}
+                responses={customResponses}
+                onChange={setCustomResponses}
+                errors={showQuestionErrors ? questionErrors : undefined}
+                inputAccessoryViewID={inputAccessoryViewID}
+              />
             </>
           )}
 
@@ -483,44 +408,6 @@ export default function CaptainRegistrationScreen() {
           </View>
         </Modal>
 
-        {/* Dropdown Question Picker Modal */}
-        {showDropdownPicker && (
-          <Modal visible={true} transparent animationType="slide">
-            <View style={styles.modalOverlay}>
-              <View style={styles.modalContent}>
-                <View style={styles.modalHeader}>
-                  <Text style={styles.modalTitle}>
-                    {customQuestions.find((q) => q.id === showDropdownPicker)?.label}
-                  </Text>
-                  <TouchableOpacity onPress={() => setShowDropdownPicker(null)}>
-                    <Text style={styles.modalDone}>Done</Text>
-                  </TouchableOpacity>
-                </View>
-                <Picker
-                  selectedValue={customResponses[showDropdownPicker] || ''}
-                  onValueChange={(value) => {
-                    setCustomResponses({ ...customResponses, [showDropdownPicker]: value });
-                  }}
-                  style={styles.modalPicker}
-                  dropdownIconColor={colors.text.primary}
-                  {...pickerProps}
-                >
-                  {customQuestions
-                    .find((q) => q.id === showDropdownPicker)
-                    ?.options?.map((option) => (
-                      <Picker.Item
-                        key={option}
-                        label={option}
-                        value={option}
-                        color={getPickerItemColor()}
-                      />
-                    ))}
-                </Picker>
-              </View>
-            </View>
-          </Modal>
-        )}
-
         {/* iOS keyboard accessory with Done button */}
         {Platform.OS === 'ios' && (
           <InputAccessoryView nativeID={inputAccessoryViewID}>
@@ -669,10 +556,6 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: colors.border.default,
   },
-  switchLabel: {
-    fontSize: 15,
-    color: colors.text.primary,
-  },
 
   // Summary Card
   summaryCard: {
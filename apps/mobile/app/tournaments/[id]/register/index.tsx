@@ -4,7 +4,6 @@ import {
   Text,
   StyleSheet,
   ScrollView,
-  TextInput,
   TouchableOpacity,
   ActivityIndicator,
   Alert,
@@ -20,16 +19,14 @@ import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { useTournamentStore } from '../../../../stores/tournamentStore';
 import { useAuthStore } from '../../../../stores/authStore';
 import { colors, spacing, radius } from '../../../../theme';
-import type { CreateTournamentRegistrationRequest } from '@bhmhockey/shared';
-
-// Custom question types
-interface CustomQuestion {
-  id: string;
-  type: 'text' | 'yesno' | 'dropdown';
-  label: string;
-  required: boolean;
-  options?: string[];
-}
+import { CustomQuestionFields } from '../../../../components';
+import {
+  getDefaultResponses,
+  parseCustomQuestions,
+  serializeCustomResponses,
+  validateCustomResponses,
+} from '@bhmhockey/shared';
+import type { CreateTournamentRegistrationRequest, CustomResponses } from '@bhmhockey/shared';
 
 // Platform-specific Picker props for dark theme
 const pickerProps = Platform.select({
@@ -53,9 +50,9 @@ export default function TournamentRegisterScreen() {
 
   // Step 1: Position & Custom Questions
   const [position, setPosition] = useState<string>('Skater');
-  const [customResponses, setCustomResponses] = useState<Record<string, any>>({});
+  const [customResponses, setCustomResponses] = useState<CustomResponses>({});
+  const [showQuestionErrors, setShowQuestionErrors] = useState(false);
   const [showPositionPicker, setShowPositionPicker] = useState(false);
-  const [showDropdownPicker, setShowDropdownPicker] = useState<string | null>(null);
 
   // Step 2: Payment & Waiver
   const [waiverAccepted, setWaiverAccepted] = useState(false);
@@ -70,49 +67,24 @@ export default function TournamentRegisterScreen() {
     }
   }, [id, currentTournament]);
 
-  // Parse custom questions from JSON string
-  const customQuestions: CustomQuestion[] = (() => {
-    if (!currentTournament?.customQuestions) return [];
-    try {
-      return JSON.parse(currentTournament.customQuestions);
-    } catch (e) {
-      console.error('Failed to parse custom questions:', e);
-      return [];
-    }
-  })();
+  // Parse custom questions (v1 arrays and versioned schemas)
+  const customQuestions = parseCustomQuestions(currentTournament?.customQuestions);
+  const questionErrors = validateCustomResponses(customQuestions, customResponses);
 
   // Initialize custom responses with defaults
   useEffect(() => {
     if (customQuestions.length > 0) {
-      const initial: Record<string, any> = {};
-      customQuestions.forEach((q) => {
-        if (q.type === 'yesno') {
-          initial[q.id] = false;
-        } else if (q.type === 'dropdown' && q.options && q.options.length > 0) {
-          initial[q.id] = q.options[0];
-        } else {
-          initial[q.id] = '';
-        }
-      });
-      setCustomResponses(initial);
+      setCustomResponses(getDefaultResponses(customQuestions));
     }
   }, [customQuestions.length]);
 
   // Validation for step 1
   const validateStep1 = (): boolean => {
-    // Validate required custom questions
-    for (const question of customQuestions) {
-      if (question.required) {
-        const response = customResponses[question.id];
-        if (
-          response === undefined ||
-          response === null ||
-          (typeof response === 'string' && response.trim() === '')
-        ) {
-          Alert.alert('Required Field', `Please answer: ${question.label}`);
-          return false;
-        }
-      }
+    const firstError = Object.values(questionErrors)[0];
+    if (firstError) {
+      setShowQuestionErrors(true);
+      Alert.alert('Check Your Answers', firstError);
+      return false;
     }
     return true;
   };
@@ -143,7 +115,7 @@ export default function TournamentRegisterScreen() {
 
     const request: CreateTournamentRegistrationRequest = {
       position,
-      customResponses: customQuestions.length > 0 ? JSON.stringify(customResponses) : undefined,
+      customResponses: serializeCustomResponses(customQuestions, customResponses),
       waiverAccepted: currentTournament?.waiverUrl ? waiverAccepted : true,
     };
 
@@ -174,53 +146,6 @@ export default function TournamentRegisterScreen() {
     }
   };
 
-  // Render custom question input
-  const renderQuestionInput = (question: CustomQuestion) => {
-    const value = customResponses[question.id];
-
-    switch (question.type) {
-      case 'text':
-        return (
-          <TextInput
-            style={styles.input}
-            value={value || ''}
-            onChangeText={(text) => setCustomResponses({ ...customResponses, [question.id]: text })}
-            placeholder={question.required ? 'Required' : 'Optional'}
-            placeholderTextColor={colors.text.muted}
-            returnKeyType="next"
-            inputAccessoryViewID={inputAccessoryViewID}
-          />
-        );
-
-      case 'yesno':
-        return (
-          <View style={styles.switchRow}>
-            <Text style={styles.switchLabel}>{value ? 'Yes' : 'No'}</Text>
-            <Switch
-              value={value || false}
-              onValueChange={(val) => setCustomResponses({ ...customResponses, [question.id]: val })}
-              trackColor={{ false: colors.border.muted, true: colors.primary.teal }}
-              thumbColor={Platform.OS === 'ios' ? undefined : colors.bg.elevated}
-            />
-          </View>
-        );
-
-      case 'dropdown':
-        return (
-          <TouchableOpacity
-            style={styles.pickerButton}
-            onPress={() => setShowDropdownPicker(question.id)}
-          >
-            <Text style={styles.pickerButtonText}>{value || 'Select an option'}</Text>
-            <Text style={styles.pickerArrow}>&#9660;</Text>
-          </TouchableOpacity>
-        );
-
-      default:
-        return null;
-    }
-  };
-
   // Loading state
   if (!currentTournament) {
     return (
@@ -339,14 +264,13 @@ export default function TournamentRegisterScreen() {
               </View>
 
               {/* Custom Questions */}
-              {customQuestions.map((question) => (
-                <View key={question.id} style={styles.field}>
-                  <Text style={styles.label}>
-                    {question.label} {question.required && '*'}
-                  </Text>
-                  {renderQuestionInput(question)}
-                </View>
-              ))}
+              <CustomQuestionFields
+                questions={customQuestions}
+                responses={customResponses}
+                onChange={setCustomResponses}
+                errors={showQuestionErrors ? questionErrors : undefined}
+                inputAccessoryViewID={inputAccessoryViewID}
+              />
 
               {/* Next Button */}
               <TouchableOpacity style={styles.primaryButton} onPress={handleNext}>
@@ -455,44 +379,6 @@ export default function TournamentRegisterScreen() {
           </View>
         </Modal>
 
-        {/* Dropdown Question Picker Modal */}
-        {showDropdownPicker && (
-          <Modal visible={true} transparent animationType="slide">
-            <View style={styles.modalOverlay}>
-              <View style={styles.modalContent}>
-                <View style={styles.modalHeader}>
-                  <Text style={styles.modalTitle}>
-                    {customQuestions.find((q) => q.id === showDropdownPicker)?.label}
-                  </Text>
-                  <TouchableOpacity onPress={() => setShowDropdownPicker(null)}>
-                    <Text style={styles.modalDone}>Done</Text>
-                  </TouchableOpacity>
-                </View>
-                <Picker
-                  selectedValue={customResponses[showDropdownPicker] || ''}
-                  onValueChange={(value) => {
-                    setCustomResponses({ ...customResponses, [showDropdownPicker]: value });
-                  }}
-                  style={styles.modalPicker}
-                  dropdownIconColor={colors.text.primary}
-                  {...pickerProps}
-                >
-                  {customQuestions
-                    .find((q) => q.id === showDropdownPicker)
-                    ?.options?.map((option) => (
-                      <Picker.Item
-                        key={option}
-                        label={option}
-                        value={option}
-                        color={getPickerItemColor()}
-                      />
-                    ))}
-                </Picker>
-              </View>
-            </View>
-          </Modal>
-        )}
-
         {/* iOS keyboard accessory with Done button */}
         {Platform.OS === 'ios' && (
           <InputAccessoryView nativeID={inputAccessoryViewID}>
@@ -589,15 +475,6 @@ const styles = StyleSheet.create({
     letterSpacing: 0.5,
     marginBottom: spacing.xs,
   },
-  input: {
-    backgroundColor: colors.bg.elevated,
-    borderRadius: radius.md,
-    padding: spacing.md,
-    fontSize: 15,
-    borderWidth: 1,
-    borderColor: colors.border.default,
-    color: colors.text.primary,
-  },
   pickerButton: {
     backgroundColor: colors.bg.elevated,
     borderRadius: radius.md,
@@ -618,20 +495,6 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     marginLeft: spacing.sm,
   },
-  switchRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    backgroundColor: colors.bg.elevated,
-    borderRadius: radius.md,
-    padding: spacing.md,
-    borderWidth: 1,
-    borderColor: colors.border.default,
-  },
-  switchLabel: {
-    fontSize: 15,
-    color: colors.text.primary,
-  },
 
   // Eligibility Box
   eligibilityBox: {
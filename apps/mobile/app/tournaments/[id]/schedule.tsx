@@ -4,9 +4,11 @@ import {
   Text,
   StyleSheet,
   SectionList,
+  ScrollView,
   TouchableOpacity,
   ActivityIndicator,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { useLocalSearchParams, useRouter, useFocusEffect, Stack } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
@@ -14,8 +16,16 @@ import { useShallow } from 'zustand/react/shallow';
 
 import { useTournamentStore } from '../../../stores/tournamentStore';
 import { useAuthStore } from '../../../stores/authStore';
+import { useLiveMatchUpdates } from '../../../hooks';
+import {
+  DraggableScheduleDraft,
+  LiveMatchClock,
+  OfflineBanner,
+  ScheduleGeneratorModal,
+} from '../../../components';
 import { colors, spacing, radius } from '../../../theme';
-import type { TournamentMatchDto } from '@bhmhockey/shared';
+import { findScheduleConflicts } from '@bhmhockey/shared';
+import type { ScheduleSettings, TournamentMatchDto } from '@bhmhockey/shared';
 
 /**
  * ScheduleGameCard - Display a single match with teams, scores, time, and venue
@@ -27,6 +37,8 @@ interface ScheduleGameCardProps {
 
 function ScheduleGameCard({ match, onPress }: ScheduleGameCardProps) {
   const isCompleted = match.status === 'Completed' || match.status === 'Forfeit';
+  const isLive = match.status === 'InProgress';
+  const showScore = isCompleted || isLive;
   const homeIsWinner = isCompleted && match.winnerTeamId === match.homeTeamId;
   const awayIsWinner = isCompleted && match.winnerTeamId === match.awayTeamId;
 
@@ -72,10 +84,13 @@ function ScheduleGameCard({ match, onPress }: ScheduleGameCardProps) {
       {/* Header: Match number + Status */}
       <View style={styles.gameHeader}>
         <Text style={styles.matchNumber}>Match {match.matchNumber}</Text>
-        <View style={[styles.statusBadge, { backgroundColor: getStatusColor() + '20' }]}>
-          <Text style={[styles.statusText, { color: getStatusColor() }]}>
-            {getStatusLabel()}
-          </Text>
+        <View style={styles.statusRow}>
+          {isLive && match.liveClock && <LiveMatchClock clock={match.liveClock} style={styles.liveClock} />}
+          <View style={[styles.statusBadge, { backgroundColor: getStatusColor() + '20' }]}>
+            <Text style={[styles.statusText, { color: getStatusColor() }]}>
+              {getStatusLabel()}
+            </Text>
+          </View>
         </View>
       </View>
 
@@ -93,7 +108,7 @@ function ScheduleGameCard({ match, onPress }: ScheduleGameCardProps) {
           >
             {match.homeTeamName || 'TBD'}
           </Text>
-          {isCompleted && (
+          {showScore && (
             <Text style={[styles.score, homeIsWinner && styles.winnerScore]}>
               {match.homeScore ?? '-'}
             </Text>
@@ -117,7 +132,7 @@ function ScheduleGameCard({ match, onPress }: ScheduleGameCardProps) {
           >
             {match.awayTeamName || 'TBD'}
           </Text>
-          {isCompleted && (
+          {showScore && (
             <Text style={[styles.score, awayIsWinner && styles.winnerScore]}>
               {match.awayScore ?? '-'}
             </Text>
@@ -181,6 +196,7 @@ export default function ScheduleScreen() {
   const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
   const [showMyGamesOnly, setShowMyGamesOnly] = useState(false);
+  const [showGenerator, setShowGenerator] = useState(false);
 
   const user = useAuthStore((state) => state.user);
 
@@ -188,16 +204,53 @@ export default function ScheduleScreen() {
     matches,
     currentTournament,
     myRegistration,
+    matchesCachedAt,
     fetchMatches,
     isLoading,
+    processingId,
+    scheduleDraft,
+    scheduleDraftSettings,
+    generateScheduleDraft,
+    swapScheduleDraftMatches,
+    discardScheduleDraft,
+    publishSchedule,
   } = useTournamentStore(useShallow((state) => ({
     matches: state.matches,
+    matchesCachedAt: state.matchesCachedAt,
     currentTournament: state.currentTournament,
     myRegistration: state.myRegistration,
     fetchMatches: state.fetchMatches,
     isLoading: state.isLoading,
+    processingId: state.processingId,
+    scheduleDraft: state.scheduleDraft,
+    scheduleDraftSettings: state.scheduleDraftSettings,
+    generateScheduleDraft: state.generateScheduleDraft,
+    swapScheduleDraftMatches: state.swapScheduleDraftMatches,
+    discardScheduleDraft: state.discardScheduleDraft,
+    publishSchedule: state.publishSchedule,
   })));
 
+  const canManage = !!currentTournament?.canManage;
+  const isPublishing = processingId === `schedule-${id}`;
+
+  // Games the generator can place (not byes, not started)
+  const unplayedCount = useMemo(
+    () => matches.filter((m) => !m.isBye && m.status === 'Scheduled').length,
+    [matches]
+  );
+
+  // Re-checked after every swap in the draft
+  const draftConflicts = useMemo(
+    () =>
+      scheduleDraft && scheduleDraftSettings
+        ? findScheduleConflicts(scheduleDraft.slots, matches, scheduleDraftSettings)
+        : [],
+    [scheduleDraft, scheduleDraftSettings, matches]
+  );
+
+  // Follow scores and clocks while games are being played
+  useLiveMatchUpdates(id);
+
   // Fetch matches on focus
   useFocusEffect(
     useCallback(() => {
@@ -300,6 +353,56 @@ export default function ScheduleScreen() {
     [router, id]
   );
 
+  // Generate a draft from the organizer's settings
+  const handleGenerate = useCallback(
+    (settings: ScheduleSettings) => {
+      setShowGenerator(false);
+      const draft = generateScheduleDraft(settings);
+      if (draft.unscheduledMatchIds.length > 0) {
+        Alert.alert(
+          'Not Enough Ice Time',
+          `${draft.unscheduledMatchIds.length} game(s) didn't fit. Add more ice time or shorten the rest between games, then generate again.`
+        );
+      }
+    },
+    [generateScheduleDraft]
+  );
+
+  const handleDiscardDraft = useCallback(() => {
+    Alert.alert('Discard Draft', 'Throw away this schedule draft? The published schedule is unchanged.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Discard', style: 'destructive', onPress: discardScheduleDraft },
+    ]);
+  }, [discardScheduleDraft]);
+
+  const handlePublish = useCallback(() => {
+    if (!id || !scheduleDraft) return;
+
+    const publish = async () => {
+      const success = await publishSchedule(id);
+      if (success) {
+        Alert.alert('Schedule Published', 'Every team can now see their rink and game times.');
+      } else {
+        Alert.alert('Error', useTournamentStore.getState().error || 'Failed to publish schedule');
+      }
+    };
+
+    const warnings = [
+      draftConflicts.length > 0 && `${draftConflicts.length} scheduling conflict(s) remain.`,
+      scheduleDraft.unscheduledMatchIds.length > 0 &&
+        `${scheduleDraft.unscheduledMatchIds.length} game(s) have no slot and keep their current time.`,
+    ].filter(Boolean);
+
+    Alert.alert(
+      'Publish Schedule',
+      [...warnings, `Set rinks and times for ${scheduleDraft.slots.length} game(s)?`].join(' '),
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Publish', onPress: publish },
+      ]
+    );
+  }, [id, scheduleDraft, draftConflicts.length, publishSchedule]);
+
   // Render section header
   const renderSectionHeader = useCallback(
     ({ section }: { section: RoundSection }) => (
@@ -352,6 +455,18 @@ export default function ScheduleScreen() {
           </View>
         </View>
 
+        {/* Schedule generator (organizers) */}
+        {canManage && unplayedCount > 0 && (
+          <TouchableOpacity
+            style={styles.generateButton}
+            onPress={() => setShowGenerator(true)}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="calendar" size={18} color={colors.primary.teal} />
+            <Text style={styles.generateButtonText}>Generate Schedule</Text>
+          </TouchableOpacity>
+        )}
+
         {/* My Games Filter Toggle (only show if user has a team) */}
         {userTeamId && (
           <TouchableOpacity
@@ -376,7 +491,7 @@ export default function ScheduleScreen() {
         )}
       </View>
     );
-  }, [matches.length, stats, userTeamId, showMyGamesOnly]);
+  }, [matches.length, stats, userTeamId, showMyGamesOnly, canManage, unplayedCount]);
 
   // Render empty state
   const renderEmptyState = () => {
@@ -405,13 +520,81 @@ export default function ScheduleScreen() {
 
   // Show loading only on initial load
   const showLoading = isLoading && matches.length === 0;
+  const isReviewingDraft = canManage && !!scheduleDraft;
+
+  // Draft review: drag to swap, then publish or discard
+  const renderDraftReview = () => {
+    if (!scheduleDraft) return null;
+    return (
+      <>
+        <ScrollView contentContainerStyle={styles.listHeader}>
+          <View style={styles.draftCard}>
+            <Text style={styles.draftTitle}>Draft Schedule</Text>
+            <Text style={styles.draftText}>
+              {scheduleDraft.slots.length} {scheduleDraft.slots.length === 1 ? 'game' : 'games'} across{' '}
+              {scheduleDraftSettings?.rinks.length ?? 0} rink(s). Long-press a game and drop it on another to
+              swap their times. Nothing is visible to teams until you publish.
+            </Text>
+            {scheduleDraft.unscheduledMatchIds.length > 0 && (
+              <Text style={styles.draftWarning}>
+                {scheduleDraft.unscheduledMatchIds.length} game(s) didn't fit in the ice time
+              </Text>
+            )}
+            {draftConflicts.map((conflict, index) => {
+              const match = matches.find((m) => m.id === conflict.matchId);
+              return (
+                <Text key={`${conflict.matchId}-${index}`} style={styles.draftWarning}>
+                  Match {match?.matchNumber ?? '?'}: {conflict.message}
+                </Text>
+              );
+            })}
+          </View>
+
+          <DraggableScheduleDraft
+            slots={scheduleDraft.slots}
+            matches={matches}
+            conflicts={draftConflicts}
+            onSwap={swapScheduleDraftMatches}
+          />
+        </ScrollView>
+
+        <View style={styles.draftActions}>
+          <TouchableOpacity style={styles.draftSecondaryButton} onPress={handleDiscardDraft} activeOpacity={0.7}>
+            <Text style={styles.draftSecondaryText}>Discard</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.draftSecondaryButton}
+            onPress={() => setShowGenerator(true)}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.draftSecondaryText}>Settings</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.draftPublishButton, isPublishing && styles.draftPublishDisabled]}
+            onPress={handlePublish}
+            disabled={isPublishing}
+            activeOpacity={0.7}
+          >
+            {isPublishing ? (
+              <ActivityIndicator size="small" color={colors.bg.darkest} />
+            ) : (
+              <Text style={styles.draftPublishText}>Publish</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
 
   return (
     <View style={styles.container}>
       <Stack.Screen options={{ title: 'Schedule' }} />
+      <OfflineBanner cachedAt={matchesCachedAt} />
 
       {/* Content */}
-      {showLoading ? (
+      {isReviewingDraft ? (
+        renderDraftReview()
+      ) : showLoading ? (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={colors.primary.teal} />
         </View>
@@ -441,6 +624,17 @@ export default function ScheduleScreen() {
           ListFooterComponent={<View style={styles.listFooter} />}
         />
       )}
+
+      {canManage && currentTournament && (
+        <ScheduleGeneratorModal
+          visible={showGenerator}
+          onClose={() => setShowGenerator(false)}
+          onGenerate={handleGenerate}
+          matchCount={unplayedCount}
+          defaultDate={currentTournament.startDate}
+          initialSettings={scheduleDraftSettings}
+        />
+      )}
     </View>
   );
 }
@@ -511,6 +705,84 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
 
+  // Schedule generator styles
+  generateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.sm,
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+    padding: spacing.sm,
+  },
+  generateButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  draftCard: {
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    padding: spacing.md,
+    gap: spacing.xs,
+  },
+  draftTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  draftText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    lineHeight: 18,
+  },
+  draftWarning: {
+    fontSize: 13,
+    color: colors.status.warning,
+  },
+  draftActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.default,
+  },
+  draftSecondaryButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+    alignItems: 'center',
+    backgroundColor: colors.bg.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+  },
+  draftSecondaryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  draftPublishButton: {
+    flex: 1.5,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: colors.primary.teal,
+  },
+  draftPublishDisabled: {
+    opacity: 0.6,
+  },
+  draftPublishText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.bg.darkest,
+  },
+
   // Section styles
   sectionHeader: {
     flexDirection: 'row',
@@ -567,6 +839,14 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     textTransform: 'uppercase',
   },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  liveClock: {
+    fontSize: 11,
+  },
   statusBadge: {
     paddingHorizontal: spacing.sm,
     paddingVertical: 2,
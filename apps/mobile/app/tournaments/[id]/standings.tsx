@@ -4,17 +4,27 @@ import {
   Text,
   StyleSheet,
   FlatList,
+  ScrollView,
+  TouchableOpacity,
   ActivityIndicator,
   RefreshControl,
 } from 'react-native';
 import { useLocalSearchParams, Stack, useFocusEffect } from 'expo-router';
 import { useTournamentStore } from '../../../stores/tournamentStore';
-import { Badge, EmptyState } from '../../../components';
+import { Badge, EmptyState, OfflineBanner, PlayerStatsTable } from '../../../components';
 import { colors, spacing, radius } from '../../../theme';
+import { TIEBREAKER_LABELS } from '@bhmhockey/shared';
 import type { TeamStandingDto } from '@bhmhockey/shared';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuthStore } from '../../../stores/authStore';
 
+type StandingsTab = 'teams' | 'players';
+
+const TABS: { key: StandingsTab; label: string }[] = [
+  { key: 'teams', label: 'Teams' },
+  { key: 'players', label: 'Players' },
+];
+
 // Format goal differential with sign
 const formatGoalDiff = (diff: number): string => {
   if (diff > 0) return `+${diff}`;
@@ -24,30 +34,42 @@ const formatGoalDiff = (diff: number): string => {
 export default function StandingsScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [activeTab, setActiveTab] = useState<StandingsTab>('teams');
 
   const {
     standings,
     playoffCutoff,
     tiedGroups,
+    tiebreakerOrder,
+    standingsCachedAt,
     fetchStandings,
     isLoading,
     myRegistration,
+    playerStats,
+    isLoadingPlayerStats,
+    playerStatsCachedAt,
+    fetchPlayerStats,
   } = useTournamentStore();
 
   const user = useAuthStore((state) => state.user);
 
-  // Fetch standings when screen focuses
+  // Fetch the active tab's data when screen focuses or the tab changes
   useFocusEffect(
     useCallback(() => {
-      if (id) fetchStandings(id);
-    }, [id])
+      if (!id) return;
+      if (activeTab === 'teams') {
+        fetchStandings(id);
+      } else {
+        fetchPlayerStats(id);
+      }
+    }, [id, activeTab])
   );
 
   const handleRefresh = async () => {
     if (!id) return;
     setIsRefreshing(true);
     try {
-      await fetchStandings(id);
+      await (activeTab === 'teams' ? fetchStandings(id) : fetchPlayerStats(id));
     } finally {
       setIsRefreshing(false);
     }
@@ -215,9 +237,11 @@ export default function StandingsScreen() {
 
         <View style={styles.tiebreakerContainer}>
           <Text style={styles.tiebreakerTitle}>Tiebreakers</Text>
-          <Text style={styles.tiebreakerText}>1) Head-to-head record</Text>
-          <Text style={styles.tiebreakerText}>2) Goal differential</Text>
-          <Text style={styles.tiebreakerText}>3) Goals scored</Text>
+          {tiebreakerOrder.map((criterion, index) => (
+            <Text key={criterion} style={styles.tiebreakerText}>
+              {index + 1}) {TIEBREAKER_LABELS[criterion]}
+            </Text>
+          ))}
         </View>
       </View>
     );
@@ -235,7 +259,7 @@ export default function StandingsScreen() {
   const headerTitle = `Standings${standings.length > 0 ? ` (${standings.length})` : ''}`;
 
   // Show loading spinner only on initial load (not during refresh)
-  if (isLoading && standings.length === 0) {
+  if (activeTab === 'teams' && isLoading && standings.length === 0) {
     return (
       <>
         <Stack.Screen
@@ -264,27 +288,74 @@ export default function StandingsScreen() {
           headerTintColor: colors.text.primary,
         }}
       />
+      <OfflineBanner cachedAt={activeTab === 'teams' ? standingsCachedAt : playerStatsCachedAt} />
+
+      {/* Teams / Players */}
+      <View style={styles.tabControlContainer}>
+        <View style={styles.tabsContainer}>
+          {TABS.map((tab) => {
+            const isSelected = activeTab === tab.key;
+            return (
+              <TouchableOpacity
+                key={tab.key}
+                style={[styles.tab, isSelected && styles.tabSelected]}
+                onPress={() => setActiveTab(tab.key)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.tabText, isSelected && styles.tabTextSelected]} allowFontScaling={false}>
+                  {tab.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
 
-      <FlatList
-        data={standings}
-        keyExtractor={(item) => item.teamId}
-        renderItem={renderStandingRow}
-        ListHeaderComponent={standings.length > 0 ? ListHeaderComponent : null}
-        ListFooterComponent={ListFooterComponent}
-        ListEmptyComponent={ListEmptyComponent}
-        contentContainerStyle={[
-          styles.listContent,
-          standings.length === 0 && styles.emptyListContent,
-        ]}
-        refreshControl={
-          <RefreshControl
-            refreshing={isRefreshing}
-            onRefresh={handleRefresh}
-            tintColor={colors.primary.teal}
-            colors={[colors.primary.teal]}
-          />
-        }
-      />
+      {activeTab === 'players' ? (
+        <ScrollView
+          contentContainerStyle={[styles.listContent, !playerStats && styles.emptyListContent]}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+              tintColor={colors.primary.teal}
+              colors={[colors.primary.teal]}
+            />
+          }
+        >
+          {playerStats ? (
+            <PlayerStatsTable stats={playerStats} highlightUserId={user?.id} />
+          ) : isLoadingPlayerStats ? (
+            <ActivityIndicator size="large" color={colors.primary.teal} />
+          ) : (
+            <EmptyState
+              title="No Player Stats Yet"
+              message="Player stats will appear once scorekeepers fill in game sheets."
+            />
+          )}
+        </ScrollView>
+      ) : (
+        <FlatList
+          data={standings}
+          keyExtractor={(item) => item.teamId}
+          renderItem={renderStandingRow}
+          ListHeaderComponent={standings.length > 0 ? ListHeaderComponent : null}
+          ListFooterComponent={ListFooterComponent}
+          ListEmptyComponent={ListEmptyComponent}
+          contentContainerStyle={[
+            styles.listContent,
+            standings.length === 0 && styles.emptyListContent,
+          ]}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+              tintColor={colors.primary.teal}
+              colors={[colors.primary.teal]}
+            />
+          }
+        />
+      )}
     </View>
   );
 }
@@ -318,6 +389,38 @@ const styles = StyleSheet.create({
     alignItems: 'center',
   },
 
+  // Teams / Players tabs
+  tabControlContainer: {
+    backgroundColor: colors.bg.dark,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  tabsContainer: {
+    flexDirection: 'row',
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.xs,
+  },
+  tab: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+    borderRadius: radius.sm,
+  },
+  tabSelected: {
+    backgroundColor: colors.primary.teal,
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.muted,
+  },
+  tabTextSelected: {
+    color: colors.bg.darkest,
+  },
+
   // Tied Groups Alert Banner
   tiedGroupsAlert: {
     flexDirection: 'row',
@@ -7,11 +7,14 @@ import {
   ScrollView,
   TouchableOpacity,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { useLocalSearchParams, useRouter, useFocusEffect, Stack } from 'expo-router';
+import { subRequestService } from '@bhmhockey/api-client';
 import { useTournamentTeamStore } from '../../../../../stores/tournamentTeamStore';
 import { useTournamentStore } from '../../../../../stores/tournamentStore';
 import { useAuthStore } from '../../../../../stores/authStore';
+import { getErrorMessage } from '../../../../../stores/eventStore';
 import { TeamRosterList, Badge } from '../../../../../components';
 import { colors, spacing, radius } from '../../../../../theme';
 import type { TournamentMatchDto, TournamentTeamStatus } from '@bhmhockey/shared';
@@ -98,6 +101,38 @@ export default function TeamDetailScreen() {
   // Check if current user is captain
   const isCaptain = currentTeam?.captainUserId === user?.id;
 
+  // Rostered players (not the captain, who must hand off captaincy first) can ask for a sub
+  const canRequestSub =
+    !isCaptain &&
+    teamMembers.some((m) => m.userId === user?.id && m.status === 'Accepted') &&
+    currentTournament?.status !== 'Completed' &&
+    currentTournament?.status !== 'Cancelled';
+
+  const handleRequestSub = () => {
+    if (!teamId) return;
+    Alert.alert(
+      'Find a Sub',
+      'Players who play your position will be notified. The first to accept takes your spot on the team.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Post Request',
+          onPress: async () => {
+            try {
+              await subRequestService.createSubRequest({ tournamentTeamId: teamId });
+              Alert.alert('Sub Request Posted', "We'll let you know when someone takes your spot.", [
+                { text: 'OK' },
+                { text: 'View Requests', onPress: () => router.push('/subs') },
+              ]);
+            } catch (error) {
+              Alert.alert('Error', getErrorMessage(error, 'Failed to post sub request'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // Filter matches for this team (upcoming games only)
   const teamMatches = matches.filter((match) => {
     const isTeamInMatch = match.homeTeamId === teamId || match.awayTeamId === teamId;
@@ -250,6 +285,11 @@ export default function TeamDetailScreen() {
             isCaptain={isCaptain}
             isLoading={isLoading}
           />
+          {canRequestSub && (
+            <TouchableOpacity style={styles.subButton} onPress={handleRequestSub}>
+              <Text style={styles.subButtonText}>Can't Make It? Find a Sub</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
         {/* Upcoming Games Section */}
@@ -366,6 +406,19 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: spacing.lg,
   },
+  subButton: {
+    marginTop: spacing.sm,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+  },
+  subButtonText: {
+    color: colors.primary.teal,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   sectionHeader: {
     fontSize: 12,
     fontWeight: '600',
@@ -12,7 +12,6 @@ import {
   KeyboardAvoidingView,
   Keyboard,
   InputAccessoryView,
-  Switch,
   Modal,
 } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
@@ -20,15 +19,9 @@ import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { useTournamentStore } from '../../../../stores/tournamentStore';
 import { useTournamentTeamStore } from '../../../../stores/tournamentTeamStore';
 import { colors, spacing, radius } from '../../../../theme';
-
-// Custom question types
-interface CustomQuestion {
-  id: string;
-  type: 'text' | 'yesno' | 'dropdown';
-  label: string;
-  required: boolean;
-  options?: string[];
-}
+import { CustomQuestionFields } from '../../../../components';
+import { getDefaultResponses, parseCustomQuestions, validateCustomResponses } from '@bhmhockey/shared';
+import type { CustomResponses } from '@bhmhockey/shared';
 
 // Platform-specific Picker props for dark theme
 const pickerProps = Platform.select({
@@ -48,9 +41,9 @@ export default function CreateTeamScreen() {
   // Form state
   const [teamName, setTeamName] = useState('');
   const [position, setPosition] = useState<string>('Skater');
-  const [customResponses, setCustomResponses] = useState<Record<string, any>>({});
+  const [customResponses, setCustomResponses] = useState<CustomResponses>({});
+  const [showQuestionErrors, setShowQuestionErrors] = useState(false);
   const [showPositionPicker, setShowPositionPicker] = useState(false);
-  const [showDropdownPicker, setShowDropdownPicker] = useState<string | null>(null);
 
   // Keyboard accessory ID for iOS
   const inputAccessoryViewID = 'createTeamFormAccessory';
@@ -62,31 +55,14 @@ export default function CreateTeamScreen() {
     }
   }, [id, currentTournament]);
 
-  // Parse custom questions from JSON string
-  const customQuestions: CustomQuestion[] = (() => {
-    if (!currentTournament?.customQuestions) return [];
-    try {
-      return JSON.parse(currentTournament.customQuestions);
-    } catch (e) {
-      console.error('Failed to parse custom questions:', e);
-      return [];
-    }
-  })();
+  // Parse custom questions (v1 arrays and versioned schemas)
+  const customQuestions = parseCustomQuestions(currentTournament?.customQuestions);
+  const questionErrors = validateCustomResponses(customQuestions, customResponses);
 
   // Initialize custom responses with defaults
   useEffect(() => {
     if (customQuestions.length > 0) {
-      const initial: Record<string, any> = {};
-      customQuestions.forEach((q) => {
-        if (q.type === 'yesno') {
-          initial[q.id] = false;
-        } else if (q.type === 'dropdown' && q.options && q.options.length > 0) {
-          initial[q.id] = q.options[0];
-        } else {
-          initial[q.id] = '';
-        }
-      });
-      setCustomResponses(initial);
+      setCustomResponses(getDefaultResponses(customQuestions));
     }
   }, [customQuestions.length]);
 
@@ -98,19 +74,12 @@ export default function CreateTeamScreen() {
       return false;
     }
 
-    // Validate required custom questions
-    for (const question of customQuestions) {
-      if (question.required) {
-        const response = customResponses[question.id];
-        if (
-          response === undefined ||
-          response === null ||
-          (typeof response === 'string' && response.trim() === '')
-        ) {
-          Alert.alert('Required Field', `Please answer: ${question.label}`);
-          return false;
-        }
-      }
+    // Validate custom question answers
+    const firstError = Object.values(questionErrors)[0];
+    if (firstError) {
+      setShowQuestionErrors(true);
+      Alert.alert('Check Your Answers', firstError);
+      return false;
     }
     return true;
   };
@@ -145,53 +114,6 @@ export default function CreateTeamScreen() {
     }
   };
 
-  // Render custom question input
-  const renderQuestionInput = (question: CustomQuestion) => {
-    const value = customResponses[question.id];
-
-    switch (question.type) {
-      case 'text':
-        return (
-          <TextInput
-            style={styles.input}
-            value={value || ''}
-            onChangeText={(text) => setCustomResponses({ ...customResponses, [question.id]: text })}
-            placeholder={question.required ? 'Required' : 'Optional'}
-            placeholderTextColor={colors.text.muted}
-            returnKeyType="next"
-            inputAccessoryViewID={inputAccessoryViewID}
-          />
-        );
-
-      case 'yesno':
-        return (
-          <View style={styles.switchRow}>
-            <Text style={styles.switchLabel}>{value ? 'Yes' : 'No'}</Text>
-            <Switch
-              value={value || false}
-              onValueChange={(val) => setCustomResponses({ ...customResponses, [question.id]: val })}
-              trackColor={{ false: colors.border.muted, true: colors.primary.teal }}
-              thumbColor={Platform.OS === 'ios' ? undefined : colors.bg.elevated}
-            />
-          </View>
-        );
-
-      case 'dropdown':
-        return (
-          <TouchableOpacity
-            style={styles.pickerButton}
-            onPress={() => setShowDropdownPicker(question.id)}
-          >
-            <Text style={styles.pickerButtonText}>{value || 'Select an option'}</Text>
-            <Text style={styles.pickerArrow}>&#9660;</Text>
-          </TouchableOpacity>
-        );
-
-      default:
-        return null;
-    }
-  };
-
   // Loading state
   if (!currentTournament) {
     return (
@@ -271,14 +193,13 @@ export default function CreateTeamScreen() {
           </View>
 
           {/* Custom Questions */}
-          {customQuestions.map((question) => (
-            <View key={question.id} style={styles.field}>
-              <Text style={styles.label}>
-                {question.label} {question.required && '*'}
-              </Text>
-              {renderQuestionInput(question)}
-            </View>
-          ))}
+          <CustomQuestionFields
+            questions={customQuestions}
+            responses={customResponses}
+            onChange={setCustomResponses}
+            errors={showQuestionErrors ? questionErrors : undefined}
+            inputAccessoryViewID={inputAccessoryViewID}
+          />
 
           {/* Create Team Button */}
           <TouchableOpacity
@@ -321,44 +242,6 @@ export default function CreateTeamScreen() {
           </View>
         </Modal>
 
-        {/* Dropdown Question Picker Modal */}
-        {showDropdownPicker && (
-          <Modal visible={true} transparent animationType="slide">
-            <View style={styles.modalOverlay}>
-              <View style={styles.modalContent}>
-                <View style={styles.modalHeader}>
-                  <Text style={styles.modalTitle}>
-                    {customQuestions.find((q) => q.id === showDropdownPicker)?.label}
-                  </Text>
-                  <TouchableOpacity onPress={() => setShowDropdownPicker(null)}>
-                    <Text style={styles.modalDone}>Done</Text>
-                  </TouchableOpacity>
-                </View>
-                <Picker
-                  selectedValue={customResponses[showDropdownPicker] || ''}
-                  onValueChange={(value) => {
-                    setCustomResponses({ ...customResponses, [showDropdownPicker]: value });
-                  }}
-                  style={styles.modalPicker}
-                  dropdownIconColor={colors.text.primary}
-                  {...pickerProps}
-                >
-                  {customQuestions
-                    .find((q) => q.id === showDropdownPicker)
-                    ?.options?.map((option) => (
-                      <Picker.Item
-                        key={option}
-                        label={option}
-                        value={option}
-                        color={getPickerItemColor()}
-                      />
-                    ))}
-                </Picker>
-              </View>
-            </View>
-          </Modal>
-        )}
-
         {/* iOS keyboard accessory with Done button */}
         {Platform.OS === 'ios' && (
           <InputAccessoryView nativeID={inputAccessoryViewID}>
@@ -467,20 +350,6 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     marginLeft: spacing.sm,
   },
-  switchRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    backgroundColor: colors.bg.elevated,
-    borderRadius: radius.md,
-    padding: spacing.md,
-    borderWidth: 1,
-    borderColor: colors.border.default,
-  },
-  switchLabel: {
-    fontSize: 15,
-    color: colors.text.primary,
-  },
 
   // Buttons
   primaryButton: {
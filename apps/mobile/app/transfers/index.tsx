@@ -0,0 +1,239 @@
+import { useCallback, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  Alert,
+} from 'react-native';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { registrationTransferService } from '@bhmhockey/api-client';
+import { getTransferPaymentPlan, groupPendingTransfers } from '@bhmhockey/shared';
+import type { RegistrationTransferDto } from '@bhmhockey/shared';
+import { useAuthStore } from '../../stores/authStore';
+import { getErrorMessage } from '../../stores/eventStore';
+import { TransferCard, SectionHeader, EmptyState } from '../../components';
+import { openVenmoPayment } from '../../utils/venmo';
+import { colors, spacing } from '../../theme';
+
+export default function TransfersScreen() {
+  const router = useRouter();
+  const { user } = useAuthStore();
+  const [incoming, setIncoming] = useState<RegistrationTransferDto[]>([]);
+  const [outgoing, setOutgoing] = useState<RegistrationTransferDto[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+
+  const loadTransfers = async () => {
+    if (!user) return;
+    try {
+      const transfers = await registrationTransferService.getMyTransfers();
+      const grouped = groupPendingTransfers(transfers, user.id);
+      setIncoming(grouped.incoming);
+      setOutgoing(grouped.outgoing);
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to load transfers'));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    useCallback(() => {
+      loadTransfers();
+    }, [user?.id])
+  );
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadTransfers();
+    setIsRefreshing(false);
+  };
+
+  const openGame = (transfer: RegistrationTransferDto) => {
+    if (transfer.eventId) {
+      router.push(`/events/${transfer.eventId}`);
+    } else if (transfer.tournamentId) {
+      router.push(`/tournaments/${transfer.tournamentId}`);
+    }
+  };
+
+  const acceptTransfer = async (transfer: RegistrationTransferDto) => {
+    setProcessingId(transfer.id);
+    try {
+      await registrationTransferService.acceptTransfer(transfer.id);
+      const payment = getTransferPaymentPlan(transfer);
+      const buttons: { text: string; onPress?: () => void }[] = [
+        { text: 'View Game', onPress: () => openGame(transfer) },
+      ];
+      if (payment.payee !== 'none' && payment.venmoHandle) {
+        buttons.unshift({
+          text: 'Pay with Venmo',
+          onPress: () => {
+            openVenmoPayment(payment.venmoHandle!, payment.amount, transfer.title, transfer.gameDate);
+          },
+        });
+      }
+      Alert.alert('The Spot Is Yours', `You're in for ${transfer.title}.`, buttons);
+      await loadTransfers();
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'This spot may no longer be available.'));
+      await loadTransfers();
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleAccept = (transfer: RegistrationTransferDto) => {
+    const payment = getTransferPaymentPlan(transfer);
+    const paymentMessage =
+      payment.payee === 'from'
+        ? `\n\n${transfer.fromFirstName} already paid, so you'll pay them $${payment.amount.toFixed(2)} directly.`
+        : payment.payee === 'organizer'
+          ? `\n\nYou'll owe the organizer $${payment.amount.toFixed(2)}.`
+          : payment.organizerRefundsFrom
+            ? `\n\nYour waitlist payment covers the spot. The organizer refunds ${transfer.fromFirstName}.`
+            : '';
+    const teamMessage = transfer.teamName ? ` on ${transfer.teamName}` : '';
+
+    Alert.alert(
+      'Take This Spot?',
+      `You'll take ${transfer.fromFirstName}'s spot${teamMessage} for ${transfer.title}.${paymentMessage}`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Take Spot', onPress: () => acceptTransfer(transfer) },
+      ]
+    );
+  };
+
+  const handleDecline = async (transfer: RegistrationTransferDto) => {
+    setProcessingId(transfer.id);
+    try {
+      await registrationTransferService.declineTransfer(transfer.id);
+      await loadTransfers();
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to decline transfer'));
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  const handleCancel = (transfer: RegistrationTransferDto) => {
+    Alert.alert('Cancel Transfer', 'You will keep your spot.', [
+      { text: 'No', style: 'cancel' },
+      {
+        text: 'Cancel Transfer',
+        style: 'destructive',
+        onPress: async () => {
+          setProcessingId(transfer.id);
+          try {
+            await registrationTransferService.cancelTransfer(transfer.id);
+            await loadTransfers();
+          } catch (error) {
+            Alert.alert('Error', getErrorMessage(error, 'Failed to cancel transfer'));
+          } finally {
+            setProcessingId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color={colors.primary.teal} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={isRefreshing}
+          onRefresh={handleRefresh}
+          tintColor={colors.primary.teal}
+          colors={[colors.primary.teal]}
+          progressBackgroundColor={colors.bg.dark}
+        />
+      }
+    >
+      <Text style={styles.intro}>
+        Players who can't make a game can hand their spot to you directly, or offer it to the
+        waitlist. The spot keeps its team assignment and roster slot.
+      </Text>
+
+      <SectionHeader title="Offered To You" count={incoming.length} />
+      {incoming.length === 0 ? (
+        <EmptyState icon="swap-horizontal-outline" message="No one has offered you a spot right now" />
+      ) : (
+        <View style={styles.list}>
+          {incoming.map((transfer) => (
+            <TransferCard
+              key={transfer.id}
+              transfer={transfer}
+              direction="incoming"
+              actionLabel="Take Spot"
+              onAction={() => handleAccept(transfer)}
+              // Waitlist offers go to whoever accepts first, so there's nothing to decline
+              onDecline={transfer.toUserId ? () => handleDecline(transfer) : undefined}
+              isProcessing={processingId === transfer.id}
+              onPress={() => openGame(transfer)}
+            />
+          ))}
+        </View>
+      )}
+
+      {outgoing.length > 0 && (
+        <>
+          <SectionHeader title="My Transfers" count={outgoing.length} />
+          <View style={styles.list}>
+            {outgoing.map((transfer) => (
+              <TransferCard
+                key={transfer.id}
+                transfer={transfer}
+                direction="outgoing"
+                actionLabel="Cancel Transfer"
+                onAction={() => handleCancel(transfer)}
+                isProcessing={processingId === transfer.id}
+                onPress={() => openGame(transfer)}
+              />
+            ))}
+          </View>
+        </>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg.darkest,
+  },
+  content: {
+    padding: spacing.md,
+    paddingBottom: spacing.xxl,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: colors.bg.darkest,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.text.muted,
+    marginBottom: spacing.md,
+  },
+  list: {
+    gap: spacing.sm,
+    marginBottom: spacing.lg,
+  },
+});
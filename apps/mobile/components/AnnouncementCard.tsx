@@ -0,0 +1,124 @@
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { OrganizationAnnouncementDto, OrganizationAnnouncementTarget } from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../theme';
+
+interface AnnouncementCardProps {
+  announcement: OrganizationAnnouncementDto;
+  /** Show who the post went to - admins see it, members only see posts meant for them */
+  showTarget?: boolean;
+  onEdit?: () => void;
+  onDelete?: () => void;
+}
+
+const targetLabels: Record<OrganizationAnnouncementTarget, string> = {
+  All: 'Everyone',
+  Admins: 'Admins',
+  AutoRoster: 'Auto-Roster',
+  EventRegistrants: 'Game Players',
+};
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * AnnouncementCard - One organization announcement in the feed
+ */
+export function AnnouncementCard({ announcement, showTarget = false, onEdit, onDelete }: AnnouncementCardProps) {
+  const targetLabel =
+    announcement.target === 'EventRegistrants' && announcement.targetEventName
+      ? announcement.targetEventName
+      : targetLabels[announcement.target];
+
+  return (
+    <View style={styles.card}>
+      {(showTarget || onEdit || onDelete) && (
+        <View style={styles.header}>
+          {showTarget ? (
+            <View style={styles.targetBadge}>
+              <Ionicons name="people-outline" size={12} color={colors.primary.teal} />
+              <Text style={styles.targetText} numberOfLines={1}>{targetLabel}</Text>
+            </View>
+          ) : (
+            <View />
+          )}
+          <View style={styles.actions}>
+            {onEdit && (
+              <TouchableOpacity onPress={onEdit} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="create-outline" size={18} color={colors.text.muted} />
+              </TouchableOpacity>
+            )}
+            {onDelete && (
+              <TouchableOpacity onPress={onDelete} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+                <Ionicons name="trash-outline" size={18} color={colors.text.muted} />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      )}
+      <Text style={styles.title}>{announcement.title}</Text>
+      <Text style={styles.body}>{announcement.body}</Text>
+      <Text style={styles.meta}>
+        {announcement.createdByFirstName} {announcement.createdByLastName} - {formatTimestamp(announcement.createdAt)}
+        {announcement.updatedAt ? ' (edited)' : ''}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  targetBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexShrink: 1,
+    backgroundColor: colors.subtle.teal,
+    paddingVertical: 4,
+    paddingHorizontal: spacing.sm,
+    borderRadius: radius.sm,
+    gap: 4,
+  },
+  targetText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: colors.primary.teal,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginBottom: spacing.xs,
+  },
+  body: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    lineHeight: 20,
+    marginBottom: spacing.sm,
+  },
+  meta: {
+    fontSize: 12,
+    color: colors.text.muted,
+  },
+});
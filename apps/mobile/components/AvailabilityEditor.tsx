@@ -0,0 +1,277 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator, Alert, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { userService } from '@bhmhockey/api-client';
+import { AVAILABILITY_WINDOWS, formatAvailabilitySlot, toDateKey } from '@bhmhockey/shared';
+import type { AvailabilityKind, AvailabilitySlot, Position } from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../theme';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const POSITION_OPTIONS: { value: Position | null; label: string }[] = [
+  { value: null, label: 'Any' },
+  { value: 'Skater', label: 'Skater' },
+  { value: 'Goalie', label: 'Goalie' },
+];
+
+const newSlotId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// One-off slots for days that have passed are dropped on the next save
+const isCurrent = (slot: AvailabilitySlot) => slot.kind === 'Weekly' || (slot.date ?? '') >= toDateKey(new Date());
+
+/**
+ * AvailabilityEditor - The user's weekly and one-off availability. Saves on
+ * every change; organizers use it to find players for short games.
+ */
+export function AvailabilityEditor() {
+  const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // New slot draft
+  const [kind, setKind] = useState<AvailabilityKind>('Weekly');
+  const [dayOfWeek, setDayOfWeek] = useState(2);
+  const [date, setDate] = useState(new Date());
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [windowIndex, setWindowIndex] = useState(2);
+  const [position, setPosition] = useState<Position | null>(null);
+
+  useEffect(() => {
+    userService
+      .getMyAvailability()
+      .then((loaded) => setSlots(loaded.filter(isCurrent)))
+      .catch(() => setSlots([]))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const save = async (next: AvailabilitySlot[]) => {
+    const previous = slots;
+    setSlots(next);
+    setIsSaving(true);
+    try {
+      setSlots(await userService.updateMyAvailability(next));
+    } catch (error: any) {
+      setSlots(previous);
+      Alert.alert('Error', error?.message || 'Failed to save availability. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = () => {
+    const window = AVAILABILITY_WINDOWS[windowIndex];
+    const slot: AvailabilitySlot = {
+      id: newSlotId(),
+      kind,
+      ...(kind === 'Weekly' ? { dayOfWeek } : { date: toDateKey(date) }),
+      startTime: window.startTime,
+      endTime: window.endTime,
+      position,
+    };
+    const label = formatAvailabilitySlot(slot);
+    if (slots.some((s) => formatAvailabilitySlot(s) === label)) {
+      Alert.alert('Already Added', `You're already marked available ${label}.`);
+      return;
+    }
+    save([...slots, slot]);
+  };
+
+  const handleDateChange = (_event: unknown, selected?: Date) => {
+    setShowDatePicker(Platform.OS === 'ios');
+    if (selected) setDate(selected);
+  };
+
+  if (isLoading) {
+    return <ActivityIndicator size="small" color={colors.primary.teal} style={styles.loading} />;
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Current slots */}
+      {slots.length === 0 ? (
+        <Text style={styles.emptyText}>No availability set. Add when you're usually free to play or sub.</Text>
+      ) : (
+        slots.map((slot) => (
+          <View key={slot.id} style={styles.slotRow}>
+            <Text style={styles.slotText}>{formatAvailabilitySlot(slot)}</Text>
+            <TouchableOpacity
+              onPress={() => save(slots.filter((s) => s.id !== slot.id))}
+              disabled={isSaving}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+            >
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      {/* New slot */}
+      <View style={styles.chipRow}>
+        {(['Weekly', 'OneOff'] as AvailabilityKind[]).map((value) => (
+          <TouchableOpacity
+            key={value}
+            style={[styles.chip, kind === value && styles.chipSelected]}
+            onPress={() => setKind(value)}
+          >
+            <Text style={[styles.chipText, kind === value && styles.chipTextSelected]}>
+              {value === 'Weekly' ? 'Every week' : 'One day'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {kind === 'Weekly' ? (
+        <View style={styles.chipRow}>
+          {DAY_LABELS.map((label, index) => (
+            <TouchableOpacity
+              key={label}
+              style={[styles.dayChip, dayOfWeek === index && styles.chipSelected]}
+              onPress={() => setDayOfWeek(index)}
+            >
+              <Text style={[styles.chipText, dayOfWeek === index && styles.chipTextSelected]}>{label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.dateButton} onPress={() => setShowDatePicker(true)}>
+          <Text style={styles.dateButtonText}>
+            {date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {showDatePicker && (
+        <DateTimePicker
+          value={date}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleDateChange}
+          minimumDate={new Date()}
+        />
+      )}
+
+      <View style={styles.chipRow}>
+        {AVAILABILITY_WINDOWS.map((window, index) => (
+          <TouchableOpacity
+            key={window.label}
+            style={[styles.chip, windowIndex === index && styles.chipSelected]}
+            onPress={() => setWindowIndex(index)}
+          >
+            <Text style={[styles.chipText, windowIndex === index && styles.chipTextSelected]}>{window.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.chipRow}>
+        {POSITION_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.label}
+            style={[styles.chip, position === option.value && styles.chipSelected]}
+            onPress={() => setPosition(option.value)}
+          >
+            <Text style={[styles.chipText, position === option.value && styles.chipTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TouchableOpacity style={styles.addButton} onPress={handleAdd} disabled={isSaving}>
+        {isSaving ? (
+          <ActivityIndicator size="small" color={colors.primary.teal} />
+        ) : (
+          <Text style={styles.addButtonText}>Add Availability</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.sm,
+  },
+  loading: {
+    paddingVertical: spacing.md,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+  },
+  slotRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  slotText: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text.primary,
+  },
+  removeText: {
+    fontSize: 14,
+    color: colors.status.error,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    backgroundColor: colors.bg.elevated,
+  },
+  dayChip: {
+    paddingVertical: spacing.xs,
+    width: 42,
+    alignItems: 'center',
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    backgroundColor: colors.bg.elevated,
+  },
+  chipSelected: {
+    borderColor: colors.primary.teal,
+    backgroundColor: colors.subtle.teal,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.muted,
+  },
+  chipTextSelected: {
+    color: colors.primary.teal,
+  },
+  dateButton: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    backgroundColor: colors.bg.elevated,
+    alignSelf: 'flex-start',
+  },
+  dateButtonText: {
+    fontSize: 15,
+    color: colors.text.primary,
+  },
+  addButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+});
@@ -0,0 +1,391 @@
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  CHAT,
+  filterMentionCandidates,
+  formatMentionName,
+  getMentionQuery,
+  insertMention,
+} from '@bhmhockey/shared';
+import type { ChatMessageDto, ChatParticipant, ChatThreadType } from '@bhmhockey/shared';
+import { useChatStore, getChatThreadKey, EMPTY_CHAT_THREAD } from '../stores/chatStore';
+import { EmptyState } from './EmptyState';
+import { colors, spacing, radius } from '../theme';
+
+interface ChatThreadProps {
+  threadType: ChatThreadType;
+  threadId: string;
+  currentUserId?: string;
+  /** Who can be @mentioned */
+  participants: ChatParticipant[];
+  /** Organizers can pin and delete any message */
+  canModerate: boolean;
+}
+
+const formatMessageTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * ChatThread - Message history, pinned messages and composer for one event or organization chat
+ */
+export function ChatThread({ threadType, threadId, currentUserId, participants, canModerate }: ChatThreadProps) {
+  const key = getChatThreadKey(threadType, threadId);
+  const thread = useChatStore((state) => state.threads[key] ?? EMPTY_CHAT_THREAD);
+  const isSending = useChatStore((state) => state.isSending);
+  const fetchLatest = useChatStore((state) => state.fetchLatest);
+  const fetchOlder = useChatStore((state) => state.fetchOlder);
+  const sendMessage = useChatStore((state) => state.sendMessage);
+  const togglePin = useChatStore((state) => state.togglePin);
+  const deleteMessage = useChatStore((state) => state.deleteMessage);
+
+  const [draft, setDraft] = useState('');
+  const [showAllPinned, setShowAllPinned] = useState(false);
+
+  // Load on open and poll for new messages while the thread is on screen
+  useEffect(() => {
+    fetchLatest(threadType, threadId);
+    const interval = setInterval(() => fetchLatest(threadType, threadId), CHAT.POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [threadType, threadId]);
+
+  const mentionQuery = getMentionQuery(draft);
+  const mentionSuggestions =
+    mentionQuery !== null ? filterMentionCandidates(participants, mentionQuery, currentUserId) : [];
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body) return;
+    const sent = await sendMessage(threadType, threadId, body, participants);
+    if (sent) {
+      setDraft('');
+    } else {
+      Alert.alert('Error', useChatStore.getState().error || 'Failed to send message');
+    }
+  };
+
+  const handleDelete = (message: ChatMessageDto) => {
+    Alert.alert('Delete Message', 'Delete this message for everyone?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const deleted = await deleteMessage(threadType, threadId, message.id);
+          if (!deleted) {
+            Alert.alert('Error', useChatStore.getState().error || 'Failed to delete message');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleLongPress = (message: ChatMessageDto) => {
+    const isOwn = message.senderUserId === currentUserId;
+    if (!canModerate && !isOwn) return;
+
+    const buttons: { text: string; style?: 'cancel' | 'destructive'; onPress?: () => void }[] = [];
+    if (canModerate) {
+      buttons.push({
+        text: message.isPinned ? 'Unpin' : 'Pin to Top',
+        onPress: async () => {
+          const ok = await togglePin(threadType, threadId, message);
+          if (!ok) Alert.alert('Error', useChatStore.getState().error || 'Failed to update pin');
+        },
+      });
+    }
+    buttons.push({ text: 'Delete', style: 'destructive', onPress: () => handleDelete(message) });
+    buttons.push({ text: 'Cancel', style: 'cancel' });
+
+    Alert.alert('Message', undefined, buttons);
+  };
+
+  const renderMessage = ({ item }: { item: ChatMessageDto }) => {
+    const isOwn = item.senderUserId === currentUserId;
+    const mentionsMe = !!currentUserId && item.mentionedUserIds.includes(currentUserId);
+
+    return (
+      <TouchableOpacity
+        activeOpacity={0.8}
+        onLongPress={() => handleLongPress(item)}
+        style={[styles.messageRow, isOwn && styles.messageRowOwn]}
+      >
+        <View style={[styles.bubble, isOwn && styles.bubbleOwn, mentionsMe && styles.bubbleMention]}>
+          {!isOwn && (
+            <Text style={styles.senderName}>
+              {item.senderFirstName} {item.senderLastName}
+            </Text>
+          )}
+          <Text style={styles.messageBody}>{item.body}</Text>
+          <View style={styles.messageMeta}>
+            {item.isPinned && <Ionicons name="pin" size={11} color={colors.primary.teal} />}
+            <Text style={styles.messageTime}>{formatMessageTime(item.createdAt)}</Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const pinnedToShow = showAllPinned ? thread.pinnedMessages : thread.pinnedMessages.slice(0, 1);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      keyboardVerticalOffset={Platform.OS === 'ios' ? 100 : 0}
+    >
+      {/* Pinned Messages */}
+      {thread.pinnedMessages.length > 0 && (
+        <TouchableOpacity
+          style={styles.pinnedBanner}
+          onPress={() => setShowAllPinned(!showAllPinned)}
+          disabled={thread.pinnedMessages.length === 1}
+        >
+          {pinnedToShow.map((message) => (
+            <TouchableOpacity
+              key={message.id}
+              style={styles.pinnedItem}
+              onLongPress={() => handleLongPress(message)}
+              disabled={!canModerate}
+            >
+              <Ionicons name="pin" size={14} color={colors.primary.teal} />
+              <Text style={styles.pinnedText} numberOfLines={showAllPinned ? undefined : 2}>
+                {message.body}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {thread.pinnedMessages.length > 1 && (
+            <Text style={styles.pinnedToggle}>
+              {showAllPinned ? 'Show less' : `${thread.pinnedMessages.length} pinned messages`}
+            </Text>
+          )}
+        </TouchableOpacity>
+      )}
+
+      {/* History - inverted so the newest message sits above the composer */}
+      {thread.isLoading && thread.messages.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={colors.primary.teal} />
+        </View>
+      ) : (
+        <FlatList
+          data={thread.messages}
+          renderItem={renderMessage}
+          keyExtractor={(item) => item.id}
+          inverted={thread.messages.length > 0}
+          contentContainerStyle={styles.listContent}
+          onEndReached={() => fetchOlder(threadType, threadId)}
+          onEndReachedThreshold={0.3}
+          ListFooterComponent={
+            thread.isLoadingOlder ? (
+              <ActivityIndicator size="small" color={colors.primary.teal} style={styles.olderSpinner} />
+            ) : null
+          }
+          ListEmptyComponent={
+            <EmptyState
+              icon="chatbubbles-outline"
+              title="No Messages Yet"
+              message="Start the conversation. Type @ to mention someone."
+            />
+          }
+        />
+      )}
+
+      {/* Mention Suggestions */}
+      {mentionSuggestions.length > 0 && (
+        <View style={styles.suggestions}>
+          {mentionSuggestions.map((participant) => (
+            <TouchableOpacity
+              key={participant.userId}
+              style={styles.suggestion}
+              onPress={() => setDraft(insertMention(draft, participant))}
+            >
+              <Text style={styles.suggestionText}>@{formatMentionName(participant)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Composer */}
+      <View style={styles.composer}>
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder="Message..."
+          placeholderTextColor={colors.text.muted}
+          multiline
+          maxLength={CHAT.MAX_MESSAGE_LENGTH}
+        />
+        <TouchableOpacity
+          style={[styles.sendButton, (!draft.trim() || isSending) && styles.sendButtonDisabled]}
+          onPress={handleSend}
+          disabled={!draft.trim() || isSending}
+        >
+          {isSending ? (
+            <ActivityIndicator size="small" color={colors.bg.darkest} />
+          ) : (
+            <Ionicons name="send" size={18} color={colors.bg.darkest} />
+          )}
+        </TouchableOpacity>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg.darkest,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: spacing.md,
+    flexGrow: 1,
+  },
+  olderSpinner: {
+    padding: spacing.md,
+  },
+
+  // Pinned messages
+  pinnedBanner: {
+    backgroundColor: colors.bg.dark,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  pinnedItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+    paddingVertical: 4,
+  },
+  pinnedText: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.text.secondary,
+  },
+  pinnedToggle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.primary.teal,
+    marginTop: 4,
+  },
+
+  // Messages
+  messageRow: {
+    flexDirection: 'row',
+    marginBottom: spacing.sm,
+  },
+  messageRowOwn: {
+    justifyContent: 'flex-end',
+  },
+  bubble: {
+    maxWidth: '80%',
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  bubbleOwn: {
+    backgroundColor: colors.subtle.teal,
+    borderColor: colors.primary.teal,
+  },
+  bubbleMention: {
+    borderColor: colors.primary.purple,
+  },
+  senderName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.primary.teal,
+    marginBottom: 2,
+  },
+  messageBody: {
+    fontSize: 15,
+    color: colors.text.primary,
+    lineHeight: 20,
+  },
+  messageMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 4,
+    marginTop: 4,
+  },
+  messageTime: {
+    fontSize: 11,
+    color: colors.text.muted,
+  },
+
+  // Mention suggestions
+  suggestions: {
+    backgroundColor: colors.bg.dark,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.default,
+  },
+  suggestion: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  suggestionText: {
+    fontSize: 15,
+    color: colors.text.primary,
+  },
+
+  // Composer
+  composer: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: spacing.sm,
+    padding: spacing.sm,
+    backgroundColor: colors.bg.dark,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.default,
+  },
+  input: {
+    flex: 1,
+    maxHeight: 120,
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    fontSize: 15,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  sendButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: colors.primary.teal,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  sendButtonDisabled: {
+    opacity: 0.5,
+  },
+});
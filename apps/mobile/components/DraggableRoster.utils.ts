@@ -67,9 +67,7 @@ export function buildRosterOrderItems(
   const currentTeam = draggedReg.teamAssignment as TeamAssignment;
 
   // Compute pre-move maxGoalies
-  const blackGoalieCount = registrations.filter(r => r.teamAssignment === 'Black' && r.registeredPosition === 'Goalie').length;
-  const whiteGoalieCount = registrations.filter(r => r.teamAssignment === 'White' && r.registeredPosition === 'Goalie').length;
-  const maxGoaliesBefore = Math.max(blackGoalieCount, whiteGoalieCount, 1);
+  const maxGoaliesBefore = getMaxGoalies(registrations);
 
   // Determine target position type based on pre-move boundary
   const targetIsGoalieSlot = targetSlotIndex < maxGoaliesBefore;
@@ -166,18 +164,43 @@ export function buildRosterOrderItems(
   }
 
   // Compute shifted labels if maxGoalies changed
-  if (currentLabels && Object.keys(currentLabels).length > 0 && maxGoaliesAfter !== maxGoaliesBefore) {
-    const shift = maxGoaliesAfter - maxGoaliesBefore;
-    const shifted: Record<number, string> = {};
-    for (const [key, value] of Object.entries(currentLabels)) {
-      const numKey = Number(key);
-      // Only shift labels at skater indices (>= old maxGoalies boundary)
-      if (numKey >= maxGoaliesBefore) {
-        shifted[numKey + shift] = value;
-      }
-    }
-    result.shiftedLabels = shifted;
+  const shiftedLabels = shiftSkaterSlotLabels(currentLabels, maxGoaliesBefore, maxGoaliesAfter);
+  if (shiftedLabels) {
+    result.shiftedLabels = shiftedLabels;
   }
 
   return result;
 }
+
+/**
+ * Number of goalie rows at the top of the roster (always at least one).
+ */
+export function getMaxGoalies(registrations: Pick<EventRegistrationDto, 'teamAssignment' | 'registeredPosition'>[]): number {
+  const blackGoalieCount = registrations.filter(r => r.teamAssignment === 'Black' && r.registeredPosition === 'Goalie').length;
+  const whiteGoalieCount = registrations.filter(r => r.teamAssignment === 'White' && r.registeredPosition === 'Goalie').length;
+  return Math.max(blackGoalieCount, whiteGoalieCount, 1);
+}
+
+/**
+ * Move skater slot labels when the number of goalie rows changes.
+ * Returns undefined when there is nothing to move.
+ */
+export function shiftSkaterSlotLabels(
+  currentLabels: Record<number, string> | undefined,
+  maxGoaliesBefore: number,
+  maxGoaliesAfter: number,
+): Record<number, string> | undefined {
+  if (!currentLabels || Object.keys(currentLabels).length === 0 || maxGoaliesAfter === maxGoaliesBefore) {
+    return undefined;
+  }
+  const shift = maxGoaliesAfter - maxGoaliesBefore;
+  const shifted: Record<number, string> = {};
+  for (const [key, value] of Object.entries(currentLabels)) {
+    const numKey = Number(key);
+    // Only shift labels at skater indices (>= old maxGoalies boundary)
+    if (numKey >= maxGoaliesBefore) {
+      shifted[numKey + shift] = value;
+    }
+  }
+  return shifted;
+}
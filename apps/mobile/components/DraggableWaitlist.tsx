@@ -13,7 +13,9 @@ import Animated, {
   runOnJS,
   SharedValue,
 } from 'react-native-reanimated';
+import { formatOfferCountdown, formatReliability, getOfferTimeRemaining } from '@bhmhockey/shared';
 import type { EventRegistrationDto, PaymentStatus, WaitlistOrderItem } from '@bhmhockey/shared';
+import { useNow } from '../hooks';
 import { colors, spacing, radius } from '../theme';
 
 const ROW_HEIGHT = 56; // Height of each waitlist row
@@ -54,6 +56,15 @@ const PaymentBadge: React.FC<{ status: PaymentStatus | null | undefined }> = ({
   );
 };
 
+// Countdown for a waitlisted player holding an open offer ('Offer' promotion mode)
+const OfferBadge: React.FC<{ remainingMs: number }> = ({ remainingMs }) => (
+  <View style={[styles.paymentBadge, { backgroundColor: colors.status.successSubtle }]}>
+    <Text style={[styles.paymentBadgeText, { color: colors.status.success }]} allowFontScaling={false}>
+      Offer · {formatOfferCountdown(remainingMs)}
+    </Text>
+  </View>
+);
+
 // Drag handle component
 function DragHandle() {
   return (
@@ -73,6 +84,7 @@ function WaitlistRow({
   onPress,
   onLongPress,
   isDragging,
+  now,
 }: {
   registration: EventRegistrationDto;
   position: number;
@@ -80,7 +92,10 @@ function WaitlistRow({
   onPress: () => void;
   onLongPress: () => void;
   isDragging: boolean;
+  now: Date;
 }) {
+  const offerRemaining = getOfferTimeRemaining(registration.offerExpiresAt, now);
+
   return (
     <TouchableOpacity
       style={[styles.waitlistRow, isDragging && styles.waitlistRowDragging]}
@@ -106,8 +121,10 @@ function WaitlistRow({
         </Text>
         <Text style={styles.waitlistUserMeta} allowFontScaling={false}>
           {registration.registeredPosition || 'Skater'}
+          {registration.reliability !== undefined ? ` · ${formatReliability(registration.reliability)}` : ''}
         </Text>
       </View>
+      {offerRemaining ? <OfferBadge remainingMs={offerRemaining} /> : null}
       <PaymentBadge status={registration.paymentStatus} />
     </TouchableOpacity>
   );
@@ -150,6 +167,7 @@ function DragOverlay({
           </Text>
           <Text style={styles.waitlistUserMeta} allowFontScaling={false}>
             {registration.registeredPosition || 'Skater'}
+            {registration.reliability !== undefined ? ` · ${formatReliability(registration.reliability)}` : ''}
           </Text>
         </View>
         <PaymentBadge status={registration.paymentStatus} />
@@ -175,6 +193,9 @@ export function DraggableWaitlist({
     setOrderedWaitlist(waitlist);
   }, [waitlist]);
 
+  // Tick once a second while any offer is in flight so organizers see the countdowns
+  const now = useNow(waitlist.some((r) => !!r.offerExpiresAt));
+
   // Shared value for drag translation
   const translateY = useSharedValue(0);
 
@@ -354,6 +375,7 @@ export function DraggableWaitlist({
                     onPress={() => onItemPress(registration)}
                     onLongPress={() => startDrag(registration, index)}
                     isDragging={isDragging}
+                    now={now}
                   />
                 </View>
                 {/* Drop indicator line below this row */}
@@ -17,8 +17,10 @@ import {
 } from 'react-native';
 import { Picker } from '@react-native-picker/picker';
 import DateTimePicker from '@react-native-community/datetimepicker';
-import type { EventVisibility, SkillLevel, EventDto, Organization } from '@bhmhockey/shared';
+import { generateSeriesDates, validateRecurrenceRule } from '@bhmhockey/shared';
+import type { EventVisibility, SkillLevel, EventDto, Organization, RecurrenceRule } from '@bhmhockey/shared';
 import { SkillLevelSelector } from './SkillLevelSelector';
+import { RecurrenceSelector, buildRecurrenceRule, type RecurrenceDraft } from './RecurrenceSelector';
 import { useOrganizationStore } from '../stores/organizationStore';
 import { isValidGroupMeLink, GROUPME_LINK_ERROR } from '../utils/groupme';
 import { colors, spacing, radius } from '../theme';
@@ -46,6 +48,7 @@ export interface EventFormData {
   applyAutoRoster?: boolean;
   groupMeLink?: string;  // '' clears the event's own link (inherits org's); trimmed value sets it
   showWaitlistBeforePublish: boolean;
+  recurrence?: RecurrenceRule;  // Create mode only - set when the event repeats (eventDate is the first game)
 }
 
 interface EventFormProps {
@@ -81,6 +84,7 @@ export function EventForm({
   const [applyAutoRoster, setApplyAutoRoster] = useState(true);
   const [groupMeLink, setGroupMeLink] = useState('');
   const [showWaitlistBeforePublish, setShowWaitlistBeforePublish] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceDraft | null>(null);
 
   // Auto-roster of the selected org (create mode only, admin-only endpoint)
   const autoRoster = useOrganizationStore((state) => state.autoRoster);
@@ -312,6 +316,18 @@ export function EventForm({
       Alert.alert('Error', 'Event date must be in the future');
       return false;
     }
+    if (mode === 'create' && recurrence) {
+      const rule = buildRecurrenceRule(recurrence, eventDate);
+      const ruleError = validateRecurrenceRule(rule);
+      if (ruleError) {
+        Alert.alert('Error', ruleError);
+        return false;
+      }
+      if (generateSeriesDates(rule).length === 0) {
+        Alert.alert('Error', 'Every date in this series is skipped');
+        return false;
+      }
+    }
     // Duration is optional, but if provided must be valid
     if (duration.trim()) {
       const durationNum = parseInt(duration, 10);
@@ -356,6 +372,7 @@ export function EventForm({
       applyAutoRoster: selectedOrgId ? applyAutoRoster : undefined,
       groupMeLink: groupMeLink.trim(),
       showWaitlistBeforePublish,
+      recurrence: mode === 'create' && recurrence ? buildRecurrenceRule(recurrence, eventDate) : undefined,
     };
 
     await onSubmit(formData);
@@ -409,7 +426,7 @@ export function EventForm({
           )}
           {visibility === 'InviteOnly' && (
             <Text style={styles.visibilityNote}>
-              Only you can see this event for now. Invite system coming soon!
+              Only players you invite can see and join this event. Send invitations from the event page once it's created.
             </Text>
           )}
         </View>
@@ -490,6 +507,15 @@ export function EventForm({
           />
         )}
 
+        {/* Recurrence (create mode only - generates one event per date) */}
+        {mode === 'create' && (
+          <RecurrenceSelector
+            firstGame={eventDate}
+            value={recurrence}
+            onChange={setRecurrence}
+          />
+        )}
+
         {/* Duration */}
         <View style={styles.field}>
           <Text style={styles.label}>Duration in minutes (optional)</Text>
@@ -593,7 +619,9 @@ export function EventForm({
               />
             </View>
             <Text style={styles.skillNote}>
-              Your organization's regulars will be placed on the roster automatically
+              {recurrence
+                ? "Your organization's regulars will be placed on the roster of every game automatically"
+                : "Your organization's regulars will be placed on the roster automatically"}
             </Text>
           </View>
         )}
@@ -638,7 +666,7 @@ export function EventForm({
             <ActivityIndicator color={colors.bg.darkest} />
           ) : (
             <Text style={styles.submitButtonText}>
-              {mode === 'create' ? 'Create Event' : 'Save Changes'}
+              {mode === 'edit' ? 'Save Changes' : recurrence ? 'Create Series' : 'Create Event'}
             </Text>
           )}
         </TouchableOpacity>
@@ -0,0 +1,342 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import {
+  formatMonthKey,
+  getAverageGamesPerMonth,
+  getFavoriteOrganization,
+  getRecentMonths,
+} from '@bhmhockey/shared';
+import type { EventDto, GameHistoryItemDto, GameHistoryResponse, GameHistorySummaryDto } from '@bhmhockey/shared';
+import { Badge } from './Badge';
+import type { BadgeVariant } from './Badge';
+import { colors, spacing, radius } from '../theme';
+
+const PAGE_SIZE = 10;
+
+interface GameHistoryProps {
+  /** Fetch one page; keep the function stable (useCallback) or the history reloads */
+  loadPage: (offset: number, limit: number) => Promise<GameHistoryResponse>;
+  /** Open a game (e.g. navigate to the event) */
+  onGamePress?: (event: EventDto) => void;
+  emptyMessage?: string;
+}
+
+const getPaymentDisplay = (status?: string): { label: string; variant: BadgeVariant } => {
+  switch (status) {
+    case 'Verified':
+      return { label: 'Paid', variant: 'green' };
+    case 'MarkedPaid':
+      return { label: 'Awaiting', variant: 'warning' };
+    case 'Pending':
+    default:
+      return { label: 'Unpaid', variant: 'error' };
+  }
+};
+
+const formatGameDate = (isoDate: string): string =>
+  new Date(isoDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * GameHistory - Past pickup games with attendance totals (games per month,
+ * Black vs White split, favorite organization). Loads a page at a time.
+ */
+export function GameHistory({ loadPage, onGamePress, emptyMessage = 'No games played yet' }: GameHistoryProps) {
+  const [games, setGames] = useState<GameHistoryItemDto[]>([]);
+  const [summary, setSummary] = useState<GameHistorySummaryDto | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchFirstPage = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await loadPage(0, PAGE_SIZE);
+      setGames(response.games);
+      setSummary(response.summary);
+      setHasMore(response.hasMore);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || err?.message || 'Failed to load games');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFirstPage();
+  }, [loadPage]);
+
+  const handleLoadMore = async () => {
+    if (isLoadingMore || !hasMore) return;
+    setIsLoadingMore(true);
+    try {
+      const response = await loadPage(games.length, PAGE_SIZE);
+      setGames((prev) => [...prev, ...response.games]);
+      setHasMore(response.hasMore);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || err?.message || 'Failed to load more games');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="small" color={colors.primary.teal} />
+      </View>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.errorText} allowFontScaling={false}>{error}</Text>
+        <TouchableOpacity onPress={fetchFirstPage}>
+          <Text style={styles.retryText} allowFontScaling={false}>Retry</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (summary.totalGames === 0) {
+    return <Text style={styles.emptyText} allowFontScaling={false}>{emptyMessage}</Text>;
+  }
+
+  const recentMonths = getRecentMonths(summary.gamesByMonth);
+  const busiestMonth = Math.max(1, ...recentMonths.map((m) => m.count));
+  const favorite = getFavoriteOrganization(summary);
+
+  return (
+    <View>
+      {/* Totals */}
+      <View style={styles.statsRow}>
+        <View style={styles.stat}>
+          <Text style={styles.statValue} allowFontScaling={false}>{summary.totalGames}</Text>
+          <Text style={styles.statLabel} allowFontScaling={false}>Games</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statValue} allowFontScaling={false}>{getAverageGamesPerMonth(summary)}</Text>
+          <Text style={styles.statLabel} allowFontScaling={false}>Per Month</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text style={styles.statValue} allowFontScaling={false}>
+            {summary.blackGames}–{summary.whiteGames}
+          </Text>
+          <Text style={styles.statLabel} allowFontScaling={false}>Black–White</Text>
+        </View>
+        <View style={styles.stat}>
+          <Text
+            style={[styles.statValue, summary.unpaidGames > 0 && styles.statValueWarning]}
+            allowFontScaling={false}
+          >
+            {summary.unpaidGames}
+          </Text>
+          <Text style={styles.statLabel} allowFontScaling={false}>Unpaid</Text>
+        </View>
+      </View>
+
+      {favorite && (
+        <Text style={styles.favoriteText} allowFontScaling={false}>
+          Plays most with <Text style={styles.favoriteName}>{favorite.organizationName}</Text> ({favorite.count}{' '}
+          {favorite.count === 1 ? 'game' : 'games'})
+        </Text>
+      )}
+
+      {/* Games per month */}
+      <View style={styles.chart}>
+        {recentMonths.map(({ month, count }) => (
+          <View key={month} style={styles.chartColumn}>
+            <Text style={styles.chartCount} allowFontScaling={false}>{count > 0 ? count : ''}</Text>
+            <View style={styles.chartTrack}>
+              <View style={[styles.chartBar, { height: `${(count / busiestMonth) * 100}%` }]} />
+            </View>
+            <Text style={styles.chartLabel} allowFontScaling={false}>{formatMonthKey(month)}</Text>
+          </View>
+        ))}
+      </View>
+
+      {/* Games */}
+      {games.map((game) => {
+        const { event } = game;
+        const payment = event.cost > 0 ? getPaymentDisplay(game.paymentStatus) : null;
+        return (
+          <TouchableOpacity
+            key={game.registrationId}
+            style={styles.gameRow}
+            onPress={() => onGamePress?.(event)}
+            disabled={!onGamePress}
+            activeOpacity={0.7}
+          >
+            <View
+              style={[
+                styles.teamSwatch,
+                game.teamAssignment === 'White' ? styles.teamSwatchWhite : styles.teamSwatchBlack,
+                !game.teamAssignment && styles.teamSwatchNone,
+              ]}
+            />
+            <View style={styles.gameInfo}>
+              <Text style={styles.gameTitle} numberOfLines={1} allowFontScaling={false}>
+                {event.organizationName || event.name || 'Pickup'}
+              </Text>
+              <Text style={styles.gameMeta} numberOfLines={1} allowFontScaling={false}>
+                {formatGameDate(event.eventDate)} · {game.teamAssignment ?? 'No team'} ·{' '}
+                {game.registeredPosition === 'Goalie' ? 'Goalie' : 'Skater'}
+              </Text>
+            </View>
+            {payment && <Badge variant={payment.variant}>{payment.label}</Badge>}
+          </TouchableOpacity>
+        );
+      })}
+
+      {error && <Text style={styles.errorText} allowFontScaling={false}>{error}</Text>}
+
+      {hasMore && (
+        <TouchableOpacity style={styles.loadMoreButton} onPress={handleLoadMore} disabled={isLoadingMore}>
+          {isLoadingMore ? (
+            <ActivityIndicator size="small" color={colors.primary.teal} />
+          ) : (
+            <Text style={styles.loadMoreText} allowFontScaling={false}>Load More</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    paddingVertical: spacing.lg,
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+    textAlign: 'center',
+    paddingVertical: spacing.md,
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.status.error,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  statValueWarning: {
+    color: colors.status.warning,
+  },
+  statLabel: {
+    fontSize: 11,
+    color: colors.text.muted,
+    marginTop: spacing.xxs,
+  },
+  favoriteText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: spacing.md,
+  },
+  favoriteName: {
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  chart: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+    marginBottom: spacing.md,
+  },
+  chartColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  chartCount: {
+    fontSize: 11,
+    color: colors.text.muted,
+    height: 14,
+  },
+  chartTrack: {
+    width: '60%',
+    height: 48,
+    justifyContent: 'flex-end',
+  },
+  chartBar: {
+    backgroundColor: colors.primary.teal,
+    borderRadius: radius.sm,
+  },
+  chartLabel: {
+    fontSize: 11,
+    color: colors.text.subtle,
+    marginTop: spacing.xs,
+  },
+  gameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.default,
+  },
+  teamSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+  },
+  teamSwatchBlack: {
+    backgroundColor: colors.bg.darkest,
+    borderColor: colors.border.emphasis,
+  },
+  teamSwatchWhite: {
+    backgroundColor: colors.text.primary,
+    borderColor: colors.text.primary,
+  },
+  teamSwatchNone: {
+    backgroundColor: 'transparent',
+    borderColor: colors.border.muted,
+  },
+  gameInfo: {
+    flex: 1,
+  },
+  gameTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  gameMeta: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: spacing.xxs,
+  },
+  loadMoreButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  loadMoreText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -10,13 +10,17 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import type { OrganizationMember, UserBadgeDto } from '@bhmhockey/shared';
-import { userService } from '@bhmhockey/api-client';
+import { organizationService, userService } from '@bhmhockey/api-client';
 import { colors, spacing, radius } from '../theme';
 import { TrophyCase } from './badges/TrophyCase';
+import { GameHistory } from './GameHistory';
+import { ReliabilityBadge } from './ReliabilityBadge';
 
 interface MemberDetailModalProps {
   visible: boolean;
   member: OrganizationMember | null;
+  /** Organization the member belongs to; admins see their game history with it */
+  organizationId?: string;
   /** Show admin actions (promote/demote/remove) */
   isAdmin?: boolean;
   /** Whether this member is the current user */
@@ -30,6 +34,7 @@ interface MemberDetailModalProps {
 export function MemberDetailModal({
   visible,
   member,
+  organizationId,
   isAdmin = false,
   isCurrentUser = false,
   onClose,
@@ -72,6 +77,12 @@ export function MemberDetailModal({
     }
   }, [visible, member?.id]);
 
+  const loadMemberGames = useCallback(
+    (offset: number, limit: number) =>
+      organizationService.getMemberGames(organizationId!, member!.id, offset, limit),
+    [organizationId, member?.id]
+  );
+
   if (!member) return null;
 
   const fullName = `${member.firstName} ${member.lastName}`;
@@ -144,6 +155,23 @@ export function MemberDetailModal({
                   </View>
                 )}
 
+                {/* Reliability - Admin only */}
+                {isAdmin && member.reliability !== undefined && (
+                  <View style={styles.section}>
+                    <Text style={styles.sectionLabel} allowFontScaling={false}>Reliability</Text>
+                    <View style={styles.reliabilityRow}>
+                      <ReliabilityBadge reliability={member.reliability} />
+                      {member.reliability && (
+                        <Text style={styles.reliabilityCounts} allowFontScaling={false}>
+                          {member.reliability.gamesAttended} attended · {member.reliability.noShows} no-show
+                          {member.reliability.noShows === 1 ? '' : 's'} · {member.reliability.lateCancels} late cancel
+                          {member.reliability.lateCancels === 1 ? '' : 's'}
+                        </Text>
+                      )}
+                    </View>
+                  </View>
+                )}
+
                 {/* Trophy Case */}
                 <View style={styles.section}>
                   <Text style={styles.sectionLabel} allowFontScaling={false}>Trophy Case</Text>
@@ -156,6 +184,17 @@ export function MemberDetailModal({
                   )}
                 </View>
 
+                {/* Game History - Admin only, for reliability checks */}
+                {isAdmin && organizationId && (
+                  <View style={styles.section}>
+                    <Text style={styles.sectionLabel} allowFontScaling={false}>Games With Us</Text>
+                    <GameHistory
+                      loadPage={loadMemberGames}
+                      emptyMessage="No games with this organization yet"
+                    />
+                  </View>
+                )}
+
                 {/* Admin Actions */}
                 {hasAdminActions && (
                   <View style={styles.actions}>
@@ -261,6 +300,16 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: colors.text.secondary,
   },
+  reliabilityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  reliabilityCounts: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
   loadingContainer: {
     padding: spacing.lg,
     alignItems: 'center',
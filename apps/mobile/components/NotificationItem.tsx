@@ -18,6 +18,15 @@ const typeConfig: Record<NotificationType, { icon: string; color: string }> = {
   game_reminder: { icon: '🏒', color: colors.primary.teal },
   organizer_payment_reminder: { icon: '💰', color: colors.status.error },
   not_full_reminder: { icon: '🏒', color: colors.primary.green },
+  sub_request: { icon: '🔄', color: colors.primary.purple },
+  sub_request_filled: { icon: '✅', color: colors.primary.green },
+  event_invite: { icon: '✉️', color: colors.primary.teal },
+  registration_transfer: { icon: '🎟️', color: colors.primary.purple },
+  registration_transferred: { icon: '🤝', color: colors.primary.green },
+  waitlist_offer: { icon: '⏳', color: colors.primary.green },
+  waitlist_offer_expired: { icon: '⌛', color: colors.status.warning },
+  organization_announcement: { icon: '📣', color: colors.primary.teal },
+  chat_mention: { icon: '💬', color: colors.primary.purple },
 };
 
 function formatTimeAgo(dateString: string): string {
@@ -0,0 +1,51 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors, spacing } from '../theme';
+import { useOfflineStore } from '../stores/offlineStore';
+
+interface OfflineBannerProps {
+  cachedAt: string | null;  // When the data on screen was fetched; null when fresh
+}
+
+/**
+ * Banner shown above screens whose data came from the offline cache.
+ * Shows when the data was last updated and how many changes are waiting
+ * to sync.
+ */
+export function OfflineBanner({ cachedAt }: OfflineBannerProps) {
+  const pendingCount = useOfflineStore((state) => state.queue.length);
+
+  if (!cachedAt && pendingCount === 0) return null;
+
+  const lastUpdated = cachedAt
+    ? new Date(cachedAt).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })
+    : null;
+
+  return (
+    <View style={styles.banner}>
+      <Text style={styles.text}>
+        {lastUpdated ? `Offline — last updated ${lastUpdated}` : 'Offline'}
+        {pendingCount > 0 && ` · ${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    backgroundColor: colors.status.warning,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    alignItems: 'center',
+  },
+  text: {
+    color: colors.bg.darkest,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
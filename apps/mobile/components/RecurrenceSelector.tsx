@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Switch, Platform } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import {
+  EVENT_SERIES,
+  generateSeriesDates,
+  toDateKey,
+  validateRecurrenceRule,
+  type RecurrenceFrequency,
+  type RecurrenceRule,
+} from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../theme';
+
+// Recurrence settings edited here; the first game's date and time come from
+// the event form's own Date/Time fields
+export type RecurrenceDraft = Omit<RecurrenceRule, 'startDate' | 'startTime'>;
+
+interface RecurrenceSelectorProps {
+  firstGame: Date;
+  value: RecurrenceDraft | null;
+  onChange: (value: RecurrenceDraft | null) => void;
+}
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency | null; label: string }[] = [
+  { value: null, label: 'Does not repeat' },
+  { value: 'Weekly', label: 'Weekly' },
+  { value: 'BiWeekly', label: 'Every 2 weeks' },
+  { value: 'SpecificDates', label: 'Specific dates' },
+];
+
+/**
+ * Build the full rule for a draft, anchored on the first game's date and
+ * time. For specific dates the first game is always included.
+ */
+export function buildRecurrenceRule(draft: RecurrenceDraft, firstGame: Date): RecurrenceRule {
+  const startDate = toDateKey(firstGame);
+  const startTime = `${String(firstGame.getHours()).padStart(2, '0')}:${String(firstGame.getMinutes()).padStart(2, '0')}`;
+  return {
+    ...draft,
+    startDate,
+    startTime,
+    specificDates: draft.frequency === 'SpecificDates'
+      ? [startDate, ...(draft.specificDates ?? [])]
+      : undefined,
+  };
+}
+
+export function RecurrenceSelector({ firstGame, value, onChange }: RecurrenceSelectorProps) {
+  const [showDatePicker, setShowDatePicker] = useState(false);
+  const [occurrencesText, setOccurrencesText] = useState(String(EVENT_SERIES.DEFAULT_GAMES));
+
+  const rule = value ? buildRecurrenceRule(value, firstGame) : null;
+  const validationError = rule ? validateRecurrenceRule(rule) : null;
+  const previewDates = rule ? generateSeriesDates(rule) : [];
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency | null) => {
+    if (!frequency) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency,
+      occurrences: frequency === 'SpecificDates' ? undefined : parseInt(occurrencesText, 10) || undefined,
+      specificDates: frequency === 'SpecificDates' ? value?.specificDates ?? [] : undefined,
+      skipDates: value?.skipDates ?? [],
+      skipHolidays: value?.skipHolidays ?? true,
+    });
+  };
+
+  const handleOccurrencesChange = (text: string) => {
+    setOccurrencesText(text);
+    if (value) {
+      onChange({ ...value, occurrences: parseInt(text, 10) || undefined });
+    }
+  };
+
+  const handleAddDate = (_: any, selectedDate?: Date) => {
+    setShowDatePicker(false);
+    if (selectedDate && value) {
+      const dateKey = toDateKey(selectedDate);
+      const existing = value.specificDates ?? [];
+      if (!existing.includes(dateKey)) {
+        onChange({ ...value, specificDates: [...existing, dateKey] });
+      }
+    }
+  };
+
+  // Remove one game from the preview: specific dates drop the date,
+  // weekly series skip it (and generate one more game at the end)
+  const handleRemoveDate = (date: Date) => {
+    if (!value) return;
+    const dateKey = toDateKey(date);
+    if (value.frequency === 'SpecificDates') {
+      onChange({ ...value, specificDates: (value.specificDates ?? []).filter((d) => d !== dateKey) });
+    } else {
+      onChange({ ...value, skipDates: [...(value.skipDates ?? []), dateKey] });
+    }
+  };
+
+  const formatPreviewDate = (date: Date) =>
+    date.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Repeat</Text>
+      <View style={styles.optionsRow}>
+        {FREQUENCY_OPTIONS.map((option) => {
+          const isSelected = (value?.frequency ?? null) === option.value;
+          return (
+            <TouchableOpacity
+              key={option.label}
+              style={[styles.option, isSelected && styles.optionSelected]}
+              onPress={() => handleFrequencyChange(option.value)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {value && value.frequency !== 'SpecificDates' && (
+        <View style={styles.subField}>
+          <Text style={styles.label}>Number of games</Text>
+          <TextInput
+            style={styles.input}
+            value={occurrencesText}
+            onChangeText={handleOccurrencesChange}
+            placeholder={String(EVENT_SERIES.DEFAULT_GAMES)}
+            placeholderTextColor={colors.text.muted}
+            keyboardType="number-pad"
+          />
+        </View>
+      )}
+
+      {value?.frequency === 'SpecificDates' && (
+        <TouchableOpacity style={styles.addDateButton} onPress={() => setShowDatePicker(true)}>
+          <Text style={styles.addDateText}>+ Add date</Text>
+        </TouchableOpacity>
+      )}
+
+      {showDatePicker && (
+        <DateTimePicker
+          value={firstGame}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+          onChange={handleAddDate}
+          minimumDate={new Date()}
+        />
+      )}
+
+      {value && (
+        <View style={styles.subField}>
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel} allowFontScaling={false}>Skip holidays</Text>
+            <Switch
+              value={value.skipHolidays ?? false}
+              onValueChange={(skipHolidays) => onChange({ ...value, skipHolidays })}
+              trackColor={{ false: colors.bg.hover, true: colors.primary.teal }}
+              thumbColor={value.skipHolidays ? colors.text.primary : colors.text.muted}
+            />
+          </View>
+        </View>
+      )}
+
+      {/* Preview of generated games */}
+      {value && (
+        <View style={styles.subField}>
+          {validationError ? (
+            <Text style={styles.error}>{validationError}</Text>
+          ) : (
+            <>
+              <Text style={styles.label}>
+                {previewDates.length} {previewDates.length === 1 ? 'game' : 'games'}
+              </Text>
+              {previewDates.map((date) => (
+                <View key={date.toISOString()} style={styles.previewRow}>
+                  <Text style={styles.previewText}>{formatPreviewDate(date)}</Text>
+                  {previewDates.length > 1 && (
+                    <TouchableOpacity onPress={() => handleRemoveDate(date)} hitSlop={8}>
+                      <Text style={styles.previewRemove}>Skip</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.lg,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: spacing.xs,
+  },
+  optionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  option: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.bg.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary.teal,
+    borderColor: colors.primary.teal,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  optionTextSelected: {
+    color: colors.bg.darkest,
+  },
+  subField: {
+    marginTop: spacing.md,
+  },
+  input: {
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    color: colors.text.primary,
+  },
+  addDateButton: {
+    marginTop: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  addDateText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: colors.text.primary,
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  previewText: {
+    fontSize: 15,
+    color: colors.text.primary,
+  },
+  previewRemove: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.status.error,
+  },
+  error: {
+    fontSize: 12,
+    color: colors.status.error,
+  },
+});
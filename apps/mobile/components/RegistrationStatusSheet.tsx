@@ -22,6 +22,8 @@ interface RegistrationStatusSheetProps {
   onEdit: () => void;
   onWithdraw: () => void;
   onMarkPayment: () => void;
+  /** Hand the spot to another player; while one is pending, the same action cancels it */
+  onTransfer?: () => void;
 }
 
 // Map registration status to badge variant and display text
@@ -90,6 +92,7 @@ export function RegistrationStatusSheet({
   onEdit,
   onWithdraw,
   onMarkPayment,
+  onTransfer,
 }: RegistrationStatusSheetProps) {
   if (!registration) return null;
 
@@ -97,6 +100,7 @@ export function RegistrationStatusSheet({
   const paymentInfo = getPaymentStatusDisplay(registration.paymentStatus);
   const canEdit = isBeforeDeadline(tournament.registrationDeadline);
   const hasFee = tournament.entryFee > 0;
+  const canTransfer = !!onTransfer && registration.status === 'Registered' && !registration.isWaitlisted;
 
   const handleWithdraw = () => {
     Alert.alert(
@@ -126,6 +130,11 @@ export function RegistrationStatusSheet({
     onClose();
   };
 
+  const handleTransfer = () => {
+    onTransfer?.();
+    onClose();
+  };
+
   return (
     <Modal
       visible={visible}
@@ -248,6 +257,22 @@ export function RegistrationStatusSheet({
                     </TouchableOpacity>
                   )}
 
+                  {/* Transfer - hand the spot (team and roster slot included) to another player */}
+                  {canTransfer && (
+                    <>
+                      {registration.pendingTransferId && (
+                        <Text style={styles.transferStatusText} allowFontScaling={false}>
+                          Transfer pending. You keep your spot until it's accepted.
+                        </Text>
+                      )}
+                      <TouchableOpacity style={styles.actionButton} onPress={handleTransfer}>
+                        <Text style={styles.actionButtonText} allowFontScaling={false}>
+                          {registration.pendingTransferId ? 'Cancel Transfer' : 'Transfer My Spot'}
+                        </Text>
+                      </TouchableOpacity>
+                    </>
+                  )}
+
                   {/* Withdraw - always available for non-cancelled registrations */}
                   {registration.status !== 'Cancelled' && (
                     <TouchableOpacity
@@ -365,6 +390,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  transferStatusText: {
+    fontSize: 13,
+    color: colors.text.muted,
+    textAlign: 'center',
+  },
   dangerButton: {
     backgroundColor: colors.status.errorSubtle,
     borderWidth: 1,
@@ -0,0 +1,26 @@
+import { formatReliability, getReliabilityTier } from '@bhmhockey/shared';
+import type { ReliabilityDto, ReliabilityTier } from '@bhmhockey/shared';
+import { Badge } from './Badge';
+import type { BadgeVariant } from './Badge';
+
+interface ReliabilityBadgeProps {
+  reliability: ReliabilityDto | null | undefined;
+}
+
+const tierVariants: Record<ReliabilityTier, BadgeVariant> = {
+  Reliable: 'green',
+  New: 'default',
+  Fair: 'warning',
+  Unreliable: 'error',
+};
+
+/**
+ * ReliabilityBadge - Attendance score pill, e.g. "92% reliable" or "New player"
+ */
+export function ReliabilityBadge({ reliability }: ReliabilityBadgeProps) {
+  return (
+    <Badge variant={tierVariants[getReliabilityTier(reliability)]}>
+      {formatReliability(reliability)}
+    </Badge>
+  );
+}
@@ -0,0 +1,146 @@
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { getSubPaymentPlan } from '@bhmhockey/shared';
+import type { SkillLevel, SubRequestDto, SubRequestStatus } from '@bhmhockey/shared';
+import { Badge } from './Badge';
+import type { BadgeVariant } from './Badge';
+import { SkillLevelBadges } from './SkillLevelBadges';
+import { colors, spacing, radius } from '../theme';
+
+interface SubRequestCardProps {
+  request: SubRequestDto;
+  /** Shown for open requests; e.g. "Take This Spot" or "Cancel Request" */
+  actionLabel?: string;
+  onAction?: () => void;
+  isProcessing?: boolean;
+  onPress?: () => void;
+}
+
+const statusVariants: Record<SubRequestStatus, BadgeVariant> = {
+  Open: 'teal',
+  Filled: 'green',
+  Cancelled: 'default',
+};
+
+const formatGameDate = (isoDate: string): string =>
+  new Date(isoDate).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * SubRequestCard - One sub request: the game, the spot, and who pays whom
+ */
+export function SubRequestCard({ request, actionLabel, onAction, isProcessing = false, onPress }: SubRequestCardProps) {
+  const payment = getSubPaymentPlan(request);
+  const paymentText =
+    payment.payee === 'none'
+      ? 'Free'
+      : payment.payee === 'requester'
+        ? `$${payment.amount.toFixed(2)} to ${request.requesterFirstName} (already paid)`
+        : `$${payment.amount.toFixed(2)} to the organizer`;
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={onPress} disabled={!onPress} activeOpacity={0.7}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title} numberOfLines={1}>{request.title}</Text>
+        <Badge variant={statusVariants[request.status]}>{request.status}</Badge>
+      </View>
+
+      {request.organizationName && (
+        <Text style={styles.meta} numberOfLines={1}>{request.organizationName}</Text>
+      )}
+      <Text style={styles.meta}>
+        {formatGameDate(request.gameDate)}
+        {request.venue ? ` · ${request.venue}` : ''}
+      </Text>
+
+      <View style={styles.tagsRow}>
+        <Badge variant="purple">{request.position}</Badge>
+        {request.skillLevels && request.skillLevels.length > 0 && (
+          <SkillLevelBadges levels={request.skillLevels as SkillLevel[]} size="small" />
+        )}
+      </View>
+
+      <Text style={styles.detail}>
+        Spot from {request.requesterFirstName} {request.requesterLastName} · {paymentText}
+      </Text>
+      {request.note && <Text style={styles.note}>"{request.note}"</Text>}
+      {request.status === 'Filled' && request.acceptedByName && (
+        <Text style={styles.filledText}>Taken by {request.acceptedByName}</Text>
+      )}
+
+      {request.status === 'Open' && actionLabel && onAction && (
+        <TouchableOpacity style={styles.actionButton} onPress={onAction} disabled={isProcessing}>
+          {isProcessing ? (
+            <ActivityIndicator size="small" color={colors.primary.teal} />
+          ) : (
+            <Text style={styles.actionButtonText}>{actionLabel}</Text>
+          )}
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    gap: spacing.xs,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  meta: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  tagsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  detail: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: spacing.xs,
+  },
+  note: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    color: colors.text.muted,
+  },
+  filledText: {
+    fontSize: 13,
+    color: colors.primary.green,
+  },
+  actionButton: {
+    marginTop: spacing.sm,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+});
@@ -0,0 +1,163 @@
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { getTransferPaymentPlan } from '@bhmhockey/shared';
+import type { RegistrationTransferDto, RegistrationTransferStatus } from '@bhmhockey/shared';
+import { Badge } from './Badge';
+import type { BadgeVariant } from './Badge';
+import { colors, spacing, radius } from '../theme';
+
+interface TransferCardProps {
+  transfer: RegistrationTransferDto;
+  /** 'incoming' shows who is offering the spot and what it costs; 'outgoing' shows who it was offered to */
+  direction: 'incoming' | 'outgoing';
+  /** Shown for pending transfers; e.g. "Accept" or "Cancel Transfer" */
+  actionLabel?: string;
+  onAction?: () => void;
+  /** Incoming direct transfers can be declined */
+  onDecline?: () => void;
+  isProcessing?: boolean;
+  onPress?: () => void;
+}
+
+const statusVariants: Record<RegistrationTransferStatus, BadgeVariant> = {
+  Pending: 'teal',
+  Accepted: 'green',
+  Declined: 'default',
+  Cancelled: 'default',
+};
+
+const formatGameDate = (isoDate: string): string =>
+  new Date(isoDate).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * TransferCard - One registration transfer: the game, the spot, and how payment settles
+ */
+export function TransferCard({
+  transfer,
+  direction,
+  actionLabel,
+  onAction,
+  onDecline,
+  isProcessing = false,
+  onPress,
+}: TransferCardProps) {
+  const payment = getTransferPaymentPlan(transfer);
+  const paymentText =
+    payment.payee === 'from'
+      ? `$${payment.amount.toFixed(2)} to ${transfer.fromFirstName} (already paid)`
+      : payment.payee === 'organizer'
+        ? `$${payment.amount.toFixed(2)} to the organizer`
+        : transfer.cost > 0
+          ? 'Covered by your waitlist payment'
+          : 'Free';
+
+  const detailText =
+    direction === 'incoming'
+      ? `From ${transfer.fromFirstName} ${transfer.fromLastName} · ${paymentText}`
+      : transfer.toUserId
+        ? `To ${transfer.toFirstName} ${transfer.toLastName}`
+        : 'Offered to the waitlist';
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={onPress} disabled={!onPress} activeOpacity={0.7}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title} numberOfLines={1}>{transfer.title}</Text>
+        <Badge variant={statusVariants[transfer.status]}>{transfer.status}</Badge>
+      </View>
+      <Text style={styles.meta}>{formatGameDate(transfer.gameDate)}</Text>
+
+      {(transfer.position || transfer.teamName) && (
+        <View style={styles.tagsRow}>
+          {transfer.position && <Badge variant="purple">{transfer.position}</Badge>}
+          {transfer.teamName && <Badge variant="default">{transfer.teamName}</Badge>}
+        </View>
+      )}
+
+      <Text style={styles.detail}>{detailText}</Text>
+
+      {transfer.status === 'Pending' && actionLabel && onAction && (
+        <View style={styles.actionsRow}>
+          {onDecline && (
+            <TouchableOpacity style={[styles.actionButton, styles.declineButton]} onPress={onDecline} disabled={isProcessing}>
+              <Text style={[styles.actionButtonText, styles.declineButtonText]}>Decline</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.actionButton} onPress={onAction} disabled={isProcessing}>
+            {isProcessing ? (
+              <ActivityIndicator size="small" color={colors.primary.teal} />
+            ) : (
+              <Text style={styles.actionButtonText}>{actionLabel}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    gap: spacing.xs,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  meta: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  tagsRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  detail: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: spacing.xs,
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+  },
+  actionButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  declineButton: {
+    borderColor: colors.border.default,
+  },
+  declineButtonText: {
+    color: colors.text.muted,
+  },
+});
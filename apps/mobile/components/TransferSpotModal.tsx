@@ -0,0 +1,345 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  TextInput,
+  FlatList,
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { registrationTransferService } from '@bhmhockey/api-client';
+import type { PaymentStatus, RegistrationTransferDto, UserSearchResultDto } from '@bhmhockey/shared';
+import { getErrorMessage } from '../stores/eventStore';
+import { colors, spacing, radius, typography } from '../theme';
+
+interface TransferSpotModalProps {
+  visible: boolean;
+  onClose: () => void;
+  /** Exactly one of eventId / tournamentId */
+  eventId?: string;
+  tournamentId?: string;
+  /** What the spot costs, and what the user has paid for it, to explain how money settles */
+  cost: number;
+  paymentStatus?: PaymentStatus;
+  onTransferCreated: (transfer: RegistrationTransferDto) => void;
+}
+
+/**
+ * TransferSpotModal - Hand the user's registration to a specific player, or offer it to the waitlist
+ */
+export function TransferSpotModal({
+  visible,
+  onClose,
+  eventId,
+  tournamentId,
+  cost,
+  paymentStatus,
+  onTransferCreated,
+}: TransferSpotModalProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserSearchResultDto[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Reset state when the modal closes
+  useEffect(() => {
+    if (!visible) {
+      setQuery('');
+      setResults([]);
+      setIsSearching(false);
+      setIsSubmitting(false);
+    }
+  }, [visible]);
+
+  // Debounced search
+  useEffect(() => {
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+
+    if (query.length < 2) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    searchTimeoutRef.current = setTimeout(async () => {
+      try {
+        setResults(await registrationTransferService.searchRecipients({ eventId, tournamentId }, query));
+      } catch {
+        setResults([]);
+      } finally {
+        setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
+    };
+  }, [query, eventId, tournamentId]);
+
+  const isPaid = paymentStatus === 'Verified' || paymentStatus === 'MarkedPaid';
+  const paymentMessage =
+    cost > 0
+      ? isPaid
+        ? '\n\nSince you already paid, they will pay you back directly (or the organizer refunds you if they already paid from the waitlist).'
+        : '\n\nThey will owe the organizer for the spot.'
+      : '';
+
+  const submitTransfer = async (toUser: UserSearchResultDto | null) => {
+    setIsSubmitting(true);
+    try {
+      const transfer = await registrationTransferService.createTransfer({
+        eventId,
+        tournamentId,
+        toUserId: toUser?.id,
+      });
+      onTransferCreated(transfer);
+      onClose();
+      Alert.alert(
+        'Transfer Sent',
+        toUser
+          ? `We'll let you know when ${toUser.firstName} accepts.`
+          : "We'll let you know when someone on the waitlist takes your spot."
+      );
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to transfer your spot'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const confirmTransfer = (toUser: UserSearchResultDto | null) => {
+    const recipient = toUser ? `${toUser.firstName} ${toUser.lastName}` : 'the first waitlisted player to accept';
+    Alert.alert(
+      'Transfer Your Spot?',
+      `Your spot, team assignment and roster slot go to ${recipient}.${paymentMessage}\n\nYou stay registered until it's accepted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Transfer', onPress: () => submitTransfer(toUser) },
+      ]
+    );
+  };
+
+  const renderUserItem = ({ item }: { item: UserSearchResultDto }) => (
+    <TouchableOpacity
+      style={styles.userItem}
+      onPress={() => confirmTransfer(item)}
+      disabled={isSubmitting}
+    >
+      <Text style={styles.userName} allowFontScaling={false}>
+        {item.firstName} {item.lastName}
+      </Text>
+      <Text style={styles.userAction} allowFontScaling={false}>
+        Transfer
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.flex}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <TouchableWithoutFeedback onPress={onClose}>
+          <View style={styles.overlay}>
+            <TouchableWithoutFeedback>
+              <View style={styles.sheet}>
+                <View style={styles.handleBar} />
+
+                <Text style={styles.title} allowFontScaling={false}>
+                  Transfer My Spot
+                </Text>
+                <Text style={styles.subtitle} allowFontScaling={false}>
+                  Pick who takes your place. Your position, team and roster slot carry over.
+                </Text>
+
+                <TouchableOpacity
+                  style={styles.waitlistButton}
+                  onPress={() => confirmTransfer(null)}
+                  disabled={isSubmitting}
+                >
+                  <Text style={styles.waitlistButtonText} allowFontScaling={false}>
+                    Offer to the Waitlist
+                  </Text>
+                  <Text style={styles.waitlistButtonHint} allowFontScaling={false}>
+                    First waitlisted player to accept takes it
+                  </Text>
+                </TouchableOpacity>
+
+                <View style={styles.searchContainer}>
+                  <TextInput
+                    style={styles.searchInput}
+                    placeholder="Or search for a player..."
+                    placeholderTextColor={colors.text.muted}
+                    value={query}
+                    onChangeText={setQuery}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    allowFontScaling={false}
+                  />
+                  {isSearching && (
+                    <ActivityIndicator size="small" color={colors.primary.teal} style={styles.searchSpinner} />
+                  )}
+                </View>
+
+                {isSubmitting ? (
+                  <View style={styles.emptyState}>
+                    <ActivityIndicator size="small" color={colors.primary.teal} />
+                  </View>
+                ) : results.length > 0 ? (
+                  <FlatList
+                    data={results}
+                    keyExtractor={(item) => item.id}
+                    renderItem={renderUserItem}
+                    style={styles.resultsList}
+                    keyboardShouldPersistTaps="handled"
+                  />
+                ) : query.length >= 2 && !isSearching ? (
+                  <View style={styles.emptyState}>
+                    <Text style={styles.emptyText} allowFontScaling={false}>
+                      No players found
+                    </Text>
+                  </View>
+                ) : null}
+
+                <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+                  <Text style={styles.closeButtonText} allowFontScaling={false}>
+                    Cancel
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </TouchableWithoutFeedback>
+          </View>
+        </TouchableWithoutFeedback>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: colors.bg.dark,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    maxHeight: '85%',
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.xl + 20, // Extra padding for home indicator
+  },
+  handleBar: {
+    width: 40,
+    height: 4,
+    backgroundColor: colors.border.muted,
+    borderRadius: 2,
+    alignSelf: 'center',
+    marginTop: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  title: {
+    ...typography.screenTitle,
+    fontSize: 22,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.text.muted,
+    marginTop: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  waitlistButton: {
+    backgroundColor: colors.subtle.teal,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    alignItems: 'center',
+  },
+  waitlistButtonText: {
+    color: colors.primary.teal,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  waitlistButtonHint: {
+    color: colors.text.muted,
+    fontSize: 12,
+    marginTop: 2,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: spacing.md,
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.md,
+    fontSize: 16,
+    color: colors.text.primary,
+  },
+  searchSpinner: {
+    marginRight: spacing.md,
+  },
+  resultsList: {
+    maxHeight: 260,
+  },
+  userItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  userName: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: colors.text.primary,
+  },
+  userAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  emptyState: {
+    paddingVertical: spacing.lg,
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+  },
+  closeButton: {
+    paddingVertical: spacing.md,
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    color: colors.text.muted,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -17,6 +17,9 @@ const iconMap: Record<string, ReturnType<typeof require>> = {
   amp: require('../../assets/badges/amp.png'),
 };
 
+// Icon names a badge type can use (assets bundled with the app)
+export const BADGE_ICON_NAMES = Object.keys(iconMap);
+
 /**
  * BadgeIcon - Renders a badge icon based on iconName and size
  *
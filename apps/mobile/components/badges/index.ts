@@ -1,5 +1,5 @@
 // Badge display components
-export { BadgeIcon } from './BadgeIcon';
+export { BadgeIcon, BADGE_ICON_NAMES } from './BadgeIcon';
 export { BadgeIconsRow } from './BadgeIconsRow';
 export { TrophyCase } from './TrophyCase';
 export { Confetti } from './Confetti';
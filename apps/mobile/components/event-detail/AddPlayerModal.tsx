@@ -15,11 +15,28 @@ import {
   Platform,
   ScrollView,
 } from 'react-native';
-import type { UserSearchResultDto, SkillLevel, EventRegistrationDto } from '@bhmhockey/shared';
-import { useEventStore } from '../../stores/eventStore';
+import { eventService, organizationService } from '@bhmhockey/api-client';
+import { rankMembersForEvent } from '@bhmhockey/shared';
+import type {
+  UserSearchResultDto,
+  SkillLevel,
+  EventDto,
+  EventRegistrationDto,
+  OrganizationMember,
+  Position,
+  RankedMember,
+} from '@bhmhockey/shared';
+import { useEventStore, getErrorMessage } from '../../stores/eventStore';
+import { ReliabilityBadge } from '../ReliabilityBadge';
 import { colors, spacing, radius } from '../../theme';
 
-type TabType = 'search' | 'create';
+type TabType = 'available' | 'search' | 'create';
+
+const AVAILABLE_FILTERS: { value: Position | undefined; label: string }[] = [
+  { value: undefined, label: 'All' },
+  { value: 'Skater', label: 'Skaters' },
+  { value: 'Goalie', label: 'Goalies' },
+];
 
 interface AddPlayerModalProps {
   visible: boolean;
@@ -28,6 +45,10 @@ interface AddPlayerModalProps {
   onPlayerAdded: () => void;
   /** When set, the modal opens in edit mode: only the guest form is shown, pre-filled with this ghost player's values */
   editingRegistration?: EventRegistrationDto | null;
+  /** Org events get an "Available" tab ranking members who are free and skill-matched */
+  event?: EventDto;
+  /** Users already on the roster or waitlist (left out of the Available tab) */
+  existingUserIds?: string[];
 }
 
 export function AddPlayerModal({
@@ -36,9 +57,23 @@ export function AddPlayerModal({
   onClose,
   onPlayerAdded,
   editingRegistration,
+  event,
+  existingUserIds = [],
 }: AddPlayerModalProps) {
+  // Short org games open on the ranked list of available members
+  const hasAvailableTab = !!event && !!event.organizationId;
+  const defaultTab: TabType =
+    hasAvailableTab && event.registeredCount < event.maxPlayers ? 'available' : 'search';
+
   // Tab state
-  const [activeTab, setActiveTab] = useState<TabType>('search');
+  const [activeTab, setActiveTab] = useState<TabType>(defaultTab);
+
+  // Available tab state
+  const [members, setMembers] = useState<OrganizationMember[] | null>(null);
+  const [isLoadingMembers, setIsLoadingMembers] = useState(false);
+  const [availableFilter, setAvailableFilter] = useState<Position | undefined>(undefined);
+  const [invitedIds, setInvitedIds] = useState<Set<string>>(new Set());
+  const [invitingId, setInvitingId] = useState<string | null>(null);
 
   // Search tab state
   const [query, setQuery] = useState('');
@@ -67,7 +102,10 @@ export function AddPlayerModal({
   useEffect(() => {
     if (!visible) {
       // Reset tab
-      setActiveTab('search');
+      setActiveTab(defaultTab);
+      // Reset available tab state (invites stay marked for this event)
+      setMembers(null);
+      setAvailableFilter(undefined);
       // Reset search tab state
       setQuery('');
       setResults([]);
@@ -84,6 +122,38 @@ export function AddPlayerModal({
     }
   }, [visible]);
 
+  // Load org members the first time the Available tab is shown
+  useEffect(() => {
+    if (!visible || activeTab !== 'available' || members || !event?.organizationId) return;
+    setIsLoadingMembers(true);
+    organizationService
+      .getMembers(event.organizationId)
+      .then(setMembers)
+      .catch((error) => {
+        setMembers([]);
+        Alert.alert('Error', getErrorMessage(error, 'Failed to load members'));
+      })
+      .finally(() => setIsLoadingMembers(false));
+  }, [visible, activeTab, members, event?.organizationId]);
+
+  const rankedMembers =
+    event && members
+      ? rankMembersForEvent(members, event, { excludeUserIds: existingUserIds, position: availableFilter })
+      : [];
+
+  const handleInvite = async (userIds: string[]) => {
+    if (userIds.length === 0) return;
+    setInvitingId(userIds.length === 1 ? userIds[0] : 'all');
+    try {
+      await eventService.invitePlayers(eventId, userIds);
+      setInvitedIds((prev) => new Set([...prev, ...userIds]));
+    } catch (error) {
+      Alert.alert('Error', getErrorMessage(error, 'Failed to send invites. Please try again.'));
+    } finally {
+      setInvitingId(null);
+    }
+  };
+
   // Edit mode: pre-fill the guest form with the ghost player's current values
   useEffect(() => {
     if (visible && editingRegistration) {
@@ -196,6 +266,40 @@ export function AddPlayerModal({
     }
   };
 
+  const renderAvailableItem = ({ item }: { item: RankedMember }) => {
+    const isInvited = invitedIds.has(item.member.id);
+    return (
+      <View style={styles.userItem}>
+        <View style={styles.userInfo}>
+          <Text style={styles.userName} allowFontScaling={false}>
+            {item.member.firstName} {item.member.lastName}
+          </Text>
+          <Text style={styles.userEmail} allowFontScaling={false}>
+            {item.skillLevel} {item.position.toLowerCase()}
+          </Text>
+          {item.member.reliability !== undefined && (
+            <View style={styles.userReliability}>
+              <ReliabilityBadge reliability={item.member.reliability} />
+            </View>
+          )}
+        </View>
+        <TouchableOpacity
+          style={[styles.inviteButton, isInvited && styles.inviteButtonDone]}
+          onPress={() => handleInvite([item.member.id])}
+          disabled={isInvited || invitingId !== null}
+        >
+          {invitingId === item.member.id ? (
+            <ActivityIndicator size="small" color={colors.primary.teal} />
+          ) : (
+            <Text style={[styles.inviteButtonText, isInvited && styles.inviteButtonTextDone]} allowFontScaling={false}>
+              {isInvited ? 'Invited' : 'Invite'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
   const renderUserItem = ({ item }: { item: UserSearchResultDto }) => {
     const positions = item.positions ? Object.keys(item.positions) : [];
     const positionText = positions.length > 0
@@ -216,6 +320,11 @@ export function AddPlayerModal({
           <Text style={styles.userEmail} allowFontScaling={false}>
             {item.email}
           </Text>
+          {item.reliability !== undefined && (
+            <View style={styles.userReliability}>
+              <ReliabilityBadge reliability={item.reliability} />
+            </View>
+          )}
         </View>
         <View style={styles.positionBadge}>
           <Text style={styles.positionText} allowFontScaling={false}>
@@ -254,6 +363,19 @@ export function AddPlayerModal({
                 {/* Tab Toggle - hidden in edit mode (guest form only) */}
                 {!isEditMode && (
                   <View style={styles.tabContainer}>
+                    {hasAvailableTab && (
+                      <TouchableOpacity
+                        style={[styles.tab, activeTab === 'available' && styles.tabActive]}
+                        onPress={() => setActiveTab('available')}
+                      >
+                        <Text
+                          style={[styles.tabText, activeTab === 'available' && styles.tabTextActive]}
+                          allowFontScaling={false}
+                        >
+                          Available
+                        </Text>
+                      </TouchableOpacity>
+                    )}
                     <TouchableOpacity
                       style={[styles.tab, activeTab === 'search' && styles.tabActive]}
                       onPress={() => setActiveTab('search')}
@@ -279,7 +401,63 @@ export function AddPlayerModal({
                   </View>
                 )}
 
-                {!isEditMode && activeTab === 'search' ? (
+                {!isEditMode && activeTab === 'available' ? (
+                  <>
+                    {/* Position filter + invite all */}
+                    <View style={styles.availableHeader}>
+                      <View style={styles.filterRow}>
+                        {AVAILABLE_FILTERS.map((filter) => (
+                          <TouchableOpacity
+                            key={filter.label}
+                            style={[styles.filterChip, availableFilter === filter.value && styles.filterChipSelected]}
+                            onPress={() => setAvailableFilter(filter.value)}
+                          >
+                            <Text
+                              style={[styles.filterChipText, availableFilter === filter.value && styles.filterChipTextSelected]}
+                              allowFontScaling={false}
+                            >
+                              {filter.label}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                      {rankedMembers.some((r) => !invitedIds.has(r.member.id)) && (
+                        <TouchableOpacity
+                          onPress={() =>
+                            handleInvite(
+                              rankedMembers.filter((r) => !invitedIds.has(r.member.id)).map((r) => r.member.id)
+                            )
+                          }
+                          disabled={invitingId !== null}
+                        >
+                          <Text style={styles.inviteAllText} allowFontScaling={false}>
+                            {invitingId === 'all' ? 'Inviting...' : 'Invite All'}
+                          </Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+
+                    {isLoadingMembers ? (
+                      <View style={styles.emptyState}>
+                        <ActivityIndicator size="small" color={colors.primary.teal} />
+                      </View>
+                    ) : rankedMembers.length > 0 ? (
+                      <FlatList
+                        data={rankedMembers}
+                        keyExtractor={(item) => item.member.id}
+                        renderItem={renderAvailableItem}
+                        style={styles.resultsList}
+                        contentContainerStyle={styles.resultsContent}
+                      />
+                    ) : (
+                      <View style={styles.emptyState}>
+                        <Text style={styles.emptyText} allowFontScaling={false}>
+                          No members are marked available at this time and skill level
+                        </Text>
+                      </View>
+                    )}
+                  </>
+                ) : !isEditMode && activeTab === 'search' ? (
                   <>
                     {/* Search Input */}
                     <View style={styles.searchContainer}>
@@ -659,6 +837,62 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: colors.border.default,
   },
+  availableHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  filterChip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    backgroundColor: colors.bg.elevated,
+  },
+  filterChipSelected: {
+    borderColor: colors.primary.teal,
+    backgroundColor: colors.subtle.teal,
+  },
+  filterChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  filterChipTextSelected: {
+    color: colors.primary.teal,
+  },
+  inviteAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  inviteButton: {
+    minWidth: 72,
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+  },
+  inviteButtonDone: {
+    borderColor: colors.border.default,
+  },
+  inviteButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  inviteButtonTextDone: {
+    color: colors.text.muted,
+  },
   userItemSelected: {
     borderColor: colors.primary.teal,
     backgroundColor: colors.subtle.teal,
@@ -676,6 +910,10 @@ const styles = StyleSheet.create({
     color: colors.text.muted,
     marginTop: 2,
   },
+  userReliability: {
+    flexDirection: 'row',
+    marginTop: spacing.xs,
+  },
   positionBadge: {
     backgroundColor: colors.bg.darkest,
     paddingHorizontal: spacing.sm,
@@ -0,0 +1,238 @@
+import { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  ScrollView,
+} from 'react-native';
+import type { AttendanceItem, AttendanceStatus, EventRegistrationDto } from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../../theme';
+
+interface AttendanceModalProps {
+  visible: boolean;
+  /** Rostered (not waitlisted) registrations */
+  registrations: EventRegistrationDto[];
+  onClose: () => void;
+  /** Save attendance for every rostered player */
+  onSave: (items: AttendanceItem[]) => void;
+}
+
+const OPTIONS: { status: AttendanceStatus; label: string; color: string }[] = [
+  { status: 'Present', label: 'Present', color: colors.primary.green },
+  { status: 'NoShow', label: 'No-show', color: colors.status.error },
+  { status: 'LateCancel', label: 'Late cancel', color: colors.status.warning },
+];
+
+/**
+ * AttendanceModal - Mark each rostered player present, no-show or late cancel
+ * after the game. Unmarked players start as present, or as no-shows if check-in
+ * was used and they never checked in.
+ */
+export function AttendanceModal({ visible, registrations, onClose, onSave }: AttendanceModalProps) {
+  const [statuses, setStatuses] = useState<Record<string, AttendanceStatus>>({});
+
+  useEffect(() => {
+    if (visible) {
+      const usedCheckIn = registrations.some((r) => r.checkedInAt);
+      setStatuses(
+        Object.fromEntries(
+          registrations.map((r) => [
+            r.id,
+            r.attendanceStatus ?? (usedCheckIn && !r.checkedInAt ? 'NoShow' : 'Present'),
+          ])
+        )
+      );
+    }
+  }, [visible, registrations]);
+
+  const sorted = [...registrations].sort(
+    (a, b) =>
+      (a.teamAssignment ?? '').localeCompare(b.teamAssignment ?? '') ||
+      a.user.lastName.localeCompare(b.user.lastName)
+  );
+  const missedCount = Object.values(statuses).filter((status) => status !== 'Present').length;
+
+  const handleSave = () => {
+    onSave(
+      registrations.map((r) => ({ registrationId: r.id, attendanceStatus: statuses[r.id] ?? 'Present' }))
+    );
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <TouchableWithoutFeedback>
+            <View style={styles.modal}>
+              {/* Header */}
+              <View style={styles.header}>
+                <Text style={styles.title} allowFontScaling={false}>Attendance</Text>
+                <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                  <Text style={styles.closeButtonText} allowFontScaling={false}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView contentContainerStyle={styles.content}>
+                <Text style={styles.hint} allowFontScaling={false}>
+                  No-shows and late cancels lower a player's reliability score.
+                </Text>
+
+                {sorted.map((registration) => (
+                  <View key={registration.id} style={styles.playerRow}>
+                    <View style={styles.playerInfo}>
+                      <Text style={styles.playerName} numberOfLines={1} allowFontScaling={false}>
+                        {registration.user.firstName} {registration.user.lastName}
+                      </Text>
+                      <Text style={styles.playerMeta} allowFontScaling={false}>
+                        {registration.teamAssignment ?? 'No team'} ·{' '}
+                        {registration.registeredPosition === 'Goalie' ? 'G' : 'Skater'}
+                      </Text>
+                    </View>
+                    <View style={styles.options}>
+                      {OPTIONS.map(({ status, label, color }) => {
+                        const isSelected = statuses[registration.id] === status;
+                        return (
+                          <TouchableOpacity
+                            key={status}
+                            style={[styles.option, isSelected && { borderColor: color, backgroundColor: `${color}20` }]}
+                            onPress={() => setStatuses((prev) => ({ ...prev, [registration.id]: status }))}
+                          >
+                            <Text
+                              style={[styles.optionText, isSelected && { color }]}
+                              allowFontScaling={false}
+                            >
+                              {label}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+                ))}
+              </ScrollView>
+
+              {/* Footer */}
+              <View style={styles.footer}>
+                <Text style={styles.summaryText} allowFontScaling={false}>
+                  {registrations.length - missedCount} present · {missedCount} missed
+                </Text>
+                <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+                  <Text style={styles.saveButtonText} allowFontScaling={false}>Save Attendance</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    backgroundColor: colors.bg.dark,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    height: '90%',
+    paddingBottom: spacing.xl + 20, // Extra padding for home indicator
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  closeButton: {
+    padding: spacing.xs,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: colors.primary.teal,
+    fontWeight: '600',
+  },
+  content: {
+    padding: spacing.md,
+    gap: spacing.sm,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  playerRow: {
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+    gap: spacing.xs,
+  },
+  playerInfo: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    gap: spacing.sm,
+  },
+  playerName: {
+    flexShrink: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  playerMeta: {
+    fontSize: 12,
+    color: colors.text.muted,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    backgroundColor: colors.bg.elevated,
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.muted,
+  },
+  footer: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.default,
+    gap: spacing.sm,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+  saveButton: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+    borderRadius: radius.lg,
+    backgroundColor: colors.primary.teal,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.bg.darkest,
+  },
+});
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ActivityIndicator, TouchableOpacity } from 'react-native';
+import QRCode from 'react-native-qrcode-svg';
+import { eventService } from '@bhmhockey/api-client';
+import { buildCheckInCode } from '@bhmhockey/shared';
+import type { CheckInPassDto } from '@bhmhockey/shared';
+import { cacheKeys, fetchWithCache } from '../../utils/offlineCache';
+import { colors, spacing, radius } from '../../theme';
+
+interface CheckInPassCardProps {
+  eventId: string;
+}
+
+/**
+ * CheckInPassCard - The player's personal QR code for checking in at the rink.
+ * Cached so it still shows without signal at the rink.
+ */
+export function CheckInPassCard({ eventId }: CheckInPassCardProps) {
+  const [pass, setPass] = useState<CheckInPassDto | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPass = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { data } = await fetchWithCache(cacheKeys.checkInPass(eventId), () =>
+        eventService.getCheckInPass(eventId)
+      );
+      setPass(data);
+    } catch (err: any) {
+      setError(err?.message || 'Failed to load check-in pass');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadPass();
+  }, [eventId]);
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title} allowFontScaling={false}>CHECK-IN PASS</Text>
+      {isLoading ? (
+        <ActivityIndicator size="small" color={colors.primary.teal} style={styles.loading} />
+      ) : pass ? (
+        <>
+          <View style={styles.qrFrame}>
+            <QRCode value={buildCheckInCode(pass)} size={180} backgroundColor="#FFFFFF" color="#000000" />
+          </View>
+          <Text style={styles.hint} allowFontScaling={false}>
+            Show this to the organizer when you get to the rink
+          </Text>
+        </>
+      ) : (
+        <TouchableOpacity onPress={loadPass}>
+          <Text style={styles.errorText} allowFontScaling={false}>{error}</Text>
+          <Text style={styles.retryText} allowFontScaling={false}>Tap to retry</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    padding: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    marginTop: spacing.md,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: colors.text.muted,
+    letterSpacing: 1,
+    marginBottom: spacing.md,
+  },
+  loading: {
+    paddingVertical: spacing.xl,
+  },
+  qrFrame: {
+    padding: spacing.md,
+    backgroundColor: '#FFFFFF',
+    borderRadius: radius.md,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.text.muted,
+    textAlign: 'center',
+    marginTop: spacing.md,
+  },
+  errorText: {
+    fontSize: 14,
+    color: colors.status.error,
+    textAlign: 'center',
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary.teal,
+    textAlign: 'center',
+    marginTop: spacing.xs,
+  },
+});
@@ -0,0 +1,320 @@
+import { useRef, useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Ionicons } from '@expo/vector-icons';
+import { evaluateCheckInScan, getCheckInWarnings } from '@bhmhockey/shared';
+import type { CheckInScan, EventDto, EventRegistrationDto } from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../../theme';
+
+// Ignore the same code for this long - the camera reports it on every frame
+const RESCAN_DELAY_MS = 3000;
+
+interface CheckInScannerModalProps {
+  visible: boolean;
+  event: EventDto;
+  /** All registrations, rostered and waitlisted */
+  registrations: EventRegistrationDto[];
+  /** Check-ins scanned offline and not yet synced */
+  pendingSyncCount: number;
+  onClose: () => void;
+  onCheckIn: (registration: EventRegistrationDto) => void;
+  onUndoCheckIn: (registration: EventRegistrationDto) => void;
+}
+
+const formatCheckInTime = (isoDate: string) =>
+  new Date(isoDate).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * CheckInScannerModal - Organizer scanner for player check-in passes.
+ * Scans are verified against the loaded roster, so it works without signal.
+ */
+export function CheckInScannerModal({
+  visible,
+  event,
+  registrations,
+  pendingSyncCount,
+  onClose,
+  onCheckIn,
+  onUndoCheckIn,
+}: CheckInScannerModalProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  const [lastScan, setLastScan] = useState<CheckInScan<EventRegistrationDto> | null>(null);
+  const lastCodeRef = useRef<{ data: string; at: number } | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setLastScan(null);
+      lastCodeRef.current = null;
+    }
+  }, [visible]);
+
+  const roster = registrations.filter((r) => !r.isWaitlisted);
+  const checkedInCount = roster.filter((r) => r.checkedInAt).length;
+  const sorted = [...roster].sort(
+    (a, b) =>
+      Number(!!a.checkedInAt) - Number(!!b.checkedInAt) ||
+      a.user.lastName.localeCompare(b.user.lastName)
+  );
+
+  const handleBarcodeScanned = ({ data }: { data: string }) => {
+    const now = Date.now();
+    if (lastCodeRef.current?.data === data && now - lastCodeRef.current.at < RESCAN_DELAY_MS) return;
+    lastCodeRef.current = { data, at: now };
+
+    const scan = evaluateCheckInScan(data, registrations, { requiresPayment: event.cost > 0 });
+    setLastScan(scan);
+    if (scan.outcome === 'ok' && scan.registration) {
+      onCheckIn(scan.registration);
+    }
+  };
+
+  const handlePlayerPress = (registration: EventRegistrationDto) => {
+    const name = `${registration.user.firstName} ${registration.user.lastName}`;
+    if (registration.checkedInAt) {
+      Alert.alert('Undo Check-In', `Mark ${name} as not checked in?`, [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Undo', style: 'destructive', onPress: () => onUndoCheckIn(registration) },
+      ]);
+      return;
+    }
+    Alert.alert('Check In', `Check in ${name} without scanning their pass?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Check In',
+        onPress: () => {
+          setLastScan({
+            outcome: 'ok',
+            registration,
+            message: `${name} checked in`,
+            warnings: getCheckInWarnings(registration, event.cost > 0),
+          });
+          onCheckIn(registration);
+        },
+      },
+    ]);
+  };
+
+  const renderCamera = () => {
+    if (!permission) {
+      return <ActivityIndicator size="small" color={colors.primary.teal} />;
+    }
+    if (!permission.granted) {
+      return (
+        <View style={styles.permission}>
+          <Text style={styles.permissionText} allowFontScaling={false}>
+            Camera access is needed to scan check-in passes.
+          </Text>
+          <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+            <Text style={styles.permissionButtonText} allowFontScaling={false}>Allow Camera</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    return (
+      <CameraView
+        style={StyleSheet.absoluteFill}
+        facing="back"
+        barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+        onBarcodeScanned={visible ? handleBarcodeScanned : undefined}
+      />
+    );
+  };
+
+  const bannerColor = !lastScan
+    ? colors.border.default
+    : lastScan.outcome === 'ok'
+      ? lastScan.warnings.length > 0
+        ? colors.status.warning
+        : colors.status.success
+      : lastScan.outcome === 'duplicate'
+        ? colors.status.info
+        : colors.status.error;
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <Text style={styles.title} allowFontScaling={false}>Check-In</Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText} allowFontScaling={false}>Done</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.camera}>{renderCamera()}</View>
+
+        {/* Last scan result */}
+        <View style={[styles.banner, { borderColor: bannerColor }]}>
+          <Text style={[styles.bannerText, lastScan && { color: bannerColor }]} allowFontScaling={false}>
+            {lastScan ? lastScan.message : 'Point the camera at a player\'s check-in pass'}
+          </Text>
+          {lastScan?.warnings.map((warning) => (
+            <View key={warning} style={styles.warningRow}>
+              <Ionicons name="warning-outline" size={14} color={colors.status.warning} />
+              <Text style={styles.warningText} allowFontScaling={false}>{warning}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={styles.summaryRow}>
+          <Text style={styles.summaryText} allowFontScaling={false}>
+            {checkedInCount} of {roster.length} checked in
+          </Text>
+          {pendingSyncCount > 0 && (
+            <Text style={styles.pendingText} allowFontScaling={false}>
+              {pendingSyncCount} waiting to sync
+            </Text>
+          )}
+        </View>
+
+        {/* Roster - not checked in first */}
+        <ScrollView contentContainerStyle={styles.list}>
+          {sorted.map((registration) => (
+            <TouchableOpacity
+              key={registration.id}
+              style={styles.playerRow}
+              onPress={() => handlePlayerPress(registration)}
+            >
+              <Ionicons
+                name={registration.checkedInAt ? 'checkmark-circle' : 'ellipse-outline'}
+                size={20}
+                color={registration.checkedInAt ? colors.status.success : colors.text.subtle}
+              />
+              <Text style={styles.playerName} numberOfLines={1} allowFontScaling={false}>
+                {registration.user.firstName} {registration.user.lastName}
+              </Text>
+              <Text style={styles.playerMeta} allowFontScaling={false}>
+                {registration.checkedInAt ? formatCheckInTime(registration.checkedInAt) : 'Not here yet'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.bg.darkest,
+    paddingTop: spacing.xxl,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.md,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  closeButton: {
+    padding: spacing.xs,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: colors.primary.teal,
+    fontWeight: '600',
+  },
+  camera: {
+    height: 260,
+    marginHorizontal: spacing.md,
+    borderRadius: radius.lg,
+    overflow: 'hidden',
+    backgroundColor: colors.bg.dark,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  permission: {
+    alignItems: 'center',
+    padding: spacing.lg,
+    gap: spacing.md,
+  },
+  permissionText: {
+    fontSize: 14,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+  permissionButton: {
+    backgroundColor: colors.primary.teal,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    borderRadius: radius.md,
+  },
+  permissionButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.bg.darkest,
+  },
+  banner: {
+    margin: spacing.md,
+    padding: spacing.md,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    backgroundColor: colors.bg.dark,
+    gap: spacing.xs,
+  },
+  bannerText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.muted,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  warningText: {
+    fontSize: 13,
+    color: colors.status.warning,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  summaryText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  pendingText: {
+    fontSize: 13,
+    color: colors.status.warning,
+  },
+  list: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.xl + 20, // Extra padding for home indicator
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  playerName: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text.primary,
+  },
+  playerMeta: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+});
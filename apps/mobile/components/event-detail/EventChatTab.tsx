@@ -1,9 +1,13 @@
+import { useEffect, useState } from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Linking, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import type { EventDto } from '@bhmhockey/shared';
+import { eventService } from '@bhmhockey/api-client';
+import type { ChatParticipant, EventDto } from '@bhmhockey/shared';
+import { useAuthStore } from '../../stores/authStore';
 import { EmptyState } from '../EmptyState';
 import { Badge } from '../Badge';
+import { ChatThread } from '../ChatThread';
 import { colors, spacing, radius } from '../../theme';
 
 interface EventChatTabProps {
@@ -11,6 +15,60 @@ interface EventChatTabProps {
 }
 
 export function EventChatTab({ event }: EventChatTabProps) {
+  // In-app chat is opt-in; everything else keeps using its GroupMe link
+  if (event.inAppChatEnabled !== true) {
+    return <GroupMeChat event={event} />;
+  }
+  return <InAppChat event={event} />;
+}
+
+// Visible to registered and waitlisted players, plus the organizer
+function InAppChat({ event }: EventChatTabProps) {
+  const { user } = useAuthStore();
+  const [participants, setParticipants] = useState<ChatParticipant[]>([]);
+  const canView = event.canManage || event.isRegistered || event.amIWaitlisted;
+
+  useEffect(() => {
+    if (!canView) return;
+    const loadParticipants = async () => {
+      try {
+        const registrations = await eventService.getRegistrations(event.id);
+        setParticipants(
+          registrations
+            .filter((r) => r.status !== 'Cancelled')
+            .map((r) => ({ userId: r.user.id, firstName: r.user.firstName, lastName: r.user.lastName }))
+        );
+      } catch {
+        // Mentions just won't autocomplete
+      }
+    };
+    loadParticipants();
+  }, [event.id, canView]);
+
+  if (!canView) {
+    return (
+      <View style={styles.container}>
+        <EmptyState
+          icon="chatbubbles-outline"
+          title="Players Only"
+          message="Register or join the waitlist to see this game's chat."
+        />
+      </View>
+    );
+  }
+
+  return (
+    <ChatThread
+      threadType="Event"
+      threadId={event.id}
+      currentUserId={user?.id}
+      participants={participants}
+      canModerate={event.canManage}
+    />
+  );
+}
+
+function GroupMeChat({ event }: EventChatTabProps) {
   const router = useRouter();
   const link = event.groupMeLink;
 
@@ -1,9 +1,12 @@
 import { View, Text, TouchableOpacity, StyleSheet, ScrollView, RefreshControl } from 'react-native';
+import { formatOfferCountdown, getOfferTimeRemaining } from '@bhmhockey/shared';
 import type { EventDto, SkillLevel } from '@bhmhockey/shared';
 import { SkillLevelBadges } from '../SkillLevelBadges';
 import { Badge } from '../Badge';
+import { CheckInPassCard } from './CheckInPassCard';
 import { colors, spacing, radius } from '../../theme';
 import { getPaymentBadgeInfo } from '../../utils/payment';
+import { useNow } from '../../hooks';
 
 interface EventInfoTabProps {
   event: EventDto;
@@ -11,6 +14,18 @@ interface EventInfoTabProps {
   onPayWithVenmo: () => void;
   onMarkAsPaid: () => void;
   onCancelRegistration: () => void;
+  /** Post (or withdraw) a sub request for the user's spot */
+  onRequestSub?: () => void;
+  /** Hand the spot to another player (or cancel the pending transfer) */
+  onTransferSpot?: () => void;
+  /** Claim or pass on the user's open waitlist offer */
+  onAcceptOffer?: () => void;
+  onDeclineOffer?: () => void;
+  /** Export the game as a one-off .ics file */
+  onAddToCalendar?: () => void;
+  /** InviteOnly events: organizer opens the invitations screen, invitee passes on the invite */
+  onManageInvitations?: () => void;
+  onDeclineInvitation?: () => void;
   onRefresh?: () => Promise<void>;
   isRefreshing?: boolean;
 }
@@ -21,13 +36,37 @@ export function EventInfoTab({
   onPayWithVenmo,
   onMarkAsPaid,
   onCancelRegistration,
+  onRequestSub,
+  onTransferSpot,
+  onAcceptOffer,
+  onDeclineOffer,
+  onAddToCalendar,
+  onManageInvitations,
+  onDeclineInvitation,
   onRefresh,
   isRefreshing = false,
 }: EventInfoTabProps) {
+  // Open waitlist offer ('Offer' promotion mode) - ticks down until it cascades to the next player
+  const hasOffer = event.amIWaitlisted && !!event.myOfferExpiresAt;
+  const now = useNow(hasOffer);
+  const offerRemaining = hasOffer ? getOfferTimeRemaining(event.myOfferExpiresAt, now) ?? 0 : 0;
+  const showOfferCard = hasOffer && offerRemaining > 0 && !!onAcceptOffer;
+
   // Waitlist takes priority - if you're waitlisted, show waitlist payment section
-  const showWaitlistPaymentCard = event.amIWaitlisted && event.cost > 0;
+  // (an open offer replaces it: accepting comes before paying)
+  const showWaitlistPaymentCard = event.amIWaitlisted && event.cost > 0 && !showOfferCard;
   const showPaymentCard = event.isRegistered && !event.amIWaitlisted && event.cost > 0;
   const showCostPreview = !event.isRegistered && !event.amIWaitlisted && event.cost > 0;
+  const showCheckInPass = event.isRegistered && !event.amIWaitlisted && event.status !== 'Cancelled';
+  const canRequestSub =
+    !!onRequestSub && showCheckInPass && new Date(event.eventDate).getTime() > Date.now();
+  const canTransferSpot =
+    !!onTransferSpot && showCheckInPass && new Date(event.eventDate).getTime() > Date.now();
+  const canAddToCalendar =
+    !!onAddToCalendar && showCheckInPass && new Date(event.eventDate).getTime() > Date.now();
+  const showInvitationCard =
+    event.myInvitationStatus === 'Pending' && !event.isRegistered && !event.amIWaitlisted;
+  const canManageInvitations = canManage && event.visibility === 'InviteOnly' && !!onManageInvitations;
   const hasMoreDetails = event.description || event.registrationDeadline;
   const isRosterFull = event.registeredCount >= event.maxPlayers;
   // Waitlisted players should only pay when their spot fits open capacity (server-computed).
@@ -144,6 +183,69 @@ export function EventInfoTab({
           </View>
         )}
 
+        {/* ═══════════════════════════════════════════════════════════════════
+            INVITATION SECTION (InviteOnly events - registering accepts)
+            ═══════════════════════════════════════════════════════════════════ */}
+        {showInvitationCard && (
+          <>
+            <View style={styles.paymentDivider} />
+
+            <View style={styles.offerSection}>
+              <Text style={styles.offerTitle}>You're invited!</Text>
+              <Text style={styles.waitlistPaymentPrompt}>
+                Register below to accept. If you can't make it, let the organizer know.
+              </Text>
+              {onDeclineInvitation && (
+                <View style={styles.offerActions}>
+                  <TouchableOpacity style={styles.offerDeclineButton} onPress={onDeclineInvitation}>
+                    <Text style={styles.offerDeclineButtonText}>Can't Make It</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+          </>
+        )}
+
+        {canManageInvitations && (
+          <>
+            <View style={styles.paymentDivider} />
+
+            <TouchableOpacity style={styles.subButton} onPress={onManageInvitations}>
+              <Text style={styles.subButtonText}>Manage Invitations</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        {/* ═══════════════════════════════════════════════════════════════════
+            WAITLIST OFFER SECTION (a spot opened and is being held for this user)
+            ═══════════════════════════════════════════════════════════════════ */}
+        {showOfferCard && (
+          <>
+            <View style={styles.paymentDivider} />
+
+            <View style={styles.offerSection}>
+              <Text style={styles.offerTitle}>A spot opened up for you!</Text>
+              <Text style={styles.offerCountdown}>{formatOfferCountdown(offerRemaining)} left to claim it</Text>
+              <Text style={styles.waitlistPaymentPrompt}>
+                {event.cost > 0
+                  ? `Accept to join the roster, then send $${event.cost.toFixed(2)} before your payment deadline. `
+                  : 'Accept to join the roster. '}
+                If you pass or time runs out, the spot goes to the next player and you stay on the waitlist.
+              </Text>
+              <View style={styles.offerActions}>
+                {onDeclineOffer && (
+                  <TouchableOpacity style={styles.offerDeclineButton} onPress={onDeclineOffer}>
+                    <Text style={styles.offerDeclineButtonText}>Pass</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.offerAcceptButton} onPress={onAcceptOffer}>
+                  <Text style={styles.offerAcceptButtonText}>Claim Spot</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </>
+        )}
+
         {/* ═══════════════════════════════════════════════════════════════════
             WAITLIST PAYMENT SECTION (for waitlisted users on paid events)
             ═══════════════════════════════════════════════════════════════════ */}
@@ -315,6 +417,9 @@ export function EventInfoTab({
         )}
       </View>
 
+      {/* Check-in pass (rostered players only) */}
+      {showCheckInPass && <CheckInPassCard eventId={event.id} />}
+
       {/* ═══════════════════════════════════════════════════════════════════
           DETAILS SECTION
           ═══════════════════════════════════════════════════════════════════ */}
@@ -351,6 +456,39 @@ export function EventInfoTab({
           ═══════════════════════════════════════════════════════════════════ */}
       {(event.isRegistered || event.amIWaitlisted) && (
         <View style={styles.cancelSection}>
+          {canAddToCalendar && (
+            <TouchableOpacity style={styles.subButton} onPress={onAddToCalendar}>
+              <Text style={styles.subButtonText}>Add to Calendar</Text>
+            </TouchableOpacity>
+          )}
+          {canRequestSub && (
+            <>
+              {event.mySubRequestId && (
+                <Text style={styles.subRequestStatus}>
+                  Sub request posted. You keep your spot until someone takes it.
+                </Text>
+              )}
+              <TouchableOpacity style={styles.subButton} onPress={onRequestSub}>
+                <Text style={styles.subButtonText}>
+                  {event.mySubRequestId ? 'Cancel Sub Request' : 'Find a Sub'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+          {canTransferSpot && (
+            <>
+              {event.myTransferId && (
+                <Text style={styles.subRequestStatus}>
+                  Transfer pending. You keep your spot until it's accepted.
+                </Text>
+              )}
+              <TouchableOpacity style={styles.subButton} onPress={onTransferSpot}>
+                <Text style={styles.subButtonText}>
+                  {event.myTransferId ? 'Cancel Transfer' : 'Transfer My Spot'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
           <TouchableOpacity style={styles.cancelButton} onPress={onCancelRegistration}>
             <Text style={styles.cancelButtonText}>
               {event.amIWaitlisted ? 'Leave Waitlist' : 'Cancel Registration'}
@@ -460,6 +598,51 @@ const styles = StyleSheet.create({
   waitlistPaymentSection: {
     alignItems: 'center',
   },
+  offerSection: {
+    alignItems: 'center',
+  },
+  offerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.primary.green,
+    marginBottom: spacing.xs,
+  },
+  offerCountdown: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.status.warning,
+    marginBottom: spacing.sm,
+  },
+  offerActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    width: '100%',
+  },
+  offerAcceptButton: {
+    flex: 2,
+    backgroundColor: colors.primary.green,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+    alignItems: 'center',
+  },
+  offerAcceptButtonText: {
+    color: colors.bg.darkest,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  offerDeclineButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    alignItems: 'center',
+  },
+  offerDeclineButtonText: {
+    color: colors.text.muted,
+    fontSize: 16,
+    fontWeight: '600',
+  },
   waitlistPositionText: {
     fontSize: 16,
     fontWeight: '600',
@@ -614,6 +797,25 @@ const styles = StyleSheet.create({
     marginTop: spacing.lg,
     alignItems: 'center',
   },
+  subRequestStatus: {
+    fontSize: 13,
+    color: colors.text.muted,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  subButton: {
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+    marginBottom: spacing.sm,
+  },
+  subButtonText: {
+    color: colors.primary.teal,
+    fontSize: 14,
+    fontWeight: '600',
+  },
   cancelButton: {
     paddingVertical: spacing.sm,
     paddingHorizontal: spacing.lg,
@@ -11,14 +11,20 @@ import {
   TouchableWithoutFeedback,
 } from 'react-native';
 import { eventService } from '@bhmhockey/api-client';
+import { isLateCancellation, orderWaitlistByReliability } from '@bhmhockey/shared';
 import type {
+  AttendanceItem,
+  CheckInItem,
   EventRegistrationDto,
   EventDto,
   TeamAssignment,
   RosterOrderResult,
+  TeamBalanceResult,
   WaitlistOrderItem,
 } from '@bhmhockey/shared';
 import { useEventStore } from '../../stores/eventStore';
+import { useOfflineStore } from '../../stores/offlineStore';
+import { cacheKeys, fetchWithCache, isNetworkError } from '../../utils/offlineCache';
 import { EmptyState } from '../EmptyState';
 import { SectionHeader } from '../SectionHeader';
 import { DraggableRoster } from '../DraggableRoster';
@@ -26,6 +32,10 @@ import { DraggableWaitlist } from '../DraggableWaitlist';
 import { PlayerDetailModal } from '../PlayerDetailModal';
 import { DraftModeRoster } from './DraftModeRoster';
 import { AddPlayerModal } from './AddPlayerModal';
+import { TeamBalancerModal } from './TeamBalancerModal';
+import { AttendanceModal } from './AttendanceModal';
+import { CheckInScannerModal } from './CheckInScannerModal';
+import { getMaxGoalies, shiftSkaterSlotLabels } from '../DraggableRoster.utils';
 import { colors, spacing, radius } from '../../theme';
 import { RosterShareCard } from '../roster/RosterShareCard';
 import { captureRosterCard, shareRosterImage, copyRosterToClipboard } from '../../utils/rosterShare';
@@ -57,6 +67,12 @@ export function EventRosterTab({ eventId, event, canManage }: EventRosterTabProp
   const [isShareModalVisible, setIsShareModalVisible] = useState(false);
   const [isCapturing, setIsCapturing] = useState(false);
   const [isDragActive, setIsDragActive] = useState(false);
+  const [isBalancerVisible, setIsBalancerVisible] = useState(false);
+  const [isAttendanceVisible, setIsAttendanceVisible] = useState(false);
+  const [isScannerVisible, setIsScannerVisible] = useState(false);
+  const pendingCheckInCount = useOfflineStore(
+    (state) => state.queue.filter((q) => q.kind === 'checkIn' && q.eventId === eventId).length
+  );
   const shareCardRef = useRef<View>(null);
   const { updatePaymentStatus, updateTeamAssignment, removeRegistration, publishRoster } = useEventStore();
 
@@ -91,7 +107,10 @@ export function EventRosterTab({ eventId, event, canManage }: EventRosterTabProp
         setIsLoading(true);
       }
       try {
-        const registrationsData = await eventService.getRegistrations(eventId);
+        const { data: registrationsData } = await fetchWithCache(
+          cacheKeys.eventRegistrations(eventId),
+          () => eventService.getRegistrations(eventId)
+        );
         if (!cancelled) {
           setAllRegistrations(registrationsData);
           hasLoadedOnce.current = true;
@@ -117,7 +136,10 @@ export function EventRosterTab({ eventId, event, canManage }: EventRosterTabProp
   const reloadRegistrations = useCallback(async () => {
     if (!eventId) return;
     try {
-      const data = await eventService.getRegistrations(eventId);
+      const { data } = await fetchWithCache(
+        cacheKeys.eventRegistrations(eventId),
+        () => eventService.getRegistrations(eventId)
+      );
       setAllRegistrations(data);
     } catch (error) {
       Alert.alert('Error', getApiErrorMessage(error, 'Failed to reload registrations'));
@@ -251,43 +273,46 @@ export function EventRosterTab({ eventId, event, canManage }: EventRosterTabProp
   const handleRemove = async (registration: EventRegistrationDto) => {
     const isWaitlisted = registration.isWaitlisted;
     const userName = `${registration.user.firstName} ${registration.user.lastName}`;
+    // Inside the late-cancel window, the organizer can record the removal against the player
+    const canMarkLateCancel = !isWaitlisted && isLateCancellation(event.eventDate, event.lateCancelWindowHours);
+
+    const remove = async (lateCancel: boolean) => {
+      // Optimistic update - remove immediately
+      setAllRegistrations((prev) => {
+        const filtered = prev.filter((reg) => reg.id !== registration.id);
+        // Renumber waitlist if we removed a waitlisted player
+        if (isWaitlisted) {
+          return filtered.map((reg) => {
+            if (reg.isWaitlisted && reg.waitlistPosition && registration.waitlistPosition) {
+              if (reg.waitlistPosition > registration.waitlistPosition) {
+                return { ...reg, waitlistPosition: reg.waitlistPosition - 1 };
+              }
+            }
+            return reg;
+          });
+        }
+        return filtered;
+      });
+
+      const success = await removeRegistration(eventId, registration.id, lateCancel);
+      if (!success) {
+        Alert.alert('Error', useEventStore.getState().error || 'Failed to remove registration');
+        await reloadRegistrations();
+      } else if (!isWaitlisted) {
+        // Rostered player removed - waitlist promotion may have happened
+        await reloadRegistrations();
+      }
+    };
 
     Alert.alert(
       isWaitlisted ? 'Remove from Waitlist' : 'Remove Registration',
-      `Are you sure you want to remove ${userName}?${!isWaitlisted ? '\n\nThe next person on the waitlist will be promoted.' : ''}`,
+      `Are you sure you want to remove ${userName}?${!isWaitlisted ? '\n\nThe next person on the waitlist will be promoted.' : ''}${canMarkLateCancel ? '\n\nIf they dropped out late, remove them as a late cancel.' : ''}`,
       [
         { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Remove',
-          style: 'destructive',
-          onPress: async () => {
-            // Optimistic update - remove immediately
-            setAllRegistrations((prev) => {
-              const filtered = prev.filter((reg) => reg.id !== registration.id);
-              // Renumber waitlist if we removed a waitlisted player
-              if (isWaitlisted) {
-                return filtered.map((reg) => {
-                  if (reg.isWaitlisted && reg.waitlistPosition && registration.waitlistPosition) {
-                    if (reg.waitlistPosition > registration.waitlistPosition) {
-                      return { ...reg, waitlistPosition: reg.waitlistPosition - 1 };
-                    }
-                  }
-                  return reg;
-                });
-              }
-              return filtered;
-            });
-
-            const success = await removeRegistration(eventId, registration.id);
-            if (!success) {
-              Alert.alert('Error', useEventStore.getState().error || 'Failed to remove registration');
-              await reloadRegistrations();
-            } else if (!isWaitlisted) {
-              // Rostered player removed - waitlist promotion may have happened
-              await reloadRegistrations();
-            }
-          },
-        },
+        ...(canMarkLateCancel
+          ? [{ text: 'Late Cancel', style: 'destructive' as const, onPress: () => remove(true) }]
+          : []),
+        { text: 'Remove', style: 'destructive', onPress: () => remove(false) },
       ]
     );
   };
@@ -470,6 +495,86 @@ export function EventRosterTab({ eventId, event, canManage }: EventRosterTabProp
     }
   };
 
+  // Team balancer handler - saves the proposed split like a roster drag (optimistic)
+  const handleApplyBalance = (result: TeamBalanceResult) => {
+    setIsBalancerVisible(false);
+    const maxGoaliesAfter = Math.max(result.black.goalies, result.white.goalies, 1);
+    handleRosterChange({
+      items: result.items,
+      shiftedLabels: shiftSkaterSlotLabels(event.slotPositionLabels, getMaxGoalies(registrations), maxGoaliesAfter),
+    });
+  };
+
+  // Attendance handler - closes the modal and saves optimistically
+  const handleSaveAttendance = async (items: AttendanceItem[]) => {
+    setIsAttendanceVisible(false);
+    const statusById = new Map(items.map((item) => [item.registrationId, item.attendanceStatus]));
+    setAllRegistrations((prev) =>
+      prev.map((reg) => (statusById.has(reg.id) ? { ...reg, attendanceStatus: statusById.get(reg.id) } : reg))
+    );
+
+    try {
+      await eventService.updateAttendance(eventId, items);
+    } catch (error) {
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to save attendance. Please try again.'));
+      await reloadRegistrations();
+    }
+  };
+
+  const setCheckedInAt = (registrationId: string, checkedInAt: string | null) => {
+    setAllRegistrations((prev) =>
+      prev.map((reg) => (reg.id === registrationId ? { ...reg, checkedInAt } : reg))
+    );
+  };
+
+  // Check-in handler - optimistic; queued for later sync when there's no signal at the rink
+  const handleCheckIn = async (registration: EventRegistrationDto) => {
+    const item: CheckInItem = {
+      registrationId: registration.id,
+      token: registration.checkInToken ?? '',
+      checkedInAt: new Date().toISOString(),
+    };
+    setCheckedInAt(registration.id, item.checkedInAt);
+
+    try {
+      const result = await eventService.checkIn(eventId, [item]);
+      if (result.rejected.length > 0) {
+        setCheckedInAt(registration.id, null);
+        Alert.alert('Check-In Failed', result.rejected[0].reason);
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        await useOfflineStore.getState().enqueue({ kind: 'checkIn', eventId, item });
+        return;
+      }
+      setCheckedInAt(registration.id, null);
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to check in player. Please try again.'));
+    }
+  };
+
+  const handleUndoCheckIn = async (registration: EventRegistrationDto) => {
+    const previous = registration.checkedInAt ?? null;
+    setCheckedInAt(registration.id, null);
+
+    try {
+      await eventService.undoCheckIn(eventId, registration.id);
+    } catch (error) {
+      setCheckedInAt(registration.id, previous);
+      Alert.alert('Error', getApiErrorMessage(error, 'Failed to undo check-in. Please try again.'));
+    }
+  };
+
+  // Reorder the waitlist by reliability tier (keeps join order within a tier)
+  const handleSortWaitlistByReliability = () => {
+    const items = orderWaitlistByReliability(waitlist);
+    const positionById = new Map(items.map((item) => [item.registrationId, item.position]));
+    setAllRegistrations((prev) =>
+      prev.map((reg) => (positionById.has(reg.id) ? { ...reg, waitlistPosition: positionById.get(reg.id) } : reg))
+    );
+    // handleWaitlistReorder alerts and reloads on failure
+    handleWaitlistReorder(items).catch(() => {});
+  };
+
   // Waitlist reorder handler
   const handleWaitlistReorder = async (items: WaitlistOrderItem[]) => {
     try {
@@ -606,6 +711,42 @@ export function EventRosterTab({ eventId, event, canManage }: EventRosterTabProp
           </View>
         )}
 
+        {/* Balance Teams button (organizers, 2+ rostered players) */}
+        {canManage && registrations.length >= 2 && (
+          <TouchableOpacity
+            style={styles.balanceButton}
+            onPress={() => setIsBalancerVisible(true)}
+          >
+            <Text style={styles.balanceButtonText} allowFontScaling={false}>
+              Balance Teams
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Check-in scanner (organizers) */}
+        {canManage && registrations.length > 0 && event.status !== 'Cancelled' && (
+          <TouchableOpacity
+            style={styles.balanceButton}
+            onPress={() => setIsScannerVisible(true)}
+          >
+            <Text style={styles.balanceButtonText} allowFontScaling={false}>
+              Check-In ({registrations.filter((r) => r.checkedInAt).length}/{registrations.length})
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Attendance button (organizers, once the game has started) */}
+        {canManage && registrations.length > 0 && new Date(event.eventDate).getTime() <= Date.now() && (
+          <TouchableOpacity
+            style={styles.balanceButton}
+            onPress={() => setIsAttendanceVisible(true)}
+          >
+            <Text style={styles.balanceButtonText} allowFontScaling={false}>
+              {registrations.some((r) => r.attendanceStatus) ? 'Edit Attendance' : 'Take Attendance'}
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Roster View */}
         <View>
           {registrations.length === 0 ? (
@@ -631,7 +772,12 @@ export function EventRosterTab({ eventId, event, canManage }: EventRosterTabProp
         {/* Waitlist Section */}
         {waitlist.length > 0 && (
           <View style={styles.waitlistContainer}>
-            <SectionHeader title="Waitlist" count={waitlist.length} />
+            <SectionHeader
+              title="Waitlist"
+              count={waitlist.length}
+              action={canManage && waitlist.length > 1 ? 'Sort by Reliability' : undefined}
+              onActionPress={handleSortWaitlistByReliability}
+            />
             <View style={styles.waitlistSection}>
               <DraggableWaitlist
                 waitlist={waitlist}
@@ -671,8 +817,43 @@ export function EventRosterTab({ eventId, event, canManage }: EventRosterTabProp
         }}
         onPlayerAdded={handlePlayerAdded}
         editingRegistration={editingGuest}
+        event={event}
+        existingUserIds={allRegistrations.map((r) => r.user.id)}
       />
 
+      {/* Team Balancer Modal */}
+      {canManage && (
+        <TeamBalancerModal
+          visible={isBalancerVisible}
+          registrations={registrations}
+          onClose={() => setIsBalancerVisible(false)}
+          onApply={handleApplyBalance}
+        />
+      )}
+
+      {/* Attendance Modal */}
+      {canManage && (
+        <AttendanceModal
+          visible={isAttendanceVisible}
+          registrations={registrations}
+          onClose={() => setIsAttendanceVisible(false)}
+          onSave={handleSaveAttendance}
+        />
+      )}
+
+      {/* Check-In Scanner */}
+      {canManage && (
+        <CheckInScannerModal
+          visible={isScannerVisible}
+          event={event}
+          registrations={allRegistrations}
+          pendingSyncCount={pendingCheckInCount}
+          onClose={() => setIsScannerVisible(false)}
+          onCheckIn={handleCheckIn}
+          onUndoCheckIn={handleUndoCheckIn}
+        />
+      )}
+
       {/* Off-screen card for capture */}
       {/* Off-screen card for image capture (distinct from the preview card in the modal) */}
       <View style={styles.offScreenWrapper} pointerEvents="none" collapsable={false}>
@@ -788,6 +969,20 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  balanceButton: {
+    backgroundColor: colors.bg.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.lg,
+    alignItems: 'center',
+    marginBottom: spacing.md,
+  },
+  balanceButtonText: {
+    color: colors.text.secondary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
   centered: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,380 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { balanceTeams } from '@bhmhockey/shared';
+import type { EventRegistrationDto, SkillLevel, TeamAssignment, TeamBalanceResult } from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../../theme';
+
+interface TeamBalancerModalProps {
+  visible: boolean;
+  /** Rostered (not waitlisted) registrations */
+  registrations: EventRegistrationDto[];
+  onClose: () => void;
+  /** Save the proposed split */
+  onApply: (result: TeamBalanceResult) => void;
+}
+
+const TEAMS: TeamAssignment[] = ['Black', 'White'];
+
+const getSkillLevel = (registration: EventRegistrationDto): SkillLevel | undefined =>
+  registration.registeredPosition === 'Goalie'
+    ? registration.user.positions?.goalie
+    : registration.user.positions?.skater;
+
+/**
+ * TeamBalancerModal - Proposes a skill-balanced Black/White split with one
+ * goalie per team. Tap a player to lock them to their team before reshuffling.
+ */
+export function TeamBalancerModal({
+  visible,
+  registrations,
+  onClose,
+  onApply,
+}: TeamBalancerModalProps) {
+  const [locks, setLocks] = useState<Record<string, TeamAssignment>>({});
+  const [proposal, setProposal] = useState<TeamBalanceResult | null>(null);
+
+  // Start fresh each time the modal opens; the first proposal moves as few players as it can
+  useEffect(() => {
+    if (visible) {
+      setLocks({});
+      setProposal(balanceTeams(registrations));
+    }
+  }, [visible, registrations]);
+
+  // Another equally balanced split; locked players stay put
+  const handleShuffle = () => {
+    setProposal(balanceTeams(registrations, { locks, random: Math.random }));
+  };
+
+  const registrationById = useMemo(
+    () => new Map(registrations.map((r) => [r.id, r])),
+    [registrations]
+  );
+
+  const toggleLock = (registrationId: string, team: TeamAssignment) => {
+    setLocks((prev) => {
+      const { [registrationId]: wasLocked, ...rest } = prev;
+      return wasLocked ? rest : { ...prev, [registrationId]: team };
+    });
+  };
+
+  if (!proposal) return null;
+
+  const renderTeam = (team: TeamAssignment) => {
+    const summary = team === 'Black' ? proposal.black : proposal.white;
+    const players = proposal.items
+      .filter((item) => item.teamAssignment === team)
+      .map((item) => registrationById.get(item.registrationId))
+      .filter((r): r is EventRegistrationDto => !!r);
+
+    return (
+      <View key={team} style={styles.teamColumn}>
+        <View style={[styles.teamHeader, team === 'Black' ? styles.teamHeaderBlack : styles.teamHeaderWhite]}>
+          <Text
+            style={[styles.teamName, team === 'White' && styles.teamNameWhite]}
+            allowFontScaling={false}
+          >
+            {team}
+          </Text>
+          <Text
+            style={[styles.teamSkill, team === 'White' && styles.teamSkillWhite]}
+            allowFontScaling={false}
+          >
+            {summary.skillPoints} pts
+          </Text>
+        </View>
+        <Text style={styles.teamCounts} allowFontScaling={false}>
+          {summary.goalies} G · {summary.skaters} skaters
+        </Text>
+
+        {players.map((registration) => {
+          const level = getSkillLevel(registration);
+          const isLocked = !!locks[registration.id];
+          const isMoving = registration.teamAssignment !== team;
+          return (
+            <TouchableOpacity
+              key={registration.id}
+              style={[styles.playerRow, isLocked && styles.playerRowLocked]}
+              onPress={() => toggleLock(registration.id, team)}
+              activeOpacity={0.7}
+            >
+              <View
+                style={[
+                  styles.skillDot,
+                  { backgroundColor: level ? colors.skillLevel[level] : colors.border.muted },
+                ]}
+              />
+              <View style={styles.playerInfo}>
+                <Text style={styles.playerName} numberOfLines={1} allowFontScaling={false}>
+                  {registration.user.firstName} {registration.user.lastName}
+                </Text>
+                <Text style={styles.playerMeta} numberOfLines={1} allowFontScaling={false}>
+                  {registration.registeredPosition === 'Goalie' ? 'G' : 'Skater'} · {level ?? 'Unrated'}
+                  {isMoving ? ' · moves' : ''}
+                </Text>
+              </View>
+              <Ionicons
+                name={isLocked ? 'lock-closed' : 'lock-open-outline'}
+                size={16}
+                color={isLocked ? colors.primary.teal : colors.text.subtle}
+              />
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const difference = Math.abs(proposal.black.skillPoints - proposal.white.skillPoints);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <TouchableWithoutFeedback>
+            <View style={styles.modal}>
+              {/* Header */}
+              <View style={styles.header}>
+                <Text style={styles.title} allowFontScaling={false}>Balance Teams</Text>
+                <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                  <Text style={styles.closeButtonText} allowFontScaling={false}>Cancel</Text>
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView contentContainerStyle={styles.content}>
+                <Text style={styles.hint} allowFontScaling={false}>
+                  Tap a player to lock them to their team, then shuffle for another split.
+                </Text>
+
+                {proposal.warnings.map((warning) => (
+                  <View key={warning} style={styles.warningRow}>
+                    <Ionicons name="warning-outline" size={14} color={colors.status.warning} />
+                    <Text style={styles.warningText} allowFontScaling={false}>{warning}</Text>
+                  </View>
+                ))}
+
+                <View style={styles.teams}>{TEAMS.map(renderTeam)}</View>
+              </ScrollView>
+
+              {/* Footer */}
+              <View style={styles.footer}>
+                <Text style={styles.summaryText} allowFontScaling={false}>
+                  {difference === 0 ? 'Even skill' : `${difference} pt difference`} ·{' '}
+                  {proposal.movedCount} {proposal.movedCount === 1 ? 'player moves' : 'players move'}
+                </Text>
+                <View style={styles.footerButtons}>
+                  <TouchableOpacity
+                    style={styles.shuffleButton}
+                    onPress={handleShuffle}
+                  >
+                    <Ionicons name="shuffle" size={18} color={colors.primary.teal} />
+                    <Text style={styles.shuffleButtonText} allowFontScaling={false}>Shuffle</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[
+                      styles.applyButton,
+                      proposal.movedCount === 0 && styles.applyButtonDisabled,
+                    ]}
+                    onPress={() => onApply(proposal)}
+                    disabled={proposal.movedCount === 0}
+                  >
+                    <Text style={styles.applyButtonText} allowFontScaling={false}>Apply</Text>
+                  </TouchableOpacity>
+                </View>
+              </View>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'flex-end',
+  },
+  modal: {
+    backgroundColor: colors.bg.dark,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    height: '90%',
+    paddingBottom: spacing.xl + 20, // Extra padding for home indicator
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  closeButton: {
+    padding: spacing.xs,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: colors.primary.teal,
+    fontWeight: '600',
+  },
+  content: {
+    padding: spacing.md,
+    gap: spacing.sm,
+  },
+  hint: {
+    fontSize: 13,
+    color: colors.text.muted,
+  },
+  warningRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  warningText: {
+    fontSize: 13,
+    color: colors.status.warning,
+  },
+  teams: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  teamColumn: {
+    flex: 1,
+  },
+  teamHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.sm,
+  },
+  teamHeaderBlack: {
+    backgroundColor: colors.bg.darkest,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+  },
+  teamHeaderWhite: {
+    backgroundColor: colors.text.primary,
+  },
+  teamName: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.text.primary,
+  },
+  teamNameWhite: {
+    color: colors.bg.darkest,
+  },
+  teamSkill: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.muted,
+  },
+  teamSkillWhite: {
+    color: colors.bg.elevated,
+  },
+  teamCounts: {
+    fontSize: 11,
+    color: colors.text.subtle,
+    marginTop: spacing.xs,
+    marginBottom: spacing.xs,
+  },
+  playerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.xs,
+    borderRadius: radius.sm,
+    borderWidth: 1,
+    borderColor: 'transparent',
+    marginBottom: spacing.xxs,
+  },
+  playerRowLocked: {
+    borderColor: colors.primary.teal,
+    backgroundColor: colors.subtle.teal,
+  },
+  skillDot: {
+    width: 4,
+    alignSelf: 'stretch',
+    borderRadius: 2,
+  },
+  playerInfo: {
+    flex: 1,
+  },
+  playerName: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  playerMeta: {
+    fontSize: 11,
+    color: colors.text.muted,
+  },
+  footer: {
+    paddingHorizontal: spacing.md,
+    paddingTop: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border.default,
+    gap: spacing.sm,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    textAlign: 'center',
+  },
+  footerButtons: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  shuffleButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.md,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+    backgroundColor: colors.bg.elevated,
+  },
+  shuffleButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  applyButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.md,
+    borderRadius: radius.lg,
+    backgroundColor: colors.primary.teal,
+  },
+  applyButtonDisabled: {
+    opacity: 0.5,
+  },
+  applyButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.bg.darkest,
+  },
+});
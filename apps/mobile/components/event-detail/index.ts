@@ -5,3 +5,7 @@ export { EventRosterTab } from './EventRosterTab';
 export { EventChatTab } from './EventChatTab';
 export { RegistrationFooter } from './RegistrationFooter';
 export { DraftModeRoster } from './DraftModeRoster';
+export { TeamBalancerModal } from './TeamBalancerModal';
+export { AttendanceModal } from './AttendanceModal';
+export { CheckInPassCard } from './CheckInPassCard';
+export { CheckInScannerModal } from './CheckInScannerModal';
@@ -27,9 +27,12 @@ export { FormSection } from './FormSection';
 export { FormInput } from './FormInput';
 export { PositionSelector, buildPositionsFromState, createStateFromPositions } from './PositionSelector';
 export type { PositionState } from './PositionSelector';
+export { RecurrenceSelector, buildRecurrenceRule } from './RecurrenceSelector';
+export type { RecurrenceDraft } from './RecurrenceSelector';
 
 // Utility components
 export { EnvBanner } from './EnvBanner';
+export { OfflineBanner } from './OfflineBanner';
 
 // Notification components
 export { NotificationItem } from './NotificationItem';
@@ -42,9 +45,17 @@ export { DraggableRoster } from './DraggableRoster';
 export { DraggableWaitlist } from './DraggableWaitlist';
 export { PlayerDetailModal } from './PlayerDetailModal';
 export { MemberDetailModal } from './MemberDetailModal';
+export { GameHistory } from './GameHistory';
+export { ReliabilityBadge } from './ReliabilityBadge';
+export { SubRequestCard } from './SubRequestCard';
+export { TransferCard } from './TransferCard';
+export { TransferSpotModal } from './TransferSpotModal';
+export { AnnouncementCard } from './AnnouncementCard';
+export { ChatThread } from './ChatThread';
+export { AvailabilityEditor } from './AvailabilityEditor';
 
 // Badge components
-export { BadgeIcon, BadgeIconsRow, TrophyCase, Confetti, BadgeCelebrationModal } from './badges';
+export { BadgeIcon, BADGE_ICON_NAMES, BadgeIconsRow, TrophyCase, Confetti, BadgeCelebrationModal } from './badges';
 
 // Event detail components
 export {
@@ -66,6 +77,13 @@ export { CaptainBadge } from './tournaments/CaptainBadge';
 export { TransferCaptainModal } from './tournaments/TransferCaptainModal';
 export { TeamRosterList } from './tournaments/TeamRosterList';
 export { PendingInvitationCard } from './tournaments/PendingInvitationCard';
+export { TiebreakerOrderEditor } from './tournaments/TiebreakerOrderEditor';
+export { CustomQuestionFields } from './tournaments/CustomQuestionFields';
+export { ScoringSummary } from './tournaments/ScoringSummary';
+export { PlayerStatsTable } from './tournaments/PlayerStatsTable';
+export { LiveMatchClock } from './tournaments/LiveMatchClock';
+export { ScheduleGeneratorModal } from './tournaments/ScheduleGeneratorModal';
+export { DraggableScheduleDraft } from './tournaments/DraggableScheduleDraft';
 
 // Bracket components
 export {
@@ -0,0 +1,364 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Switch, Modal, Platform } from 'react-native';
+import { Picker } from '@react-native-picker/picker';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import {
+  getQuestionOptions,
+  isQuestionVisible,
+  toDateKey,
+  type CustomQuestion,
+  type CustomResponses,
+  type CustomResponseValue,
+} from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../../theme';
+
+interface CustomQuestionFieldsProps {
+  questions: CustomQuestion[];
+  responses: CustomResponses;
+  onChange: (responses: CustomResponses) => void;
+  errors?: Record<string, string>;  // From validateCustomResponses, keyed by question id
+  inputAccessoryViewID?: string;
+}
+
+// Platform-specific Picker props for dark theme
+const pickerProps = Platform.select({
+  ios: { itemStyle: { color: colors.text.primary }, themeVariant: 'dark' as const },
+  android: { mode: 'dialog' as const },
+}) ?? {};
+
+const getPickerItemColor = (): string | undefined =>
+  Platform.OS === 'ios' ? colors.text.primary : undefined;
+
+// "YYYY-MM-DD" answers are local calendar dates
+const fromDateKey = (value: string): Date => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * CustomQuestionFields - Renders a tournament's custom registration questions,
+ * hiding any whose visibleWhen condition isn't met by the current answers.
+ */
+export function CustomQuestionFields({
+  questions,
+  responses,
+  onChange,
+  errors = {},
+  inputAccessoryViewID,
+}: CustomQuestionFieldsProps) {
+  const [pickerQuestionId, setPickerQuestionId] = useState<string | null>(null);
+  const [dateQuestionId, setDateQuestionId] = useState<string | null>(null);
+
+  const pickerQuestion = questions.find((q) => q.id === pickerQuestionId);
+  const dateQuestion = questions.find((q) => q.id === dateQuestionId);
+
+  const setAnswer = (questionId: string, value: CustomResponseValue) => {
+    onChange({ ...responses, [questionId]: value });
+  };
+
+  const toggleChoice = (questionId: string, choice: string) => {
+    const current = responses[questionId];
+    const selected = Array.isArray(current) ? current : [];
+    setAnswer(
+      questionId,
+      selected.includes(choice) ? selected.filter((c) => c !== choice) : [...selected, choice]
+    );
+  };
+
+  const handleDateChange = (_: any, selectedDate?: Date) => {
+    const questionId = dateQuestionId;
+    if (Platform.OS !== 'ios') {
+      setDateQuestionId(null);
+    }
+    if (questionId && selectedDate) {
+      setAnswer(questionId, toDateKey(selectedDate));
+    }
+  };
+
+  const renderInput = (question: CustomQuestion) => {
+    const value = responses[question.id];
+    const placeholder = question.required ? 'Required' : 'Optional';
+
+    switch (question.type) {
+      case 'text':
+      case 'number':
+      case 'jerseyNumber':
+        return (
+          <TextInput
+            style={styles.input}
+            value={value === undefined ? '' : String(value)}
+            onChangeText={(text) => setAnswer(question.id, text)}
+            placeholder={question.type === 'jerseyNumber' ? '0-99' : placeholder}
+            placeholderTextColor={colors.text.muted}
+            keyboardType={question.type === 'text' ? 'default' : 'number-pad'}
+            maxLength={question.type === 'jerseyNumber' ? 2 : undefined}
+            returnKeyType="next"
+            inputAccessoryViewID={inputAccessoryViewID}
+          />
+        );
+
+      case 'yesno':
+        return (
+          <View style={styles.switchRow}>
+            <Text style={styles.switchLabel}>{value ? 'Yes' : 'No'}</Text>
+            <Switch
+              value={value === true}
+              onValueChange={(val) => setAnswer(question.id, val)}
+              trackColor={{ false: colors.border.muted, true: colors.primary.teal }}
+              thumbColor={Platform.OS === 'ios' ? undefined : colors.bg.elevated}
+            />
+          </View>
+        );
+
+      case 'dropdown':
+      case 'tshirtSize':
+        return (
+          <TouchableOpacity style={styles.pickerButton} onPress={() => setPickerQuestionId(question.id)}>
+            <Text style={[styles.pickerButtonText, !value && styles.placeholderText]}>
+              {typeof value === 'string' && value ? value : 'Select an option'}
+            </Text>
+            <Text style={styles.pickerArrow}>&#9660;</Text>
+          </TouchableOpacity>
+        );
+
+      case 'multiselect': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <View style={styles.chipRow}>
+            {getQuestionOptions(question).map((option) => {
+              const isSelected = selected.includes(option);
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, isSelected && styles.chipSelected]}
+                  onPress={() => toggleChoice(question.id, option)}
+                  activeOpacity={0.7}
+                >
+                  <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{option}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        );
+      }
+
+      case 'date':
+        return (
+          <TouchableOpacity style={styles.pickerButton} onPress={() => setDateQuestionId(question.id)}>
+            <Text style={[styles.pickerButtonText, !value && styles.placeholderText]}>
+              {typeof value === 'string' && value
+                ? fromDateKey(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+                : 'Select a date'}
+            </Text>
+            <Text style={styles.pickerArrow}>&#9660;</Text>
+          </TouchableOpacity>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <>
+      {questions
+        .filter((question) => isQuestionVisible(question, questions, responses))
+        .map((question) => (
+          <View key={question.id} style={styles.field}>
+            <Text style={styles.label}>
+              {question.label} {question.required && '*'}
+            </Text>
+            {renderInput(question)}
+            {errors[question.id] && <Text style={styles.error}>{errors[question.id]}</Text>}
+          </View>
+        ))}
+
+      {/* Dropdown / T-shirt size picker */}
+      {pickerQuestion && (
+        <Modal visible={true} transparent animationType="slide">
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <Text style={styles.modalTitle}>{pickerQuestion.label}</Text>
+                <TouchableOpacity onPress={() => setPickerQuestionId(null)}>
+                  <Text style={styles.modalDone}>Done</Text>
+                </TouchableOpacity>
+              </View>
+              <Picker
+                selectedValue={(responses[pickerQuestion.id] as string) || ''}
+                onValueChange={(value) => setAnswer(pickerQuestion.id, value)}
+                style={styles.modalPicker}
+                dropdownIconColor={colors.text.primary}
+                {...pickerProps}
+              >
+                {pickerQuestion.type === 'tshirtSize' && (
+                  <Picker.Item label="Select a size" value="" color={getPickerItemColor()} />
+                )}
+                {getQuestionOptions(pickerQuestion).map((option) => (
+                  <Picker.Item key={option} label={option} value={option} color={getPickerItemColor()} />
+                ))}
+              </Picker>
+            </View>
+          </View>
+        </Modal>
+      )}
+
+      {/* Date picker - iOS shows a spinner in a sheet, Android its own dialog */}
+      {dateQuestion && Platform.OS === 'ios' && (
+        <Modal visible={true} transparent animationType="slide">
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <View style={styles.modalHeader}>
+                <Text style={styles.modalTitle}>{dateQuestion.label}</Text>
+                <TouchableOpacity onPress={() => setDateQuestionId(null)}>
+                  <Text style={styles.modalDone}>Done</Text>
+                </TouchableOpacity>
+              </View>
+              <DateTimePicker
+                value={responses[dateQuestion.id] ? fromDateKey(responses[dateQuestion.id] as string) : new Date()}
+                mode="date"
+                display="spinner"
+                onChange={handleDateChange}
+                themeVariant="dark"
+              />
+            </View>
+          </View>
+        </Modal>
+      )}
+      {dateQuestion && Platform.OS !== 'ios' && (
+        <DateTimePicker
+          value={responses[dateQuestion.id] ? fromDateKey(responses[dateQuestion.id] as string) : new Date()}
+          mode="date"
+          display="default"
+          onChange={handleDateChange}
+        />
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  field: {
+    marginBottom: spacing.lg,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    color: colors.text.primary,
+  },
+  pickerButton: {
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  pickerButtonText: {
+    fontSize: 15,
+    color: colors.text.primary,
+    flex: 1,
+  },
+  placeholderText: {
+    color: colors.text.muted,
+  },
+  pickerArrow: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginLeft: spacing.sm,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  switchLabel: {
+    fontSize: 15,
+    color: colors.text.primary,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.bg.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary.teal,
+    borderColor: colors.primary.teal,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.bg.darkest,
+  },
+  error: {
+    fontSize: 12,
+    color: colors.status.error,
+    marginTop: spacing.xs,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: colors.bg.dark,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    paddingBottom: 34,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    borderBottomWidth: 0,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  modalDone: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  modalPicker: {
+    height: 200,
+    backgroundColor: colors.bg.dark,
+  },
+});
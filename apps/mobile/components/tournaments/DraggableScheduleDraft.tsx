@@ -0,0 +1,311 @@
+import React, { useState, useCallback, useRef, useMemo } from 'react';
+import { View, Text, StyleSheet, LayoutChangeEvent } from 'react-native';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, {
+  useAnimatedStyle,
+  useSharedValue,
+  runOnJS,
+  SharedValue,
+} from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import type { ScheduleConflict, ScheduledMatchSlot, TournamentMatchDto } from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../../theme';
+
+const ROW_HEIGHT = 64; // Height of each slot row
+
+interface DraggableScheduleDraftProps {
+  /** Draft slots in time order */
+  slots: ScheduledMatchSlot[];
+  /** Tournament matches, for match numbers and team names */
+  matches: TournamentMatchDto[];
+  /** Problems to flag on their matches */
+  conflicts: ScheduleConflict[];
+  /** Callback when a match is dropped onto another match's slot */
+  onSwap: (matchIdA: string, matchIdB: string) => void;
+}
+
+interface DragInfo {
+  slot: ScheduledMatchSlot;
+  index: number;
+  startY: number;
+}
+
+const formatSlotTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+
+// Drag handle component
+function DragHandle() {
+  return (
+    <View style={styles.dragHandle}>
+      <View style={styles.dragHandleLine} />
+      <View style={styles.dragHandleLine} />
+      <View style={styles.dragHandleLine} />
+    </View>
+  );
+}
+
+// Matchup text for a slot, using the draft's home/away
+function SlotMatchup({ slot, match }: { slot: ScheduledMatchSlot; match?: TournamentMatchDto }) {
+  const teamName = (teamId?: string) =>
+    teamId === match?.homeTeamId ? match?.homeTeamName : teamId === match?.awayTeamId ? match?.awayTeamName : undefined;
+
+  return (
+    <View style={styles.matchup}>
+      <Text style={styles.matchNumber} allowFontScaling={false}>
+        Match {match?.matchNumber ?? '?'}
+      </Text>
+      <Text style={styles.teams} numberOfLines={1} allowFontScaling={false}>
+        {teamName(slot.homeTeamId) ?? 'TBD'} vs {teamName(slot.awayTeamId) ?? 'TBD'}
+      </Text>
+    </View>
+  );
+}
+
+// Slot row component
+function SlotRow({
+  slot,
+  match,
+  conflicts,
+  isDragging,
+}: {
+  slot: ScheduledMatchSlot;
+  match?: TournamentMatchDto;
+  conflicts: ScheduleConflict[];
+  isDragging: boolean;
+}) {
+  return (
+    <View style={[styles.slotRow, isDragging && styles.slotRowDragging]}>
+      <DragHandle />
+      <View style={styles.slotInfo}>
+        <Text style={styles.slotTime} allowFontScaling={false}>{formatSlotTime(slot.scheduledTime)}</Text>
+        <Text style={styles.slotVenue} numberOfLines={1} allowFontScaling={false}>{slot.venue}</Text>
+      </View>
+      <SlotMatchup slot={slot} match={match} />
+      {conflicts.length > 0 && <Ionicons name="warning" size={18} color={colors.status.warning} />}
+    </View>
+  );
+}
+
+// Drag overlay - follows finger during drag
+function DragOverlay({
+  dragInfo,
+  match,
+  translateY,
+}: {
+  dragInfo: DragInfo;
+  match?: TournamentMatchDto;
+  translateY: SharedValue<number>;
+}) {
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ translateY: translateY.value }] as const,
+  }));
+
+  return (
+    <Animated.View style={[styles.dragOverlay, { top: dragInfo.startY }, animatedStyle]}>
+      <View style={[styles.slotRow, styles.slotRowOverlay]}>
+        <DragHandle />
+        <SlotMatchup slot={dragInfo.slot} match={match} />
+      </View>
+    </Animated.View>
+  );
+}
+
+/**
+ * DraggableScheduleDraft - Generated schedule slots; long-press a match and
+ * drop it on another to swap their rinks and times
+ */
+export function DraggableScheduleDraft({ slots, matches, conflicts, onSwap }: DraggableScheduleDraftProps) {
+  const [dragInfo, setDragInfo] = useState<DragInfo | null>(null);
+  const [hoverIndex, setHoverIndex] = useState(-1);
+  const containerRef = useRef<View>(null);
+  const [containerTop, setContainerTop] = useState(0);
+
+  const matchById = useMemo(() => new Map(matches.map((m) => [m.id, m])), [matches]);
+
+  // Shared value for drag translation
+  const translateY = useSharedValue(0);
+
+  const handleContainerLayout = useCallback((_event: LayoutChangeEvent) => {
+    containerRef.current?.measureInWindow((_x, y) => {
+      setContainerTop(y);
+    });
+  }, []);
+
+  // Determine which row is being touched based on Y position
+  const getRowIndexFromY = useCallback((absoluteY: number) => {
+    const index = Math.floor((absoluteY - containerTop) / ROW_HEIGHT);
+    return Math.max(0, Math.min(index, slots.length - 1));
+  }, [containerTop, slots.length]);
+
+  const handleDragStart = useCallback((absoluteY: number) => {
+    // The list may have scrolled since layout - measure again before using containerTop
+    containerRef.current?.measureInWindow((_x, y) => setContainerTop(y));
+    const index = getRowIndexFromY(absoluteY);
+    const slot = slots[index];
+    if (slot) {
+      setDragInfo({ slot, index, startY: index * ROW_HEIGHT });
+    }
+  }, [getRowIndexFromY, slots]);
+
+  const handleDragMove = useCallback((absoluteY: number) => {
+    setHoverIndex(getRowIndexFromY(absoluteY));
+  }, [getRowIndexFromY]);
+
+  const resetDrag = useCallback(() => {
+    setDragInfo(null);
+    setHoverIndex(-1);
+    translateY.value = 0;
+  }, [translateY]);
+
+  const handleDragEnd = useCallback(() => {
+    if (dragInfo && hoverIndex >= 0 && hoverIndex !== dragInfo.index) {
+      const target = slots[hoverIndex];
+      if (target) {
+        onSwap(dragInfo.slot.matchId, target.matchId);
+      }
+    }
+    resetDrag();
+  }, [dragInfo, hoverIndex, slots, onSwap, resetDrag]);
+
+  // Track if drag was started (shared value for worklet access)
+  const isDragging = useSharedValue(false);
+
+  React.useEffect(() => {
+    isDragging.value = dragInfo !== null;
+  }, [dragInfo, isDragging]);
+
+  // Pan gesture for drag-and-drop; activateAfterLongPress leaves scrolling alone
+  const panGesture = useMemo(() =>
+    Gesture.Pan()
+      .activateAfterLongPress(200)
+      .onStart((event) => {
+        'worklet';
+        runOnJS(handleDragStart)(event.absoluteY);
+      })
+      .onUpdate((event) => {
+        'worklet';
+        if (isDragging.value) {
+          translateY.value = event.translationY;
+          runOnJS(handleDragMove)(event.absoluteY);
+        }
+      })
+      .onEnd(() => {
+        'worklet';
+        if (isDragging.value) {
+          runOnJS(handleDragEnd)();
+        }
+      })
+      .onFinalize(() => {
+        'worklet';
+        runOnJS(resetDrag)();
+      }),
+    [handleDragStart, handleDragMove, handleDragEnd, resetDrag, translateY, isDragging]
+  );
+
+  return (
+    <GestureHandlerRootView>
+      <GestureDetector gesture={panGesture}>
+        <View ref={containerRef} style={styles.container} onLayout={handleContainerLayout}>
+          {slots.map((slot, index) => {
+            const isDraggingRow = dragInfo?.slot.matchId === slot.matchId;
+            const isHoverTarget = !!dragInfo && hoverIndex === index && dragInfo.index !== index;
+            return (
+              <View key={`${slot.venue}-${slot.scheduledTime}`} style={isHoverTarget && styles.hoverTarget}>
+                <SlotRow
+                  slot={slot}
+                  match={matchById.get(slot.matchId)}
+                  conflicts={conflicts.filter((c) => c.matchId === slot.matchId)}
+                  isDragging={isDraggingRow}
+                />
+              </View>
+            );
+          })}
+
+          {/* Drag overlay */}
+          {dragInfo && (
+            <DragOverlay dragInfo={dragInfo} match={matchById.get(dragInfo.slot.matchId)} translateY={translateY} />
+          )}
+        </View>
+      </GestureDetector>
+    </GestureHandlerRootView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'relative',
+  },
+  slotRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: ROW_HEIGHT,
+    paddingHorizontal: spacing.xs,
+    gap: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  slotRowDragging: {
+    opacity: 0.3,
+  },
+  slotRowOverlay: {
+    backgroundColor: colors.bg.dark,
+    borderWidth: 2,
+    borderColor: colors.primary.teal,
+    borderRadius: radius.sm,
+    elevation: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+  },
+  hoverTarget: {
+    backgroundColor: colors.subtle.teal,
+    borderRadius: radius.sm,
+  },
+  dragHandle: {
+    width: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 3,
+  },
+  dragHandleLine: {
+    width: 14,
+    height: 2,
+    backgroundColor: colors.text.subtle,
+    borderRadius: 1,
+  },
+  slotInfo: {
+    width: 96,
+  },
+  slotTime: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  slotVenue: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: 2,
+  },
+  matchup: {
+    flex: 1,
+  },
+  matchNumber: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+  },
+  teams: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+    marginTop: 2,
+  },
+  dragOverlay: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    zIndex: 1000,
+  },
+});
@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from 'react';
+import { Text, StyleSheet, type StyleProp, type TextStyle } from 'react-native';
+import { getLiveClockLabel, type LiveMatchClockDto } from '@bhmhockey/shared';
+import { colors } from '../../theme';
+
+interface LiveMatchClockProps {
+  clock: LiveMatchClockDto;
+  style?: StyleProp<TextStyle>;
+}
+
+/**
+ * LiveMatchClock - Period and game clock ("2nd 07:32"), ticking while the clock runs
+ */
+export function LiveMatchClock({ clock, style }: LiveMatchClockProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!clock.isRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [clock]);
+
+  return <Text style={[styles.clock, style]}>{getLiveClockLabel(clock, now)}</Text>;
+}
+
+const styles = StyleSheet.create({
+  clock: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.status.error,
+    fontVariant: ['tabular-nums'],
+  },
+});
@@ -0,0 +1,376 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  formatGoalsAgainstAverage,
+  formatSavePercentage,
+  getDefaultSortDirection,
+  getGoalsAgainstAverage,
+  getSavePercentage,
+  sortGoalieStats,
+  sortSkaterStats,
+  type GoalieStatColumn,
+  type GoalieStatsDto,
+  type SkaterStatColumn,
+  type SkaterStatsDto,
+  type StatSortDirection,
+  type TournamentPlayerStatsDto,
+} from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../../theme';
+
+interface PlayerStatsTableProps {
+  stats: TournamentPlayerStatsDto;
+  highlightUserId?: string;  // Current user's row
+}
+
+type StatsView = 'skaters' | 'goalies';
+
+interface Column<K extends string, T> {
+  key: K;
+  label: string;
+  value: (row: T) => string | number;
+}
+
+const SKATER_COLUMNS: Column<SkaterStatColumn, SkaterStatsDto>[] = [
+  { key: 'gamesPlayed', label: 'GP', value: (s) => s.gamesPlayed },
+  { key: 'goals', label: 'G', value: (s) => s.goals },
+  { key: 'assists', label: 'A', value: (s) => s.assists },
+  { key: 'points', label: 'PTS', value: (s) => s.points },
+  { key: 'penaltyMinutes', label: 'PIM', value: (s) => s.penaltyMinutes },
+];
+
+const GOALIE_COLUMNS: Column<GoalieStatColumn, GoalieStatsDto>[] = [
+  { key: 'gamesPlayed', label: 'GP', value: (g) => g.gamesPlayed },
+  { key: 'goalsAgainstAverage', label: 'GAA', value: (g) => formatGoalsAgainstAverage(getGoalsAgainstAverage(g)) },
+  { key: 'savePercentage', label: 'SV%', value: (g) => formatSavePercentage(getSavePercentage(g)) },
+  { key: 'saves', label: 'SV', value: (g) => g.saves },
+];
+
+/**
+ * PlayerStatsTable - Tournament scoring leaders and goalie stats,
+ * sortable by column and filterable by team
+ */
+export function PlayerStatsTable({ stats, highlightUserId }: PlayerStatsTableProps) {
+  const [view, setView] = useState<StatsView>('skaters');
+  const [teamId, setTeamId] = useState<string | null>(null);
+  const [skaterSort, setSkaterSort] = useState<{ column: SkaterStatColumn; direction: StatSortDirection }>({
+    column: 'points',
+    direction: 'desc',
+  });
+  const [goalieSort, setGoalieSort] = useState<{ column: GoalieStatColumn; direction: StatSortDirection }>({
+    column: 'goalsAgainstAverage',
+    direction: 'asc',
+  });
+
+  // Teams that appear in the stats, for the filter chips
+  const teams = useMemo(() => {
+    const byId = new Map<string, string>();
+    [...stats.skaters, ...stats.goalies].forEach((row) => byId.set(row.teamId, row.teamName));
+    return [...byId.entries()]
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [stats]);
+
+  const skaters = useMemo(
+    () =>
+      sortSkaterStats(
+        stats.skaters.filter((s) => !teamId || s.teamId === teamId),
+        skaterSort.column,
+        skaterSort.direction
+      ),
+    [stats.skaters, teamId, skaterSort]
+  );
+
+  const goalies = useMemo(
+    () =>
+      sortGoalieStats(
+        stats.goalies.filter((g) => !teamId || g.teamId === teamId),
+        goalieSort.column,
+        goalieSort.direction
+      ),
+    [stats.goalies, teamId, goalieSort]
+  );
+
+  // Tapping the active column flips its direction
+  const handleSkaterSort = (column: SkaterStatColumn) => {
+    setSkaterSort((current) =>
+      current.column === column
+        ? { column, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+        : { column, direction: getDefaultSortDirection(column) }
+    );
+  };
+
+  const handleGoalieSort = (column: GoalieStatColumn) => {
+    setGoalieSort((current) =>
+      current.column === column
+        ? { column, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+        : { column, direction: getDefaultSortDirection(column) }
+    );
+  };
+
+  const renderHeader = <K extends string, T>(
+    columns: Column<K, T>[],
+    sort: { column: K; direction: StatSortDirection },
+    onSort: (column: K) => void
+  ) => (
+    <View style={styles.headerRow}>
+      <Text style={[styles.headerText, styles.rankCell]}>#</Text>
+      <Text style={[styles.headerText, styles.nameCell]}>Player</Text>
+      {columns.map((column) => {
+        const isActive = sort.column === column.key;
+        return (
+          <TouchableOpacity
+            key={column.key}
+            style={styles.headerCell}
+            onPress={() => onSort(column.key)}
+            hitSlop={4}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.headerText, isActive && styles.headerTextActive]}>{column.label}</Text>
+            {isActive && (
+              <Ionicons
+                name={sort.direction === 'asc' ? 'caret-up' : 'caret-down'}
+                size={8}
+                color={colors.primary.teal}
+              />
+            )}
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderRow = <K extends string, T extends { userId: string; name: string; teamName: string }>(
+    row: T,
+    index: number,
+    columns: Column<K, T>[],
+    activeColumn: K
+  ) => {
+    const isHighlighted = row.userId === highlightUserId;
+    return (
+      <View key={`${row.userId}-${row.teamName}`} style={[styles.row, isHighlighted && styles.highlightRow]}>
+        <Text style={[styles.rankText, styles.rankCell]}>{index + 1}</Text>
+        <View style={styles.nameCell}>
+          <Text style={[styles.nameText, isHighlighted && styles.highlightText]} numberOfLines={1}>
+            {row.name}
+          </Text>
+          {!teamId && (
+            <Text style={styles.teamText} numberOfLines={1}>
+              {row.teamName}
+            </Text>
+          )}
+        </View>
+        {columns.map((column) => (
+          <Text
+            key={column.key}
+            style={[styles.statText, styles.statCell, column.key === activeColumn && styles.statTextActive]}
+          >
+            {column.value(row)}
+          </Text>
+        ))}
+      </View>
+    );
+  };
+
+  const rows = view === 'skaters' ? skaters : goalies;
+
+  return (
+    <View>
+      {/* Skaters / Goalies */}
+      <View style={styles.toggleRow}>
+        {(['skaters', 'goalies'] as StatsView[]).map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.toggle, view === option && styles.toggleSelected]}
+            onPress={() => setView(option)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.toggleText, view === option && styles.toggleTextSelected]}>
+              {option === 'skaters' ? 'Skaters' : 'Goalies'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Team filter */}
+      {teams.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+          {[{ id: null, name: 'All Teams' }, ...teams].map((team) => {
+            const isSelected = teamId === team.id;
+            return (
+              <TouchableOpacity
+                key={team.id ?? 'all'}
+                style={[styles.chip, isSelected && styles.chipSelected]}
+                onPress={() => setTeamId(team.id)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{team.name}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      {view === 'skaters'
+        ? renderHeader(SKATER_COLUMNS, skaterSort, handleSkaterSort)
+        : renderHeader(GOALIE_COLUMNS, goalieSort, handleGoalieSort)}
+
+      {rows.length === 0 && (
+        <Text style={styles.emptyText}>
+          {view === 'skaters' ? 'No points recorded yet.' : 'No goalies of record yet.'}
+        </Text>
+      )}
+      {view === 'skaters'
+        ? skaters.map((row, index) => renderRow(row, index, SKATER_COLUMNS, skaterSort.column))
+        : goalies.map((row, index) => renderRow(row, index, GOALIE_COLUMNS, goalieSort.column))}
+
+      {view === 'goalies' && goalies.length > 0 && (
+        <Text style={styles.footnote}>GAA is goals against per game. SV% counts games with shots recorded.</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toggleRow: {
+    flexDirection: 'row',
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  toggle: {
+    flex: 1,
+    paddingVertical: spacing.xs,
+    alignItems: 'center',
+    borderRadius: radius.sm,
+  },
+  toggleSelected: {
+    backgroundColor: colors.bg.hover,
+  },
+  toggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.muted,
+  },
+  toggleTextSelected: {
+    color: colors.text.primary,
+  },
+  chipRow: {
+    gap: spacing.sm,
+    paddingBottom: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.md,
+    backgroundColor: colors.bg.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary.teal,
+    borderColor: colors.primary.teal,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.bg.darkest,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    marginBottom: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  headerText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    textAlign: 'center',
+  },
+  headerTextActive: {
+    color: colors.primary.teal,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.bg.dark,
+    padding: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    marginBottom: spacing.xs,
+  },
+  highlightRow: {
+    backgroundColor: colors.subtle.teal,
+    borderColor: colors.primary.teal,
+  },
+  rankCell: {
+    width: 28,
+  },
+  nameCell: {
+    flex: 1,
+    marginRight: spacing.xs,
+    textAlign: 'left',
+  },
+  statCell: {
+    width: 40,
+  },
+  headerCell: {
+    width: 40,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 2,
+  },
+  rankText: {
+    fontSize: 13,
+    fontWeight: '700',
+    color: colors.text.muted,
+    textAlign: 'center',
+  },
+  nameText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  highlightText: {
+    color: colors.primary.teal,
+  },
+  teamText: {
+    fontSize: 11,
+    color: colors.text.muted,
+    marginTop: 1,
+  },
+  statText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    textAlign: 'center',
+    fontVariant: ['tabular-nums'],
+  },
+  statTextActive: {
+    color: colors.primary.teal,
+    fontWeight: '700',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+    textAlign: 'center',
+    paddingVertical: spacing.lg,
+  },
+  footnote: {
+    fontSize: 12,
+    color: colors.text.muted,
+    marginTop: spacing.sm,
+  },
+});
@@ -0,0 +1,440 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Platform,
+} from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  SCHEDULE,
+  buildScheduleSlots,
+  validateScheduleSettings,
+  type ScheduleSettings,
+} from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../../theme';
+
+interface ScheduleGeneratorModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onGenerate: (settings: ScheduleSettings) => void;
+  matchCount: number;  // Games waiting for a slot
+  defaultDate: string;  // ISO date the first window starts on (tournament start date)
+  initialSettings?: ScheduleSettings | null;  // Settings of the draft being regenerated
+}
+
+interface WindowInput {
+  start: Date;
+  end: Date;
+}
+
+type PickerTarget = { index: number; field: 'date' | 'start' | 'end' };
+
+const SLOT_LENGTH_CHOICES = [45, 50, SCHEDULE.DEFAULT_SLOT_MINUTES, 75, 90];
+
+const atTime = (day: Date, hours: number, minutes = 0) => {
+  const date = new Date(day);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+// Default ice time: 8am to 6pm on the given day
+const defaultWindow = (day: Date): WindowInput => ({ start: atTime(day, 8), end: atTime(day, 18) });
+
+const formatDay = (date: Date) =>
+  date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const formatTime = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+/**
+ * ScheduleGeneratorModal - Rinks, ice time windows, game length and rest
+ * between games for the schedule generator
+ */
+export function ScheduleGeneratorModal({
+  visible,
+  onClose,
+  onGenerate,
+  matchCount,
+  defaultDate,
+  initialSettings,
+}: ScheduleGeneratorModalProps) {
+  const [rinks, setRinks] = useState<string[]>(['Rink 1', 'Rink 2']);
+  const [windows, setWindows] = useState<WindowInput[]>(() => [defaultWindow(new Date(defaultDate))]);
+  const [slotMinutes, setSlotMinutes] = useState<number>(SCHEDULE.DEFAULT_SLOT_MINUTES);
+  const [minRestText, setMinRestText] = useState(String(SCHEDULE.DEFAULT_MIN_REST_MINUTES));
+  const [picker, setPicker] = useState<PickerTarget | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // Start from the previous draft's settings when regenerating
+  useEffect(() => {
+    if (!visible) return;
+    setErrors([]);
+    setPicker(null);
+    if (initialSettings) {
+      setRinks(initialSettings.rinks);
+      setWindows(initialSettings.windows.map((w) => ({ start: new Date(w.start), end: new Date(w.end) })));
+      setSlotMinutes(initialSettings.slotMinutes);
+      setMinRestText(String(initialSettings.minRestMinutes));
+    }
+  }, [visible, initialSettings]);
+
+  const settings: ScheduleSettings = {
+    rinks: rinks.map((rink) => rink.trim()),
+    windows: windows.map((w) => ({ start: w.start.toISOString(), end: w.end.toISOString() })),
+    slotMinutes,
+    minRestMinutes: minRestText.trim() === '' ? NaN : Number(minRestText),
+  };
+  const slotCount = buildScheduleSlots(settings).length;
+
+  const updateRink = (index: number, name: string) =>
+    setRinks((prev) => prev.map((rink, i) => (i === index ? name : rink)));
+
+  const addWindow = () => {
+    // Next window defaults to the day after the last one
+    const last = windows[windows.length - 1];
+    const nextDay = new Date(last ? last.start : defaultDate);
+    if (last) nextDay.setDate(nextDay.getDate() + 1);
+    setWindows((prev) => [...prev, defaultWindow(nextDay)]);
+  };
+
+  const handlePickerChange = (_: any, selected?: Date) => {
+    const target = picker;
+    if (Platform.OS !== 'ios') setPicker(null);
+    if (!target || !selected) return;
+
+    setWindows((prev) =>
+      prev.map((window, i) => {
+        if (i !== target.index) return window;
+        if (target.field === 'date') {
+          // Moving the day keeps the start and end times
+          return {
+            start: atTime(selected, window.start.getHours(), window.start.getMinutes()),
+            end: atTime(selected, window.end.getHours(), window.end.getMinutes()),
+          };
+        }
+        const time = atTime(window.start, selected.getHours(), selected.getMinutes());
+        return target.field === 'start' ? { ...window, start: time } : { ...window, end: time };
+      })
+    );
+  };
+
+  const handleGenerate = () => {
+    const problems = validateScheduleSettings(settings);
+    if (problems.length > 0) {
+      setErrors(problems);
+      return;
+    }
+    onGenerate(settings);
+  };
+
+  const pickerWindow = picker ? windows[picker.index] : null;
+  const pickerValue = pickerWindow && picker ? (picker.field === 'end' ? pickerWindow.end : pickerWindow.start) : null;
+
+  const renderPicker = (index: number) =>
+    picker?.index === index && pickerValue ? (
+      <DateTimePicker
+        value={pickerValue}
+        mode={picker.field === 'date' ? 'date' : 'time'}
+        display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+        onChange={handlePickerChange}
+        minuteInterval={5}
+        themeVariant="dark"
+      />
+    ) : null;
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.modalCancel}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={styles.modalTitle}>Generate Schedule</Text>
+            <TouchableOpacity onPress={handleGenerate}>
+              <Text style={styles.modalDone}>Generate</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.modalBody} keyboardShouldPersistTaps="handled">
+            {/* Rinks */}
+            <Text style={styles.fieldLabel}>Rinks</Text>
+            {rinks.map((rink, index) => (
+              <View key={index} style={styles.listRow}>
+                <TextInput
+                  style={[styles.input, styles.listInput]}
+                  value={rink}
+                  onChangeText={(name) => updateRink(index, name)}
+                  placeholder={`Rink ${index + 1}`}
+                  placeholderTextColor={colors.text.muted}
+                />
+                {rinks.length > 1 && (
+                  <TouchableOpacity onPress={() => setRinks((prev) => prev.filter((_, i) => i !== index))} hitSlop={8}>
+                    <Ionicons name="close-circle" size={22} color={colors.text.muted} />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            {rinks.length < SCHEDULE.MAX_RINKS && (
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => setRinks((prev) => [...prev, `Rink ${prev.length + 1}`])}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="add" size={18} color={colors.primary.teal} />
+                <Text style={styles.addButtonText}>Add Rink</Text>
+              </TouchableOpacity>
+            )}
+
+            {/* Ice time windows */}
+            <Text style={styles.fieldLabel}>Ice Time</Text>
+            {windows.map((window, index) => (
+              <View key={index} style={styles.windowCard}>
+                <View style={styles.listRow}>
+                  <TouchableOpacity
+                    style={[styles.pickerButton, styles.listInput]}
+                    onPress={() => setPicker({ index, field: 'date' })}
+                  >
+                    <Text style={styles.pickerButtonText}>{formatDay(window.start)}</Text>
+                  </TouchableOpacity>
+                  {windows.length > 1 && (
+                    <TouchableOpacity
+                      onPress={() => setWindows((prev) => prev.filter((_, i) => i !== index))}
+                      hitSlop={8}
+                    >
+                      <Ionicons name="close-circle" size={22} color={colors.text.muted} />
+                    </TouchableOpacity>
+                  )}
+                </View>
+                <View style={styles.listRow}>
+                  <TouchableOpacity
+                    style={[styles.pickerButton, styles.listInput]}
+                    onPress={() => setPicker({ index, field: 'start' })}
+                  >
+                    <Text style={styles.pickerButtonText}>{formatTime(window.start)}</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.toText}>to</Text>
+                  <TouchableOpacity
+                    style={[styles.pickerButton, styles.listInput]}
+                    onPress={() => setPicker({ index, field: 'end' })}
+                  >
+                    <Text style={styles.pickerButtonText}>{formatTime(window.end)}</Text>
+                  </TouchableOpacity>
+                </View>
+                {renderPicker(index)}
+                {Platform.OS === 'ios' && picker?.index === index && (
+                  <TouchableOpacity onPress={() => setPicker(null)} style={styles.pickerDone}>
+                    <Text style={styles.modalDone}>Done</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            <TouchableOpacity style={styles.addButton} onPress={addWindow} activeOpacity={0.7}>
+              <Ionicons name="add" size={18} color={colors.primary.teal} />
+              <Text style={styles.addButtonText}>Add Day</Text>
+            </TouchableOpacity>
+
+            {/* Game length */}
+            <Text style={styles.fieldLabel}>Game Slot (minutes)</Text>
+            <View style={styles.chipRow}>
+              {SLOT_LENGTH_CHOICES.map((minutes) => {
+                const isSelected = slotMinutes === minutes;
+                return (
+                  <TouchableOpacity
+                    key={minutes}
+                    style={[styles.chip, isSelected && styles.chipSelected]}
+                    onPress={() => setSlotMinutes(minutes)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={[styles.chipText, isSelected && styles.chipTextSelected]}>{minutes}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text style={styles.hintText}>Include warmup and the flood.</Text>
+
+            {/* Rest */}
+            <Text style={styles.fieldLabel}>Minimum Rest Between a Team's Games (minutes)</Text>
+            <TextInput
+              style={styles.input}
+              value={minRestText}
+              onChangeText={(text) => setMinRestText(text.replace(/\D/g, ''))}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+
+            <Text style={[styles.capacityText, slotCount < matchCount && styles.capacityShort]}>
+              {slotCount} {slotCount === 1 ? 'slot' : 'slots'} for {matchCount} {matchCount === 1 ? 'game' : 'games'}
+            </Text>
+
+            {errors.map((message) => (
+              <Text key={message} style={styles.errorText}>{message}</Text>
+            ))}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    maxHeight: '90%',
+    backgroundColor: colors.bg.dark,
+    borderTopLeftRadius: radius.xl,
+    borderTopRightRadius: radius.xl,
+    paddingBottom: 34,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    borderBottomWidth: 0,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.default,
+  },
+  modalTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  modalCancel: {
+    fontSize: 16,
+    color: colors.text.secondary,
+  },
+  modalDone: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  modalBody: {
+    padding: spacing.md,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: spacing.md,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    fontSize: 15,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    color: colors.text.primary,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  listInput: {
+    flex: 1,
+  },
+  windowCard: {
+    padding: spacing.sm,
+    paddingBottom: 0,
+    marginBottom: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  pickerButton: {
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    padding: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+  },
+  pickerButtonText: {
+    fontSize: 15,
+    color: colors.text.primary,
+  },
+  pickerDone: {
+    alignItems: 'flex-end',
+    paddingBottom: spacing.sm,
+  },
+  toText: {
+    fontSize: 14,
+    color: colors.text.muted,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.primary.teal,
+    borderStyle: 'dashed',
+  },
+  addButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.primary.teal,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: radius.md,
+    backgroundColor: colors.bg.elevated,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary.teal,
+    borderColor: colors.primary.teal,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+  },
+  chipTextSelected: {
+    color: colors.bg.darkest,
+  },
+  hintText: {
+    fontSize: 13,
+    color: colors.text.muted,
+    marginTop: spacing.xs,
+  },
+  capacityText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    marginTop: spacing.lg,
+  },
+  capacityShort: {
+    color: colors.status.warning,
+  },
+  errorText: {
+    fontSize: 13,
+    color: colors.status.error,
+    marginTop: spacing.sm,
+  },
+});
@@ -0,0 +1,152 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { buildScoringSummary, type GameSheetDto, type MatchGoalDto } from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../../theme';
+
+interface ScoringSummaryProps {
+  sheet: GameSheetDto;
+  homeTeamId?: string;
+  homeTeamName?: string;
+  awayTeamName?: string;
+}
+
+const formatAssists = (goal: MatchGoalDto): string => {
+  const assists = [goal.primaryAssistName, goal.secondaryAssistName].filter(Boolean);
+  return assists.length > 0 ? assists.join(', ') : 'Unassisted';
+};
+
+/**
+ * ScoringSummary - Goals and penalties by period, plus goalies of record,
+ * from a match's game sheet
+ */
+export function ScoringSummary({ sheet, homeTeamId, homeTeamName, awayTeamName }: ScoringSummaryProps) {
+  const periods = buildScoringSummary(sheet);
+  const teamName = (teamId: string) =>
+    (teamId === homeTeamId ? homeTeamName : awayTeamName) || (teamId === homeTeamId ? 'Home' : 'Away');
+
+  if (periods.length === 0 && sheet.goalies.length === 0) {
+    return <Text style={styles.emptyText}>No goals or penalties recorded yet.</Text>;
+  }
+
+  return (
+    <View style={styles.container}>
+      {periods.map((period) => (
+        <View key={period.period} style={styles.period}>
+          <Text style={styles.periodLabel}>{period.label} Period</Text>
+
+          {period.goals.map((goal) => (
+            <View key={goal.id} style={styles.eventRow}>
+              <Text style={styles.eventTime}>{goal.time}</Text>
+              <View style={styles.eventContent}>
+                <Text style={styles.eventTitle}>
+                  {goal.scorerName} <Text style={styles.eventTeam}>({teamName(goal.teamId)})</Text>
+                </Text>
+                <Text style={styles.eventDetail}>{formatAssists(goal)}</Text>
+              </View>
+            </View>
+          ))}
+
+          {period.penalties.map((penalty) => (
+            <View key={penalty.id} style={styles.eventRow}>
+              <Text style={styles.eventTime}>{penalty.time}</Text>
+              <View style={styles.eventContent}>
+                <Text style={styles.eventTitle}>
+                  {penalty.playerName} <Text style={styles.eventTeam}>({teamName(penalty.teamId)})</Text>
+                </Text>
+                <Text style={styles.penaltyDetail}>
+                  {penalty.infraction} - {penalty.minutes} min
+                </Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      ))}
+
+      {sheet.goalies.length > 0 && (
+        <View style={styles.period}>
+          <Text style={styles.periodLabel}>Goalies</Text>
+          {sheet.goalies.map((goalie) => {
+            const goalsAgainst = sheet.goals.filter((goal) => goal.teamId !== goalie.teamId).length;
+            return (
+              <View key={goalie.teamId} style={styles.eventRow}>
+                <View style={styles.eventContent}>
+                  <Text style={styles.eventTitle}>
+                    {goalie.name} <Text style={styles.eventTeam}>({teamName(goalie.teamId)})</Text>
+                  </Text>
+                  {goalie.shotsAgainst !== undefined && (
+                    <Text style={styles.eventDetail}>
+                      {goalie.shotsAgainst - goalsAgainst} saves on {goalie.shotsAgainst} shots
+                    </Text>
+                  )}
+                </View>
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.bg.dark,
+    borderRadius: radius.lg,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    padding: spacing.md,
+    gap: spacing.md,
+  },
+  period: {
+    gap: spacing.sm,
+  },
+  periodLabel: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: colors.text.muted,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: spacing.sm,
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+  },
+  eventTime: {
+    width: 52,
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.text.secondary,
+    fontVariant: ['tabular-nums'],
+  },
+  eventContent: {
+    flex: 1,
+  },
+  eventTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.text.primary,
+  },
+  eventTeam: {
+    fontSize: 13,
+    fontWeight: '400',
+    color: colors.text.muted,
+  },
+  eventDetail: {
+    fontSize: 13,
+    color: colors.text.secondary,
+    marginTop: 2,
+  },
+  penaltyDetail: {
+    fontSize: 13,
+    color: colors.status.warning,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.text.muted,
+    paddingHorizontal: spacing.xs,
+  },
+});
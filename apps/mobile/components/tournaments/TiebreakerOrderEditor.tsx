@@ -0,0 +1,134 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { TIEBREAKER_LABELS, type TiebreakerCriterion } from '@bhmhockey/shared';
+import { colors, spacing, radius } from '../../theme';
+
+interface TiebreakerOrderEditorProps {
+  value: TiebreakerCriterion[];
+  onChange: (order: TiebreakerCriterion[]) => void;
+}
+
+const ALL_CRITERIA = Object.keys(TIEBREAKER_LABELS) as TiebreakerCriterion[];
+
+/**
+ * TiebreakerOrderEditor - Pick and reorder the criteria used to rank teams
+ * level on points. Applied top to bottom.
+ */
+export function TiebreakerOrderEditor({ value, onChange }: TiebreakerOrderEditorProps) {
+  const available = ALL_CRITERIA.filter((criterion) => !value.includes(criterion));
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= value.length) return;
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const remove = (criterion: TiebreakerCriterion) => {
+    onChange(value.filter((c) => c !== criterion));
+  };
+
+  const add = (criterion: TiebreakerCriterion) => {
+    onChange([...value, criterion]);
+  };
+
+  return (
+    <View>
+      {value.map((criterion, index) => (
+        <View key={criterion} style={styles.row}>
+          <Text style={styles.position} allowFontScaling={false}>{index + 1}</Text>
+          <Text style={styles.label} allowFontScaling={false}>{TIEBREAKER_LABELS[criterion]}</Text>
+          <TouchableOpacity
+            onPress={() => move(index, -1)}
+            disabled={index === 0}
+            style={styles.iconButton}
+            hitSlop={6}
+          >
+            <Ionicons name="chevron-up" size={18} color={index === 0 ? colors.text.subtle : colors.text.secondary} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => move(index, 1)}
+            disabled={index === value.length - 1}
+            style={styles.iconButton}
+            hitSlop={6}
+          >
+            <Ionicons
+              name="chevron-down"
+              size={18}
+              color={index === value.length - 1 ? colors.text.subtle : colors.text.secondary}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => remove(criterion)} style={styles.iconButton} hitSlop={6}>
+            <Ionicons name="close" size={18} color={colors.status.error} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {available.length > 0 && (
+        <View style={styles.availableContainer}>
+          {available.map((criterion) => (
+            <TouchableOpacity
+              key={criterion}
+              style={styles.addChip}
+              onPress={() => add(criterion)}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="add" size={14} color={colors.primary.teal} />
+              <Text style={styles.addChipText} allowFontScaling={false}>{TIEBREAKER_LABELS[criterion]}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.bg.elevated,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.default,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  position: {
+    width: 20,
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.primary.teal,
+  },
+  label: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.text.primary,
+  },
+  iconButton: {
+    paddingHorizontal: spacing.xs,
+  },
+  availableContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginTop: spacing.xs,
+  },
+  addChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: radius.md,
+    borderWidth: 1,
+    borderColor: colors.border.muted,
+  },
+  addChipText: {
+    fontSize: 13,
+    color: colors.text.secondary,
+  },
+});
@@ -25,6 +25,13 @@ export function getBaseUrl(): string {
   return apiUrl.replace(/\/api$/, '');
 }
 
+/**
+ * WebSocket URL for a push channel under the API (http -> ws, https -> wss)
+ */
+export function getWebSocketUrl(path: string): string {
+  return `${getApiUrl().replace(/^http/, 'ws')}${path}`;
+}
+
 /**
  * Log the current API configuration (useful for debugging)
  */
@@ -1,2 +1,5 @@
 export { useOtaUpdates } from './useOtaUpdates';
 export { useBadgeCelebration } from './useBadgeCelebration';
+export { useOfflineSync } from './useOfflineSync';
+export { useLiveMatchUpdates } from './useLiveMatchUpdates';
+export { useNow } from './useNow';
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { useTournamentStore } from '../stores/tournamentStore';
+import { openLiveMatchChannel } from '../utils/liveMatchChannel';
+
+// How often to refetch matches while the push channel is down
+const POLL_INTERVAL_MS = 15000;
+
+/**
+ * Keeps a tournament's matches current while games are being played.
+ * Listens on the live push channel and polls while it is disconnected.
+ * Only runs while the screen is focused, the app is in the foreground and
+ * the tournament (or one of its matches) is in progress.
+ * Returns whether pushed updates are arriving.
+ */
+export function useLiveMatchUpdates(tournamentId: string | undefined): { isConnected: boolean } {
+  const isLive = useTournamentStore(
+    (state) =>
+      state.currentTournament?.status === 'InProgress' || state.matches.some((m) => m.status === 'InProgress')
+  );
+  const [isFocused, setIsFocused] = useState(false);
+  const [isForeground, setIsForeground] = useState(AppState.currentState === 'active');
+  const [isConnected, setIsConnected] = useState(false);
+
+  const isEnabled = !!tournamentId && isLive && isFocused && isForeground;
+
+  useFocusEffect(
+    useCallback(() => {
+      setIsFocused(true);
+      return () => setIsFocused(false);
+    }, [])
+  );
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      setIsForeground(nextAppState === 'active');
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Push channel
+  useEffect(() => {
+    if (!isEnabled || !tournamentId) {
+      return;
+    }
+
+    const close = openLiveMatchChannel(tournamentId, {
+      onEvent: (event) => {
+        const { applyLiveMatchUpdate, fetchMatches } = useTournamentStore.getState();
+        if (event.match) {
+          applyLiveMatchUpdate(event.match);
+        } else {
+          fetchMatches(tournamentId);
+        }
+      },
+      onConnectionChange: setIsConnected,
+    });
+
+    return () => {
+      close();
+      setIsConnected(false);
+    };
+  }, [isEnabled, tournamentId]);
+
+  // Polling fallback while the channel is down
+  useEffect(() => {
+    if (!isEnabled || !tournamentId || isConnected) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      useTournamentStore.getState().fetchMatches(tournamentId);
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isEnabled, tournamentId, isConnected]);
+
+  return { isConnected };
+}
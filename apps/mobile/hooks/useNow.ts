@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * The current time, re-rendering every intervalMs while enabled.
+ * Used for countdowns (e.g. waitlist offers) so idle screens don't tick.
+ */
+export function useNow(enabled: boolean, intervalMs: number = 1000): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    if (!enabled) return;
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [enabled, intervalMs]);
+
+  return now;
+}
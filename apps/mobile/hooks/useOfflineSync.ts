@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import { useAuthStore } from '../stores/authStore';
+import { useEventStore } from '../stores/eventStore';
+import { useOfflineStore } from '../stores/offlineStore';
+
+// How often to retry queued writes while some are still pending
+const RETRY_INTERVAL_MS = 30000;
+
+/**
+ * Replays writes queued while offline (registrations, cancellations, scores).
+ * Flushes after login, on app foreground, when a request succeeds again after
+ * being offline, and on an interval while the queue is non-empty.
+ * The queue and read cache are dropped by an explicit logout or when a
+ * different user signs in - not when the session merely lapses.
+ */
+export function useOfflineSync(): void {
+  const isAuthLoading = useAuthStore((state) => state.isLoading);
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
+  const userId = useAuthStore((state) => state.user?.id);
+  const isOffline = useOfflineStore((state) => state.isOffline);
+  const queueLength = useOfflineStore((state) => state.queue.length);
+  const wasOffline = useRef(isOffline);
+
+  const flush = async () => {
+    const replayed = await useOfflineStore.getState().flushQueue();
+    if (replayed > 0) {
+      console.log(`📶 [Offline] Synced ${replayed} queued change(s)`);
+      // Server state may differ from the optimistic view - refresh it
+      const { fetchEvents, fetchMyRegistrations } = useEventStore.getState();
+      fetchEvents();
+      fetchMyRegistrations();
+    }
+  };
+
+  // Load the signed-in user's queue once the auth check settles
+  useEffect(() => {
+    if (isAuthLoading || !isAuthenticated || !userId) {
+      return;
+    }
+
+    useOfflineStore.getState().loadQueue(userId).then(flush);
+
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState === 'active') {
+        flush();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [isAuthLoading, isAuthenticated, userId]);
+
+  // Back online (some other request succeeded) - flush right away
+  useEffect(() => {
+    if (wasOffline.current && !isOffline && isAuthenticated) {
+      flush();
+    }
+    wasOffline.current = isOffline;
+  }, [isOffline, isAuthenticated]);
+
+  // Keep retrying while writes are pending
+  useEffect(() => {
+    if (!isAuthenticated || queueLength === 0) {
+      return;
+    }
+
+    const interval = setInterval(flush, RETRY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isAuthenticated, queueLength]);
+}
@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import { authService, authStorage } from '@bhmhockey/api-client';
 import type { User, LoginRequest, RegisterRequest } from '@bhmhockey/shared';
+import { cacheKeys, clearOfflineCache, fetchWithCache, isNetworkError } from '../utils/offlineCache';
+import { useOfflineStore } from './offlineStore';
 
 interface AuthState {
   user: User | null;
@@ -38,6 +40,9 @@ export const useAuthStore = create<AuthState>((set) => ({
 
   logout: async () => {
     await authService.logout();
+    // Queued writes and cached reads belong to this user - drop them
+    await useOfflineStore.getState().reset();
+    await clearOfflineCache();
     set({
       user: null,
       isAuthenticated: false
@@ -54,14 +59,22 @@ export const useAuthStore = create<AuthState>((set) => ({
         return;
       }
 
-      // Verify token is valid by fetching current user
-      const user = await authService.getCurrentUser();
+      // Verify token is valid by fetching current user (last known profile
+      // when offline)
+      const { data: user } = await fetchWithCache(cacheKeys.currentUser, () =>
+        authService.getCurrentUser()
+      );
       set({
         user,
         isAuthenticated: true,
         isLoading: false
       });
     } catch (error) {
+      if (isNetworkError(error)) {
+        // Offline with nothing cached - keep the token for the next launch
+        set({ user: null, isAuthenticated: false, isLoading: false });
+        return;
+      }
       // Token is invalid, clear it
       await authStorage.removeToken();
       set({
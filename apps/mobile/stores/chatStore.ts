@@ -0,0 +1,167 @@
+import { create } from 'zustand';
+import { chatService } from '@bhmhockey/api-client';
+import { CHAT, getMentionedUserIds, mergeChatMessages } from '@bhmhockey/shared';
+import type { ChatMessageDto, ChatParticipant, ChatThreadType } from '@bhmhockey/shared';
+import { getErrorMessage } from './eventStore';
+
+export interface ChatThread {
+  messages: ChatMessageDto[];       // Newest first
+  pinnedMessages: ChatMessageDto[];
+  nextCursor: string | null;        // null = the start of the thread is loaded
+  isLoading: boolean;
+  isLoadingOlder: boolean;
+}
+
+export const EMPTY_CHAT_THREAD: ChatThread = {
+  messages: [],
+  pinnedMessages: [],
+  nextCursor: null,
+  isLoading: false,
+  isLoadingOlder: false,
+};
+
+export const getChatThreadKey = (threadType: ChatThreadType, threadId: string) => `${threadType}:${threadId}`;
+
+interface ChatState {
+  threads: Record<string, ChatThread>;
+  isSending: boolean;
+  error: string | null;
+
+  // Newest page: first load, pull-to-refresh and polling
+  fetchLatest: (threadType: ChatThreadType, threadId: string) => Promise<void>;
+  // Next page of history when scrolling up
+  fetchOlder: (threadType: ChatThreadType, threadId: string) => Promise<void>;
+  sendMessage: (
+    threadType: ChatThreadType,
+    threadId: string,
+    body: string,
+    participants: ChatParticipant[]
+  ) => Promise<boolean>;
+  // Organizers only
+  togglePin: (threadType: ChatThreadType, threadId: string, message: ChatMessageDto) => Promise<boolean>;
+  deleteMessage: (threadType: ChatThreadType, threadId: string, messageId: string) => Promise<boolean>;
+  clearError: () => void;
+}
+
+export const useChatStore = create<ChatState>((set, get) => {
+  const getThread = (key: string): ChatThread => get().threads[key] ?? EMPTY_CHAT_THREAD;
+
+  const updateThread = (key: string, changes: Partial<ChatThread>) =>
+    set((state) => ({
+      threads: { ...state.threads, [key]: { ...(state.threads[key] ?? EMPTY_CHAT_THREAD), ...changes } },
+    }));
+
+  // Swap in a changed message wherever it appears
+  const replaceMessage = (key: string, updated: ChatMessageDto) => {
+    const thread = getThread(key);
+    const pinnedMessages = thread.pinnedMessages.filter((m) => m.id !== updated.id);
+    updateThread(key, {
+      messages: thread.messages.map((m) => (m.id === updated.id ? updated : m)),
+      pinnedMessages: updated.isPinned ? [updated, ...pinnedMessages] : pinnedMessages,
+    });
+  };
+
+  return {
+    threads: {},
+    isSending: false,
+    error: null,
+
+    fetchLatest: async (threadType, threadId) => {
+      const key = getChatThreadKey(threadType, threadId);
+      updateThread(key, { isLoading: true });
+      try {
+        const page = await chatService.getMessages(threadType, threadId, { limit: CHAT.PAGE_SIZE });
+        const thread = getThread(key);
+        const loadedIds = new Set(thread.messages.map((m) => m.id));
+        // More new messages than a page since the last fetch - start over from
+        // the newest page rather than leave a gap in the history
+        const overlaps = thread.messages.length === 0 || page.messages.some((m) => loadedIds.has(m.id));
+        updateThread(key, {
+          messages: overlaps ? mergeChatMessages(thread.messages, page.messages) : page.messages,
+          pinnedMessages: page.pinnedMessages,
+          nextCursor: overlaps && thread.messages.length > 0 ? thread.nextCursor : page.nextCursor,
+          isLoading: false,
+        });
+      } catch (error) {
+        updateThread(key, { isLoading: false });
+        set({ error: getErrorMessage(error, 'Failed to load messages') });
+      }
+    },
+
+    fetchOlder: async (threadType, threadId) => {
+      const key = getChatThreadKey(threadType, threadId);
+      const thread = getThread(key);
+      if (!thread.nextCursor || thread.isLoadingOlder) return;
+
+      updateThread(key, { isLoadingOlder: true });
+      try {
+        const page = await chatService.getMessages(threadType, threadId, {
+          before: thread.nextCursor,
+          limit: CHAT.PAGE_SIZE,
+        });
+        updateThread(key, {
+          messages: mergeChatMessages(getThread(key).messages, page.messages),
+          nextCursor: page.nextCursor,
+          isLoadingOlder: false,
+        });
+      } catch (error) {
+        updateThread(key, { isLoadingOlder: false });
+        set({ error: getErrorMessage(error, 'Failed to load older messages') });
+      }
+    },
+
+    sendMessage: async (threadType, threadId, body, participants) => {
+      const key = getChatThreadKey(threadType, threadId);
+      set({ isSending: true, error: null });
+      try {
+        const message = await chatService.sendMessage(threadType, threadId, {
+          body,
+          mentionedUserIds: getMentionedUserIds(body, participants),
+        });
+        updateThread(key, { messages: mergeChatMessages(getThread(key).messages, [message]) });
+        set({ isSending: false });
+        return true;
+      } catch (error) {
+        set({ isSending: false, error: getErrorMessage(error, 'Failed to send message') });
+        return false;
+      }
+    },
+
+    togglePin: async (threadType, threadId, message) => {
+      const key = getChatThreadKey(threadType, threadId);
+      try {
+        const updated = message.isPinned
+          ? await chatService.unpinMessage(message.id)
+          : await chatService.pinMessage(message.id);
+        replaceMessage(key, updated);
+        return true;
+      } catch (error) {
+        set({ error: getErrorMessage(error, message.isPinned ? 'Failed to unpin message' : 'Failed to pin message') });
+        return false;
+      }
+    },
+
+    deleteMessage: async (threadType, threadId, messageId) => {
+      const key = getChatThreadKey(threadType, threadId);
+      const thread = getThread(key);
+
+      // Optimistic update
+      updateThread(key, {
+        messages: thread.messages.filter((m) => m.id !== messageId),
+        pinnedMessages: thread.pinnedMessages.filter((m) => m.id !== messageId),
+      });
+
+      try {
+        await chatService.deleteMessage(messageId);
+        return true;
+      } catch (error) {
+        // Rollback on failure
+        updateThread(key, { messages: thread.messages, pinnedMessages: thread.pinnedMessages });
+        set({ error: getErrorMessage(error, 'Failed to delete message') });
+        return false;
+      }
+    },
+
+    clearError: () => set({ error: null }),
+  };
+});
@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import { eventService } from '@bhmhockey/api-client';
-import type { EventDto, CreateEventRequest, Position, TeamAssignment, RegistrationResultDto, PaymentStatus, WaitlistOrderItem, PaymentUpdateResultDto, PublishResultDto, UserSearchResultDto, SkillLevel } from '@bhmhockey/shared';
+import type { EventDto, CreateEventRequest, CreateEventSeriesRequest, EventSeriesDto, Position, TeamAssignment, RegistrationResultDto, PaymentStatus, WaitlistOrderItem, PaymentUpdateResultDto, PublishResultDto, UserSearchResultDto, SkillLevel } from '@bhmhockey/shared';
+import { cacheKeys, fetchWithCache, isNetworkError } from '../utils/offlineCache';
+import { useOfflineStore } from './offlineStore';
 
 /** Extract message from ApiError objects or Error instances */
 export function getErrorMessage(error: unknown, fallback: string): string {
@@ -15,6 +17,7 @@ interface EventState {
   events: EventDto[];
   myRegistrations: EventDto[];
   selectedEvent: EventDto | null;
+  selectedEventCachedAt: string | null; // Set when selectedEvent came from the offline cache
   isLoading: boolean;
   isCreating: boolean;
   processingEventId: string | null; // Track which event is being registered/cancelled
@@ -25,8 +28,11 @@ interface EventState {
   fetchEventById: (id: string) => Promise<void>;
   fetchMyRegistrations: () => Promise<void>;
   createEvent: (data: CreateEventRequest) => Promise<EventDto | null>;
+  createEventSeries: (data: CreateEventSeriesRequest) => Promise<EventSeriesDto | null>;
   register: (eventId: string, position?: Position) => Promise<RegistrationResultDto | null>;
   cancelRegistration: (eventId: string) => Promise<boolean>;
+  acceptWaitlistOffer: (eventId: string) => Promise<boolean>;
+  declineWaitlistOffer: (eventId: string) => Promise<boolean>;
   clearSelectedEvent: () => void;
   clearError: () => void;
 
@@ -38,7 +44,7 @@ interface EventState {
   updateTeamAssignment: (eventId: string, registrationId: string, team: TeamAssignment) => Promise<boolean>;
 
   // Registration management (organizer)
-  removeRegistration: (eventId: string, registrationId: string) => Promise<boolean>;
+  removeRegistration: (eventId: string, registrationId: string, lateCancel?: boolean) => Promise<boolean>;
 
   // Waitlist management (organizer)
   reorderWaitlist: (eventId: string, items: WaitlistOrderItem[]) => Promise<void>;
@@ -61,6 +67,7 @@ export const useEventStore = create<EventState>((set, get) => ({
   events: [],
   myRegistrations: [],
   selectedEvent: null,
+  selectedEventCachedAt: null,
   isLoading: false,
   isCreating: false,
   processingEventId: null,
@@ -84,12 +91,16 @@ export const useEventStore = create<EventState>((set, get) => ({
     }
   },
 
-  // Fetch single event by ID
+  // Fetch single event by ID (falls back to the offline cache when unreachable)
   fetchEventById: async (id: string) => {
     set({ isLoading: true, error: null });
     try {
-      const event = await eventService.getById(id);
-      set({ selectedEvent: event, isLoading: false });
+      const { data: event, cachedAt } = await fetchWithCache(
+        cacheKeys.event(id),
+        () => eventService.getById(id)
+      );
+      useOfflineStore.getState().setOffline(cachedAt !== null);
+      set({ selectedEvent: event, selectedEventCachedAt: cachedAt, isLoading: false });
     } catch (error) {
       set({
         error: getErrorMessage(error, 'Failed to load event'),
@@ -134,6 +145,27 @@ export const useEventStore = create<EventState>((set, get) => ({
     }
   },
 
+  // Create every game of a recurring series in one request
+  createEventSeries: async (data: CreateEventSeriesRequest) => {
+    set({ isCreating: true, error: null });
+    try {
+      const series = await eventService.createSeries(data);
+      const { events } = get();
+      // Add generated events to list, sorted by date
+      const updatedEvents = [...events, ...series.events].sort(
+        (a, b) => new Date(a.eventDate).getTime() - new Date(b.eventDate).getTime()
+      );
+      set({ events: updatedEvents, isCreating: false });
+      return series;
+    } catch (error) {
+      set({
+        error: getErrorMessage(error, 'Failed to create event series'),
+        isCreating: false
+      });
+      return null;
+    }
+  },
+
   // Register for event (with optimistic update)
   register: async (eventId: string, position?: Position): Promise<RegistrationResultDto | null> => {
     const { events, selectedEvent, myRegistrations } = get();
@@ -218,6 +250,13 @@ export const useEventStore = create<EventState>((set, get) => ({
 
       return result;
     } catch (error: any) {
+      // Offline: queue the registration for replay on reconnect (the outcome -
+      // roster or waitlist - is only known once the server processes it)
+      if (isNetworkError(error)) {
+        await useOfflineStore.getState().enqueue({ kind: 'registerForEvent', eventId, position });
+        set({ events, selectedEvent, processingEventId: null });
+        return null;
+      }
       // Rollback on failure
       set({
         events,
@@ -268,6 +307,12 @@ export const useEventStore = create<EventState>((set, get) => ({
       set({ processingEventId: null });
       return true;
     } catch (error) {
+      // Offline: queue the cancellation for replay on reconnect
+      if (isNetworkError(error)) {
+        await useOfflineStore.getState().enqueue({ kind: 'cancelEventRegistration', eventId });
+        set({ events, selectedEvent, myRegistrations, processingEventId: null });
+        return false;
+      }
       // Rollback on failure
       set({
         events,
@@ -280,7 +325,49 @@ export const useEventStore = create<EventState>((set, get) => ({
     }
   },
 
-  clearSelectedEvent: () => set({ selectedEvent: null }),
+  // Accept a waitlist offer, then refetch - the server decides roster slot and payment deadline
+  acceptWaitlistOffer: async (eventId: string) => {
+    set({ processingEventId: eventId });
+    try {
+      await eventService.acceptWaitlistOffer(eventId);
+      set({ processingEventId: null });
+      await Promise.all([get().fetchEventById(eventId), get().fetchMyRegistrations()]);
+      return true;
+    } catch (error) {
+      set({
+        processingEventId: null,
+        error: getErrorMessage(error, 'This offer has expired or was already taken'),
+      });
+      return false;
+    }
+  },
+
+  // Decline a waitlist offer - the user stays on the waitlist
+  declineWaitlistOffer: async (eventId: string) => {
+    const { selectedEvent } = get();
+
+    // Optimistic update
+    set({
+      processingEventId: eventId,
+      selectedEvent: selectedEvent?.id === eventId ? { ...selectedEvent, myOfferExpiresAt: null } : selectedEvent,
+    });
+
+    try {
+      await eventService.declineWaitlistOffer(eventId);
+      set({ processingEventId: null });
+      return true;
+    } catch (error) {
+      // Rollback on failure
+      set({
+        selectedEvent,
+        processingEventId: null,
+        error: getErrorMessage(error, 'Failed to decline offer'),
+      });
+      return false;
+    }
+  },
+
+  clearSelectedEvent: () => set({ selectedEvent: null, selectedEventCachedAt: null }),
   clearError: () => set({ error: null }),
 
   // Payment actions (Phase 4)
@@ -355,9 +442,9 @@ export const useEventStore = create<EventState>((set, get) => ({
   // Registration management (organizer)
 
   // Remove a registration (organizer only)
-  removeRegistration: async (eventId: string, registrationId: string) => {
+  removeRegistration: async (eventId: string, registrationId: string, lateCancel?: boolean) => {
     try {
-      await eventService.removeRegistration(eventId, registrationId);
+      await eventService.removeRegistration(eventId, registrationId, lateCancel);
       // Refresh event data to get updated registrations
       await get().fetchEventById(eventId);
       return true;
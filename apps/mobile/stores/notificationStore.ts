@@ -1,6 +1,7 @@
 import { create } from 'zustand';
-import { notificationService } from '@bhmhockey/api-client';
-import type { Notification } from '@bhmhockey/shared';
+import { notificationService, userService } from '@bhmhockey/api-client';
+import { toUpdateNotificationPreferencesRequest } from '@bhmhockey/shared';
+import type { Notification, NotificationPreferencesDto } from '@bhmhockey/shared';
 
 const PAGE_SIZE = 20;
 
@@ -13,6 +14,8 @@ interface NotificationState {
   isLoading: boolean;
   isLoadingMore: boolean;
   error: string | null;
+  // Null until loaded - foreground pushes are shown normally until then
+  preferences: NotificationPreferencesDto | null;
 
   // Actions
   fetchNotifications: (reset?: boolean) => Promise<void>;
@@ -21,6 +24,8 @@ interface NotificationState {
   markAllAsRead: () => Promise<void>;
   deleteNotification: (id: string) => Promise<void>;
   addNotification: (notification: Notification) => void;
+  fetchPreferences: () => Promise<void>;
+  updatePreferences: (preferences: NotificationPreferencesDto) => Promise<boolean>;
   clearError: () => void;
   reset: () => void;
 }
@@ -34,6 +39,7 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
   isLoading: false,
   isLoadingMore: false,
   error: null,
+  preferences: null,
 
   // Fetch notifications with pagination
   fetchNotifications: async (reset = false) => {
@@ -155,6 +161,34 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
     }));
   },
 
+  // Fetch notification preferences
+  fetchPreferences: async () => {
+    try {
+      const preferences = await userService.getNotificationPreferences();
+      set({ preferences });
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to load notification preferences',
+      });
+    }
+  },
+
+  // Save notification preferences (server returns the stored copy)
+  updatePreferences: async (preferences: NotificationPreferencesDto) => {
+    try {
+      const saved = await userService.updateNotificationPreferences(
+        toUpdateNotificationPreferencesRequest(preferences)
+      );
+      set({ preferences: saved });
+      return true;
+    } catch (error) {
+      set({
+        error: error instanceof Error ? error.message : 'Failed to save notification preferences',
+      });
+      return false;
+    }
+  },
+
   // Clear error
   clearError: () => set({ error: null }),
 
@@ -168,5 +202,6 @@ export const useNotificationStore = create<NotificationState>((set, get) => ({
       isLoading: false,
       isLoadingMore: false,
       error: null,
+      preferences: null,
     }),
 }));
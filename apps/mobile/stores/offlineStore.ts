@@ -0,0 +1,186 @@
+import { create } from 'zustand';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { eventService, tournamentService } from '@bhmhockey/api-client';
+import type { CheckInItem, EnterScoreRequest, Position, SaveGameSheetRequest } from '@bhmhockey/shared';
+import { clearOfflineCache, isNetworkError } from '../utils/offlineCache';
+import { getErrorMessage } from './eventStore';
+
+const QUEUE_KEY = '@bhmhockey:offlineQueue';
+// User whose session queued the writes and filled the read cache
+const OWNER_KEY = '@bhmhockey:offlineOwner';
+
+// Writes made while offline, replayed in order once the device reconnects
+export type OfflineWrite =
+  | { kind: 'registerForEvent'; eventId: string; position?: Position }
+  | { kind: 'cancelEventRegistration'; eventId: string }
+  | { kind: 'enterScore'; tournamentId: string; matchId: string; request: EnterScoreRequest }
+  | { kind: 'saveGameSheet'; tournamentId: string; matchId: string; request: SaveGameSheetRequest }
+  | { kind: 'checkIn'; eventId: string; item: CheckInItem };
+
+export type QueuedWrite = OfflineWrite & {
+  id: string;
+  queuedAt: string;  // ISO date string
+};
+
+interface OfflineState {
+  isOffline: boolean;        // Last request failed to reach the server
+  queue: QueuedWrite[];
+  isSyncing: boolean;
+  lastSyncError: string | null;  // Server rejection of a replayed write
+
+  // Actions
+  setOffline: (isOffline: boolean) => void;
+  loadQueue: (userId: string) => Promise<void>;
+  enqueue: (write: OfflineWrite) => Promise<void>;
+  flushQueue: () => Promise<number>;
+  clearSyncError: () => void;
+  reset: () => Promise<void>;
+}
+
+async function persistQueue(queue: QueuedWrite[]): Promise<void> {
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.error('Error saving offline queue:', error);
+  }
+}
+
+/**
+ * Fold a new write into the queue: a cancel undoes a still-queued
+ * registration for the same event, a newer score or game sheet replaces
+ * an older one for the same match, and a repeat check-in keeps the first scan
+ */
+function mergeWrite(queue: QueuedWrite[], write: QueuedWrite): QueuedWrite[] {
+  if (write.kind === 'cancelEventRegistration') {
+    const pendingRegister = queue.find(
+      (q) => q.kind === 'registerForEvent' && q.eventId === write.eventId
+    );
+    if (pendingRegister) {
+      return queue.filter((q) => q.id !== pendingRegister.id);
+    }
+  }
+  if (write.kind === 'checkIn') {
+    const alreadyQueued = queue.some(
+      (q) => q.kind === 'checkIn' && q.eventId === write.eventId && q.item.registrationId === write.item.registrationId
+    );
+    if (alreadyQueued) {
+      return queue;
+    }
+  }
+  if (write.kind === 'enterScore' || write.kind === 'saveGameSheet') {
+    return [
+      ...queue.filter((q) => !(q.kind === write.kind && q.matchId === write.matchId)),
+      write,
+    ];
+  }
+  return [...queue, write];
+}
+
+async function replayWrite(write: QueuedWrite): Promise<void> {
+  switch (write.kind) {
+    case 'registerForEvent':
+      await eventService.register(write.eventId, write.position);
+      return;
+    case 'cancelEventRegistration':
+      await eventService.cancelRegistration(write.eventId);
+      return;
+    case 'enterScore':
+      await tournamentService.enterScore(write.tournamentId, write.matchId, write.request);
+      return;
+    case 'saveGameSheet':
+      await tournamentService.saveGameSheet(write.tournamentId, write.matchId, write.request);
+      return;
+    case 'checkIn': {
+      const result = await eventService.checkIn(write.eventId, [write.item]);
+      if (result.rejected.length > 0) {
+        throw new Error(`Check-in not saved: ${result.rejected[0].reason}`);
+      }
+      return;
+    }
+  }
+}
+
+export const useOfflineStore = create<OfflineState>((set, get) => ({
+  isOffline: false,
+  queue: [],
+  isSyncing: false,
+  lastSyncError: null,
+
+  setOffline: (isOffline: boolean) => {
+    if (get().isOffline !== isOffline) {
+      set({ isOffline });
+    }
+  },
+
+  // Restore writes queued in a previous session (called after login/app open).
+  // A different user signing in drops the previous user's queue and cache.
+  loadQueue: async (userId: string) => {
+    try {
+      const owner = await AsyncStorage.getItem(OWNER_KEY);
+      if (owner && owner !== userId) {
+        await AsyncStorage.removeItem(QUEUE_KEY);
+        await clearOfflineCache();
+      }
+      await AsyncStorage.setItem(OWNER_KEY, userId);
+      const raw = await AsyncStorage.getItem(QUEUE_KEY);
+      set({ queue: raw ? (JSON.parse(raw) as QueuedWrite[]) : [] });
+    } catch (error) {
+      console.error('Error loading offline queue:', error);
+    }
+  },
+
+  enqueue: async (write: OfflineWrite) => {
+    const queued = {
+      ...write,
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: new Date().toISOString(),
+    } as QueuedWrite;
+    const queue = mergeWrite(get().queue, queued);
+    set({ queue, isOffline: true });
+    await persistQueue(queue);
+  },
+
+  // Replay queued writes oldest-first. Stops at the first network failure
+  // (still offline); a write the server rejects is dropped and reported.
+  // Returns how many writes reached the server.
+  flushQueue: async () => {
+    if (get().isSyncing || get().queue.length === 0) {
+      return 0;
+    }
+
+    set({ isSyncing: true });
+    let replayed = 0;
+
+    while (get().queue.length > 0) {
+      const [next, ...rest] = get().queue;
+      try {
+        await replayWrite(next);
+        replayed += 1;
+      } catch (error) {
+        if (isNetworkError(error)) {
+          set({ isSyncing: false, isOffline: true });
+          return replayed;
+        }
+        set({ lastSyncError: getErrorMessage(error, 'A change made offline could not be saved') });
+      }
+      set({ queue: rest });
+      await persistQueue(rest);
+    }
+
+    set({ isSyncing: false, isOffline: false });
+    return replayed;
+  },
+
+  clearSyncError: () => set({ lastSyncError: null }),
+
+  // Reset store and drop persisted writes (on logout)
+  reset: async () => {
+    set({ isOffline: false, queue: [], isSyncing: false, lastSyncError: null });
+    try {
+      await AsyncStorage.removeItem(QUEUE_KEY);
+      await AsyncStorage.removeItem(OWNER_KEY);
+    } catch (error) {
+      console.error('Error clearing offline queue:', error);
+    }
+  },
+}));
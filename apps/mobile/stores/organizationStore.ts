@@ -1,6 +1,17 @@
 import { create } from 'zustand';
 import { organizationService } from '@bhmhockey/api-client';
-import type { Organization, OrganizationSubscription, CreateOrganizationRequest, OrganizationMember, AutoRosterMember, Position, OrganizationWaiver } from '@bhmhockey/shared';
+import type {
+  Organization,
+  OrganizationSubscription,
+  CreateOrganizationRequest,
+  OrganizationMember,
+  AutoRosterMember,
+  Position,
+  OrganizationWaiver,
+  OrganizationAnnouncementDto,
+  CreateOrganizationAnnouncementRequest,
+  UpdateOrganizationAnnouncementRequest,
+} from '@bhmhockey/shared';
 import { useEventStore, getErrorMessage } from './eventStore';
 
 interface OrganizationState {
@@ -12,6 +23,9 @@ interface OrganizationState {
   autoRosterOrgId: string | null; // Which org the loaded autoRoster belongs to
   waiver: OrganizationWaiver | null; // Active waiver of the org being viewed (null = none)
   waiverOrgId: string | null; // Which org the loaded waiver belongs to
+  announcements: OrganizationAnnouncementDto[]; // Feed of the org being viewed, newest first
+  announcementsOrgId: string | null; // Which org the loaded announcements belong to
+  isLoadingAnnouncements: boolean;
   isLoading: boolean;
   error: string | null;
 
@@ -37,8 +51,21 @@ interface OrganizationState {
   // Waiver actions (fetch for anyone; save is admin only)
   fetchWaiver: (organizationId: string) => Promise<OrganizationWaiver | null>;
   saveWaiver: (organizationId: string, text: string) => Promise<boolean>;
+
+  // Announcement actions (fetch for members; post/edit/delete are admin only)
+  fetchAnnouncements: (organizationId: string) => Promise<void>;
+  createAnnouncement: (organizationId: string, request: CreateOrganizationAnnouncementRequest) => Promise<boolean>;
+  updateAnnouncement: (
+    organizationId: string,
+    announcementId: string,
+    request: UpdateOrganizationAnnouncementRequest
+  ) => Promise<boolean>;
+  deleteAnnouncement: (organizationId: string, announcementId: string) => Promise<boolean>;
 }
 
+const sortNewestFirst = (announcements: OrganizationAnnouncementDto[]) =>
+  [...announcements].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
 export const useOrganizationStore = create<OrganizationState>((set, get) => ({
   organizations: [],
   mySubscriptions: [],
@@ -48,6 +75,9 @@ export const useOrganizationStore = create<OrganizationState>((set, get) => ({
   autoRosterOrgId: null,
   waiver: null,
   waiverOrgId: null,
+  announcements: [],
+  announcementsOrgId: null,
+  isLoadingAnnouncements: false,
   isLoading: false,
   error: null,
 
@@ -260,6 +290,76 @@ export const useOrganizationStore = create<OrganizationState>((set, get) => ({
     }
   },
 
+  fetchAnnouncements: async (organizationId: string) => {
+    // Drop another org's feed right away so it never flashes on this org's screen
+    if (get().announcementsOrgId !== organizationId) {
+      set({ announcements: [], announcementsOrgId: organizationId });
+    }
+    set({ isLoadingAnnouncements: true });
+    try {
+      const announcements = await organizationService.getAnnouncements(organizationId);
+      set({ announcements: sortNewestFirst(announcements), isLoadingAnnouncements: false });
+    } catch (error) {
+      set({
+        isLoadingAnnouncements: false,
+        error: getErrorMessage(error, 'Failed to load announcements'),
+      });
+    }
+  },
+
+  createAnnouncement: async (organizationId: string, request: CreateOrganizationAnnouncementRequest) => {
+    try {
+      const announcement = await organizationService.createAnnouncement(organizationId, request);
+      set((state) => ({
+        announcements:
+          state.announcementsOrgId === organizationId
+            ? sortNewestFirst([announcement, ...state.announcements])
+            : [announcement],
+        announcementsOrgId: organizationId,
+      }));
+      return true;
+    } catch (error) {
+      set({ error: getErrorMessage(error, 'Failed to send announcement') });
+      return false;
+    }
+  },
+
+  updateAnnouncement: async (
+    organizationId: string,
+    announcementId: string,
+    request: UpdateOrganizationAnnouncementRequest
+  ) => {
+    try {
+      const updated = await organizationService.updateAnnouncement(organizationId, announcementId, request);
+      set((state) => ({
+        announcements: state.announcements.map((a) => (a.id === announcementId ? updated : a)),
+      }));
+      return true;
+    } catch (error) {
+      set({ error: getErrorMessage(error, 'Failed to update announcement') });
+      return false;
+    }
+  },
+
+  deleteAnnouncement: async (organizationId: string, announcementId: string) => {
+    const { announcements } = get();
+
+    // Optimistic update
+    set({ announcements: announcements.filter((a) => a.id !== announcementId) });
+
+    try {
+      await organizationService.deleteAnnouncement(organizationId, announcementId);
+      return true;
+    } catch (error) {
+      // Rollback on failure
+      set({
+        announcements,
+        error: getErrorMessage(error, 'Failed to delete announcement'),
+      });
+      return false;
+    }
+  },
+
   reorderAutoRoster: async (organizationId: string, orderedUserIds: string[]) => {
     const { autoRoster } = get();
 
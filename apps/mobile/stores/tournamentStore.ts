@@ -24,7 +24,21 @@ import type {
   TournamentAnnouncementDto,
   CreateTournamentAnnouncementRequest,
   AnnouncementTarget,
+  TiebreakerCriterion,
+  GameSheetDto,
+  SaveGameSheetRequest,
+  TournamentPlayerStatsDto,
+  UpdateMatchClockRequest,
+  ScheduleDraft,
+  ScheduleSettings,
 } from '@bhmhockey/shared';
+import { generateSchedule, parseTiebreakerOrder, swapScheduledMatches } from '@bhmhockey/shared';
+import { cacheKeys, fetchWithCache, isNetworkError } from '../utils/offlineCache';
+import { useOfflineStore } from './offlineStore';
+
+// Result of a score or game sheet save: queued means the device was offline
+// and the write will be replayed on reconnect
+export type SaveOutcome = 'saved' | 'queued' | 'failed';
 
 interface TournamentState {
   // State
@@ -32,6 +46,7 @@ interface TournamentState {
   currentTournament: TournamentDto | null;
   teams: TournamentTeamDto[];
   matches: TournamentMatchDto[];
+  matchesCachedAt: string | null; // Set when matches came from the offline cache
   isLoading: boolean;
   isCreating: boolean;
   processingId: string | null; // Track operations in progress
@@ -47,6 +62,13 @@ interface TournamentState {
   standings: TeamStandingDto[];
   playoffCutoff: number | null;
   tiedGroups: TiedGroupDto[] | null;
+  tiebreakerOrder: TiebreakerCriterion[]; // Criteria the standings were ranked with
+  standingsCachedAt: string | null; // Set when standings came from the offline cache
+
+  // Player stats state
+  playerStats: TournamentPlayerStatsDto | null;
+  isLoadingPlayerStats: boolean;
+  playerStatsCachedAt: string | null; // Set when player stats came from the offline cache
 
   // Upcoming matches state
   myUpcomingMatches: UpcomingTournamentMatchDto[];
@@ -69,6 +91,14 @@ interface TournamentState {
   isLoadingAnnouncements: boolean;
   isSendingAnnouncement: boolean;
 
+  // Game sheet state
+  gameSheet: GameSheetDto | null;  // Sheet for the match being viewed or scored
+  isLoadingGameSheet: boolean;
+
+  // Schedule draft state
+  scheduleDraft: ScheduleDraft | null;  // Generated schedule under review, not yet published
+  scheduleDraftSettings: ScheduleSettings | null;  // Settings the draft was generated with
+
   // Actions
   fetchTournaments: () => Promise<void>;
   fetchTournamentById: (id: string) => Promise<void>;
@@ -76,8 +106,12 @@ interface TournamentState {
   fetchMatches: (tournamentId: string) => Promise<void>;
   createTournament: (data: CreateTournamentRequest) => Promise<TournamentDto | null>;
   deleteTournament: (tournamentId: string) => Promise<boolean>;
-  enterScore: (tournamentId: string, matchId: string, homeScore: number, awayScore: number) => Promise<boolean>;
+  enterScore: (tournamentId: string, matchId: string, homeScore: number, awayScore: number) => Promise<SaveOutcome>;
   generateBracket: (tournamentId: string) => Promise<boolean>;
+  generateScheduleDraft: (settings: ScheduleSettings) => ScheduleDraft;
+  swapScheduleDraftMatches: (matchIdA: string, matchIdB: string) => void;
+  discardScheduleDraft: () => void;
+  publishSchedule: (tournamentId: string) => Promise<boolean>;
   clearTournament: () => void;
   clearError: () => void;
 
@@ -99,6 +133,9 @@ interface TournamentState {
   fetchStandings: (tournamentId: string) => Promise<void>;
   clearStandings: () => void;
 
+  // Player stats actions
+  fetchPlayerStats: (tournamentId: string) => Promise<void>;
+
   // Upcoming matches actions
   fetchMyUpcomingMatches: () => Promise<void>;
 
@@ -124,6 +161,15 @@ interface TournamentState {
   deleteAnnouncement: (tournamentId: string, announcementId: string) => Promise<boolean>;
   clearAnnouncements: () => void;
 
+  // Game sheet actions
+  fetchGameSheet: (tournamentId: string, matchId: string) => Promise<void>;
+  saveGameSheet: (tournamentId: string, matchId: string, request: SaveGameSheetRequest) => Promise<SaveOutcome>;
+  clearGameSheet: () => void;
+
+  // Live match actions
+  updateMatchClock: (tournamentId: string, matchId: string, request: UpdateMatchClockRequest) => Promise<boolean>;
+  applyLiveMatchUpdate: (match: TournamentMatchDto) => void;
+
   // Lifecycle actions
   publishTournament: (tournamentId: string) => Promise<boolean>;
 }
@@ -134,6 +180,7 @@ export const useTournamentStore = create<TournamentState>((set, get) => ({
   currentTournament: null,
   teams: [],
   matches: [],
+  matchesCachedAt: null,
   isLoading: false,
   isCreating: false,
   processingId: null,
@@ -149,6 +196,13 @@ export const useTournamentStore = create<TournamentState>((set, get) => ({
   standings: [],
   playoffCutoff: null,
   tiedGroups: null,
+  tiebreakerOrder: parseTiebreakerOrder(null),
+  standingsCachedAt: null,
+
+  // Player stats state
+  playerStats: null,
+  isLoadingPlayerStats: false,
+  playerStatsCachedAt: null,
 
   // Upcoming matches state
   myUpcomingMatches: [],
@@ -171,6 +225,14 @@ export const useTournamentStore = create<TournamentState>((set, get) => ({
   isLoadingAnnouncements: false,
   isSendingAnnouncement: false,
 
+  // Game sheet state
+  gameSheet: null,
+  isLoadingGameSheet: false,
+
+  // Schedule draft state
+  scheduleDraft: null,
+  scheduleDraftSettings: null,
+
   // Fetch all tournaments
   fetchTournaments: async () => {
     set({ isLoading: true, error: null });
@@ -226,10 +288,14 @@ export const useTournamentStore = create<TournamentState>((set, get) => ({
     }
   },
 
-  // Fetch matches for a tournament
+  // Fetch matches for a tournament (falls back to the offline cache when unreachable)
   fetchMatches: async (tournamentId: string) => {
     try {
-      const matches = await tournamentService.getMatches(tournamentId);
+      const { data: matches, cachedAt } = await fetchWithCache(
+        cacheKeys.tournamentMatches(tournamentId),
+        () => tournamentService.getMatches(tournamentId)
+      );
+      useOfflineStore.getState().setOffline(cachedAt !== null);
       // Sort by round, then by matchNumber
       const sortedMatches = matches.sort((a, b) => {
         if (a.round !== b.round) {
@@ -237,7 +303,7 @@ export const useTournamentStore = create<TournamentState>((set, get) => ({
         }
         return a.matchNumber - b.matchNumber;
       });
-      set({ matches: sortedMatches });
+      set({ matches: sortedMatches, matchesCachedAt: cachedAt });
     } catch (error) {
       // Silently fail - matches might not exist yet (bracket not generated)
       console.log('Failed to fetch matches:', error);
@@ -295,7 +361,7 @@ export const useTournamentStore = create<TournamentState>((set, get) => ({
 
     // Prevent double-clicks
     if (processingId === matchId) {
-      return false;
+      return 'failed';
     }
 
     set({ processingId: matchId, error: null });
@@ -304,14 +370,25 @@ export const useTournamentStore = create<TournamentState>((set, get) => ({
       // Refresh matches after score entry (bracket may have advanced)
       await get().fetchMatches(tournamentId);
       set({ processingId: null });
-      return true;
+      return 'saved';
     } catch (error: any) {
+      // Offline: queue the score for replay on reconnect
+      if (isNetworkError(error)) {
+        await useOfflineStore.getState().enqueue({
+          kind: 'enterScore',
+          tournamentId,
+          matchId,
+          request: { homeScore, awayScore },
+        });
+        set({ processingId: null });
+        return 'queued';
+      }
       const errorMessage = error?.response?.data?.message || error?.message || 'Failed to enter score';
       set({
         processingId: null,
         error: errorMessage,
       });
-      return false;
+      return 'failed';
     }
   },
 
@@ -346,11 +423,65 @@ export const useTournamentStore = create<TournamentState>((set, get) => ({
     }
   },
 
+  // Build a schedule draft from the current matches (local only until published)
+  generateScheduleDraft: (settings: ScheduleSettings) => {
+    const { matches, currentTournament } = get();
+    const scheduleDraft = generateSchedule(matches, settings, {
+      balanceHomeAway: currentTournament?.format === 'RoundRobin',
+    });
+    set({ scheduleDraft, scheduleDraftSettings: settings });
+    return scheduleDraft;
+  },
+
+  // Swap two matches between their slots in the draft
+  swapScheduleDraftMatches: (matchIdA: string, matchIdB: string) => {
+    const { scheduleDraft } = get();
+    if (!scheduleDraft) return;
+    set({
+      scheduleDraft: { ...scheduleDraft, slots: swapScheduledMatches(scheduleDraft.slots, matchIdA, matchIdB) },
+    });
+  },
+
+  discardScheduleDraft: () => set({ scheduleDraft: null, scheduleDraftSettings: null }),
+
+  // Publish the draft - sets rink, time and home/away on every scheduled match
+  publishSchedule: async (tournamentId: string) => {
+    const { processingId, scheduleDraft } = get();
+
+    // Prevent double-clicks
+    if (!scheduleDraft || processingId === `schedule-${tournamentId}`) {
+      return false;
+    }
+
+    set({ processingId: `schedule-${tournamentId}`, error: null });
+    try {
+      const updatedMatches = await tournamentService.publishSchedule(tournamentId, { slots: scheduleDraft.slots });
+      // Sort matches by round, then matchNumber
+      const sortedMatches = updatedMatches.sort((a, b) => {
+        if (a.round !== b.round) {
+          return a.round - b.round;
+        }
+        return a.matchNumber - b.matchNumber;
+      });
+      set({ matches: sortedMatches, scheduleDraft: null, scheduleDraftSettings: null, processingId: null });
+      return true;
+    } catch (error: any) {
+      const errorMessage = error?.response?.data?.message || error?.message || 'Failed to publish schedule';
+      set({
+        processingId: null,
+        error: errorMessage,
+      });
+      return false;
+    }
+  },
+
   // Clear current tournament data (for cleanup on navigation)
   clearTournament: () => set({
     currentTournament: null,
     teams: [],
     matches: [],
+    scheduleDraft: null,
+    scheduleDraftSettings: null,
   }),
 
   // Clear error state
@@ -599,15 +730,33 @@ export const useTournamentStore = create<TournamentState>((set, get) => ({
     registrationError: null,
   }),
 
-  // Fetch standings for a tournament
+  // Fetch standings for a tournament (falls back to the offline cache when unreachable).
+  // The server ranks teams with the tournament's tiebreakerOrder; the order is kept
+  // alongside so the rules shown on screen match the ranking.
   fetchStandings: async (tournamentId: string) => {
     set({ isLoading: true, error: null });
     try {
-      const data = await tournamentService.getStandings(tournamentId);
+      const loadedTournament = get().currentTournament;
+      const [{ data, cachedAt }, tournament] = await Promise.all([
+        fetchWithCache(
+          cacheKeys.tournamentStandings(tournamentId),
+          () => tournamentService.getStandings(tournamentId)
+        ),
+        loadedTournament?.id === tournamentId
+          ? Promise.resolve(loadedTournament)
+          : fetchWithCache(
+              cacheKeys.tournament(tournamentId),
+              () => tournamentService.getById(tournamentId)
+            ).then((result) => result.data, () => null),
+      ]);
+      useOfflineStore.getState().setOffline(cachedAt !== null);
+
       set({
         standings: data.standings,
         playoffCutoff: data.playoffCutoff ?? null,
-        tiedGroups: data.tiedGroups ?? null,
+        tiedGroups: data.tiedGroups && data.tiedGroups.length > 0 ? data.tiedGroups : null,
+        tiebreakerOrder: parseTiebreakerOrder(tournament?.tiebreakerOrder),
+        standingsCachedAt: cachedAt,
         isLoading: false,
       });
     } catch (error) {
@@ -621,8 +770,27 @@ export const useTournamentStore = create<TournamentState>((set, get) => ({
     standings: [],
     playoffCutoff: null,
     tiedGroups: null,
+    standingsCachedAt: null,
+    playerStats: null,
+    playerStatsCachedAt: null,
   }),
 
+  // Fetch the player leaderboard (falls back to the offline cache when unreachable)
+  fetchPlayerStats: async (tournamentId: string) => {
+    set({ isLoadingPlayerStats: true });
+    try {
+      const { data, cachedAt } = await fetchWithCache(
+        cacheKeys.tournamentPlayerStats(tournamentId),
+        () => tournamentService.getPlayerStats(tournamentId)
+      );
+      useOfflineStore.getState().setOffline(cachedAt !== null);
+      set({ playerStats: data, playerStatsCachedAt: cachedAt, isLoadingPlayerStats: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to load player stats';
+      set({ error: message, isLoadingPlayerStats: false });
+    }
+  },
+
   // Fetch user's upcoming tournament matches
   fetchMyUpcomingMatches: async () => {
     set({ isFetchingUpcoming: true });
@@ -869,6 +1037,102 @@ export const useTournamentStore = create<TournamentState>((set, get) => ({
     isSendingAnnouncement: false,
   }),
 
+  // ============================================
+  // Game Sheet Actions
+  // ============================================
+
+  // Fetch the game sheet for a match (null until one is saved)
+  fetchGameSheet: async (tournamentId: string, matchId: string) => {
+    set({ isLoadingGameSheet: true });
+    try {
+      const gameSheet = await tournamentService.getGameSheet(tournamentId, matchId);
+      set({ gameSheet, isLoadingGameSheet: false });
+    } catch (error: any) {
+      // 404 is expected before anything has been recorded (ApiError carries the status)
+      if (error?.statusCode !== 404) {
+        console.error('Failed to fetch game sheet:', error);
+      }
+      set({ gameSheet: null, isLoadingGameSheet: false });
+    }
+  },
+
+  // Save the game sheet; a final sheet completes the match with the score derived from its goals
+  saveGameSheet: async (tournamentId: string, matchId: string, request: SaveGameSheetRequest) => {
+    const { processingId } = get();
+
+    // Prevent double-clicks
+    if (processingId === matchId) {
+      return 'failed';
+    }
+
+    set({ processingId: matchId, error: null });
+    try {
+      const gameSheet = await tournamentService.saveGameSheet(tournamentId, matchId, request);
+      set({ gameSheet });
+      // Refresh matches so the score shows everywhere (a final sheet may advance the bracket)
+      await get().fetchMatches(tournamentId);
+      set({ processingId: null });
+      return 'saved';
+    } catch (error: any) {
+      // Offline: queue the sheet for replay on reconnect
+      if (isNetworkError(error)) {
+        await useOfflineStore.getState().enqueue({ kind: 'saveGameSheet', tournamentId, matchId, request });
+        set({ processingId: null });
+        return 'queued';
+      }
+      const errorMessage = error?.response?.data?.message || error?.message || 'Failed to save game sheet';
+      set({
+        processingId: null,
+        error: errorMessage,
+      });
+      return 'failed';
+    }
+  },
+
+  // Clear game sheet state
+  clearGameSheet: () => set({ gameSheet: null, isLoadingGameSheet: false }),
+
+  // ============================================
+  // Live Match Actions
+  // ============================================
+
+  // Start, stop or reset the period clock; starting it moves a Scheduled match to InProgress
+  updateMatchClock: async (tournamentId: string, matchId: string, request: UpdateMatchClockRequest) => {
+    const { processingId } = get();
+
+    // Prevent double-clicks
+    if (processingId === `clock-${matchId}`) {
+      return false;
+    }
+
+    set({ processingId: `clock-${matchId}`, error: null });
+    try {
+      const match = await tournamentService.updateMatchClock(tournamentId, matchId, request);
+      get().applyLiveMatchUpdate(match);
+      set({ processingId: null });
+      return true;
+    } catch (error: any) {
+      // The clock is only meaningful in real time, so it is never queued offline
+      const errorMessage = isNetworkError(error)
+        ? "You're offline. The clock couldn't be updated."
+        : error?.response?.data?.message || error?.message || 'Failed to update the clock';
+      set({
+        processingId: null,
+        error: errorMessage,
+      });
+      return false;
+    }
+  },
+
+  // Merge a match pushed over the live channel (or returned by a live action) into the list
+  applyLiveMatchUpdate: (match: TournamentMatchDto) => {
+    const { matches } = get();
+    if (!matches.some((m) => m.id === match.id)) {
+      return;
+    }
+    set({ matches: matches.map((m) => (m.id === match.id ? match : m)) });
+  },
+
   // ============================================
   // Lifecycle Actions
   // ============================================
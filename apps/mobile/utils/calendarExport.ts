@@ -0,0 +1,24 @@
+import * as Sharing from 'expo-sharing';
+import { cacheDirectory, writeAsStringAsync, EncodingType } from 'expo-file-system/legacy';
+
+/**
+ * Write an .ics file to the cache directory and hand it to the share sheet,
+ * where the player picks Calendar (or Google Calendar, Outlook...)
+ */
+export async function shareIcsFile(filename: string, ics: string): Promise<void> {
+  const isAvailable = await Sharing.isAvailableAsync();
+  if (!isAvailable) {
+    throw new Error('Sharing is not available on this device');
+  }
+  if (!cacheDirectory) {
+    throw new Error('Unable to save the calendar file');
+  }
+
+  const fileUri = `${cacheDirectory}${filename}`;
+  await writeAsStringAsync(fileUri, ics, { encoding: EncodingType.UTF8 });
+  await Sharing.shareAsync(fileUri, {
+    mimeType: 'text/calendar',
+    UTI: 'com.apple.ical.ics',
+    dialogTitle: 'Add to Calendar',
+  });
+}
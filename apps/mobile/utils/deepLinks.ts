@@ -1,84 +1,42 @@
 import * as Linking from 'expo-linking';
 import { router } from 'expo-router';
+import { parseDeepLink, getDeepLinkAppPath } from '@bhmhockey/shared';
+import type { DeepLinkRoute } from '@bhmhockey/shared';
+import { useWaiverStore } from '../stores/waiverStore';
 
 /**
- * Deep link URL patterns:
- * - bhmhockey://tournament/{tournamentId}/team/{teamId}
- * - bhmhockey://tournament/{tournamentId}
- * - bhmhockey://organizations/{orgId}
+ * Deep links come in on the custom scheme (bhmhockey://events/{id}) or as
+ * https universal links on the app domain. Both share the route table in
+ * @bhmhockey/shared - see parseDeepLink for the supported paths.
  */
 
-interface DeepLinkData {
-  path: string;
-  queryParams?: Record<string, string>;
-}
-
 /**
- * Parse incoming deep link URL and extract path and params
+ * Navigate to a parsed route
  */
-export function parseDeepLink(url: string): DeepLinkData | null {
-  console.log('🔗 Parsing deep link:', url);
-
-  // Parse URL using expo-linking
-  const parsed = Linking.parse(url);
-  console.log('🔗 Parsed URL:', JSON.stringify(parsed, null, 2));
-
-  if (!parsed.path) {
-    console.log('🔗 No path found in deep link');
-    return null;
+export function navigateToRoute(route: DeepLinkRoute) {
+  const appPath = getDeepLinkAppPath(route);
+  console.log('🔗 Navigating to:', appPath);
+  router.push(appPath);
+
+  // Waiver links land on the org; the app-wide gate shows the waiver if it's unsigned
+  if (route.name === 'waiver') {
+    useWaiverStore.getState().fetchPendingWaivers();
   }
-
-  return {
-    path: parsed.path,
-    queryParams: parsed.queryParams as Record<string, string> | undefined,
-  };
 }
 
 /**
  * Handle deep link navigation
- * Maps deep link patterns to app routes
  */
 export function handleDeepLink(url: string) {
   console.log('🔗 handleDeepLink called with:', url);
 
-  const data = parseDeepLink(url);
-  if (!data) {
-    console.log('🔗 Could not parse deep link');
-    return;
-  }
-
-  const { path } = data;
-  console.log('🔗 Deep link path:', path);
-
-  // Match pattern: tournament/{tournamentId}/team/{teamId}
-  const tournamentTeamMatch = path.match(/^tournament\/([^/]+)\/team\/([^/]+)\/?$/);
-  if (tournamentTeamMatch) {
-    const [, tournamentId, teamId] = tournamentTeamMatch;
-    console.log('🔗 Navigating to tournament team:', { tournamentId, teamId });
-    router.push(`/tournaments/${tournamentId}/teams/${teamId}`);
-    return;
-  }
-
-  // Add more deep link patterns here as needed
-  // Example: tournament/{tournamentId}
-  const tournamentMatch = path.match(/^tournament\/([^/]+)\/?$/);
-  if (tournamentMatch) {
-    const [, tournamentId] = tournamentMatch;
-    console.log('🔗 Navigating to tournament:', tournamentId);
-    router.push(`/tournaments/${tournamentId}`);
-    return;
-  }
-
-  // Match pattern: organizations/{orgId}
-  const organizationMatch = path.match(/^organizations\/([^/]+)\/?$/);
-  if (organizationMatch) {
-    const [, orgId] = organizationMatch;
-    console.log('🔗 Navigating to organization:', orgId);
-    router.push(`/organizations/${orgId}`);
+  const route = parseDeepLink(url);
+  if (!route) {
+    console.log('🔗 No matching deep link route for:', url);
     return;
   }
 
-  console.log('🔗 No matching deep link pattern for path:', path);
+  navigateToRoute(route);
 }
 
 /**
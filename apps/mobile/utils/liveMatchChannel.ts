@@ -0,0 +1,86 @@
+import { authStorage } from '@bhmhockey/api-client';
+import type { LiveMatchEvent } from '@bhmhockey/shared';
+import { getWebSocketUrl } from '../config/api';
+
+/**
+ * Push channel for live tournament matches. The API sends a LiveMatchEvent
+ * whenever a match's clock, score or game sheet changes. The socket
+ * reconnects with backoff; callers poll while it is disconnected.
+ */
+
+const INITIAL_RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+
+export interface LiveMatchChannelHandlers {
+  onEvent: (event: LiveMatchEvent) => void;
+  onConnectionChange?: (isConnected: boolean) => void;
+}
+
+/**
+ * Open the live channel for a tournament. Returns a function that closes it
+ * for good (no more reconnects).
+ */
+export function openLiveMatchChannel(tournamentId: string, handlers: LiveMatchChannelHandlers): () => void {
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+  let isClosed = false;
+
+  const scheduleReconnect = () => {
+    if (isClosed || reconnectTimer) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  };
+
+  const connect = async () => {
+    const token = await authStorage.getToken();
+    if (isClosed) return;
+
+    // WebSocket handshakes can't carry an Authorization header on every
+    // platform, so the token goes in the query string as access_token
+    const path = `/tournaments/${tournamentId}/live`;
+    socket = new WebSocket(getWebSocketUrl(token ? `${path}?access_token=${encodeURIComponent(token)}` : path));
+
+    socket.onopen = () => {
+      reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+      handlers.onConnectionChange?.(true);
+    };
+
+    socket.onmessage = (message) => {
+      try {
+        const event = JSON.parse(String(message.data)) as LiveMatchEvent;
+        if (event.tournamentId === tournamentId) {
+          handlers.onEvent(event);
+        }
+      } catch (error) {
+        console.log('📡 [Live] Ignoring malformed message:', error);
+      }
+    };
+
+    socket.onerror = () => {
+      // onclose follows and handles the reconnect
+    };
+
+    socket.onclose = () => {
+      socket = null;
+      if (isClosed) return;
+      handlers.onConnectionChange?.(false);
+      scheduleReconnect();
+    };
+  };
+
+  connect();
+
+  return () => {
+    isClosed = true;
+    if (reconnectTimer) {
+      clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+    }
+    socket?.close();
+    socket = null;
+  };
+}
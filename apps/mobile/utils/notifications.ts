@@ -3,19 +3,45 @@ import * as Device from 'expo-device';
 import Constants from 'expo-constants';
 import { Platform, Alert } from 'react-native';
 import { userService } from '@bhmhockey/api-client';
-import { router } from 'expo-router';
+import {
+  WAITLIST_OFFERS,
+  getNotificationRoute,
+  getNotificationDelivery,
+  getOfferTimeRemaining,
+} from '@bhmhockey/shared';
+import type { NotificationType } from '@bhmhockey/shared';
 import { useEventStore } from '../stores/eventStore';
 import { useNotificationStore } from '../stores/notificationStore';
-
-// Configure how notifications are handled when app is in foreground
+import { useOrganizationStore } from '../stores/organizationStore';
+import { useChatStore, getChatThreadKey } from '../stores/chatStore';
+import { navigateToRoute } from './deepLinks';
+
+// Configure how notifications are handled when app is in foreground.
+// The server drops pushes for muted types and sends quiet-hours pushes without sound.
+// This re-checks against the cached preferences so a push that was already in flight
+// when preferences changed is presented the same way; mutes only match when the push
+// data carries the organizationId or tournamentId.
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: false,
-    shouldShowBanner: true,
-    shouldShowList: true,
-  }),
+  handleNotification: async (notification) => {
+    const data = notification.request.content.data as NotificationData | null;
+    const preferences = useNotificationStore.getState().preferences;
+    const delivery =
+      preferences && data?.type
+        ? getNotificationDelivery(preferences, {
+            type: data.type as NotificationType,
+            organizationId: data.organizationId,
+            tournamentId: data.tournamentId,
+          })
+        : 'send';
+
+    return {
+      shouldShowAlert: delivery === 'send',
+      shouldPlaySound: delivery === 'send',
+      shouldSetBadge: false,
+      shouldShowBanner: delivery === 'send',
+      shouldShowList: delivery !== 'skip',
+    };
+  },
 });
 
 /**
@@ -80,9 +106,36 @@ export async function registerForPushNotificationsAsync(): Promise<string | null
     });
   }
 
+  await registerNotificationCategoriesAsync();
+
   return token;
 }
 
+/**
+ * Register the action buttons shown on actionable pushes.
+ * Waitlist offers can be claimed or passed on straight from the notification.
+ * Both actions open the app: the response is only handled by JS listeners,
+ * so a background action would be lost while the app is killed.
+ */
+async function registerNotificationCategoriesAsync(): Promise<void> {
+  try {
+    await Notifications.setNotificationCategoryAsync(WAITLIST_OFFERS.NOTIFICATION_CATEGORY, [
+      {
+        identifier: WAITLIST_OFFERS.ACCEPT_ACTION,
+        buttonTitle: 'Claim Spot',
+        options: { opensAppToForeground: true },
+      },
+      {
+        identifier: WAITLIST_OFFERS.DECLINE_ACTION,
+        buttonTitle: 'Pass',
+        options: { opensAppToForeground: true, isDestructive: true },
+      },
+    ]);
+  } catch (error) {
+    console.error('🔔 Error registering notification categories:', error);
+  }
+}
+
 /**
  * Send the push token to the backend to save for the current user
  */
@@ -128,14 +181,15 @@ export async function getLastNotificationResponse(): Promise<Notifications.Notif
 interface NotificationData {
   type?: string;
   eventId?: string;
+  offerExpiresAt?: string;  // waitlist_offer pushes
   [key: string]: any;
 }
 
 /**
  * Handle notification data based on type
- * Called when user taps on a notification
+ * Called when user taps on a notification (or one of its action buttons)
  */
-export function handleNotificationData(data: NotificationData | null) {
+export function handleNotificationData(data: NotificationData | null, actionIdentifier?: string) {
   console.log('🔔 handleNotificationData called with:', JSON.stringify(data, null, 2));
 
   if (!data) {
@@ -149,50 +203,19 @@ export function handleNotificationData(data: NotificationData | null) {
   switch (data.type) {
     case 'waitlist_promoted':
       handlePromotedNotification(data);
-      break;
-
-    case 'waitlist_joined':
-    case 'waitlist_promotion':
-      // Organizer notifications - navigate to event detail (defaults to roster tab for organizers)
-      if (data.eventId) {
-        router.push(`/events/${data.eventId}`);
-      }
-      break;
-
-    case 'payment_reminder':
-    case 'game_reminder':
-      // Payment/game reminder - navigate to event detail
-      if (data.eventId) {
-        router.push(`/events/${data.eventId}`);
-      }
-      break;
-
-    case 'organizer_payment_reminder':
-      // Organizer payment reminder - navigate to event detail (defaults to roster tab for organizers)
-      if (data.eventId) {
-        router.push(`/events/${data.eventId}`);
-      }
-      break;
-
-    case 'new_event':
-      // Existing handler - navigate to event detail
-      if (data.eventId) {
-        console.log('🔔 Navigating to event:', `/events/${data.eventId}`);
-        router.push(`/events/${data.eventId}`);
-      } else {
-        console.log('🔔 new_event notification but no eventId');
-      }
-      break;
-
-    default:
-      console.log('🔔 Unknown notification type, checking for eventId');
-      // Unknown notification type - navigate to event if eventId present
-      if (data.eventId) {
-        console.log('🔔 Navigating to event (default):', `/events/${data.eventId}`);
-        router.push(`/events/${data.eventId}`);
-      } else {
-        console.log('🔔 No eventId in notification data');
-      }
+      return;
+
+    case 'waitlist_offer':
+      handleWaitlistOfferNotification(data, actionIdentifier);
+      return;
+  }
+
+  // Everything else opens its destination from the shared route table
+  const route = getNotificationRoute(data.type, data);
+  if (route) {
+    navigateToRoute(route);
+  } else {
+    console.log('🔔 No destination for notification type:', data.type);
   }
 }
 
@@ -208,11 +231,29 @@ export function handleForegroundNotification(data: NotificationData | null) {
 
   if (!data) return;
 
-  // For promotion notifications in foreground, refresh event data silently
-  if (data.type === 'waitlist_promoted' && data.eventId) {
+  // For promotion and offer notifications in foreground, refresh event data silently
+  const refreshesEvent =
+    data.type === 'waitlist_promoted' || data.type === 'waitlist_offer' || data.type === 'waitlist_offer_expired';
+  if (refreshesEvent && data.eventId) {
     useEventStore.getState().fetchEventById(data.eventId);
     useEventStore.getState().fetchMyRegistrations();
   }
+
+  // Keep an open organization feed current when a new announcement arrives
+  const { announcementsOrgId, fetchAnnouncements } = useOrganizationStore.getState();
+  if (data.type === 'organization_announcement' && data.organizationId && data.organizationId === announcementsOrgId) {
+    fetchAnnouncements(data.organizationId);
+  }
+
+  // Pull a mention into a thread that's already loaded instead of waiting for the next poll
+  if (data.type === 'chat_mention') {
+    const { threads, fetchLatest } = useChatStore.getState();
+    if (data.eventId && threads[getChatThreadKey('Event', data.eventId)]) {
+      fetchLatest('Event', data.eventId);
+    } else if (data.organizationId && threads[getChatThreadKey('Organization', data.organizationId)]) {
+      fetchLatest('Organization', data.organizationId);
+    }
+  }
 }
 
 /**
@@ -223,7 +264,7 @@ function handlePromotedNotification(data: NotificationData) {
   if (!data.eventId) return;
 
   // Navigate to event detail
-  router.push(`/events/${data.eventId}`);
+  navigateToRoute({ name: 'event', params: { eventId: data.eventId } });
 
   // Refresh event data after navigation completes
   setTimeout(() => {
@@ -239,3 +280,34 @@ function handlePromotedNotification(data: NotificationData) {
   );
 }
 
+/**
+ * Handle a waitlist offer notification
+ * The Claim Spot / Pass actions answer the offer directly; a plain tap opens the event.
+ * An action on a lapsed offer (e.g. replayed from a cold start) just opens the event.
+ */
+async function handleWaitlistOfferNotification(data: NotificationData, actionIdentifier?: string) {
+  if (!data.eventId) return;
+  const eventStore = useEventStore.getState();
+
+  if (getOfferTimeRemaining(data.offerExpiresAt) === 0) {
+    navigateToRoute({ name: 'event', params: { eventId: data.eventId } });
+    return;
+  }
+
+  if (actionIdentifier === WAITLIST_OFFERS.DECLINE_ACTION) {
+    await eventStore.declineWaitlistOffer(data.eventId);
+    return;
+  }
+
+  navigateToRoute({ name: 'event', params: { eventId: data.eventId } });
+
+  if (actionIdentifier === WAITLIST_OFFERS.ACCEPT_ACTION) {
+    const success = await eventStore.acceptWaitlistOffer(data.eventId);
+    Alert.alert(
+      success ? "You're In!" : 'Offer Unavailable',
+      success
+        ? 'You are on the roster. Pay the organizer before your payment deadline to keep your spot.'
+        : useEventStore.getState().error || 'This offer has expired.'
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+/**
+ * Persisted read cache for screens players open at the rink (event detail,
+ * roster, tournament schedule and standings). Each entry is the last response
+ * fetched online plus when it was fetched, shown as a "last updated" stamp
+ * while the device is offline.
+ */
+
+const CACHE_PREFIX = '@bhmhockey:cache:';
+
+export interface CachedValue<T> {
+  data: T;
+  cachedAt: string;  // ISO date string of the fetch that produced data
+}
+
+export interface CachedFetchResult<T> {
+  data: T;
+  cachedAt: string | null;  // null when data is fresh from the server
+}
+
+export const cacheKeys = {
+  currentUser: `${CACHE_PREFIX}currentUser`,
+  event: (eventId: string) => `${CACHE_PREFIX}event:${eventId}`,
+  eventRegistrations: (eventId: string) => `${CACHE_PREFIX}event:${eventId}:registrations`,
+  checkInPass: (eventId: string) => `${CACHE_PREFIX}event:${eventId}:checkInPass`,
+  tournament: (tournamentId: string) => `${CACHE_PREFIX}tournament:${tournamentId}`,
+  tournamentMatches: (tournamentId: string) => `${CACHE_PREFIX}tournament:${tournamentId}:matches`,
+  tournamentStandings: (tournamentId: string) => `${CACHE_PREFIX}tournament:${tournamentId}:standings`,
+  tournamentPlayerStats: (tournamentId: string) => `${CACHE_PREFIX}tournament:${tournamentId}:playerStats`,
+};
+
+/**
+ * True when the request never reached the server (ApiError.isNetworkError),
+ * as opposed to the server rejecting it
+ */
+export function isNetworkError(error: unknown): boolean {
+  return !!error && typeof error === 'object' && (error as { isNetworkError?: boolean }).isNetworkError === true;
+}
+
+export async function readCache<T>(key: string): Promise<CachedValue<T> | null> {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as CachedValue<T>) : null;
+  } catch (error) {
+    console.error('Error reading offline cache:', error);
+    return null;
+  }
+}
+
+export async function writeCache<T>(key: string, data: T): Promise<void> {
+  try {
+    const value: CachedValue<T> = { data, cachedAt: new Date().toISOString() };
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error('Error writing offline cache:', error);
+  }
+}
+
+/**
+ * Fetch from the server and cache the result. When the request fails because
+ * the device is offline, fall back to the last cached copy (cachedAt set).
+ * Server rejections and cache misses are rethrown unchanged.
+ */
+export async function fetchWithCache<T>(
+  key: string,
+  fetcher: () => Promise<T>
+): Promise<CachedFetchResult<T>> {
+  try {
+    const data = await fetcher();
+    await writeCache(key, data);
+    return { data, cachedAt: null };
+  } catch (error) {
+    if (!isNetworkError(error)) {
+      throw error;
+    }
+    const cached = await readCache<T>(key);
+    if (!cached) {
+      throw error;
+    }
+    return { data: cached.data, cachedAt: cached.cachedAt };
+  }
+}
+
+/**
+ * Remove every cached entry (on logout - the cache holds per-user data)
+ */
+export async function clearOfflineCache(): Promise<void> {
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const cacheEntries = keys.filter((key) => key.startsWith(CACHE_PREFIX));
+    if (cacheEntries.length > 0) {
+      await AsyncStorage.multiRemove(cacheEntries);
+    }
+  } catch (error) {
+    console.error('Error clearing offline cache:', error);
+  }
+}
@@ -0,0 +1,24 @@
+import * as Sharing from 'expo-sharing';
+import { cacheDirectory, writeAsStringAsync, EncodingType } from 'expo-file-system/legacy';
+
+/**
+ * Write a CSV to the cache directory and hand it to the share sheet
+ * (Mail, Files, Drive, AirDrop...)
+ */
+export async function shareCsvFile(filename: string, csv: string): Promise<void> {
+  const isAvailable = await Sharing.isAvailableAsync();
+  if (!isAvailable) {
+    throw new Error('Sharing is not available on this device');
+  }
+  if (!cacheDirectory) {
+    throw new Error('Unable to save the export file');
+  }
+
+  const fileUri = `${cacheDirectory}${filename}`;
+  await writeAsStringAsync(fileUri, csv, { encoding: EncodingType.UTF8 });
+  await Sharing.shareAsync(fileUri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: 'Export Registrations',
+  });
+}
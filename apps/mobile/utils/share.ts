@@ -1,11 +1,12 @@
 import { Share } from 'react-native';
+import { buildDeepLink } from '@bhmhockey/shared';
 import { APP_STORE_URLS } from '../config/appStoreUrls';
 
 export async function shareOrganizationInvite(
   orgId: string,
   orgName: string
 ): Promise<boolean> {
-  const deepLink = `bhmhockey://organizations/${orgId}`;
+  const deepLink = buildDeepLink({ name: 'organization', params: { organizationId: orgId } });
 
   const message = `Join ${orgName} on BHM Hockey!
 
@@ -33,7 +34,7 @@ export async function shareTournamentTeam(
   teamId: string,
   teamName: string
 ): Promise<boolean> {
-  const deepLink = `bhmhockey://tournament/${tournamentId}/team/${teamId}`;
+  const deepLink = buildDeepLink({ name: 'tournamentTeam', params: { tournamentId, teamId } });
 
   const message = `Check out ${teamName} in the ${tournamentName} tournament on BHM Hockey!
 
@@ -54,3 +55,27 @@ Already have the app? Just tap the link above!`;
     return false;
   }
 }
+
+export async function shareEventInviteLink(
+  eventTitle: string,
+  inviteUrl: string
+): Promise<boolean> {
+  const message = `You're invited to ${eventTitle} on BHM Hockey!
+
+1. Download the app:
+   - iPhone: ${APP_STORE_URLS.ios}
+   - Android: ${APP_STORE_URLS.android}
+
+2. After installing, tap this link to see the game and sign up:
+   ${inviteUrl}
+
+Already have the app? Just tap the link above!`;
+
+  try {
+    const result = await Share.share({ message });
+    return result.action === Share.sharedAction;
+  } catch (error) {
+    console.error('Error sharing event invite link:', error);
+    return false;
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * API Client Tests - Verifying the 401 handling refreshes the access token once,
+ * replays queued requests, and only logs out when the refresh itself fails.
+ */
+
+const mockSetItem = jest.fn<Promise<void>, [string, string]>(() => Promise.resolve());
+const mockGetItem = jest.fn<Promise<string | null>, [string]>(() => Promise.resolve(null));
+const mockRemoveItem = jest.fn<Promise<void>, [string]>(() => Promise.resolve());
+
+// Mock AsyncStorage before any imports
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  setItem: mockSetItem,
+  getItem: mockGetItem,
+  removeItem: mockRemoveItem,
+}));
+
+// Capture the response interceptor so tests can feed it errors directly
+let responseErrorHandler: (error: unknown) => Promise<unknown>;
+const mockRequest = jest.fn();
+const mockRefreshPost = jest.fn();
+
+jest.mock('axios', () => ({
+  create: jest.fn(() => ({
+    interceptors: {
+      request: { use: jest.fn() },
+      response: {
+        use: jest.fn((_onFulfilled, onRejected) => {
+          responseErrorHandler = onRejected;
+        }),
+      },
+    },
+    request: mockRequest,
+  })),
+  post: mockRefreshPost,
+}));
+
+// Import after mocking
+import { initializeApiClient } from '../src/client';
+
+const BASE_URL = 'http://localhost:5001/api';
+
+function make401(url: string, retried = false) {
+  return {
+    message: 'Request failed with status code 401',
+    config: { url, headers: {} as Record<string, string>, _retry: retried },
+    response: { status: 401, data: { message: 'Unauthorized' } },
+  };
+}
+
+function mockStoredRefreshToken(value: string | null) {
+  mockGetItem.mockImplementation((key: string) =>
+    Promise.resolve(key === '@bhmhockey:refreshToken' ? value : null)
+  );
+}
+
+describe('apiClient 401 handling', () => {
+  let onAuthError: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    onAuthError = jest.fn();
+    initializeApiClient({ baseURL: BASE_URL, onAuthError });
+  });
+
+  it('refreshes the token and replays the request with the new token', async () => {
+    mockStoredRefreshToken('stored-refresh');
+    mockRefreshPost.mockResolvedValueOnce({
+      data: { token: 'new-token', refreshToken: 'new-refresh', user: { id: '1' } },
+    });
+    mockRequest.mockResolvedValueOnce({ data: 'replayed' });
+
+    const result = await responseErrorHandler(make401('/events/1/register'));
+
+    expect(mockRefreshPost).toHaveBeenCalledWith(
+      `${BASE_URL}/auth/refresh`,
+      { refreshToken: 'stored-refresh' },
+      expect.any(Object)
+    );
+    expect(mockSetItem).toHaveBeenCalledWith('@bhmhockey:authToken', 'new-token');
+    expect(mockSetItem).toHaveBeenCalledWith('@bhmhockey:refreshToken', 'new-refresh');
+    expect(mockRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        url: '/events/1/register',
+        headers: { Authorization: 'Bearer new-token' },
+      })
+    );
+    expect(result).toEqual({ data: 'replayed' });
+    expect(onAuthError).not.toHaveBeenCalled();
+  });
+
+  it('queues concurrent 401s behind a single refresh call', async () => {
+    mockStoredRefreshToken('stored-refresh');
+    let resolveRefresh: (value: unknown) => void;
+    mockRefreshPost.mockReturnValueOnce(
+      new Promise((resolve) => {
+        resolveRefresh = resolve;
+      })
+    );
+    mockRequest.mockImplementation((config: { url: string }) =>
+      Promise.resolve({ data: config.url })
+    );
+
+    const first = responseErrorHandler(make401('/events'));
+    // Let the first handler read the refresh token and start the refresh
+    await new Promise((resolve) => setImmediate(resolve));
+    const second = responseErrorHandler(make401('/notifications'));
+
+    resolveRefresh!({ data: { token: 'new-token', refreshToken: 'new-refresh' } });
+
+    await expect(first).resolves.toEqual({ data: '/events' });
+    await expect(second).resolves.toEqual({ data: '/notifications' });
+    expect(mockRefreshPost).toHaveBeenCalledTimes(1);
+    expect(mockRequest).toHaveBeenCalledTimes(2);
+  });
+
+  it('logs out and rejects queued requests when the refresh fails', async () => {
+    mockStoredRefreshToken('stored-refresh');
+    let rejectRefresh: (reason: unknown) => void;
+    mockRefreshPost.mockReturnValueOnce(
+      new Promise((_resolve, reject) => {
+        rejectRefresh = reject;
+      })
+    );
+
+    const first = responseErrorHandler(make401('/events'));
+    await new Promise((resolve) => setImmediate(resolve));
+    const second = responseErrorHandler(make401('/notifications'));
+
+    rejectRefresh!(new Error('Refresh rejected'));
+
+    await expect(first).rejects.toEqual(expect.objectContaining({ statusCode: 401 }));
+    await expect(second).rejects.toEqual(expect.objectContaining({ statusCode: 401 }));
+    expect(mockRemoveItem).toHaveBeenCalledWith('@bhmhockey:authToken');
+    expect(mockRemoveItem).toHaveBeenCalledWith('@bhmhockey:refreshToken');
+    expect(onAuthError).toHaveBeenCalledTimes(1);
+    expect(mockRequest).not.toHaveBeenCalled();
+  });
+
+  it('keeps the session when the refresh cannot reach the server', async () => {
+    mockStoredRefreshToken('stored-refresh');
+    mockRefreshPost.mockRejectedValueOnce({ isAxiosError: true, message: 'Network Error' });
+
+    await expect(responseErrorHandler(make401('/users/me'))).rejects.toEqual(
+      expect.objectContaining({ message: 'Network Error', isNetworkError: true })
+    );
+
+    expect(mockRemoveItem).not.toHaveBeenCalled();
+    expect(onAuthError).not.toHaveBeenCalled();
+    expect(mockRequest).not.toHaveBeenCalled();
+  });
+
+  it('logs out without calling refresh when no refresh token is stored', async () => {
+    mockStoredRefreshToken(null);
+
+    await expect(responseErrorHandler(make401('/users/me'))).rejects.toEqual(
+      expect.objectContaining({ statusCode: 401, message: 'Unauthorized' })
+    );
+
+    expect(mockRefreshPost).not.toHaveBeenCalled();
+    expect(onAuthError).toHaveBeenCalledTimes(1);
+  });
+
+  it('logs out when a replayed request is rejected again', async () => {
+    await expect(responseErrorHandler(make401('/users/me', true))).rejects.toEqual(
+      expect.objectContaining({ statusCode: 401 })
+    );
+
+    expect(mockRefreshPost).not.toHaveBeenCalled();
+    expect(onAuthError).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not refresh or log out on bad login credentials', async () => {
+    await expect(responseErrorHandler(make401('/auth/login'))).rejects.toEqual(
+      expect.objectContaining({ statusCode: 401 })
+    );
+
+    expect(mockRefreshPost).not.toHaveBeenCalled();
+    expect(mockRemoveItem).not.toHaveBeenCalled();
+    expect(onAuthError).not.toHaveBeenCalled();
+  });
+
+  it('passes non-401 errors through as ApiError', async () => {
+    await expect(
+      responseErrorHandler({
+        message: 'Request failed',
+        config: { url: '/events', headers: {} },
+        response: { status: 400, data: { message: 'Event is full' } },
+      })
+    ).rejects.toEqual({
+      message: 'Event is full',
+      statusCode: 400,
+      errors: undefined,
+      isNetworkError: false,
+    });
+
+    expect(mockRefreshPost).not.toHaveBeenCalled();
+  });
+
+  it('flags requests that never got a response as network errors', async () => {
+    await expect(
+      responseErrorHandler({
+        message: 'Network Error',
+        config: { url: '/events', headers: {} },
+      })
+    ).rejects.toEqual(
+      expect.objectContaining({ message: 'Network Error', isNetworkError: true })
+    );
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * ChatService Tests - Verifying the API client hits the right thread endpoints
+ * and passes the pagination cursor through.
+ */
+
+// Mock AsyncStorage before any imports
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  setItem: jest.fn(() => Promise.resolve()),
+  getItem: jest.fn(() => Promise.resolve(null)),
+  removeItem: jest.fn(() => Promise.resolve()),
+}));
+
+// Store axios mock functions
+const mockPost = jest.fn();
+const mockGet = jest.fn();
+const mockDelete = jest.fn();
+
+// Mock axios
+jest.mock('axios', () => ({
+  create: jest.fn(() => ({
+    interceptors: {
+      request: { use: jest.fn() },
+      response: { use: jest.fn() },
+    },
+    post: mockPost,
+    get: mockGet,
+    delete: mockDelete,
+  })),
+}));
+
+// Import after mocking
+import { chatService } from '../../src/services/chat';
+import { initializeApiClient } from '../../src/client';
+
+const mockMessage = {
+  id: 'msg-1',
+  threadType: 'Event',
+  threadId: 'event-1',
+  senderUserId: 'user-1',
+  senderFirstName: 'Test',
+  senderLastName: 'User',
+  body: 'Who has the pucks?',
+  mentionedUserIds: [],
+  isPinned: false,
+  pinnedAt: null,
+  createdAt: '2026-10-01T00:00:00Z',
+};
+
+describe('chatService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    initializeApiClient({ baseURL: 'http://localhost:5001/api' });
+  });
+
+  describe('getMessages', () => {
+    it('fetches an event thread page with the cursor', async () => {
+      const page = { messages: [mockMessage], pinnedMessages: [], nextCursor: 'cursor-2' };
+      mockGet.mockResolvedValueOnce({ data: page });
+
+      const result = await chatService.getMessages('Event', 'event-1', { before: 'cursor-1', limit: 30 });
+
+      expect(mockGet).toHaveBeenCalledWith('/events/event-1/chat/messages', {
+        params: { before: 'cursor-1', limit: 30 },
+      });
+      expect(result).toEqual(page);
+    });
+
+    it('fetches an organization thread', async () => {
+      mockGet.mockResolvedValueOnce({ data: { messages: [], pinnedMessages: [], nextCursor: null } });
+
+      await chatService.getMessages('Organization', 'org-1');
+
+      expect(mockGet).toHaveBeenCalledWith('/organizations/org-1/chat/messages', { params: undefined });
+    });
+  });
+
+  describe('sendMessage', () => {
+    it('posts the body and mentions to the thread', async () => {
+      mockPost.mockResolvedValueOnce({ data: mockMessage });
+      const request = { body: '@Jo Park bring pucks', mentionedUserIds: ['user-2'] };
+
+      const result = await chatService.sendMessage('Event', 'event-1', request);
+
+      expect(mockPost).toHaveBeenCalledWith('/events/event-1/chat/messages', request);
+      expect(result).toEqual(mockMessage);
+    });
+  });
+
+  describe('pinning', () => {
+    it('pins and unpins by message id', async () => {
+      mockPost.mockResolvedValueOnce({ data: { ...mockMessage, isPinned: true } });
+      mockDelete.mockResolvedValueOnce({ data: mockMessage });
+
+      const pinned = await chatService.pinMessage('msg-1');
+      const unpinned = await chatService.unpinMessage('msg-1');
+
+      expect(mockPost).toHaveBeenCalledWith('/chat/messages/msg-1/pin');
+      expect(mockDelete).toHaveBeenCalledWith('/chat/messages/msg-1/pin');
+      expect(pinned.isPinned).toBe(true);
+      expect(unpinned.isPinned).toBe(false);
+    });
+  });
+
+  describe('deleteMessage', () => {
+    it('deletes the message by id', async () => {
+      mockDelete.mockResolvedValueOnce({});
+
+      await chatService.deleteMessage('msg-1');
+
+      expect(mockDelete).toHaveBeenCalledWith('/chat/messages/msg-1');
+    });
+  });
+});
@@ -56,6 +56,30 @@ describe('eventService waitlist visibility & payment', () => {
     });
   });
 
+  describe('createSeries', () => {
+    it('posts the recurrence and generated dates to the series endpoint', async () => {
+      const request = {
+        organizationId: 'org-1',
+        maxPlayers: 20,
+        cost: 15,
+        applyAutoRoster: true,
+        recurrence: {
+          frequency: 'Weekly' as const,
+          startDate: '2026-11-05',
+          startTime: '21:30',
+          occurrences: 2,
+        },
+        eventDates: ['2026-11-06T02:30:00.000Z', '2026-11-13T02:30:00.000Z'],
+      };
+      mockPost.mockResolvedValueOnce({ data: { id: 'series-1', events: [] } });
+
+      const result = await eventService.createSeries(request);
+
+      expect(mockPost).toHaveBeenCalledWith('/events/series', request);
+      expect(result.id).toBe('series-1');
+    });
+  });
+
   describe('update', () => {
     it('passes showWaitlistBeforePublish through to the update endpoint', async () => {
       mockPut.mockResolvedValueOnce({ data: { id: 'event-1' } });
@@ -66,6 +90,17 @@ describe('eventService waitlist visibility & payment', () => {
         showWaitlistBeforePublish: false,
       });
     });
+
+    it('passes the series edit scope through', async () => {
+      mockPut.mockResolvedValueOnce({ data: { id: 'event-1' } });
+
+      await eventService.update('event-1', { venue: 'Rink B', applyTo: 'ThisAndFuture' });
+
+      expect(mockPut).toHaveBeenCalledWith('/events/event-1', {
+        venue: 'Rink B',
+        applyTo: 'ThisAndFuture',
+      });
+    });
   });
 
   describe('markPayment', () => {
@@ -130,3 +165,69 @@ describe('eventService waitlist visibility & payment', () => {
     });
   });
 });
+
+describe('eventService invitations', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    initializeApiClient({ baseURL: 'http://localhost:5001/api' });
+  });
+
+  describe('inviteOrganizationMembers', () => {
+    it('posts the skill level filter to the org members endpoint', async () => {
+      mockPost.mockResolvedValueOnce({ data: { invitedCount: 12 } });
+
+      const result = await eventService.inviteOrganizationMembers('event-1', { skillLevels: ['Gold'] });
+
+      expect(mockPost).toHaveBeenCalledWith('/events/event-1/invites/organization-members', {
+        skillLevels: ['Gold'],
+      });
+      expect(result.invitedCount).toBe(12);
+    });
+  });
+
+  describe('createInviteLink', () => {
+    it('posts the expiry to the invite links endpoint', async () => {
+      mockPost.mockResolvedValueOnce({ data: { id: 'link-1', token: 'abc' } });
+
+      await eventService.createInviteLink('event-1', { expiresInHours: 72 });
+
+      expect(mockPost).toHaveBeenCalledWith('/events/event-1/invite-links', { expiresInHours: 72 });
+    });
+  });
+
+  describe('redeemInviteLink', () => {
+    it('returns the event for a valid link', async () => {
+      mockPost.mockResolvedValueOnce({ data: { id: 'event-1' } });
+
+      const event = await eventService.redeemInviteLink('abc');
+
+      expect(mockPost).toHaveBeenCalledWith('/invite-links/abc/redeem');
+      expect(event.id).toBe('event-1');
+    });
+
+    it('rejects expired links with a clear message', async () => {
+      mockPost.mockRejectedValueOnce({ message: 'Gone', statusCode: 410 });
+
+      await expect(eventService.redeemInviteLink('abc')).rejects.toEqual({
+        message: 'This invite link has expired. Ask the organizer for a new one.',
+        statusCode: 410,
+      });
+    });
+
+    it('rejects revoked links with a clear message', async () => {
+      mockPost.mockRejectedValueOnce({ message: 'Not Found', statusCode: 404 });
+
+      await expect(eventService.redeemInviteLink('abc')).rejects.toEqual({
+        message: 'This invite link is no longer valid. The organizer may have revoked it.',
+        statusCode: 404,
+      });
+    });
+
+    it('passes other errors through unchanged', async () => {
+      const apiError = { message: 'An error occurred', statusCode: 500 };
+      mockPost.mockRejectedValueOnce(apiError);
+
+      await expect(eventService.redeemInviteLink('abc')).rejects.toBe(apiError);
+    });
+  });
+});
@@ -210,3 +210,75 @@ describe('organizationService waivers', () => {
     });
   });
 });
+
+const mockAnnouncement = {
+  id: 'ann-1',
+  organizationId: 'org-1',
+  title: 'Ice time moved',
+  body: 'Thursday skate starts at 9:30 this week.',
+  target: 'EventRegistrants',
+  targetEventId: 'event-1',
+  targetEventName: 'Thursday Skate',
+  createdByUserId: 'user-1',
+  createdByFirstName: 'Test',
+  createdByLastName: 'User',
+  createdAt: '2026-10-01T00:00:00Z',
+  updatedAt: null,
+};
+
+describe('organizationService announcements', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    initializeApiClient({ baseURL: 'http://localhost:5001/api' });
+  });
+
+  describe('getAnnouncements', () => {
+    it('fetches announcements from the correct endpoint', async () => {
+      mockGet.mockResolvedValueOnce({ data: [mockAnnouncement] });
+
+      const result = await organizationService.getAnnouncements('org-1');
+
+      expect(mockGet).toHaveBeenCalledWith('/organizations/org-1/announcements');
+      expect(result).toEqual([mockAnnouncement]);
+    });
+  });
+
+  describe('createAnnouncement', () => {
+    it('posts the title, body and target', async () => {
+      mockPost.mockResolvedValueOnce({ data: mockAnnouncement });
+      const request = {
+        title: 'Ice time moved',
+        body: 'Thursday skate starts at 9:30 this week.',
+        target: 'EventRegistrants' as const,
+        targetEventId: 'event-1',
+      };
+
+      const result = await organizationService.createAnnouncement('org-1', request);
+
+      expect(mockPost).toHaveBeenCalledWith('/organizations/org-1/announcements', request);
+      expect(result).toEqual(mockAnnouncement);
+    });
+  });
+
+  describe('updateAnnouncement', () => {
+    it('puts the edited fields to the announcement', async () => {
+      const updated = { ...mockAnnouncement, body: 'Back to 9:00.', updatedAt: '2026-10-02T00:00:00Z' };
+      mockPut.mockResolvedValueOnce({ data: updated });
+
+      const result = await organizationService.updateAnnouncement('org-1', 'ann-1', { body: 'Back to 9:00.' });
+
+      expect(mockPut).toHaveBeenCalledWith('/organizations/org-1/announcements/ann-1', { body: 'Back to 9:00.' });
+      expect(result).toEqual(updated);
+    });
+  });
+
+  describe('deleteAnnouncement', () => {
+    it('deletes the announcement by id', async () => {
+      mockDelete.mockResolvedValueOnce({});
+
+      await organizationService.deleteAnnouncement('org-1', 'ann-1');
+
+      expect(mockDelete).toHaveBeenCalledWith('/organizations/org-1/announcements/ann-1');
+    });
+  });
+});
@@ -1,6 +1,6 @@
-import axios, { AxiosInstance, AxiosError } from 'axios';
+import axios, { AxiosInstance, AxiosError, InternalAxiosRequestConfig } from 'axios';
 import { authStorage } from './storage/auth';
-import type { ApiError } from '@bhmhockey/shared';
+import type { ApiError, AuthResponse, RefreshTokenRequest } from '@bhmhockey/shared';
 
 let apiInstance: AxiosInstance | null = null;
 
@@ -9,6 +9,86 @@ interface ApiClientConfig {
   onAuthError?: () => void;
 }
 
+// Request config flagged once it has been replayed after a token refresh,
+// so a second 401 logs out instead of looping
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
+// Endpoints whose 401s mean bad credentials, not an expired access token
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/change-password'];
+
+// Requests that hit a 401 while a refresh is in flight wait here and are
+// replayed (or rejected) once the single refresh call settles
+type PendingRequest = {
+  resolve: (token: string) => void;
+  reject: (error: unknown) => void;
+};
+
+let refreshPromise: Promise<string> | null = null;
+let pendingRequests: PendingRequest[] = [];
+
+function flushPendingRequests(error: unknown, token: string | null): void {
+  pendingRequests.forEach(({ resolve, reject }) => {
+    if (token) {
+      resolve(token);
+    } else {
+      reject(error);
+    }
+  });
+  pendingRequests = [];
+}
+
+/**
+ * Exchange the stored refresh token for a new token pair.
+ * Uses a bare axios call so the refresh itself never runs through the
+ * instance interceptors (a 401 here must not trigger another refresh).
+ */
+async function refreshAccessToken(baseURL: string): Promise<string> {
+  const refreshToken = await authStorage.getRefreshToken();
+  if (!refreshToken) {
+    throw new Error('No refresh token available');
+  }
+
+  const request: RefreshTokenRequest = { refreshToken };
+  const response = await axios.post<AuthResponse>(`${baseURL}/auth/refresh`, request, {
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+  await authStorage.setToken(response.data.token);
+  await authStorage.setRefreshToken(response.data.refreshToken);
+  return response.data.token;
+}
+
+function isAuthEndpoint(url?: string): boolean {
+  return !!url && AUTH_ENDPOINTS.some((endpoint) => url.includes(endpoint));
+}
+
+/**
+ * True when an axios call never got a response (device offline, server
+ * unreachable) - a refresh failing this way says nothing about the session
+ */
+function isUnreachable(error: unknown): error is AxiosError<ApiError> {
+  return (
+    !!error &&
+    typeof error === 'object' &&
+    (error as AxiosError).isAxiosError === true &&
+    !(error as AxiosError).response
+  );
+}
+
+/**
+ * Transform an axios error into the ApiError shape callers handle
+ */
+function toApiError(error: AxiosError<ApiError>): ApiError {
+  return {
+    message: error.response?.data?.message || error.message || 'An error occurred',
+    statusCode: error.response?.status || 500,
+    errors: error.response?.data?.errors,
+    isNetworkError: !error.response,
+  };
+}
+
 /**
  * Initialize the API client with configuration
  */
@@ -20,6 +100,8 @@ export function initializeApiClient(config: ApiClientConfig): void {
       'Content-Type': 'application/json',
     },
   });
+  refreshPromise = null;
+  pendingRequests = [];
 
   // Request interceptor to add auth token
   apiInstance.interceptors.request.use(
@@ -37,20 +119,58 @@ export function initializeApiClient(config: ApiClientConfig): void {
   apiInstance.interceptors.response.use(
     (response) => response,
     async (error: AxiosError<ApiError>) => {
-      // Handle 401 unauthorized
-      if (error.response?.status === 401) {
+      const originalRequest = error.config as RetryableRequestConfig | undefined;
+
+      // Handle 401 unauthorized: refresh once, replay, and only log out when
+      // the refresh itself fails
+      if (
+        error.response?.status === 401 &&
+        originalRequest &&
+        !originalRequest._retry &&
+        !isAuthEndpoint(originalRequest.url)
+      ) {
+        originalRequest._retry = true;
+
+        // A refresh is already running - queue until it settles
+        if (refreshPromise) {
+          return new Promise<string>((resolve, reject) => {
+            pendingRequests.push({ resolve, reject });
+          }).then(
+            (token) => {
+              originalRequest.headers.Authorization = `Bearer ${token}`;
+              return getApiClient().request(originalRequest);
+            },
+            (refreshError) =>
+              Promise.reject(toApiError(isUnreachable(refreshError) ? refreshError : error))
+          );
+        }
+
+        refreshPromise = refreshAccessToken(config.baseURL);
+        try {
+          const token = await refreshPromise;
+          flushPendingRequests(null, token);
+          originalRequest.headers.Authorization = `Bearer ${token}`;
+          return getApiClient().request(originalRequest);
+        } catch (refreshError) {
+          flushPendingRequests(refreshError, null);
+          if (isUnreachable(refreshError)) {
+            // Offline, not signed out - keep the tokens and retry the refresh
+            // on the next 401 once the device reconnects
+            return Promise.reject(toApiError(refreshError));
+          }
+          console.log('🔒 Token refresh failed - logging out');
+          await authStorage.removeToken();
+          config.onAuthError?.();
+        } finally {
+          refreshPromise = null;
+        }
+      } else if (error.response?.status === 401 && !isAuthEndpoint(originalRequest?.url)) {
+        // Replayed request was still rejected - the new token is no good either
         await authStorage.removeToken();
         config.onAuthError?.();
       }
 
-      // Transform error response
-      const apiError: ApiError = {
-        message: error.response?.data?.message || error.message || 'An error occurred',
-        statusCode: error.response?.status || 500,
-        errors: error.response?.data?.errors,
-      };
-
-      return Promise.reject(apiError);
+      return Promise.reject(toApiError(error));
     }
   );
 
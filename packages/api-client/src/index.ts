@@ -9,6 +9,9 @@ export { eventService } from './services/events';
 export { notificationService } from './services/notifications';
 export { tournamentService } from './services/tournaments';
 export { adminService } from './services/admin';
+export { subRequestService } from './services/subRequests';
+export { registrationTransferService } from './services/registrationTransfers';
+export { chatService } from './services/chat';
 
 // Export storage
 export { authStorage } from './storage/auth';
@@ -1,4 +1,18 @@
-import type { AdminPasswordResetResponse, AdminUserSearchResult, AdminStatsResponse, AdminUpdateRoleResponse, UserRole } from '@bhmhockey/shared';
+import type {
+  AdminPasswordResetResponse,
+  AdminUserSearchResult,
+  AdminStatsResponse,
+  AdminUpdateRoleResponse,
+  UserRole,
+  BadgeTypeDto,
+  CreateBadgeTypeRequest,
+  UserBadgeDto,
+  AwardBadgeRequest,
+  BadgeRuleDto,
+  CreateBadgeRuleRequest,
+  UpdateBadgeRuleRequest,
+  ApplyBadgeRuleResponse,
+} from '@bhmhockey/shared';
 import { apiClient } from '../client';
 
 /**
@@ -45,4 +59,75 @@ export const adminService = {
     );
     return response.data;
   },
+
+  /**
+   * Get all badge types
+   */
+  async getBadgeTypes(): Promise<BadgeTypeDto[]> {
+    const response = await apiClient.instance.get<BadgeTypeDto[]>('/auth/admin/badge-types');
+    return response.data;
+  },
+
+  /**
+   * Create a badge type (admin only)
+   */
+  async createBadgeType(request: CreateBadgeTypeRequest): Promise<BadgeTypeDto> {
+    const response = await apiClient.instance.post<BadgeTypeDto>('/auth/admin/badge-types', request);
+    return response.data;
+  },
+
+  /**
+   * Award a badge to a user (admin only)
+   * The badge starts uncelebrated, so the user sees the celebration next time they open the app
+   */
+  async awardBadge(request: AwardBadgeRequest): Promise<UserBadgeDto> {
+    const response = await apiClient.instance.post<UserBadgeDto>('/auth/admin/badges', request);
+    return response.data;
+  },
+
+  /**
+   * Revoke a user's badge (admin only)
+   */
+  async revokeBadge(userBadgeId: string): Promise<void> {
+    await apiClient.instance.delete(`/auth/admin/badges/${userBadgeId}`);
+  },
+
+  /**
+   * Get all automatic badge rules
+   */
+  async getBadgeRules(): Promise<BadgeRuleDto[]> {
+    const response = await apiClient.instance.get<BadgeRuleDto[]>('/auth/admin/badge-rules');
+    return response.data;
+  },
+
+  /**
+   * Create an automatic badge rule (admin only)
+   */
+  async createBadgeRule(request: CreateBadgeRuleRequest): Promise<BadgeRuleDto> {
+    const response = await apiClient.instance.post<BadgeRuleDto>('/auth/admin/badge-rules', request);
+    return response.data;
+  },
+
+  /**
+   * Update a rule's threshold or turn it on/off (admin only)
+   */
+  async updateBadgeRule(ruleId: string, request: UpdateBadgeRuleRequest): Promise<BadgeRuleDto> {
+    const response = await apiClient.instance.put<BadgeRuleDto>(`/auth/admin/badge-rules/${ruleId}`, request);
+    return response.data;
+  },
+
+  /**
+   * Delete a rule (admin only). Badges it already awarded are kept.
+   */
+  async deleteBadgeRule(ruleId: string): Promise<void> {
+    await apiClient.instance.delete(`/auth/admin/badge-rules/${ruleId}`);
+  },
+
+  /**
+   * Run a rule against every player now, awarding anyone who already qualifies
+   */
+  async applyBadgeRule(ruleId: string): Promise<ApplyBadgeRuleResponse> {
+    const response = await apiClient.instance.post<ApplyBadgeRuleResponse>(`/auth/admin/badge-rules/${ruleId}/apply`);
+    return response.data;
+  },
 };
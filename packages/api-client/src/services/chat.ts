@@ -0,0 +1,70 @@
+import type {
+  ChatMessageDto,
+  ChatMessagePageDto,
+  ChatThreadType,
+  SendChatMessageRequest,
+} from '@bhmhockey/shared';
+import { apiClient } from '../client';
+
+export interface GetChatMessagesParams {
+  before?: string;  // nextCursor from the previous page
+  limit?: number;
+}
+
+const threadPath = (threadType: ChatThreadType, threadId: string): string =>
+  threadType === 'Event'
+    ? `/events/${threadId}/chat/messages`
+    : `/organizations/${threadId}/chat/messages`;
+
+/**
+ * Chat service - in-app event and organization chat. Event threads are open to
+ * registered and waitlisted players, organization threads to members.
+ */
+export const chatService = {
+  /**
+   * Get a page of a thread's history, newest first, with its pinned messages
+   */
+  async getMessages(
+    threadType: ChatThreadType,
+    threadId: string,
+    params?: GetChatMessagesParams
+  ): Promise<ChatMessagePageDto> {
+    const response = await apiClient.instance.get<ChatMessagePageDto>(threadPath(threadType, threadId), { params });
+    return response.data;
+  },
+
+  /**
+   * Post a message. Mentioned users get a push notification.
+   */
+  async sendMessage(
+    threadType: ChatThreadType,
+    threadId: string,
+    request: SendChatMessageRequest
+  ): Promise<ChatMessageDto> {
+    const response = await apiClient.instance.post<ChatMessageDto>(threadPath(threadType, threadId), request);
+    return response.data;
+  },
+
+  /**
+   * Pin a message to the top of its thread (organizers only)
+   */
+  async pinMessage(messageId: string): Promise<ChatMessageDto> {
+    const response = await apiClient.instance.post<ChatMessageDto>(`/chat/messages/${messageId}/pin`);
+    return response.data;
+  },
+
+  /**
+   * Unpin a message (organizers only)
+   */
+  async unpinMessage(messageId: string): Promise<ChatMessageDto> {
+    const response = await apiClient.instance.delete<ChatMessageDto>(`/chat/messages/${messageId}/pin`);
+    return response.data;
+  },
+
+  /**
+   * Delete a message (its sender or an organizer)
+   */
+  async deleteMessage(messageId: string): Promise<void> {
+    await apiClient.instance.delete(`/chat/messages/${messageId}`);
+  },
+};
@@ -2,6 +2,8 @@ import type {
   EventDto,
   EventRegistrationDto,
   CreateEventRequest,
+  CreateEventSeriesRequest,
+  EventSeriesDto,
   UpdateEventRequest,
   MarkPaymentRequest,
   UpdatePaymentStatusRequest,
@@ -19,10 +21,37 @@ import type {
   UserSearchResultDto,
   AddUserToEventRequest,
   CreateGhostPlayerRequest,
-  UpdateGhostPlayerRequest
+  UpdateGhostPlayerRequest,
+  AttendanceItem,
+  CheckInPassDto,
+  CheckInItem,
+  CheckInResultDto,
+  InvitePlayersRequest,
+  EventInvitationDto,
+  InviteOrganizationMembersRequest,
+  InviteOrganizationMembersResponse,
+  EventInviteLinkDto,
+  CreateEventInviteLinkRequest,
+  ApiError
 } from '@bhmhockey/shared';
 import { apiClient } from '../client';
 
+/**
+ * Replace the server's generic message for dead invite links with one the
+ * player can act on. The server answers 410 for expired links and 404 for
+ * revoked or unknown tokens.
+ */
+function toInviteLinkError(error: unknown): unknown {
+  const apiError = error as Partial<ApiError> | undefined;
+  if (apiError?.statusCode === 410) {
+    return { ...apiError, message: 'This invite link has expired. Ask the organizer for a new one.' };
+  }
+  if (apiError?.statusCode === 404) {
+    return { ...apiError, message: 'This invite link is no longer valid. The organizer may have revoked it.' };
+  }
+  return error;
+}
+
 /**
  * Event service - uses EventDto which includes computed fields (registeredCount, isRegistered, organizationName)
  */
@@ -53,7 +82,16 @@ export const eventService = {
   },
 
   /**
-   * Update event
+   * Create a recurring series - one event per date in eventDates, each with
+   * the org's auto-roster applied when applyAutoRoster is set
+   */
+  async createSeries(data: CreateEventSeriesRequest): Promise<EventSeriesDto> {
+    const response = await apiClient.instance.post<EventSeriesDto>('/events/series', data);
+    return response.data;
+  },
+
+  /**
+   * Update event (set applyTo: 'ThisAndFuture' to also update later games in its series)
    */
   async update(id: string, data: UpdateEventRequest): Promise<EventDto> {
     const response = await apiClient.instance.put<EventDto>(`/events/${id}`, data);
@@ -86,6 +124,22 @@ export const eventService = {
     await apiClient.instance.delete(`/events/${eventId}/register`);
   },
 
+  /**
+   * Accept the current user's open waitlist offer - moves them onto the roster
+   * (their payment deadline starts now on paid events)
+   */
+  async acceptWaitlistOffer(eventId: string): Promise<void> {
+    await apiClient.instance.post(`/events/${eventId}/waitlist-offer/accept`);
+  },
+
+  /**
+   * Decline the current user's open waitlist offer - the offer cascades to the
+   * next waitlisted player and the user keeps their waitlist spot
+   */
+  async declineWaitlistOffer(eventId: string): Promise<void> {
+    await apiClient.instance.post(`/events/${eventId}/waitlist-offer/decline`);
+  },
+
   /**
    * Get event registrations (attendee list)
    */
@@ -147,14 +201,56 @@ export const eventService = {
 
   /**
    * Remove a registration (organizer only)
-   * Works for both registered and waitlisted users
+   * Works for both registered and waitlisted users.
+   * lateCancel records the removal as a late cancellation on the player's reliability.
    */
-  async removeRegistration(eventId: string, registrationId: string): Promise<void> {
+  async removeRegistration(eventId: string, registrationId: string, lateCancel: boolean = false): Promise<void> {
     await apiClient.instance.delete(
-      `/events/${eventId}/registrations/${registrationId}`
+      `/events/${eventId}/registrations/${registrationId}`,
+      lateCancel ? { params: { lateCancel } } : undefined
+    );
+  },
+
+  /**
+   * Record attendance for rostered players after the game (organizer only)
+   * Only the registrations included are changed
+   */
+  async updateAttendance(eventId: string, items: AttendanceItem[]): Promise<void> {
+    await apiClient.instance.put(
+      `/events/${eventId}/attendance`,
+      { items }
     );
   },
 
+  // Rink check-in
+
+  /**
+   * Get the current user's check-in pass for an event (rostered players only)
+   */
+  async getCheckInPass(eventId: string): Promise<CheckInPassDto> {
+    const response = await apiClient.instance.get<CheckInPassDto>(`/events/${eventId}/check-in/pass`);
+    return response.data;
+  },
+
+  /**
+   * Check players in from scanned passes (organizer only)
+   * Accepts a batch so scans made offline sync in one call; checked-in players are marked Present
+   */
+  async checkIn(eventId: string, items: CheckInItem[]): Promise<CheckInResultDto> {
+    const response = await apiClient.instance.post<CheckInResultDto>(
+      `/events/${eventId}/check-ins`,
+      { items }
+    );
+    return response.data;
+  },
+
+  /**
+   * Undo a check-in (organizer only)
+   */
+  async undoCheckIn(eventId: string, registrationId: string): Promise<void> {
+    await apiClient.instance.delete(`/events/${eventId}/check-ins/${registrationId}`);
+  },
+
   // Roster/Waitlist move operations (organizer)
 
   /**
@@ -243,6 +339,89 @@ export const eventService = {
     return response.data;
   },
 
+  /**
+   * Invite players to register for an event (organizer only)
+   * Sends each an event_invite notification; they still register themselves
+   */
+  async invitePlayers(eventId: string, userIds: string[]): Promise<void> {
+    const request: InvitePlayersRequest = { userIds };
+    await apiClient.instance.post(`/events/${eventId}/invites`, request);
+  },
+
+  /**
+   * Invite every subscriber of the event's organization (InviteOnly events, organizer only)
+   */
+  async inviteOrganizationMembers(
+    eventId: string,
+    request: InviteOrganizationMembersRequest = {}
+  ): Promise<InviteOrganizationMembersResponse> {
+    const response = await apiClient.instance.post<InviteOrganizationMembersResponse>(
+      `/events/${eventId}/invites/organization-members`,
+      request
+    );
+    return response.data;
+  },
+
+  /**
+   * Get an InviteOnly event's invitations with their pending/accepted/declined status (organizer only)
+   */
+  async getInvitations(eventId: string): Promise<EventInvitationDto[]> {
+    const response = await apiClient.instance.get<EventInvitationDto[]>(`/events/${eventId}/invites`);
+    return response.data;
+  },
+
+  /**
+   * Withdraw an invitation (organizer only). Players already registered keep their spot.
+   */
+  async revokeInvitation(eventId: string, invitationId: string): Promise<void> {
+    await apiClient.instance.delete(`/events/${eventId}/invites/${invitationId}`);
+  },
+
+  /**
+   * Decline the current user's invitation. Registering is how an invitation is accepted.
+   */
+  async declineInvitation(eventId: string): Promise<void> {
+    await apiClient.instance.post(`/events/${eventId}/invites/decline`);
+  },
+
+  /**
+   * Get an event's shareable invite links, including expired and revoked ones (organizer only)
+   */
+  async getInviteLinks(eventId: string): Promise<EventInviteLinkDto[]> {
+    const response = await apiClient.instance.get<EventInviteLinkDto[]>(`/events/${eventId}/invite-links`);
+    return response.data;
+  },
+
+  /**
+   * Create a shareable invite link (organizer only)
+   */
+  async createInviteLink(eventId: string, request: CreateEventInviteLinkRequest = {}): Promise<EventInviteLinkDto> {
+    const response = await apiClient.instance.post<EventInviteLinkDto>(`/events/${eventId}/invite-links`, request);
+    return response.data;
+  },
+
+  /**
+   * Revoke an invite link (organizer only). Invitations it already created stay.
+   */
+  async revokeInviteLink(eventId: string, linkId: string): Promise<void> {
+    await apiClient.instance.delete(`/events/${eventId}/invite-links/${linkId}`);
+  },
+
+  /**
+   * Open an invite link as the current user - creates their invitation and
+   * returns the event. Expired and revoked links reject with a clear message.
+   */
+  async redeemInviteLink(token: string): Promise<EventDto> {
+    try {
+      const response = await apiClient.instance.post<EventDto>(
+        `/invite-links/${encodeURIComponent(token)}/redeem`
+      );
+      return response.data;
+    } catch (error) {
+      throw toInviteLinkError(error);
+    }
+  },
+
   /**
    * Create a ghost player and add them to an event's waitlist (organizer only).
    * Ghost players are placeholder accounts for people who don't have the app.
@@ -13,7 +13,11 @@ import type {
   SetOrganizationWaiverResponse,
   AcceptWaiverRequest,
   WaiverSignatureDetails,
-  PendingWaiver
+  PendingWaiver,
+  GameHistoryResponse,
+  OrganizationAnnouncementDto,
+  CreateOrganizationAnnouncementRequest,
+  UpdateOrganizationAnnouncementRequest
 } from '@bhmhockey/shared';
 import { apiClient } from '../client';
 
@@ -105,6 +109,23 @@ export const organizationService = {
     await apiClient.instance.delete(`/organizations/${organizationId}/members/${userId}`);
   },
 
+  /**
+   * Get a member's past pickup games with this organization (admin only)
+   * Used for reliability checks; the summary covers this organization only
+   */
+  async getMemberGames(
+    organizationId: string,
+    userId: string,
+    offset: number = 0,
+    limit: number = 20
+  ): Promise<GameHistoryResponse> {
+    const response = await apiClient.instance.get<GameHistoryResponse>(
+      `/organizations/${organizationId}/members/${userId}/games`,
+      { params: { offset, limit } }
+    );
+    return response.data;
+  },
+
   // Admin management methods
 
   /**
@@ -220,4 +241,52 @@ export const organizationService = {
   async leaveOrganization(organizationId: string): Promise<void> {
     await apiClient.instance.post(`/organizations/${organizationId}/leave`);
   },
+
+  // Announcement methods
+
+  /**
+   * Get the organization's announcements, newest first (filtered by user visibility)
+   */
+  async getAnnouncements(organizationId: string): Promise<OrganizationAnnouncementDto[]> {
+    const response = await apiClient.instance.get<OrganizationAnnouncementDto[]>(
+      `/organizations/${organizationId}/announcements`
+    );
+    return response.data;
+  },
+
+  /**
+   * Post an announcement and push it to the target audience (admin only)
+   */
+  async createAnnouncement(
+    organizationId: string,
+    request: CreateOrganizationAnnouncementRequest
+  ): Promise<OrganizationAnnouncementDto> {
+    const response = await apiClient.instance.post<OrganizationAnnouncementDto>(
+      `/organizations/${organizationId}/announcements`,
+      request
+    );
+    return response.data;
+  },
+
+  /**
+   * Edit an announcement's title or body (admin only)
+   */
+  async updateAnnouncement(
+    organizationId: string,
+    announcementId: string,
+    request: UpdateOrganizationAnnouncementRequest
+  ): Promise<OrganizationAnnouncementDto> {
+    const response = await apiClient.instance.put<OrganizationAnnouncementDto>(
+      `/organizations/${organizationId}/announcements/${announcementId}`,
+      request
+    );
+    return response.data;
+  },
+
+  /**
+   * Delete an announcement (admin only)
+   */
+  async deleteAnnouncement(organizationId: string, announcementId: string): Promise<void> {
+    await apiClient.instance.delete(`/organizations/${organizationId}/announcements/${announcementId}`);
+  },
 };
@@ -0,0 +1,64 @@
+import type {
+  CreateRegistrationTransferRequest,
+  RegistrationTransferDto,
+  UserSearchResultDto,
+} from '@bhmhockey/shared';
+import { apiClient } from '../client';
+
+/**
+ * Registration transfer service - players handing their spot to someone else
+ */
+export const registrationTransferService = {
+  /**
+   * Get the current user's pending and past transfers, sent and received
+   * (including waitlist offers they can accept)
+   */
+  async getMyTransfers(): Promise<RegistrationTransferDto[]> {
+    const response = await apiClient.instance.get<RegistrationTransferDto[]>('/registration-transfers');
+    return response.data;
+  },
+
+  /**
+   * Search for players the current user can hand their spot to
+   */
+  async searchRecipients(
+    target: Pick<CreateRegistrationTransferRequest, 'eventId' | 'tournamentId'>,
+    query: string
+  ): Promise<UserSearchResultDto[]> {
+    const response = await apiClient.instance.get<UserSearchResultDto[]>('/registration-transfers/search-users', {
+      params: { ...target, query },
+    });
+    return response.data;
+  },
+
+  /**
+   * Offer the current user's event or tournament registration to a player, or to the
+   * waitlist when toUserId is omitted. The recipient (or waitlist) and the organizer are notified.
+   */
+  async createTransfer(request: CreateRegistrationTransferRequest): Promise<RegistrationTransferDto> {
+    const response = await apiClient.instance.post<RegistrationTransferDto>('/registration-transfers', request);
+    return response.data;
+  },
+
+  /**
+   * Accept a transfer - the registration moves to the current user with its team and roster slot
+   */
+  async acceptTransfer(id: string): Promise<RegistrationTransferDto> {
+    const response = await apiClient.instance.post<RegistrationTransferDto>(`/registration-transfers/${id}/accept`);
+    return response.data;
+  },
+
+  /**
+   * Decline a transfer offered to the current user
+   */
+  async declineTransfer(id: string): Promise<void> {
+    await apiClient.instance.post(`/registration-transfers/${id}/decline`);
+  },
+
+  /**
+   * Cancel the current user's pending transfer - they keep their spot
+   */
+  async cancelTransfer(id: string): Promise<void> {
+    await apiClient.instance.delete(`/registration-transfers/${id}`);
+  },
+};
@@ -0,0 +1,51 @@
+import type {
+  AcceptSubRequestResponse,
+  CreateSubRequestRequest,
+  SubRequestDto,
+} from '@bhmhockey/shared';
+import { apiClient } from '../client';
+
+/**
+ * Sub request service - players finding someone to take their spot
+ */
+export const subRequestService = {
+  /**
+   * Get open sub requests the current user could fill (matched server-side by position and skill)
+   */
+  async getOpenSubRequests(): Promise<SubRequestDto[]> {
+    const response = await apiClient.instance.get<SubRequestDto[]>('/sub-requests');
+    return response.data;
+  },
+
+  /**
+   * Get the current user's own sub requests, open and filled
+   */
+  async getMySubRequests(): Promise<SubRequestDto[]> {
+    const response = await apiClient.instance.get<SubRequestDto[]>('/sub-requests/mine');
+    return response.data;
+  },
+
+  /**
+   * Post a sub request for the current user's event registration or tournament team spot.
+   * Eligible players are notified.
+   */
+  async createSubRequest(request: CreateSubRequestRequest): Promise<SubRequestDto> {
+    const response = await apiClient.instance.post<SubRequestDto>('/sub-requests', request);
+    return response.data;
+  },
+
+  /**
+   * Accept a sub request - the first to accept takes over the spot
+   */
+  async acceptSubRequest(id: string): Promise<AcceptSubRequestResponse> {
+    const response = await apiClient.instance.post<AcceptSubRequestResponse>(`/sub-requests/${id}/accept`);
+    return response.data;
+  },
+
+  /**
+   * Cancel the current user's open sub request
+   */
+  async cancelSubRequest(id: string): Promise<void> {
+    await apiClient.instance.delete(`/sub-requests/${id}`);
+  },
+};
@@ -8,6 +8,10 @@ import type {
   TournamentMatchDto,
   EnterScoreRequest,
   ForfeitMatchRequest,
+  GameSheetDto,
+  SaveGameSheetRequest,
+  UpdateMatchClockRequest,
+  PublishScheduleRequest,
   TournamentRegistrationDto,
   TournamentRegistrationResultDto,
   CreateTournamentRegistrationRequest,
@@ -26,6 +30,7 @@ import type {
   UserSearchResultDto,
   PendingTeamInvitationDto,
   StandingsDto,
+  TournamentPlayerStatsDto,
   UpcomingTournamentMatchDto,
   TournamentAdminDto,
   AddTournamentAdminRequest,
@@ -288,6 +293,14 @@ export const tournamentService = {
     return response.data;
   },
 
+  /**
+   * Get player scoring and goalie stats, summed from game sheets
+   */
+  async getPlayerStats(tournamentId: string): Promise<TournamentPlayerStatsDto> {
+    const response = await apiClient.instance.get<TournamentPlayerStatsDto>(`/tournaments/${tournamentId}/player-stats`);
+    return response.data;
+  },
+
   /**
    * Enter score for a match
    */
@@ -310,6 +323,44 @@ export const tournamentService = {
     return response.data;
   },
 
+  /**
+   * Get the game sheet (goals, penalties, goalies) for a match
+   */
+  async getGameSheet(tournamentId: string, matchId: string): Promise<GameSheetDto> {
+    const response = await apiClient.instance.get<GameSheetDto>(
+      `/tournaments/${tournamentId}/matches/${matchId}/gamesheet`
+    );
+    return response.data;
+  },
+
+  /**
+   * Replace the game sheet for a match (any tournament admin role, including Scorekeeper).
+   * The score is derived from the goals; isFinal completes the match.
+   */
+  async saveGameSheet(tournamentId: string, matchId: string, request: SaveGameSheetRequest): Promise<GameSheetDto> {
+    const response = await apiClient.instance.put<GameSheetDto>(
+      `/tournaments/${tournamentId}/matches/${matchId}/gamesheet`,
+      request
+    );
+    return response.data;
+  },
+
+  /**
+   * Start, stop or reset a match's live period clock (any tournament admin role, including Scorekeeper).
+   * Starting the clock on a Scheduled match moves it to InProgress.
+   */
+  async updateMatchClock(
+    tournamentId: string,
+    matchId: string,
+    request: UpdateMatchClockRequest
+  ): Promise<TournamentMatchDto> {
+    const response = await apiClient.instance.put<TournamentMatchDto>(
+      `/tournaments/${tournamentId}/matches/${matchId}/clock`,
+      request
+    );
+    return response.data;
+  },
+
   // ============================================
   // Bracket
   // ============================================
@@ -329,6 +380,17 @@ export const tournamentService = {
     await apiClient.instance.delete(`/tournaments/${tournamentId}/bracket`);
   },
 
+  /**
+   * Publish a generated schedule - sets each match's rink, start time and home/away (admin only)
+   */
+  async publishSchedule(tournamentId: string, request: PublishScheduleRequest): Promise<TournamentMatchDto[]> {
+    const response = await apiClient.instance.put<TournamentMatchDto[]>(
+      `/tournaments/${tournamentId}/schedule`,
+      request
+    );
+    return response.data;
+  },
+
   // ============================================
   // Registration
   // ============================================
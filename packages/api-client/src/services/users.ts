@@ -1,4 +1,4 @@
-import type { User, UpdateUserProfileRequest, UserBadgeDto, UpdateBadgeOrderRequest, UncelebratedBadgeDto, MyTournamentsResponseDto, UserTournamentsFilter, UpcomingTournamentMatchDto } from '@bhmhockey/shared';
+import type { User, UpdateUserProfileRequest, UserBadgeDto, UpdateBadgeOrderRequest, UncelebratedBadgeDto, MyTournamentsResponseDto, UserTournamentsFilter, UpcomingTournamentMatchDto, GameHistoryResponse, AvailabilitySlot, UpdateAvailabilityRequest, CalendarFeedDto, NotificationPreferencesDto, UpdateNotificationPreferencesRequest } from '@bhmhockey/shared';
 import { apiClient } from '../client';
 
 /**
@@ -112,4 +112,71 @@ export const userService = {
     );
     return response.data;
   },
+
+  /**
+   * Get current user's past pickup games (newest first)
+   * The summary covers the whole history, not just this page
+   */
+  async getMyGames(offset: number = 0, limit: number = 20): Promise<GameHistoryResponse> {
+    const response = await apiClient.instance.get<GameHistoryResponse>('/users/me/games', {
+      params: { offset, limit },
+    });
+    return response.data;
+  },
+
+  /**
+   * Get current user's availability (weekly and one-off slots)
+   */
+  async getMyAvailability(): Promise<AvailabilitySlot[]> {
+    const response = await apiClient.instance.get<AvailabilitySlot[]>('/users/me/availability');
+    return response.data;
+  },
+
+  /**
+   * Replace current user's availability. Org admins see it when filling games.
+   */
+  async updateMyAvailability(slots: AvailabilitySlot[]): Promise<AvailabilitySlot[]> {
+    const request: UpdateAvailabilityRequest = { slots };
+    const response = await apiClient.instance.put<AvailabilitySlot[]>('/users/me/availability', request);
+    return response.data;
+  },
+
+  /**
+   * Get current user's personal calendar feed (iCalendar subscription URL)
+   * The feed lists rostered games and scheduled tournament matches
+   */
+  async getCalendarFeed(): Promise<CalendarFeedDto> {
+    const response = await apiClient.instance.get<CalendarFeedDto>('/users/me/calendar-feed');
+    return response.data;
+  },
+
+  /**
+   * Issue a new feed URL. Calendars subscribed to the old one stop updating.
+   */
+  async resetCalendarFeed(): Promise<CalendarFeedDto> {
+    const response = await apiClient.instance.post<CalendarFeedDto>('/users/me/calendar-feed/reset');
+    return response.data;
+  },
+
+  /**
+   * Get current user's notification preferences (per-org and per-tournament toggles,
+   * quiet hours, game reminder lead time)
+   */
+  async getNotificationPreferences(): Promise<NotificationPreferencesDto> {
+    const response = await apiClient.instance.get<NotificationPreferencesDto>('/users/me/notification-preferences');
+    return response.data;
+  },
+
+  /**
+   * Replace current user's notification preferences. The server applies them when sending pushes.
+   */
+  async updateNotificationPreferences(
+    request: UpdateNotificationPreferencesRequest
+  ): Promise<NotificationPreferencesDto> {
+    const response = await apiClient.instance.put<NotificationPreferencesDto>(
+      '/users/me/notification-preferences',
+      request
+    );
+    return response.data;
+  },
 };
@@ -0,0 +1,87 @@
+import {
+  formatAvailabilitySlot,
+  isAvailableAt,
+  isSlotAvailableAt,
+  rankMembersForEvent,
+} from '../utils/availability';
+import type { AvailabilitySlot, OrganizationMember, SkillLevel } from '../types';
+
+// Tuesday, March 10 2026, 7:00 PM local time
+const tuesdayEvening = new Date(2026, 2, 10, 19, 0);
+
+const weekly = (overrides: Partial<AvailabilitySlot> = {}): AvailabilitySlot => ({
+  id: 'slot-1',
+  kind: 'Weekly',
+  dayOfWeek: 2,
+  startTime: '17:00',
+  endTime: '21:00',
+  ...overrides,
+});
+
+const member = (overrides: Partial<OrganizationMember> = {}): OrganizationMember => ({
+  id: 'user-1',
+  firstName: 'Sam',
+  lastName: 'Lee',
+  email: null,
+  positions: { skater: 'Gold' },
+  subscribedAt: '2025-01-01T00:00:00Z',
+  isAdmin: false,
+  availability: [weekly()],
+  ...overrides,
+});
+
+describe('isSlotAvailableAt', () => {
+  it('matches weekly slots by weekday and time', () => {
+    expect(isSlotAvailableAt(weekly(), tuesdayEvening)).toBe(true);
+    expect(isSlotAvailableAt(weekly({ dayOfWeek: 3 }), tuesdayEvening)).toBe(false);
+    expect(isSlotAvailableAt(weekly({ endTime: '19:00' }), tuesdayEvening)).toBe(false);
+  });
+
+  it('matches one-off slots by date, up to midnight', () => {
+    const slot = weekly({ kind: 'OneOff', dayOfWeek: undefined, date: '2026-03-10', startTime: '21:00', endTime: '24:00' });
+    expect(isSlotAvailableAt(slot, new Date(2026, 2, 10, 23, 30))).toBe(true);
+    expect(isSlotAvailableAt(slot, new Date(2026, 2, 17, 23, 30))).toBe(false);
+  });
+});
+
+describe('isAvailableAt', () => {
+  it('only counts position-specific slots for that position', () => {
+    const slots = [weekly({ position: 'Goalie' })];
+    expect(isAvailableAt(slots, tuesdayEvening, 'Goalie')).toBe(true);
+    expect(isAvailableAt(slots, tuesdayEvening, 'Skater')).toBe(false);
+    expect(isAvailableAt(undefined, tuesdayEvening)).toBe(false);
+  });
+});
+
+describe('formatAvailabilitySlot', () => {
+  it('uses window names when the times match one', () => {
+    expect(formatAvailabilitySlot(weekly())).toBe('Tuesdays · Evenings');
+    expect(formatAvailabilitySlot(weekly({ startTime: '18:30', endTime: '24:00', position: 'Skater' }))).toBe(
+      'Tuesdays · 6:30 PM–12 AM · Skater only'
+    );
+  });
+});
+
+describe('rankMembersForEvent', () => {
+  const skillLevels: SkillLevel[] = ['Gold', 'Silver'];
+  const event = { eventDate: tuesdayEvening.toISOString(), skillLevels };
+
+  it('keeps available, skill-matched members, most reliable first', () => {
+    const members = [
+      member({ id: 'new', lastName: 'Adams' }),
+      member({ id: 'reliable', lastName: 'Zimmer', reliability: { gamesAttended: 10, noShows: 0, lateCancels: 0 } }),
+      member({ id: 'busy', availability: [weekly({ dayOfWeek: 4 })] }),
+      member({ id: 'bronze', positions: { skater: 'Bronze' } }),
+      member({ id: 'rostered' }),
+    ];
+    const ranked = rankMembersForEvent(members, event, { excludeUserIds: ['rostered'] });
+    expect(ranked.map((r) => r.member.id)).toEqual(['reliable', 'new']);
+    expect(ranked[0]).toMatchObject({ position: 'Skater', skillLevel: 'Gold' });
+  });
+
+  it('falls back to goalie and honors a requested position', () => {
+    const both = member({ positions: { skater: 'Bronze', goalie: 'Silver' } });
+    expect(rankMembersForEvent([both], event)[0].position).toBe('Goalie');
+    expect(rankMembersForEvent([member()], event, { position: 'Goalie' })).toEqual([]);
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  describeBadgeRule,
+  formatBadgeContext,
+  validateBadgeRule,
+  validateBadgeTypeRequest,
+} from '../utils/badgeRules';
+import type { CreateBadgeTypeRequest } from '../types';
+
+const badgeType = (overrides: Partial<CreateBadgeTypeRequest> = {}): CreateBadgeTypeRequest => ({
+  code: 'iron_man',
+  name: 'Iron Man',
+  description: 'Played 50 games',
+  iconName: 'star_teal',
+  category: 'milestone',
+  ...overrides,
+});
+
+describe('describeBadgeRule', () => {
+  it('describes each trigger', () => {
+    expect(describeBadgeRule({ trigger: 'TournamentPlacement', threshold: 1 })).toBe('Win a tournament');
+    expect(describeBadgeRule({ trigger: 'TournamentPlacement', threshold: 3 })).toBe('Finish top 3 in a tournament');
+    expect(describeBadgeRule({ trigger: 'GamesPlayed', threshold: 50 })).toBe('Play 50 games');
+    expect(describeBadgeRule({ trigger: 'GamesPlayed', threshold: 1 })).toBe('Play 1 game');
+  });
+});
+
+describe('validateBadgeTypeRequest', () => {
+  it('accepts a complete badge type', () => {
+    expect(validateBadgeTypeRequest(badgeType())).toEqual([]);
+  });
+
+  it('rejects bad and duplicate codes and missing fields', () => {
+    expect(validateBadgeTypeRequest(badgeType({ code: 'Iron Man' }))).toEqual([
+      'Code must start with a letter and use only lowercase letters, numbers and underscores',
+    ]);
+    expect(validateBadgeTypeRequest(badgeType(), ['iron_man'])).toEqual([
+      'A badge type with code "iron_man" already exists',
+    ]);
+    expect(validateBadgeTypeRequest(badgeType({ name: ' ', description: '', iconName: '' }))).toEqual([
+      'Name is required',
+      'Description is required',
+      'Pick an icon',
+    ]);
+  });
+});
+
+describe('validateBadgeRule', () => {
+  it('requires a badge and a positive whole threshold', () => {
+    expect(validateBadgeRule({ badgeTypeId: 'b1', trigger: 'GamesPlayed', threshold: 50 })).toEqual([]);
+    expect(validateBadgeRule({ badgeTypeId: '', trigger: 'TournamentPlacement', threshold: 0 })).toEqual([
+      'Pick a badge',
+      'Placement must be 1 or more',
+    ]);
+    expect(validateBadgeRule({ badgeTypeId: 'b1', trigger: 'GamesPlayed', threshold: 2.5 })).toEqual([
+      'Games played must be 1 or more',
+    ]);
+  });
+});
+
+describe('badge contexts', () => {
+  it('formats tournament and generic contexts', () => {
+    expect(formatBadgeContext({ tournamentName: 'Winter Cup', year: 2026 })).toBe('Winter Cup 2026');
+    expect(formatBadgeContext({ description: 'Original beta tester' })).toBe('Original beta tester');
+    expect(formatBadgeContext({})).toBe('');
+  });
+});
@@ -0,0 +1,167 @@
+import {
+  buildIcsCalendar,
+  buildMyGamesCalendar,
+  escapeIcsText,
+  eventToCalendarEntry,
+  foldIcsLine,
+  formatIcsDate,
+  matchToCalendarEntry,
+} from '../utils/calendar';
+import type { EventDto, UpcomingTournamentMatchDto } from '../types';
+
+const now = new Date('2026-03-01T12:00:00Z');
+
+const event = (overrides: Partial<EventDto> = {}): EventDto => ({
+  id: 'event-1',
+  organizationId: 'org-1',
+  organizationName: 'BHM Hockey',
+  creatorId: 'user-9',
+  name: 'Tuesday Pickup',
+  eventDate: '2026-03-10T22:00:00Z',
+  duration: 90,
+  venue: 'Pelham Civic Complex',
+  maxPlayers: 20,
+  registeredCount: 14,
+  cost: 20,
+  status: 'Published',
+  visibility: 'Public',
+  isRegistered: true,
+  canManage: false,
+  createdAt: '2026-02-01T12:00:00Z',
+  isRosterPublished: true,
+  myTeamAssignment: 'Black',
+  waitlistCount: 0,
+  amIWaitlisted: false,
+  showWaitlistBeforePublish: false,
+  requiresWaiverAcceptance: false,
+  ...overrides,
+});
+
+const match = (overrides: Partial<UpcomingTournamentMatchDto> = {}): UpcomingTournamentMatchDto => ({
+  id: 'match-1',
+  tournamentId: 'tournament-1',
+  tournamentName: 'Spring Classic',
+  userTeamId: 'team-1',
+  userTeamName: 'Ice Dogs',
+  opponentTeamId: 'team-2',
+  opponentTeamName: 'Puck Bunnies',
+  round: 1,
+  matchNumber: 3,
+  status: 'Scheduled',
+  scheduledTime: '2026-03-05T18:00:00Z',
+  venue: 'Rink B',
+  isHomeTeam: true,
+  ...overrides,
+});
+
+describe('escapeIcsText', () => {
+  it('escapes backslashes, separators and newlines', () => {
+    expect(escapeIcsText('Rink A; Lot 2, North\\Side\nBring both jerseys')).toBe(
+      'Rink A\\; Lot 2\\, North\\\\Side\\nBring both jerseys'
+    );
+  });
+});
+
+describe('formatIcsDate', () => {
+  it('formats UTC date-times', () => {
+    expect(formatIcsDate('2026-03-10T22:00:00.000Z')).toBe('20260310T220000Z');
+  });
+});
+
+describe('foldIcsLine', () => {
+  it('leaves short lines alone', () => {
+    expect(foldIcsLine('SUMMARY:Pickup')).toBe('SUMMARY:Pickup');
+  });
+
+  it('folds at 75 octets without splitting multi-byte characters', () => {
+    const folded = foldIcsLine(`DESCRIPTION:${'é'.repeat(60)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBe(2);
+    expect(Buffer.byteLength(lines[0], 'utf8')).toBeLessThanOrEqual(75);
+    expect(lines[1].startsWith(' ')).toBe(true);
+    expect(lines.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(`DESCRIPTION:${'é'.repeat(60)}`);
+  });
+});
+
+describe('eventToCalendarEntry', () => {
+  it('describes venue, duration and team color', () => {
+    const entry = eventToCalendarEntry(event());
+    expect(entry).toEqual({
+      uid: 'event-event-1@bhmhockey',
+      title: 'Tuesday Pickup',
+      start: '2026-03-10T22:00:00Z',
+      durationMinutes: 90,
+      location: 'Pelham Civic Complex',
+      description: 'BHM Hockey\nVenue: Pelham Civic Complex\nDuration: 90 min\nTeam: Black jersey',
+      cancelled: false,
+    });
+  });
+
+  it('falls back to the organization name for unnamed games', () => {
+    expect(eventToCalendarEntry(event({ name: undefined })).title).toBe('BHM Hockey Hockey');
+    expect(eventToCalendarEntry(event({ name: undefined, organizationName: undefined })).title).toBe('Pickup Hockey');
+  });
+});
+
+describe('matchToCalendarEntry', () => {
+  it('titles the match from the player team perspective', () => {
+    const entry = matchToCalendarEntry(match());
+    expect(entry?.title).toBe('Spring Classic: Ice Dogs vs Puck Bunnies');
+    expect(entry?.durationMinutes).toBe(60);
+    expect(matchToCalendarEntry(match({ opponentTeamName: undefined }))?.title).toBe('Spring Classic: Ice Dogs vs TBD');
+  });
+
+  it('skips unscheduled matches', () => {
+    expect(matchToCalendarEntry(match({ scheduledTime: undefined }))).toBeNull();
+  });
+});
+
+describe('buildIcsCalendar', () => {
+  it('builds a CRLF calendar with one VEVENT per entry', () => {
+    const ics = buildIcsCalendar([eventToCalendarEntry(event())], { name: 'My Games', now });
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//BHM Hockey//Games//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:My Games',
+      'BEGIN:VEVENT',
+      'UID:event-event-1@bhmhockey',
+      'DTSTAMP:20260301T120000Z',
+      'DTSTART:20260310T220000Z',
+      'DTEND:20260310T233000Z',
+      'SUMMARY:Tuesday Pickup',
+      'LOCATION:Pelham Civic Complex',
+      'DESCRIPTION:BHM Hockey\\nVenue: Pelham Civic Complex\\nDuration: 90 min\\nTeam',
+      ' : Black jersey',
+      'STATUS:CONFIRMED',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('marks cancelled games', () => {
+    const ics = buildIcsCalendar([eventToCalendarEntry(event({ status: 'Cancelled' }))], { now });
+    expect(ics).toContain('STATUS:CANCELLED');
+  });
+});
+
+describe('buildMyGamesCalendar', () => {
+  it('keeps rostered games and scheduled matches, soonest first', () => {
+    const ics = buildMyGamesCalendar(
+      [
+        event(),
+        event({ id: 'cancelled', status: 'Cancelled' }),
+        event({ id: 'waitlisted', isRegistered: false, amIWaitlisted: true }),
+      ],
+      [match(), match({ id: 'unscheduled', scheduledTime: undefined })],
+      now
+    );
+    const uids = ics.split('\r\n').filter((line) => line.startsWith('UID:'));
+    expect(uids).toEqual(['UID:match-match-1@bhmhockey', 'UID:event-event-1@bhmhockey']);
+    expect(ics).toContain('X-WR-CALNAME:BHM Hockey');
+  });
+});
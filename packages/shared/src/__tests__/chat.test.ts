@@ -0,0 +1,105 @@
+import {
+  filterMentionCandidates,
+  getMentionedUserIds,
+  getMentionQuery,
+  insertMention,
+  mergeChatMessages,
+} from '../utils/chat';
+import type { ChatMessageDto, ChatParticipant } from '../types';
+
+const message = (id: string, createdAt: string, overrides: Partial<ChatMessageDto> = {}): ChatMessageDto => ({
+  id,
+  threadType: 'Event',
+  threadId: 'e1',
+  senderUserId: 'u1',
+  senderFirstName: 'Ann',
+  senderLastName: 'Lee',
+  body: `Message ${id}`,
+  mentionedUserIds: [],
+  isPinned: false,
+  pinnedAt: null,
+  createdAt,
+  ...overrides,
+});
+
+const participants: ChatParticipant[] = [
+  { userId: 'u1', firstName: 'Ann', lastName: 'Lee' },
+  { userId: 'u2', firstName: 'Andy', lastName: 'Kim' },
+  { userId: 'u3', firstName: 'Sam', lastName: 'Anders' },
+  { userId: 'u4', firstName: 'Jo', lastName: 'Park' },
+];
+
+describe('mergeChatMessages', () => {
+  it('adds older and newer messages, newest first', () => {
+    const loaded = [message('m2', '2026-03-10T20:02:00Z'), message('m1', '2026-03-10T20:01:00Z')];
+    const merged = mergeChatMessages(loaded, [
+      message('m3', '2026-03-10T20:03:00Z'),
+      message('m0', '2026-03-10T20:00:00Z'),
+    ]);
+    expect(merged.map((m) => m.id)).toEqual(['m3', 'm2', 'm1', 'm0']);
+  });
+
+  it('replaces messages already loaded with the fetched copy', () => {
+    const loaded = [message('m1', '2026-03-10T20:01:00Z')];
+    const merged = mergeChatMessages(loaded, [message('m1', '2026-03-10T20:01:00Z', { isPinned: true })]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].isPinned).toBe(true);
+  });
+});
+
+describe('getMentionQuery', () => {
+  it('returns the partial name after a trailing @', () => {
+    expect(getMentionQuery('hey @')).toBe('');
+    expect(getMentionQuery('@an')).toBe('an');
+    expect(getMentionQuery('thanks @Ann L')).toBe('Ann L');
+  });
+
+  it('ignores emails, finished mentions and drafts without @', () => {
+    expect(getMentionQuery('mail me at jo@example.com')).toBeNull();
+    expect(getMentionQuery('@Ann Lee see you there')).toBeNull();
+    expect(getMentionQuery('see you there')).toBeNull();
+  });
+});
+
+describe('filterMentionCandidates', () => {
+  it('matches first, last and full name prefixes', () => {
+    expect(filterMentionCandidates(participants, 'an').map((p) => p.userId)).toEqual(['u1', 'u2', 'u3']);
+    expect(filterMentionCandidates(participants, 'ann l').map((p) => p.userId)).toEqual(['u1']);
+    expect(filterMentionCandidates(participants, 'park').map((p) => p.userId)).toEqual(['u4']);
+  });
+
+  it('never suggests the sender', () => {
+    expect(filterMentionCandidates(participants, 'an', 'u1').map((p) => p.userId)).toEqual(['u2', 'u3']);
+  });
+});
+
+describe('insertMention', () => {
+  it('replaces the query with the full name', () => {
+    expect(insertMention('thanks @an', participants[1])).toBe('thanks @Andy Kim ');
+    expect(insertMention('@', participants[3])).toBe('@Jo Park ');
+  });
+
+  it('leaves the draft alone when no mention is being typed', () => {
+    expect(insertMention('thanks', participants[1])).toBe('thanks');
+  });
+});
+
+describe('getMentionedUserIds', () => {
+  it('keeps only participants still named in the message', () => {
+    expect(getMentionedUserIds('@Andy Kim and @jo park - goalie?', participants)).toEqual(['u2', 'u4']);
+    expect(getMentionedUserIds('Andy Kim, bring pucks', participants)).toEqual([]);
+  });
+
+  it('only matches whole names when one name is a prefix of another', () => {
+    const smiths: ChatParticipant[] = [
+      { userId: 'u5', firstName: 'Jon', lastName: 'Smith' },
+      { userId: 'u6', firstName: 'Jon', lastName: 'Smithson' },
+    ];
+
+    expect(getMentionedUserIds('@Jon Smithson you in?', smiths)).toEqual(['u6']);
+    expect(getMentionedUserIds('@Jon Smith, you in?', smiths)).toEqual(['u5']);
+    expect(getMentionedUserIds('@Jon Smithson and @Jon Smith', smiths)).toEqual(['u5', 'u6']);
+    expect(getMentionedUserIds('thanks @jon smith', smiths)).toEqual(['u5']);
+    expect(getMentionedUserIds('@Jon Smith-Jones is in', smiths)).toEqual([]);
+  });
+});
@@ -0,0 +1,78 @@
+import { buildCheckInCode, evaluateCheckInScan, parseCheckInCode } from '../utils/checkIn';
+import type { CheckInRegistration } from '../utils/checkIn';
+
+const registration = (overrides: Partial<CheckInRegistration> = {}): CheckInRegistration => ({
+  id: 'reg-1',
+  isWaitlisted: false,
+  paymentStatus: 'Verified',
+  hasNotAcceptedWaiver: false,
+  checkedInAt: null,
+  checkInToken: 'abc123',
+  user: { firstName: 'Sam', lastName: 'Lee' },
+  ...overrides,
+});
+
+const code = buildCheckInCode({ registrationId: 'reg-1', token: 'abc123' });
+
+describe('check-in codes', () => {
+  it('round-trips a pass', () => {
+    expect(code).toBe('bhmhockey-checkin:reg-1.abc123');
+    expect(parseCheckInCode(code)).toEqual({ registrationId: 'reg-1', token: 'abc123' });
+  });
+
+  it('keeps dots inside the token', () => {
+    expect(parseCheckInCode('bhmhockey-checkin:reg-1.a.b')).toEqual({ registrationId: 'reg-1', token: 'a.b' });
+  });
+
+  it('rejects other codes', () => {
+    expect(parseCheckInCode('https://example.com')).toBeNull();
+    expect(parseCheckInCode('bhmhockey-checkin:reg-1')).toBeNull();
+    expect(parseCheckInCode('bhmhockey-checkin:reg-1.')).toBeNull();
+  });
+});
+
+describe('evaluateCheckInScan', () => {
+  it('checks in a rostered player', () => {
+    const scan = evaluateCheckInScan(code, [registration()], { requiresPayment: true });
+
+    expect(scan.outcome).toBe('ok');
+    expect(scan.registration?.id).toBe('reg-1');
+    expect(scan.warnings).toEqual([]);
+  });
+
+  it('warns about payment, waiver and waitlist', () => {
+    const scan = evaluateCheckInScan(
+      code,
+      [registration({ isWaitlisted: true, paymentStatus: 'MarkedPaid', hasNotAcceptedWaiver: true })],
+      { requiresPayment: true }
+    );
+
+    expect(scan.outcome).toBe('ok');
+    expect(scan.warnings).toEqual(['On the waitlist, not the roster', 'Payment not verified', 'Waiver not signed']);
+  });
+
+  it('skips the payment warning on free games', () => {
+    const scan = evaluateCheckInScan(code, [registration({ paymentStatus: 'Pending' })], { requiresPayment: false });
+
+    expect(scan.warnings).toEqual([]);
+  });
+
+  it('rejects unknown players, bad tokens and repeat scans', () => {
+    expect(evaluateCheckInScan(code, [registration({ id: 'other' })], { requiresPayment: false }).outcome).toBe(
+      'unknown'
+    );
+    expect(
+      evaluateCheckInScan(code, [registration({ checkInToken: 'different' })], { requiresPayment: false }).outcome
+    ).toBe('invalid');
+    expect(
+      evaluateCheckInScan(code, [registration({ checkedInAt: '2026-03-10T19:02:00Z' })], { requiresPayment: false })
+        .outcome
+    ).toBe('duplicate');
+  });
+
+  it('leaves verification to the server when the roster has no token', () => {
+    const scan = evaluateCheckInScan(code, [registration({ checkInToken: undefined })], { requiresPayment: false });
+
+    expect(scan.outcome).toBe('ok');
+  });
+});
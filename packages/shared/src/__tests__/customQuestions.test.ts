@@ -0,0 +1,262 @@
+import {
+  formatCustomResponse,
+  getDefaultResponses,
+  isQuestionVisible,
+  parseCustomQuestions,
+  parseCustomResponses,
+  serializeCustomQuestions,
+  serializeCustomResponses,
+  validateCustomQuestion,
+  validateCustomResponse,
+  validateCustomResponses,
+} from '../utils/customQuestions';
+import { CUSTOM_QUESTIONS_SCHEMA_VERSION } from '../constants';
+import type { CustomQuestion } from '../types';
+
+const question = (
+  id: string,
+  type: CustomQuestion['type'],
+  overrides: Partial<CustomQuestion> = {}
+): CustomQuestion => ({
+  id,
+  type,
+  label: id.toUpperCase(),
+  required: false,
+  ...overrides,
+});
+
+describe('parseCustomQuestions', () => {
+  it('reads a v1 question array', () => {
+    const v1 = JSON.stringify([
+      { id: 'q1', type: 'dropdown', label: 'Size', required: true, options: ['S', 'M'] },
+    ]);
+
+    expect(parseCustomQuestions(v1)).toEqual([
+      { id: 'q1', type: 'dropdown', label: 'Size', required: true, options: ['S', 'M'] },
+    ]);
+  });
+
+  it('round-trips the versioned schema written by serializeCustomQuestions', () => {
+    const questions = [
+      question('q1', 'yesno', { required: true }),
+      question('q2', 'jerseyNumber', { required: true, visibleWhen: { questionId: 'q1', equals: true } }),
+    ];
+    const json = serializeCustomQuestions(questions)!;
+
+    expect(JSON.parse(json).version).toBe(CUSTOM_QUESTIONS_SCHEMA_VERSION);
+    expect(parseCustomQuestions(json)).toEqual(questions);
+  });
+
+  it('drops malformed entries and unknown types', () => {
+    const json = JSON.stringify({
+      version: CUSTOM_QUESTIONS_SCHEMA_VERSION,
+      questions: [question('q1', 'text'), { id: 'q2', type: 'signature', label: 'Sign' }, { type: 'text' }],
+    });
+
+    expect(parseCustomQuestions(json).map((q) => q.id)).toEqual(['q1']);
+  });
+
+  it('returns no questions for missing or unreadable values', () => {
+    expect(parseCustomQuestions(undefined)).toEqual([]);
+    expect(parseCustomQuestions('not json')).toEqual([]);
+    expect(parseCustomQuestions('{"version":2}')).toEqual([]);
+  });
+
+  it('serializes an empty list as undefined', () => {
+    expect(serializeCustomQuestions([])).toBeUndefined();
+  });
+});
+
+describe('parseCustomResponses', () => {
+  it('reads an answer map and ignores anything else', () => {
+    expect(parseCustomResponses('{"q1":"XL","q2":true}')).toEqual({ q1: 'XL', q2: true });
+    expect(parseCustomResponses('["XL"]')).toEqual({});
+    expect(parseCustomResponses('oops')).toEqual({});
+    expect(parseCustomResponses(null)).toEqual({});
+  });
+});
+
+describe('getDefaultResponses', () => {
+  it('starts yes/no as No, dropdowns on the first option and multi-selects empty', () => {
+    const questions = [
+      question('yn', 'yesno'),
+      question('dd', 'dropdown', { options: ['A', 'B'] }),
+      question('ms', 'multiselect', { options: ['A'] }),
+      question('sz', 'tshirtSize'),
+    ];
+
+    expect(getDefaultResponses(questions)).toEqual({ yn: false, dd: 'A', ms: [], sz: '' });
+  });
+});
+
+describe('validateCustomResponse', () => {
+  it('requires an answer only for required questions', () => {
+    expect(validateCustomResponse(question('q', 'text', { required: true }), '  ')).toBe('Please answer: Q');
+    expect(validateCustomResponse(question('q', 'multiselect', { required: true, options: ['A'] }), [])).toBe(
+      'Please answer: Q'
+    );
+    expect(validateCustomResponse(question('q', 'number'), '')).toBeNull();
+  });
+
+  it('counts No as an answer to a required yes/no question', () => {
+    expect(validateCustomResponse(question('q', 'yesno', { required: true }), false)).toBeNull();
+  });
+
+  it('checks number ranges and rejects non-numbers', () => {
+    const age = question('age', 'number', { min: 18, max: 99 });
+
+    expect(validateCustomResponse(age, '42')).toBeNull();
+    expect(validateCustomResponse(age, 17)).toBe('AGE must be at least 18');
+    expect(validateCustomResponse(age, '100')).toBe('AGE must be at most 99');
+    expect(validateCustomResponse(age, 'forty')).toBe('AGE must be a number');
+  });
+
+  it('checks text length and pattern', () => {
+    const phone = question('phone', 'text', {
+      min: 3,
+      pattern: '\\d{3}-\\d{4}',
+      patternMessage: 'Use the format 555-1234',
+    });
+
+    expect(validateCustomResponse(phone, '555-1234')).toBeNull();
+    expect(validateCustomResponse(phone, '55')).toBe('PHONE must be at least 3 characters');
+    expect(validateCustomResponse(phone, '555-1234x')).toBe('Use the format 555-1234');
+  });
+
+  it('ignores a broken pattern instead of blocking players', () => {
+    expect(validateCustomResponse(question('q', 'text', { pattern: '(' }), 'anything')).toBeNull();
+  });
+
+  it('accepts jersey numbers 0 to 99, including 00', () => {
+    const jersey = question('jersey', 'jerseyNumber');
+
+    expect(validateCustomResponse(jersey, '00')).toBeNull();
+    expect(validateCustomResponse(jersey, '99')).toBeNull();
+    expect(validateCustomResponse(jersey, '100')).toBe('JERSEY must be a number from 0 to 99');
+    expect(validateCustomResponse(jersey, '-1')).toBe('JERSEY must be a number from 0 to 99');
+  });
+
+  it('accepts real calendar dates only', () => {
+    const dob = question('dob', 'date');
+
+    expect(validateCustomResponse(dob, '2024-02-29')).toBeNull();
+    expect(validateCustomResponse(dob, '2023-02-29')).toBe('DOB must be a valid date');
+    expect(validateCustomResponse(dob, '02/01/2024')).toBe('DOB must be a valid date');
+  });
+
+  it('limits choices to the listed options', () => {
+    expect(validateCustomResponse(question('size', 'tshirtSize'), 'XL')).toBeNull();
+    expect(validateCustomResponse(question('size', 'tshirtSize'), 'Huge')).toBe(
+      'SIZE must be one of the listed options'
+    );
+    expect(validateCustomResponse(question('size', 'tshirtSize', { options: ['Youth', 'Adult'] }), 'Youth')).toBeNull();
+  });
+
+  it('checks multi-select options and selection counts', () => {
+    const nights = question('nights', 'multiselect', { options: ['Mon', 'Wed', 'Fri'], min: 2, max: 2 });
+
+    expect(validateCustomResponse(nights, ['Mon', 'Fri'])).toBeNull();
+    expect(validateCustomResponse(nights, ['Mon'])).toBe('Choose at least 2 for: NIGHTS');
+    expect(validateCustomResponse(nights, ['Mon', 'Wed', 'Fri'])).toBe('Choose at most 2 for: NIGHTS');
+    expect(validateCustomResponse(nights, ['Sun', 'Mon'])).toBe('NIGHTS must only include the listed options');
+  });
+});
+
+describe('conditional questions', () => {
+  const questions = [
+    question('hasJersey', 'yesno'),
+    question('jersey', 'jerseyNumber', { required: true, visibleWhen: { questionId: 'hasJersey', equals: true } }),
+    question('color', 'dropdown', {
+      options: ['Black', 'White'],
+      visibleWhen: { questionId: 'jersey', equals: '00' },
+    }),
+    question('nights', 'multiselect', { options: ['Mon', 'Wed'] }),
+    question('monNote', 'text', { required: true, visibleWhen: { questionId: 'nights', equals: 'Mon' } }),
+  ];
+
+  it('shows a question when the earlier answer matches', () => {
+    expect(isQuestionVisible(questions[1], questions, { hasJersey: true })).toBe(true);
+    expect(isQuestionVisible(questions[1], questions, { hasJersey: false })).toBe(false);
+  });
+
+  it('matches multi-select answers that include the value', () => {
+    expect(isQuestionVisible(questions[4], questions, { nights: ['Wed', 'Mon'] })).toBe(true);
+    expect(isQuestionVisible(questions[4], questions, { nights: ['Wed'] })).toBe(false);
+  });
+
+  it('hides a question whose condition depends on a hidden question', () => {
+    expect(isQuestionVisible(questions[2], questions, { hasJersey: false, jersey: '00' })).toBe(false);
+    expect(isQuestionVisible(questions[2], questions, { hasJersey: true, jersey: '00' })).toBe(true);
+  });
+
+  it('skips hidden questions when validating', () => {
+    expect(validateCustomResponses(questions, { hasJersey: false, nights: [] })).toEqual({});
+    expect(validateCustomResponses(questions, { hasJersey: true, nights: ['Mon'] })).toEqual({
+      jersey: 'Please answer: JERSEY',
+      monNote: 'Please answer: MONNOTE',
+    });
+  });
+
+  it('drops hidden and empty answers when serializing', () => {
+    const json = serializeCustomResponses(questions, {
+      hasJersey: false,
+      jersey: '12',
+      nights: [],
+      monNote: 'left over',
+    });
+
+    expect(JSON.parse(json!)).toEqual({ hasJersey: false });
+  });
+});
+
+describe('serializeCustomResponses', () => {
+  it('stores number answers as numbers', () => {
+    const json = serializeCustomResponses([question('age', 'number')], { age: '34' });
+
+    expect(JSON.parse(json!)).toEqual({ age: 34 });
+  });
+
+  it('returns undefined when the tournament has no questions', () => {
+    expect(serializeCustomResponses([], { q1: 'x' })).toBeUndefined();
+  });
+});
+
+describe('formatCustomResponse', () => {
+  it('formats answers for display', () => {
+    expect(formatCustomResponse(question('q', 'yesno'), true)).toBe('Yes');
+    expect(formatCustomResponse(question('q', 'multiselect'), ['Mon', 'Wed'])).toBe('Mon, Wed');
+    expect(formatCustomResponse(question('q', 'date'), '2026-03-04')).toBe('Mar 4, 2026');
+    expect(formatCustomResponse(question('q', 'number'), 7)).toBe('7');
+    expect(formatCustomResponse(question('q', 'text'), undefined)).toBe('');
+  });
+});
+
+describe('validateCustomQuestion', () => {
+  it('requires a label and options for choice questions', () => {
+    expect(validateCustomQuestion(question('q', 'text', { label: ' ' }), [])).toBe('Question label is required');
+    expect(validateCustomQuestion(question('q', 'dropdown'), [])).toBe(
+      'Dropdown questions must have at least one option'
+    );
+    expect(validateCustomQuestion(question('q', 'tshirtSize'), [])).toBeNull();
+  });
+
+  it('rejects inverted ranges and invalid patterns', () => {
+    expect(validateCustomQuestion(question('q', 'number', { min: 5, max: 1 }), [])).toBe(
+      'Minimum cannot be greater than maximum'
+    );
+    expect(validateCustomQuestion(question('q', 'text', { pattern: '[' }), [])).toBe(
+      'Pattern is not a valid regular expression'
+    );
+  });
+
+  it('only allows conditions on earlier questions', () => {
+    const first = question('first', 'yesno');
+    const second = question('second', 'text', { visibleWhen: { questionId: 'first', equals: true } });
+    const backwards = { ...first, visibleWhen: { questionId: 'second', equals: 'x' } };
+
+    expect(validateCustomQuestion(second, [first, second])).toBeNull();
+    expect(validateCustomQuestion(backwards, [backwards, second])).toBe(
+      'A question can only depend on an earlier question'
+    );
+  });
+});
@@ -0,0 +1,169 @@
+import {
+  buildDeepLink,
+  buildDeepLinkPath,
+  getDeepLinkAppPath,
+  getNotificationRoute,
+  parseDeepLink,
+} from '../utils/deepLinks';
+import type { DeepLinkRoute } from '../utils/deepLinks';
+import type { NotificationType } from '../types';
+
+const routes: DeepLinkRoute[] = [
+  { name: 'event', params: { eventId: 'e1' } },
+  { name: 'tournament', params: { tournamentId: 't1' } },
+  { name: 'tournamentTeam', params: { tournamentId: 't1', teamId: 'team1' } },
+  { name: 'tournamentMatch', params: { tournamentId: 't1', matchId: 'm1' } },
+  { name: 'tournamentStandings', params: { tournamentId: 't1' } },
+  { name: 'organization', params: { organizationId: 'o1' } },
+  { name: 'waiver', params: { organizationId: 'o1' } },
+  { name: 'invite', params: { token: 'tok_123' } },
+  { name: 'subs', params: {} },
+  { name: 'transfers', params: {} },
+];
+
+describe('buildDeepLink', () => {
+  it('builds custom scheme links', () => {
+    expect(buildDeepLink({ name: 'event', params: { eventId: 'e1' } })).toBe('bhmhockey://events/e1');
+    expect(buildDeepLink({ name: 'tournamentMatch', params: { tournamentId: 't1', matchId: 'm1' } })).toBe(
+      'bhmhockey://tournament/t1/match/m1'
+    );
+  });
+
+  it('builds universal links on the app domain', () => {
+    expect(buildDeepLink({ name: 'invite', params: { token: 'abc' } }, { universal: true })).toBe(
+      'https://bhmhockey-mb3md.ondigitalocean.app/invite/abc'
+    );
+  });
+
+  it('encodes params', () => {
+    expect(buildDeepLinkPath({ name: 'invite', params: { token: 'a/b c' } })).toBe('invite/a%2Fb%20c');
+  });
+});
+
+describe('parseDeepLink', () => {
+  it.each(routes)('round-trips $name through both link styles', (route) => {
+    expect(parseDeepLink(buildDeepLink(route))).toEqual(route);
+    expect(parseDeepLink(buildDeepLink(route, { universal: true }))).toEqual(route);
+  });
+
+  it('keeps the existing organization and tournament team links working', () => {
+    expect(parseDeepLink('bhmhockey://organizations/o1')).toEqual({
+      name: 'organization',
+      params: { organizationId: 'o1' },
+    });
+    expect(parseDeepLink('bhmhockey://tournament/t1/team/team1/')).toEqual({
+      name: 'tournamentTeam',
+      params: { tournamentId: 't1', teamId: 'team1' },
+    });
+  });
+
+  it('ignores query strings and fragments', () => {
+    expect(parseDeepLink('https://bhmhockey-mb3md.ondigitalocean.app/events/e1?utm_source=groupme#top')).toEqual({
+      name: 'event',
+      params: { eventId: 'e1' },
+    });
+  });
+
+  it('reads Expo dev links', () => {
+    expect(parseDeepLink('exp://192.168.1.20:8081/--/events/e1')).toEqual({
+      name: 'event',
+      params: { eventId: 'e1' },
+    });
+  });
+
+  it('rejects other hosts, unknown paths and junk', () => {
+    expect(parseDeepLink('https://example.com/events/e1')).toBeNull();
+    expect(parseDeepLink('bhmhockey://events')).toBeNull();
+    expect(parseDeepLink('bhmhockey://events/e1/roster')).toBeNull();
+    expect(parseDeepLink('bhmhockey://invite/%E0%A4%A')).toBeNull();
+    expect(parseDeepLink('not a url')).toBeNull();
+  });
+});
+
+describe('getDeepLinkAppPath', () => {
+  it('maps routes to app screens', () => {
+    expect(getDeepLinkAppPath({ name: 'tournamentTeam', params: { tournamentId: 't1', teamId: 'team1' } })).toBe(
+      '/tournaments/t1/teams/team1'
+    );
+    expect(getDeepLinkAppPath({ name: 'tournamentStandings', params: { tournamentId: 't1' } })).toBe(
+      '/tournaments/t1/standings'
+    );
+    expect(getDeepLinkAppPath({ name: 'waiver', params: { organizationId: 'o1' } })).toBe('/organizations/o1');
+    expect(getDeepLinkAppPath({ name: 'subs', params: {} })).toBe('/subs');
+  });
+});
+
+describe('getNotificationRoute', () => {
+  const eventTypes: NotificationType[] = [
+    'new_event',
+    'waitlist_promoted',
+    'waitlist_joined',
+    'waitlist_promotion',
+    'payment_reminder',
+    'game_reminder',
+    'organizer_payment_reminder',
+    'not_full_reminder',
+    'event_invite',
+    'waitlist_offer',
+    'waitlist_offer_expired',
+  ];
+
+  it.each(eventTypes)('opens the event for %s', (type) => {
+    expect(getNotificationRoute(type, { eventId: 'e1' })).toEqual({ name: 'event', params: { eventId: 'e1' } });
+    expect(getNotificationRoute(type, {})).toBeNull();
+  });
+
+  it('opens the marketplaces for sub requests and transfers', () => {
+    expect(getNotificationRoute('sub_request', { eventId: 'e1' })).toEqual({ name: 'subs', params: {} });
+    expect(getNotificationRoute('registration_transfer', { eventId: 'e1' })).toEqual({
+      name: 'transfers',
+      params: {},
+    });
+  });
+
+  it('opens the organization for announcements', () => {
+    expect(getNotificationRoute('organization_announcement', { organizationId: 'o1' })).toEqual({
+      name: 'organization',
+      params: { organizationId: 'o1' },
+    });
+    expect(getNotificationRoute('organization_announcement', { eventId: 'e1' })).toBeNull();
+  });
+
+  it('opens the thread a chat mention came from', () => {
+    expect(getNotificationRoute('chat_mention', { eventId: 'e1' })).toEqual({
+      name: 'eventChat',
+      params: { eventId: 'e1' },
+    });
+    expect(getNotificationRoute('chat_mention', { organizationId: 'o1' })).toEqual({
+      name: 'organizationChat',
+      params: { organizationId: 'o1' },
+    });
+    expect(getDeepLinkAppPath({ name: 'eventChat', params: { eventId: 'e1' } })).toBe('/events/e1?tab=chat');
+    expect(parseDeepLink('bhmhockey://organizations/o1/chat')).toEqual({
+      name: 'organizationChat',
+      params: { organizationId: 'o1' },
+    });
+  });
+
+  it('falls back from the event to the tournament for filled and completed spots', () => {
+    expect(getNotificationRoute('sub_request_filled', { tournamentId: 't1', tournamentTeamId: 'team1' })).toEqual({
+      name: 'tournamentTeam',
+      params: { tournamentId: 't1', teamId: 'team1' },
+    });
+    expect(getNotificationRoute('sub_request_filled', {})).toEqual({ name: 'subs', params: {} });
+    expect(getNotificationRoute('registration_transferred', { tournamentId: 't1' })).toEqual({
+      name: 'tournament',
+      params: { tournamentId: 't1' },
+    });
+    expect(getNotificationRoute('registration_transferred', {})).toEqual({ name: 'transfers', params: {} });
+  });
+
+  it('opens the event for unknown types', () => {
+    expect(getNotificationRoute('brand_new_type', { eventId: 'e1' })).toEqual({
+      name: 'event',
+      params: { eventId: 'e1' },
+    });
+    expect(getNotificationRoute('toString', {})).toBeNull();
+    expect(getNotificationRoute(undefined, {})).toBeNull();
+  });
+});
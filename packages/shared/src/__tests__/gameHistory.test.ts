@@ -0,0 +1,91 @@
+import {
+  formatMonthKey,
+  getAverageGamesPerMonth,
+  getFavoriteOrganization,
+  getRecentMonths,
+  toMonthKey,
+} from '../utils/gameHistory';
+import type { GameHistorySummaryDto } from '../types';
+
+const summary = (overrides: Partial<GameHistorySummaryDto> = {}): GameHistorySummaryDto => ({
+  totalGames: 0,
+  blackGames: 0,
+  whiteGames: 0,
+  goalieGames: 0,
+  skaterGames: 0,
+  unpaidGames: 0,
+  gamesByMonth: [],
+  gamesByOrganization: [],
+  ...overrides,
+});
+
+const org = (organizationId: string, organizationName: string, count: number) => ({
+  organizationId,
+  organizationName,
+  count,
+});
+
+describe('month keys', () => {
+  it('formats a local date as YYYY-MM', () => {
+    expect(toMonthKey(new Date(2026, 2, 31))).toBe('2026-03');
+  });
+
+  it('labels months and adds the year for January', () => {
+    expect(formatMonthKey('2026-03')).toBe('Mar');
+    expect(formatMonthKey('2026-01')).toBe("Jan '26");
+  });
+});
+
+describe('getRecentMonths', () => {
+  it('fills empty months and crosses the year boundary', () => {
+    const months = getRecentMonths(
+      [
+        { month: '2025-06', count: 9 },
+        { month: '2025-12', count: 3 },
+        { month: '2026-02', count: 5 },
+      ],
+      new Date(2026, 1, 15),
+      4
+    );
+
+    expect(months).toEqual([
+      { month: '2025-11', count: 0 },
+      { month: '2025-12', count: 3 },
+      { month: '2026-01', count: 0 },
+      { month: '2026-02', count: 5 },
+    ]);
+  });
+});
+
+describe('getAverageGamesPerMonth', () => {
+  it('averages from the first game through the current month', () => {
+    const result = getAverageGamesPerMonth(
+      summary({ totalGames: 10, gamesByMonth: [{ month: '2025-12', count: 4 }, { month: '2026-02', count: 6 }] }),
+      new Date(2026, 2, 1)
+    );
+
+    expect(result).toBe(2.5);
+  });
+
+  it('is 0 with no games', () => {
+    expect(getAverageGamesPerMonth(summary(), new Date(2026, 2, 1))).toBe(0);
+  });
+});
+
+describe('getFavoriteOrganization', () => {
+  it('picks the organization with the most games', () => {
+    const result = getFavoriteOrganization(
+      summary({ gamesByOrganization: [org('a', 'Alpha', 2), org('b', 'Bravo', 7), org('c', 'Charlie', 4)] })
+    );
+
+    expect(result?.organizationId).toBe('b');
+  });
+
+  it('breaks ties by name and returns null without organizations', () => {
+    expect(
+      getFavoriteOrganization(summary({ gamesByOrganization: [org('z', 'Zulu', 3), org('a', 'Alpha', 3)] }))
+        ?.organizationId
+    ).toBe('a');
+    expect(getFavoriteOrganization(summary())).toBeNull();
+  });
+});
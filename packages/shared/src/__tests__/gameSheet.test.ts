@@ -0,0 +1,231 @@
+import {
+  buildScoringSummary,
+  deriveScoreFromGoals,
+  getPeriodLabel,
+  normalizeGameClock,
+  parseGameClock,
+  toSaveGameSheetRequest,
+  validateGameSheet,
+} from '../utils/gameSheet';
+import type { GameSheetEntries } from '../utils/gameSheet';
+import type { MatchGoalDto, MatchPenaltyDto } from '../types';
+
+const goal = (id: string, overrides: Partial<MatchGoalDto> = {}): MatchGoalDto => ({
+  id,
+  teamId: 'home',
+  scorerUserId: 'h1',
+  scorerName: 'Home One',
+  period: 1,
+  time: '05:00',
+  ...overrides,
+});
+
+const penalty = (id: string, overrides: Partial<MatchPenaltyDto> = {}): MatchPenaltyDto => ({
+  id,
+  teamId: 'away',
+  playerUserId: 'a1',
+  playerName: 'Away One',
+  infraction: 'Tripping',
+  minutes: 2,
+  period: 1,
+  time: '10:00',
+  ...overrides,
+});
+
+const sheet = (overrides: Partial<GameSheetEntries> = {}): GameSheetEntries => ({
+  goals: [],
+  penalties: [],
+  goalies: [],
+  ...overrides,
+});
+
+const options = {
+  homeTeamId: 'home',
+  awayTeamId: 'away',
+  rosters: { home: ['h1', 'h2', 'h3', 'hg'], away: ['a1', 'a2', 'ag'] },
+};
+
+describe('parseGameClock', () => {
+  it('reads M:SS and MM:SS', () => {
+    expect(parseGameClock('4:05')).toBe(245);
+    expect(parseGameClock('14:59')).toBe(899);
+    expect(parseGameClock(' 00:00 ')).toBe(0);
+  });
+
+  it('rejects malformed clocks', () => {
+    expect(parseGameClock('4:60')).toBeNull();
+    expect(parseGameClock('405')).toBeNull();
+    expect(parseGameClock('61:00')).toBeNull();
+    expect(parseGameClock('')).toBeNull();
+  });
+
+  it('pads clocks to MM:SS', () => {
+    expect(normalizeGameClock('4:05')).toBe('04:05');
+    expect(normalizeGameClock('nope')).toBeNull();
+  });
+});
+
+describe('getPeriodLabel', () => {
+  it('labels regulation and overtime periods', () => {
+    expect([1, 2, 3, 4, 5].map(getPeriodLabel)).toEqual(['1st', '2nd', '3rd', 'OT', '2OT']);
+  });
+});
+
+describe('deriveScoreFromGoals', () => {
+  it('counts goals per team', () => {
+    const goals = [goal('g1'), goal('g2', { teamId: 'away' }), goal('g3'), goal('g4', { teamId: 'other' })];
+
+    expect(deriveScoreFromGoals(goals, 'home', 'away')).toEqual({ homeScore: 2, awayScore: 1 });
+    expect(deriveScoreFromGoals([], 'home', 'away')).toEqual({ homeScore: 0, awayScore: 0 });
+  });
+});
+
+describe('validateGameSheet', () => {
+  it('accepts a complete sheet', () => {
+    const valid = sheet({
+      goals: [goal('g1', { primaryAssistUserId: 'h2', secondaryAssistUserId: 'h3' })],
+      penalties: [penalty('p1', { minutes: 5 })],
+      goalies: [
+        { teamId: 'home', userId: 'hg', name: 'Home Goalie' },
+        { teamId: 'away', userId: 'ag', name: 'Away Goalie' },
+      ],
+    });
+
+    expect(validateGameSheet(valid, options)).toEqual([]);
+  });
+
+  it('keeps assists off the scorer and distinct', () => {
+    const errors = validateGameSheet(
+      sheet({
+        goals: [
+          goal('g1', { primaryAssistUserId: 'h1' }),
+          goal('g2', { primaryAssistUserId: 'h2', secondaryAssistUserId: 'h2' }),
+          goal('g3', { secondaryAssistUserId: 'h2' }),
+        ],
+      }),
+      options
+    );
+
+    expect(errors).toEqual([
+      "Goal 1: an assist can't go to the scorer",
+      'Goal 2: assists must be different players',
+      'Goal 3: add the primary assist first',
+    ]);
+  });
+
+  it('requires players from the right team', () => {
+    const errors = validateGameSheet(
+      sheet({
+        goals: [goal('g1', { primaryAssistUserId: 'a1' })],
+        penalties: [penalty('p1', { playerUserId: 'h1' })],
+        goalies: [{ teamId: 'away', userId: 'hg', name: 'Home Goalie' }],
+      }),
+      options
+    );
+
+    expect(errors).toEqual([
+      'Goal 1: players must be on the scoring team',
+      'Penalty 1: player must be on the penalized team',
+      'Goalie must be on their team roster',
+    ]);
+  });
+
+  it('skips roster checks without rosters', () => {
+    const errors = validateGameSheet(sheet({ goals: [goal('g1', { scorerUserId: 'anyone' })] }), {
+      homeTeamId: 'home',
+      awayTeamId: 'away',
+    });
+
+    expect(errors).toEqual([]);
+  });
+
+  it('checks period, time, infraction and minutes', () => {
+    const errors = validateGameSheet(
+      sheet({
+        goals: [goal('g1', { period: 0, time: '12:75' })],
+        penalties: [penalty('p1', { infraction: ' ', minutes: 3 })],
+      }),
+      options
+    );
+
+    expect(errors).toEqual([
+      'Goal 1: period must be 1 to 6',
+      'Goal 1: enter the time as MM:SS',
+      'Penalty 1: enter the infraction',
+      'Penalty 1: minutes must be 2, 4, 5 or 10',
+    ]);
+  });
+
+  it('allows one goalie of record per team', () => {
+    const errors = validateGameSheet(
+      sheet({
+        goalies: [
+          { teamId: 'home', userId: 'hg', name: 'Home Goalie' },
+          { teamId: 'home', userId: 'h1', name: 'Home One' },
+        ],
+      }),
+      options
+    );
+
+    expect(errors).toEqual(['Only one goalie of record per team']);
+  });
+
+  it('keeps shots against at or above the goals allowed', () => {
+    const goals = [goal('g1'), goal('g2')];
+    const withShots = (shotsAgainst: number) =>
+      validateGameSheet(
+        sheet({ goals, goalies: [{ teamId: 'away', userId: 'ag', name: 'Away Goalie', shotsAgainst }] }),
+        options
+      );
+
+    expect(withShots(20)).toEqual([]);
+    expect(withShots(1)).toEqual(["Shots against can't be fewer than the 2 goals allowed"]);
+    expect(withShots(2.5)).toEqual(['Shots against must be a whole number']);
+  });
+});
+
+describe('buildScoringSummary', () => {
+  it('groups events by period in clock order', () => {
+    const summary = buildScoringSummary({
+      goals: [goal('late', { time: '15:00' }), goal('ot', { period: 4, time: '1:30' }), goal('early', { time: '2:10' })],
+      penalties: [penalty('p1', { period: 2 })],
+    });
+
+    expect(summary.map((p) => p.label)).toEqual(['1st', '2nd', 'OT']);
+    expect(summary[0].goals.map((g) => g.id)).toEqual(['early', 'late']);
+    expect(summary[1].penalties.map((p) => p.id)).toEqual(['p1']);
+    expect(summary[2].goals.map((g) => g.id)).toEqual(['ot']);
+  });
+});
+
+describe('toSaveGameSheetRequest', () => {
+  it('drops names and normalizes clocks', () => {
+    const request = toSaveGameSheetRequest(
+      sheet({
+        goals: [goal('g1', { time: '4:05', primaryAssistUserId: '' })],
+        penalties: [penalty('p1', { infraction: ' Hooking ' })],
+        goalies: [{ teamId: 'home', userId: 'hg', name: 'Home Goalie' }],
+      }),
+      true
+    );
+
+    expect(request).toEqual({
+      goals: [
+        {
+          teamId: 'home',
+          scorerUserId: 'h1',
+          primaryAssistUserId: undefined,
+          secondaryAssistUserId: undefined,
+          period: 1,
+          time: '04:05',
+        },
+      ],
+      penalties: [
+        { teamId: 'away', playerUserId: 'a1', infraction: 'Hooking', minutes: 2, period: 1, time: '10:00' },
+      ],
+      goalies: [{ teamId: 'home', userId: 'hg', shotsAgainst: undefined }],
+      isFinal: true,
+      overtimeWinnerId: undefined,
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { getInviteLinkState, sortInvitations, summarizeInvitations } from '../utils/invitations';
+import type { EventInvitationStatus } from '../types';
+
+const now = new Date('2026-03-10T20:00:00Z');
+
+describe('getInviteLinkState', () => {
+  it('is active until it expires', () => {
+    expect(getInviteLinkState({ expiresAt: '2026-03-11T20:00:00Z', revokedAt: null }, now)).toBe('Active');
+    expect(getInviteLinkState({ expiresAt: null, revokedAt: null }, now)).toBe('Active');
+    expect(getInviteLinkState({ expiresAt: '2026-03-10T20:00:00Z', revokedAt: null }, now)).toBe('Expired');
+  });
+
+  it('reports revoked links as revoked even after expiry', () => {
+    expect(
+      getInviteLinkState({ expiresAt: '2026-03-09T20:00:00Z', revokedAt: '2026-03-09T10:00:00Z' }, now)
+    ).toBe('Revoked');
+  });
+});
+
+const invitation = (status: EventInvitationStatus, firstName: string, lastName: string) => ({
+  status,
+  firstName,
+  lastName,
+});
+
+describe('summarizeInvitations', () => {
+  it('counts each status', () => {
+    expect(
+      summarizeInvitations([
+        invitation('Pending', 'Ann', 'Lee'),
+        invitation('Accepted', 'Bo', 'Kim'),
+        invitation('Pending', 'Cy', 'Park'),
+      ])
+    ).toEqual({ Pending: 2, Accepted: 1, Declined: 0 });
+  });
+});
+
+describe('sortInvitations', () => {
+  it('orders by status, then last and first name', () => {
+    const sorted = sortInvitations([
+      invitation('Declined', 'Ann', 'Adams'),
+      invitation('Accepted', 'Bo', 'Kim'),
+      invitation('Pending', 'Zed', 'Lee'),
+      invitation('Pending', 'Amy', 'Lee'),
+    ]);
+    expect(sorted.map((i) => `${i.status} ${i.firstName}`)).toEqual([
+      'Pending Amy',
+      'Pending Zed',
+      'Accepted Bo',
+      'Declined Ann',
+    ]);
+  });
+});
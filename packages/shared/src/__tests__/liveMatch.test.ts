@@ -0,0 +1,92 @@
+import {
+  advancePeriod,
+  createLiveClock,
+  formatClockSeconds,
+  getClockElapsedSeconds,
+  getLiveClockLabel,
+  isPeriodOver,
+  startClock,
+  stopClock,
+} from '../utils/liveMatch';
+import type { LiveMatchClockDto } from '../types';
+
+const START = Date.parse('2026-03-07T18:00:00Z');
+
+const clock = (overrides: Partial<LiveMatchClockDto> = {}): LiveMatchClockDto => ({
+  period: 1,
+  periodLengthMinutes: 15,
+  elapsedSeconds: 0,
+  isRunning: false,
+  ...overrides,
+});
+
+const running = (elapsedSeconds = 0, overrides: Partial<LiveMatchClockDto> = {}) =>
+  clock({ elapsedSeconds, isRunning: true, startedAt: new Date(START).toISOString(), ...overrides });
+
+describe('getClockElapsedSeconds', () => {
+  it('holds a stopped clock', () => {
+    expect(getClockElapsedSeconds(clock({ elapsedSeconds: 125 }), START + 60000)).toBe(125);
+  });
+
+  it('adds the time since a running clock started', () => {
+    expect(getClockElapsedSeconds(running(125), START + 61500)).toBe(186);
+    expect(getClockElapsedSeconds(running(0), new Date(START + 5000))).toBe(5);
+  });
+
+  it('stops at the end of the period', () => {
+    expect(getClockElapsedSeconds(running(800), START + 600000)).toBe(900);
+    expect(isPeriodOver(running(800), START + 600000)).toBe(true);
+    expect(isPeriodOver(running(800), START + 1000)).toBe(false);
+  });
+
+  it('never runs backwards when the device is behind the server', () => {
+    expect(getClockElapsedSeconds(running(30), START - 10000)).toBe(30);
+  });
+});
+
+describe('formatClockSeconds', () => {
+  it('pads minutes and seconds', () => {
+    expect(formatClockSeconds(0)).toBe('00:00');
+    expect(formatClockSeconds(452)).toBe('07:32');
+    expect(formatClockSeconds(900.7)).toBe('15:00');
+  });
+});
+
+describe('getLiveClockLabel', () => {
+  it('shows the period and time, then the end of the period', () => {
+    expect(getLiveClockLabel(running(0, { period: 2 }), START + 452000)).toBe('2nd 07:32');
+    expect(getLiveClockLabel(clock({ period: 4, elapsedSeconds: 300, periodLengthMinutes: 5 }), START)).toBe('End of OT');
+  });
+});
+
+describe('clock controls', () => {
+  it('creates a stopped 1st period clock', () => {
+    expect(createLiveClock()).toEqual({ period: 1, periodLengthMinutes: 15, elapsedSeconds: 0, isRunning: false });
+    expect(createLiveClock(12).periodLengthMinutes).toBe(12);
+  });
+
+  it('starts and stops from the current elapsed time', () => {
+    expect(startClock(clock({ elapsedSeconds: 90, startedAt: 'stale' }), START)).toEqual({
+      period: 1,
+      periodLengthMinutes: 15,
+      elapsedSeconds: 90,
+      isRunning: true,
+    });
+    expect(stopClock(running(90), START + 30000)).toEqual({
+      period: 1,
+      periodLengthMinutes: 15,
+      elapsedSeconds: 120,
+      isRunning: false,
+    });
+  });
+
+  it('advances to a stopped clock in the next period', () => {
+    expect(advancePeriod(running(600, { period: 3 }))).toEqual({
+      period: 4,
+      periodLengthMinutes: 15,
+      elapsedSeconds: 0,
+      isRunning: false,
+    });
+    expect(advancePeriod(clock({ period: 6 }))).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  formatTimeOfDay,
+  getNotificationDelivery,
+  isWithinQuietHours,
+  parseTimeOfDay,
+  setNotificationTypeEnabled,
+  toUpdateNotificationPreferencesRequest,
+} from '../utils/notificationPreferences';
+import type { NotificationPreferencesDto } from '../types';
+
+// 23:30 in Chicago (UTC-5 in March after DST starts)
+const lateNight = new Date('2026-03-11T04:30:00Z');
+// 12:00 in Chicago
+const midday = new Date('2026-03-11T17:00:00Z');
+
+const overnight = { start: '22:00', end: '07:00', timeZone: 'America/Chicago' };
+
+describe('parseTimeOfDay / formatTimeOfDay', () => {
+  it('converts between "HH:mm" and minutes', () => {
+    expect(parseTimeOfDay('22:30')).toBe(1350);
+    expect(parseTimeOfDay('7:05')).toBe(425);
+    expect(formatTimeOfDay(425)).toBe('07:05');
+  });
+
+  it('rejects malformed times', () => {
+    expect(parseTimeOfDay('24:00')).toBeNull();
+    expect(parseTimeOfDay('10:60')).toBeNull();
+    expect(parseTimeOfDay('noon')).toBeNull();
+  });
+});
+
+describe('isWithinQuietHours', () => {
+  it('handles windows that span midnight in the user time zone', () => {
+    expect(isWithinQuietHours(overnight, lateNight)).toBe(true);
+    expect(isWithinQuietHours(overnight, midday)).toBe(false);
+  });
+
+  it('handles same-day windows', () => {
+    const lunch = { start: '11:30', end: '13:00', timeZone: 'America/Chicago' };
+    expect(isWithinQuietHours(lunch, midday)).toBe(true);
+    expect(isWithinQuietHours(lunch, lateNight)).toBe(false);
+  });
+
+  it('is off without a window or with an empty one', () => {
+    expect(isWithinQuietHours(null, lateNight)).toBe(false);
+    expect(isWithinQuietHours({ ...overnight, end: '22:00' }, lateNight)).toBe(false);
+  });
+});
+
+describe('getNotificationDelivery', () => {
+  const preferences: NotificationPreferencesDto = {
+    organizations: [{ organizationId: 'org-1', organizationName: 'BHM', disabledTypes: ['new_event'] }],
+    tournaments: [{ tournamentId: 'tour-1', tournamentName: 'Spring Classic', disabledTypes: ['game_reminder'] }],
+    quietHours: overnight,
+    gameReminderHours: 2,
+  };
+
+  it('skips types muted for the organization or tournament', () => {
+    expect(getNotificationDelivery(preferences, { type: 'new_event', organizationId: 'org-1' }, midday)).toBe('skip');
+    expect(getNotificationDelivery(preferences, { type: 'game_reminder', tournamentId: 'tour-1' }, midday)).toBe(
+      'skip'
+    );
+  });
+
+  it('uses the tournament toggles over the organization ones', () => {
+    expect(
+      getNotificationDelivery(
+        preferences,
+        { type: 'new_event', organizationId: 'org-1', tournamentId: 'tour-1' },
+        midday
+      )
+    ).toBe('send');
+  });
+
+  it('sends silently during quiet hours', () => {
+    expect(getNotificationDelivery(preferences, { type: 'game_reminder', organizationId: 'org-1' }, lateNight)).toBe(
+      'silent'
+    );
+    expect(getNotificationDelivery(preferences, { type: 'game_reminder', organizationId: 'org-2' }, midday)).toBe(
+      'send'
+    );
+  });
+});
+
+describe('setNotificationTypeEnabled', () => {
+  it('adds and removes types without duplicates', () => {
+    expect(setNotificationTypeEnabled(['new_event'], 'game_reminder', false)).toEqual(['new_event', 'game_reminder']);
+    expect(setNotificationTypeEnabled(['new_event'], 'new_event', false)).toEqual(['new_event']);
+    expect(setNotificationTypeEnabled(['new_event', 'game_reminder'], 'new_event', true)).toEqual(['game_reminder']);
+  });
+});
+
+describe('toUpdateNotificationPreferencesRequest', () => {
+  it('drops display names', () => {
+    expect(
+      toUpdateNotificationPreferencesRequest({
+        organizations: [{ organizationId: 'org-1', organizationName: 'BHM', disabledTypes: [] }],
+        tournaments: [{ tournamentId: 'tour-1', tournamentName: 'Spring Classic', disabledTypes: ['sub_request'] }],
+        quietHours: null,
+        gameReminderHours: 3,
+      })
+    ).toEqual({
+      organizations: [{ organizationId: 'org-1', disabledTypes: [] }],
+      tournaments: [{ tournamentId: 'tour-1', disabledTypes: ['sub_request'] }],
+      quietHours: null,
+      gameReminderHours: 3,
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  formatGoalsAgainstAverage,
+  formatSavePercentage,
+  getGoalsAgainstAverage,
+  getSavePercentage,
+  sortGoalieStats,
+  sortSkaterStats,
+} from '../utils/playerStats';
+import type { GoalieStatsDto, SkaterStatsDto } from '../types';
+
+const skater = (name: string, overrides: Partial<SkaterStatsDto> = {}): SkaterStatsDto => ({
+  userId: name,
+  name,
+  teamId: 'black',
+  teamName: 'Black',
+  gamesPlayed: 3,
+  goals: 0,
+  assists: 0,
+  points: 0,
+  penaltyMinutes: 0,
+  ...overrides,
+});
+
+const goalie = (name: string, overrides: Partial<GoalieStatsDto> = {}): GoalieStatsDto => ({
+  userId: name,
+  name,
+  teamId: 'white',
+  teamName: 'White',
+  gamesPlayed: 2,
+  goalsAgainst: 4,
+  shotsAgainst: 40,
+  saves: 36,
+  ...overrides,
+});
+
+describe('goalie rates', () => {
+  it('computes GAA per game and save percentage per shot', () => {
+    expect(getGoalsAgainstAverage(goalie('G'))).toBe(2);
+    expect(getSavePercentage(goalie('G'))).toBe(0.9);
+  });
+
+  it('returns null without games or recorded shots', () => {
+    expect(getGoalsAgainstAverage(goalie('G', { gamesPlayed: 0 }))).toBeNull();
+    expect(getSavePercentage(goalie('G', { shotsAgainst: 0, saves: 0 }))).toBeNull();
+  });
+
+  it('formats rates hockey style', () => {
+    expect(formatGoalsAgainstAverage(2.5)).toBe('2.50');
+    expect(formatSavePercentage(0.9123)).toBe('.912');
+    expect(formatSavePercentage(1)).toBe('1.000');
+    expect(formatSavePercentage(null)).toBe('-');
+    expect(formatGoalsAgainstAverage(null)).toBe('-');
+  });
+});
+
+describe('sortSkaterStats', () => {
+  const skaters = [
+    skater('Cy', { goals: 2, assists: 1, points: 3, penaltyMinutes: 2 }),
+    skater('Al', { goals: 1, assists: 2, points: 3 }),
+    skater('Bo', { goals: 3, assists: 1, points: 4, penaltyMinutes: 12 }),
+    skater('Di', { goals: 2, assists: 1, points: 3, gamesPlayed: 2 }),
+  ];
+
+  it('ranks the scoring race by points, then goals, then fewer games', () => {
+    expect(sortSkaterStats(skaters, 'points').map((s) => s.name)).toEqual(['Bo', 'Di', 'Cy', 'Al']);
+  });
+
+  it('sorts by any column in either direction', () => {
+    expect(sortSkaterStats(skaters, 'assists').map((s) => s.name)[0]).toBe('Al');
+    expect(sortSkaterStats(skaters, 'penaltyMinutes', 'asc').map((s) => s.name)).toEqual(['Di', 'Al', 'Cy', 'Bo']);
+  });
+
+  it('does not mutate the input', () => {
+    sortSkaterStats(skaters, 'goals');
+    expect(skaters[0].name).toBe('Cy');
+  });
+});
+
+describe('sortGoalieStats', () => {
+  const goalies = [
+    goalie('Hot', { goalsAgainst: 2, saves: 38 }),
+    goalie('Cold', { goalsAgainst: 8, saves: 32 }),
+    goalie('NoShots', { goalsAgainst: 1, shotsAgainst: 0, saves: 0 }),
+    goalie('Unused', { gamesPlayed: 0, goalsAgainst: 0, shotsAgainst: 0, saves: 0 }),
+  ];
+
+  it('puts the lowest GAA first by default', () => {
+    expect(sortGoalieStats(goalies, 'goalsAgainstAverage').map((g) => g.name)).toEqual([
+      'NoShots',
+      'Hot',
+      'Cold',
+      'Unused',
+    ]);
+  });
+
+  it('puts the best save percentage first and goalies without shots last', () => {
+    expect(sortGoalieStats(goalies, 'savePercentage').map((g) => g.name)).toEqual([
+      'Hot',
+      'Cold',
+      'NoShots',
+      'Unused',
+    ]);
+  });
+});
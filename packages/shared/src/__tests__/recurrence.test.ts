@@ -0,0 +1,120 @@
+import {
+  generateSeriesDates,
+  getUsHolidays,
+  toDateKey,
+  validateRecurrenceRule,
+} from '../utils/recurrence';
+import type { RecurrenceRule } from '../types';
+
+const weekly = (overrides: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  frequency: 'Weekly',
+  startDate: '2026-11-05',  // Thursday
+  startTime: '21:30',
+  occurrences: 4,
+  ...overrides,
+});
+
+const keys = (dates: Date[]) => dates.map(toDateKey);
+
+describe('getUsHolidays', () => {
+  it('computes fixed and floating holidays', () => {
+    const holidays = getUsHolidays(2026);
+    expect(holidays).toContain('2026-01-01');
+    expect(holidays).toContain('2026-01-19'); // MLK Day - third Monday
+    expect(holidays).toContain('2026-05-25'); // Memorial Day - last Monday
+    expect(holidays).toContain('2026-09-07'); // Labor Day - first Monday
+    expect(holidays).toContain('2026-11-26'); // Thanksgiving - fourth Thursday
+    expect(holidays).toContain('2026-12-25');
+    expect(holidays).toHaveLength(11);
+  });
+});
+
+describe('validateRecurrenceRule', () => {
+  it('accepts a weekly rule with a game count', () => {
+    expect(validateRecurrenceRule(weekly())).toBeNull();
+  });
+
+  it('requires an end date or number of games', () => {
+    expect(validateRecurrenceRule(weekly({ occurrences: undefined }))).toBe(
+      'Please choose an end date or number of games'
+    );
+  });
+
+  it('rejects an end date before the start date', () => {
+    expect(
+      validateRecurrenceRule(weekly({ occurrences: undefined, endDate: '2026-11-01' }))
+    ).toBe('End date must be after the start date');
+  });
+
+  it('caps the number of games', () => {
+    expect(validateRecurrenceRule(weekly({ occurrences: 53 }))).toBe(
+      'A series can have at most 52 games'
+    );
+  });
+
+  it('requires at least one specific date', () => {
+    expect(
+      validateRecurrenceRule({ frequency: 'SpecificDates', startDate: '', startTime: '20:00', specificDates: [] })
+    ).toBe('Please add at least one date');
+  });
+});
+
+describe('generateSeriesDates', () => {
+  it('generates weekly games at the start time', () => {
+    const dates = generateSeriesDates(weekly());
+
+    expect(keys(dates)).toEqual(['2026-11-05', '2026-11-12', '2026-11-19', '2026-11-26']);
+    dates.forEach((date) => {
+      expect(date.getHours()).toBe(21);
+      expect(date.getMinutes()).toBe(30);
+    });
+  });
+
+  it('generates bi-weekly games up to an inclusive end date', () => {
+    const dates = generateSeriesDates(
+      weekly({ frequency: 'BiWeekly', occurrences: undefined, endDate: '2026-12-17' })
+    );
+
+    expect(keys(dates)).toEqual(['2026-11-05', '2026-11-19', '2026-12-03', '2026-12-17']);
+  });
+
+  it('skips holidays without reducing the number of games', () => {
+    const dates = generateSeriesDates(weekly({ skipHolidays: true }));
+
+    expect(keys(dates)).toEqual(['2026-11-05', '2026-11-12', '2026-11-19', '2026-12-03']);
+  });
+
+  it('skips explicit dates', () => {
+    const dates = generateSeriesDates(weekly({ skipDates: ['2026-11-12'] }));
+
+    expect(keys(dates)).toEqual(['2026-11-05', '2026-11-19', '2026-11-26', '2026-12-03']);
+  });
+
+  it('sorts and de-duplicates specific dates', () => {
+    const dates = generateSeriesDates({
+      frequency: 'SpecificDates',
+      startDate: '',
+      startTime: '19:00',
+      specificDates: ['2026-12-25', '2026-12-01', '2026-12-01', '2026-12-10'],
+      skipHolidays: true,
+    });
+
+    expect(keys(dates)).toEqual(['2026-12-01', '2026-12-10']);
+  });
+
+  it('keeps the local start time across a daylight saving change', () => {
+    const dates = generateSeriesDates(weekly({ startDate: '2026-10-29', occurrences: 2 }));
+
+    expect(dates.map((date) => date.getHours())).toEqual([21, 21]);
+  });
+
+  it('never generates more than the series limit', () => {
+    const dates = generateSeriesDates(weekly({ occurrences: undefined, endDate: '2028-12-31' }));
+
+    expect(dates).toHaveLength(52);
+  });
+
+  it('returns no dates for an invalid rule', () => {
+    expect(generateSeriesDates(weekly({ startTime: '' }))).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  buildRegistrationsCsv,
+  escapeCsvCell,
+  getRegistrationsCsvFilename,
+} from '../utils/registrationCsv';
+import type { CustomQuestion, TournamentRegistrationDto } from '../types';
+
+const registration = (
+  firstName: string,
+  overrides: Partial<TournamentRegistrationDto> = {}
+): TournamentRegistrationDto => ({
+  id: `reg-${firstName}`,
+  tournamentId: 't-1',
+  user: {
+    id: `user-${firstName}`,
+    email: `${firstName.toLowerCase()}@example.com`,
+    firstName,
+    lastName: 'Skater',
+    role: 'Player',
+    isActive: true,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+  },
+  status: 'Registered',
+  position: 'Skater',
+  isWaitlisted: false,
+  registeredAt: '2026-02-01T18:30:00Z',
+  updatedAt: '2026-02-01T18:30:00Z',
+  ...overrides,
+});
+
+const questions: CustomQuestion[] = [
+  { id: 'size', type: 'tshirtSize', label: 'Jersey Size', required: true },
+  { id: 'wantsNumber', type: 'yesno', label: 'Custom number?', required: false },
+  {
+    id: 'number',
+    type: 'jerseyNumber',
+    label: 'Number',
+    required: true,
+    visibleWhen: { questionId: 'wantsNumber', equals: true },
+  },
+  { id: 'nights', type: 'multiselect', label: 'Nights', required: false, options: ['Mon', 'Wed'] },
+  { id: 'dob', type: 'date', label: 'Birthday', required: false },
+];
+
+const parse = (csv: string) => csv.trimEnd().split('\r\n');
+
+describe('buildRegistrationsCsv', () => {
+  it('writes fixed columns then one column per question', () => {
+    const [header] = parse(buildRegistrationsCsv([], questions));
+
+    expect(header).toBe(
+      'First Name,Last Name,Email,Phone,Position,Status,Waitlist Position,Team,Waiver Status,' +
+        'Payment Status,Payment Marked At,Payment Verified At,Registered At,' +
+        'Jersey Size,Custom number?,Number,Nights,Birthday'
+    );
+  });
+
+  it('decodes answers, team assignment and payment timestamps', () => {
+    const csv = buildRegistrationsCsv(
+      [
+        registration('Ann', {
+          assignedTeamName: 'Black',
+          waiverStatus: 'Accepted',
+          paymentStatus: 'Verified',
+          paymentMarkedAt: '2026-02-02T10:00:00Z',
+          paymentVerifiedAt: '2026-02-03T12:00:00Z',
+          customResponses: JSON.stringify({
+            size: 'XL',
+            wantsNumber: true,
+            number: '00',
+            nights: ['Mon', 'Wed'],
+            dob: '1990-07-04',
+          }),
+        }),
+      ],
+      questions
+    );
+
+    expect(parse(csv)[1]).toBe(
+      'Ann,Skater,ann@example.com,,Skater,Registered,,Black,Accepted,Verified,' +
+        '2026-02-02T10:00:00Z,2026-02-03T12:00:00Z,2026-02-01T18:30:00Z,' +
+        'XL,Yes,00,"Mon, Wed",1990-07-04'
+    );
+  });
+
+  it('leaves hidden and missing answers blank', () => {
+    const csv = buildRegistrationsCsv(
+      [registration('Bo', { customResponses: JSON.stringify({ wantsNumber: false, number: '12' }) })],
+      questions
+    );
+
+    expect(parse(csv)[1].endsWith(',,No,,,')).toBe(true);
+  });
+
+  it('only fills the waitlist position for waitlisted players', () => {
+    const csv = buildRegistrationsCsv(
+      [
+        registration('Cy', { status: 'Waitlisted', isWaitlisted: true, waitlistPosition: 2 }),
+        registration('Di', { waitlistPosition: 5 }),
+      ],
+      []
+    );
+    const [, cy, di] = parse(csv);
+
+    expect(cy.split(',')[6]).toBe('2');
+    expect(di.split(',')[6]).toBe('');
+  });
+
+  it('survives unreadable answers', () => {
+    const csv = buildRegistrationsCsv([registration('Ed', { customResponses: 'not json' })], questions);
+
+    expect(parse(csv)).toHaveLength(2);
+  });
+});
+
+describe('escapeCsvCell', () => {
+  it('quotes commas, quotes and line breaks', () => {
+    expect(escapeCsvCell('plain')).toBe('plain');
+    expect(escapeCsvCell('Smith, Jr.')).toBe('"Smith, Jr."');
+    expect(escapeCsvCell('the "Wall"')).toBe('"the ""Wall"""');
+    expect(escapeCsvCell('line one\nline two')).toBe('"line one\nline two"');
+  });
+
+  it('neutralizes spreadsheet formulas but keeps negative numbers', () => {
+    expect(escapeCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(escapeCsvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvCell('-3')).toBe('-3');
+    expect(escapeCsvCell(-3)).toBe('-3');
+  });
+
+  it('writes nothing for missing values', () => {
+    expect(escapeCsvCell(undefined)).toBe('');
+    expect(escapeCsvCell(null)).toBe('');
+  });
+});
+
+describe('getRegistrationsCsvFilename', () => {
+  it('slugs the tournament name', () => {
+    expect(getRegistrationsCsvFilename('Summer Classic 2026!')).toBe('summer-classic-2026-registrations.csv');
+    expect(getRegistrationsCsvFilename('***')).toBe('tournament-registrations.csv');
+  });
+});
@@ -0,0 +1,89 @@
+import { canAcceptTransfer, getTransferPaymentPlan, groupPendingTransfers } from '../utils/registrationTransfers';
+import type { RegistrationTransferDto } from '../types';
+
+const transfer = (overrides: Partial<RegistrationTransferDto> = {}): RegistrationTransferDto => ({
+  id: 'transfer-1',
+  status: 'Pending',
+  eventId: 'event-1',
+  title: 'Tuesday Pickup',
+  gameDate: '2026-03-10T22:00:00Z',
+  fromUserId: 'user-1',
+  fromFirstName: 'Sam',
+  fromLastName: 'Lee',
+  fromVenmoHandle: 'sam-lee',
+  toUserId: 'user-2',
+  toFirstName: 'Alex',
+  toLastName: 'Kim',
+  position: 'Skater',
+  cost: 20,
+  fromPaymentStatus: 'Verified',
+  organizerVenmoHandle: 'rink-boss',
+  createdAt: '2026-03-01T12:00:00Z',
+  ...overrides,
+});
+
+describe('getTransferPaymentPlan', () => {
+  it('has the recipient pay back a player who already paid', () => {
+    expect(getTransferPaymentPlan(transfer())).toEqual({
+      payee: 'from',
+      amount: 20,
+      venmoHandle: 'sam-lee',
+      organizerRefundsFrom: false,
+      paymentStatus: 'Verified',
+    });
+  });
+
+  it('leaves an unpaid spot owed to the organizer', () => {
+    expect(getTransferPaymentPlan(transfer({ fromPaymentStatus: 'Pending' }))).toEqual({
+      payee: 'organizer',
+      amount: 20,
+      venmoHandle: 'rink-boss',
+      organizerRefundsFrom: false,
+      paymentStatus: 'Pending',
+    });
+  });
+
+  it('keeps a waitlist payment and refunds the original player', () => {
+    const plan = getTransferPaymentPlan(transfer({ toPaymentStatus: 'MarkedPaid' }));
+    expect(plan).toEqual({ payee: 'none', amount: 0, organizerRefundsFrom: true, paymentStatus: 'MarkedPaid' });
+    expect(
+      getTransferPaymentPlan(transfer({ fromPaymentStatus: 'Pending', toPaymentStatus: 'Verified' })).organizerRefundsFrom
+    ).toBe(false);
+  });
+
+  it('needs no payment for free spots', () => {
+    expect(getTransferPaymentPlan(transfer({ cost: 0, fromPaymentStatus: undefined }))).toEqual({
+      payee: 'none',
+      amount: 0,
+      organizerRefundsFrom: false,
+    });
+  });
+});
+
+describe('canAcceptTransfer', () => {
+  it('only lets the named recipient accept a direct transfer', () => {
+    expect(canAcceptTransfer(transfer(), 'user-2')).toBe(true);
+    expect(canAcceptTransfer(transfer(), 'user-3')).toBe(false);
+    expect(canAcceptTransfer(transfer({ status: 'Accepted' }), 'user-2')).toBe(false);
+  });
+
+  it('lets anyone but the sender accept a waitlist offer', () => {
+    expect(canAcceptTransfer(transfer({ toUserId: null }), 'user-3')).toBe(true);
+    expect(canAcceptTransfer(transfer({ toUserId: null }), 'user-1')).toBe(false);
+  });
+});
+
+describe('groupPendingTransfers', () => {
+  it('splits pending transfers into incoming and outgoing, soonest first', () => {
+    const transfers = [
+      transfer({ id: 'later', gameDate: '2026-03-20T22:00:00Z' }),
+      transfer({ id: 'sooner', gameDate: '2026-03-05T22:00:00Z' }),
+      transfer({ id: 'declined', status: 'Declined' }),
+      transfer({ id: 'other', toUserId: 'user-3' }),
+      transfer({ id: 'sent', fromUserId: 'user-2', toUserId: 'user-1' }),
+    ];
+    const { incoming, outgoing } = groupPendingTransfers(transfers, 'user-2');
+    expect(incoming.map((t) => t.id)).toEqual(['sooner', 'later']);
+    expect(outgoing.map((t) => t.id)).toEqual(['sent']);
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  formatReliability,
+  getReliabilityScore,
+  getReliabilityTier,
+  isLateCancellation,
+  orderWaitlistByReliability,
+} from '../utils/reliability';
+import type { ReliabilityDto } from '../types';
+
+const record = (gamesAttended: number, noShows = 0, lateCancels = 0): ReliabilityDto => ({
+  gamesAttended,
+  noShows,
+  lateCancels,
+});
+
+describe('getReliabilityScore', () => {
+  it('is null until enough games are recorded', () => {
+    expect(getReliabilityScore(record(3, 1))).toBeNull();
+    expect(getReliabilityScore(undefined)).toBeNull();
+    expect(formatReliability(record(2))).toBe('New player');
+  });
+
+  it('counts a late cancel as half a no-show', () => {
+    expect(getReliabilityScore(record(18, 2))).toBe(90);
+    expect(getReliabilityScore(record(18, 0, 4))).toBe(90);
+    expect(formatReliability(record(18, 2))).toBe('90% reliable');
+  });
+});
+
+describe('getReliabilityTier', () => {
+  it('buckets scores by threshold', () => {
+    expect(getReliabilityTier(record(9, 1))).toBe('Reliable');
+    expect(getReliabilityTier(record(8, 2))).toBe('Fair');
+    expect(getReliabilityTier(record(5, 5))).toBe('Unreliable');
+    expect(getReliabilityTier(null)).toBe('New');
+  });
+});
+
+describe('isLateCancellation', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+
+  it('flags cancellations inside the window or after the start', () => {
+    expect(isLateCancellation('2026-03-11T06:00:00Z', 24, now)).toBe(true);
+    expect(isLateCancellation('2026-03-10T11:00:00Z', 24, now)).toBe(true);
+    expect(isLateCancellation('2026-03-11T13:00:00Z', 24, now)).toBe(false);
+  });
+
+  it('allows a zero-hour window', () => {
+    expect(isLateCancellation('2026-03-10T13:00:00Z', 0, now)).toBe(false);
+  });
+});
+
+describe('orderWaitlistByReliability', () => {
+  it('groups by tier and keeps waitlist order within a tier', () => {
+    const items = orderWaitlistByReliability([
+      { id: 'unreliable', waitlistPosition: 1, reliability: record(5, 5) },
+      { id: 'new', waitlistPosition: 2, reliability: null },
+      { id: 'reliable-late', waitlistPosition: 4, reliability: record(20) },
+      { id: 'reliable-early', waitlistPosition: 3, reliability: record(10) },
+      { id: 'fair', waitlistPosition: 5, reliability: record(8, 2) },
+    ]);
+
+    expect(items).toEqual([
+      { registrationId: 'reliable-early', position: 1 },
+      { registrationId: 'reliable-late', position: 2 },
+      { registrationId: 'new', position: 3 },
+      { registrationId: 'fair', position: 4 },
+      { registrationId: 'unreliable', position: 5 },
+    ]);
+  });
+});
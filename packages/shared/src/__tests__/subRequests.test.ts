@@ -0,0 +1,71 @@
+import { getMatchingSubRequests, getSubPaymentPlan, isEligibleSub } from '../utils/subRequests';
+import type { SubRequestDto } from '../types';
+
+const request = (overrides: Partial<SubRequestDto> = {}): SubRequestDto => ({
+  id: 'sub-1',
+  status: 'Open',
+  requesterId: 'user-1',
+  requesterFirstName: 'Sam',
+  requesterLastName: 'Lee',
+  requesterVenmoHandle: 'sam-lee',
+  position: 'Skater',
+  skillLevels: ['Silver', 'Gold'],
+  eventId: 'event-1',
+  title: 'Tuesday Pickup',
+  gameDate: '2026-03-10T22:00:00Z',
+  cost: 20,
+  requesterPaymentStatus: 'Verified',
+  organizerVenmoHandle: 'rink-boss',
+  createdAt: '2026-03-01T12:00:00Z',
+  ...overrides,
+});
+
+describe('isEligibleSub', () => {
+  it('matches position and skill level', () => {
+    expect(isEligibleSub(request(), { skater: 'Silver' })).toBe(true);
+    expect(isEligibleSub(request(), { skater: 'Bronze' })).toBe(false);
+    expect(isEligibleSub(request(), { goalie: 'Gold' })).toBe(false);
+    expect(isEligibleSub(request(), undefined)).toBe(false);
+  });
+
+  it('matches any skill when the request has none', () => {
+    expect(isEligibleSub(request({ position: 'Goalie', skillLevels: [] }), { goalie: 'D-League' })).toBe(true);
+    expect(isEligibleSub(request({ skillLevels: undefined }), { skater: 'Bronze' })).toBe(true);
+  });
+});
+
+describe('getMatchingSubRequests', () => {
+  it('keeps open requests from other players, soonest first', () => {
+    const requests = [
+      request({ id: 'later', gameDate: '2026-03-20T22:00:00Z' }),
+      request({ id: 'mine', requesterId: 'user-2' }),
+      request({ id: 'filled', status: 'Filled' }),
+      request({ id: 'goalie', position: 'Goalie' }),
+      request({ id: 'sooner', gameDate: '2026-03-05T22:00:00Z' }),
+    ];
+    const matches = getMatchingSubRequests(requests, { id: 'user-2', positions: { skater: 'Gold' } });
+    expect(matches.map((r) => r.id)).toEqual(['sooner', 'later']);
+  });
+});
+
+describe('getSubPaymentPlan', () => {
+  it('has the sub pay a requester who already paid', () => {
+    expect(getSubPaymentPlan(request())).toEqual({ payee: 'requester', amount: 20, venmoHandle: 'sam-lee' });
+    expect(getSubPaymentPlan(request({ requesterPaymentStatus: 'MarkedPaid' })).payee).toBe('requester');
+  });
+
+  it('leaves an unpaid spot owed to the organizer', () => {
+    expect(getSubPaymentPlan(request({ requesterPaymentStatus: 'Pending' }))).toEqual({
+      payee: 'organizer',
+      amount: 20,
+      venmoHandle: 'rink-boss',
+    });
+  });
+
+  it('needs no payment for free spots', () => {
+    expect(getSubPaymentPlan(request({ cost: 0, requesterPaymentStatus: undefined }))).toEqual({
+      payee: 'none',
+      amount: 0,
+    });
+  });
+});
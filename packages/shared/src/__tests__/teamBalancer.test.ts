@@ -0,0 +1,130 @@
+import { balanceTeams, getSkillPoints } from '../utils/teamBalancer';
+import type { BalanceableRegistration } from '../utils/teamBalancer';
+import type { SkillLevel, TeamAssignment } from '../types';
+
+const skater = (
+  id: string,
+  level?: SkillLevel,
+  teamAssignment?: TeamAssignment,
+  rosterOrder?: number
+): BalanceableRegistration => ({
+  id,
+  registeredPosition: 'Skater',
+  teamAssignment,
+  rosterOrder,
+  user: { positions: level ? { skater: level } : undefined },
+});
+
+const goalie = (id: string, level?: SkillLevel, teamAssignment?: TeamAssignment): BalanceableRegistration => ({
+  id,
+  registeredPosition: 'Goalie',
+  teamAssignment,
+  user: { positions: level ? { goalie: level, skater: 'D-League' } : undefined },
+});
+
+const teamOf = (result: ReturnType<typeof balanceTeams>, id: string) =>
+  result.items.find((item) => item.registrationId === id)?.teamAssignment;
+
+describe('getSkillPoints', () => {
+  it('uses the skill level for the registered position', () => {
+    expect(getSkillPoints(goalie('g', 'Gold'))).toBe(4);
+    expect(getSkillPoints({ ...goalie('g', 'Gold'), registeredPosition: 'Skater' })).toBe(1);
+  });
+
+  it('counts unrated players as Bronze', () => {
+    expect(getSkillPoints(skater('s'))).toBe(2);
+  });
+});
+
+describe('balanceTeams', () => {
+  it('gives each team one goalie and evens out skill', () => {
+    const result = balanceTeams([
+      goalie('g1', 'Gold'),
+      goalie('g2', 'Silver'),
+      skater('s1', 'Gold'),
+      skater('s2', 'Gold'),
+      skater('s3', 'Silver'),
+      skater('s4', 'Bronze'),
+      skater('s5', 'Bronze'),
+      skater('s6', 'Bronze'),
+    ]);
+
+    expect(result.black.goalies).toBe(1);
+    expect(result.white.goalies).toBe(1);
+    expect(result.black.skaters).toBe(3);
+    expect(result.white.skaters).toBe(3);
+    expect(result.black.skillPoints).toBe(result.white.skillPoints);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('keeps locked players on their team', () => {
+    const result = balanceTeams(
+      [skater('s1', 'Gold'), skater('s2', 'Gold'), skater('s3', 'D-League'), skater('s4', 'D-League')],
+      { locks: { s1: 'White', s2: 'White' } }
+    );
+
+    expect(teamOf(result, 's1')).toBe('White');
+    expect(teamOf(result, 's2')).toBe('White');
+    expect(teamOf(result, 's3')).toBe('Black');
+    expect(teamOf(result, 's4')).toBe('Black');
+  });
+
+  it('keeps skater counts within one', () => {
+    const result = balanceTeams([
+      skater('s1', 'Gold'),
+      skater('s2', 'D-League'),
+      skater('s3', 'D-League'),
+      skater('s4', 'D-League'),
+      skater('s5', 'D-League'),
+    ]);
+
+    expect(Math.abs(result.black.skaters - result.white.skaters)).toBe(1);
+  });
+
+  it('orders goalies first and keeps the roster order of players who stay', () => {
+    const result = balanceTeams([
+      goalie('g1', 'Silver', 'Black'),
+      goalie('g2', 'Silver', 'White'),
+      skater('s1', 'Silver', 'Black', 2),
+      skater('s2', 'Silver', 'Black', 1),
+      skater('s3', 'Silver', 'White', 1),
+      skater('s4', 'Silver', 'White', 2),
+    ]);
+
+    expect(result.movedCount).toBe(0);
+    expect(result.items).toEqual([
+      { registrationId: 'g1', teamAssignment: 'Black', rosterOrder: 0 },
+      { registrationId: 'g2', teamAssignment: 'White', rosterOrder: 0 },
+      { registrationId: 's2', teamAssignment: 'Black', rosterOrder: 1 },
+      { registrationId: 's1', teamAssignment: 'Black', rosterOrder: 2 },
+      { registrationId: 's3', teamAssignment: 'White', rosterOrder: 1 },
+      { registrationId: 's4', teamAssignment: 'White', rosterOrder: 2 },
+    ]);
+  });
+
+  it('proposes a different split with a random source but stays balanced', () => {
+    const players = ['a', 'b', 'c', 'd', 'e', 'f'].map((id) => skater(id, 'Silver'));
+    const values = [0.9, 0.1, 0.7, 0.3, 0.5];
+    let call = 0;
+    const result = balanceTeams(players, { random: () => values[call++ % values.length] });
+
+    expect(result.black.skillPoints).toBe(result.white.skillPoints);
+    expect(result.items.filter((item) => item.teamAssignment === 'Black').map((item) => item.registrationId))
+      .not.toEqual(
+        balanceTeams(players).items.filter((item) => item.teamAssignment === 'Black').map((item) => item.registrationId)
+      );
+  });
+
+  it('warns about missing goalies and unrated players', () => {
+    expect(balanceTeams([skater('s1', 'Gold'), skater('s2')]).warnings).toEqual([
+      'No goalies registered',
+      '1 player has no skill level and counts as Bronze',
+    ]);
+    expect(balanceTeams([goalie('g1', 'Gold'), skater('s1', 'Gold')]).warnings).toEqual([
+      'Only one goalie registered; White has none',
+    ]);
+    expect(
+      balanceTeams([goalie('g1', 'Gold'), goalie('g2', 'Gold')], { locks: { g1: 'Black', g2: 'Black' } }).warnings
+    ).toEqual(['White has no goalie']);
+  });
+});
@@ -0,0 +1,23 @@
+import { parseTiebreakerOrder, serializeTiebreakerOrder } from '../utils/tiebreakers';
+
+describe('parseTiebreakerOrder', () => {
+  it('falls back to the default order when unset or unreadable', () => {
+    const fallback = ['HeadToHead', 'GoalDifferential', 'GoalsScored'];
+    expect(parseTiebreakerOrder(undefined)).toEqual(fallback);
+    expect(parseTiebreakerOrder('')).toEqual(fallback);
+    expect(parseTiebreakerOrder('not json')).toEqual(fallback);
+    expect(parseTiebreakerOrder('{"a":1}')).toEqual(fallback);
+  });
+
+  it('drops unknown and duplicate criteria', () => {
+    expect(parseTiebreakerOrder('["GoalsAgainst","Bogus","GoalsAgainst","CoinFlip"]')).toEqual([
+      'GoalsAgainst',
+      'CoinFlip',
+    ]);
+  });
+
+  it('round-trips through serializeTiebreakerOrder', () => {
+    const order = ['FewestPenaltyMinutes', 'HeadToHead'] as const;
+    expect(parseTiebreakerOrder(serializeTiebreakerOrder([...order]))).toEqual(order);
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  buildScheduleSlots,
+  findScheduleConflicts,
+  generateSchedule,
+  swapScheduledMatches,
+  validateScheduleSettings,
+} from '../utils/tournamentSchedule';
+import type { SchedulableMatch } from '../utils/tournamentSchedule';
+import type { ScheduleSettings } from '../types';
+
+const at = (time: string) => new Date(`2026-03-07T${time}:00Z`).toISOString();
+
+const settings = (overrides: Partial<ScheduleSettings> = {}): ScheduleSettings => ({
+  rinks: ['Rink A', 'Rink B'],
+  windows: [{ start: at('08:00'), end: at('12:00') }],
+  slotMinutes: 60,
+  minRestMinutes: 60,
+  ...overrides,
+});
+
+const match = (id: string, overrides: Partial<SchedulableMatch> = {}): SchedulableMatch => ({
+  id,
+  round: 1,
+  matchNumber: Number(id.replace(/\D/g, '')) || 1,
+  isBye: false,
+  status: 'Scheduled',
+  ...overrides,
+});
+
+const game = (id: string, home: string, away: string, round = 1) =>
+  match(id, { round, homeTeamId: home, homeTeamName: home, awayTeamId: away, awayTeamName: away });
+
+describe('validateScheduleSettings', () => {
+  it('accepts sensible settings', () => {
+    expect(validateScheduleSettings(settings())).toEqual([]);
+  });
+
+  it('checks rinks, lengths and windows', () => {
+    const errors = validateScheduleSettings(
+      settings({
+        rinks: ['Main', 'main '],
+        slotMinutes: 10,
+        minRestMinutes: -5,
+        windows: [
+          { start: at('10:00'), end: at('09:00') },
+          { start: at('12:00'), end: at('14:00') },
+          { start: at('13:00'), end: at('15:00') },
+        ],
+      })
+    );
+
+    expect(errors).toEqual([
+      'Rink names must be different',
+      'Game length must be 20 to 180 minutes',
+      'Rest between games must be 0 or more minutes',
+      'Window 1: end must be after start',
+      'Window 3: overlaps another window',
+    ]);
+  });
+
+  it('requires windows long enough for a game', () => {
+    expect(
+      validateScheduleSettings(settings({ rinks: [], windows: [{ start: at('08:00'), end: at('08:30') }] }))
+    ).toEqual(['Add at least one rink', 'Window 1: too short for one game']);
+  });
+});
+
+describe('buildScheduleSlots', () => {
+  it('fills each window with every rink per start time', () => {
+    const slots = buildScheduleSlots(settings({ windows: [{ start: at('08:00'), end: at('10:30') }] }));
+
+    expect(slots).toEqual([
+      { venue: 'Rink A', scheduledTime: at('08:00') },
+      { venue: 'Rink B', scheduledTime: at('08:00') },
+      { venue: 'Rink A', scheduledTime: at('09:00') },
+      { venue: 'Rink B', scheduledTime: at('09:00') },
+    ]);
+  });
+});
+
+describe('generateSchedule', () => {
+  it('uses both rinks and gives teams their rest', () => {
+    const draft = generateSchedule(
+      [game('m1', 'A', 'B'), game('m2', 'C', 'D'), game('m3', 'A', 'C', 2), game('m4', 'B', 'D', 2)],
+      settings()
+    );
+
+    expect(draft.unscheduledMatchIds).toEqual([]);
+    expect(draft.slots.map((s) => [s.matchId, s.venue, s.scheduledTime])).toEqual([
+      ['m1', 'Rink A', at('08:00')],
+      ['m2', 'Rink B', at('08:00')],
+      ['m3', 'Rink A', at('10:00')],
+      ['m4', 'Rink B', at('10:00')],
+    ]);
+  });
+
+  it('skips byes and games already played', () => {
+    const draft = generateSchedule(
+      [game('m1', 'A', 'B'), match('m2', { isBye: true }), { ...game('m3', 'C', 'D'), status: 'Completed' }],
+      settings()
+    );
+
+    expect(draft.slots.map((s) => s.matchId)).toEqual(['m1']);
+  });
+
+  it('waits for the bracket games that decide a match', () => {
+    const draft = generateSchedule(
+      [
+        { ...game('m1', 'A', 'B'), nextMatchId: 'm3' },
+        { ...game('m2', 'C', 'D'), nextMatchId: 'm3' },
+        match('m3', { round: 2 }),
+      ],
+      settings({ rinks: ['Rink A'], minRestMinutes: 30, windows: [{ start: at('08:00'), end: at('13:00') }] })
+    );
+
+    expect(draft.slots.map((s) => [s.matchId, s.scheduledTime])).toEqual([
+      ['m1', at('08:00')],
+      ['m2', at('09:00')],
+      ['m3', at('11:00')],
+    ]);
+  });
+
+  it('reports matches that do not fit', () => {
+    const draft = generateSchedule(
+      [game('m1', 'A', 'B'), game('m2', 'A', 'C'), game('m3', 'D', 'E')],
+      settings({ windows: [{ start: at('08:00'), end: at('09:00') }] })
+    );
+
+    expect(draft.slots.map((s) => s.matchId)).toEqual(['m1', 'm3']);
+    expect(draft.unscheduledMatchIds).toEqual(['m2']);
+  });
+
+  it('balances home games when asked', () => {
+    const matches = [game('m1', 'A', 'B'), game('m2', 'A', 'C', 2), game('m3', 'A', 'D', 3)];
+    const options = settings({ windows: [{ start: at('08:00'), end: at('18:00') }] });
+
+    const balanced = generateSchedule(matches, options, { balanceHomeAway: true });
+    expect(balanced.slots.map((s) => s.homeTeamId)).toEqual(['A', 'C', 'A']);
+
+    const asDrawn = generateSchedule(matches, options);
+    expect(asDrawn.slots.map((s) => s.homeTeamId)).toEqual(['A', 'A', 'A']);
+  });
+});
+
+describe('swapScheduledMatches', () => {
+  it('swaps matches and keeps the slots in place', () => {
+    const { slots } = generateSchedule([game('m1', 'A', 'B'), game('m2', 'C', 'D')], settings());
+    const swapped = swapScheduledMatches(slots, 'm1', 'm2');
+
+    expect(swapped.map((s) => [s.matchId, s.venue, s.homeTeamId])).toEqual([
+      ['m2', 'Rink A', 'C'],
+      ['m1', 'Rink B', 'A'],
+    ]);
+    expect(swapScheduledMatches(slots, 'm1', 'missing')).toBe(slots);
+  });
+});
+
+describe('findScheduleConflicts', () => {
+  const matches = [game('m1', 'A', 'B'), game('m2', 'C', 'D'), game('m3', 'A', 'C', 2)];
+
+  it('finds nothing in a generated schedule', () => {
+    const { slots } = generateSchedule(matches, settings());
+    expect(findScheduleConflicts(slots, matches, settings())).toEqual([]);
+  });
+
+  it('flags short rest after a swap', () => {
+    const { slots } = generateSchedule([...matches, game('m4', 'E', 'F')], settings());
+    // m3 (A vs C) moves into m4's 09:00 slot, an hour early
+    const swapped = swapScheduledMatches(slots, 'm3', 'm4');
+
+    expect(findScheduleConflicts(swapped, matches, settings())).toEqual([
+      { matchId: 'm3', message: 'A only gets 0 min of rest before this game' },
+      { matchId: 'm3', message: 'C only gets 0 min of rest before this game' },
+    ]);
+  });
+
+  it('names the team from the slot when home and away were swapped', () => {
+    const named = [
+      match('m1', { homeTeamId: 'A', homeTeamName: 'Aces', awayTeamId: 'B', awayTeamName: 'Bears' }),
+      match('m2', { homeTeamId: 'C', homeTeamName: 'Comets', awayTeamId: 'B', awayTeamName: 'Bears' }),
+    ];
+    const slots = [
+      { matchId: 'm1', venue: 'Rink A', scheduledTime: at('08:00'), homeTeamId: 'B', awayTeamId: 'A' },
+      { matchId: 'm2', venue: 'Rink A', scheduledTime: at('09:00'), homeTeamId: 'B', awayTeamId: 'C' },
+    ];
+
+    expect(findScheduleConflicts(slots, named, settings())).toEqual([
+      { matchId: 'm2', message: 'Bears only gets 0 min of rest before this game' },
+    ]);
+  });
+
+  it('flags bracket games before their feeders', () => {
+    const bracket = [{ ...game('m1', 'A', 'B'), nextMatchId: 'm2' }, match('m2', { round: 2 })];
+    const slots = [
+      { matchId: 'm1', venue: 'Rink A', scheduledTime: at('09:00'), homeTeamId: 'A', awayTeamId: 'B' },
+      { matchId: 'm2', venue: 'Rink B', scheduledTime: at('09:00') },
+    ];
+
+    expect(findScheduleConflicts(slots, bracket, settings())).toEqual([
+      { matchId: 'm2', message: 'Starts before Match 1, which decides who plays' },
+    ]);
+  });
+});
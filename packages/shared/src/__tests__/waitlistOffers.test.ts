@@ -0,0 +1,37 @@
+import {
+  formatOfferCountdown,
+  getOfferTimeRemaining,
+  isOfferActive,
+} from '../utils/waitlistOffers';
+
+const now = new Date('2026-03-10T20:00:00Z');
+
+describe('getOfferTimeRemaining', () => {
+  it('counts down to the expiry and stops at zero', () => {
+    expect(getOfferTimeRemaining('2026-03-10T20:30:00Z', now)).toBe(30 * 60 * 1000);
+    expect(getOfferTimeRemaining('2026-03-10T19:00:00Z', now)).toBe(0);
+  });
+
+  it('is null without an offer', () => {
+    expect(getOfferTimeRemaining(null, now)).toBeNull();
+    expect(getOfferTimeRemaining(undefined, now)).toBeNull();
+  });
+});
+
+describe('isOfferActive', () => {
+  it('is true only for waitlisted players with time left', () => {
+    expect(isOfferActive({ isWaitlisted: true, offerExpiresAt: '2026-03-10T20:05:00Z' }, now)).toBe(true);
+    expect(isOfferActive({ isWaitlisted: true, offerExpiresAt: '2026-03-10T19:55:00Z' }, now)).toBe(false);
+    expect(isOfferActive({ isWaitlisted: false, offerExpiresAt: '2026-03-10T20:05:00Z' }, now)).toBe(false);
+    expect(isOfferActive({ isWaitlisted: true, offerExpiresAt: null }, now)).toBe(false);
+  });
+});
+
+describe('formatOfferCountdown', () => {
+  it('shows hours and minutes, then minutes and seconds in the last hour', () => {
+    expect(formatOfferCountdown((65 * 60 + 30) * 1000)).toBe('1h 05m');
+    expect(formatOfferCountdown((4 * 60 + 9) * 1000)).toBe('4m 09s');
+    expect(formatOfferCountdown(999)).toBe('0m 00s');
+    expect(formatOfferCountdown(0)).toBe('Expired');
+  });
+});
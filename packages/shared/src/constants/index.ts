@@ -1,6 +1,14 @@
+import type { BadgeRuleTrigger, CustomQuestionType, NotificationType, SkillLevel, TiebreakerCriterion } from '../types';
+
 // Skill levels
 export const SKILL_LEVELS = ['Gold', 'Silver', 'Bronze', 'D-League'] as const;
 
+// Team balancer: points per skill level; unrated players count as Bronze
+export const TEAM_BALANCE = {
+  SKILL_POINTS: { Gold: 4, Silver: 3, Bronze: 2, 'D-League': 1 } as Record<SkillLevel, number>,
+  UNRATED_POINTS: 2,
+} as const;
+
 // Positions (simplified to Goalie and Skater)
 export const POSITIONS = ['Goalie', 'Skater'] as const;
 
@@ -27,3 +35,195 @@ export const DEFAULTS = {
   MAX_PLAYERS: 20,
   EVENT_COST: 0,
 } as const;
+
+// Event series limits
+export const EVENT_SERIES = {
+  MAX_GAMES: 52,      // One season of weekly games
+  DEFAULT_GAMES: 8,
+} as const;
+
+// Attendance and player reliability
+export const RELIABILITY = {
+  DEFAULT_LATE_CANCEL_WINDOW_HOURS: 24,  // Used when an org hasn't set its own window
+  MAX_LATE_CANCEL_WINDOW_HOURS: 168,
+  MIN_GAMES_FOR_SCORE: 5,                // Fewer recorded games than this shows as "New"
+  LATE_CANCEL_WEIGHT: 0.5,               // A late cancel costs half a no-show
+  RELIABLE_SCORE: 90,
+  FAIR_SCORE: 75,
+} as const;
+
+// Waitlist offers ('Offer' promotion mode)
+export const WAITLIST_OFFERS = {
+  DEFAULT_WINDOW_MINUTES: 120,           // Used when an org hasn't set its own window
+  MIN_WINDOW_MINUTES: 15,
+  MAX_WINDOW_MINUTES: 1440,
+  NOTIFICATION_CATEGORY: 'waitlist_offer', // Push category carrying the accept/decline actions
+  ACCEPT_ACTION: 'accept_offer',
+  DECLINE_ACTION: 'decline_offer',
+} as const;
+
+// Notification preferences. Only the listed types can be muted - the rest are
+// about the player's own spot (offers, transfers, filled subs) or organizer duties.
+export const NOTIFICATION_PREFERENCES = {
+  DEFAULT_GAME_REMINDER_HOURS: 2,
+  GAME_REMINDER_HOUR_OPTIONS: [1, 2, 3, 6, 12, 24],
+  ORGANIZATION_TYPES: [
+    'new_event',
+    'game_reminder',
+    'payment_reminder',
+    'event_invite',
+    'sub_request',
+    'organization_announcement',
+    'chat_mention',
+  ] as NotificationType[],
+  TOURNAMENT_TYPES: ['game_reminder', 'sub_request'] as NotificationType[],
+} as const;
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  new_event: 'New games',
+  waitlist_promoted: 'Waitlist promotions',
+  waitlist_joined: 'Waitlist sign-ups',
+  waitlist_promotion: 'Waitlist promotions (organizer)',
+  payment_reminder: 'Payment reminders',
+  game_reminder: 'Game reminders',
+  organizer_payment_reminder: 'Unpaid player reminders',
+  not_full_reminder: 'Roster not full',
+  sub_request: 'Sub requests',
+  sub_request_filled: 'Sub request filled',
+  event_invite: 'Invitations',
+  registration_transfer: 'Spot transfers',
+  registration_transferred: 'Completed transfers',
+  waitlist_offer: 'Waitlist offers',
+  waitlist_offer_expired: 'Expired waitlist offers',
+  organization_announcement: 'Announcements',
+  chat_mention: 'Chat mentions',
+};
+
+// Deep links (custom scheme and https universal links share one route table).
+// The API serves the /.well-known association files on the universal link host.
+export const DEEP_LINKS = {
+  SCHEME: 'bhmhockey',
+  UNIVERSAL_LINK_HOSTS: ['bhmhockey-mb3md.ondigitalocean.app'],  // First host is used when building links
+} as const;
+
+// In-app event and organization chat
+export const CHAT = {
+  PAGE_SIZE: 30,
+  MAX_MESSAGE_LENGTH: 1000,
+  POLL_INTERVAL_MS: 15000,  // How often an open thread checks for new messages
+  MAX_MENTION_SUGGESTIONS: 5,
+} as const;
+
+// InviteOnly event invitations
+export const INVITATIONS = {
+  LINK_EXPIRY_OPTIONS_HOURS: [24, 72, 168],  // Organizer picks one, or no expiry (valid until the game)
+} as const;
+
+// Rink check-in QR codes
+export const CHECK_IN = {
+  CODE_PREFIX: 'bhmhockey-checkin:',  // Codes look like "bhmhockey-checkin:<registrationId>.<token>"
+} as const;
+
+// iCalendar export and subscription feed
+export const CALENDAR = {
+  PRODID: '-//BHM Hockey//Games//EN',
+  UID_DOMAIN: 'bhmhockey',
+  FEED_NAME: 'BHM Hockey',
+  DEFAULT_MATCH_DURATION_MINUTES: 60,  // Tournament matches have no length of their own
+} as const;
+
+// Availability time windows offered in the profile editor (local times)
+export const AVAILABILITY_WINDOWS = [
+  { label: 'Mornings', startTime: '06:00', endTime: '12:00' },
+  { label: 'Afternoons', startTime: '12:00', endTime: '17:00' },
+  { label: 'Evenings', startTime: '17:00', endTime: '21:00' },
+  { label: 'Late nights', startTime: '21:00', endTime: '24:00' },
+] as const;
+
+// Tournament tiebreakers, in the order the settings editor lists them
+export const TIEBREAKER_LABELS: Record<TiebreakerCriterion, string> = {
+  HeadToHead: 'Head-to-head record',
+  GoalDifferential: 'Goal differential',
+  GoalsScored: 'Goals scored',
+  GoalsAgainst: 'Fewest goals allowed',
+  FewestPenaltyMinutes: 'Fewest penalty minutes',
+  CoinFlip: 'Coin flip',
+};
+
+// Used when a tournament has no tiebreakerOrder (matches the API default)
+export const DEFAULT_TIEBREAKER_ORDER: readonly TiebreakerCriterion[] = [
+  'HeadToHead',
+  'GoalDifferential',
+  'GoalsScored',
+];
+
+// Tournament custom registration questions
+export const CUSTOM_QUESTIONS_SCHEMA_VERSION = 2;  // The API rejects versions newer than it knows
+
+export const CUSTOM_QUESTION_TYPE_LABELS: Record<CustomQuestionType, string> = {
+  text: 'Text',
+  yesno: 'Yes/No',
+  dropdown: 'Dropdown',
+  number: 'Number',
+  multiselect: 'Multi-select',
+  date: 'Date',
+  jerseyNumber: 'Jersey Number',
+  tshirtSize: 'T-Shirt Size',
+};
+
+export const TSHIRT_SIZES = ['XS', 'S', 'M', 'L', 'XL', 'XXL', '3XL'] as const;
+
+export const JERSEY_NUMBER = {
+  MIN: 0,
+  MAX: 99,
+} as const;
+
+// Tournament game sheets
+export const GAME_SHEET = {
+  REGULATION_PERIODS: 3,  // Later periods are overtime
+  MAX_PERIODS: 6,
+  MAX_PERIOD_MINUTES: 60,
+} as const;
+
+export const PENALTY_MINUTES = [2, 4, 5, 10] as const;
+
+// Tournament schedule generator
+export const SCHEDULE = {
+  DEFAULT_SLOT_MINUTES: 60,
+  MIN_SLOT_MINUTES: 20,
+  MAX_SLOT_MINUTES: 180,
+  DEFAULT_MIN_REST_MINUTES: 60,
+  MAX_RINKS: 8,
+} as const;
+
+// Live match clock
+export const LIVE_MATCH = {
+  DEFAULT_PERIOD_MINUTES: 15,
+  MIN_PERIOD_MINUTES: 5,
+  MAX_PERIOD_MINUTES: GAME_SHEET.MAX_PERIOD_MINUTES,
+} as const;
+
+export const COMMON_INFRACTIONS = [
+  'Tripping',
+  'Hooking',
+  'Slashing',
+  'Holding',
+  'Interference',
+  'High-sticking',
+  'Cross-checking',
+  'Roughing',
+  'Boarding',
+  'Too many men',
+  'Delay of game',
+  'Unsportsmanlike conduct',
+  'Misconduct',
+] as const;
+
+// Badge categories
+export const BADGE_CATEGORIES = ['achievement', 'milestone', 'social'] as const;
+
+// Automatic badge rule triggers
+export const BADGE_RULE_TRIGGER_LABELS: Record<BadgeRuleTrigger, string> = {
+  TournamentPlacement: 'Tournament finish',
+  GamesPlayed: 'Games played',
+};
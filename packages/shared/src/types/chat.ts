@@ -0,0 +1,42 @@
+// ============================================
+// In-App Chat Types
+// ============================================
+
+// Every event and organization has at most one thread
+export type ChatThreadType = 'Event' | 'Organization';
+
+// Response DTO
+export interface ChatMessageDto {
+  id: string;
+  threadType: ChatThreadType;
+  threadId: string;                 // Event ID or Organization ID
+  senderUserId: string;
+  senderFirstName: string;
+  senderLastName: string;
+  body: string;
+  mentionedUserIds: string[];
+  isPinned: boolean;
+  pinnedAt: string | null;          // ISO date string
+  createdAt: string;                // ISO date string
+}
+
+// One page of history, newest first. Pass nextCursor as `before` to load
+// older messages; null when the start of the thread was reached.
+export interface ChatMessagePageDto {
+  messages: ChatMessageDto[];
+  pinnedMessages: ChatMessageDto[];  // Always the thread's full pinned set
+  nextCursor: string | null;
+}
+
+// Send request - mentioned users get a push notification
+export interface SendChatMessageRequest {
+  body: string;
+  mentionedUserIds?: string[];
+}
+
+// Someone who can be @mentioned in a thread
+export interface ChatParticipant {
+  userId: string;
+  firstName: string;
+  lastName: string;
+}
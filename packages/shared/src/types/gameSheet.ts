@@ -0,0 +1,87 @@
+// ============================================
+// Tournament Game Sheet Types
+// ============================================
+
+// Goal on a game sheet (period 4+ is overtime)
+export interface MatchGoalDto {
+  id: string;
+  teamId: string;
+  scorerUserId: string;
+  scorerName: string;
+  primaryAssistUserId?: string;
+  primaryAssistName?: string;
+  secondaryAssistUserId?: string;
+  secondaryAssistName?: string;
+  period: number;
+  time: string;  // "MM:SS" elapsed in the period
+}
+
+// Penalty on a game sheet
+export interface MatchPenaltyDto {
+  id: string;
+  teamId: string;
+  playerUserId: string;
+  playerName: string;
+  infraction: string;
+  minutes: number;
+  period: number;
+  time: string;  // "MM:SS" elapsed in the period
+}
+
+// Goalie of record for one team
+export interface MatchGoalieDto {
+  teamId: string;
+  userId: string;
+  name: string;
+  shotsAgainst?: number;  // Needed for save percentage
+}
+
+// Full game sheet for a match
+export interface GameSheetDto {
+  matchId: string;
+  tournamentId: string;
+  goals: MatchGoalDto[];
+  penalties: MatchPenaltyDto[];
+  goalies: MatchGoalieDto[];
+  homeScore: number;  // Derived from goals
+  awayScore: number;  // Derived from goals
+  isFinal: boolean;   // True once the match was completed from this sheet
+  updatedAt?: string;
+  updatedByName?: string;
+}
+
+// Goal entry when saving a game sheet
+export interface GameSheetGoalRequest {
+  teamId: string;
+  scorerUserId: string;
+  primaryAssistUserId?: string;
+  secondaryAssistUserId?: string;
+  period: number;
+  time: string;
+}
+
+// Penalty entry when saving a game sheet
+export interface GameSheetPenaltyRequest {
+  teamId: string;
+  playerUserId: string;
+  infraction: string;
+  minutes: number;
+  period: number;
+  time: string;
+}
+
+// Goalie entry when saving a game sheet
+export interface GameSheetGoalieRequest {
+  teamId: string;
+  userId: string;
+  shotsAgainst?: number;
+}
+
+// Replace a match's game sheet - the API derives the score from the goals
+export interface SaveGameSheetRequest {
+  goals: GameSheetGoalRequest[];
+  penalties: GameSheetPenaltyRequest[];
+  goalies: GameSheetGoalieRequest[];
+  isFinal: boolean;            // True completes the match with the derived score
+  overtimeWinnerId?: string;   // Required when a final sheet is tied in elimination formats
+}
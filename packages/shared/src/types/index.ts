@@ -67,6 +67,10 @@ export interface Organization {
   defaultVisibility?: EventVisibility | null;
   defaultShowWaitlistBeforePublish?: boolean | null;  // Pre-fills showWaitlistBeforePublish on new events
   groupMeLink?: string | null;  // Org-wide GroupMe chat link (events fall back to this)
+  inAppChatEnabled?: boolean;  // true = the org turned on in-app chat; otherwise it uses its GroupMe link
+  lateCancelWindowHours?: number | null;  // Cancelling this close to game time counts as a late cancel (null = default)
+  waitlistPromotionMode?: WaitlistPromotionMode | null;  // How open spots reach the waitlist (null = 'Immediate')
+  waitlistOfferWindowMinutes?: number | null;  // How long an 'Offer' mode offer stays open (null = default)
 }
 
 // Organization admin info
@@ -98,6 +102,8 @@ export interface OrganizationMember {
   badges?: UserBadgeDto[];  // Top 3 badges by displayOrder
   totalBadgeCount?: number;  // Total badges user has earned
   hasAcceptedCurrentWaiver?: boolean | null;  // null when the org has no active waiver
+  reliability?: ReliabilityDto | null;  // Only populated for admin viewers
+  availability?: AvailabilitySlot[];    // Only populated for admin viewers
 }
 
 // ============================================
@@ -197,6 +203,10 @@ export interface CreateOrganizationRequest {
   defaultVisibility?: EventVisibility | null;
   defaultShowWaitlistBeforePublish?: boolean | null;
   groupMeLink?: string | null;  // Org-wide GroupMe chat link
+  inAppChatEnabled?: boolean | null;
+  lateCancelWindowHours?: number | null;
+  waitlistPromotionMode?: WaitlistPromotionMode | null;
+  waitlistOfferWindowMinutes?: number | null;
 }
 
 export interface UpdateOrganizationRequest {
@@ -214,8 +224,18 @@ export interface UpdateOrganizationRequest {
   defaultVisibility?: EventVisibility | null;
   defaultShowWaitlistBeforePublish?: boolean | null;  // null/undefined leaves it unchanged
   groupMeLink?: string | null;  // Empty/whitespace clears the link; null/undefined leaves it unchanged
+  inAppChatEnabled?: boolean | null;  // null/undefined leaves it unchanged
+  lateCancelWindowHours?: number | null;  // null/undefined leaves it unchanged
+  waitlistPromotionMode?: WaitlistPromotionMode | null;  // null/undefined leaves it unchanged
+  waitlistOfferWindowMinutes?: number | null;  // null resets to the default; undefined leaves it unchanged
 }
 
+// Import organization announcement types from dedicated file
+export * from './organizationAnnouncement';
+
+// Import in-app chat types from dedicated file
+export * from './chat';
+
 // Event types
 export interface Event {
   id: string;
@@ -240,7 +260,7 @@ export type EventStatus = 'Draft' | 'Published' | 'Full' | 'Completed' | 'Cancel
 // Visibility options:
 // - Public: Anyone can see and register
 // - OrganizationMembers: Only subscribers of the organization (requires organizationId)
-// - InviteOnly: Only invited users can see/register (Phase B: will use invitations)
+// - InviteOnly: Only invited users (individual invites, org member invites or invite links) can see/register
 export type EventVisibility = 'Public' | 'OrganizationMembers' | 'InviteOnly';
 
 export interface EventRegistration {
@@ -256,6 +276,17 @@ export type RegistrationStatus = 'Registered' | 'Waitlisted' | 'Cancelled';
 // Payment status for event registrations (Phase 4)
 export type PaymentStatus = 'Pending' | 'MarkedPaid' | 'Verified';
 
+// Attendance recorded by the organizer after a game.
+// LateCancel is also set automatically when a rostered player cancels inside the org's window.
+export type AttendanceStatus = 'Present' | 'NoShow' | 'LateCancel';
+
+// A player's attendance record across all recorded games
+export interface ReliabilityDto {
+  gamesAttended: number;
+  noShows: number;
+  lateCancels: number;
+}
+
 // Registration result for register endpoint (Phase 5 - includes waitlist info)
 export interface RegistrationResultDto {
   status: 'Registered' | 'Waitlisted';
@@ -268,6 +299,13 @@ export interface RegistrationResultDto {
 // Team assignment for events
 export type TeamAssignment = 'Black' | 'White';
 
+// How an open roster spot reaches the waitlist.
+// Immediate: the next eligible waitlisted player is promoted right away.
+// Offer: the next waitlisted player gets a time-boxed offer to accept or decline;
+// expired or declined offers cascade to the next player, and promoted spots left
+// unpaid past paymentDeadlineAt are released again.
+export type WaitlistPromotionMode = 'Immediate' | 'Offer';
+
 // EventDto - API response with computed fields
 export interface EventDto {
   id: string;
@@ -315,6 +353,21 @@ export interface EventDto {
   // GroupMe chat link, resolved server-side at read time: event override wins, else org's link
   groupMeLink?: string | null;
   groupMeLinkSource?: 'event' | 'organization' | null; // Where the resolved link came from
+  // In-app chat, resolved server-side from the org's setting. Missing or false = use the GroupMe link
+  inAppChatEnabled?: boolean;
+  // Event series (recurring games)
+  seriesId?: string | null;      // Set when the event was generated from a recurring series
+  // Late cancellation window in hours, resolved server-side (org setting or default)
+  lateCancelWindowHours?: number;
+  // Current user's open sub request for their spot (null when none)
+  mySubRequestId?: string | null;
+  // Current user's pending transfer of their spot (null when none)
+  myTransferId?: string | null;
+  // Waitlist offers, resolved server-side from the org setting
+  waitlistPromotionMode?: WaitlistPromotionMode;
+  myOfferExpiresAt?: string | null;  // Set while the current user holds an open waitlist offer (ISO date string)
+  // Current user's invitation to an InviteOnly event (null when not invited)
+  myInvitationStatus?: EventInvitationStatus | null;
 }
 
 // EventRegistrationDto - API response for registration with user details
@@ -338,9 +391,17 @@ export interface EventRegistrationDto {
   waitlistPosition?: number;     // Position in waitlist (1 = first, null = not waitlisted)
   promotedAt?: string;           // When user was promoted from waitlist (ISO date string)
   paymentDeadlineAt?: string;    // Deadline to pay after promotion (ISO date string)
+  offeredAt?: string | null;     // When the current waitlist offer was sent ('Offer' mode)
+  offerExpiresAt?: string | null; // When the current waitlist offer lapses and cascades to the next player
   isWaitlisted: boolean;         // True if Status == "Waitlisted"
   // True ONLY when: org event + active waiver + real user (not ghost) + no current acceptance
   hasNotAcceptedWaiver?: boolean;
+  // Attendance (organizer views only)
+  attendanceStatus?: AttendanceStatus | null;  // null until the organizer takes attendance
+  reliability?: ReliabilityDto | null;
+  // Rink check-in (organizer views only)
+  checkedInAt?: string | null;   // ISO date string, null until scanned in
+  checkInToken?: string;         // Matches the player's pass so scans verify offline
 }
 
 // Event request types
@@ -376,6 +437,39 @@ export interface UpdateEventRequest {
   slotPositionLabels?: Record<number, string>;  // Slot position labels (e.g., {1: "C", 2: "LW"})
   groupMeLink?: string;          // Empty string clears the override (falls back to org); undefined leaves unchanged
   showWaitlistBeforePublish?: boolean;  // undefined leaves unchanged
+  applyTo?: SeriesEditScope;     // Series events only - default 'ThisEvent'
+}
+
+// Event series (recurring games)
+export type RecurrenceFrequency = 'Weekly' | 'BiWeekly' | 'SpecificDates';
+
+// Which games of a series an edit applies to
+export type SeriesEditScope = 'ThisEvent' | 'ThisAndFuture';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  startDate: string;             // "YYYY-MM-DD" - first game (Weekly/BiWeekly)
+  startTime: string;             // "HH:mm" local start time of every game
+  endDate?: string;              // "YYYY-MM-DD" inclusive - last possible game date
+  occurrences?: number;          // Number of games to create (used when endDate is not set)
+  specificDates?: string[];      // "YYYY-MM-DD" game dates (SpecificDates only)
+  skipDates?: string[];          // "YYYY-MM-DD" dates to leave out (rink closures, etc.)
+  skipHolidays?: boolean;        // Leave out US federal holidays
+}
+
+// Create every game of a series in one request. eventDates are the previewed
+// dates generated from recurrence; each game gets the shared event fields.
+export interface CreateEventSeriesRequest extends Omit<CreateEventRequest, 'eventDate'> {
+  recurrence: RecurrenceRule;
+  eventDates: string[];          // ISO date strings, one per game
+}
+
+export interface EventSeriesDto {
+  id: string;
+  organizationId?: string;
+  recurrence: RecurrenceRule;
+  events: EventDto[];            // Generated games, ordered by date
+  createdAt: string;
 }
 
 // Payment request types (Phase 4)
@@ -419,6 +513,38 @@ export interface ReorderWaitlistRequest {
   items: WaitlistOrderItem[];
 }
 
+// Attendance for one rostered registration; null clears it
+export interface AttendanceItem {
+  registrationId: string;
+  attendanceStatus: AttendanceStatus | null;
+}
+
+export interface UpdateAttendanceRequest {
+  items: AttendanceItem[];
+}
+
+// A player's personal check-in pass, shown as a QR code at the rink
+export interface CheckInPassDto {
+  registrationId: string;
+  token: string;  // Secret issued per registration, so a pass cannot be forged from the id alone
+}
+
+// One scan; checkedInAt is when it was scanned, which may be before an offline sync
+export interface CheckInItem {
+  registrationId: string;
+  token: string;
+  checkedInAt: string;
+}
+
+export interface CheckInRequest {
+  items: CheckInItem[];
+}
+
+export interface CheckInResultDto {
+  checkedIn: string[];  // Registration ids
+  rejected: { registrationId: string; reason: string }[];
+}
+
 // Team assignment request
 export interface UpdateTeamAssignmentRequest {
   teamAssignment: TeamAssignment;
@@ -469,6 +595,11 @@ export interface AuthResponse {
   user: User;
 }
 
+// Exchange a stored refresh token for a new access/refresh token pair
+export interface RefreshTokenRequest {
+  refreshToken: string;
+}
+
 export interface UpdateUserProfileRequest {
   firstName?: string;
   lastName?: string;
@@ -493,6 +624,7 @@ export interface ApiError {
   message: string;
   errors?: Record<string, string[]>;
   statusCode: number;
+  isNetworkError?: boolean;  // True when the request never got a response (offline, timeout)
 }
 
 // Notification types (Phase: In-App Notification Center)
@@ -504,7 +636,16 @@ export type NotificationType =
   | 'payment_reminder'
   | 'game_reminder'
   | 'organizer_payment_reminder'
-  | 'not_full_reminder';
+  | 'not_full_reminder'
+  | 'sub_request'
+  | 'sub_request_filled'
+  | 'event_invite'
+  | 'registration_transfer'
+  | 'registration_transferred'
+  | 'waitlist_offer'
+  | 'waitlist_offer_expired'
+  | 'organization_announcement'
+  | 'chat_mention';
 
 export interface Notification {
   id: string;
@@ -530,6 +671,39 @@ export interface UnreadCountResponse {
   unreadCount: number;
 }
 
+// Notification preferences (per-org and per-tournament type toggles, quiet hours, reminder lead time)
+export interface QuietHours {
+  start: string;                 // "HH:mm" local time, e.g. "22:00"
+  end: string;                   // "HH:mm" - earlier than start means the window spans midnight
+  timeZone: string;              // IANA zone the times are in, e.g. "America/Chicago"
+}
+
+export interface OrganizationNotificationPreference {
+  organizationId: string;
+  organizationName: string;
+  disabledTypes: NotificationType[];
+}
+
+export interface TournamentNotificationPreference {
+  tournamentId: string;
+  tournamentName: string;
+  disabledTypes: NotificationType[];
+}
+
+export interface NotificationPreferencesDto {
+  organizations: OrganizationNotificationPreference[];  // One per subscribed organization
+  tournaments: TournamentNotificationPreference[];      // One per upcoming or active tournament the user is in
+  quietHours: QuietHours | null;                        // null = no quiet hours
+  gameReminderHours: number;                            // Hours before a game the reminder is sent
+}
+
+export interface UpdateNotificationPreferencesRequest {
+  organizations: Pick<OrganizationNotificationPreference, 'organizationId' | 'disabledTypes'>[];
+  tournaments: Pick<TournamentNotificationPreference, 'tournamentId' | 'disabledTypes'>[];
+  quietHours: QuietHours | null;
+  gameReminderHours: number;
+}
+
 // Badge types (Phase: Badge System)
 export type BadgeCategory = 'achievement' | 'milestone' | 'social';
 
@@ -573,6 +747,52 @@ export interface BadgeContextGeneric {
   description: string;
 }
 
+// Badge administration (app admins only)
+export interface CreateBadgeTypeRequest {
+  code: string;          // Machine name, e.g. "tournament_winner"
+  name: string;
+  description: string;
+  iconName: string;      // Must be an icon bundled with the app
+  category: BadgeCategory;
+  sortPriority?: number;
+}
+
+export interface AwardBadgeRequest {
+  userId: string;
+  badgeTypeId: string;
+  context: BadgeContextTournament | BadgeContextGeneric;
+  earnedAt?: string;     // ISO date string, defaults to now
+}
+
+// Automatic badge rules. The API evaluates active rules when a tournament
+// completes or a game is played; badges it awards start uncelebrated.
+export type BadgeRuleTrigger = 'TournamentPlacement' | 'GamesPlayed';
+
+export interface BadgeRuleDto {
+  id: string;
+  badgeType: BadgeTypeDto;
+  trigger: BadgeRuleTrigger;
+  threshold: number;     // TournamentPlacement: finish at or above (1 = won). GamesPlayed: games needed.
+  isActive: boolean;
+  createdAt: string;
+}
+
+export interface CreateBadgeRuleRequest {
+  badgeTypeId: string;
+  trigger: BadgeRuleTrigger;
+  threshold: number;
+}
+
+export interface UpdateBadgeRuleRequest {
+  threshold?: number;
+  isActive?: boolean;
+}
+
+// Result of running a rule against existing players
+export interface ApplyBadgeRuleResponse {
+  awardedCount: number;
+}
+
 // User summary with badges (for roster cards)
 export interface UserSummaryDto {
   id: string;
@@ -656,9 +876,9 @@ export interface TournamentDto {
 
   // Configuration (JSON strings)
   notificationSettings?: string;
-  customQuestions?: string;
+  customQuestions?: string;     // JSON CustomQuestionSchema - see parseCustomQuestions
   eligibilityRequirements?: string;
-  tiebreakerOrder?: string;
+  tiebreakerOrder?: string;     // JSON array of TiebreakerCriterion - see parseTiebreakerOrder
 
   // Timestamps
   createdAt: string;
@@ -670,6 +890,7 @@ export interface TournamentDto {
 
   // Computed fields
   canManage: boolean;
+  canEnterScores: boolean;   // True for any tournament admin role, including Scorekeeper
 }
 
 // Request to create a tournament
@@ -714,9 +935,9 @@ export interface CreateTournamentRequest {
 
   // Configuration (JSON strings)
   notificationSettings?: string;
-  customQuestions?: string;
+  customQuestions?: string;     // JSON CustomQuestionSchema - see parseCustomQuestions
   eligibilityRequirements?: string;
-  tiebreakerOrder?: string;
+  tiebreakerOrder?: string;     // JSON array of TiebreakerCriterion - see parseTiebreakerOrder
 }
 
 // Request to update a tournament (all fields optional for patch semantics)
@@ -759,9 +980,9 @@ export interface UpdateTournamentRequest {
 
   // Configuration (JSON strings)
   notificationSettings?: string;
-  customQuestions?: string;
+  customQuestions?: string;     // JSON CustomQuestionSchema - see parseCustomQuestions
   eligibilityRequirements?: string;
-  tiebreakerOrder?: string;
+  tiebreakerOrder?: string;     // JSON array of TiebreakerCriterion - see parseTiebreakerOrder
 }
 
 // Import tournament admin types from dedicated file
@@ -862,6 +1083,9 @@ export interface TournamentMatchDto {
   // Forfeit
   forfeitReason?: string;
 
+  // Live period clock (set once a scorekeeper starts running the match live)
+  liveClock?: LiveMatchClockDto | null;
+
   // Bracket Navigation
   nextMatchId?: string;
   loserNextMatchId?: string;
@@ -888,6 +1112,48 @@ export interface ForfeitMatchRequest {
   reason: string;
 }
 
+// Import game sheet types from dedicated file
+export * from './gameSheet';
+
+// Import player stats types from dedicated file
+export * from './playerStats';
+
+// Import schedule generation types from dedicated file
+export * from './tournamentSchedule';
+
+// ============================================
+// Live Match
+// ============================================
+
+// Period clock for a match being run live. Counts up from 00:00 each period,
+// matching the elapsed times on the game sheet.
+export interface LiveMatchClockDto {
+  period: number;
+  periodLengthMinutes: number;
+  elapsedSeconds: number;  // Elapsed in the period when the clock last started or stopped
+  isRunning: boolean;
+  startedAt?: string;  // When the clock last started - set while running
+}
+
+// Start, stop or reset the clock (any tournament admin role, including Scorekeeper).
+// Starting the clock on a Scheduled match moves it to InProgress.
+export interface UpdateMatchClockRequest {
+  period: number;
+  periodLengthMinutes: number;
+  elapsedSeconds: number;
+  isRunning: boolean;
+}
+
+export type LiveMatchEventType = 'MatchUpdated' | 'GameSheetUpdated';
+
+// Message pushed over a tournament's live channel
+export interface LiveMatchEvent {
+  type: LiveMatchEventType;
+  tournamentId: string;
+  matchId: string;
+  match?: TournamentMatchDto;  // Latest status, score and clock
+}
+
 // ============================================
 // Upcoming Tournament Match (TRN-032)
 // ============================================
@@ -938,8 +1204,19 @@ export interface TeamStandingDto {
   goalDifferential: number;
   gamesPlayed: number;
   isPlayoffBound: boolean;
+  penaltyMinutes: number;  // Total PIM from game sheets (FewestPenaltyMinutes tiebreaker)
 }
 
+// Tiebreaker criteria, applied in order to teams level on points.
+// TournamentDto.tiebreakerOrder stores a JSON array of these.
+export type TiebreakerCriterion =
+  | 'HeadToHead'
+  | 'GoalDifferential'
+  | 'GoalsScored'
+  | 'GoalsAgainst'
+  | 'FewestPenaltyMinutes'
+  | 'CoinFlip';
+
 // Group of teams tied and cannot be automatically resolved
 export interface TiedGroupDto {
   teamIds: string[];
@@ -1029,7 +1306,7 @@ export interface AddTeamMemberRequest {
 export interface RespondToTeamInviteRequest {
   accept: boolean;
   position?: string;  // Required if accept=true: "Goalie" or "Skater"
-  customResponses?: string;  // JSON string
+  customResponses?: string;  // JSON CustomResponses
 }
 
 // TRN-012: Team Members - User search result for captain search (also used for adding players to events)
@@ -1039,6 +1316,7 @@ export interface UserSearchResultDto {
   lastName: string;
   email: string;
   positions?: Record<string, string>;  // position -> skill level (e.g., "goalie" -> "Silver")
+  reliability?: ReliabilityDto | null;
 }
 
 // Request to add a user to an event's waitlist
@@ -1080,7 +1358,7 @@ export interface TournamentRegistrationDto {
   isWaitlisted: boolean;
   assignedTeamId?: string;
   assignedTeamName?: string;
-  customResponses?: string;
+  customResponses?: string;  // JSON CustomResponses - see parseCustomResponses
   waiverStatus?: TournamentWaiverStatus;
   paymentStatus?: PaymentStatus;
   paymentMarkedAt?: string;
@@ -1089,19 +1367,20 @@ export interface TournamentRegistrationDto {
   registeredAt: string;
   updatedAt: string;
   cancelledAt?: string;
+  pendingTransferId?: string | null;  // The player's pending transfer of this spot
 }
 
 // Request to register for a tournament
 export interface CreateTournamentRegistrationRequest {
   position: string;
-  customResponses?: string;
+  customResponses?: string;  // JSON CustomResponses
   waiverAccepted: boolean;
 }
 
 // Request to update a tournament registration
 export interface UpdateTournamentRegistrationRequest {
   position?: string;
-  customResponses?: string;
+  customResponses?: string;  // JSON CustomResponses
 }
 
 // Result of tournament registration operation
@@ -1116,6 +1395,53 @@ export interface VerifyTournamentPaymentRequest {
   verified: boolean;
 }
 
+// ============================================
+// Tournament Custom Registration Questions
+// ============================================
+
+// Question input types. v1 schemas only used text, yesno and dropdown.
+export type CustomQuestionType =
+  | 'text'
+  | 'yesno'
+  | 'dropdown'
+  | 'number'
+  | 'multiselect'
+  | 'date'
+  | 'jerseyNumber'
+  | 'tshirtSize';
+
+// Answer stored per question id: text/dropdown/tshirtSize/jerseyNumber are
+// strings, date is "YYYY-MM-DD", number is a number (or numeric string while typing)
+export type CustomResponseValue = string | number | boolean | string[];
+
+export type CustomResponses = Record<string, CustomResponseValue>;
+
+// Show a question only when an earlier question has a given answer
+// (for multiselect, when the answer includes the value)
+export interface CustomQuestionCondition {
+  questionId: string;
+  equals: string | boolean;
+}
+
+export interface CustomQuestion {
+  id: string;
+  type: CustomQuestionType;
+  label: string;
+  required: boolean;
+  options?: string[];        // dropdown and multiselect; tshirtSize defaults to TSHIRT_SIZES
+  min?: number;              // number: value, text: length, multiselect: selections
+  max?: number;
+  pattern?: string;          // text only - regular expression the whole answer must match
+  patternMessage?: string;   // Shown when pattern fails (defaults to a generic message)
+  visibleWhen?: CustomQuestionCondition;
+}
+
+// Stored in TournamentDto.customQuestions. v1 was a bare CustomQuestion array.
+export interface CustomQuestionSchema {
+  version: number;
+  questions: CustomQuestion[];
+}
+
 // ============================================
 // Tournament History Types
 // ============================================
@@ -1153,6 +1479,225 @@ export interface UserTournamentsFilter {
   year?: number;
 }
 
+// ============================================
+// Game History Types
+// ============================================
+
+// One past pickup game the user was rostered for
+export interface GameHistoryItemDto {
+  registrationId: string;
+  event: EventDto;
+  teamAssignment?: TeamAssignment;
+  registeredPosition?: Position;
+  paymentStatus?: PaymentStatus;  // Null for free games
+}
+
+export interface GameHistoryMonthCount {
+  month: string;  // "YYYY-MM"
+  count: number;
+}
+
+export interface GameHistoryOrganizationCount {
+  organizationId: string;
+  organizationName: string;
+  count: number;
+}
+
+// Totals across the whole history (not just the loaded page)
+export interface GameHistorySummaryDto {
+  totalGames: number;
+  blackGames: number;
+  whiteGames: number;
+  goalieGames: number;
+  skaterGames: number;
+  unpaidGames: number;                                  // Paid games not yet Verified
+  gamesByMonth: GameHistoryMonthCount[];                // Months with at least one game, oldest first
+  gamesByOrganization: GameHistoryOrganizationCount[];  // Standalone events are left out
+}
+
+// Paginated game history, newest first
+export interface GameHistoryResponse {
+  games: GameHistoryItemDto[];
+  totalCount: number;
+  hasMore: boolean;
+  summary: GameHistorySummaryDto;
+}
+
+// ============================================
+// Availability Types
+// ============================================
+
+export type AvailabilityKind = 'Weekly' | 'OneOff';
+
+// A window a player is free to play. Weekly slots repeat on dayOfWeek, one-off
+// slots are for a single date. Times are local "HH:mm"; "24:00" is midnight.
+export interface AvailabilitySlot {
+  id: string;
+  kind: AvailabilityKind;
+  dayOfWeek?: number;          // 0 = Sunday (Weekly only)
+  date?: string;               // "YYYY-MM-DD" (OneOff only)
+  startTime: string;
+  endTime: string;
+  position?: Position | null;  // Only free at this position; null = any of theirs
+}
+
+export interface UpdateAvailabilityRequest {
+  slots: AvailabilitySlot[];
+}
+
+// Organizer invites to an open event (e.g. filling a short roster)
+// On InviteOnly events the same call creates tracked invitations
+export interface InvitePlayersRequest {
+  userIds: string[];
+}
+
+// ============================================
+// Event Invitation Types (InviteOnly events)
+// ============================================
+
+// Registering accepts a pending invitation; Declined can still register later
+export type EventInvitationStatus = 'Pending' | 'Accepted' | 'Declined';
+
+// How the player was invited
+export type EventInvitationSource = 'Direct' | 'OrganizationMembers' | 'Link';
+
+export interface EventInvitationDto {
+  id: string;
+  eventId: string;
+  userId: string;
+  firstName: string;
+  lastName: string;
+  status: EventInvitationStatus;
+  source: EventInvitationSource;
+  invitedAt: string;
+  respondedAt?: string | null;
+}
+
+// Invite every subscriber of the event's organization (optionally by skill level)
+export interface InviteOrganizationMembersRequest {
+  skillLevels?: SkillLevel[];
+}
+
+export interface InviteOrganizationMembersResponse {
+  invitedCount: number;          // Members already invited or registered are skipped
+}
+
+// Shareable invite link - anyone who opens it gets an invitation
+export interface EventInviteLinkDto {
+  id: string;
+  eventId: string;
+  token: string;
+  url: string;                   // bhmhockey://invite/{token}
+  createdAt: string;
+  expiresAt?: string | null;     // null = valid until the event starts
+  revokedAt?: string | null;
+  useCount: number;
+}
+
+export interface CreateEventInviteLinkRequest {
+  expiresInHours?: number;       // Omit to keep the link valid until the event starts
+}
+
+export type EventInviteLinkState = 'Active' | 'Expired' | 'Revoked';
+
+// ============================================
+// Sub Request Types
+// ============================================
+
+export type SubRequestStatus = 'Open' | 'Filled' | 'Cancelled';
+
+// A player asking someone to take their spot in a pickup game or on a tournament team.
+// Exactly one of eventId / tournamentTeamId is set.
+export interface SubRequestDto {
+  id: string;
+  status: SubRequestStatus;
+  requesterId: string;
+  requesterFirstName: string;
+  requesterLastName: string;
+  requesterVenmoHandle?: string;
+  position: Position;               // The requester's registered position
+  skillLevels?: SkillLevel[];       // The event's skill levels; empty matches any skill
+  eventId?: string;
+  tournamentId?: string;
+  tournamentTeamId?: string;
+  title: string;                    // Event name, or "Team - Tournament"
+  organizationName?: string;
+  gameDate: string;                 // Event date, or tournament start date
+  venue?: string;
+  cost: number;                     // What the spot costs (event cost or per-player fee)
+  requesterPaymentStatus?: PaymentStatus;  // Null for free spots
+  organizerVenmoHandle?: string;
+  note?: string;
+  createdAt: string;
+  // Set once filled
+  acceptedByUserId?: string;
+  acceptedByName?: string;
+  filledAt?: string;
+}
+
+export interface CreateSubRequestRequest {
+  eventId?: string;
+  tournamentTeamId?: string;
+  note?: string;
+}
+
+// Accepting transfers the requester's registration (or team spot) to the sub
+export interface AcceptSubRequestResponse {
+  subRequest: SubRequestDto;
+  registrationId?: string;  // The transferred EventRegistration, for event requests
+}
+
+// ============================================
+// Registration Transfer Types
+// ============================================
+
+export type RegistrationTransferStatus = 'Pending' | 'Accepted' | 'Declined' | 'Cancelled';
+
+// A registered player handing their spot to someone else. Exactly one of eventId / tournamentId is set.
+// On accept the registration itself moves: position, team assignment and roster slot (rosterOrder) carry over.
+export interface RegistrationTransferDto {
+  id: string;
+  status: RegistrationTransferStatus;
+  eventId?: string;
+  tournamentId?: string;
+  title: string;                    // Event or tournament name
+  gameDate: string;                 // Event date, or tournament start date
+  fromUserId: string;
+  fromFirstName: string;
+  fromLastName: string;
+  fromVenmoHandle?: string;
+  toUserId?: string | null;         // Null when offered to the whole waitlist
+  toFirstName?: string;
+  toLastName?: string;
+  position?: Position;
+  teamName?: string;                // Team assignment that carries over, if any
+  cost: number;                     // Event cost or tournament entry fee
+  fromPaymentStatus?: PaymentStatus;
+  toPaymentStatus?: PaymentStatus;  // Recipient's waitlist payment, if any
+  organizerVenmoHandle?: string;
+  createdAt: string;
+  respondedAt?: string;
+}
+
+// Omit toUserId to offer the spot to the waitlist; the first waitlisted player to accept takes it
+export interface CreateRegistrationTransferRequest {
+  eventId?: string;
+  tournamentId?: string;
+  toUserId?: string;
+}
+
+// ============================================
+// Calendar Feed Types
+// ============================================
+
+// Personal iCalendar subscription feed. The URL carries a secret token, so
+// anyone with it can read the user's schedule; resetting issues a new one.
+export interface CalendarFeedDto {
+  url: string;        // https feed URL
+  webcalUrl: string;  // Same feed on the webcal:// scheme, opens the calendar app's subscribe flow
+  createdAt: string;
+}
+
 // ============================================
 // Admin Types
 // ============================================
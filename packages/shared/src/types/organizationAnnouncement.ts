@@ -0,0 +1,37 @@
+// ============================================
+// Organization Announcement Types
+// ============================================
+
+// Who an organization announcement reaches.
+// EventRegistrants targets players registered for targetEventId.
+export type OrganizationAnnouncementTarget = 'All' | 'Admins' | 'AutoRoster' | 'EventRegistrants';
+
+// Response DTO
+export interface OrganizationAnnouncementDto {
+  id: string;
+  organizationId: string;
+  title: string;
+  body: string;
+  target: OrganizationAnnouncementTarget;
+  targetEventId: string | null;    // Set when target is EventRegistrants
+  targetEventName: string | null;
+  createdByUserId: string;
+  createdByFirstName: string;
+  createdByLastName: string;
+  createdAt: string;  // ISO date string
+  updatedAt: string | null;
+}
+
+// Create request - sends a push to the target audience
+export interface CreateOrganizationAnnouncementRequest {
+  title: string;
+  body: string;
+  target: OrganizationAnnouncementTarget;
+  targetEventId?: string | null;
+}
+
+// Update request - edits the post in place; no new push is sent
+export interface UpdateOrganizationAnnouncementRequest {
+  title?: string;
+  body?: string;
+}
@@ -0,0 +1,35 @@
+// ============================================
+// Tournament Player Stats Types
+// ============================================
+
+// Scoring totals for one skater, summed from game sheets
+export interface SkaterStatsDto {
+  userId: string;
+  name: string;
+  teamId: string;
+  teamName: string;
+  gamesPlayed: number;
+  goals: number;
+  assists: number;
+  points: number;
+  penaltyMinutes: number;
+}
+
+// Totals for one goalie across the games they were goalie of record
+export interface GoalieStatsDto {
+  userId: string;
+  name: string;
+  teamId: string;
+  teamName: string;
+  gamesPlayed: number;
+  goalsAgainst: number;
+  shotsAgainst: number;  // Only from games where shots were recorded
+  saves: number;
+}
+
+// Player leaderboard for a tournament
+export interface TournamentPlayerStatsDto {
+  tournamentId: string;
+  skaters: SkaterStatsDto[];
+  goalies: GoalieStatsDto[];
+}
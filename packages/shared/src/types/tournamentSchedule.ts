@@ -0,0 +1,37 @@
+// ============================================
+// Tournament Schedule Generation Types
+// ============================================
+
+// A block of ice time, e.g. Saturday 8am-6pm
+export interface ScheduleWindow {
+  start: string;  // ISO date string - first game starts here
+  end: string;    // ISO date string - last game must end by here
+}
+
+// Organizer inputs for the schedule generator
+export interface ScheduleSettings {
+  rinks: string[];          // Rink names, used as each match's venue
+  windows: ScheduleWindow[];
+  slotMinutes: number;      // Length of one game slot, including flood and warmup
+  minRestMinutes: number;   // Time a team gets between the end of one game and the start of its next
+}
+
+// One match placed in a rink/time slot
+export interface ScheduledMatchSlot {
+  matchId: string;
+  venue: string;
+  scheduledTime: string;  // ISO date string
+  homeTeamId?: string;    // May be swapped from the bracket to balance home games
+  awayTeamId?: string;
+}
+
+// Generated schedule for the organizer to review before publishing
+export interface ScheduleDraft {
+  slots: ScheduledMatchSlot[];     // In time order, then rink order
+  unscheduledMatchIds: string[];   // Matches that didn't fit in the windows
+}
+
+// Publish a reviewed draft - sets scheduledTime, venue and home/away on each match
+export interface PublishScheduleRequest {
+  slots: ScheduledMatchSlot[];
+}
@@ -0,0 +1,113 @@
+import { AVAILABILITY_WINDOWS } from '../constants';
+import type { AvailabilitySlot, EventDto, OrganizationMember, Position, SkillLevel } from '../types';
+import { toDateKey } from './recurrence';
+import { compareByReliability } from './reliability';
+import { getSkillForPosition } from './subRequests';
+
+type RankableMember = Pick<OrganizationMember, 'id' | 'lastName' | 'positions' | 'availability' | 'reliability'>;
+
+export interface RankedMember<T extends RankableMember = OrganizationMember> {
+  member: T;
+  position: Position;     // Position they'd be invited as
+  skillLevel: SkillLevel;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// "HH:mm" -> minutes after midnight ("24:00" -> 1440)
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const formatTime = (time: string): string => {
+  const total = toMinutes(time) % 1440;
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  const suffix = hours < 12 ? 'AM' : 'PM';
+  const displayHours = hours % 12 === 0 ? 12 : hours % 12;
+  return minutes === 0 ? `${displayHours} ${suffix}` : `${displayHours}:${String(minutes).padStart(2, '0')} ${suffix}`;
+};
+
+/**
+ * Whether a slot covers the given moment (local time). End times are exclusive.
+ */
+export function isSlotAvailableAt(slot: AvailabilitySlot, date: Date): boolean {
+  if (slot.kind === 'Weekly' && slot.dayOfWeek !== date.getDay()) return false;
+  if (slot.kind === 'OneOff' && slot.date !== toDateKey(date)) return false;
+
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  return minutes >= toMinutes(slot.startTime) && minutes < toMinutes(slot.endTime);
+}
+
+/**
+ * Whether any slot covers the moment. Slots tied to a position only count for it.
+ */
+export function isAvailableAt(
+  slots: AvailabilitySlot[] | undefined,
+  date: Date,
+  position?: Position
+): boolean {
+  return (slots ?? []).some(
+    (slot) => (!slot.position || !position || slot.position === position) && isSlotAvailableAt(slot, date)
+  );
+}
+
+/**
+ * Short label, e.g. "Tuesdays · Evenings" or "Sat, Mar 14 · 6 PM–9:30 PM · Goalie only"
+ */
+export function formatAvailabilitySlot(slot: AvailabilitySlot): string {
+  let day: string;
+  if (slot.kind === 'Weekly') {
+    day = `${DAY_NAMES[slot.dayOfWeek ?? 0]}s`;
+  } else {
+    const [year, month, dayOfMonth] = (slot.date ?? '').split('-').map(Number);
+    day = new Date(year, month - 1, dayOfMonth).toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+    });
+  }
+
+  const window = AVAILABILITY_WINDOWS.find((w) => w.startTime === slot.startTime && w.endTime === slot.endTime);
+  const time = window ? window.label : `${formatTime(slot.startTime)}–${formatTime(slot.endTime)}`;
+
+  return slot.position ? `${day} · ${time} · ${slot.position} only` : `${day} · ${time}`;
+}
+
+/**
+ * Org members who are free at the event's start time and play a position at one
+ * of its skill levels, most reliable first. Skaters are preferred when a member
+ * plays both, unless a position is asked for.
+ */
+export function rankMembersForEvent<T extends RankableMember>(
+  members: T[],
+  event: Pick<EventDto, 'eventDate' | 'skillLevels'>,
+  options: { excludeUserIds?: string[]; position?: Position } = {}
+): RankedMember<T>[] {
+  const eventDate = new Date(event.eventDate);
+  const excluded = new Set(options.excludeUserIds ?? []);
+  const positions: Position[] = options.position ? [options.position] : ['Skater', 'Goalie'];
+  const skillLevels = event.skillLevels ?? [];
+
+  const ranked: RankedMember<T>[] = [];
+  for (const member of members) {
+    if (excluded.has(member.id)) continue;
+
+    for (const position of positions) {
+      const skillLevel = getSkillForPosition(member.positions, position);
+      if (!skillLevel) continue;
+      if (skillLevels.length > 0 && !skillLevels.includes(skillLevel)) continue;
+      if (!isAvailableAt(member.availability, eventDate, position)) continue;
+
+      ranked.push({ member, position, skillLevel });
+      break;
+    }
+  }
+
+  return ranked.sort(
+    (a, b) =>
+      compareByReliability(a.member.reliability, b.member.reliability) ||
+      a.member.lastName.localeCompare(b.member.lastName)
+  );
+}
@@ -0,0 +1,87 @@
+import type {
+  BadgeContextGeneric,
+  BadgeContextTournament,
+  BadgeRuleDto,
+  CreateBadgeRuleRequest,
+  CreateBadgeTypeRequest,
+} from '../types';
+
+export type BadgeContext = BadgeContextTournament | BadgeContextGeneric;
+
+const BADGE_CODE_REGEX = /^[a-z][a-z0-9_]*$/;
+
+function isBadgeContextTournament(context: unknown): context is BadgeContextTournament {
+  return (
+    !!context &&
+    typeof context === 'object' &&
+    typeof (context as BadgeContextTournament).tournamentName === 'string' &&
+    typeof (context as BadgeContextTournament).year === 'number'
+  );
+}
+
+/**
+ * One-line summary of a rule, e.g. "Win a tournament" or "Play 50 games"
+ */
+export function describeBadgeRule(rule: Pick<BadgeRuleDto, 'trigger' | 'threshold'>): string {
+  switch (rule.trigger) {
+    case 'TournamentPlacement':
+      return rule.threshold === 1 ? 'Win a tournament' : `Finish top ${rule.threshold} in a tournament`;
+    case 'GamesPlayed':
+      return `Play ${rule.threshold} ${rule.threshold === 1 ? 'game' : 'games'}`;
+  }
+}
+
+/**
+ * Check a new badge type. Returns one message per problem; empty when valid.
+ */
+export function validateBadgeTypeRequest(request: CreateBadgeTypeRequest, existingCodes: string[] = []): string[] {
+  const errors: string[] = [];
+  const code = request.code.trim();
+
+  if (!BADGE_CODE_REGEX.test(code)) {
+    errors.push('Code must start with a letter and use only lowercase letters, numbers and underscores');
+  } else if (existingCodes.includes(code)) {
+    errors.push(`A badge type with code "${code}" already exists`);
+  }
+  if (!request.name.trim()) {
+    errors.push('Name is required');
+  }
+  if (!request.description.trim()) {
+    errors.push('Description is required');
+  }
+  if (!request.iconName) {
+    errors.push('Pick an icon');
+  }
+  return errors;
+}
+
+/**
+ * Check a new rule. Returns one message per problem; empty when valid.
+ */
+export function validateBadgeRule(request: CreateBadgeRuleRequest): string[] {
+  const errors: string[] = [];
+  if (!request.badgeTypeId) {
+    errors.push('Pick a badge');
+  }
+  if (!Number.isInteger(request.threshold) || request.threshold < 1) {
+    errors.push(
+      request.trigger === 'TournamentPlacement'
+        ? 'Placement must be 1 or more'
+        : 'Games played must be 1 or more'
+    );
+  }
+  return errors;
+}
+
+/**
+ * Short label for a badge's context, e.g. "Summer Classic 2025"
+ */
+export function formatBadgeContext(context: unknown): string {
+  if (isBadgeContextTournament(context)) {
+    return `${context.tournamentName} ${context.year}`;
+  }
+  if (context && typeof context === 'object' && typeof (context as BadgeContextGeneric).description === 'string') {
+    return (context as BadgeContextGeneric).description;
+  }
+  return '';
+}
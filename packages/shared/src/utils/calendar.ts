@@ -0,0 +1,197 @@
+import { CALENDAR } from '../constants';
+import type { EventDto, TournamentMatchDto, UpcomingTournamentMatchDto } from '../types';
+
+// One VEVENT in an iCalendar file
+export interface CalendarEntry {
+  uid: string;              // Stable per game so calendar apps update it in place on reschedules
+  title: string;
+  start: string;            // ISO date string
+  durationMinutes: number;
+  location?: string;
+  description?: string;
+  cancelled?: boolean;      // Exported as STATUS:CANCELLED (feeds drop cancelled games instead)
+}
+
+/**
+ * Escape a TEXT value per RFC 5545 (backslash, semicolon, comma, newline)
+ */
+export function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * UTC date-time, e.g. "20260310T220000Z"
+ */
+export function formatIcsDate(date: string | Date): string {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  if (code < 0x10000) return 3;
+  return 4;
+};
+
+/**
+ * Fold a content line at 75 octets (continuation lines start with a space).
+ * Splits between characters so multi-byte names stay intact.
+ */
+export function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of Array.from(line)) {
+    const size = utf8Length(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * A pickup game as a calendar entry. The description carries the venue,
+ * duration and the player's team color once teams are set.
+ */
+export function eventToCalendarEntry(event: EventDto): CalendarEntry {
+  const title = event.name || `${event.organizationName || 'Pickup'} Hockey`;
+  const details = [
+    event.organizationName && event.name ? event.organizationName : undefined,
+    event.venue ? `Venue: ${event.venue}` : undefined,
+    `Duration: ${event.duration} min`,
+    event.myTeamAssignment ? `Team: ${event.myTeamAssignment} jersey` : undefined,
+  ].filter((line): line is string => !!line);
+
+  return {
+    uid: `event-${event.id}@${CALENDAR.UID_DOMAIN}`,
+    title,
+    start: event.eventDate,
+    durationMinutes: event.duration,
+    location: event.venue,
+    description: details.join('\n'),
+    cancelled: event.status === 'Cancelled',
+  };
+}
+
+/**
+ * A tournament match as a calendar entry, or null while it has no scheduled time
+ */
+export function matchToCalendarEntry(
+  match: UpcomingTournamentMatchDto,
+  durationMinutes: number = CALENDAR.DEFAULT_MATCH_DURATION_MINUTES
+): CalendarEntry | null {
+  if (!match.scheduledTime) return null;
+  const opponent = match.opponentTeamName || 'TBD';
+  const details = [
+    `Round ${match.round}, Match ${match.matchNumber}`,
+    match.venue ? `Venue: ${match.venue}` : undefined,
+    match.isHomeTeam ? 'Home' : 'Away',
+  ].filter((line): line is string => !!line);
+
+  return {
+    uid: `match-${match.id}@${CALENDAR.UID_DOMAIN}`,
+    title: `${match.tournamentName}: ${match.userTeamName} vs ${opponent}`,
+    start: match.scheduledTime,
+    durationMinutes,
+    location: match.venue,
+    description: details.join('\n'),
+  };
+}
+
+/**
+ * A bracket match viewed from the match screen (no "user's team" perspective)
+ */
+export function tournamentMatchToCalendarEntry(
+  match: TournamentMatchDto,
+  tournamentName: string,
+  durationMinutes: number = CALENDAR.DEFAULT_MATCH_DURATION_MINUTES
+): CalendarEntry | null {
+  if (!match.scheduledTime) return null;
+  const home = match.homeTeamName || 'TBD';
+  const away = match.awayTeamName || 'TBD';
+  const details = [
+    `Round ${match.round}, Match ${match.matchNumber}`,
+    match.venue ? `Venue: ${match.venue}` : undefined,
+  ].filter((line): line is string => !!line);
+
+  return {
+    uid: `match-${match.id}@${CALENDAR.UID_DOMAIN}`,
+    title: `${tournamentName}: ${home} vs ${away}`,
+    start: match.scheduledTime,
+    durationMinutes,
+    location: match.venue,
+    description: details.join('\n'),
+    cancelled: match.status === 'Cancelled',
+  };
+}
+
+/**
+ * Build an RFC 5545 calendar (CRLF line endings, folded lines)
+ */
+export function buildIcsCalendar(
+  entries: CalendarEntry[],
+  options: { name?: string; now?: Date } = {}
+): string {
+  const stamp = formatIcsDate(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${CALENDAR.PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`);
+  }
+
+  for (const entry of entries) {
+    const start = new Date(entry.start);
+    const end = new Date(start.getTime() + entry.durationMinutes * 60 * 1000);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDate(start)}`,
+      `DTEND:${formatIcsDate(end)}`,
+      `SUMMARY:${escapeIcsText(entry.title)}`
+    );
+    if (entry.location) lines.push(`LOCATION:${escapeIcsText(entry.location)}`);
+    if (entry.description) lines.push(`DESCRIPTION:${escapeIcsText(entry.description)}`);
+    lines.push(`STATUS:${entry.cancelled ? 'CANCELLED' : 'CONFIRMED'}`, 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * The player's calendar: rostered pickup games and scheduled tournament
+ * matches, soonest first. Cancelled games and waitlisted spots are left out.
+ */
+export function buildMyGamesCalendar(
+  registrations: EventDto[],
+  matches: UpcomingTournamentMatchDto[],
+  now: Date = new Date()
+): string {
+  const entries = [
+    ...registrations
+      .filter((event) => event.isRegistered && !event.amIWaitlisted && event.status !== 'Cancelled')
+      .map(eventToCalendarEntry),
+    ...matches.map((match) => matchToCalendarEntry(match)).filter((entry): entry is CalendarEntry => !!entry),
+  ].sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+
+  return buildIcsCalendar(entries, { name: CALENDAR.FEED_NAME, now });
+}
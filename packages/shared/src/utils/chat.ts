@@ -0,0 +1,90 @@
+import { CHAT } from '../constants';
+import type { ChatMessageDto, ChatParticipant } from '../types';
+
+/**
+ * Combine a loaded thread with a newly fetched page (older history or a
+ * poll for new messages). Fetched copies win so pin changes show up.
+ * Returns newest first, the order pages arrive in.
+ */
+export function mergeChatMessages(existing: ChatMessageDto[], incoming: ChatMessageDto[]): ChatMessageDto[] {
+  const byId = new Map(existing.map((message) => [message.id, message]));
+  for (const message of incoming) {
+    byId.set(message.id, message);
+  }
+  return [...byId.values()].sort(
+    (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+}
+
+export const formatMentionName = (participant: Pick<ChatParticipant, 'firstName' | 'lastName'>): string =>
+  `${participant.firstName} ${participant.lastName}`.trim();
+
+// "@" at the start or after whitespace, then at most two words (first and last name)
+const MENTION_QUERY = /(^|\s)@(\S*(?: \S*)?)$/;
+
+/**
+ * The partial name being typed after an "@" at the end of the draft,
+ * or null when the user isn't mentioning anyone
+ */
+export function getMentionQuery(draft: string): string | null {
+  const match = draft.match(MENTION_QUERY);
+  return match ? match[2] : null;
+}
+
+/**
+ * Suggestions for a mention query: first name, last name or full name
+ * prefix, case-insensitive. The sender is never suggested.
+ */
+export function filterMentionCandidates(
+  participants: ChatParticipant[],
+  query: string,
+  currentUserId?: string
+): ChatParticipant[] {
+  const needle = query.trim().toLowerCase();
+  return participants
+    .filter((p) => p.userId !== currentUserId)
+    .filter((p) => {
+      if (!needle) return true;
+      return [p.firstName, p.lastName, formatMentionName(p)].some((name) =>
+        name.toLowerCase().startsWith(needle)
+      );
+    })
+    .slice(0, CHAT.MAX_MENTION_SUGGESTIONS);
+}
+
+/**
+ * Replace the "@query" being typed with the participant's full name
+ */
+export function insertMention(draft: string, participant: ChatParticipant): string {
+  const match = draft.match(MENTION_QUERY);
+  if (!match || match.index === undefined) return draft;
+  return `${draft.slice(0, match.index)}${match[1]}@${formatMentionName(participant)} `;
+}
+
+// A letter, digit or hyphen right after a name (checked lowercased) means
+// it's part of a longer name, e.g. "Smithson" or "Smith-Jones"
+const NAME_CONTINUES = /[a-z0-9\u00c0-\u024f-]/;
+
+// Whether "@name" appears as a whole name, so "@Jon Smithson" doesn't mention Jon Smith
+function hasMention(lowerBody: string, name: string): boolean {
+  const mention = `@${name.toLowerCase()}`;
+  let index = lowerBody.indexOf(mention);
+  while (index !== -1) {
+    const next = lowerBody.charAt(index + mention.length);
+    if (!next || !NAME_CONTINUES.test(next)) return true;
+    index = lowerBody.indexOf(mention, index + 1);
+  }
+  return false;
+}
+
+/**
+ * Users still mentioned in the final message. Picking someone and then
+ * deleting their name drops them, so they aren't notified.
+ */
+export function getMentionedUserIds(body: string, participants: ChatParticipant[]): string[] {
+  const lowerBody = body.toLowerCase();
+  const ids = participants
+    .filter((p) => hasMention(lowerBody, formatMentionName(p)))
+    .map((p) => p.userId);
+  return [...new Set(ids)];
+}
@@ -0,0 +1,91 @@
+import { CHECK_IN } from '../constants';
+import type { CheckInPassDto, EventRegistrationDto, User } from '../types';
+
+export type CheckInRegistration = Pick<
+  EventRegistrationDto,
+  'id' | 'isWaitlisted' | 'paymentStatus' | 'hasNotAcceptedWaiver' | 'checkedInAt' | 'checkInToken'
+> & {
+  user: Pick<User, 'firstName' | 'lastName'>;
+};
+
+export type CheckInOutcome = 'ok' | 'duplicate' | 'unknown' | 'invalid';
+
+export interface CheckInScan<T extends CheckInRegistration> {
+  outcome: CheckInOutcome;
+  registration?: T;     // Set for 'ok' and 'duplicate'
+  message: string;
+  warnings: string[];   // Only for 'ok'; the player is still checked in
+}
+
+/**
+ * QR code content for a player's pass
+ */
+export function buildCheckInCode(pass: CheckInPassDto): string {
+  return `${CHECK_IN.CODE_PREFIX}${pass.registrationId}.${pass.token}`;
+}
+
+/**
+ * Read a scanned QR code. Null when it isn't a check-in code.
+ */
+export function parseCheckInCode(data: string): CheckInPassDto | null {
+  if (!data.startsWith(CHECK_IN.CODE_PREFIX)) return null;
+
+  const body = data.slice(CHECK_IN.CODE_PREFIX.length);
+  const separator = body.indexOf('.');
+  if (separator <= 0 || separator === body.length - 1) return null;
+
+  return { registrationId: body.slice(0, separator), token: body.slice(separator + 1) };
+}
+
+/**
+ * Things the organizer should sort out at the door
+ */
+export function getCheckInWarnings(registration: CheckInRegistration, requiresPayment: boolean): string[] {
+  const warnings: string[] = [];
+  if (registration.isWaitlisted) {
+    warnings.push('On the waitlist, not the roster');
+  }
+  if (requiresPayment && registration.paymentStatus !== 'Verified') {
+    warnings.push('Payment not verified');
+  }
+  if (registration.hasNotAcceptedWaiver) {
+    warnings.push('Waiver not signed');
+  }
+  return warnings;
+}
+
+/**
+ * Check a scanned code against the event's registrations without a network
+ * round trip. Registrations without a checkInToken are accepted and left for
+ * the server to verify when the check-in syncs.
+ */
+export function evaluateCheckInScan<T extends CheckInRegistration>(
+  data: string,
+  registrations: T[],
+  options: { requiresPayment: boolean }
+): CheckInScan<T> {
+  const pass = parseCheckInCode(data);
+  if (!pass) {
+    return { outcome: 'invalid', message: 'Not a check-in code', warnings: [] };
+  }
+
+  const registration = registrations.find((r) => r.id === pass.registrationId);
+  if (!registration) {
+    return { outcome: 'unknown', message: 'Not registered for this game', warnings: [] };
+  }
+
+  const name = `${registration.user.firstName} ${registration.user.lastName}`;
+  if (registration.checkInToken !== undefined && registration.checkInToken !== pass.token) {
+    return { outcome: 'invalid', message: `Check-in code for ${name} is not valid`, warnings: [] };
+  }
+  if (registration.checkedInAt) {
+    return { outcome: 'duplicate', registration, message: `${name} is already checked in`, warnings: [] };
+  }
+
+  return {
+    outcome: 'ok',
+    registration,
+    message: `${name} checked in`,
+    warnings: getCheckInWarnings(registration, options.requiresPayment),
+  };
+}
@@ -0,0 +1,338 @@
+import {
+  CUSTOM_QUESTIONS_SCHEMA_VERSION,
+  CUSTOM_QUESTION_TYPE_LABELS,
+  JERSEY_NUMBER,
+  TSHIRT_SIZES,
+} from '../constants';
+import type {
+  CustomQuestion,
+  CustomQuestionCondition,
+  CustomQuestionSchema,
+  CustomQuestionType,
+  CustomResponses,
+  CustomResponseValue,
+} from '../types';
+
+const QUESTION_TYPES = Object.keys(CUSTOM_QUESTION_TYPE_LABELS) as CustomQuestionType[];
+
+function isCustomQuestion(value: unknown): value is CustomQuestion {
+  if (!value || typeof value !== 'object') return false;
+  const question = value as Partial<CustomQuestion>;
+  return (
+    typeof question.id === 'string' &&
+    typeof question.label === 'string' &&
+    (QUESTION_TYPES as string[]).includes(question.type as string)
+  );
+}
+
+/**
+ * Parse TournamentDto.customQuestions. Reads both the versioned schema and
+ * v1 (a bare question array); malformed entries and unknown types are dropped.
+ */
+export function parseCustomQuestions(value?: string | null): CustomQuestion[] {
+  if (!value || !value.trim()) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    const questions = Array.isArray(parsed)
+      ? parsed
+      : (parsed as Partial<CustomQuestionSchema> | null)?.questions;
+    if (!Array.isArray(questions)) {
+      return [];
+    }
+    return questions
+      .filter(isCustomQuestion)
+      .map((question) => ({ ...question, required: question.required === true }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Serialize questions for TournamentDto.customQuestions at the current
+ * schema version (undefined when there are no questions)
+ */
+export function serializeCustomQuestions(questions: CustomQuestion[]): string | undefined {
+  if (questions.length === 0) {
+    return undefined;
+  }
+  const schema: CustomQuestionSchema = {
+    version: CUSTOM_QUESTIONS_SCHEMA_VERSION,
+    questions,
+  };
+  return JSON.stringify(schema);
+}
+
+/**
+ * Parse a registration's customResponses (empty when missing or unreadable)
+ */
+export function parseCustomResponses(value?: string | null): CustomResponses {
+  if (!value || !value.trim()) {
+    return {};
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as CustomResponses)
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Choices for dropdown, multiselect and tshirtSize questions
+ */
+export function getQuestionOptions(question: CustomQuestion): string[] {
+  if (question.type === 'tshirtSize' && (!question.options || question.options.length === 0)) {
+    return [...TSHIRT_SIZES];
+  }
+  return question.options ?? [];
+}
+
+/**
+ * Starting answers for a blank registration form
+ */
+export function getDefaultResponses(questions: CustomQuestion[]): CustomResponses {
+  const responses: CustomResponses = {};
+  questions.forEach((question) => {
+    if (question.type === 'yesno') {
+      responses[question.id] = false;
+    } else if (question.type === 'dropdown' && getQuestionOptions(question).length > 0) {
+      responses[question.id] = getQuestionOptions(question)[0];
+    } else if (question.type === 'multiselect') {
+      responses[question.id] = [];
+    } else {
+      responses[question.id] = '';
+    }
+  });
+  return responses;
+}
+
+function isEmptyResponse(value: CustomResponseValue | undefined | null): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return value.trim() === '';
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/**
+ * Whether a question is shown given the answers so far. A question whose
+ * condition depends on a hidden question is hidden too.
+ */
+export function isQuestionVisible(
+  question: CustomQuestion,
+  questions: CustomQuestion[],
+  responses: CustomResponses
+): boolean {
+  const seen = new Set<string>();
+  let current: CustomQuestion | undefined = question;
+
+  while (current?.visibleWhen) {
+    if (seen.has(current.id)) return false;  // Circular conditions never show
+    seen.add(current.id);
+
+    const { questionId, equals }: CustomQuestionCondition = current.visibleWhen;
+    const answer = responses[questionId];
+    const matches = Array.isArray(answer)
+      ? typeof equals === 'string' && answer.includes(equals)
+      : answer === equals;
+    if (!matches) return false;
+
+    current = questions.find((q) => q.id === questionId);
+  }
+  return true;
+}
+
+function isValidDateKey(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return false;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+function testPattern(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(`^(?:${pattern})$`).test(value);
+  } catch {
+    return true;  // A broken pattern is caught by validateCustomQuestion, not held against players
+  }
+}
+
+/**
+ * Validate one answer. Returns an error message, or null when the answer is
+ * acceptable. Empty optional answers are always acceptable.
+ */
+export function validateCustomResponse(
+  question: CustomQuestion,
+  value: CustomResponseValue | undefined
+): string | null {
+  const { label, min, max } = question;
+
+  if (isEmptyResponse(value)) {
+    return question.required ? `Please answer: ${label}` : null;
+  }
+
+  switch (question.type) {
+    case 'text': {
+      const text = String(value).trim();
+      if (min !== undefined && text.length < min) {
+        return `${label} must be at least ${min} characters`;
+      }
+      if (max !== undefined && text.length > max) {
+        return `${label} must be at most ${max} characters`;
+      }
+      if (question.pattern && !testPattern(question.pattern, text)) {
+        return question.patternMessage || `${label} is not in the expected format`;
+      }
+      return null;
+    }
+
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (typeof value === 'boolean' || Array.isArray(value) || !Number.isFinite(number)) {
+        return `${label} must be a number`;
+      }
+      if (min !== undefined && number < min) {
+        return `${label} must be at least ${min}`;
+      }
+      if (max !== undefined && number > max) {
+        return `${label} must be at most ${max}`;
+      }
+      return null;
+    }
+
+    case 'jerseyNumber': {
+      const text = String(value).trim();
+      const number = Number(text);
+      if (!/^\d{1,2}$/.test(text) || number < JERSEY_NUMBER.MIN || number > JERSEY_NUMBER.MAX) {
+        return `${label} must be a number from ${JERSEY_NUMBER.MIN} to ${JERSEY_NUMBER.MAX}`;
+      }
+      return null;
+    }
+
+    case 'date':
+      return typeof value === 'string' && isValidDateKey(value) ? null : `${label} must be a valid date`;
+
+    case 'dropdown':
+    case 'tshirtSize':
+      return typeof value === 'string' && getQuestionOptions(question).includes(value)
+        ? null
+        : `${label} must be one of the listed options`;
+
+    case 'multiselect': {
+      const options = getQuestionOptions(question);
+      if (!Array.isArray(value) || value.some((choice) => !options.includes(choice))) {
+        return `${label} must only include the listed options`;
+      }
+      if (min !== undefined && value.length < min) {
+        return `Choose at least ${min} for: ${label}`;
+      }
+      if (max !== undefined && value.length > max) {
+        return `Choose at most ${max} for: ${label}`;
+      }
+      return null;
+    }
+
+    case 'yesno':
+      return typeof value === 'boolean' ? null : `Please answer: ${label}`;
+  }
+}
+
+/**
+ * Display text for an answer: Yes/No for yes/no questions, comma-separated
+ * choices for multi-selects, "Mar 4, 2026" for dates and '' when unanswered
+ */
+export function formatCustomResponse(
+  question: CustomQuestion,
+  value: CustomResponseValue | undefined
+): string {
+  if (isEmptyResponse(value)) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (question.type === 'date' && typeof value === 'string' && isValidDateKey(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  }
+  return String(value);
+}
+
+/**
+ * Validate every visible question. Returns error messages keyed by question
+ * id (empty when the form can be submitted). Hidden questions are skipped.
+ */
+export function validateCustomResponses(
+  questions: CustomQuestion[],
+  responses: CustomResponses
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  questions.forEach((question) => {
+    if (!isQuestionVisible(question, questions, responses)) return;
+    const error = validateCustomResponse(question, responses[question.id]);
+    if (error) {
+      errors[question.id] = error;
+    }
+  });
+  return errors;
+}
+
+/**
+ * Serialize answers for a registration request, keeping only visible,
+ * non-empty answers (undefined when the tournament has no questions)
+ */
+export function serializeCustomResponses(
+  questions: CustomQuestion[],
+  responses: CustomResponses
+): string | undefined {
+  if (questions.length === 0) {
+    return undefined;
+  }
+  const answers: CustomResponses = {};
+  questions.forEach((question) => {
+    const value = responses[question.id];
+    if (isQuestionVisible(question, questions, responses) && !isEmptyResponse(value)) {
+      answers[question.id] = question.type === 'number' ? Number(value) : value;
+    }
+  });
+  return JSON.stringify(answers);
+}
+
+/**
+ * Validate a question definition in the organizer editor. Conditions may only
+ * point at an earlier question so the form always reads top to bottom.
+ */
+export function validateCustomQuestion(
+  question: CustomQuestion,
+  questions: CustomQuestion[]
+): string | null {
+  if (!question.label.trim()) {
+    return 'Question label is required';
+  }
+  if ((question.type === 'dropdown' || question.type === 'multiselect') && getQuestionOptions(question).length === 0) {
+    return `${CUSTOM_QUESTION_TYPE_LABELS[question.type]} questions must have at least one option`;
+  }
+  if (question.min !== undefined && question.max !== undefined && question.min > question.max) {
+    return 'Minimum cannot be greater than maximum';
+  }
+  if (question.pattern) {
+    try {
+      new RegExp(question.pattern);
+    } catch {
+      return 'Pattern is not a valid regular expression';
+    }
+  }
+  if (question.visibleWhen) {
+    const index = questions.findIndex((q) => q.id === question.id);
+    const earlier = index === -1 ? questions : questions.slice(0, index);
+    if (!earlier.some((q) => q.id === question.visibleWhen!.questionId)) {
+      return 'A question can only depend on an earlier question';
+    }
+  }
+  return null;
+}
@@ -0,0 +1,202 @@
+import { DEEP_LINKS } from '../constants';
+import type { NotificationType } from '../types';
+
+// Params carried by each deep link destination
+export interface DeepLinkRouteParams {
+  event: { eventId: string };
+  eventChat: { eventId: string };
+  tournament: { tournamentId: string };
+  tournamentTeam: { tournamentId: string; teamId: string };
+  tournamentMatch: { tournamentId: string; matchId: string };
+  tournamentStandings: { tournamentId: string };
+  organization: { organizationId: string };
+  waiver: { organizationId: string };
+  organizationChat: { organizationId: string };
+  invite: { token: string };
+  subs: Record<string, never>;
+  transfers: Record<string, never>;
+}
+
+export type DeepLinkRouteName = keyof DeepLinkRouteParams;
+
+export type DeepLinkRoute = {
+  [N in DeepLinkRouteName]: { name: N; params: DeepLinkRouteParams[N] };
+}[DeepLinkRouteName];
+
+/**
+ * Route table, the single source for building and parsing links.
+ * `path` is the link path (custom scheme and universal links share it);
+ * `appPath` is the expo-router screen it opens. `:name` segments are params.
+ */
+const ROUTES: Record<DeepLinkRouteName, { path: string; appPath: string }> = {
+  event: { path: 'events/:eventId', appPath: '/events/:eventId' },
+  eventChat: { path: 'events/:eventId/chat', appPath: '/events/:eventId?tab=chat' },
+  tournament: { path: 'tournament/:tournamentId', appPath: '/tournaments/:tournamentId' },
+  tournamentTeam: {
+    path: 'tournament/:tournamentId/team/:teamId',
+    appPath: '/tournaments/:tournamentId/teams/:teamId',
+  },
+  tournamentMatch: {
+    path: 'tournament/:tournamentId/match/:matchId',
+    appPath: '/tournaments/:tournamentId/match/:matchId',
+  },
+  tournamentStandings: {
+    path: 'tournament/:tournamentId/standings',
+    appPath: '/tournaments/:tournamentId/standings',
+  },
+  organization: { path: 'organizations/:organizationId', appPath: '/organizations/:organizationId' },
+  // Signing happens in the app-wide waiver gate; the link lands on the org
+  waiver: { path: 'organizations/:organizationId/waiver', appPath: '/organizations/:organizationId' },
+  organizationChat: { path: 'organizations/:organizationId/chat', appPath: '/organizations/:organizationId/chat' },
+  invite: { path: 'invite/:token', appPath: '/invite/:token' },
+  subs: { path: 'subs', appPath: '/subs' },
+  transfers: { path: 'transfers', appPath: '/transfers' },
+};
+
+const fillPattern = (pattern: string, params: Record<string, string>): string =>
+  pattern.replace(/:(\w+)/g, (_, key: string) => encodeURIComponent(params[key]));
+
+/**
+ * Link path for a route, e.g. "tournament/abc/match/def"
+ */
+export function buildDeepLinkPath(route: DeepLinkRoute): string {
+  return fillPattern(ROUTES[route.name].path, route.params);
+}
+
+/**
+ * Shareable link for a route. Universal links open the app when installed
+ * and fall back to the website otherwise.
+ */
+export function buildDeepLink(route: DeepLinkRoute, options: { universal?: boolean } = {}): string {
+  const path = buildDeepLinkPath(route);
+  return options.universal
+    ? `https://${DEEP_LINKS.UNIVERSAL_LINK_HOSTS[0]}/${path}`
+    : `${DEEP_LINKS.SCHEME}://${path}`;
+}
+
+/**
+ * expo-router path for a route, e.g. "/tournaments/abc/match/def"
+ */
+export function getDeepLinkAppPath(route: DeepLinkRoute): string {
+  return fillPattern(ROUTES[route.name].appPath, route.params);
+}
+
+/**
+ * Pull the link path out of a URL: bhmhockey://..., https://<our host>/...,
+ * or an Expo dev URL (exp://host:port/--/...). Other hosts are rejected.
+ */
+function extractLinkPath(url: string): string | null {
+  const match = url.trim().match(/^([a-z][a-z0-9+.-]*):\/\/([^/?#]*)([^?#]*)/i);
+  if (!match) return null;
+  const [, scheme, host, rest] = match;
+  const lowerScheme = scheme.toLowerCase();
+
+  if (lowerScheme === DEEP_LINKS.SCHEME) {
+    // The first path segment parses as the URL host for custom schemes
+    return `${host}${rest}`;
+  }
+  if (lowerScheme === 'https' || lowerScheme === 'http') {
+    const isOurHost = (DEEP_LINKS.UNIVERSAL_LINK_HOSTS as readonly string[]).includes(host.toLowerCase());
+    return isOurHost ? rest : null;
+  }
+  if (lowerScheme === 'exp' || lowerScheme === 'exps') {
+    const devPath = rest.split('/--/')[1];
+    return devPath ?? null;
+  }
+  return null;
+}
+
+/**
+ * Parse a link into a route, or null when it isn't one of ours
+ */
+export function parseDeepLink(url: string): DeepLinkRoute | null {
+  const linkPath = extractLinkPath(url);
+  if (linkPath === null) return null;
+  const segments = linkPath.split('/').filter(Boolean);
+
+  for (const name of Object.keys(ROUTES) as DeepLinkRouteName[]) {
+    const patternSegments = ROUTES[name].path.split('/');
+    if (patternSegments.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = patternSegments.every((patternSegment, i) => {
+      if (patternSegment.startsWith(':')) {
+        try {
+          params[patternSegment.slice(1)] = decodeURIComponent(segments[i]);
+        } catch {
+          return false;
+        }
+        return true;
+      }
+      return patternSegment === segments[i];
+    });
+
+    if (matches) {
+      return { name, params } as DeepLinkRoute;
+    }
+  }
+  return null;
+}
+
+// Notification payload keys the server sends (all optional strings)
+export type NotificationLinkData = Partial<
+  Record<'eventId' | 'tournamentId' | 'tournamentTeamId' | 'organizationId', string>
+>;
+
+const eventRoute = (data: NotificationLinkData): DeepLinkRoute | null =>
+  data.eventId ? { name: 'event', params: { eventId: data.eventId } } : null;
+
+/**
+ * Where each notification opens. A Record so adding a NotificationType
+ * without a destination fails to compile.
+ */
+const NOTIFICATION_ROUTES: Record<NotificationType, (data: NotificationLinkData) => DeepLinkRoute | null> = {
+  new_event: eventRoute,
+  waitlist_promoted: eventRoute,
+  waitlist_joined: eventRoute,
+  waitlist_promotion: eventRoute,
+  payment_reminder: eventRoute,
+  game_reminder: eventRoute,
+  organizer_payment_reminder: eventRoute,
+  not_full_reminder: eventRoute,
+  event_invite: eventRoute,
+  waitlist_offer: eventRoute,
+  waitlist_offer_expired: eventRoute,
+  // A spot matching the user's position and skill opened up - the marketplace
+  sub_request: () => ({ name: 'subs', params: {} }),
+  // Someone took the user's spot - the game, or the tournament team
+  sub_request_filled: (data) =>
+    eventRoute(data) ??
+    (data.tournamentId && data.tournamentTeamId
+      ? { name: 'tournamentTeam', params: { tournamentId: data.tournamentId, teamId: data.tournamentTeamId } }
+      : { name: 'subs', params: {} }),
+  // A player offered the user their spot - accept or decline it
+  registration_transfer: () => ({ name: 'transfers', params: {} }),
+  registration_transferred: (data) =>
+    eventRoute(data) ??
+    (data.tournamentId
+      ? { name: 'tournament', params: { tournamentId: data.tournamentId } }
+      : { name: 'transfers', params: {} }),
+  // Posted to the organization's announcements feed
+  organization_announcement: (data) =>
+    data.organizationId ? { name: 'organization', params: { organizationId: data.organizationId } } : null,
+  // Someone @mentioned the user - open the thread they were mentioned in
+  chat_mention: (data) =>
+    data.eventId
+      ? { name: 'eventChat', params: { eventId: data.eventId } }
+      : data.organizationId
+        ? { name: 'organizationChat', params: { organizationId: data.organizationId } }
+        : null,
+};
+
+/**
+ * Destination for a tapped notification. Unknown types (newer server) fall
+ * back to the event when the payload has one.
+ */
+export function getNotificationRoute(
+  type: string | undefined,
+  data: NotificationLinkData
+): DeepLinkRoute | null {
+  const isKnownType = !!type && Object.prototype.hasOwnProperty.call(NOTIFICATION_ROUTES, type);
+  return isKnownType ? NOTIFICATION_ROUTES[type as NotificationType](data) : eventRoute(data);
+}
@@ -0,0 +1,58 @@
+import type { GameHistoryMonthCount, GameHistoryOrganizationCount, GameHistorySummaryDto } from '../types';
+
+/**
+ * "YYYY-MM" key for a local date
+ */
+export function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Short label for a month key, e.g. "Mar"; adds the year for January
+ */
+export function formatMonthKey(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const label = new Intl.DateTimeFormat('en-US', { month: 'short' }).format(new Date(year, monthNumber - 1, 1));
+  return monthNumber === 1 ? `${label} '${String(year).slice(-2)}` : label;
+}
+
+/**
+ * Game counts for the last `count` months ending with `now`'s month,
+ * oldest first, with empty months filled in as zero
+ */
+export function getRecentMonths(
+  gamesByMonth: GameHistoryMonthCount[],
+  now: Date = new Date(),
+  count: number = 6
+): GameHistoryMonthCount[] {
+  const counts = new Map(gamesByMonth.map((m) => [m.month, m.count]));
+  return Array.from({ length: count }, (_, i) => {
+    const month = toMonthKey(new Date(now.getFullYear(), now.getMonth() - (count - 1 - i), 1));
+    return { month, count: counts.get(month) ?? 0 };
+  });
+}
+
+/**
+ * Average games per month from the first game's month through `now`'s month,
+ * rounded to one decimal. 0 with no games.
+ */
+export function getAverageGamesPerMonth(summary: GameHistorySummaryDto, now: Date = new Date()): number {
+  const first = summary.gamesByMonth[0];
+  if (!first || summary.totalGames === 0) return 0;
+
+  const [year, month] = first.month.split('-').map(Number);
+  const months = Math.max(1, (now.getFullYear() - year) * 12 + (now.getMonth() + 1 - month) + 1);
+  return Math.round((summary.totalGames / months) * 10) / 10;
+}
+
+/**
+ * Organization the player has played the most games with; ties go to the
+ * alphabetically first name. Null when they've only played standalone games.
+ */
+export function getFavoriteOrganization(summary: GameHistorySummaryDto): GameHistoryOrganizationCount | null {
+  return summary.gamesByOrganization.reduce<GameHistoryOrganizationCount | null>((best, org) => {
+    if (!best || org.count > best.count) return org;
+    if (org.count === best.count && org.organizationName.localeCompare(best.organizationName) < 0) return org;
+    return best;
+  }, null);
+}
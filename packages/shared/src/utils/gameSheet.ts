@@ -0,0 +1,214 @@
+import { GAME_SHEET, PENALTY_MINUTES } from '../constants';
+import type {
+  GameSheetDto,
+  MatchGoalDto,
+  MatchPenaltyDto,
+  SaveGameSheetRequest,
+} from '../types';
+
+export type GameSheetEntries = Pick<GameSheetDto, 'goals' | 'penalties' | 'goalies'>;
+
+export interface ValidateGameSheetOptions {
+  homeTeamId: string;
+  awayTeamId: string;
+  rosters?: Record<string, string[]>;  // User ids by team id - skips roster checks when omitted
+}
+
+export interface GameSheetPeriodSummary {
+  period: number;
+  label: string;
+  goals: MatchGoalDto[];
+  penalties: MatchPenaltyDto[];
+}
+
+/**
+ * Seconds elapsed for a "M:SS" or "MM:SS" game clock, or null if it isn't one
+ */
+export function parseGameClock(time: string): number | null {
+  const match = /^(\d{1,2}):([0-5]\d)$/.exec(time.trim());
+  if (!match) return null;
+  const minutes = Number(match[1]);
+  const seconds = Number(match[2]);
+  if (minutes > GAME_SHEET.MAX_PERIOD_MINUTES || (minutes === GAME_SHEET.MAX_PERIOD_MINUTES && seconds > 0)) {
+    return null;
+  }
+  return minutes * 60 + seconds;
+}
+
+/**
+ * Rewrite a game clock as "MM:SS" (e.g. "4:05" -> "04:05"), or null if invalid
+ */
+export function normalizeGameClock(time: string): string | null {
+  const total = parseGameClock(time);
+  if (total === null) return null;
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * "1st", "2nd", "3rd", then "OT", "2OT"... after regulation
+ */
+export function getPeriodLabel(period: number): string {
+  if (period > GAME_SHEET.REGULATION_PERIODS) {
+    const overtime = period - GAME_SHEET.REGULATION_PERIODS;
+    return overtime === 1 ? 'OT' : `${overtime}OT`;
+  }
+  return ['1st', '2nd', '3rd'][period - 1] ?? `P${period}`;
+}
+
+/**
+ * Final score from the goals entered - goals for other teams are ignored
+ */
+export function deriveScoreFromGoals(
+  goals: Pick<MatchGoalDto, 'teamId'>[],
+  homeTeamId: string,
+  awayTeamId: string
+): { homeScore: number; awayScore: number } {
+  return {
+    homeScore: goals.filter((goal) => goal.teamId === homeTeamId).length,
+    awayScore: goals.filter((goal) => goal.teamId === awayTeamId).length,
+  };
+}
+
+/**
+ * Check a game sheet before saving. Returns one message per problem, e.g.
+ * "Goal 2: an assist can't go to the scorer"; empty when the sheet is valid.
+ */
+export function validateGameSheet(sheet: GameSheetEntries, options: ValidateGameSheetOptions): string[] {
+  const { homeTeamId, awayTeamId, rosters } = options;
+  const errors: string[] = [];
+
+  const isTeam = (teamId: string) => teamId === homeTeamId || teamId === awayTeamId;
+  const isOnRoster = (teamId: string, userId: string) => !rosters || (rosters[teamId] ?? []).includes(userId);
+  const checkTiming = (prefix: string, period: number, time: string) => {
+    if (!Number.isInteger(period) || period < 1 || period > GAME_SHEET.MAX_PERIODS) {
+      errors.push(`${prefix}: period must be 1 to ${GAME_SHEET.MAX_PERIODS}`);
+    }
+    if (parseGameClock(time) === null) {
+      errors.push(`${prefix}: enter the time as MM:SS`);
+    }
+  };
+
+  sheet.goals.forEach((goal, index) => {
+    const prefix = `Goal ${index + 1}`;
+    if (!isTeam(goal.teamId)) {
+      errors.push(`${prefix}: team must be home or away`);
+      return;
+    }
+    if (!goal.scorerUserId) {
+      errors.push(`${prefix}: choose a scorer`);
+    }
+
+    const assists = [goal.primaryAssistUserId, goal.secondaryAssistUserId].filter(Boolean) as string[];
+    if (goal.secondaryAssistUserId && !goal.primaryAssistUserId) {
+      errors.push(`${prefix}: add the primary assist first`);
+    }
+    if (goal.scorerUserId && assists.includes(goal.scorerUserId)) {
+      errors.push(`${prefix}: an assist can't go to the scorer`);
+    }
+    if (assists.length === 2 && assists[0] === assists[1]) {
+      errors.push(`${prefix}: assists must be different players`);
+    }
+    if ([goal.scorerUserId, ...assists].some((userId) => userId && !isOnRoster(goal.teamId, userId))) {
+      errors.push(`${prefix}: players must be on the scoring team`);
+    }
+    checkTiming(prefix, goal.period, goal.time);
+  });
+
+  sheet.penalties.forEach((penalty, index) => {
+    const prefix = `Penalty ${index + 1}`;
+    if (!isTeam(penalty.teamId)) {
+      errors.push(`${prefix}: team must be home or away`);
+      return;
+    }
+    if (!penalty.playerUserId) {
+      errors.push(`${prefix}: choose a player`);
+    } else if (!isOnRoster(penalty.teamId, penalty.playerUserId)) {
+      errors.push(`${prefix}: player must be on the penalized team`);
+    }
+    if (!penalty.infraction.trim()) {
+      errors.push(`${prefix}: enter the infraction`);
+    }
+    if (!(PENALTY_MINUTES as readonly number[]).includes(penalty.minutes)) {
+      errors.push(`${prefix}: minutes must be ${PENALTY_MINUTES.slice(0, -1).join(', ')} or ${PENALTY_MINUTES[PENALTY_MINUTES.length - 1]}`);
+    }
+    checkTiming(prefix, penalty.period, penalty.time);
+  });
+
+  const goalieTeams = new Set<string>();
+  sheet.goalies.forEach((goalie) => {
+    if (!isTeam(goalie.teamId)) {
+      errors.push('Goalie team must be home or away');
+    } else if (goalieTeams.has(goalie.teamId)) {
+      errors.push('Only one goalie of record per team');
+    } else if (!isOnRoster(goalie.teamId, goalie.userId)) {
+      errors.push('Goalie must be on their team roster');
+    } else if (goalie.shotsAgainst !== undefined) {
+      const goalsAgainst = sheet.goals.filter((goal) => isTeam(goal.teamId) && goal.teamId !== goalie.teamId).length;
+      if (!Number.isInteger(goalie.shotsAgainst) || goalie.shotsAgainst < 0) {
+        errors.push('Shots against must be a whole number');
+      } else if (goalie.shotsAgainst < goalsAgainst) {
+        errors.push(`Shots against can't be fewer than the ${goalsAgainst} goals allowed`);
+      }
+    }
+    goalieTeams.add(goalie.teamId);
+  });
+
+  return errors;
+}
+
+/**
+ * Goals and penalties grouped by period, in game order. Periods with no
+ * events are left out.
+ */
+export function buildScoringSummary(sheet: Pick<GameSheetDto, 'goals' | 'penalties'>): GameSheetPeriodSummary[] {
+  const byClock = (a: { time: string }, b: { time: string }) =>
+    (parseGameClock(a.time) ?? 0) - (parseGameClock(b.time) ?? 0);
+  const periods = [...new Set([...sheet.goals, ...sheet.penalties].map((entry) => entry.period))].sort(
+    (a, b) => a - b
+  );
+
+  return periods.map((period) => ({
+    period,
+    label: getPeriodLabel(period),
+    goals: sheet.goals.filter((goal) => goal.period === period).sort(byClock),
+    penalties: sheet.penalties.filter((penalty) => penalty.period === period).sort(byClock),
+  }));
+}
+
+/**
+ * Strip display names and ids from a sheet being edited, normalizing clocks
+ * to "MM:SS". Validate with validateGameSheet first.
+ */
+export function toSaveGameSheetRequest(
+  sheet: GameSheetEntries,
+  isFinal: boolean,
+  overtimeWinnerId?: string
+): SaveGameSheetRequest {
+  return {
+    goals: sheet.goals.map((goal) => ({
+      teamId: goal.teamId,
+      scorerUserId: goal.scorerUserId,
+      primaryAssistUserId: goal.primaryAssistUserId || undefined,
+      secondaryAssistUserId: goal.secondaryAssistUserId || undefined,
+      period: goal.period,
+      time: normalizeGameClock(goal.time) ?? goal.time,
+    })),
+    penalties: sheet.penalties.map((penalty) => ({
+      teamId: penalty.teamId,
+      playerUserId: penalty.playerUserId,
+      infraction: penalty.infraction.trim(),
+      minutes: penalty.minutes,
+      period: penalty.period,
+      time: normalizeGameClock(penalty.time) ?? penalty.time,
+    })),
+    goalies: sheet.goalies.map((goalie) => ({
+      teamId: goalie.teamId,
+      userId: goalie.userId,
+      shotsAgainst: goalie.shotsAgainst,
+    })),
+    isFinal,
+    overtimeWinnerId,
+  };
+}
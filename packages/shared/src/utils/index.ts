@@ -67,3 +67,182 @@ export function formatDateTime(date: string | Date): string {
 export function getFullName(firstName: string, lastName: string): string {
   return `${firstName} ${lastName}`.trim();
 }
+
+// Event series recurrence
+export { toDateKey, getUsHolidays, validateRecurrenceRule, generateSeriesDates } from './recurrence';
+
+// Tournament standings tiebreakers
+export { parseTiebreakerOrder, serializeTiebreakerOrder } from './tiebreakers';
+
+// Tournament custom registration questions
+export {
+  parseCustomQuestions,
+  serializeCustomQuestions,
+  parseCustomResponses,
+  serializeCustomResponses,
+  getQuestionOptions,
+  getDefaultResponses,
+  isQuestionVisible,
+  validateCustomResponse,
+  validateCustomResponses,
+  validateCustomQuestion,
+  formatCustomResponse,
+} from './customQuestions';
+
+// Tournament registration export
+export { buildRegistrationsCsv, escapeCsvCell, getRegistrationsCsvFilename } from './registrationCsv';
+
+// Tournament game sheets
+export {
+  parseGameClock,
+  normalizeGameClock,
+  getPeriodLabel,
+  deriveScoreFromGoals,
+  validateGameSheet,
+  buildScoringSummary,
+  toSaveGameSheetRequest,
+} from './gameSheet';
+export type { GameSheetEntries, GameSheetPeriodSummary, ValidateGameSheetOptions } from './gameSheet';
+
+// Tournament player stats
+export {
+  getGoalsAgainstAverage,
+  getSavePercentage,
+  formatGoalsAgainstAverage,
+  formatSavePercentage,
+  getDefaultSortDirection,
+  sortSkaterStats,
+  sortGoalieStats,
+} from './playerStats';
+export type { SkaterStatColumn, GoalieStatColumn, StatSortDirection } from './playerStats';
+
+// Live match clock
+export {
+  createLiveClock,
+  getClockElapsedSeconds,
+  isPeriodOver,
+  formatClockSeconds,
+  getLiveClockLabel,
+  startClock,
+  stopClock,
+  advancePeriod,
+} from './liveMatch';
+
+// Tournament schedule generator
+export {
+  validateScheduleSettings,
+  buildScheduleSlots,
+  generateSchedule,
+  swapScheduledMatches,
+  findScheduleConflicts,
+} from './tournamentSchedule';
+export type { SchedulableMatch, GenerateScheduleOptions, ScheduleConflict } from './tournamentSchedule';
+
+// Black/White team balancer
+export { getSkillPoints, balanceTeams } from './teamBalancer';
+export type {
+  BalanceableRegistration,
+  BalanceTeamsOptions,
+  TeamBalanceSide,
+  TeamBalanceResult,
+} from './teamBalancer';
+
+// Badge administration and automatic rules
+export {
+  describeBadgeRule,
+  validateBadgeTypeRequest,
+  validateBadgeRule,
+  formatBadgeContext,
+} from './badgeRules';
+export type { BadgeContext } from './badgeRules';
+
+// Player game history
+export {
+  toMonthKey,
+  formatMonthKey,
+  getRecentMonths,
+  getAverageGamesPerMonth,
+  getFavoriteOrganization,
+} from './gameHistory';
+
+// Attendance and player reliability
+export {
+  getReliabilityScore,
+  getReliabilityTier,
+  formatReliability,
+  isLateCancellation,
+  compareByReliability,
+  orderWaitlistByReliability,
+} from './reliability';
+export type { ReliabilityTier } from './reliability';
+
+// Rink check-in
+export { buildCheckInCode, parseCheckInCode, getCheckInWarnings, evaluateCheckInScan } from './checkIn';
+export type { CheckInRegistration, CheckInOutcome, CheckInScan } from './checkIn';
+
+// Sub requests
+export { getSkillForPosition, isEligibleSub, getMatchingSubRequests, getSubPaymentPlan } from './subRequests';
+export type { SubPaymentPayee, SubPaymentPlan } from './subRequests';
+
+// Player availability
+export {
+  isSlotAvailableAt,
+  isAvailableAt,
+  formatAvailabilitySlot,
+  rankMembersForEvent,
+} from './availability';
+export type { RankedMember } from './availability';
+
+// Registration transfers
+export { getTransferPaymentPlan, canAcceptTransfer, groupPendingTransfers } from './registrationTransfers';
+export type { TransferPaymentPayee, TransferPaymentPlan } from './registrationTransfers';
+
+// Waitlist offers
+export { getOfferTimeRemaining, isOfferActive, formatOfferCountdown } from './waitlistOffers';
+
+// iCalendar export
+export {
+  escapeIcsText,
+  formatIcsDate,
+  foldIcsLine,
+  eventToCalendarEntry,
+  matchToCalendarEntry,
+  tournamentMatchToCalendarEntry,
+  buildIcsCalendar,
+  buildMyGamesCalendar,
+} from './calendar';
+export type { CalendarEntry } from './calendar';
+
+// InviteOnly event invitations
+export { getInviteLinkState, summarizeInvitations, sortInvitations } from './invitations';
+
+// Deep links
+export {
+  buildDeepLinkPath,
+  buildDeepLink,
+  getDeepLinkAppPath,
+  parseDeepLink,
+  getNotificationRoute,
+} from './deepLinks';
+export type { DeepLinkRouteParams, DeepLinkRouteName, DeepLinkRoute, NotificationLinkData } from './deepLinks';
+
+// Notification preferences
+export {
+  parseTimeOfDay,
+  formatTimeOfDay,
+  isWithinQuietHours,
+  getNotificationDelivery,
+  setNotificationTypeEnabled,
+  toUpdateNotificationPreferencesRequest,
+} from './notificationPreferences';
+export type { NotificationDelivery } from './notificationPreferences';
+
+// In-app chat
+export {
+  mergeChatMessages,
+  formatMentionName,
+  getMentionQuery,
+  filterMentionCandidates,
+  insertMention,
+  getMentionedUserIds,
+} from './chat';
@@ -0,0 +1,48 @@
+import type {
+  EventInvitationDto,
+  EventInvitationStatus,
+  EventInviteLinkDto,
+  EventInviteLinkState,
+} from '../types';
+
+/**
+ * Whether an invite link still works. Revoking wins over expiry.
+ */
+export function getInviteLinkState(
+  link: Pick<EventInviteLinkDto, 'expiresAt' | 'revokedAt'>,
+  now: Date = new Date()
+): EventInviteLinkState {
+  if (link.revokedAt) return 'Revoked';
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= now.getTime()) return 'Expired';
+  return 'Active';
+}
+
+/**
+ * Count invitations by status for the organizer's summary row
+ */
+export function summarizeInvitations(
+  invitations: Pick<EventInvitationDto, 'status'>[]
+): Record<EventInvitationStatus, number> {
+  const summary: Record<EventInvitationStatus, number> = { Pending: 0, Accepted: 0, Declined: 0 };
+  for (const invitation of invitations) {
+    summary[invitation.status] += 1;
+  }
+  return summary;
+}
+
+const STATUS_ORDER: Record<EventInvitationStatus, number> = { Pending: 0, Accepted: 1, Declined: 2 };
+
+/**
+ * Pending first (the ones the organizer may need to chase), then accepted,
+ * then declined - alphabetical by last name within each group
+ */
+export function sortInvitations<T extends Pick<EventInvitationDto, 'status' | 'firstName' | 'lastName'>>(
+  invitations: T[]
+): T[] {
+  return [...invitations].sort(
+    (a, b) =>
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+      a.lastName.localeCompare(b.lastName) ||
+      a.firstName.localeCompare(b.firstName)
+  );
+}
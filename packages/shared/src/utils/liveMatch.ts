@@ -0,0 +1,81 @@
+import { GAME_SHEET, LIVE_MATCH } from '../constants';
+import type { LiveMatchClockDto, UpdateMatchClockRequest } from '../types';
+import { getPeriodLabel } from './gameSheet';
+
+type ClockTime = number | Date;
+
+const toMillis = (now: ClockTime) => (typeof now === 'number' ? now : now.getTime());
+
+const toRequest = (clock: LiveMatchClockDto, changes: Partial<UpdateMatchClockRequest>): UpdateMatchClockRequest => ({
+  period: clock.period,
+  periodLengthMinutes: clock.periodLengthMinutes,
+  elapsedSeconds: clock.elapsedSeconds,
+  isRunning: clock.isRunning,
+  ...changes,
+});
+
+/**
+ * A stopped clock at the start of the 1st period
+ */
+export function createLiveClock(periodLengthMinutes: number = LIVE_MATCH.DEFAULT_PERIOD_MINUTES): UpdateMatchClockRequest {
+  return { period: 1, periodLengthMinutes, elapsedSeconds: 0, isRunning: false };
+}
+
+/**
+ * Whole seconds elapsed in the current period, stopping at the period length
+ */
+export function getClockElapsedSeconds(clock: LiveMatchClockDto, now: ClockTime = Date.now()): number {
+  const periodSeconds = clock.periodLengthMinutes * 60;
+  let elapsed = clock.elapsedSeconds;
+  if (clock.isRunning && clock.startedAt) {
+    const startedAt = new Date(clock.startedAt).getTime();
+    // A device clock behind the server's never runs the game clock backwards
+    elapsed += Math.max(0, Math.floor((toMillis(now) - startedAt) / 1000));
+  }
+  return Math.min(Math.max(0, elapsed), periodSeconds);
+}
+
+/**
+ * True once the clock has reached the end of the period
+ */
+export function isPeriodOver(clock: LiveMatchClockDto, now: ClockTime = Date.now()): boolean {
+  return getClockElapsedSeconds(clock, now) >= clock.periodLengthMinutes * 60;
+}
+
+/**
+ * Seconds as a "MM:SS" game clock (e.g. 452 -> "07:32")
+ */
+export function formatClockSeconds(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  return `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * "2nd 07:32" while a period is being played, "End of 2nd" once it's over
+ */
+export function getLiveClockLabel(clock: LiveMatchClockDto, now: ClockTime = Date.now()): string {
+  const period = getPeriodLabel(clock.period);
+  return isPeriodOver(clock, now) ? `End of ${period}` : `${period} ${formatClockSeconds(getClockElapsedSeconds(clock, now))}`;
+}
+
+/**
+ * Start the clock from where it stopped
+ */
+export function startClock(clock: LiveMatchClockDto, now: ClockTime = Date.now()): UpdateMatchClockRequest {
+  return toRequest(clock, { elapsedSeconds: getClockElapsedSeconds(clock, now), isRunning: true });
+}
+
+/**
+ * Stop the clock, freezing the time elapsed so far
+ */
+export function stopClock(clock: LiveMatchClockDto, now: ClockTime = Date.now()): UpdateMatchClockRequest {
+  return toRequest(clock, { elapsedSeconds: getClockElapsedSeconds(clock, now), isRunning: false });
+}
+
+/**
+ * A stopped clock at the start of the next period, or null after the last one
+ */
+export function advancePeriod(clock: LiveMatchClockDto): UpdateMatchClockRequest | null {
+  if (clock.period >= GAME_SHEET.MAX_PERIODS) return null;
+  return toRequest(clock, { period: clock.period + 1, elapsedSeconds: 0, isRunning: false });
+}
@@ -0,0 +1,105 @@
+import type {
+  NotificationPreferencesDto,
+  NotificationType,
+  QuietHours,
+  UpdateNotificationPreferencesRequest,
+} from '../types';
+
+// What happens to a notification: normal push, push without sound or banner, or nothing
+export type NotificationDelivery = 'send' | 'silent' | 'skip';
+
+/**
+ * Minutes after midnight for an "HH:mm" time, or null when malformed
+ */
+export function parseTimeOfDay(time: string): number | null {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+/**
+ * "HH:mm" for minutes after midnight
+ */
+export function formatTimeOfDay(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Wall-clock minutes after midnight in the given zone
+const minutesInZone = (now: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const hour = Number(parts.find((part) => part.type === 'hour')?.value ?? 0);
+  const minute = Number(parts.find((part) => part.type === 'minute')?.value ?? 0);
+  return (hour % 24) * 60 + minute;
+};
+
+/**
+ * True when `now` falls inside the quiet window (start inclusive, end exclusive).
+ * Windows where end is earlier than start run past midnight.
+ */
+export function isWithinQuietHours(quietHours: QuietHours | null, now: Date = new Date()): boolean {
+  if (!quietHours) return false;
+  const start = parseTimeOfDay(quietHours.start);
+  const end = parseTimeOfDay(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const current = minutesInZone(now, quietHours.timeZone);
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * How a notification should be delivered under the user's preferences.
+ * Tournament toggles win over organization toggles when both ids are present.
+ */
+export function getNotificationDelivery(
+  preferences: Pick<NotificationPreferencesDto, 'organizations' | 'tournaments' | 'quietHours'>,
+  notification: { type: NotificationType; organizationId?: string | null; tournamentId?: string | null },
+  now: Date = new Date()
+): NotificationDelivery {
+  const scope = notification.tournamentId
+    ? preferences.tournaments.find((t) => t.tournamentId === notification.tournamentId)
+    : notification.organizationId
+      ? preferences.organizations.find((o) => o.organizationId === notification.organizationId)
+      : undefined;
+
+  if (scope?.disabledTypes.includes(notification.type)) return 'skip';
+  return isWithinQuietHours(preferences.quietHours, now) ? 'silent' : 'send';
+}
+
+/**
+ * Turn one type on or off in a disabled-types list
+ */
+export function setNotificationTypeEnabled(
+  disabledTypes: NotificationType[],
+  type: NotificationType,
+  enabled: boolean
+): NotificationType[] {
+  const without = disabledTypes.filter((disabled) => disabled !== type);
+  return enabled ? without : [...without, type];
+}
+
+/**
+ * Request body for saving preferences (drops the display names)
+ */
+export function toUpdateNotificationPreferencesRequest(
+  preferences: NotificationPreferencesDto
+): UpdateNotificationPreferencesRequest {
+  return {
+    organizations: preferences.organizations.map(({ organizationId, disabledTypes }) => ({
+      organizationId,
+      disabledTypes,
+    })),
+    tournaments: preferences.tournaments.map(({ tournamentId, disabledTypes }) => ({ tournamentId, disabledTypes })),
+    quietHours: preferences.quietHours,
+    gameReminderHours: preferences.gameReminderHours,
+  };
+}
@@ -0,0 +1,95 @@
+import type { GoalieStatsDto, SkaterStatsDto } from '../types';
+
+export type SkaterStatColumn = 'points' | 'goals' | 'assists' | 'penaltyMinutes' | 'gamesPlayed';
+export type GoalieStatColumn = 'goalsAgainstAverage' | 'savePercentage' | 'saves' | 'gamesPlayed';
+export type StatSortDirection = 'asc' | 'desc';
+
+/**
+ * Goals against per game as goalie of record, or null before their first game
+ */
+export function getGoalsAgainstAverage(goalie: GoalieStatsDto): number | null {
+  return goalie.gamesPlayed > 0 ? goalie.goalsAgainst / goalie.gamesPlayed : null;
+}
+
+/**
+ * Saves per shot against (0-1), or null when no shots were recorded
+ */
+export function getSavePercentage(goalie: GoalieStatsDto): number | null {
+  return goalie.shotsAgainst > 0 ? goalie.saves / goalie.shotsAgainst : null;
+}
+
+/**
+ * "2.50", or "-" when there is no average yet
+ */
+export function formatGoalsAgainstAverage(value: number | null): string {
+  return value === null ? '-' : value.toFixed(2);
+}
+
+/**
+ * Hockey style ".912" (or "1.000"), or "-" when there is no percentage yet
+ */
+export function formatSavePercentage(value: number | null): string {
+  if (value === null) return '-';
+  const fixed = value.toFixed(3);
+  return fixed.startsWith('0') ? fixed.slice(1) : fixed;
+}
+
+/**
+ * Direction a column sorts in when first selected - lower is better for GAA
+ */
+export function getDefaultSortDirection(column: SkaterStatColumn | GoalieStatColumn): StatSortDirection {
+  return column === 'goalsAgainstAverage' ? 'asc' : 'desc';
+}
+
+/**
+ * Sort skaters by a column. Ties fall back to points, then goals, then fewer
+ * games played, then name.
+ */
+export function sortSkaterStats(
+  skaters: SkaterStatsDto[],
+  column: SkaterStatColumn,
+  direction: StatSortDirection = getDefaultSortDirection(column)
+): SkaterStatsDto[] {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...skaters].sort(
+    (a, b) =>
+      sign * (a[column] - b[column]) ||
+      b.points - a.points ||
+      b.goals - a.goals ||
+      a.gamesPlayed - b.gamesPlayed ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Sort goalies by a column. Goalies without a value (no games or no shots
+ * recorded) always sort last; ties fall back to games played, then name.
+ */
+export function sortGoalieStats(
+  goalies: GoalieStatsDto[],
+  column: GoalieStatColumn,
+  direction: StatSortDirection = getDefaultSortDirection(column)
+): GoalieStatsDto[] {
+  const valueOf = (goalie: GoalieStatsDto): number | null => {
+    switch (column) {
+      case 'goalsAgainstAverage':
+        return getGoalsAgainstAverage(goalie);
+      case 'savePercentage':
+        return getSavePercentage(goalie);
+      default:
+        return goalie[column];
+    }
+  };
+  const sign = direction === 'asc' ? 1 : -1;
+
+  return [...goalies].sort((a, b) => {
+    const aValue = valueOf(a);
+    const bValue = valueOf(b);
+    if (aValue === null || bValue === null) {
+      if (aValue !== bValue) return aValue === null ? 1 : -1;
+    } else if (aValue !== bValue) {
+      return sign * (aValue - bValue);
+    }
+    return b.gamesPlayed - a.gamesPlayed || a.name.localeCompare(b.name);
+  });
+}
@@ -0,0 +1,149 @@
+import { EVENT_SERIES } from '../constants';
+import type { RecurrenceRule } from '../types';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_REGEX = /^\d{2}:\d{2}(:\d{2})?$/;
+
+/**
+ * Format a local date as "YYYY-MM-DD"
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse "YYYY-MM-DD" plus an optional "HH:mm" into a local Date
+ */
+function fromDateKey(dateKey: string, time = '00:00'): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes, 0, 0);
+}
+
+// nth (1-based) weekday of a month; n = -1 for the last one
+function nthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n > 0) {
+    const first = new Date(year, month, 1);
+    const offset = (weekday - first.getDay() + 7) % 7;
+    return new Date(year, month, 1 + offset + (n - 1) * 7);
+  }
+  const last = new Date(year, month + 1, 0);
+  const offset = (last.getDay() - weekday + 7) % 7;
+  return new Date(year, month, last.getDate() - offset);
+}
+
+/**
+ * US federal holidays for a year as "YYYY-MM-DD" keys (actual dates, not
+ * observed weekdays - a rink is closed on the day itself)
+ */
+export function getUsHolidays(year: number): string[] {
+  return [
+    new Date(year, 0, 1),             // New Year's Day
+    nthWeekday(year, 0, 1, 3),        // Martin Luther King Jr. Day
+    nthWeekday(year, 1, 1, 3),        // Presidents' Day
+    nthWeekday(year, 4, 1, -1),       // Memorial Day
+    new Date(year, 5, 19),            // Juneteenth
+    new Date(year, 6, 4),             // Independence Day
+    nthWeekday(year, 8, 1, 1),        // Labor Day
+    nthWeekday(year, 9, 1, 2),        // Columbus Day
+    new Date(year, 10, 11),           // Veterans Day
+    nthWeekday(year, 10, 4, 4),       // Thanksgiving
+    new Date(year, 11, 25),           // Christmas Day
+  ].map(toDateKey);
+}
+
+/**
+ * Validate a recurrence rule. Returns an error message, or null when valid.
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): string | null {
+  if (!TIME_REGEX.test(rule.startTime)) {
+    return 'Please choose a start time';
+  }
+  if (rule.frequency === 'SpecificDates') {
+    if (!rule.specificDates || rule.specificDates.length === 0) {
+      return 'Please add at least one date';
+    }
+    if (rule.specificDates.some((date) => !DATE_REGEX.test(date))) {
+      return 'Dates must be in YYYY-MM-DD format';
+    }
+    if (rule.specificDates.length > EVENT_SERIES.MAX_GAMES) {
+      return `A series can have at most ${EVENT_SERIES.MAX_GAMES} games`;
+    }
+    return null;
+  }
+  if (!DATE_REGEX.test(rule.startDate)) {
+    return 'Please choose a start date';
+  }
+  if (rule.endDate == null && rule.occurrences == null) {
+    return 'Please choose an end date or number of games';
+  }
+  if (rule.endDate != null) {
+    if (!DATE_REGEX.test(rule.endDate)) {
+      return 'End date must be in YYYY-MM-DD format';
+    }
+    if (rule.endDate < rule.startDate) {
+      return 'End date must be after the start date';
+    }
+  }
+  if (rule.occurrences != null) {
+    if (!Number.isInteger(rule.occurrences) || rule.occurrences < 1) {
+      return 'Number of games must be at least 1';
+    }
+    if (rule.occurrences > EVENT_SERIES.MAX_GAMES) {
+      return `A series can have at most ${EVENT_SERIES.MAX_GAMES} games`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Generate the game start times for a recurrence rule, in date order, as
+ * local Dates. Skipped dates (explicit or holidays) don't count toward
+ * occurrences - "8 games" always yields 8 games. Capped at
+ * EVENT_SERIES.MAX_GAMES. Returns [] for an invalid rule.
+ */
+export function generateSeriesDates(rule: RecurrenceRule): Date[] {
+  if (validateRecurrenceRule(rule) !== null) {
+    return [];
+  }
+
+  const skipped = new Set(rule.skipDates ?? []);
+  const holidayYears = new Map<number, Set<string>>();
+  const isSkipped = (dateKey: string): boolean => {
+    if (skipped.has(dateKey)) return true;
+    if (!rule.skipHolidays) return false;
+    const year = Number(dateKey.slice(0, 4));
+    if (!holidayYears.has(year)) {
+      holidayYears.set(year, new Set(getUsHolidays(year)));
+    }
+    return holidayYears.get(year)!.has(dateKey);
+  };
+
+  if (rule.frequency === 'SpecificDates') {
+    return Array.from(new Set(rule.specificDates))
+      .sort()
+      .filter((dateKey) => !isSkipped(dateKey))
+      .map((dateKey) => fromDateKey(dateKey, rule.startTime));
+  }
+
+  const stepDays = rule.frequency === 'BiWeekly' ? 14 : 7;
+  const limit = Math.min(rule.occurrences ?? EVENT_SERIES.MAX_GAMES, EVENT_SERIES.MAX_GAMES);
+  const dates: Date[] = [];
+  const cursor = fromDateKey(rule.startDate, rule.startTime);
+
+  while (dates.length < limit) {
+    const dateKey = toDateKey(cursor);
+    if (rule.endDate != null && dateKey > rule.endDate) {
+      break;
+    }
+    if (!isSkipped(dateKey)) {
+      dates.push(new Date(cursor));
+    }
+    // setDate keeps the local start time across DST changes
+    cursor.setDate(cursor.getDate() + stepDays);
+  }
+
+  return dates;
+}
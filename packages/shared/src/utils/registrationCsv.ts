@@ -0,0 +1,70 @@
+import type { CustomQuestion, TournamentRegistrationDto } from '../types';
+import { formatCustomResponse, isQuestionVisible, parseCustomResponses } from './customQuestions';
+
+// Fixed columns, in order, before one column per custom question
+const BASE_COLUMNS: { header: string; value: (reg: TournamentRegistrationDto) => string | number | undefined }[] = [
+  { header: 'First Name', value: (reg) => reg.user.firstName },
+  { header: 'Last Name', value: (reg) => reg.user.lastName },
+  { header: 'Email', value: (reg) => reg.user.email },
+  { header: 'Phone', value: (reg) => reg.user.phoneNumber },
+  { header: 'Position', value: (reg) => reg.position },
+  { header: 'Status', value: (reg) => reg.status },
+  { header: 'Waitlist Position', value: (reg) => (reg.isWaitlisted ? reg.waitlistPosition : undefined) },
+  { header: 'Team', value: (reg) => reg.assignedTeamName },
+  { header: 'Waiver Status', value: (reg) => reg.waiverStatus },
+  { header: 'Payment Status', value: (reg) => reg.paymentStatus },
+  { header: 'Payment Marked At', value: (reg) => reg.paymentMarkedAt },
+  { header: 'Payment Verified At', value: (reg) => reg.paymentVerifiedAt },
+  { header: 'Registered At', value: (reg) => reg.registeredAt },
+];
+
+/**
+ * Quote a cell per RFC 4180. Text starting with a formula character is
+ * prefixed with ' so spreadsheets don't evaluate player-entered answers.
+ */
+export function escapeCsvCell(value: string | number | undefined | null): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text) && !/^-?\d+(\.\d+)?$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build a CSV of tournament registrations: player details, team assignment,
+ * waiver and payment status, then one column per custom question. Answers to
+ * questions hidden by visibleWhen are left blank; dates stay "YYYY-MM-DD" so
+ * spreadsheets sort them.
+ */
+export function buildRegistrationsCsv(
+  registrations: TournamentRegistrationDto[],
+  questions: CustomQuestion[]
+): string {
+  const header = [...BASE_COLUMNS.map((column) => column.header), ...questions.map((q) => q.label)];
+
+  const rows = registrations.map((reg) => {
+    const answers = parseCustomResponses(reg.customResponses);
+    const answerCells = questions.map((question) => {
+      if (!isQuestionVisible(question, questions, answers)) return '';
+      const value = answers[question.id];
+      return question.type === 'date' && typeof value === 'string'
+        ? value
+        : formatCustomResponse(question, value);
+    });
+    return [...BASE_COLUMNS.map((column) => column.value(reg)), ...answerCells];
+  });
+
+  return [header, ...rows].map((row) => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * File name for an export, e.g. "summer-classic-registrations.csv"
+ */
+export function getRegistrationsCsvFilename(tournamentName: string): string {
+  const slug = tournamentName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'tournament'}-registrations.csv`;
+}
@@ -0,0 +1,88 @@
+import type { PaymentStatus, RegistrationTransferDto } from '../types';
+
+export type TransferPaymentPayee = 'none' | 'from' | 'organizer';
+
+export interface TransferPaymentPlan {
+  payee: TransferPaymentPayee;
+  amount: number;
+  venmoHandle?: string;
+  // The organizer refunds the original player (the recipient's waitlist payment covers the spot)
+  organizerRefundsFrom: boolean;
+  // Payment status the moved registration ends up with; undefined for free spots
+  paymentStatus?: PaymentStatus;
+}
+
+type TransferPaymentFields = Pick<
+  RegistrationTransferDto,
+  'cost' | 'fromPaymentStatus' | 'toPaymentStatus' | 'fromVenmoHandle' | 'organizerVenmoHandle'
+>;
+
+const isPaid = (status?: PaymentStatus): boolean => status === 'Verified' || status === 'MarkedPaid';
+
+/**
+ * How money settles when a spot changes hands. The spot is only ever paid for
+ * once: a recipient who already paid from the waitlist keeps their payment and
+ * the organizer refunds the original player; otherwise the recipient pays back
+ * whoever the spot is still owed to.
+ */
+export function getTransferPaymentPlan(transfer: TransferPaymentFields): TransferPaymentPlan {
+  if (transfer.cost <= 0) {
+    return { payee: 'none', amount: 0, organizerRefundsFrom: false };
+  }
+
+  const fromPaid = isPaid(transfer.fromPaymentStatus);
+  if (isPaid(transfer.toPaymentStatus)) {
+    return {
+      payee: 'none',
+      amount: 0,
+      organizerRefundsFrom: fromPaid,
+      paymentStatus: transfer.toPaymentStatus,
+    };
+  }
+  if (fromPaid) {
+    return {
+      payee: 'from',
+      amount: transfer.cost,
+      venmoHandle: transfer.fromVenmoHandle,
+      organizerRefundsFrom: false,
+      paymentStatus: transfer.fromPaymentStatus,
+    };
+  }
+  return {
+    payee: 'organizer',
+    amount: transfer.cost,
+    venmoHandle: transfer.organizerVenmoHandle,
+    organizerRefundsFrom: false,
+    paymentStatus: 'Pending',
+  };
+}
+
+/**
+ * True when the user can accept the transfer: it is still pending, it isn't
+ * their own, and it was offered to them or to the waitlist. Whether they are
+ * actually on the waitlist is checked server-side.
+ */
+export function canAcceptTransfer(
+  transfer: Pick<RegistrationTransferDto, 'status' | 'fromUserId' | 'toUserId'>,
+  userId: string
+): boolean {
+  if (transfer.status !== 'Pending' || transfer.fromUserId === userId) return false;
+  return !transfer.toUserId || transfer.toUserId === userId;
+}
+
+/**
+ * Splits transfers into the ones waiting on the user and the ones they sent,
+ * soonest game first. Settled transfers are left out.
+ */
+export function groupPendingTransfers(
+  transfers: RegistrationTransferDto[],
+  userId: string
+): { incoming: RegistrationTransferDto[]; outgoing: RegistrationTransferDto[] } {
+  const pending = transfers
+    .filter((t) => t.status === 'Pending')
+    .sort((a, b) => new Date(a.gameDate).getTime() - new Date(b.gameDate).getTime());
+  return {
+    incoming: pending.filter((t) => canAcceptTransfer(t, userId)),
+    outgoing: pending.filter((t) => t.fromUserId === userId),
+  };
+}
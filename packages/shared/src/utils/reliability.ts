@@ -0,0 +1,77 @@
+import { RELIABILITY } from '../constants';
+import type { EventRegistrationDto, ReliabilityDto, WaitlistOrderItem } from '../types';
+
+export type ReliabilityTier = 'New' | 'Reliable' | 'Fair' | 'Unreliable';
+
+// Waitlist priority per tier; new players sit between reliable and fair ones
+const TIER_PRIORITY: Record<ReliabilityTier, number> = {
+  Reliable: 0,
+  New: 1,
+  Fair: 2,
+  Unreliable: 3,
+};
+
+/**
+ * Reliability score from 0-100, or null until the player has
+ * RELIABILITY.MIN_GAMES_FOR_SCORE recorded games. Late cancels count
+ * as a fraction of a no-show.
+ */
+export function getReliabilityScore(reliability: ReliabilityDto | null | undefined): number | null {
+  if (!reliability) return null;
+  const { gamesAttended, noShows, lateCancels } = reliability;
+  if (gamesAttended + noShows + lateCancels < RELIABILITY.MIN_GAMES_FOR_SCORE) return null;
+
+  const misses = noShows + lateCancels * RELIABILITY.LATE_CANCEL_WEIGHT;
+  return Math.round((gamesAttended / (gamesAttended + misses)) * 100);
+}
+
+export function getReliabilityTier(reliability: ReliabilityDto | null | undefined): ReliabilityTier {
+  const score = getReliabilityScore(reliability);
+  if (score === null) return 'New';
+  if (score >= RELIABILITY.RELIABLE_SCORE) return 'Reliable';
+  if (score >= RELIABILITY.FAIR_SCORE) return 'Fair';
+  return 'Unreliable';
+}
+
+/**
+ * Short label, e.g. "92% reliable" or "New player"
+ */
+export function formatReliability(reliability: ReliabilityDto | null | undefined): string {
+  const score = getReliabilityScore(reliability);
+  return score === null ? 'New player' : `${score}% reliable`;
+}
+
+/**
+ * Whether cancelling now counts as a late cancellation: inside the window
+ * before the game, or after it has started
+ */
+export function isLateCancellation(
+  eventDate: string,
+  windowHours: number = RELIABILITY.DEFAULT_LATE_CANCEL_WINDOW_HOURS,
+  now: Date = new Date()
+): boolean {
+  return new Date(eventDate).getTime() - now.getTime() < windowHours * 60 * 60 * 1000;
+}
+
+/**
+ * Sort comparator: reliable players first, then new, fair and unreliable
+ */
+export function compareByReliability(
+  a: ReliabilityDto | null | undefined,
+  b: ReliabilityDto | null | undefined
+): number {
+  return TIER_PRIORITY[getReliabilityTier(a)] - TIER_PRIORITY[getReliabilityTier(b)];
+}
+
+/**
+ * Waitlist order grouped by reliability tier (reliable, new, fair, unreliable).
+ * Players keep their current order within a tier.
+ */
+export function orderWaitlistByReliability(
+  waitlist: Pick<EventRegistrationDto, 'id' | 'waitlistPosition' | 'reliability'>[]
+): WaitlistOrderItem[] {
+  return [...waitlist]
+    .sort((a, b) => (a.waitlistPosition ?? 999) - (b.waitlistPosition ?? 999))
+    .sort((a, b) => compareByReliability(a.reliability, b.reliability))
+    .map((registration, index) => ({ registrationId: registration.id, position: index + 1 }));
+}
@@ -0,0 +1,64 @@
+import type { Position, SkillLevel, SubRequestDto, User, UserPositions } from '../types';
+
+export type SubPaymentPayee = 'none' | 'requester' | 'organizer';
+
+export interface SubPaymentPlan {
+  payee: SubPaymentPayee;
+  amount: number;
+  venmoHandle?: string;
+}
+
+const POSITION_KEYS: Record<Position, keyof UserPositions> = {
+  Goalie: 'goalie',
+  Skater: 'skater',
+};
+
+/**
+ * The player's skill level at the given position, or undefined if they don't play it
+ */
+export function getSkillForPosition(positions: UserPositions | undefined, position: Position): SkillLevel | undefined {
+  return positions?.[POSITION_KEYS[position]];
+}
+
+/**
+ * True when the player plays the requested position at one of the request's
+ * skill levels. Requests without skill levels match any skill.
+ */
+export function isEligibleSub(
+  request: Pick<SubRequestDto, 'position' | 'skillLevels'>,
+  positions: UserPositions | undefined
+): boolean {
+  const skill = getSkillForPosition(positions, request.position);
+  if (!skill) return false;
+  if (!request.skillLevels || request.skillLevels.length === 0) return true;
+  return request.skillLevels.includes(skill);
+}
+
+/**
+ * Open requests the user could fill, soonest game first. Leaves out their own.
+ */
+export function getMatchingSubRequests(
+  requests: SubRequestDto[],
+  user: Pick<User, 'id' | 'positions'>
+): SubRequestDto[] {
+  return requests
+    .filter((r) => r.status === 'Open' && r.requesterId !== user.id && isEligibleSub(r, user.positions))
+    .sort((a, b) => new Date(a.gameDate).getTime() - new Date(b.gameDate).getTime());
+}
+
+/**
+ * Who the sub pays once they take the spot. If the requester already paid
+ * (or says they did), the sub pays them back directly; otherwise the spot is
+ * still owed to the organizer.
+ */
+export function getSubPaymentPlan(
+  request: Pick<SubRequestDto, 'cost' | 'requesterPaymentStatus' | 'requesterVenmoHandle' | 'organizerVenmoHandle'>
+): SubPaymentPlan {
+  if (request.cost <= 0) {
+    return { payee: 'none', amount: 0 };
+  }
+  if (request.requesterPaymentStatus === 'Verified' || request.requesterPaymentStatus === 'MarkedPaid') {
+    return { payee: 'requester', amount: request.cost, venmoHandle: request.requesterVenmoHandle };
+  }
+  return { payee: 'organizer', amount: request.cost, venmoHandle: request.organizerVenmoHandle };
+}
@@ -0,0 +1,197 @@
+import { TEAM_BALANCE } from '../constants';
+import type { EventRegistrationDto, RosterOrderItem, TeamAssignment, User } from '../types';
+
+export type BalanceableRegistration = Pick<
+  EventRegistrationDto,
+  'id' | 'registeredPosition' | 'teamAssignment' | 'rosterOrder'
+> & {
+  user: Pick<User, 'positions'>;
+};
+
+export interface BalanceTeamsOptions {
+  locks?: Record<string, TeamAssignment>;  // Registration id -> team the player must stay on
+  random?: () => number;                   // Shuffles equal-skill players to propose a different split
+}
+
+export interface TeamBalanceSide {
+  goalies: number;
+  skaters: number;
+  skillPoints: number;
+}
+
+export interface TeamBalanceResult {
+  items: RosterOrderItem[];
+  black: TeamBalanceSide;
+  white: TeamBalanceSide;
+  movedCount: number;     // Players whose team changes
+  warnings: string[];
+}
+
+const TEAMS: TeamAssignment[] = ['Black', 'White'];
+
+const isGoalie = (registration: BalanceableRegistration) => registration.registeredPosition === 'Goalie';
+
+/**
+ * Skill points for a registration at the position they registered for
+ */
+export function getSkillPoints(registration: BalanceableRegistration): number {
+  const positions = registration.user.positions;
+  const level = isGoalie(registration) ? positions?.goalie : positions?.skater;
+  return level ? TEAM_BALANCE.SKILL_POINTS[level] : TEAM_BALANCE.UNRATED_POINTS;
+}
+
+function shuffle<T>(items: T[], random?: () => number): T[] {
+  const result = [...items];
+  if (!random) return result;
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Split rostered players into Black and White with one goalie each and
+ * total skill as even as possible. Locked players stay on their team.
+ * Players who keep their team keep their roster order; movers go below them.
+ */
+export function balanceTeams<T extends BalanceableRegistration>(
+  registrations: T[],
+  options: BalanceTeamsOptions = {}
+): TeamBalanceResult {
+  const { locks = {}, random } = options;
+  const points = new Map(registrations.map((r) => [r.id, getSkillPoints(r)]));
+  const pointsOf = (r: T) => points.get(r.id) ?? TEAM_BALANCE.UNRATED_POINTS;
+
+  const teams: Record<TeamAssignment, { goalies: T[]; skaters: T[] }> = {
+    Black: { goalies: [], skaters: [] },
+    White: { goalies: [], skaters: [] },
+  };
+  const total = (team: TeamAssignment) =>
+    [...teams[team].goalies, ...teams[team].skaters].reduce((sum, r) => sum + pointsOf(r), 0);
+  const other = (team: TeamAssignment): TeamAssignment => (team === 'Black' ? 'White' : 'Black');
+
+  // Strongest first; shuffling first lets equal players land either way
+  const unlocked = shuffle(registrations.filter((r) => !locks[r.id]), random).sort(
+    (a, b) => pointsOf(b) - pointsOf(a)
+  );
+  registrations
+    .filter((r) => locks[r.id])
+    .forEach((r) => teams[locks[r.id]][isGoalie(r) ? 'goalies' : 'skaters'].push(r));
+
+  // Goalies: spread one per team, then by skill
+  unlocked.filter(isGoalie).forEach((goalie) => {
+    const [black, white] = TEAMS.map((team) => teams[team].goalies.length);
+    const team: TeamAssignment =
+      black !== white ? (black < white ? 'Black' : 'White') : total('White') < total('Black') ? 'White' : 'Black';
+    teams[team].goalies.push(goalie);
+  });
+
+  // Skaters: weakest team first, keeping skater counts within one
+  const skaterCount = registrations.filter((r) => !isGoalie(r)).length;
+  const maxSkaters = Math.ceil(skaterCount / 2);
+  const unlockedSkaters = unlocked.filter((r) => !isGoalie(r));
+  unlockedSkaters.forEach((skater) => {
+    let team: TeamAssignment = total('White') < total('Black') ? 'White' : 'Black';
+    if (total('White') === total('Black') && teams.White.skaters.length < teams.Black.skaters.length) {
+      team = 'White';
+    }
+    if (teams[team].skaters.length >= maxSkaters) team = other(team);
+    teams[team].skaters.push(skater);
+  });
+
+  // Swap unlocked skater pairs while that narrows the gap
+  const canSwap = new Set(unlockedSkaters.map((r) => r.id));
+  let improved = true;
+  while (improved) {
+    improved = false;
+    const diff = total('Black') - total('White');
+    for (const black of teams.Black.skaters) {
+      if (!canSwap.has(black.id)) continue;
+      const white = teams.White.skaters.find(
+        (candidate) =>
+          canSwap.has(candidate.id) &&
+          Math.abs(diff - 2 * (pointsOf(black) - pointsOf(candidate))) < Math.abs(diff)
+      );
+      if (white) {
+        teams.Black.skaters[teams.Black.skaters.indexOf(black)] = white;
+        teams.White.skaters[teams.White.skaters.indexOf(white)] = black;
+        improved = true;
+        break;
+      }
+    }
+  }
+
+  // Without a random source, send equal players back to the team they were on
+  if (!random) {
+    (['goalies', 'skaters'] as const).forEach((group) => {
+      teams.Black[group].forEach((black, index) => {
+        if (locks[black.id] || black.teamAssignment !== 'White') return;
+        const white = teams.White[group].find(
+          (candidate) =>
+            !locks[candidate.id] && candidate.teamAssignment === 'Black' && pointsOf(candidate) === pointsOf(black)
+        );
+        if (white) {
+          teams.Black[group][index] = white;
+          teams.White[group][teams.White[group].indexOf(white)] = black;
+        }
+      });
+    });
+  }
+
+  // Players staying on a team keep their order; movers follow, strongest first
+  const ordered = (team: TeamAssignment, players: T[]) => [
+    ...players
+      .filter((r) => r.teamAssignment === team)
+      .sort((a, b) => (a.rosterOrder ?? 999) - (b.rosterOrder ?? 999)),
+    ...players.filter((r) => r.teamAssignment !== team).sort((a, b) => pointsOf(b) - pointsOf(a)),
+  ];
+  const goalieOffset = Math.max(teams.Black.goalies.length, teams.White.goalies.length, 1);
+  const items: RosterOrderItem[] = [];
+  TEAMS.forEach((team) => {
+    ordered(team, teams[team].goalies).forEach((r, i) =>
+      items.push({ registrationId: r.id, teamAssignment: team, rosterOrder: i })
+    );
+  });
+  TEAMS.forEach((team) => {
+    ordered(team, teams[team].skaters).forEach((r, i) =>
+      items.push({ registrationId: r.id, teamAssignment: team, rosterOrder: goalieOffset + i })
+    );
+  });
+
+  const warnings: string[] = [];
+  const goalieCount = teams.Black.goalies.length + teams.White.goalies.length;
+  if (goalieCount === 0) {
+    warnings.push('No goalies registered');
+  } else {
+    TEAMS.filter((team) => teams[team].goalies.length === 0).forEach((team) =>
+      warnings.push(goalieCount === 1 ? `Only one goalie registered; ${team} has none` : `${team} has no goalie`)
+    );
+  }
+  const unrated = registrations.filter((r) => {
+    const positions = r.user.positions;
+    return !(isGoalie(r) ? positions?.goalie : positions?.skater);
+  }).length;
+  if (unrated > 0) {
+    warnings.push(
+      unrated === 1
+        ? '1 player has no skill level and counts as Bronze'
+        : `${unrated} players have no skill level and count as Bronze`
+    );
+  }
+
+  const side = (team: TeamAssignment): TeamBalanceSide => ({
+    goalies: teams[team].goalies.length,
+    skaters: teams[team].skaters.length,
+    skillPoints: total(team),
+  });
+  const teamOf = new Map(items.map((item) => [item.registrationId, item.teamAssignment]));
+
+  return {
+    items,
+    black: side('Black'),
+    white: side('White'),
+    movedCount: registrations.filter((r) => r.teamAssignment !== teamOf.get(r.id)).length,
+    warnings,
+  };
+}
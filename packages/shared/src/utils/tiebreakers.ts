@@ -0,0 +1,36 @@
+import { DEFAULT_TIEBREAKER_ORDER, TIEBREAKER_LABELS } from '../constants';
+import type { TiebreakerCriterion } from '../types';
+
+const CRITERIA = Object.keys(TIEBREAKER_LABELS) as TiebreakerCriterion[];
+
+function isTiebreakerCriterion(value: unknown): value is TiebreakerCriterion {
+  return typeof value === 'string' && (CRITERIA as string[]).includes(value);
+}
+
+/**
+ * Parse TournamentDto.tiebreakerOrder (a JSON array of criteria). Unknown and
+ * duplicate entries are dropped; missing or unreadable values fall back to
+ * DEFAULT_TIEBREAKER_ORDER.
+ */
+export function parseTiebreakerOrder(value?: string | null): TiebreakerCriterion[] {
+  if (!value || !value.trim()) {
+    return [...DEFAULT_TIEBREAKER_ORDER];
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (!Array.isArray(parsed)) {
+      return [...DEFAULT_TIEBREAKER_ORDER];
+    }
+    const order = Array.from(new Set(parsed.filter(isTiebreakerCriterion)));
+    return order.length > 0 ? order : [...DEFAULT_TIEBREAKER_ORDER];
+  } catch {
+    return [...DEFAULT_TIEBREAKER_ORDER];
+  }
+}
+
+/**
+ * Serialize criteria for TournamentDto.tiebreakerOrder
+ */
+export function serializeTiebreakerOrder(order: TiebreakerCriterion[]): string {
+  return JSON.stringify(Array.from(new Set(order)));
+}
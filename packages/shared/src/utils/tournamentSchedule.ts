@@ -0,0 +1,275 @@
+import { SCHEDULE } from '../constants';
+import type {
+  ScheduleDraft,
+  ScheduledMatchSlot,
+  ScheduleSettings,
+  TournamentMatchDto,
+} from '../types';
+
+export type SchedulableMatch = Pick<
+  TournamentMatchDto,
+  | 'id'
+  | 'round'
+  | 'matchNumber'
+  | 'homeTeamId'
+  | 'homeTeamName'
+  | 'awayTeamId'
+  | 'awayTeamName'
+  | 'isBye'
+  | 'status'
+  | 'nextMatchId'
+  | 'loserNextMatchId'
+>;
+
+export interface GenerateScheduleOptions {
+  balanceHomeAway?: boolean;  // Swap home/away to even out home games (round robin)
+}
+
+export interface ScheduleConflict {
+  matchId: string;
+  message: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const byTimeThenRink = (rinks: string[]) => (a: ScheduledMatchSlot, b: ScheduledMatchSlot) =>
+  new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime() ||
+  rinks.indexOf(a.venue) - rinks.indexOf(b.venue);
+
+/**
+ * Check generator settings. Returns one message per problem; empty when valid.
+ */
+export function validateScheduleSettings(settings: ScheduleSettings): string[] {
+  const errors: string[] = [];
+  const rinks = settings.rinks.map((rink) => rink.trim());
+
+  if (rinks.length === 0) {
+    errors.push('Add at least one rink');
+  } else if (rinks.some((rink) => !rink)) {
+    errors.push('Every rink needs a name');
+  } else if (new Set(rinks.map((rink) => rink.toLowerCase())).size !== rinks.length) {
+    errors.push('Rink names must be different');
+  }
+  if (rinks.length > SCHEDULE.MAX_RINKS) {
+    errors.push(`Use at most ${SCHEDULE.MAX_RINKS} rinks`);
+  }
+
+  const { slotMinutes, minRestMinutes } = settings;
+  if (!Number.isInteger(slotMinutes) || slotMinutes < SCHEDULE.MIN_SLOT_MINUTES || slotMinutes > SCHEDULE.MAX_SLOT_MINUTES) {
+    errors.push(`Game length must be ${SCHEDULE.MIN_SLOT_MINUTES} to ${SCHEDULE.MAX_SLOT_MINUTES} minutes`);
+  }
+  if (!Number.isInteger(minRestMinutes) || minRestMinutes < 0) {
+    errors.push('Rest between games must be 0 or more minutes');
+  }
+
+  if (settings.windows.length === 0) {
+    errors.push('Add at least one time window');
+  }
+  const windows = settings.windows.map((window) => ({
+    start: new Date(window.start).getTime(),
+    end: new Date(window.end).getTime(),
+  }));
+  windows.forEach((window, index) => {
+    const prefix = `Window ${index + 1}`;
+    if (Number.isNaN(window.start) || Number.isNaN(window.end)) {
+      errors.push(`${prefix}: enter a start and end time`);
+    } else if (window.end <= window.start) {
+      errors.push(`${prefix}: end must be after start`);
+    } else if (Number.isInteger(slotMinutes) && window.end - window.start < slotMinutes * MINUTE_MS) {
+      errors.push(`${prefix}: too short for one game`);
+    } else if (windows.some((other, i) => i < index && window.start < other.end && other.start < window.end)) {
+      errors.push(`${prefix}: overlaps another window`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Every rink/start time available in the windows, in time order then rink order
+ */
+export function buildScheduleSlots(settings: ScheduleSettings): Pick<ScheduledMatchSlot, 'venue' | 'scheduledTime'>[] {
+  const slotMs = settings.slotMinutes * MINUTE_MS;
+  if (!(slotMs > 0)) return [];
+
+  const rinks = settings.rinks.map((rink) => rink.trim());
+  const windows = [...settings.windows].sort(
+    (a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()
+  );
+  const slots: Pick<ScheduledMatchSlot, 'venue' | 'scheduledTime'>[] = [];
+
+  windows.forEach((window) => {
+    const end = new Date(window.end).getTime();
+    for (let start = new Date(window.start).getTime(); start + slotMs <= end; start += slotMs) {
+      rinks.forEach((venue) => slots.push({ venue, scheduledTime: new Date(start).toISOString() }));
+    }
+  });
+  return slots;
+}
+
+/**
+ * Matches that decide who plays in each match (bracket feeders), by match id
+ */
+function getFeeders(matches: SchedulableMatch[]): Map<string, SchedulableMatch[]> {
+  const feeders = new Map<string, SchedulableMatch[]>();
+  matches.forEach((match) => {
+    [match.nextMatchId, match.loserNextMatchId].forEach((targetId) => {
+      if (targetId) feeders.set(targetId, [...(feeders.get(targetId) ?? []), match]);
+    });
+  });
+  return feeders;
+}
+
+/**
+ * Place every unplayed match in the earliest free rink/time slot where both
+ * teams have had their minimum rest and any bracket games that feed it are
+ * finished. Byes and matches already underway or played are left alone.
+ * Matches that don't fit are returned in unscheduledMatchIds.
+ */
+export function generateSchedule(
+  matches: SchedulableMatch[],
+  settings: ScheduleSettings,
+  options: GenerateScheduleOptions = {}
+): ScheduleDraft {
+  const { balanceHomeAway = false } = options;
+  const slotMs = settings.slotMinutes * MINUTE_MS;
+  const restMs = settings.minRestMinutes * MINUTE_MS;
+  const openSlots = buildScheduleSlots(settings);
+  const isTaken = openSlots.map(() => false);
+
+  const toSchedule = matches
+    .filter((match) => !match.isBye && match.status === 'Scheduled')
+    .sort((a, b) => a.round - b.round || a.matchNumber - b.matchNumber);
+  const pendingIds = new Set(toSchedule.map((match) => match.id));
+  const feeders = getFeeders(matches);
+
+  const teamFreeAt = new Map<string, number>();   // Earliest start for a team's next game
+  const matchEndsAt = new Map<string, number>();
+  const homeGames = new Map<string, number>();    // Home minus away games per team
+  const slots: ScheduledMatchSlot[] = [];
+  const unscheduledMatchIds: string[] = [];
+
+  toSchedule.forEach((match) => {
+    const teamIds = [match.homeTeamId, match.awayTeamId].filter(Boolean) as string[];
+    const matchFeeders = (feeders.get(match.id) ?? []).filter((feeder) => pendingIds.has(feeder.id));
+
+    // A match can't go before the games that decide its teams
+    if (matchFeeders.some((feeder) => !matchEndsAt.has(feeder.id))) {
+      unscheduledMatchIds.push(match.id);
+      return;
+    }
+    const earliest = Math.max(
+      0,
+      ...teamIds.map((teamId) => teamFreeAt.get(teamId) ?? 0),
+      ...matchFeeders.map((feeder) => (matchEndsAt.get(feeder.id) ?? 0) + restMs)
+    );
+
+    const slotIndex = openSlots.findIndex(
+      (slot, index) => !isTaken[index] && new Date(slot.scheduledTime).getTime() >= earliest
+    );
+    if (slotIndex < 0) {
+      unscheduledMatchIds.push(match.id);
+      return;
+    }
+    isTaken[slotIndex] = true;
+
+    const slot = openSlots[slotIndex];
+    const endsAt = new Date(slot.scheduledTime).getTime() + slotMs;
+    matchEndsAt.set(match.id, endsAt);
+    teamIds.forEach((teamId) => teamFreeAt.set(teamId, endsAt + restMs));
+
+    let homeTeamId = match.homeTeamId;
+    let awayTeamId = match.awayTeamId;
+    if (homeTeamId && awayTeamId) {
+      if (balanceHomeAway && (homeGames.get(homeTeamId) ?? 0) > (homeGames.get(awayTeamId) ?? 0)) {
+        [homeTeamId, awayTeamId] = [awayTeamId, homeTeamId];
+      }
+      homeGames.set(homeTeamId, (homeGames.get(homeTeamId) ?? 0) + 1);
+      homeGames.set(awayTeamId, (homeGames.get(awayTeamId) ?? 0) - 1);
+    }
+
+    slots.push({ matchId: match.id, ...slot, homeTeamId, awayTeamId });
+  });
+
+  return { slots: slots.sort(byTimeThenRink(settings.rinks.map((rink) => rink.trim()))), unscheduledMatchIds };
+}
+
+/**
+ * Swap two matches between their slots; rinks and times stay where they are
+ */
+export function swapScheduledMatches(
+  slots: ScheduledMatchSlot[],
+  matchIdA: string,
+  matchIdB: string
+): ScheduledMatchSlot[] {
+  const a = slots.find((slot) => slot.matchId === matchIdA);
+  const b = slots.find((slot) => slot.matchId === matchIdB);
+  if (!a || !b || a === b) return slots;
+
+  return slots.map((slot) => {
+    if (slot === a) return { ...b, venue: a.venue, scheduledTime: a.scheduledTime };
+    if (slot === b) return { ...a, venue: b.venue, scheduledTime: b.scheduledTime };
+    return slot;
+  });
+}
+
+/**
+ * Problems in a draft after manual changes: teams without their minimum rest
+ * (or playing twice at once), and bracket games scheduled before the games
+ * that feed them. One conflict per problem, on the later match.
+ */
+export function findScheduleConflicts(
+  slots: ScheduledMatchSlot[],
+  matches: SchedulableMatch[],
+  settings: Pick<ScheduleSettings, 'slotMinutes' | 'minRestMinutes'>
+): ScheduleConflict[] {
+  const slotMs = settings.slotMinutes * MINUTE_MS;
+  const restMs = settings.minRestMinutes * MINUTE_MS;
+  const startOf = new Map(slots.map((slot) => [slot.matchId, new Date(slot.scheduledTime).getTime()]));
+  const feeders = getFeeders(matches);
+  const conflicts: ScheduleConflict[] = [];
+
+  // Slots may have swapped home/away, so names come from the slot's team ids
+  const teamNames = new Map<string, string>();
+  matches.forEach((match) => {
+    if (match.homeTeamId && match.homeTeamName) teamNames.set(match.homeTeamId, match.homeTeamName);
+    if (match.awayTeamId && match.awayTeamName) teamNames.set(match.awayTeamId, match.awayTeamName);
+  });
+
+  const ordered = [...slots].sort((a, b) => (startOf.get(a.matchId) ?? 0) - (startOf.get(b.matchId) ?? 0));
+  const lastGame = new Map<string, number>();  // Team id -> start of its previous game
+
+  ordered.forEach((slot) => {
+    const start = startOf.get(slot.matchId) ?? 0;
+
+    [slot.homeTeamId, slot.awayTeamId].forEach((teamId) => {
+      if (!teamId) return;
+      const previousStart = lastGame.get(teamId);
+      if (previousStart !== undefined) {
+        const restMinutes = Math.round((start - previousStart - slotMs) / MINUTE_MS);
+        const teamName = teamNames.get(teamId) ?? 'A team';
+        if (start - previousStart < slotMs) {
+          conflicts.push({ matchId: slot.matchId, message: `${teamName} is already playing at this time` });
+        } else if (start - previousStart - slotMs < restMs) {
+          conflicts.push({
+            matchId: slot.matchId,
+            message: `${teamName} only gets ${restMinutes} min of rest before this game`,
+          });
+        }
+      }
+      lastGame.set(teamId, start);
+    });
+
+    (feeders.get(slot.matchId) ?? []).forEach((feeder) => {
+      const feederStart = startOf.get(feeder.id);
+      if (feederStart !== undefined && feederStart + slotMs > start) {
+        conflicts.push({
+          matchId: slot.matchId,
+          message: `Starts before Match ${feeder.matchNumber}, which decides who plays`,
+        });
+      }
+    });
+  });
+
+  return conflicts;
+}
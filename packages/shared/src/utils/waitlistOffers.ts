@@ -0,0 +1,36 @@
+import type { EventRegistrationDto } from '../types';
+
+/**
+ * Milliseconds left on an offer (never negative), or null when there is no offer
+ */
+export function getOfferTimeRemaining(
+  offerExpiresAt: string | null | undefined,
+  now: Date = new Date()
+): number | null {
+  if (!offerExpiresAt) return null;
+  return Math.max(0, new Date(offerExpiresAt).getTime() - now.getTime());
+}
+
+/**
+ * True while a waitlisted player holds an offer that hasn't lapsed
+ */
+export function isOfferActive(
+  registration: Pick<EventRegistrationDto, 'isWaitlisted' | 'offerExpiresAt'>,
+  now: Date = new Date()
+): boolean {
+  const remaining = getOfferTimeRemaining(registration.offerExpiresAt, now);
+  return registration.isWaitlisted && remaining !== null && remaining > 0;
+}
+
+/**
+ * Countdown label, e.g. "1h 05m" or "4m 09s". Seconds are only shown in the last hour.
+ */
+export function formatOfferCountdown(remainingMs: number): string {
+  if (remainingMs <= 0) return 'Expired';
+  const totalSeconds = Math.floor(remainingMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+}